@@ -428,7 +428,7 @@ function BomDetailView({
     },
   });
 
-  const getMaterialName = (materialId: string) => {
+  const getMaterialName = (materialId: string | null) => {
     return materials.find((m) => m.id === materialId)?.name || "-";
   };
 
@@ -0,0 +1,84 @@
+-- Migration: Salon appointment engine
+-- Adds buffer/cleanup and resource requirements to services, stylist schedules,
+-- salon resources and multi-service appointments
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER DEFAULT 0;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS cleanup_minutes INTEGER DEFAULT 0;
+ALTER TABLE services ADD COLUMN IF NOT EXISTS required_resource_type VARCHAR(30);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'salon_resource_type') THEN
+    CREATE TYPE salon_resource_type AS ENUM ('chair', 'room', 'wash_station', 'bed', 'other');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS salon_stylist_schedules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  staff_id VARCHAR NOT NULL REFERENCES tenant_staff(id) ON DELETE CASCADE,
+  schedule JSONB DEFAULT '{}'::jsonb,
+  blocked_dates JSONB DEFAULT '[]'::jsonb,
+  service_ids JSONB DEFAULT '[]'::jsonb,
+  is_bookable BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_salon_stylist_schedules_tenant ON salon_stylist_schedules(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_salon_stylist_schedules_staff ON salon_stylist_schedules(tenant_id, staff_id);
+
+CREATE TABLE IF NOT EXISTS salon_resources (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  type salon_resource_type NOT NULL DEFAULT 'chair',
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_salon_resources_tenant ON salon_resources(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_salon_resources_type ON salon_resources(tenant_id, type);
+
+CREATE TABLE IF NOT EXISTS salon_appointments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id),
+  appointment_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  status booking_status DEFAULT 'pending',
+  total_amount NUMERIC(10, 2) DEFAULT 0,
+  notes TEXT,
+  cancelled_at TIMESTAMP,
+  cancel_reason TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_salon_appointments_tenant ON salon_appointments(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_salon_appointments_customer ON salon_appointments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_salon_appointments_date ON salon_appointments(tenant_id, appointment_date);
+
+CREATE TABLE IF NOT EXISTS salon_appointment_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  appointment_id VARCHAR NOT NULL REFERENCES salon_appointments(id) ON DELETE CASCADE,
+  booking_id VARCHAR REFERENCES bookings(id),
+  service_id VARCHAR NOT NULL REFERENCES services(id),
+  staff_id VARCHAR NOT NULL REFERENCES tenant_staff(id),
+  resource_id VARCHAR REFERENCES salon_resources(id),
+  sequence INTEGER NOT NULL DEFAULT 0,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  blocked_from TIME NOT NULL,
+  blocked_until TIME NOT NULL,
+  price NUMERIC(10, 2) DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_salon_appointment_items_appointment ON salon_appointment_items(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_salon_appointment_items_staff ON salon_appointment_items(tenant_id, staff_id);
+CREATE INDEX IF NOT EXISTS idx_salon_appointment_items_resource ON salon_appointment_items(tenant_id, resource_id);
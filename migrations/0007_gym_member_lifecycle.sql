@@ -0,0 +1,120 @@
+-- Migration: Gym member lifecycle
+-- Adds gym member profiles, membership freezes, class sessions with waitlists,
+-- check-in logging and renewal reminder tracking on customer memberships
+-- Idempotent: Safe to run multiple times
+
+ALTER TYPE notification_event_type ADD VALUE IF NOT EXISTS 'membership_expiring';
+ALTER TYPE notification_event_type ADD VALUE IF NOT EXISTS 'membership_expired';
+
+ALTER TABLE customer_memberships ADD COLUMN IF NOT EXISTS renewal_reminder_sent_at TIMESTAMP;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gym_check_in_method') THEN
+    CREATE TYPE gym_check_in_method AS ENUM ('qr', 'pin', 'manual');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gym_class_booking_status') THEN
+    CREATE TYPE gym_class_booking_status AS ENUM ('booked', 'waitlisted', 'attended', 'cancelled', 'no_show');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS gym_members (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id),
+  member_code VARCHAR(20) NOT NULL,
+  qr_token VARCHAR(64) NOT NULL,
+  pin_hash TEXT,
+  emergency_contact_name TEXT,
+  emergency_contact_phone VARCHAR(30),
+  health_notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  joined_at DATE,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_gym_members_tenant ON gym_members(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gym_members_customer ON gym_members(tenant_id, customer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gym_members_code ON gym_members(tenant_id, member_code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gym_members_qr ON gym_members(qr_token);
+
+CREATE TABLE IF NOT EXISTS gym_membership_freezes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  membership_id VARCHAR NOT NULL REFERENCES customer_memberships(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  days_frozen INTEGER,
+  reason TEXT,
+  frozen_by VARCHAR REFERENCES users(id),
+  unfrozen_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_gym_membership_freezes_membership ON gym_membership_freezes(membership_id);
+
+CREATE TABLE IF NOT EXISTS gym_classes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  trainer_id VARCHAR REFERENCES tenant_staff(id),
+  location TEXT,
+  duration_minutes INTEGER NOT NULL DEFAULT 60,
+  capacity INTEGER NOT NULL,
+  waitlist_limit INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_gym_classes_tenant ON gym_classes(tenant_id);
+
+CREATE TABLE IF NOT EXISTS gym_class_sessions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  class_id VARCHAR NOT NULL REFERENCES gym_classes(id) ON DELETE CASCADE,
+  trainer_id VARCHAR REFERENCES tenant_staff(id),
+  session_date DATE NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  capacity INTEGER NOT NULL,
+  waitlist_limit INTEGER DEFAULT 0,
+  is_cancelled BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_gym_class_sessions_tenant_date ON gym_class_sessions(tenant_id, session_date);
+CREATE INDEX IF NOT EXISTS idx_gym_class_sessions_class ON gym_class_sessions(class_id);
+
+CREATE TABLE IF NOT EXISTS gym_class_bookings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  session_id VARCHAR NOT NULL REFERENCES gym_class_sessions(id) ON DELETE CASCADE,
+  member_id VARCHAR NOT NULL REFERENCES gym_members(id),
+  status gym_class_booking_status NOT NULL DEFAULT 'booked',
+  waitlisted_at TIMESTAMP,
+  promoted_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_gym_class_bookings_session ON gym_class_bookings(session_id, status);
+CREATE INDEX IF NOT EXISTS idx_gym_class_bookings_member ON gym_class_bookings(tenant_id, member_id);
+
+CREATE TABLE IF NOT EXISTS gym_check_ins (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id VARCHAR REFERENCES gym_members(id),
+  membership_id VARCHAR REFERENCES customer_memberships(id),
+  session_id VARCHAR REFERENCES gym_class_sessions(id),
+  method gym_check_in_method NOT NULL,
+  allowed BOOLEAN NOT NULL,
+  denied_reason TEXT,
+  checked_in_at TIMESTAMP DEFAULT NOW(),
+  recorded_by VARCHAR REFERENCES users(id),
+  ip_address VARCHAR(45)
+);
+CREATE INDEX IF NOT EXISTS idx_gym_check_ins_tenant_time ON gym_check_ins(tenant_id, checked_in_at);
+CREATE INDEX IF NOT EXISTS idx_gym_check_ins_member ON gym_check_ins(member_id);
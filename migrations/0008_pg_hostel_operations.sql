@@ -0,0 +1,163 @@
+-- Migration: PG/hostel operations
+-- Adds rooms with bed-level inventory, residents, security deposit ledger,
+-- monthly rent runs, late-fee rules and maintenance tickets
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_bed_status') THEN
+    CREATE TYPE pg_bed_status AS ENUM ('available', 'occupied', 'reserved', 'maintenance');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_resident_status') THEN
+    CREATE TYPE pg_resident_status AS ENUM ('active', 'moved_out');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_deposit_entry_type') THEN
+    CREATE TYPE pg_deposit_entry_type AS ENUM ('collected', 'deduction', 'refund', 'adjustment');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_late_fee_type') THEN
+    CREATE TYPE pg_late_fee_type AS ENUM ('flat', 'percent');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_maintenance_status') THEN
+    CREATE TYPE pg_maintenance_status AS ENUM ('open', 'assigned', 'in_progress', 'resolved', 'closed', 'cancelled');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'pg_maintenance_priority') THEN
+    CREATE TYPE pg_maintenance_priority AS ENUM ('low', 'medium', 'high', 'urgent');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS pg_rooms (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  room_number VARCHAR(30) NOT NULL,
+  floor VARCHAR(20),
+  room_type VARCHAR(30) DEFAULT 'shared',
+  monthly_rent DECIMAL(10, 2) NOT NULL,
+  amenities JSONB DEFAULT '[]'::jsonb,
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_pg_rooms_tenant ON pg_rooms(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pg_rooms_number ON pg_rooms(tenant_id, room_number);
+
+CREATE TABLE IF NOT EXISTS pg_beds (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  room_id VARCHAR NOT NULL REFERENCES pg_rooms(id) ON DELETE CASCADE,
+  label VARCHAR(20) NOT NULL,
+  monthly_rent DECIMAL(10, 2),
+  status pg_bed_status NOT NULL DEFAULT 'available',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_pg_beds_tenant_status ON pg_beds(tenant_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pg_beds_label ON pg_beds(room_id, label);
+
+CREATE TABLE IF NOT EXISTS pg_residents (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id),
+  bed_id VARCHAR NOT NULL REFERENCES pg_beds(id),
+  status pg_resident_status NOT NULL DEFAULT 'active',
+  move_in_date DATE NOT NULL,
+  move_out_date DATE,
+  monthly_rent DECIMAL(10, 2) NOT NULL,
+  security_deposit DECIMAL(10, 2) DEFAULT 0,
+  emergency_contact_name TEXT,
+  emergency_contact_phone VARCHAR(30),
+  id_proof_type VARCHAR(30),
+  id_proof_number VARCHAR(50),
+  notes TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_pg_residents_tenant_status ON pg_residents(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_pg_residents_customer ON pg_residents(customer_id);
+CREATE INDEX IF NOT EXISTS idx_pg_residents_bed ON pg_residents(bed_id);
+
+CREATE TABLE IF NOT EXISTS pg_deposit_ledger (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  resident_id VARCHAR NOT NULL REFERENCES pg_residents(id) ON DELETE CASCADE,
+  entry_type pg_deposit_entry_type NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  balance_after DECIMAL(10, 2) NOT NULL,
+  description TEXT,
+  payment_method payment_method,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_pg_deposit_ledger_resident ON pg_deposit_ledger(resident_id, created_at);
+
+CREATE TABLE IF NOT EXISTS pg_rent_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  period VARCHAR(7) NOT NULL,
+  invoice_count INTEGER DEFAULT 0,
+  total_amount DECIMAL(12, 2) DEFAULT 0,
+  run_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_pg_rent_runs_tenant ON pg_rent_runs(tenant_id, period);
+
+CREATE TABLE IF NOT EXISTS pg_rent_charges (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id VARCHAR REFERENCES pg_rent_runs(id),
+  resident_id VARCHAR NOT NULL REFERENCES pg_residents(id),
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id),
+  period VARCHAR(7) NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  days_billed INTEGER NOT NULL,
+  days_in_period INTEGER NOT NULL,
+  monthly_rent DECIMAL(10, 2) NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  late_fee_amount DECIMAL(10, 2),
+  late_fee_applied_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pg_rent_charges_resident_period ON pg_rent_charges(resident_id, period);
+CREATE INDEX IF NOT EXISTS idx_pg_rent_charges_tenant_period ON pg_rent_charges(tenant_id, period);
+
+CREATE TABLE IF NOT EXISTS pg_late_fee_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  grace_days INTEGER NOT NULL DEFAULT 5,
+  fee_type pg_late_fee_type NOT NULL DEFAULT 'flat',
+  amount DECIMAL(10, 2) NOT NULL,
+  max_amount DECIMAL(10, 2),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pg_late_fee_rules_tenant ON pg_late_fee_rules(tenant_id);
+
+CREATE TABLE IF NOT EXISTS pg_maintenance_tickets (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  ticket_number VARCHAR(20) NOT NULL,
+  room_id VARCHAR REFERENCES pg_rooms(id),
+  bed_id VARCHAR REFERENCES pg_beds(id),
+  resident_id VARCHAR REFERENCES pg_residents(id),
+  title TEXT NOT NULL,
+  description TEXT,
+  category VARCHAR(50),
+  priority pg_maintenance_priority NOT NULL DEFAULT 'medium',
+  status pg_maintenance_status NOT NULL DEFAULT 'open',
+  assigned_to VARCHAR REFERENCES tenant_staff(id),
+  resolution_notes TEXT,
+  cost DECIMAL(10, 2),
+  resolved_at TIMESTAMP,
+  closed_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_pg_maintenance_tickets_tenant_status ON pg_maintenance_tickets(tenant_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pg_maintenance_tickets_number ON pg_maintenance_tickets(tenant_id, ticket_number);
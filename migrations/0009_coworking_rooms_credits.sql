@@ -0,0 +1,87 @@
+-- Migration: Coworking meeting rooms, credits and recurring desk reservations
+-- Adds hourly meeting rooms and their bookings, per-plan credit allowances,
+-- recurring desk reservations, and links desk bookings to members/recurrences
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'coworking_recurrence_status') THEN
+    CREATE TYPE coworking_recurrence_status AS ENUM ('active', 'cancelled');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS coworking_meeting_rooms (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  space_id VARCHAR NOT NULL REFERENCES spaces(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  capacity INTEGER NOT NULL DEFAULT 4,
+  hourly_rate DECIMAL(10, 2) NOT NULL,
+  credits_per_hour DECIMAL(6, 2) NOT NULL DEFAULT 1,
+  open_time TIME NOT NULL DEFAULT '08:00',
+  close_time TIME NOT NULL DEFAULT '20:00',
+  amenities JSONB DEFAULT '[]'::jsonb,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_coworking_meeting_rooms_tenant ON coworking_meeting_rooms(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_coworking_meeting_rooms_space ON coworking_meeting_rooms(space_id);
+
+CREATE TABLE IF NOT EXISTS coworking_room_bookings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  room_id VARCHAR NOT NULL REFERENCES coworking_meeting_rooms(id),
+  customer_id VARCHAR NOT NULL REFERENCES customers(id),
+  membership_id VARCHAR REFERENCES customer_memberships(id),
+  title TEXT,
+  start_time TIMESTAMP NOT NULL,
+  end_time TIMESTAMP NOT NULL,
+  hours DECIMAL(6, 2) NOT NULL,
+  credits_used DECIMAL(8, 2) NOT NULL DEFAULT 0,
+  overage_hours DECIMAL(6, 2) NOT NULL DEFAULT 0,
+  overage_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  invoice_id VARCHAR REFERENCES invoices(id),
+  status booking_status DEFAULT 'confirmed',
+  notes TEXT,
+  booked_by VARCHAR REFERENCES users(id),
+  cancelled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_coworking_room_bookings_room_time ON coworking_room_bookings(room_id, start_time);
+CREATE INDEX IF NOT EXISTS idx_coworking_room_bookings_customer ON coworking_room_bookings(tenant_id, customer_id, start_time);
+
+CREATE TABLE IF NOT EXISTS coworking_plan_allowances (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  plan_id VARCHAR NOT NULL REFERENCES membership_plans(id) ON DELETE CASCADE,
+  monthly_credits DECIMAL(8, 2) NOT NULL DEFAULT 0,
+  overage_hourly_rate DECIMAL(10, 2),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coworking_plan_allowances_plan ON coworking_plan_allowances(plan_id);
+CREATE INDEX IF NOT EXISTS idx_coworking_plan_allowances_tenant ON coworking_plan_allowances(tenant_id);
+
+CREATE TABLE IF NOT EXISTS coworking_desk_recurrences (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  desk_id VARCHAR NOT NULL REFERENCES desks(id),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  customer_id VARCHAR REFERENCES customers(id),
+  weekdays JSONB NOT NULL DEFAULT '[]'::jsonb,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status coworking_recurrence_status NOT NULL DEFAULT 'active',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_coworking_desk_recurrences_tenant ON coworking_desk_recurrences(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_coworking_desk_recurrences_desk ON coworking_desk_recurrences(desk_id);
+
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS customer_id VARCHAR REFERENCES customers(id);
+ALTER TABLE desk_bookings ADD COLUMN IF NOT EXISTS recurrence_id VARCHAR REFERENCES coworking_desk_recurrences(id);
@@ -0,0 +1,10 @@
+-- Migration: General-service job workflow
+-- Tracks when work on a booking started and finished, and the invoice it was
+-- converted into
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS invoice_id VARCHAR REFERENCES invoices(id);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_staff_date ON bookings(staff_id, booking_date);
@@ -0,0 +1,56 @@
+-- Migration: Mobile offline sync
+-- Stores per-device change-feed cursors and the offline edits received from
+-- devices, including conflicts awaiting manual resolution
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'mobile_sync_status') THEN
+    CREATE TYPE mobile_sync_status AS ENUM ('pending', 'processed', 'conflict', 'failed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS mobile_sync_cursors (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id VARCHAR(255) NOT NULL,
+  entity VARCHAR(50) NOT NULL,
+  last_synced_at TIMESTAMP,
+  cursor_updated_at TIMESTAMP,
+  cursor_record_id VARCHAR,
+  server_version INTEGER NOT NULL DEFAULT 0,
+  checksum VARCHAR(16),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_sync_cursors_device_entity ON mobile_sync_cursors(tenant_id, user_id, device_id, entity);
+
+CREATE TABLE IF NOT EXISTS mobile_sync_changes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  device_id VARCHAR(255) NOT NULL,
+  entity VARCHAR(50) NOT NULL,
+  record_id VARCHAR NOT NULL,
+  action VARCHAR(10) NOT NULL,
+  payload JSONB DEFAULT '{}'::jsonb,
+  client_timestamp TIMESTAMP NOT NULL,
+  base_updated_at TIMESTAMP,
+  status mobile_sync_status NOT NULL DEFAULT 'pending',
+  resolution VARCHAR(20),
+  server_data JSONB,
+  error_message TEXT,
+  resolved_by VARCHAR REFERENCES users(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_sync_changes_replay ON mobile_sync_changes(tenant_id, device_id, entity, record_id, client_timestamp);
+CREATE INDEX IF NOT EXISTS idx_mobile_sync_changes_status ON mobile_sync_changes(tenant_id, status);
+
+-- Change feeds page through rows by (updated_at, id)
+CREATE INDEX IF NOT EXISTS idx_customers_sync ON customers(tenant_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_bookings_sync ON bookings(tenant_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_invoices_sync ON invoices(tenant_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_attendance_sync ON attendance(tenant_id, updated_at, id);
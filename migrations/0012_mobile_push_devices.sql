@@ -0,0 +1,36 @@
+-- Migration: Mobile push notifications
+-- Persists mobile devices with their push tokens and adds the push channel
+-- to per-user notification preferences
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'mobile_platform') THEN
+    CREATE TYPE mobile_platform AS ENUM ('ios', 'android');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS mobile_devices (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  platform mobile_platform NOT NULL,
+  device_id VARCHAR(255) NOT NULL,
+  device_name VARCHAR(255),
+  push_token TEXT,
+  push_provider VARCHAR(10) NOT NULL DEFAULT 'fcm',
+  push_token_updated_at TIMESTAMP,
+  push_token_invalidated_at TIMESTAMP,
+  invalidation_reason VARCHAR(100),
+  app_version VARCHAR(50),
+  os_version VARCHAR(50),
+  last_active_at TIMESTAMP DEFAULT NOW(),
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_devices_user_device ON mobile_devices(user_id, device_id);
+CREATE INDEX IF NOT EXISTS idx_mobile_devices_tenant_user ON mobile_devices(tenant_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_mobile_devices_push_token ON mobile_devices(push_token);
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS push_enabled BOOLEAN DEFAULT true;
@@ -0,0 +1,56 @@
+-- Migration: Outbound tenant webhooks
+-- Tenant-configured webhook endpoints with event filters and a delivery log
+-- used for retries and replays
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'tenant_webhook_endpoint_status') THEN
+    CREATE TYPE tenant_webhook_endpoint_status AS ENUM ('active', 'disabled');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'tenant_webhook_delivery_status') THEN
+    CREATE TYPE tenant_webhook_delivery_status AS ENUM ('pending', 'succeeded', 'failed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS tenant_webhook_endpoints (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description VARCHAR(255),
+  events JSONB NOT NULL DEFAULT '[]',
+  secret VARCHAR(100) NOT NULL,
+  status tenant_webhook_endpoint_status NOT NULL DEFAULT 'active',
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  disabled_at TIMESTAMP,
+  disabled_reason VARCHAR(255),
+  last_delivery_at TIMESTAMP,
+  last_success_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_tenant_webhook_endpoints_tenant ON tenant_webhook_endpoints(tenant_id, status);
+
+CREATE TABLE IF NOT EXISTS tenant_webhook_deliveries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  endpoint_id VARCHAR NOT NULL REFERENCES tenant_webhook_endpoints(id) ON DELETE CASCADE,
+  event_id VARCHAR NOT NULL,
+  event_type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status tenant_webhook_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP,
+  last_attempt_at TIMESTAMP,
+  response_status INTEGER,
+  response_body TEXT,
+  error_message TEXT,
+  duration_ms INTEGER,
+  replay_of VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_tenant_webhook_deliveries_due ON tenant_webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_tenant_webhook_deliveries_endpoint ON tenant_webhook_deliveries(endpoint_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tenant_webhook_deliveries_event ON tenant_webhook_deliveries(tenant_id, event_id);
@@ -0,0 +1,6 @@
+-- Migration: Public API token limits
+-- Adds a per-token request rate limit used by the versioned public API
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE api_tokens ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER;
+CREATE INDEX IF NOT EXISTS idx_api_tokens_hash ON api_tokens(token_hash);
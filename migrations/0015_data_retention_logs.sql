@@ -0,0 +1,24 @@
+-- Migration: Data retention executor
+-- Logs each execution of a data retention policy (purge, archive, anonymize)
+-- Idempotent: Safe to run multiple times
+
+CREATE TABLE IF NOT EXISTS data_retention_logs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  policy_id VARCHAR REFERENCES data_retention_policies(id) ON DELETE SET NULL,
+  resource_type VARCHAR(100) NOT NULL,
+  action VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  cutoff_date TIMESTAMP,
+  record_count INTEGER DEFAULT 0,
+  record_ids JSONB DEFAULT '[]',
+  archive_path TEXT,
+  reason TEXT,
+  error_message TEXT,
+  triggered_by VARCHAR,
+  started_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_retention_logs_tenant ON data_retention_logs(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_retention_logs_policy ON data_retention_logs(policy_id);
@@ -0,0 +1,22 @@
+-- Migration: GST e-invoicing
+-- Seller address and IRP credentials on GST configurations, buyer location
+-- and IRN lifecycle fields on GST invoices
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS address_line1 VARCHAR(100);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS address_line2 VARCHAR(100);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS city VARCHAR(50);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS pincode VARCHAR(6);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS phone VARCHAR(12);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS email VARCHAR(100);
+ALTER TABLE gst_configurations ADD COLUMN IF NOT EXISTS e_invoice_password_encrypted TEXT;
+
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS customer_city VARCHAR(50);
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS customer_pincode VARCHAR(6);
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS e_invoice_status VARCHAR(20);
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS e_invoice_signed_invoice TEXT;
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS e_invoice_error TEXT;
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS e_invoice_cancelled_at TIMESTAMP;
+ALTER TABLE gst_invoices ADD COLUMN IF NOT EXISTS e_invoice_cancel_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_gst_invoices_tenant_date ON gst_invoices(tenant_id, invoice_date);
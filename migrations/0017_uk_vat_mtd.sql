@@ -0,0 +1,61 @@
+-- Migration: UK VAT Making Tax Digital returns
+-- Purchase-side input VAT, prepared and submitted nine-box VAT returns, and
+-- accounting basis and HMRC token on VAT configurations
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE uk_vat_configurations ADD COLUMN IF NOT EXISTS accounting_basis VARCHAR(20) DEFAULT 'accrual';
+ALTER TABLE uk_vat_configurations ADD COLUMN IF NOT EXISTS mtd_access_token_encrypted TEXT;
+
+CREATE TABLE IF NOT EXISTS uk_vat_purchases (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  supplier_name VARCHAR(255) NOT NULL,
+  supplier_vat_number VARCHAR(15),
+  supplier_reference VARCHAR(50),
+  invoice_date DATE NOT NULL,
+  net_amount DECIMAL(15, 2) NOT NULL,
+  vat_amount DECIMAL(15, 2) NOT NULL,
+  total_amount DECIMAL(15, 2) NOT NULL,
+  is_reverse_charge BOOLEAN DEFAULT false,
+  is_ec_acquisition BOOLEAN DEFAULT false,
+  is_capital_asset BOOLEAN DEFAULT false,
+  status VARCHAR(20) DEFAULT 'recorded',
+  paid_at TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_uk_vat_purchases_tenant_date ON uk_vat_purchases(tenant_id, invoice_date);
+
+CREATE TABLE IF NOT EXISTS uk_vat_returns (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  period_key VARCHAR(4) NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  due_date DATE NOT NULL,
+  vat_scheme VARCHAR(50) NOT NULL,
+  accounting_basis VARCHAR(20) NOT NULL,
+  vat_due_sales DECIMAL(15, 2) NOT NULL,
+  vat_due_acquisitions DECIMAL(15, 2) NOT NULL,
+  total_vat_due DECIMAL(15, 2) NOT NULL,
+  vat_reclaimed_curr_period DECIMAL(15, 2) NOT NULL,
+  net_vat_due DECIMAL(15, 2) NOT NULL,
+  total_value_sales_ex_vat DECIMAL(15, 2) NOT NULL,
+  total_value_purchases_ex_vat DECIMAL(15, 2) NOT NULL,
+  total_value_goods_supplied_ex_vat DECIMAL(15, 2) NOT NULL,
+  total_acquisitions_ex_vat DECIMAL(15, 2) NOT NULL,
+  sales_count INTEGER DEFAULT 0,
+  purchases_count INTEGER DEFAULT 0,
+  status VARCHAR(20) DEFAULT 'draft',
+  submitted_at TIMESTAMP,
+  submitted_by VARCHAR,
+  processing_date TIMESTAMP,
+  form_bundle_number VARCHAR(12),
+  charge_ref_number VARCHAR(20),
+  payment_indicator VARCHAR(10),
+  submission_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_uk_vat_returns_tenant_period ON uk_vat_returns(tenant_id, period_key);
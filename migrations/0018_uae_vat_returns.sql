@@ -0,0 +1,30 @@
+-- Migration: UAE VAT 201 returns and FTA audit file
+-- Purchase-side input tax and designated zone details on UAE VAT invoices
+-- Idempotent: Safe to run multiple times
+
+ALTER TABLE uae_vat_invoices ADD COLUMN IF NOT EXISTS customer_free_zone VARCHAR(100);
+ALTER TABLE uae_vat_invoices ADD COLUMN IF NOT EXISTS supply_nature VARCHAR(20) DEFAULT 'goods';
+
+CREATE TABLE IF NOT EXISTS uae_vat_purchases (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  supplier_name VARCHAR(255) NOT NULL,
+  supplier_trn VARCHAR(15),
+  supplier_country VARCHAR(2) DEFAULT 'AE',
+  invoice_number VARCHAR(50) NOT NULL,
+  invoice_date TIMESTAMP NOT NULL,
+  description TEXT,
+  customs_declaration_number VARCHAR(50),
+  taxable_amount DECIMAL(15, 2) NOT NULL,
+  vat_amount DECIMAL(15, 2) NOT NULL,
+  total_amount DECIMAL(15, 2) NOT NULL,
+  currency VARCHAR(3) DEFAULT 'AED',
+  exchange_rate DECIMAL(10, 6),
+  is_reverse_charge BOOLEAN DEFAULT false,
+  is_import BOOLEAN DEFAULT false,
+  is_recoverable BOOLEAN DEFAULT true,
+  status VARCHAR(20) DEFAULT 'recorded',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_uae_vat_purchases_tenant_date ON uae_vat_purchases(tenant_id, invoice_date);
@@ -0,0 +1,82 @@
+-- Migration: Cross-module invoice ledger
+-- Numbering series, ledger documents (invoices, credit and debit notes) and their payment, refund and credit entries
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ledger_document_type') THEN
+    CREATE TYPE ledger_document_type AS ENUM ('invoice', 'credit_note', 'debit_note');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ledger_source_module') THEN
+    CREATE TYPE ledger_source_module AS ENUM ('core', 'furniture', 'legal', 'education', 'tourism', 'ledger');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ledger_document_status') THEN
+    CREATE TYPE ledger_document_status AS ENUM ('open', 'partially_paid', 'paid', 'credited', 'applied', 'void');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ledger_entry_type') THEN
+    CREATE TYPE ledger_entry_type AS ENUM ('payment', 'refund', 'credit');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS invoice_number_series (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  document_type ledger_document_type NOT NULL,
+  prefix VARCHAR(20) NOT NULL,
+  next_number INTEGER NOT NULL DEFAULT 1,
+  padding INTEGER NOT NULL DEFAULT 6,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_number_series_type ON invoice_number_series(tenant_id, document_type);
+
+CREATE TABLE IF NOT EXISTS ledger_documents (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  document_type ledger_document_type NOT NULL DEFAULT 'invoice',
+  document_number VARCHAR(50) NOT NULL,
+  source_module ledger_source_module NOT NULL,
+  source_id VARCHAR,
+  source_reference VARCHAR(100),
+  original_document_id VARCHAR,
+  party_type VARCHAR(30) NOT NULL,
+  party_id VARCHAR,
+  party_name VARCHAR(255),
+  currency VARCHAR(10) NOT NULL DEFAULT 'INR',
+  issue_date DATE NOT NULL,
+  due_date DATE,
+  subtotal DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15, 2) NOT NULL,
+  paid_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  credited_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  refunded_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  balance_amount DECIMAL(15, 2) NOT NULL,
+  status ledger_document_status NOT NULL DEFAULT 'open',
+  reason TEXT,
+  voided_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_documents_number ON ledger_documents(tenant_id, document_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_documents_source ON ledger_documents(tenant_id, source_module, source_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_documents_party ON ledger_documents(tenant_id, party_type, party_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_documents_status ON ledger_documents(tenant_id, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_ledger_documents_original ON ledger_documents(original_document_id);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  document_id VARCHAR NOT NULL REFERENCES ledger_documents(id) ON DELETE CASCADE,
+  entry_type ledger_entry_type NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL,
+  entry_date DATE NOT NULL,
+  credit_note_id VARCHAR REFERENCES ledger_documents(id) ON DELETE SET NULL,
+  reference VARCHAR(255),
+  reason TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_document ON ledger_entries(document_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_tenant ON ledger_entries(tenant_id, entry_type);
@@ -0,0 +1,79 @@
+-- Migration: Double-entry general ledger
+-- Per-tenant chart of accounts, journal entries and lines, and accounting periods with close/lock
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gl_account_type') THEN
+    CREATE TYPE gl_account_type AS ENUM ('asset', 'liability', 'equity', 'income', 'expense');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gl_journal_status') THEN
+    CREATE TYPE gl_journal_status AS ENUM ('posted', 'reversed');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'gl_period_status') THEN
+    CREATE TYPE gl_period_status AS ENUM ('open', 'closed', 'locked');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS gl_accounts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  account_type gl_account_type NOT NULL,
+  system_key VARCHAR(50),
+  parent_id VARCHAR,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_accounts_code ON gl_accounts(tenant_id, code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_accounts_system_key ON gl_accounts(tenant_id, system_key);
+
+CREATE TABLE IF NOT EXISTS gl_journal_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entry_number INTEGER NOT NULL,
+  entry_date DATE NOT NULL,
+  source_type VARCHAR(40) NOT NULL DEFAULT 'manual',
+  source_id VARCHAR,
+  description TEXT NOT NULL,
+  currency VARCHAR(10) NOT NULL,
+  status gl_journal_status NOT NULL DEFAULT 'posted',
+  reversal_of_id VARCHAR,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_journal_entries_number ON gl_journal_entries(tenant_id, entry_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_journal_entries_source ON gl_journal_entries(tenant_id, source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_entries_date ON gl_journal_entries(tenant_id, entry_date);
+
+CREATE TABLE IF NOT EXISTS gl_journal_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entry_id VARCHAR NOT NULL REFERENCES gl_journal_entries(id) ON DELETE CASCADE,
+  account_id VARCHAR NOT NULL REFERENCES gl_accounts(id),
+  line_no INTEGER NOT NULL,
+  debit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  credit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  description TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_entry ON gl_journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_gl_journal_lines_account ON gl_journal_lines(tenant_id, account_id);
+
+CREATE TABLE IF NOT EXISTS gl_periods (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status gl_period_status NOT NULL DEFAULT 'open',
+  closed_at TIMESTAMP,
+  closed_by VARCHAR REFERENCES users(id),
+  locked_at TIMESTAMP,
+  locked_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gl_periods_start ON gl_periods(tenant_id, period_start);
@@ -0,0 +1,84 @@
+-- Migration: Bank statement import and reconciliation
+-- Imported statements and their lines, matches to payments, and tenant matching rules
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_statement_format') THEN
+    CREATE TYPE bank_statement_format AS ENUM ('csv', 'ofx', 'mt940', 'camt053');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_line_status') THEN
+    CREATE TYPE bank_line_status AS ENUM ('unmatched', 'matched', 'excluded');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'bank_match_method') THEN
+    CREATE TYPE bank_match_method AS ENUM ('rule', 'auto', 'manual');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS bank_statements (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  format bank_statement_format NOT NULL,
+  file_name VARCHAR(255),
+  file_hash VARCHAR(64) NOT NULL,
+  account_number VARCHAR(50),
+  currency VARCHAR(10),
+  period_start DATE,
+  period_end DATE,
+  opening_balance DECIMAL(15, 2),
+  closing_balance DECIMAL(15, 2),
+  line_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  imported_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statements_hash ON bank_statements(tenant_id, file_hash);
+CREATE INDEX IF NOT EXISTS idx_bank_statements_tenant ON bank_statements(tenant_id, created_at);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  statement_id VARCHAR NOT NULL REFERENCES bank_statements(id) ON DELETE CASCADE,
+  line_no INTEGER NOT NULL,
+  booking_date DATE NOT NULL,
+  value_date DATE,
+  amount DECIMAL(15, 2) NOT NULL,
+  currency VARCHAR(10),
+  description TEXT,
+  reference VARCHAR(255),
+  counterparty VARCHAR(255),
+  bank_reference VARCHAR(255),
+  dedupe_key VARCHAR(64) NOT NULL,
+  status bank_line_status NOT NULL DEFAULT 'unmatched',
+  matched_source_type VARCHAR(30),
+  matched_source_id VARCHAR,
+  match_method bank_match_method,
+  match_score INTEGER,
+  rule_id VARCHAR,
+  note TEXT,
+  matched_at TIMESTAMP,
+  matched_by VARCHAR REFERENCES users(id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_dedupe ON bank_statement_lines(tenant_id, dedupe_key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_statement_lines_source ON bank_statement_lines(tenant_id, matched_source_type, matched_source_id);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement ON bank_statement_lines(statement_id, line_no);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_status ON bank_statement_lines(tenant_id, status, booking_date);
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  field VARCHAR(20) NOT NULL DEFAULT 'description',
+  pattern VARCHAR(255) NOT NULL,
+  direction VARCHAR(10) NOT NULL DEFAULT 'any',
+  min_amount DECIMAL(15, 2),
+  max_amount DECIMAL(15, 2),
+  action VARCHAR(20) NOT NULL,
+  source_type VARCHAR(30),
+  note TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliation_rules_tenant ON bank_reconciliation_rules(tenant_id, priority);
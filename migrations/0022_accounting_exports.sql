@@ -0,0 +1,22 @@
+-- Migration: Accounting software export
+-- Per-tenant ledger name mappings for Tally, QuickBooks and Xero exports
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'accounting_export_target') THEN
+    CREATE TYPE accounting_export_target AS ENUM ('tally', 'quickbooks', 'xero');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS accounting_export_mappings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  target accounting_export_target NOT NULL,
+  mapping_key VARCHAR(100) NOT NULL,
+  ledger_name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_export_mappings_key ON accounting_export_mappings(tenant_id, target, mapping_key);
@@ -0,0 +1,67 @@
+-- Migration: Subscription dunning
+-- Retry schedules, per-invoice dunning cases and their event log for failed platform renewal charges
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'dunning_case_status') THEN
+    CREATE TYPE dunning_case_status AS ENUM ('open', 'recovered', 'failed', 'cancelled');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS dunning_schedules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope VARCHAR(20) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  retry_days JSONB NOT NULL,
+  message_steps JSONB NOT NULL,
+  limit_features_after_days INTEGER NOT NULL,
+  read_only_after_days INTEGER NOT NULL,
+  suspend_after_days INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_schedules_scope ON dunning_schedules(scope);
+
+CREATE TABLE IF NOT EXISTS dunning_cases (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  subscription_id VARCHAR REFERENCES tenant_subscriptions(id),
+  invoice_id VARCHAR NOT NULL REFERENCES subscription_invoices(id),
+  status dunning_case_status NOT NULL DEFAULT 'open',
+  schedule JSONB NOT NULL,
+  amount_due DECIMAL(12, 2) NOT NULL,
+  currency currency_code NOT NULL,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  next_retry_at TIMESTAMP,
+  last_attempt_at TIMESTAMP,
+  last_failure_reason TEXT,
+  messages_sent JSONB NOT NULL DEFAULT '[]',
+  access_stage VARCHAR(20) NOT NULL DEFAULT 'full',
+  payment_link TEXT,
+  recovered_amount DECIMAL(12, 2),
+  recovered_at TIMESTAMP,
+  closed_at TIMESTAMP,
+  opened_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_cases_invoice ON dunning_cases(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_tenant_status ON dunning_cases(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_status_retry ON dunning_cases(status, next_retry_at);
+CREATE INDEX IF NOT EXISTS idx_dunning_cases_opened ON dunning_cases(opened_at);
+
+CREATE TABLE IF NOT EXISTS dunning_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id VARCHAR NOT NULL REFERENCES dunning_cases(id) ON DELETE CASCADE,
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL,
+  channel VARCHAR(20),
+  attempt_number INTEGER,
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_events_case ON dunning_events(case_id);
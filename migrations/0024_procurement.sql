@@ -0,0 +1,187 @@
+-- Migration: Procurement
+-- Suppliers, purchase requisitions and orders, goods receipts and supplier bills with three-way matching
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'purchase_requisition_status') THEN
+    CREATE TYPE purchase_requisition_status AS ENUM ('draft', 'submitted', 'approved', 'rejected', 'converted', 'cancelled');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'purchase_order_status') THEN
+    CREATE TYPE purchase_order_status AS ENUM ('draft', 'pending_approval', 'approved', 'rejected', 'partially_received', 'received', 'closed', 'cancelled');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'supplier_bill_status') THEN
+    CREATE TYPE supplier_bill_status AS ENUM ('matched', 'on_hold', 'approved', 'paid', 'cancelled');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  tax_id VARCHAR(50),
+  currency VARCHAR(3) NOT NULL DEFAULT 'INR',
+  payment_terms_days INTEGER NOT NULL DEFAULT 30,
+  lead_time_days INTEGER NOT NULL DEFAULT 7,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_code ON suppliers(tenant_id, code);
+CREATE INDEX IF NOT EXISTS idx_suppliers_tenant ON suppliers(tenant_id);
+
+CREATE TABLE IF NOT EXISTS procurement_settings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  approval_thresholds JSONB NOT NULL DEFAULT '[]',
+  price_tolerance_percent DECIMAL(5, 2) NOT NULL DEFAULT 2,
+  quantity_tolerance_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  over_receipt_tolerance_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_procurement_settings_tenant ON procurement_settings(tenant_id);
+
+CREATE TABLE IF NOT EXISTS purchase_requisitions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  requisition_number VARCHAR(50) NOT NULL,
+  status purchase_requisition_status NOT NULL DEFAULT 'draft',
+  lines JSONB NOT NULL,
+  needed_by DATE,
+  notes TEXT,
+  requested_by VARCHAR REFERENCES users(id),
+  decided_by VARCHAR REFERENCES users(id),
+  decided_at TIMESTAMP,
+  decision_note TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_requisitions_number ON purchase_requisitions(tenant_id, requisition_number);
+CREATE INDEX IF NOT EXISTS idx_purchase_requisitions_status ON purchase_requisitions(tenant_id, status);
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  po_number VARCHAR(50) NOT NULL,
+  supplier_id VARCHAR NOT NULL REFERENCES suppliers(id),
+  requisition_id VARCHAR REFERENCES purchase_requisitions(id),
+  status purchase_order_status NOT NULL DEFAULT 'draft',
+  order_date DATE NOT NULL,
+  expected_date DATE,
+  currency VARCHAR(3) NOT NULL,
+  subtotal DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  required_approval_role VARCHAR(20),
+  approved_by VARCHAR REFERENCES users(id),
+  approved_at TIMESTAMP,
+  rejection_reason TEXT,
+  notes TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_orders_number ON purchase_orders(tenant_id, po_number);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  purchase_order_id VARCHAR NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  item_type VARCHAR(20) NOT NULL,
+  item_id VARCHAR NOT NULL,
+  description TEXT NOT NULL,
+  unit VARCHAR(20),
+  quantity DECIMAL(12, 4) NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  line_total DECIMAL(14, 2) NOT NULL,
+  received_quantity DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  billed_quantity DECIMAL(12, 4) NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_item ON purchase_order_lines(tenant_id, item_type, item_id);
+
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  grn_number VARCHAR(50) NOT NULL,
+  purchase_order_id VARCHAR NOT NULL REFERENCES purchase_orders(id),
+  supplier_id VARCHAR NOT NULL REFERENCES suppliers(id),
+  received_date DATE NOT NULL,
+  supplier_delivery_note VARCHAR(100),
+  notes TEXT,
+  received_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_goods_receipts_number ON goods_receipts(tenant_id, grn_number);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_order ON goods_receipts(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS goods_receipt_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_receipt_id VARCHAR NOT NULL REFERENCES goods_receipts(id) ON DELETE CASCADE,
+  purchase_order_line_id VARCHAR NOT NULL REFERENCES purchase_order_lines(id),
+  quantity DECIMAL(12, 4) NOT NULL,
+  batch_number VARCHAR(100),
+  stock_movement_id VARCHAR
+);
+
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_receipt ON goods_receipt_lines(goods_receipt_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_po_line ON goods_receipt_lines(purchase_order_line_id);
+
+CREATE TABLE IF NOT EXISTS supplier_bills (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  bill_number VARCHAR(50) NOT NULL,
+  supplier_invoice_number VARCHAR(100) NOT NULL,
+  supplier_id VARCHAR NOT NULL REFERENCES suppliers(id),
+  purchase_order_id VARCHAR NOT NULL REFERENCES purchase_orders(id),
+  status supplier_bill_status NOT NULL,
+  bill_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  subtotal DECIMAL(14, 2) NOT NULL,
+  tax_amount DECIMAL(14, 2) NOT NULL,
+  total_amount DECIMAL(14, 2) NOT NULL,
+  match_exceptions JSONB NOT NULL DEFAULT '[]',
+  approved_by VARCHAR REFERENCES users(id),
+  approved_at TIMESTAMP,
+  approval_note TEXT,
+  paid_at TIMESTAMP,
+  payment_reference VARCHAR(100),
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_bills_number ON supplier_bills(tenant_id, bill_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_bills_supplier_invoice ON supplier_bills(tenant_id, supplier_id, supplier_invoice_number);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_status ON supplier_bills(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_order ON supplier_bills(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS supplier_bill_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id VARCHAR NOT NULL REFERENCES supplier_bills(id) ON DELETE CASCADE,
+  purchase_order_line_id VARCHAR NOT NULL REFERENCES purchase_order_lines(id),
+  quantity DECIMAL(12, 4) NOT NULL,
+  unit_price DECIMAL(12, 2) NOT NULL,
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  line_total DECIMAL(14, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_lines_bill ON supplier_bill_lines(bill_id);
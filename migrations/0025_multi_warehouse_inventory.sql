@@ -0,0 +1,138 @@
+-- Migration: Multi-warehouse inventory
+-- Warehouses, batch/serial stock lots with expiry, inter-warehouse transfers, stock valuation settings and cycle counts
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'stock_valuation_method') THEN
+    CREATE TYPE stock_valuation_method AS ENUM ('fifo', 'weighted_average');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'stock_transfer_status') THEN
+    CREATE TYPE stock_transfer_status AS ENUM ('in_transit', 'received', 'cancelled');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'cycle_count_status') THEN
+    CREATE TYPE cycle_count_status AS ENUM ('open', 'posted', 'cancelled');
+  END IF;
+END $$;
+
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS tracking_mode VARCHAR(10) NOT NULL DEFAULT 'none';
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS tracks_expiry BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS warehouses (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  address TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_code ON warehouses(tenant_id, code);
+CREATE INDEX IF NOT EXISTS idx_warehouses_tenant ON warehouses(tenant_id);
+
+CREATE TABLE IF NOT EXISTS inventory_settings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  valuation_method stock_valuation_method NOT NULL DEFAULT 'fifo',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_settings_tenant ON inventory_settings(tenant_id);
+
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id VARCHAR NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  warehouse_id VARCHAR NOT NULL REFERENCES warehouses(id),
+  batch_number VARCHAR(100),
+  serial_number VARCHAR(100),
+  expiry_date DATE,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_item_warehouse ON stock_lots(tenant_id, item_id, warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry ON stock_lots(tenant_id, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_serial ON stock_lots(tenant_id, serial_number);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id VARCHAR NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  warehouse_id VARCHAR NOT NULL REFERENCES warehouses(id),
+  lot_id VARCHAR NOT NULL REFERENCES stock_lots(id),
+  movement_type VARCHAR(20) NOT NULL,
+  quantity INTEGER NOT NULL,
+  unit_cost DECIMAL(12, 2) NOT NULL,
+  reference_type VARCHAR(50),
+  reference_id VARCHAR,
+  inventory_transaction_id VARCHAR REFERENCES inventory_transactions(id),
+  notes TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON stock_movements(tenant_id, item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_lot ON stock_movements(lot_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  transfer_number VARCHAR(50) NOT NULL,
+  from_warehouse_id VARCHAR NOT NULL REFERENCES warehouses(id),
+  to_warehouse_id VARCHAR NOT NULL REFERENCES warehouses(id),
+  status stock_transfer_status NOT NULL DEFAULT 'in_transit',
+  lines JSONB NOT NULL,
+  notes TEXT,
+  dispatched_by VARCHAR REFERENCES users(id),
+  dispatched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  received_by VARCHAR REFERENCES users(id),
+  received_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_transfers_number ON stock_transfers(tenant_id, transfer_number);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(tenant_id, status);
+
+CREATE TABLE IF NOT EXISTS cycle_counts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  count_number VARCHAR(50) NOT NULL,
+  warehouse_id VARCHAR NOT NULL REFERENCES warehouses(id),
+  status cycle_count_status NOT NULL DEFAULT 'open',
+  notes TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  posted_by VARCHAR REFERENCES users(id),
+  posted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cycle_counts_number ON cycle_counts(tenant_id, count_number);
+CREATE INDEX IF NOT EXISTS idx_cycle_counts_warehouse ON cycle_counts(warehouse_id, status);
+
+CREATE TABLE IF NOT EXISTS cycle_count_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  cycle_count_id VARCHAR NOT NULL REFERENCES cycle_counts(id) ON DELETE CASCADE,
+  item_id VARCHAR NOT NULL REFERENCES inventory_items(id),
+  lot_id VARCHAR REFERENCES stock_lots(id),
+  batch_number VARCHAR(100),
+  serial_number VARCHAR(100),
+  expiry_date DATE,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER,
+  unit_cost DECIMAL(12, 2) NOT NULL,
+  counted_by VARCHAR REFERENCES users(id),
+  counted_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_cycle_count_lines_count ON cycle_count_lines(cycle_count_id);
@@ -0,0 +1,34 @@
+-- Migration: Furniture MRP
+-- Sub-assembly BOM components, per-stage consumption and raw material reservations for production orders
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'material_reservation_status') THEN
+    CREATE TYPE material_reservation_status AS ENUM ('active', 'consumed', 'released');
+  END IF;
+END $$;
+
+ALTER TABLE bom_components ALTER COLUMN raw_material_id DROP NOT NULL;
+ALTER TABLE bom_components ADD COLUMN IF NOT EXISTS component_product_id VARCHAR REFERENCES furniture_products(id);
+ALTER TABLE bom_components ADD COLUMN IF NOT EXISTS consumption_stage production_stage_type;
+
+CREATE INDEX IF NOT EXISTS idx_bom_components_product ON bom_components(component_product_id);
+
+CREATE TABLE IF NOT EXISTS material_reservations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  production_order_id VARCHAR NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+  raw_material_id VARCHAR NOT NULL REFERENCES raw_materials(id),
+  stage_type production_stage_type,
+  required_quantity DECIMAL(12, 4) NOT NULL,
+  reserved_quantity DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  consumed_quantity DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  status material_reservation_status NOT NULL DEFAULT 'active',
+  stock_movement_id VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_reservations_order ON material_reservations(production_order_id);
+CREATE INDEX IF NOT EXISTS idx_material_reservations_material ON material_reservations(tenant_id, raw_material_id, status);
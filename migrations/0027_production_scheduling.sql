@@ -0,0 +1,28 @@
+-- Migration: Production Scheduling
+-- Work centers with shift calendars and capacity, and work center assignment for production stages
+-- Idempotent: Safe to run multiple times
+
+CREATE TABLE IF NOT EXISTS work_centers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  stage_types JSONB NOT NULL DEFAULT '[]',
+  capacity INTEGER NOT NULL DEFAULT 1,
+  shifts JSONB DEFAULT '{}',
+  blocked_dates JSONB DEFAULT '[]',
+  setup_minutes INTEGER NOT NULL DEFAULT 0,
+  minutes_per_unit INTEGER NOT NULL DEFAULT 60,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_centers_code ON work_centers(tenant_id, code);
+CREATE INDEX IF NOT EXISTS idx_work_centers_tenant ON work_centers(tenant_id);
+
+ALTER TABLE production_stages ADD COLUMN IF NOT EXISTS work_center_id VARCHAR REFERENCES work_centers(id);
+ALTER TABLE production_stages ADD COLUMN IF NOT EXISTS planned_minutes INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_production_stages_work_center ON production_stages(work_center_id, scheduled_start_time);
@@ -0,0 +1,137 @@
+-- Migration: Furniture Product Configurator
+-- Configurable product options with price and BOM rules, configured sales order items and quotations
+-- Idempotent: Safe to run multiple times
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'furniture_option_type') THEN
+    CREATE TYPE furniture_option_type AS ENUM ('material', 'dimension', 'color', 'add_on');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'furniture_option_input_type') THEN
+    CREATE TYPE furniture_option_input_type AS ENUM ('choice', 'number', 'toggle');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'furniture_rule_price_type') THEN
+    CREATE TYPE furniture_rule_price_type AS ENUM ('fixed', 'percent', 'per_unit');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'furniture_quotation_status') THEN
+    CREATE TYPE furniture_quotation_status AS ENUM ('draft', 'sent', 'accepted', 'rejected', 'expired', 'converted');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS furniture_product_options (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES furniture_products(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  option_type furniture_option_type NOT NULL,
+  input_type furniture_option_input_type NOT NULL DEFAULT 'choice',
+  is_required BOOLEAN NOT NULL DEFAULT FALSE,
+  unit VARCHAR(20),
+  min_value DECIMAL(10, 2),
+  max_value DECIMAL(10, 2),
+  base_value DECIMAL(10, 2),
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_furniture_product_options_tenant ON furniture_product_options(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_furniture_product_options_code ON furniture_product_options(product_id, code);
+
+CREATE TABLE IF NOT EXISTS furniture_product_option_values (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  option_id VARCHAR NOT NULL REFERENCES furniture_product_options(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_furniture_option_values_code ON furniture_product_option_values(option_id, code);
+
+CREATE TABLE IF NOT EXISTS furniture_configuration_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES furniture_products(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  conditions JSONB NOT NULL DEFAULT '[]',
+  price_type furniture_rule_price_type NOT NULL DEFAULT 'fixed',
+  price_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  unit_option VARCHAR(50),
+  bom_adjustments JSONB NOT NULL DEFAULT '[]',
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_furniture_configuration_rules_tenant ON furniture_configuration_rules(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_furniture_configuration_rules_product ON furniture_configuration_rules(product_id);
+
+ALTER TABLE furniture_sales_order_items ADD COLUMN IF NOT EXISTS configuration JSONB;
+ALTER TABLE furniture_sales_order_items ADD COLUMN IF NOT EXISTS configured_bom JSONB;
+
+CREATE TABLE IF NOT EXISTS furniture_quotations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id VARCHAR NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  quotation_number VARCHAR(50) NOT NULL,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id),
+  status furniture_quotation_status NOT NULL DEFAULT 'draft',
+  valid_until DATE NOT NULL,
+  subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency VARCHAR(5) NOT NULL DEFAULT 'INR',
+  expected_delivery_date DATE,
+  delivery_address TEXT,
+  requires_installation BOOLEAN DEFAULT FALSE,
+  notes TEXT,
+  terms_and_conditions TEXT,
+  sales_person_id VARCHAR REFERENCES staff(id),
+  sent_at TIMESTAMP,
+  responded_at TIMESTAMP,
+  rejection_reason TEXT,
+  sales_order_id VARCHAR REFERENCES furniture_sales_orders(id),
+  converted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  deleted_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_furniture_quotations_tenant ON furniture_quotations(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_furniture_quotations_number ON furniture_quotations(tenant_id, quotation_number);
+CREATE INDEX IF NOT EXISTS idx_furniture_quotations_customer ON furniture_quotations(customer_id);
+CREATE INDEX IF NOT EXISTS idx_furniture_quotations_status ON furniture_quotations(tenant_id, status);
+
+CREATE TABLE IF NOT EXISTS furniture_quotation_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id VARCHAR NOT NULL REFERENCES furniture_quotations(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES furniture_products(id),
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  configuration JSONB NOT NULL DEFAULT '{}',
+  configured_bom JSONB,
+  base_price DECIMAL(12, 2) NOT NULL,
+  price_breakdown JSONB NOT NULL DEFAULT '[]',
+  unit_price DECIMAL(12, 2) NOT NULL,
+  discount_percentage DECIMAL(5, 2) DEFAULT 0,
+  discount_amount DECIMAL(12, 2) DEFAULT 0,
+  tax_rate DECIMAL(5, 2) DEFAULT 0,
+  tax_amount DECIMAL(12, 2) DEFAULT 0,
+  total_price DECIMAL(12, 2) NOT NULL,
+  hsn_code VARCHAR(20),
+  notes TEXT,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_furniture_quotation_items_quotation ON furniture_quotation_items(quotation_id);
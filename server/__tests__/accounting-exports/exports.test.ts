@@ -0,0 +1,147 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  AccountingExportError,
+  isValidMappingKey,
+  resolveLedger,
+  splitTax,
+  voucherLines,
+  type ExportVoucher,
+} from "../../core/accounting-exports/vouchers";
+import {
+  renderQuickBooksIif,
+  renderTallyXml,
+  renderXeroInvoicesCsv,
+  renderXeroStatementCsv,
+} from "../../core/accounting-exports/formats";
+
+const gstBreakdown = [
+  { taxType: "cgst", taxName: "CGST", rate: 9, baseAmount: 1000, taxAmount: 90 },
+  { taxType: "sgst", taxName: "SGST", rate: 9, baseAmount: 1000, taxAmount: 90 },
+];
+
+function voucher(overrides: Partial<ExportVoucher> = {}): ExportVoucher {
+  return {
+    kind: "invoice",
+    number: "INV-000001",
+    date: "2026-03-05",
+    dueDate: "2026-04-04",
+    reference: "FI-2026-0007",
+    partyName: "Sharma & Sons",
+    currency: "INR",
+    netAmount: 1000,
+    taxes: splitTax(180, gstBreakdown),
+    totalAmount: 1180,
+    narration: null,
+    ...overrides,
+  };
+}
+
+function balance(lines: Array<{ amount: number }>): number {
+  return Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+}
+
+describe("vouchers", () => {
+  it("splits a partial tax amount in the invoice's proportions", () => {
+    expect(splitTax(50.01, gstBreakdown)).toEqual([
+      { taxType: "cgst", taxName: "CGST", rate: 9, amount: 25.01 },
+      { taxType: "sgst", taxName: "SGST", rate: 9, amount: 25 },
+    ]);
+    expect(splitTax(20, [])).toEqual([{ taxType: "tax", taxName: "Tax", rate: 0, amount: 20 }]);
+    expect(splitTax(0, gstBreakdown)).toEqual([]);
+  });
+
+  it("builds balanced lines for each kind", () => {
+    const invoice = voucherLines(voucher());
+    expect(invoice.map((line) => [line.ledger, line.amount])).toEqual([["party", 1180], ["sales", -1000], ["tax:cgst", -90], ["tax:sgst", -90]]);
+
+    const credit = voucherLines(voucher({ kind: "credit_note", netAmount: 100, taxes: splitTax(18, gstBreakdown), totalAmount: 118 }));
+    expect(credit.map((line) => [line.ledger, line.amount])).toEqual([["party", -118], ["sales_returns", 100], ["tax:cgst", 9], ["tax:sgst", 9]]);
+
+    expect(voucherLines(voucher({ kind: "refund", totalAmount: 50, taxes: [] }))).toEqual([{ ledger: "bank", amount: -50 }, { ledger: "party", amount: 50 }]);
+    for (const lines of [invoice, credit]) expect(balance(lines)).toBe(0);
+  });
+
+  it("posts differences between the total and its parts to rounding", () => {
+    const lines = voucherLines(voucher({ totalAmount: 1180.4 }));
+    expect(lines[lines.length - 1]).toEqual({ ledger: "rounding", amount: -0.4 });
+    expect(balance(lines)).toBe(0);
+  });
+
+  it("resolves ledgers from mappings, then defaults", () => {
+    expect(resolveLedger("tally", {}, "tax:cgst", "CGST")).toBe("Output CGST");
+    expect(resolveLedger("tally", { tax: "Duties & Taxes" }, "tax:cgst")).toBe("Duties & Taxes");
+    expect(resolveLedger("tally", { "tax:cgst": "CGST Payable" }, "tax:cgst")).toBe("CGST Payable");
+    expect(resolveLedger("quickbooks", {}, "tax:vat")).toBe("Sales Tax Payable");
+    expect(resolveLedger("xero", { sales: "4000" }, "sales_returns")).toBe("4000");
+    expect(() => resolveLedger("xero", {}, "bank")).toThrow(AccountingExportError);
+  });
+
+  it("accepts only known mapping keys", () => {
+    expect(isValidMappingKey("sales")).toBe(true);
+    expect(isValidMappingKey("tax:sales_tax")).toBe(true);
+    expect(isValidMappingKey("tax:")).toBe(false);
+    expect(isValidMappingKey("inventory")).toBe(false);
+  });
+});
+
+describe("formats", () => {
+  const options = { mappings: { bank: "HDFC Current A/c" }, companyName: "Acme <Furniture>" };
+
+  it("renders Tally vouchers with debits as negative deemed-positive amounts", () => {
+    const xml = renderTallyXml([voucher(), voucher({ kind: "payment", number: "RCT-1", taxes: [], totalAmount: 1180 })], options);
+    expect(xml).toContain("<SVCURRENTCOMPANY>Acme &lt;Furniture&gt;</SVCURRENTCOMPANY>");
+    expect(xml).toContain('<VOUCHER VCHTYPE="Sales" ACTION="Create" OBJVIEW="Accounting Voucher View">');
+    expect(xml).toContain("<DATE>20260305</DATE>");
+    expect(xml).toContain("<PARTYLEDGERNAME>Sharma &amp; Sons</PARTYLEDGERNAME>");
+    expect(xml).toMatch(/<LEDGERNAME>Sharma &amp; Sons<\/LEDGERNAME>\s*<ISDEEMEDPOSITIVE>Yes<\/ISDEEMEDPOSITIVE>\s*<ISPARTYLEDGER>Yes<\/ISPARTYLEDGER>\s*<AMOUNT>-1180.00<\/AMOUNT>/);
+    expect(xml).toMatch(/<LEDGERNAME>Output CGST<\/LEDGERNAME>\s*<ISDEEMEDPOSITIVE>No<\/ISDEEMEDPOSITIVE>\s*<ISPARTYLEDGER>No<\/ISPARTYLEDGER>\s*<AMOUNT>90.00<\/AMOUNT>/);
+    expect(xml).toContain('<VOUCHER VCHTYPE="Receipt"');
+    expect(xml).toMatch(/<LEDGERNAME>HDFC Current A\/c<\/LEDGERNAME>\s*<ISDEEMEDPOSITIVE>Yes<\/ISDEEMEDPOSITIVE>/);
+  });
+
+  it("renders QuickBooks IIF transactions with receivables on the customer line", () => {
+    const iif = renderQuickBooksIif([voucher({ narration: "Sofa\tset" }), voucher({ kind: "credit_note", number: "CN-1", dueDate: null, netAmount: 100, taxes: [], totalAmount: 100 })], options);
+    const rows = iif.trimEnd().split("\r\n");
+    expect(rows[0]).toBe("!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO\tDUEDATE");
+    expect(rows[3]).toBe("TRNS\t\tINVOICE\t03/05/2026\tAccounts Receivable\tSharma & Sons\t1180.00\tINV-000001\tSofa set\t04/04/2026");
+    expect(rows[4]).toBe("SPL\t\tINVOICE\t03/05/2026\tSales\t\t-1000.00\tINV-000001\tSofa set");
+    expect(rows[5]).toContain("Sales Tax Payable\t\t-90.00");
+    expect(rows[7]).toBe("ENDTRNS");
+    expect(rows[8]).toBe("TRNS\t\tCREDIT MEMO\t03/05/2026\tAccounts Receivable\tSharma & Sons\t-100.00\tCN-1\t\t");
+  });
+
+  it("renders Xero invoices tax-exclusive with credit notes negative", () => {
+    const csv = renderXeroInvoicesCsv([
+      voucher(),
+      voucher({ kind: "credit_note", number: "CN-1", dueDate: null, netAmount: 100, taxes: splitTax(18, gstBreakdown), totalAmount: 118 }),
+      voucher({ kind: "payment", number: "RCT-1" }),
+    ], { mappings: { "tax:cgst": "GST on Income" }, companyName: "Acme" });
+    const rows = csv.trimEnd().split("\r\n").map((row) => row.split(","));
+    const header = rows[0];
+    const cell = (row: string[], column: string) => row[header.indexOf(column)];
+
+    expect(rows).toHaveLength(3);
+    expect(cell(rows[1], "*ContactName")).toBe("Sharma & Sons");
+    expect(cell(rows[1], "*InvoiceDate")).toBe("05/03/2026");
+    expect(cell(rows[1], "*UnitAmount")).toBe("1000.00");
+    expect(cell(rows[1], "TaxAmount")).toBe("180.00");
+    expect(cell(rows[1], "*TaxType")).toBe("GST on Income");
+    expect(cell(rows[1], "*AccountCode")).toBe("200");
+    expect(cell(rows[2], "*DueDate")).toBe("05/03/2026");
+    expect(cell(rows[2], "*UnitAmount")).toBe("-100.00");
+    expect(cell(rows[2], "TaxAmount")).toBe("-18.00");
+  });
+
+  it("renders Xero statement lines for receipts and refunds", () => {
+    const csv = renderXeroStatementCsv([
+      voucher(),
+      voucher({ kind: "payment", number: "RCT-1", reference: "INV-000001", taxes: [], totalAmount: 1180, narration: "Payment for INV-000001" }),
+      voucher({ kind: "refund", number: "RFD-1", reference: null, taxes: [], totalAmount: 200, partyName: null }),
+    ], { mappings: {}, companyName: "Acme" });
+    expect(csv.trimEnd().split("\r\n")).toEqual([
+      "*Date,*Amount,Payee,Description,Reference",
+      "05/03/2026,1180.00,Sharma & Sons,Payment for INV-000001,INV-000001",
+      "05/03/2026,-200.00,Walk-in Customer,,RFD-1",
+    ]);
+  });
+});
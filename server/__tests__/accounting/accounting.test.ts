@@ -0,0 +1,140 @@
+import { describe, it, expect } from "@jest/globals";
+import type { HrPayRun, InventoryTransaction, Payment, RealEstateCommission } from "@shared/schema";
+import {
+  AccountingError,
+  assertCanClose,
+  assertCanReopen,
+  assertPeriodOpen,
+  balancedLines,
+  openPostingDate,
+  validatePeriod,
+  type PeriodBounds,
+} from "../../core/accounting/journal";
+import {
+  journalFromCommission,
+  journalFromInventoryTransaction,
+  journalFromPayRun,
+  journalFromPayment,
+  journalFromPaymentRefund,
+} from "../../core/accounting/posting-rules";
+import { balanceSheet, profitAndLoss, trialBalance, type AccountTotals } from "../../core/accounting/reports";
+
+function lineTotals(lines: Array<{ systemKey?: string; debit: number; credit: number }>) {
+  return Object.fromEntries(lines.map((line) => [line.systemKey, line.debit || -line.credit]));
+}
+
+const periods: PeriodBounds[] = [
+  { name: "Jan 2026", periodStart: "2026-01-01", periodEnd: "2026-01-31", status: "locked" },
+  { name: "Feb 2026", periodStart: "2026-02-01", periodEnd: "2026-02-28", status: "closed" },
+  { name: "Mar 2026", periodStart: "2026-03-01", periodEnd: "2026-03-31", status: "open" },
+];
+
+describe("Journal validation", () => {
+  it("drops zero lines and rejects entries that do not balance", () => {
+    const kept = balancedLines([
+      { systemKey: "cash", debit: 100, credit: 0 },
+      { systemKey: "sales", debit: 0, credit: 100 },
+      { systemKey: "tax_payable", debit: 0, credit: 0 },
+    ]);
+    expect(kept).toHaveLength(2);
+
+    expect(() => balancedLines([
+      { systemKey: "cash", debit: 100, credit: 0 },
+      { systemKey: "sales", debit: 0, credit: 99.99 },
+    ])).toThrow("does not balance");
+    expect(() => balancedLines([
+      { systemKey: "cash", debit: 50, credit: 50 },
+      { systemKey: "sales", debit: 0, credit: 0 },
+    ])).toThrow(AccountingError);
+  });
+});
+
+describe("Accounting periods", () => {
+  it("keeps manual entries out of closed periods and moves automatic ones forward", () => {
+    expect(() => assertPeriodOpen(periods, "2026-02-10")).toThrow("Feb 2026, which is closed");
+    expect(() => assertPeriodOpen(periods, "2026-03-10")).not.toThrow();
+    expect(openPostingDate(periods, "2026-01-15")).toBe("2026-03-01");
+    expect(openPostingDate(periods, "2026-03-15")).toBe("2026-03-15");
+  });
+
+  it("closes and reopens in order and rejects overlaps", () => {
+    const open = periods.map((period) => ({ ...period, status: "open" as const }));
+    expect(() => assertCanClose(open[1], open)).toThrow("Close Jan 2026 first");
+    expect(() => assertCanReopen(periods[0], periods)).toThrow("locked");
+    expect(() => assertCanReopen(periods[1], [...periods.slice(0, 2), { ...periods[2], status: "closed" }])).toThrow("reopen it first");
+    expect(() => validatePeriod({ periodStart: "2026-03-15", periodEnd: "2026-04-14" }, periods)).toThrow("overlaps Mar 2026");
+  });
+});
+
+describe("Automatic postings", () => {
+  const payment = {
+    id: "pay-1",
+    currency: "USD",
+    amount: "118.00",
+    baseCurrency: "INR",
+    baseAmount: "9912.00",
+    exchangeRate: "84.000000",
+    status: "paid",
+    paidAt: new Date("2026-03-05T10:00:00Z"),
+    refundAmount: "59.00",
+    refundedAt: new Date("2026-03-20T10:00:00Z"),
+    createdAt: new Date("2026-03-05T10:00:00Z"),
+  } as Payment;
+  const invoice = { invoiceNumber: "INV-7", totalAmount: "118.00", taxAmount: "18.00" };
+
+  it("splits receipts into revenue and tax in the tenant's currency", () => {
+    const draft = journalFromPayment(payment, invoice, "INR")!;
+    expect(draft.entryDate).toBe("2026-03-05");
+    expect(lineTotals(draft.lines)).toEqual({ cash: 9912, sales: -8400, tax_payable: -1512 });
+
+    const refund = journalFromPaymentRefund(payment, invoice, "INR")!;
+    expect(lineTotals(refund.lines)).toEqual({ sales: 4200, tax_payable: 756, cash: -4956 });
+
+    expect(journalFromPayment({ ...payment, status: "pending" }, invoice, "INR")).toBeNull();
+    expect(() => journalFromPayment(payment, invoice, "AED")).toThrow("Cannot convert USD to AED");
+  });
+
+  it("posts payroll, stock movements and commissions", () => {
+    const payRun = { id: "run-1", month: 3, year: 2026, status: "paid", totalGross: "50000.00", totalDeductions: "6500.00", totalNet: "43500.00", paidAt: new Date("2026-03-31T00:00:00Z") } as HrPayRun;
+    expect(lineTotals(balancedLines(journalFromPayRun(payRun)!.lines))).toEqual({ salaries: 50000, payroll_liabilities: -6500, cash: -43500 });
+
+    const sale = { id: "tx-1", type: "sale", previousStock: 10, newStock: 7, createdAt: new Date("2026-03-02T00:00:00Z") } as InventoryTransaction;
+    expect(lineTotals(journalFromInventoryTransaction(sale, { name: "Chair", costPrice: "250.00" })!.lines)).toEqual({ cost_of_goods_sold: 750, inventory: -750 });
+    expect(journalFromInventoryTransaction(sale, { name: "Chair", costPrice: null })).toBeNull();
+
+    const commission = { id: "com-1", status: "paid", commissionNumber: "COM-1", commissionAmount: "1000.00", taxAmount: "180.00", netAmount: "1180.00", paidAmount: "0", currency: "INR", paidDate: "2026-03-12" } as RealEstateCommission;
+    expect(lineTotals(journalFromCommission(commission, "INR")!.lines)).toEqual({ cash: 1180, commission_income: -1000, tax_payable: -180 });
+    expect(journalFromCommission({ ...commission, status: "approved" }, "INR")).toBeNull();
+  });
+});
+
+describe("Financial statements", () => {
+  const accounts: AccountTotals[] = [
+    { accountId: "a1", code: "1000", name: "Cash and Bank", accountType: "asset", debit: 11092, credit: 43500 },
+    { accountId: "a2", code: "2100", name: "Tax Payable", accountType: "liability", debit: 0, credit: 1692 },
+    { accountId: "a3", code: "2200", name: "Payroll Deductions Payable", accountType: "liability", debit: 0, credit: 6500 },
+    { accountId: "a4", code: "3000", name: "Owner's Equity", accountType: "equity", debit: 0, credit: 100000 },
+    { accountId: "a5", code: "4000", name: "Sales Revenue", accountType: "income", debit: 0, credit: 8400 },
+    { accountId: "a6", code: "4100", name: "Commission Income", accountType: "income", debit: 0, credit: 1000 },
+    { accountId: "a7", code: "5100", name: "Salaries and Wages", accountType: "expense", debit: 50000, credit: 0 },
+    { accountId: "a8", code: "1200", name: "Inventory", accountType: "asset", debit: 100000, credit: 0 },
+  ];
+
+  it("balances the trial balance and reports net profit", () => {
+    const trial = trialBalance(accounts, "2026-03-31");
+    expect(trial.lines.map((line) => line.code)).toEqual(["1000", "1200", "2100", "2200", "3000", "4000", "4100", "5100"]);
+    expect(trial.totalDebit).toBe(trial.totalCredit);
+    expect(trial.balanced).toBe(true);
+
+    const pnl = profitAndLoss(accounts, "2026-03-01", "2026-03-31");
+    expect(pnl.totalIncome).toBe(9400);
+    expect(pnl.netProfit).toBe(-40600);
+  });
+
+  it("carries current earnings into equity so the balance sheet balances", () => {
+    const sheet = balanceSheet(accounts, "2026-03-31");
+    expect(sheet.equity.find((line) => line.name === "Current Earnings")?.amount).toBe(-40600);
+    expect(sheet.totalAssets).toBe(67592);
+    expect(sheet.balanced).toBe(true);
+  });
+});
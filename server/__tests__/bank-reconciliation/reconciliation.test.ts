@@ -0,0 +1,296 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  BankReconciliationError,
+  detectStatementFormat,
+  lineDedupeKeys,
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from "../../core/bank-reconciliation/statement-parsers";
+import {
+  autoMatch,
+  buildUnreconciledReport,
+  nameSimilarity,
+  suggestMatches,
+  validateRulePattern,
+  type MatchCandidate,
+  type MatchRule,
+  type MatchableLine,
+} from "../../core/bank-reconciliation/matching";
+
+const csvStatement = [
+  "Account Number,50100012345678",
+  "Statement From,01/03/2026,To,31/03/2026",
+  "",
+  "Txn Date,Narration,Chq/Ref No,Value Date,Withdrawal Amt,Deposit Amt,Closing Balance",
+  "02/03/2026,NEFT-ACME TRADERS-INV-2026-0042,UTR778812,02/03/2026,,\"11,800.00\",\"61,800.00\"",
+  "05/03/2026,POS PURCHASE OFFICE MART,,05/03/2026,\"1,250.50\",,\"60,549.50\"",
+  "31/03/2026,MONTHLY SERVICE CHARGE,,31/03/2026,118.00,,\"60,431.50\"",
+  "Total,,,,\"1,368.50\",\"11,800.00\",",
+].join("\n");
+
+const ofxStatement = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>4455667788<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260301
+<DTEND>20260331
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260304120000
+<TRNAMT>2500.00
+<FITID>202603040001
+<NAME>Jane Cooper
+<MEMO>Payment INV-1001
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260306
+<TRNAMT>-75.25
+<FITID>202603060002
+<NAME>City Utilities
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>10424.75<DTASOF>20260331</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const mt940Statement = `{1:F01BANKDEFFXXXX0000000000}{4:
+:20:STMT202603
+:25:DE89370400440532013000
+:28C:12/1
+:60F:C260301EUR5000,00
+:61:2603030303C1200,50NTRFINV-2026-7//BR26030301
+:86:?20Invoice INV-2026-7?32Muller GmbH
+:61:2603040305D89,90NDDTNONREF//BR26030502
+:86:Direct debit insurance
+:62F:C260331EUR6110,60
+-}`;
+
+const camtStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+<BkToCstmrStmt>
+<Stmt>
+<Id>STMT-0001</Id>
+<Acct><Id><IBAN>GB33BUKB20201555555555</IBAN></Id><Ccy>GBP</Ccy></Acct>
+<Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="GBP">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-01</Dt></Dt></Bal>
+<Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="GBP">1340.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2026-03-31</Dt></Dt></Bal>
+<Ntry>
+<Amt Ccy="GBP">340.00</Amt>
+<CdtDbtInd>CRDT</CdtDbtInd>
+<BookgDt><Dt>2026-03-10</Dt></BookgDt>
+<ValDt><Dt>2026-03-10</Dt></ValDt>
+<AcctSvcrRef>GB2603100001</AcctSvcrRef>
+<NtryDtls><TxDtls>
+<Refs><EndToEndId>INV-550</EndToEndId></Refs>
+<RltdPties><Dbtr><Nm>Harbour &amp; Co</Nm></Dbtr></RltdPties>
+<RmtInf><Ustrd>Invoice INV-550</Ustrd></RmtInf>
+</TxDtls></NtryDtls>
+</Ntry>
+</Stmt>
+</BkToCstmrStmt>
+</Document>`;
+
+function line(overrides: Partial<MatchableLine> = {}): MatchableLine {
+  return {
+    id: "line-1",
+    bookingDate: "2026-03-02",
+    amount: 11800,
+    currency: "INR",
+    description: "NEFT-ACME TRADERS-INV-2026-0042",
+    reference: "UTR778812",
+    counterparty: null,
+    bankReference: null,
+    ...overrides,
+  };
+}
+
+function candidate(overrides: Partial<MatchCandidate> = {}): MatchCandidate {
+  return {
+    sourceType: "payment",
+    sourceId: "pay-1",
+    amount: 11800,
+    currency: "INR",
+    date: "2026-03-01",
+    references: ["INV-2026-0042"],
+    partyName: "Acme Traders",
+    label: "INV-2026-0042",
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<MatchRule> = {}): MatchRule {
+  return {
+    id: "rule-1",
+    name: "Bank charges",
+    priority: 10,
+    field: "description",
+    pattern: "service charge",
+    direction: "out",
+    minAmount: null,
+    maxAmount: null,
+    action: "exclude",
+    sourceType: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+describe("statement parsing", () => {
+  it("reads amounts in the formats banks export", () => {
+    expect(parseStatementAmount("1,234.56")).toBe(1234.56);
+    expect(parseStatementAmount("1.234,56")).toBe(1234.56);
+    expect(parseStatementAmount("(250.00)")).toBe(-250);
+    expect(parseStatementAmount("₹ 99.90 Dr")).toBe(-99.9);
+    expect(parseStatementAmount("-12")).toBe(-12);
+    expect(() => parseStatementAmount("n/a")).toThrow(BankReconciliationError);
+  });
+
+  it("reads dates in the configured order and with month names", () => {
+    expect(parseStatementDate("2026-03-05T10:00:00")).toBe("2026-03-05");
+    expect(parseStatementDate("05/03/2026")).toBe("2026-03-05");
+    expect(parseStatementDate("03/05/2026", "mdy")).toBe("2026-03-05");
+    expect(parseStatementDate("05-Mar-26")).toBe("2026-03-05");
+    expect(() => parseStatementDate("31/02/2026")).toThrow("Unrecognised date");
+  });
+
+  it("detects the format from content and file name", () => {
+    expect(detectStatementFormat(ofxStatement)).toBe("ofx");
+    expect(detectStatementFormat(mt940Statement)).toBe("mt940");
+    expect(detectStatementFormat(camtStatement)).toBe("camt053");
+    expect(detectStatementFormat("Date,Amount\n", "export.qfx")).toBe("ofx");
+    expect(detectStatementFormat(csvStatement, "march.csv")).toBe("csv");
+  });
+
+  it("skips the preamble and totals of a CSV export with withdrawal and deposit columns", () => {
+    const statement = parseStatement(`\uFEFF${csvStatement}`, "csv");
+    expect(statement.lines).toHaveLength(3);
+    expect(statement.lines[0]).toMatchObject({ bookingDate: "2026-03-02", amount: 11800, reference: "UTR778812" });
+    expect(statement.lines[1].amount).toBe(-1250.5);
+    expect(statement).toMatchObject({ periodStart: "2026-03-02", periodEnd: "2026-03-31" });
+  });
+
+  it("uses custom column names for CSV exports", () => {
+    const statement = parseStatement("Posted;Value;Text\n2026-03-09;-42,10;Card fee", "csv", {
+      dateFormat: "ymd",
+      columns: { date: "Posted", amount: "Value", description: "Text" },
+    });
+    expect(statement.lines).toEqual([expect.objectContaining({ bookingDate: "2026-03-09", amount: -42.1, description: "Card fee" })]);
+  });
+
+  it("parses OFX transactions and the ledger balance", () => {
+    const statement = parseStatement(ofxStatement, "ofx");
+    expect(statement).toMatchObject({ accountNumber: "4455667788", currency: "USD", periodStart: "2026-03-01", closingBalance: 10424.75 });
+    expect(statement.lines[0]).toMatchObject({ bookingDate: "2026-03-04", amount: 2500, counterparty: "Jane Cooper", description: "Payment INV-1001", bankReference: "202603040001" });
+    expect(statement.lines[1].amount).toBe(-75.25);
+  });
+
+  it("parses MT940 statement lines with their :86: details", () => {
+    const statement = parseStatement(mt940Statement, "mt940");
+    expect(statement).toMatchObject({ accountNumber: "DE89370400440532013000", currency: "EUR", openingBalance: 5000, closingBalance: 6110.6 });
+    expect(statement.lines[0]).toMatchObject({ bookingDate: "2026-03-03", amount: 1200.5, reference: "INV-2026-7", bankReference: "BR26030301" });
+    expect(statement.lines[0].description).toContain("Muller GmbH");
+    expect(statement.lines[1]).toMatchObject({ bookingDate: "2026-03-05", valueDate: "2026-03-04", amount: -89.9, reference: null });
+  });
+
+  it("parses camt.053 entries with the paying party and end-to-end reference", () => {
+    const statement = parseStatement(camtStatement, "camt053");
+    expect(statement).toMatchObject({ accountNumber: "GB33BUKB20201555555555", currency: "GBP", openingBalance: 1000, closingBalance: 1340 });
+    expect(statement.lines).toEqual([expect.objectContaining({
+      bookingDate: "2026-03-10",
+      amount: 340,
+      currency: "GBP",
+      reference: "INV-550",
+      counterparty: "Harbour & Co",
+      bankReference: "GB2603100001",
+    })]);
+  });
+
+  it("rejects statements without transactions", () => {
+    expect(() => parseStatement("Date,Amount\n", "csv")).toThrow("The statement has no transactions");
+  });
+
+  it("keeps identical lines distinct but stable across overlapping files", () => {
+    const twin = { bookingDate: "2026-03-05", valueDate: null, amount: -10, currency: null, description: "ATM", reference: null, counterparty: null, bankReference: null };
+    const [first, second] = lineDedupeKeys([twin, twin], "ACC-1");
+    expect(first).not.toBe(second);
+    expect(lineDedupeKeys([twin], "ACC-1")[0]).toBe(first);
+    expect(lineDedupeKeys([twin], "ACC-2")[0]).not.toBe(first);
+  });
+});
+
+describe("matching", () => {
+  it("scores partial names above unrelated ones", () => {
+    expect(nameSimilarity("ACME TRADERS PVT", "Acme Traders")).toBeGreaterThan(0.7);
+    expect(nameSimilarity("Jane Cooper", "City Utilities")).toBeLessThan(0.2);
+  });
+
+  it("auto-matches on amount and reference", () => {
+    const result = autoMatch([line()], [candidate(), candidate({ sourceId: "pay-2", references: ["INV-2026-0043"], partyName: "Other" })], []);
+    expect(result.matches).toEqual([expect.objectContaining({ lineId: "line-1", sourceId: "pay-1", method: "auto", ruleId: null })]);
+  });
+
+  it("leaves ambiguous lines for manual matching", () => {
+    const twins = [candidate({ references: [], partyName: null }), candidate({ sourceId: "pay-2", references: [], partyName: null })];
+    expect(autoMatch([line()], twins, []).matches).toEqual([]);
+  });
+
+  it("never matches across currency or direction", () => {
+    expect(autoMatch([line({ currency: "USD" })], [candidate()], []).matches).toEqual([]);
+    expect(autoMatch([line({ amount: -11800 })], [candidate()], []).matches).toEqual([]);
+  });
+
+  it("gives each payment to one line only", () => {
+    const lines = [line(), line({ id: "line-2", reference: null, description: "NEFT TRANSFER" })];
+    const result = autoMatch(lines, [candidate()], []);
+    expect(result.matches.map((match) => match.lineId)).toEqual(["line-1"]);
+  });
+
+  it("applies rules before scoring", () => {
+    const lines = [
+      line({ id: "charge", amount: -118, description: "MONTHLY SERVICE CHARGE", reference: null }),
+      line({ id: "subscription", amount: -4900, description: "PLATFORM SUBSCRIPTION", reference: null }),
+    ];
+    const candidates = [
+      candidate({ sourceType: "billing_payment", sourceId: "bill-1", amount: -4900, date: "2026-03-02", references: [], partyName: null }),
+      candidate({ sourceType: "payment", sourceId: "refund-1", amount: -4900, references: [], partyName: null }),
+    ];
+    const rules = [
+      rule(),
+      rule({ id: "rule-2", name: "Subscription", field: "description", pattern: "/platform\\s+subscription/", action: "match_source", sourceType: "billing_payment" }),
+    ];
+    const result = autoMatch(lines, candidates, rules);
+    expect(result.exclusions).toEqual([{ lineId: "charge", ruleId: "rule-1", note: "Bank charges" }]);
+    expect(result.matches).toEqual([expect.objectContaining({ lineId: "subscription", sourceId: "bill-1", method: "rule", ruleId: "rule-2" })]);
+  });
+
+  it("rejects invalid regular expression rules", () => {
+    expect(() => validateRulePattern("/[unclosed/")).toThrow(BankReconciliationError);
+    expect(() => validateRulePattern("[plain text")).not.toThrow();
+  });
+
+  it("suggests near amounts for manual matching, best first", () => {
+    const suggestions = suggestMatches(line({ amount: 11780 }), [
+      candidate(),
+      candidate({ sourceId: "pay-far", amount: 15000 }),
+      candidate({ sourceId: "pay-late", date: "2026-04-30" }),
+    ], { dateWindowDays: 14 });
+    expect(suggestions.map((entry) => entry.candidate.sourceId)).toEqual(["pay-1"]);
+    expect(suggestions[0].reasons).toEqual(expect.arrayContaining(["approximate amount", "reference"]));
+  });
+
+  it("summarises unreconciled lines and payments", () => {
+    const report = buildUnreconciledReport(
+      [line({ id: "b", bookingDate: "2026-03-20", amount: -50 }), line({ id: "a", bookingDate: "2026-03-02" })],
+      [candidate({ date: "2026-03-15" }), candidate({ sourceType: "billing_payment", sourceId: "bill-1", amount: -4900, date: "2026-03-01" })],
+      "2026-03-31",
+    );
+    expect(report.bankLines).toMatchObject({ count: 2, moneyIn: 11800, moneyOut: 50 });
+    expect(report.bankLines.items.map((item) => [item.id, item.ageDays])).toEqual([["a", 29], ["b", 11]]);
+    expect(report.records.bySourceType).toEqual({ payment: { count: 1, amount: 11800 }, billing_payment: { count: 1, amount: -4900 } });
+    expect(report.records.items[0].sourceId).toBe("bill-1");
+  });
+});
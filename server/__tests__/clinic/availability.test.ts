@@ -0,0 +1,96 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  parseAvailability,
+  calculateSlots,
+  findConflict,
+  getWorkingWindows,
+  isWithinWorkingHours,
+  rangesOverlap,
+  addMinutes,
+  hasSchedule,
+} from "../../core/clinic/availability";
+
+// 2026-10-19 is a Monday, 2026-10-18 a Sunday
+const MONDAY = "2026-10-19";
+const SUNDAY = "2026-10-18";
+
+const availability = parseAvailability({
+  slotMinutes: 30,
+  schedule: {
+    monday: [
+      { start: "09:00", end: "11:00" },
+      { start: "14:00", end: "15:00" },
+    ],
+  },
+  blockedDates: ["2026-10-26"],
+});
+
+describe("Clinic doctor availability", () => {
+  describe("parseAvailability", () => {
+    it("falls back to an empty schedule for legacy or invalid values", () => {
+      const empty = parseAvailability({});
+      expect(empty.slotMinutes).toBe(15);
+      expect(hasSchedule(empty)).toBe(false);
+
+      const invalid = parseAvailability({ schedule: { monday: [{ start: "10:00", end: "09:00" }] } });
+      expect(hasSchedule(invalid)).toBe(false);
+    });
+
+    it("keeps a valid weekly schedule", () => {
+      expect(hasSchedule(availability)).toBe(true);
+      expect(availability.slotMinutes).toBe(30);
+    });
+  });
+
+  describe("getWorkingWindows", () => {
+    it("returns windows for the weekday of the date", () => {
+      expect(getWorkingWindows(availability, MONDAY)).toHaveLength(2);
+      expect(getWorkingWindows(availability, SUNDAY)).toHaveLength(0);
+    });
+
+    it("returns nothing on blocked dates", () => {
+      expect(getWorkingWindows(availability, "2026-10-26")).toHaveLength(0);
+    });
+  });
+
+  describe("calculateSlots", () => {
+    it("splits working windows into fixed-length slots", () => {
+      const slots = calculateSlots(availability, MONDAY, []);
+      expect(slots.map(s => s.start)).toEqual(["09:00", "09:30", "10:00", "10:30", "14:00", "14:30"]);
+      expect(slots.every(s => s.available)).toBe(true);
+    });
+
+    it("marks slots overlapping booked appointments as unavailable", () => {
+      const slots = calculateSlots(availability, MONDAY, [
+        { startTime: "09:30:00", endTime: "10:15:00" },
+        { startTime: "14:30:00", endTime: null },
+      ]);
+      const unavailable = slots.filter(s => !s.available).map(s => s.start);
+      expect(unavailable).toEqual(["09:30", "10:00", "14:30"]);
+    });
+  });
+
+  describe("conflict detection", () => {
+    it("treats touching ranges as non-overlapping", () => {
+      expect(rangesOverlap("09:00", "09:30", "09:30", "10:00")).toBe(false);
+      expect(rangesOverlap("09:00", "09:31", "09:30", "10:00")).toBe(true);
+    });
+
+    it("assumes one slot for appointments without an end time", () => {
+      const booked = [{ id: "a1", startTime: "10:00:00", endTime: null }];
+      expect(findConflict(booked, "10:15", "10:45", 30)?.id).toBe("a1");
+      expect(findConflict(booked, "10:30", "11:00", 30)).toBeUndefined();
+    });
+
+    it("checks requests against working hours", () => {
+      expect(isWithinWorkingHours(availability, MONDAY, "09:00", "09:30")).toBe(true);
+      expect(isWithinWorkingHours(availability, MONDAY, "10:45", "11:15")).toBe(false);
+      expect(isWithinWorkingHours(availability, SUNDAY, "09:00", "09:30")).toBe(false);
+    });
+  });
+
+  it("adds minutes without wrapping past midnight", () => {
+    expect(addMinutes("09:45", 30)).toBe("10:15");
+    expect(addMinutes("23:50", 30)).toBe("23:59");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import express from "express";
+import request from "supertest";
+import { complianceService, phiAccessMiddleware } from "../../core/compliance";
+
+function appWith(handler: express.RequestHandler) {
+  const app = express();
+  app.use((req, _res, next) => {
+    (req as any).context = { user: { id: "user-1" }, tenant: { id: "tenant-1" } };
+    next();
+  });
+  app.get("/records", phiAccessMiddleware("medical_record"), handler);
+  app.get("/records/:id", phiAccessMiddleware("medical_record"), handler);
+  return app;
+}
+
+describe("PHI access logging", () => {
+  it("logs one access per record in a list response", async () => {
+    const log = jest.spyOn(complianceService, "logPHIAccessAsync").mockImplementation(() => {});
+    const app = appWith((_req, res) => {
+      res.json({ data: [{ id: "rec-1", patientId: "pat-1" }, { id: "rec-2", patientId: "pat-2" }], pagination: {} });
+    });
+
+    await request(app).get("/records").set("x-access-reason", "treatment").expect(200);
+
+    expect(log.mock.calls.map(([entry]) => [entry.patientId, entry.resourceId])).toEqual([["pat-1", "rec-1"], ["pat-2", "rec-2"]]);
+    log.mockRestore();
+  });
+
+  it("still logs single-record reads by route id", async () => {
+    const log = jest.spyOn(complianceService, "logPHIAccessAsync").mockImplementation(() => {});
+    const app = appWith((_req, res) => {
+      res.json({ id: "rec-1", patientId: "pat-1" });
+    });
+
+    await request(app).get("/records/rec-1").expect(200);
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log.mock.calls[0][0]).toMatchObject({ resourceType: "medical_record", resourceId: "rec-1", action: "view" });
+    log.mockRestore();
+  });
+});
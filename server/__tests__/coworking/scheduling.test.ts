@@ -0,0 +1,111 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  toTimestamp,
+  bookingHours,
+  validateRoomBookingWindow,
+  creditWindow,
+  allocateCredits,
+  overageCharge,
+  expandRecurrence,
+  buildAvailabilityRow,
+  MAX_RECURRING_OCCURRENCES,
+} from "../../core/coworking/scheduling";
+
+const room = { openTime: "08:00:00", closeTime: "20:00:00" };
+
+describe("Coworking scheduling rules", () => {
+  describe("meeting room booking window", () => {
+    it("accepts a half-hour aligned booking within opening hours", () => {
+      expect(validateRoomBookingWindow(room, toTimestamp("2026-10-19", "09:30"), toTimestamp("2026-10-19", "11:00"))).toBeNull();
+      expect(bookingHours(toTimestamp("2026-10-19", "09:30"), toTimestamp("2026-10-19", "11:00"))).toBe(1.5);
+    });
+
+    it("rejects inverted, misaligned and out-of-hours windows", () => {
+      expect(validateRoomBookingWindow(room, toTimestamp("2026-10-19", "11:00"), toTimestamp("2026-10-19", "10:00"))).toMatch(/after start/);
+      expect(validateRoomBookingWindow(room, toTimestamp("2026-10-19", "09:15"), toTimestamp("2026-10-19", "10:00"))).toMatch(/30-minute/);
+      expect(validateRoomBookingWindow(room, toTimestamp("2026-10-19", "07:30"), toTimestamp("2026-10-19", "09:00"))).toBe("Room is open 08:00-20:00");
+      expect(validateRoomBookingWindow(room, toTimestamp("2026-10-19", "19:00"), toTimestamp("2026-10-19", "20:30"))).toBe("Room is open 08:00-20:00");
+    });
+
+    it("rejects bookings that run into the next day", () => {
+      const allDay = { openTime: "00:00", closeTime: "23:59" };
+      expect(validateRoomBookingWindow(allDay, toTimestamp("2026-10-19", "22:00"), toTimestamp("2026-10-20", "01:00"))).toMatch(/multiple days/);
+    });
+  });
+
+  describe("credits", () => {
+    it("draws from the UTC calendar month of the booking", () => {
+      const window = creditWindow(toTimestamp("2026-12-31", "23:30"));
+      expect(window.start.toISOString()).toBe("2026-12-01T00:00:00.000Z");
+      expect(window.end.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+    });
+
+    it("covers the booking fully while credits remain", () => {
+      expect(allocateCredits(2, 1, 10)).toEqual({ creditsUsed: 2, overageHours: 0 });
+    });
+
+    it("splits a booking between credits and overage", () => {
+      expect(allocateCredits(3, 2, 4)).toEqual({ creditsUsed: 4, overageHours: 1 });
+      expect(overageCharge(1, 450)).toBe(450);
+    });
+
+    it("bills everything as overage once credits are spent", () => {
+      expect(allocateCredits(1.5, 1, -2)).toEqual({ creditsUsed: 0, overageHours: 1.5 });
+      expect(overageCharge(1.5, 333.33)).toBe(500);
+    });
+
+    it("treats rooms that cost no credits as free", () => {
+      expect(allocateCredits(2, 0, 0)).toEqual({ creditsUsed: 0, overageHours: 0 });
+    });
+  });
+
+  describe("recurring reservations", () => {
+    it("expands matching weekdays inclusively", () => {
+      expect(expandRecurrence("2026-10-19", "2026-10-30", ["monday", "wednesday", "friday"])).toEqual([
+        "2026-10-19", "2026-10-21", "2026-10-23", "2026-10-26", "2026-10-28", "2026-10-30",
+      ]);
+    });
+
+    it("caps the number of occurrences", () => {
+      const dates = expandRecurrence("2026-01-01", "2026-12-31", ["monday", "tuesday", "wednesday", "thursday", "friday"]);
+      expect(dates).toHaveLength(MAX_RECURRING_OCCURRENCES);
+    });
+  });
+
+  describe("availability grid", () => {
+    it("marks booked, closed and free slots", () => {
+      const cells = buildAvailabilityRow({
+        date: "2026-10-19",
+        from: "07:00",
+        to: "10:00",
+        slotMinutes: 60,
+        open: room,
+        bookings: [{ id: "b1", startTime: toTimestamp("2026-10-19", "08:30"), endTime: toTimestamp("2026-10-19", "09:00") }],
+      });
+
+      expect(cells).toEqual([
+        { start: "07:00", end: "08:00", state: "closed" },
+        { start: "08:00", end: "09:00", state: "booked", bookingId: "b1" },
+        { start: "09:00", end: "10:00", state: "free" },
+      ]);
+    });
+
+    it("ignores bookings that only touch a slot boundary", () => {
+      const cells = buildAvailabilityRow({
+        date: "2026-10-19",
+        from: "09:00",
+        to: "10:00",
+        slotMinutes: 30,
+        bookings: [{ id: "b1", startTime: toTimestamp("2026-10-19", "08:00"), endTime: toTimestamp("2026-10-19", "09:00") }],
+      });
+
+      expect(cells.map(cell => cell.state)).toEqual(["free", "free"]);
+    });
+
+    it("blocks every slot for out-of-service resources", () => {
+      const cells = buildAvailabilityRow({ date: "2026-10-19", from: "09:00", to: "11:00", slotMinutes: 30, bookings: [], blocked: true });
+      expect(cells).toHaveLength(4);
+      expect(cells.every(cell => cell.state === "blocked")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "@jest/globals";
+import { is } from "drizzle-orm";
+import { PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import { DSAR_SUBJECTS } from "../../core/compliance/dsar-subjects";
+import {
+  buildDsarManifest,
+  dsarCsvPath,
+  dsarExportExpiry,
+  normalizeSubjectEmail,
+  toCsv,
+} from "../../core/compliance/dsar-bundle";
+
+const generatedAt = new Date("2026-05-01T09:30:00.000Z");
+
+describe("DSAR export bundle", () => {
+  it("writes CSV with quoted cells, ISO dates and JSON objects", () => {
+    const csv = toCsv([
+      { id: "c1", name: 'Ada "A" Lovelace', createdAt: generatedAt, tags: ["vip"] },
+      { id: "c2", name: null, notes: "line1\nline2" },
+    ]);
+    const [header, first, second] = csv.split("\n");
+    expect(header).toBe("id,name,createdAt,tags,notes");
+    expect(first).toBe('"c1","Ada ""A"" Lovelace","2026-05-01T09:30:00.000Z","[""vip""]",""');
+    expect(second).toBe('"c2","","","","line1');
+    expect(toCsv([])).toBe("");
+  });
+
+  it("lists subjects and non-empty tables in the manifest", () => {
+    const manifest = buildDsarManifest({
+      dsarId: "d1",
+      tenantId: "t1",
+      requestType: "access",
+      subjectEmail: "ada@example.com",
+      generatedAt,
+      exports: [
+        { subjectType: "customer", table: "customers", isSubject: true, rows: [{ id: "c1" }] },
+        { subjectType: "customer", table: "bookings", isSubject: false, rows: [{ id: "b1" }, { id: "b2" }] },
+        { subjectType: "customer", table: "invoices", isSubject: false, rows: [] },
+        { subjectType: "contact", table: "consent_records", isSubject: false, rows: [{ id: "k1" }] },
+      ],
+    });
+
+    expect(manifest.subjects).toEqual([{ subjectType: "customer", id: "c1" }]);
+    expect(manifest.files.map((file) => file.path)).toEqual([
+      "csv/customer/customers.csv",
+      "csv/customer/bookings.csv",
+      "csv/contact/consent_records.csv",
+    ]);
+    expect(manifest.totalRecords).toBe(4);
+    expect(manifest.expiresAt).toBe("2026-05-31T09:30:00.000Z");
+  });
+
+  it("normalizes subject emails and export paths", () => {
+    expect(normalizeSubjectEmail("  Ada@Example.COM ")).toBe("ada@example.com");
+    expect(dsarCsvPath("student", "attendance")).toBe("csv/student/attendance.csv");
+    expect(dsarExportExpiry(generatedAt).toISOString()).toBe("2026-05-31T09:30:00.000Z");
+  });
+});
+
+describe("DSAR subjects", () => {
+  const tableName = (table: PgTable) => getTableConfig(table).name;
+
+  it("walks every table that references a customer", () => {
+    const referencing = Object.values(schema)
+      .filter((value): value is PgTable => is(value, PgTable))
+      .filter((table) => {
+        const config = getTableConfig(table);
+        return config.foreignKeys.some((key) => key.reference().foreignTable === schema.customers)
+          || config.columns.some((column) => column.name === "customer_id");
+      })
+      .map(tableName);
+
+    const covered = new Set([
+      ...DSAR_SUBJECTS.customer.related.map((related) => tableName(related.table)),
+      ...Object.values(DSAR_SUBJECTS).filter((subject) => subject.customerColumn).map((subject) => tableName(subject.table)),
+    ]);
+    expect(referencing.length).toBeGreaterThan(0);
+    expect(referencing.filter((name) => !covered.has(name))).toEqual([]);
+  });
+
+  it("only follows tables matched earlier for the same subject", () => {
+    for (const subject of Object.values(DSAR_SUBJECTS)) {
+      const matched = [subject.name];
+      for (const related of subject.related) {
+        if (related.via) expect(matched).toContain(related.via.name);
+        matched.push(related.name);
+      }
+    }
+  });
+});
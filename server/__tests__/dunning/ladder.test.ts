@@ -0,0 +1,128 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  DEFAULT_DUNNING_SCHEDULE,
+  DunningError,
+  accessStage,
+  dueMessages,
+  nextRetryAt,
+  renderDunningMessage,
+  stageAllows,
+  summarizeRecovery,
+  validateSchedule,
+  type RecoveryCase,
+} from "../../core/dunning/ladder";
+
+const openedAt = new Date("2026-03-01T10:00:00.000Z");
+
+function at(days: number, hours = 0): Date {
+  return new Date(openedAt.getTime() + (days * 24 + hours) * 60 * 60 * 1000);
+}
+
+describe("ladder", () => {
+  it("schedules retries on the configured days and stops after the last", () => {
+    expect(nextRetryAt(openedAt, 0, DEFAULT_DUNNING_SCHEDULE)).toEqual(at(1));
+    expect(nextRetryAt(openedAt, 1, DEFAULT_DUNNING_SCHEDULE)).toEqual(at(3));
+    expect(nextRetryAt(openedAt, 2, DEFAULT_DUNNING_SCHEDULE)).toEqual(at(7));
+    expect(nextRetryAt(openedAt, 3, DEFAULT_DUNNING_SCHEDULE)).toBeNull();
+  });
+
+  it("degrades access as the case ages", () => {
+    expect(accessStage(openedAt, at(2, 23), DEFAULT_DUNNING_SCHEDULE)).toBe("full");
+    expect(accessStage(openedAt, at(3), DEFAULT_DUNNING_SCHEDULE)).toBe("limited");
+    expect(accessStage(openedAt, at(7), DEFAULT_DUNNING_SCHEDULE)).toBe("read_only");
+    expect(accessStage(openedAt, at(10), DEFAULT_DUNNING_SCHEDULE)).toBe("suspended");
+  });
+
+  it("stops premium requests first, then writes", () => {
+    expect(stageAllows("full", { method: "POST", premium: true })).toBe(true);
+    expect(stageAllows("limited", { method: "POST", premium: false })).toBe(true);
+    expect(stageAllows("limited", { method: "GET", premium: true })).toBe(false);
+    expect(stageAllows("read_only", { method: "get", premium: false })).toBe(true);
+    expect(stageAllows("read_only", { method: "PATCH", premium: false })).toBe(false);
+    expect(stageAllows("suspended", { method: "GET", premium: false })).toBe(false);
+  });
+
+  it("sends only the latest due message per channel when behind", () => {
+    expect(dueMessages(openedAt, at(0), DEFAULT_DUNNING_SCHEDULE, [])).toEqual({
+      send: [{ day: 0, channel: "email", tone: "reminder" }],
+      handled: ["0:email"],
+    });
+
+    const late = dueMessages(openedAt, at(7, 2), DEFAULT_DUNNING_SCHEDULE, ["0:email"]);
+    expect(late.send).toEqual([
+      { day: 7, channel: "email", tone: "final" },
+      { day: 7, channel: "whatsapp", tone: "final" },
+    ]);
+    expect(late.handled).toEqual(["3:email", "3:whatsapp", "7:email", "7:whatsapp"]);
+
+    expect(dueMessages(openedAt, at(8), DEFAULT_DUNNING_SCHEDULE, ["0:email", ...late.handled]).handled).toEqual([]);
+  });
+
+  it("rejects schedules that retry or message after suspension", () => {
+    expect(() => validateSchedule(DEFAULT_DUNNING_SCHEDULE)).not.toThrow();
+    expect(() => validateSchedule({ ...DEFAULT_DUNNING_SCHEDULE, retryDays: [3, 1] })).toThrow(DunningError);
+    expect(() => validateSchedule({ ...DEFAULT_DUNNING_SCHEDULE, retryDays: [1, 3, 10] })).toThrow("before the account is suspended");
+    expect(() => validateSchedule({ ...DEFAULT_DUNNING_SCHEDULE, readOnlyAfterDays: 2 })).toThrow(DunningError);
+    expect(() => validateSchedule({
+      ...DEFAULT_DUNNING_SCHEDULE,
+      messageSteps: [{ day: 1, channel: "email", tone: "reminder" }, { day: 1, channel: "email", tone: "warning" }],
+    })).toThrow("More than one email message on day 1");
+  });
+
+  it("fills message templates with the case details", () => {
+    const message = renderDunningMessage("final", {
+      tenantName: "Acme Furniture",
+      invoiceNumber: "INV-1",
+      amount: "1180.00",
+      currency: "INR",
+      paymentLink: "https://pay.example/abc",
+      suspendsOn: "2026-03-11",
+    });
+    expect(message.subject).toBe("Final notice: your account will be suspended on 2026-03-11");
+    expect(message.body).toContain("INV-1 for INR 1180.00");
+    expect(message.body).toContain("https://pay.example/abc");
+  });
+});
+
+describe("recovery report", () => {
+  function recoveryCase(overrides: Partial<RecoveryCase> = {}): RecoveryCase {
+    return {
+      status: "recovered",
+      currency: "INR",
+      amountDue: 1000,
+      recoveredAmount: 1000,
+      retryCount: 1,
+      openedAt,
+      recoveredAt: at(1),
+      ...overrides,
+    };
+  }
+
+  it("summarizes recovery per currency", () => {
+    const [inr, usd] = summarizeRecovery([
+      recoveryCase(),
+      recoveryCase({ retryCount: 0, recoveredAt: at(0, 12), recoveredAmount: 999.5 }),
+      recoveryCase({ status: "failed", recoveredAmount: null, recoveredAt: null, retryCount: 3 }),
+      recoveryCase({ status: "open", amountDue: 500, recoveredAmount: null, recoveredAt: null }),
+      recoveryCase({ status: "cancelled", recoveredAmount: null, recoveredAt: null }),
+      recoveryCase({ currency: "USD", amountDue: 49, recoveredAmount: 49, retryCount: 2, recoveredAt: at(3) }),
+    ]);
+
+    expect(inr).toEqual({
+      currency: "INR",
+      cases: 5,
+      open: 1,
+      recovered: 2,
+      failed: 1,
+      cancelled: 1,
+      amountAtRisk: 500,
+      amountRecovered: 1999.5,
+      amountLost: 1000,
+      recoveryRate: 66.67,
+      averageDaysToRecover: 0.75,
+      recoveredByRetry: { 0: 1, 1: 1 },
+    });
+    expect(usd.recoveryRate).toBe(100);
+    expect(usd.recoveredByRetry).toEqual({ 2: 1 });
+  });
+});
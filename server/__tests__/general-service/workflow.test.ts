@@ -0,0 +1,53 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  serviceJobStage,
+  canTransitionJob,
+  jobStageUpdate,
+  jobInvoiceAmount,
+} from "../../core/general-service/workflow";
+
+const job = (overrides: Partial<{ status: "pending" | "confirmed" | "completed" | "cancelled"; startedAt: Date | null; invoiceId: string | null }> = {}) => ({
+  status: "confirmed" as const,
+  startedAt: null,
+  invoiceId: null,
+  ...overrides,
+});
+
+describe("General-service job workflow", () => {
+  it("derives the job stage from the booking", () => {
+    expect(serviceJobStage(job({ status: "pending" }))).toBe("scheduled");
+    expect(serviceJobStage(job())).toBe("scheduled");
+    expect(serviceJobStage(job({ startedAt: new Date() }))).toBe("in_progress");
+    expect(serviceJobStage(job({ status: "completed", startedAt: new Date() }))).toBe("completed");
+    expect(serviceJobStage(job({ status: "completed", invoiceId: "inv-1" }))).toBe("invoiced");
+    expect(serviceJobStage(job({ status: "cancelled" }))).toBe("cancelled");
+  });
+
+  it("only allows forward transitions", () => {
+    expect(canTransitionJob("scheduled", "in_progress")).toBe(true);
+    expect(canTransitionJob("in_progress", "completed")).toBe(true);
+    expect(canTransitionJob("completed", "invoiced")).toBe(true);
+    expect(canTransitionJob("scheduled", "completed")).toBe(false);
+    expect(canTransitionJob("scheduled", "invoiced")).toBe(false);
+    expect(canTransitionJob("in_progress", "cancelled")).toBe(false);
+    expect(canTransitionJob("invoiced", "completed")).toBe(false);
+  });
+
+  it("writes the booking columns for each step", () => {
+    const at = new Date("2026-10-18T10:00:00Z");
+    expect(jobStageUpdate("in_progress", at)).toMatchObject({ status: "confirmed", startedAt: at });
+    expect(jobStageUpdate("completed", at)).toMatchObject({ status: "completed", completedAt: at });
+    expect(jobStageUpdate("cancelled", at, { userId: "u1", reason: "No show" })).toMatchObject({
+      status: "cancelled",
+      cancelledAt: at,
+      cancelledBy: "u1",
+      cancelReason: "No show",
+    });
+  });
+
+  it("bills the agreed booking amount, falling back to the list price", () => {
+    expect(jobInvoiceAmount("1200.50", "1500.00")).toBe(1200.5);
+    expect(jobInvoiceAmount("0", "1500.00")).toBe(0);
+    expect(jobInvoiceAmount(null, "1500.00")).toBe(1500);
+  });
+});
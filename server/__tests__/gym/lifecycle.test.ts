@@ -0,0 +1,80 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  membershipEndDate,
+  calculateFreezeExtension,
+  evaluateCheckIn,
+  selectCurrentMembership,
+  allocateSeat,
+  isDueForRenewalReminder,
+  expandWeeklyDates,
+} from "../../core/gym/lifecycle";
+
+const active = { status: "active", startDate: "2026-10-01", endDate: "2026-10-30" };
+
+describe("Gym membership lifecycle", () => {
+  it("treats end dates as inclusive", () => {
+    expect(membershipEndDate("2026-10-01", 30)).toBe("2026-10-30");
+    expect(membershipEndDate("2026-12-15", 30)).toBe("2027-01-13");
+  });
+
+  describe("freezes", () => {
+    it("extends the end date by the days frozen", () => {
+      expect(calculateFreezeExtension("2026-10-30", "2026-10-10", "2026-10-20")).toEqual({
+        daysFrozen: 10,
+        newEndDate: "2026-11-09",
+      });
+    });
+
+    it("does not extend when unfrozen the same day", () => {
+      expect(calculateFreezeExtension("2026-10-30", "2026-10-10", "2026-10-10").daysFrozen).toBe(0);
+    });
+  });
+
+  describe("check-in", () => {
+    it("allows a current active membership", () => {
+      expect(evaluateCheckIn({ isActive: true }, active, "2026-10-15")).toEqual({ allowed: true });
+    });
+
+    it("denies frozen, expired and missing memberships", () => {
+      expect(evaluateCheckIn({ isActive: true }, { ...active, status: "suspended" }, "2026-10-15"))
+        .toEqual({ allowed: false, reason: "Membership is frozen" });
+      expect(evaluateCheckIn({ isActive: true }, active, "2026-10-31"))
+        .toEqual({ allowed: false, reason: "Membership expired on 2026-10-30" });
+      expect(evaluateCheckIn({ isActive: true }, null, "2026-10-15"))
+        .toEqual({ allowed: false, reason: "No membership" });
+      expect(evaluateCheckIn({ isActive: false }, active, "2026-10-15"))
+        .toEqual({ allowed: false, reason: "Member is inactive" });
+    });
+
+    it("prefers the membership covering the date", () => {
+      const renewal = { status: "active", startDate: "2026-10-31", endDate: "2026-11-29" };
+      expect(selectCurrentMembership([renewal, active], "2026-10-15")).toBe(active);
+      expect(selectCurrentMembership([active, renewal], "2026-11-02")).toBe(renewal);
+      expect(selectCurrentMembership([{ ...active, status: "expired" }], "2026-11-02")?.status).toBe("expired");
+    });
+  });
+
+  describe("class capacity", () => {
+    it("books until capacity, then waitlists until the waitlist is full", () => {
+      const session = { capacity: 2, waitlistLimit: 1 };
+      expect(allocateSeat(session, 1, 0)).toBe("booked");
+      expect(allocateSeat(session, 2, 0)).toBe("waitlisted");
+      expect(allocateSeat(session, 2, 1)).toBe("full");
+      expect(allocateSeat({ capacity: 2, waitlistLimit: null }, 2, 0)).toBe("full");
+    });
+
+    it("expands weekly repeats", () => {
+      // 2026-10-19 is a Monday
+      expect(expandWeeklyDates("2026-10-19", "2026-10-28", ["monday", "wednesday"]))
+        .toEqual(["2026-10-19", "2026-10-21", "2026-10-26", "2026-10-28"]);
+    });
+  });
+
+  it("sends one renewal reminder inside the lead window", () => {
+    const membership = { ...active, renewalReminderSentAt: null };
+    expect(isDueForRenewalReminder(membership, "2026-10-20")).toBe(false);
+    expect(isDueForRenewalReminder(membership, "2026-10-23")).toBe(true);
+    expect(isDueForRenewalReminder({ ...membership, renewalReminderSentAt: new Date() }, "2026-10-23")).toBe(false);
+    expect(isDueForRenewalReminder({ ...membership, status: "suspended" }, "2026-10-23")).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "@jest/globals";
+import type { GstConfiguration, GstInvoice } from "@shared/schema";
+import { buildEInvoicePayload, canCancelIrn, computeIrn, financialYear, validateForEInvoice } from "../../core/india-compliance/e-invoice";
+import { buildGstr1, buildGstr3b, parseReturnPeriod } from "../../core/india-compliance/gst-returns";
+import { MockIrpClient } from "../../core/india-compliance/irp/mock-client";
+
+const config = {
+  gstin: "27AAPFU0939F1ZV",
+  legalName: "Acme Furniture Pvt Ltd",
+  tradeName: null,
+  stateCode: "27",
+  addressLine1: "12 MG Road",
+  addressLine2: null,
+  city: "Pune",
+  pincode: "411001",
+  phone: null,
+  email: null,
+} as unknown as GstConfiguration;
+
+function invoice(overrides: Partial<GstInvoice>): GstInvoice {
+  return {
+    id: "inv-1",
+    invoiceNumber: "INV/001",
+    invoiceType: "tax_invoice",
+    invoiceDate: new Date(2026, 4, 10),
+    customerName: "Buyer Ltd",
+    customerGstin: "29AABCT1332L1ZT",
+    customerAddress: "1 Brigade Road",
+    customerCity: "Bengaluru",
+    customerPincode: "560001",
+    customerStateCode: "29",
+    placeOfSupply: "29",
+    supplyType: "B2B",
+    reverseCharge: false,
+    status: "issued",
+    roundOff: "0",
+    totalAmount: "1180",
+    lineItems: [{ description: "Chair", hsnCode: "9401", quantity: 2, unitPrice: 500, gstRate: 18, igstAmount: 180 }],
+    ...overrides,
+  } as GstInvoice;
+}
+
+describe("GST e-invoice", () => {
+  it("computes the IRN over GSTIN, financial year, type and number", () => {
+    expect(financialYear(new Date(2026, 2, 31))).toBe("2025-26");
+    expect(financialYear(new Date(2026, 3, 1))).toBe("2026-27");
+    const irn = computeIrn(config.gstin, "INV", "inv/001", new Date(2026, 4, 10));
+    expect(irn).toMatch(/^[0-9a-f]{64}$/);
+    expect(irn).toBe(computeIrn(config.gstin, "INV", "INV/001", new Date(2026, 6, 1)));
+  });
+
+  it("builds a v1.1 payload and flags missing data", () => {
+    const payload = buildEInvoicePayload(invoice({}), config);
+    expect(payload.Version).toBe("1.1");
+    expect(payload.DocDtls).toEqual({ Typ: "INV", No: "INV/001", Dt: "10/05/2026" });
+    expect(payload.ItemList[0]).toMatchObject({ HsnCd: "9401", IsServc: "N", AssAmt: 1000, IgstAmt: 180, TotItemVal: 1180 });
+    expect(payload.ValDtls).toMatchObject({ AssVal: 1000, IgstVal: 180, TotInvVal: 1180 });
+
+    expect(validateForEInvoice(invoice({}), config)).toEqual([]);
+    expect(validateForEInvoice(invoice({ supplyType: "B2C", customerGstin: null, lineItems: [{ quantity: 1, unitPrice: 10 }] }), config)).toEqual([
+      "Only B2B, B2G, SEZ and export supplies are e-invoiced",
+      "Buyer GSTIN is required",
+      "Line 1: a 4-8 digit HSN/SAC code is required",
+    ]);
+  });
+
+  it("allows cancellation only within 24 hours", () => {
+    const ackDate = new Date("2026-05-10T10:00:00Z");
+    expect(canCancelIrn(ackDate, new Date("2026-05-11T09:59:00Z"))).toBe(true);
+    expect(canCancelIrn(ackDate, new Date("2026-05-11T10:01:00Z"))).toBe(false);
+  });
+
+  it("registers each document once with the mock IRP", async () => {
+    const client = new MockIrpClient();
+    const credentials = { gstin: config.gstin, username: "api", password: "secret" };
+    const payload = buildEInvoicePayload(invoice({}), config);
+    const result = await client.generateIrn(payload, credentials);
+    expect(result.irn).toBe(computeIrn(config.gstin, "INV", "INV/001", new Date(2026, 4, 10)));
+    await expect(client.generateIrn(payload, credentials)).rejects.toMatchObject({ code: "2150" });
+    await expect(client.cancelIrn(result.irn, "data_entry_mistake", "Wrong rate", credentials)).resolves.toMatchObject({ irn: result.irn });
+  });
+});
+
+describe("GST returns", () => {
+  const invoices = [
+    invoice({}),
+    invoice({ id: "inv-2", invoiceNumber: "INV/002", customerGstin: null, supplyType: "B2C", placeOfSupply: "27", totalAmount: "590",
+      lineItems: [{ hsnCode: "9401", quantity: 1, unitPrice: 500, gstRate: 18, cgstAmount: 45, sgstAmount: 45 }] }),
+    invoice({ id: "inv-3", invoiceNumber: "INV/003", customerGstin: null, supplyType: "B2C", placeOfSupply: "29", totalAmount: "236000",
+      lineItems: [{ hsnCode: "9403", quantity: 1, unitPrice: 200000, gstRate: 18, igstAmount: 36000 }] }),
+    invoice({ id: "inv-4", invoiceNumber: "CN/001", invoiceType: "credit_note", totalAmount: "590",
+      lineItems: [{ hsnCode: "9401", quantity: 1, unitPrice: 500, gstRate: 18, igstAmount: 90 }] }),
+    invoice({ id: "inv-5", invoiceNumber: "INV/005", status: "draft" }),
+  ];
+
+  it("parses MMYYYY periods", () => {
+    const range = parseReturnPeriod("052026")!;
+    expect(range.start).toEqual(new Date(2026, 4, 1));
+    expect(range.end.getDate()).toBe(31);
+    expect(parseReturnPeriod("132026")).toBeNull();
+  });
+
+  it("splits GSTR-1 into B2B, B2CL, B2CS, notes and HSN summary", () => {
+    const gstr1 = buildGstr1({ gstin: config.gstin, sellerStateCode: "27", period: "052026", invoices });
+    expect(gstr1.b2b).toHaveLength(1);
+    expect(gstr1.b2b[0].inv).toHaveLength(1);
+    expect(gstr1.b2cl).toEqual([expect.objectContaining({ pos: "29" })]);
+    expect(gstr1.b2cs).toEqual([expect.objectContaining({ sply_ty: "INTRA", pos: "27", rt: 18, txval: 500, camt: 45, samt: 45 })]);
+    expect(gstr1.cdnr[0].nt).toEqual([expect.objectContaining({ ntty: "C", nt_num: "CN/001" })]);
+    expect(gstr1.hsn.data.find((row) => row.hsn_sc === "9401")).toMatchObject({ qty: 2, txval: 1000, iamt: 90, camt: 45 });
+  });
+
+  it("nets credit notes in the GSTR-3B outward supplies", () => {
+    const gstr3b = buildGstr3b({ gstin: config.gstin, sellerStateCode: "27", period: "052026", invoices });
+    expect(gstr3b.sup_details.osup_det).toEqual({ txval: 201000, iamt: 36090, camt: 45, samt: 45, csamt: 0 });
+    expect(gstr3b.inter_sup.unreg_details).toEqual([{ pos: "29", txval: 200000, iamt: 36000 }]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "@jest/globals";
+import type { FurnitureInvoice, LedgerDocument, TourBooking } from "@shared/schema";
+import {
+  agingBucket,
+  assertCanIssueNote,
+  assertCanRecordPayment,
+  assertCanRefund,
+  buildReceivables,
+  formatDocumentNumber,
+  ledgerBalance,
+  ledgerStatus,
+  validateSeriesUpdate,
+} from "../../core/invoicing/ledger";
+import { postingFromFurnitureInvoice, postingFromTourBooking } from "../../core/invoicing/sources";
+
+function document(overrides: Partial<LedgerDocument>): LedgerDocument {
+  return {
+    id: "doc-1",
+    documentType: "invoice",
+    documentNumber: "INV-000001",
+    sourceModule: "core",
+    partyType: "customer",
+    partyId: "cust-1",
+    partyName: "Asha Rao",
+    currency: "INR",
+    dueDate: "2026-03-01",
+    totalAmount: "1000.00",
+    paidAmount: "0.00",
+    creditedAmount: "0.00",
+    refundedAmount: "0.00",
+    balanceAmount: "1000.00",
+    status: "open",
+    ...overrides,
+  } as LedgerDocument;
+}
+
+describe("Invoice ledger numbering", () => {
+  it("pads numbers and never moves a series back", () => {
+    expect(formatDocumentNumber({ prefix: "CN-", padding: 6 }, 42)).toBe("CN-000042");
+    expect(formatDocumentNumber({ prefix: "INV/26/", padding: 3 }, 1234)).toBe("INV/26/1234");
+    expect(() => validateSeriesUpdate({ nextNumber: 10 }, { nextNumber: 9 })).toThrow("cannot go back below 10");
+    expect(() => validateSeriesUpdate({ nextNumber: 10 }, { prefix: "INV 26" })).toThrow("Prefix");
+    expect(() => validateSeriesUpdate({ nextNumber: 10 }, { prefix: "F26-", padding: 8, nextNumber: 500 })).not.toThrow();
+  });
+});
+
+describe("Invoice ledger balances", () => {
+  it("tracks payments, credits and refunds", () => {
+    expect(ledgerStatus("invoice", { totalAmount: 1000, paidAmount: 0, creditedAmount: 0, refundedAmount: 0 }, false)).toBe("open");
+    expect(ledgerStatus("invoice", { totalAmount: 1000, paidAmount: 400, creditedAmount: 0, refundedAmount: 0 }, false)).toBe("partially_paid");
+    expect(ledgerStatus("invoice", { totalAmount: 1000, paidAmount: 0, creditedAmount: 1000, refundedAmount: 0 }, false)).toBe("credited");
+    expect(ledgerStatus("credit_note", { totalAmount: 200, paidAmount: 0, creditedAmount: 0, refundedAmount: 0 }, false)).toBe("applied");
+    expect(ledgerStatus("invoice", { totalAmount: 1000, paidAmount: 1000, creditedAmount: 0, refundedAmount: 0 }, true)).toBe("void");
+
+    // Paid in full, then credited 250: the customer holds a credit until it is refunded
+    const credited = { totalAmount: 1000, paidAmount: 1000, creditedAmount: 250, refundedAmount: 0 };
+    expect(ledgerBalance(credited)).toBe(-250);
+    expect(ledgerStatus("invoice", credited, false)).toBe("paid");
+    expect(ledgerBalance({ ...credited, refundedAmount: 100 })).toBe(-150);
+    expect(ledgerBalance({ ...credited, refundedAmount: 250 })).toBe(0);
+  });
+
+  it("limits notes, refunds and ledger payments", () => {
+    const invoice = document({ totalAmount: "1000.00", creditedAmount: "800.00", paidAmount: "600.00", refundedAmount: "500.00" });
+    expect(() => assertCanIssueNote(invoice, "credit_note", 200)).not.toThrow();
+    expect(() => assertCanIssueNote(invoice, "credit_note", 200.01)).toThrow("Only 200.00 of INV-000001 can still be credited");
+    expect(() => assertCanIssueNote(invoice, "debit_note", 5000)).not.toThrow();
+    expect(() => assertCanIssueNote(document({ documentType: "credit_note" }), "credit_note", 10)).toThrow("invoice or a debit note");
+    expect(() => assertCanIssueNote(document({ status: "void" }), "debit_note", 10)).toThrow("is void");
+
+    expect(() => assertCanRefund(invoice, 100)).not.toThrow();
+    expect(() => assertCanRefund(invoice, 150)).toThrow("Only 100.00 paid");
+    expect(() => assertCanRefund(invoice, 0)).toThrow("greater than zero");
+
+    expect(() => assertCanRecordPayment(invoice, 10)).toThrow("in the core module");
+    const debitNote = document({ documentType: "debit_note", documentNumber: "DN-000001", sourceModule: "ledger", balanceAmount: "150.00" });
+    expect(() => assertCanRecordPayment(debitNote, 150)).not.toThrow();
+    expect(() => assertCanRecordPayment(debitNote, 151)).toThrow("exceeds");
+  });
+});
+
+describe("Receivables view", () => {
+  it("ages balances per party and currency across modules", () => {
+    expect(agingBucket(null, "2026-04-15")).toBe("current");
+    expect(agingBucket("2026-04-15", "2026-04-15")).toBe("current");
+    expect(agingBucket("2026-03-16", "2026-04-15")).toBe("1_30");
+    expect(agingBucket("2026-01-10", "2026-04-15")).toBe("90_plus");
+
+    const view = buildReceivables([
+      document({ balanceAmount: "1000.00", dueDate: "2026-04-30" }),
+      document({ id: "doc-2", sourceModule: "furniture", balanceAmount: "400.00", dueDate: "2026-03-01" }),
+      document({ id: "doc-3", sourceModule: "tourism", balanceAmount: "-150.00", dueDate: "2026-02-01" }),
+      document({ id: "doc-4", documentType: "debit_note", sourceModule: "ledger", balanceAmount: "50.00", dueDate: "2026-01-01" }),
+      document({ id: "doc-5", partyType: "student", partyId: "stu-1", partyName: "Ravi", sourceModule: "education", balanceAmount: "300.00", dueDate: "2026-04-01" }),
+      document({ id: "doc-6", currency: "AED", balanceAmount: "99.00" }),
+      document({ id: "doc-7", documentType: "credit_note", balanceAmount: "0.00" }),
+      document({ id: "doc-8", status: "void", balanceAmount: "700.00" }),
+      document({ id: "doc-9", status: "paid", balanceAmount: "0.00" }),
+    ], "2026-04-15");
+
+    expect(view.totals.INR).toEqual({ current: 1000, "1_30": 300, "31_60": 400, "61_90": 0, "90_plus": 50, credit: -150, total: 1600 });
+    expect(view.totals.AED.total).toBe(99);
+    expect(view.parties[0]).toMatchObject({
+      partyId: "cust-1",
+      currency: "INR",
+      modules: ["core", "furniture", "tourism", "ledger"],
+      documentCount: 4,
+    });
+    expect(view.parties[0].aging.total).toBe(1300);
+    expect(view.byModule).toContainEqual({ sourceModule: "education", currency: "INR", outstanding: 300, documentCount: 1 });
+  });
+});
+
+describe("Module postings", () => {
+  it("skips non-receivables and voids cancelled records", () => {
+    const furniture = {
+      id: "fi-1",
+      invoiceNumber: "FI-2026-0001",
+      invoiceType: "tax_invoice",
+      status: "issued",
+      customerId: "cust-1",
+      billingName: "Asha Rao",
+      invoiceDate: new Date("2026-02-01T10:00:00Z"),
+      dueDate: new Date("2026-03-03T10:00:00Z"),
+      currency: "INR",
+      subtotal: "1000.00",
+      discountAmount: "100.00",
+      taxAmount: "162.00",
+      totalAmount: "1062.00",
+      paidAmount: "500.00",
+    } as FurnitureInvoice;
+
+    expect(postingFromFurnitureInvoice(furniture, null)).toMatchObject({
+      sourceModule: "furniture",
+      sourceReference: "FI-2026-0001",
+      partyName: "Asha Rao",
+      issueDate: "2026-02-01",
+      dueDate: "2026-03-03",
+      subtotal: 900,
+      totalAmount: 1062,
+      paidAmount: 500,
+      voided: false,
+    });
+    expect(postingFromFurnitureInvoice({ ...furniture, invoiceType: "proforma" }, null)).toBeNull();
+    expect(postingFromFurnitureInvoice({ ...furniture, status: "draft" }, null)).toBeNull();
+    expect(postingFromFurnitureInvoice({ ...furniture, status: "cancelled" }, null)?.voided).toBe(true);
+
+    const booking = {
+      id: "tb-1",
+      bookingNumber: "TB-1001",
+      status: "confirmed",
+      customerId: "cust-1",
+      departureDate: "2026-05-10",
+      paymentDueDate: null,
+      baseAmount: "2000.00",
+      discountAmount: "0",
+      taxAmount: "100.00",
+      totalAmount: "2100.00",
+      paidAmount: "0",
+      currency: "INR",
+      confirmedAt: new Date("2026-02-20T09:00:00Z"),
+      createdAt: new Date("2026-02-18T09:00:00Z"),
+    } as TourBooking;
+
+    expect(postingFromTourBooking(booking, "Asha Rao")).toMatchObject({ issueDate: "2026-02-20", dueDate: "2026-05-10", totalAmount: 2100 });
+    expect(postingFromTourBooking({ ...booking, status: "inquiry" }, null)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  detectConflict,
+  resolveConflict,
+  encodeSyncCursor,
+  decodeSyncCursor,
+  syncStartPosition,
+  changeFeedAction,
+  isSyncEntity,
+} from "../../core/mobile/sync";
+
+const serverUpdatedAt = new Date("2026-10-18T10:00:00.000Z");
+
+describe("Mobile offline sync", () => {
+  it("only syncs the supported entities", () => {
+    expect(isSyncEntity("customers")).toBe(true);
+    expect(isSyncEntity("attendance")).toBe(true);
+    expect(isSyncEntity("users")).toBe(false);
+  });
+
+  it("flags edits made against an older server version", () => {
+    const stale = { action: "update" as const, timestamp: Date.parse("2026-10-18T11:00:00Z"), baseUpdatedAt: "2026-10-18T09:00:00.000Z" };
+    const current = { ...stale, baseUpdatedAt: serverUpdatedAt.toISOString() };
+
+    expect(detectConflict(serverUpdatedAt, stale)).toBe(true);
+    expect(detectConflict(serverUpdatedAt, current)).toBe(false);
+    expect(detectConflict(serverUpdatedAt, { ...stale, action: "delete" })).toBe(true);
+    expect(detectConflict(serverUpdatedAt, { ...stale, action: "create" })).toBe(false);
+  });
+
+  it("falls back to the edit time when no base version is sent", () => {
+    expect(detectConflict(serverUpdatedAt, { action: "update", timestamp: Date.parse("2026-10-18T09:59:00Z") })).toBe(true);
+    expect(detectConflict(serverUpdatedAt, { action: "update", timestamp: Date.parse("2026-10-18T10:01:00Z") })).toBe(false);
+  });
+
+  it("resolves conflicts by strategy", () => {
+    const older = { action: "update" as const, timestamp: Date.parse("2026-10-18T09:00:00Z") };
+    const newer = { action: "update" as const, timestamp: Date.parse("2026-10-18T11:00:00Z") };
+
+    expect(resolveConflict("last_write_wins", newer, serverUpdatedAt)).toBe("client_wins");
+    expect(resolveConflict("last_write_wins", older, serverUpdatedAt)).toBe("server_wins");
+    expect(resolveConflict("client_wins", older, serverUpdatedAt)).toBe("client_wins");
+    expect(resolveConflict("server_wins", newer, serverUpdatedAt)).toBe("server_wins");
+    expect(resolveConflict("manual", newer, serverUpdatedAt)).toBe("manual");
+  });
+
+  it("round-trips change feed cursors", () => {
+    const position = { updatedAt: serverUpdatedAt, id: "cust-42" };
+    expect(decodeSyncCursor(encodeSyncCursor(position))).toEqual(position);
+    expect(decodeSyncCursor("not-a-cursor")).toBeNull();
+  });
+
+  it("picks where the change feed starts", () => {
+    const stored = { updatedAt: serverUpdatedAt, id: "cust-1" };
+    const cursor = encodeSyncCursor({ updatedAt: new Date("2026-10-18T12:00:00Z"), id: "cust-9" });
+
+    expect(syncStartPosition({ lastSyncedAt: null, stored })).toEqual({ updatedAt: new Date(0), id: "" });
+    expect(syncStartPosition({ lastSyncedAt: "2026-10-17T00:00:00Z", cursor, stored }).id).toBe("cust-9");
+    expect(syncStartPosition({ lastSyncedAt: "2026-10-17T00:00:00Z", stored })).toEqual(stored);
+    expect(syncStartPosition({ lastSyncedAt: "2026-10-17T00:00:00Z" })).toEqual({ updatedAt: new Date("2026-10-17T00:00:00Z"), id: "" });
+  });
+
+  it("labels feed rows as creates, updates or deletes", () => {
+    const since = { updatedAt: serverUpdatedAt, id: "" };
+    const before = new Date("2026-10-18T08:00:00Z");
+    const after = new Date("2026-10-18T12:00:00Z");
+
+    expect(changeFeedAction({ createdAt: after, deletedAt: null }, since)).toBe("create");
+    expect(changeFeedAction({ createdAt: before, deletedAt: null }, since)).toBe("update");
+    expect(changeFeedAction({ createdAt: after, deletedAt: after }, since)).toBe("delete");
+  });
+});
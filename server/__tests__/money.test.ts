@@ -0,0 +1,37 @@
+import { describe, it, expect } from "@jest/globals";
+import { round2, round4, money } from "../utils/money";
+
+describe("Money helpers", () => {
+  it("rounds halves away from zero as written", () => {
+    expect(round2(1.005)).toBe(1.01);
+    expect(round2(8.575)).toBe(8.58);
+    expect(round2(1.234)).toBe(1.23);
+    expect(round2(0.1 + 0.2)).toBe(0.3);
+    expect(money(8.575)).toBe("8.58");
+  });
+
+  it("rounds negative halves away from zero", () => {
+    expect(round2(-0.125)).toBe(-0.13);
+    expect(round2(-1.005)).toBe(-1.01);
+    expect(round2(-8.575)).toBe(-8.58);
+    expect(round2(-1.234)).toBe(-1.23);
+    expect(money(-1.005)).toBe("-1.01");
+  });
+
+  it("never returns negative zero", () => {
+    expect(Object.is(round2(-0.001), 0)).toBe(true);
+    expect(Object.is(round2(-0), 0)).toBe(true);
+  });
+
+  it("handles values written in exponent form", () => {
+    expect(round2(1e-7)).toBe(0);
+    expect(round2(1.5e21)).toBe(1.5e21);
+    expect(round4(5e-5)).toBe(0.0001);
+  });
+
+  it("rounds quantities and unit costs to four places", () => {
+    expect(round4(1.00005)).toBe(1.0001);
+    expect(round4(-2.00015)).toBe(-2.0002);
+    expect(round4(0.12344)).toBe(0.1234);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  MrpError,
+  allocate,
+  allocateFinishedStock,
+  backflushStages,
+  explodeBom,
+  needByDate,
+  projectMaterial,
+  usesProduct,
+  type BomLine,
+  type ProductBom,
+} from "../../core/mrp/planning";
+
+function material(rawMaterialId: string, quantity: number, extra: Partial<BomLine> = {}): BomLine {
+  return { rawMaterialId, componentProductId: null, componentName: "", quantity, wastePercent: 0, consumptionStage: null, ...extra };
+}
+
+function subAssembly(componentProductId: string, quantity: number, extra: Partial<BomLine> = {}): BomLine {
+  return { rawMaterialId: null, componentProductId, componentName: componentProductId, quantity, wastePercent: 0, consumptionStage: null, ...extra };
+}
+
+const boms: Record<string, ProductBom> = {
+  wardrobe: {
+    productId: "wardrobe",
+    productName: "Wardrobe",
+    yieldQuantity: 1,
+    lines: [
+      material("plywood", 4, { wastePercent: 10, consumptionStage: "cutting" }),
+      subAssembly("drawer", 2, { consumptionStage: "assembly" }),
+      material("polish", 0.5, { consumptionStage: "finishing" }),
+    ],
+  },
+  drawer: {
+    productId: "drawer",
+    productName: "Drawer",
+    yieldQuantity: 2,
+    lines: [
+      material("plywood", 1, { consumptionStage: "cutting" }),
+      material("runner", 2),
+    ],
+  },
+};
+const bomFor = (productId: string) => boms[productId];
+
+function ref(number: string) {
+  return { type: "production_order" as const, id: number, number };
+}
+
+describe("BOM explosion", () => {
+  it("explodes sub-assemblies through their own BOMs with waste and yield", () => {
+    expect(explodeBom(boms.wardrobe, 3, bomFor)).toEqual([
+      { rawMaterialId: "plywood", stageType: "cutting", quantity: 13.2 },
+      // 6 drawers from a BOM that yields two, consumed where the drawers go in
+      { rawMaterialId: "plywood", stageType: "assembly", quantity: 3 },
+      { rawMaterialId: "runner", stageType: "assembly", quantity: 6 },
+      { rawMaterialId: "polish", stageType: "finishing", quantity: 1.5 },
+    ]);
+  });
+
+  it("rejects sub-assemblies without a BOM and BOMs that loop", () => {
+    const missing: ProductBom = { ...boms.wardrobe, lines: [subAssembly("hinge", 4)] };
+    expect(() => explodeBom(missing, 1, bomFor)).toThrow('Sub-assembly "hinge" has no active bill of materials');
+
+    const looping: Record<string, ProductBom> = {
+      ...boms,
+      drawer: { ...boms.drawer, lines: [subAssembly("wardrobe", 1)] },
+    };
+    expect(() => explodeBom(looping.wardrobe, 1, (id) => looping[id])).toThrow(MrpError);
+    expect(usesProduct("drawer", "wardrobe", (id) => looping[id])).toBe(true);
+    expect(usesProduct("drawer", "wardrobe", bomFor)).toBe(false);
+  });
+});
+
+describe("reservations", () => {
+  it("hands out free stock in order and leaves shortfalls", () => {
+    const free = new Map([["plywood", 10]]);
+    expect(allocate([
+      { rawMaterialId: "plywood", quantity: 6 },
+      { rawMaterialId: "plywood", quantity: 6 },
+      { rawMaterialId: "runner", quantity: 2 },
+    ], free).map((line) => line.reserved)).toEqual([6, 4, 0]);
+    expect(free.get("plywood")).toBe(0);
+  });
+
+  it("back-flushes unstaged materials with the first stage completed", () => {
+    expect(backflushStages("cutting", true)).toEqual(["cutting", null]);
+    expect(backflushStages("assembly", false)).toEqual(["assembly"]);
+  });
+});
+
+describe("sales demand", () => {
+  it("serves the earliest needs from finished stock and makes the rest", () => {
+    const result = allocateFinishedStock([
+      { productId: "wardrobe", quantity: 3, needBy: "2026-12-01", fromStockAllowed: true },
+      { productId: "wardrobe", quantity: 2, needBy: "2026-11-01", fromStockAllowed: true },
+      { productId: "wardrobe", quantity: 1, needBy: "2026-10-25", fromStockAllowed: false },
+    ], new Map([["wardrobe", 4]]));
+    expect(result.map((line) => [line.fromStock, line.toMake])).toEqual([[2, 1], [2, 0], [0, 1]]);
+  });
+
+  it("needs materials a lead time before delivery", () => {
+    expect(needByDate("2026-11-20", 14, "2026-10-19")).toBe("2026-11-06");
+    expect(needByDate(null, 14, "2026-10-19")).toBe("2026-10-19");
+  });
+});
+
+describe("material projection", () => {
+  it("dates the first need the balance cannot cover", () => {
+    const projection = projectMaterial(10, [
+      { date: "2026-11-01", quantity: 8, reference: ref("PRD-1") },
+      { date: "2026-11-10", quantity: 8, reference: ref("PRD-2") },
+    ], [
+      { date: "2026-11-15", quantity: 20, reference: { type: "purchase_order", id: "po", number: "PO-000001" } },
+    ], "2026-10-19");
+
+    expect(projection.shortageDate).toBe("2026-11-10");
+    expect(projection.shortageQuantity).toBe(6);
+    // The order covers the need overall, just too late
+    expect(projection.netRequirement).toBe(0);
+    expect(projection.timeline.map((entry) => entry.balance)).toEqual([2, -6, 14]);
+  });
+
+  it("counts undated supply last and undated demand as needed now", () => {
+    const projection = projectMaterial(0, [
+      { date: null, quantity: 5, reference: ref("PRD-1") },
+    ], [
+      { date: null, quantity: 3, reference: { type: "purchase_order", id: "po", number: "PO-000001" } },
+    ], "2026-10-19");
+
+    expect(projection.shortageDate).toBe("2026-10-19");
+    expect(projection.netRequirement).toBe(2);
+    expect(projection.onOrder).toBe(3);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  periodBounds,
+  prorateRent,
+  rentDueDate,
+  isLateFeeDue,
+  calculateLateFee,
+  canTransitionTicket,
+  applyDepositEntry,
+  settleDeposit,
+} from "../../core/pg-hostel/rent-calculator";
+
+describe("PG rent rules", () => {
+  it("resolves period bounds including leap years", () => {
+    expect(periodBounds("2026-10")).toEqual({ start: "2026-10-01", end: "2026-10-31", days: 31 });
+    expect(periodBounds("2028-02")).toEqual({ start: "2028-02-01", end: "2028-02-29", days: 29 });
+    expect(periodBounds("2026-12").end).toBe("2026-12-31");
+  });
+
+  describe("proration", () => {
+    it("bills a full month at the monthly rent", () => {
+      expect(prorateRent(9000, "2026-10", "2026-01-15")).toEqual({
+        periodStart: "2026-10-01",
+        periodEnd: "2026-10-31",
+        daysBilled: 31,
+        daysInPeriod: 31,
+        amount: 9000,
+      });
+    });
+
+    it("prorates a mid-month move-in", () => {
+      const result = prorateRent(9300, "2026-10", "2026-10-21");
+      expect(result?.daysBilled).toBe(11);
+      expect(result?.amount).toBe(3300);
+    });
+
+    it("bills the move-out date as the last night", () => {
+      const result = prorateRent(9000, "2026-11", "2026-01-01", "2026-11-10");
+      expect(result).toMatchObject({ periodEnd: "2026-11-10", daysBilled: 10, amount: 3000 });
+    });
+
+    it("returns null when the stay does not touch the period", () => {
+      expect(prorateRent(9000, "2026-10", "2026-11-01")).toBeNull();
+      expect(prorateRent(9000, "2026-10", "2026-01-01", "2026-09-30")).toBeNull();
+    });
+  });
+
+  it("never makes rent due before move-in", () => {
+    expect(rentDueDate("2026-10", 5, "2026-09-01")).toBe("2026-10-05");
+    expect(rentDueDate("2026-10", 5, "2026-10-20")).toBe("2026-10-20");
+  });
+
+  describe("late fees", () => {
+    it("is due only after the grace period", () => {
+      expect(isLateFeeDue("2026-10-05", 3, "2026-10-08")).toBe(false);
+      expect(isLateFeeDue("2026-10-05", 3, "2026-10-09")).toBe(true);
+    });
+
+    it("applies flat and capped percentage fees", () => {
+      expect(calculateLateFee({ feeType: "flat", amount: 250, maxAmount: null }, 9000)).toBe(250);
+      expect(calculateLateFee({ feeType: "percent", amount: 2, maxAmount: null }, 9000)).toBe(180);
+      expect(calculateLateFee({ feeType: "percent", amount: 5, maxAmount: 300 }, 9000)).toBe(300);
+      expect(calculateLateFee({ feeType: "flat", amount: 250, maxAmount: null }, 0)).toBe(0);
+    });
+  });
+
+  it("enforces the maintenance workflow", () => {
+    expect(canTransitionTicket("open", "assigned")).toBe(true);
+    expect(canTransitionTicket("in_progress", "resolved")).toBe(true);
+    expect(canTransitionTicket("resolved", "in_progress")).toBe(true);
+    expect(canTransitionTicket("open", "closed")).toBe(false);
+    expect(canTransitionTicket("closed", "in_progress")).toBe(false);
+  });
+
+  describe("deposits", () => {
+    it("tracks the running balance", () => {
+      let balance = applyDepositEntry(0, "collected", 10000);
+      balance = applyDepositEntry(balance, "deduction", 1500);
+      balance = applyDepositEntry(balance, "adjustment", 300);
+      expect(balance).toBe(8800);
+      expect(() => applyDepositEntry(balance, "refund", 9000)).toThrow();
+    });
+
+    it("settles deductions and reports any shortfall", () => {
+      expect(settleDeposit(10000, [1500, 500])).toEqual({ deducted: 2000, refund: 8000, shortfall: 0 });
+      expect(settleDeposit(1000, [800, 700])).toEqual({ deducted: 1000, refund: 0, shortfall: 500 });
+    });
+  });
+});
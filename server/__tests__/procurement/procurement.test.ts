@@ -0,0 +1,139 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  ProcurementError,
+  documentNumber,
+  orderTotals,
+  receiptStatus,
+  reorderSuggestions,
+  requiredApprovalRole,
+  validateReceipt,
+  validateThresholds,
+  type ReorderCandidate,
+} from "../../core/procurement/purchasing";
+import { threeWayMatch } from "../../core/procurement/three-way-match";
+
+const thresholds = [
+  { minAmount: 50000, role: "manager" as const },
+  { minAmount: 250000, role: "admin" as const },
+];
+
+function material(overrides: Partial<ReorderCandidate>): ReorderCandidate {
+  return {
+    id: "rm-1",
+    sku: "PLY-18",
+    name: "18mm plywood",
+    unitOfMeasure: "sheet",
+    currentStock: 10,
+    reorderPoint: 20,
+    maxStockLevel: 100,
+    onOrder: 0,
+    preferredSupplierId: "sup-1",
+    unitCost: 1500,
+    ...overrides,
+  };
+}
+
+describe("purchase orders", () => {
+  it("numbers documents per type", () => {
+    expect(documentNumber("purchase_order", 42)).toBe("PO-000042");
+    expect(documentNumber("goods_receipt", 1)).toBe("GRN-000001");
+  });
+
+  it("totals lines with tax worked out per line", () => {
+    expect(orderTotals([
+      { quantity: 3, unitPrice: 333.33, taxRate: 18 },
+      { quantity: 2.5, unitPrice: 100, taxRate: 0 },
+    ])).toEqual({ subtotal: 1249.99, taxAmount: 180, totalAmount: 1429.99 });
+  });
+
+  it("needs approval from the role of the highest threshold reached", () => {
+    expect(requiredApprovalRole(49999.99, thresholds)).toBeNull();
+    expect(requiredApprovalRole(50000, thresholds)).toBe("manager");
+    expect(requiredApprovalRole(300000, thresholds)).toBe("admin");
+    expect(requiredApprovalRole(1000000, [])).toBeNull();
+  });
+
+  it("rejects thresholds where a larger order needs a more junior approver", () => {
+    expect(() => validateThresholds(thresholds)).not.toThrow();
+    expect(() => validateThresholds([
+      { minAmount: 1000, role: "admin" },
+      { minAmount: 5000, role: "manager" },
+    ])).toThrow(ProcurementError);
+    expect(() => validateThresholds([
+      { minAmount: 1000, role: "manager" },
+      { minAmount: 1000, role: "admin" },
+    ])).toThrow("More than one approval threshold");
+  });
+});
+
+describe("goods receipts", () => {
+  const lines = [
+    { id: "l1", description: "Plywood", itemType: "raw_material" as const, quantity: 10, receivedQuantity: 4 },
+    { id: "l2", description: "Hinges", itemType: "inventory_item" as const, quantity: 50, receivedQuantity: 0 },
+  ];
+
+  it("accepts partial receipts up to the ordered quantity", () => {
+    expect(() => validateReceipt(lines, [{ purchaseOrderLineId: "l1", quantity: 6 }], 0)).not.toThrow();
+    expect(() => validateReceipt(lines, [{ purchaseOrderLineId: "l1", quantity: 6.5 }], 0)).toThrow("exceed the ordered quantity");
+    expect(() => validateReceipt(lines, [{ purchaseOrderLineId: "l1", quantity: 7 }], 10)).not.toThrow();
+  });
+
+  it("insists on whole units for inventory items and known lines", () => {
+    expect(() => validateReceipt(lines, [{ purchaseOrderLineId: "l2", quantity: 1.5 }], 0)).toThrow("whole units");
+    expect(() => validateReceipt(lines, [{ purchaseOrderLineId: "l9", quantity: 1 }], 0)).toThrow("not on the purchase order");
+    expect(() => validateReceipt(lines, [
+      { purchaseOrderLineId: "l2", quantity: 1 },
+      { purchaseOrderLineId: "l2", quantity: 1 },
+    ], 0)).toThrow("more than once");
+  });
+
+  it("marks the order received once every line is in", () => {
+    expect(receiptStatus([{ quantity: 10, receivedQuantity: 10 }, { quantity: 5, receivedQuantity: 2 }])).toBe("partially_received");
+    expect(receiptStatus([{ quantity: 10, receivedQuantity: 10.5 }, { quantity: 5, receivedQuantity: 5 }])).toBe("received");
+  });
+});
+
+describe("three-way match", () => {
+  const orderLines = [
+    { id: "l1", description: "Plywood", unitPrice: 1500, receivedQuantity: 10, billedQuantity: 4 },
+  ];
+  const tolerances = { pricePercent: 2, quantityPercent: 0 };
+
+  it("matches a bill for received, unbilled goods at the order price", () => {
+    expect(threeWayMatch(orderLines, [{ purchaseOrderLineId: "l1", quantity: 6, unitPrice: 1520 }], tolerances))
+      .toEqual({ status: "matched", exceptions: [] });
+  });
+
+  it("holds bills that overbill or drift from the order price", () => {
+    const result = threeWayMatch(orderLines, [{ purchaseOrderLineId: "l1", quantity: 7, unitPrice: 1600 }], tolerances);
+    expect(result.status).toBe("on_hold");
+    expect(result.exceptions).toEqual([
+      { purchaseOrderLineId: "l1", type: "quantity_exceeds_received", expected: 6, actual: 7 },
+      { purchaseOrderLineId: "l1", type: "price_variance", expected: 1500, actual: 1600 },
+    ]);
+  });
+
+  it("applies the quantity tolerance to the received quantity", () => {
+    expect(threeWayMatch(orderLines, [{ purchaseOrderLineId: "l1", quantity: 7, unitPrice: 1500 }], { pricePercent: 0, quantityPercent: 10 }).status)
+      .toBe("matched");
+  });
+});
+
+describe("reorder suggestions", () => {
+  it("tops stock up to the maximum net of open orders, grouped by supplier", () => {
+    const groups = reorderSuggestions([
+      material({}),
+      material({ id: "rm-2", sku: "EDGE", maxStockLevel: null, reorderPoint: 50, currentStock: 20, unitCost: 2 }),
+      material({ id: "rm-3", sku: "GLUE", preferredSupplierId: null, currentStock: 5, onOrder: 10, unitCost: 300 }),
+    ]);
+    expect(groups).toHaveLength(2);
+    expect(groups[0].supplierId).toBe("sup-1");
+    expect(groups[0].lines.map((line) => [line.sku, line.suggestedQuantity])).toEqual([["PLY-18", 90], ["EDGE", 80]]);
+    expect(groups[0].estimatedTotal).toBe(135160);
+    expect(groups[1]).toMatchObject({ supplierId: null, lines: [{ sku: "GLUE", suggestedQuantity: 85, estimatedCost: 25500 }] });
+  });
+
+  it("leaves out materials already covered by open orders", () => {
+    expect(reorderSuggestions([material({ onOrder: 15 })])).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  ConfiguratorError,
+  bomAdjustmentSchema,
+  configure,
+  lineAmounts,
+  resolveSelections,
+  ruleMatches,
+  validateRule,
+  type OptionDefinition,
+  type ProductDefinition,
+  type RuleDefinition,
+} from "../../core/product-configurator/configurator";
+
+const fabric: OptionDefinition = {
+  code: "fabric",
+  name: "Fabric",
+  inputType: "choice",
+  isRequired: true,
+  unit: null,
+  minValue: null,
+  maxValue: null,
+  baseValue: null,
+  values: [
+    { code: "cotton", label: "Cotton", isDefault: true },
+    { code: "leather", label: "Leather", isDefault: false },
+  ],
+};
+
+const width: OptionDefinition = {
+  code: "width",
+  name: "Width",
+  inputType: "number",
+  isRequired: true,
+  unit: "cm",
+  minValue: 160,
+  maxValue: 260,
+  baseValue: 200,
+  values: [],
+};
+
+const recliner: OptionDefinition = {
+  code: "recliner",
+  name: "Recliner",
+  inputType: "toggle",
+  isRequired: false,
+  unit: null,
+  minValue: null,
+  maxValue: null,
+  baseValue: null,
+  values: [],
+};
+
+function rule(id: string, extra: Partial<RuleDefinition>): RuleDefinition {
+  return { id, name: id, conditions: [], priceType: "fixed", priceAmount: 0, unitOption: null, bomAdjustments: [], priority: 0, ...extra };
+}
+
+const sofa: ProductDefinition = {
+  name: "Sofa",
+  basePrice: 40000,
+  options: [fabric, width, recliner],
+  rules: [
+    rule("leather", {
+      conditions: [{ option: "fabric", values: ["leather"] }],
+      priceType: "percent",
+      priceAmount: 25,
+      bomAdjustments: [{ action: "replace", rawMaterialId: "cotton-fabric", withRawMaterialId: "leather-hide", factor: 0.9 }],
+    }),
+    rule("wider", {
+      priceType: "per_unit",
+      priceAmount: 150,
+      unitOption: "width",
+      bomAdjustments: [{ action: "add", rawMaterialId: "cotton-fabric", quantity: 0.05, perUnit: true }],
+    }),
+    rule("recliner", {
+      conditions: [{ option: "recliner" }],
+      priceAmount: 8000,
+      bomAdjustments: [{ action: "add", rawMaterialId: "recliner-kit", quantity: 1, consumptionStage: "assembly" }],
+      priority: 1,
+    }),
+  ],
+  bom: {
+    productId: "sofa",
+    productName: "Sofa",
+    yieldQuantity: 2,
+    lines: [
+      { rawMaterialId: "cotton-fabric", componentProductId: null, componentName: "", quantity: 12, wastePercent: 5, consumptionStage: "cutting" },
+      { rawMaterialId: "frame-wood", componentProductId: null, componentName: "", quantity: 8, wastePercent: 0, consumptionStage: "cutting" },
+    ],
+  },
+};
+
+describe("selections", () => {
+  it("fills in defaults, base values and switched-off toggles", () => {
+    expect(resolveSelections(sofa.options, {})).toEqual({ fabric: "cotton", width: 200, recliner: false });
+  });
+
+  it("rejects unknown options, unknown values and measurements out of range", () => {
+    expect(() => resolveSelections(sofa.options, { legs: "oak" })).toThrow('Unknown option "legs"');
+    expect(() => resolveSelections(sofa.options, { fabric: "velvet" })).toThrow(ConfiguratorError);
+    expect(() => resolveSelections(sofa.options, { width: 300 })).toThrow('"Width" must be between 160 and 260 cm');
+  });
+
+  it("matches conditions by value, range and toggle", () => {
+    const selections = { fabric: "leather", width: 240, recliner: true };
+    expect(ruleMatches([{ option: "fabric", values: ["leather"] }, { option: "width", min: 220 }], selections)).toBe(true);
+    expect(ruleMatches([{ option: "width", max: 220 }], selections)).toBe(false);
+    expect(ruleMatches([{ option: "recliner" }], { ...selections, recliner: false })).toBe(false);
+  });
+});
+
+describe("configuring", () => {
+  it("prices and builds the base product when nothing is changed", () => {
+    const configuration = configure(sofa, {});
+    expect(configuration.unitPrice).toBe(40000);
+    expect(configuration.priceBreakdown).toEqual([]);
+    // The BOM yields two sofas, so each takes half
+    expect(configuration.bom).toEqual([
+      { rawMaterialId: "cotton-fabric", componentProductId: null, quantity: 6, wastePercent: 5, consumptionStage: "cutting" },
+      { rawMaterialId: "frame-wood", componentProductId: null, quantity: 4, wastePercent: 0, consumptionStage: "cutting" },
+    ]);
+    expect(configuration.description).toBe("Sofa (Fabric: Cotton, Width: 200 cm)");
+  });
+
+  it("applies matching rules to the price and the BOM in priority order", () => {
+    const configuration = configure(sofa, { fabric: "leather", width: 240, recliner: true });
+
+    expect(configuration.priceBreakdown).toEqual([
+      { ruleId: "leather", rule: "leather", amount: 10000 },
+      { ruleId: "wider", rule: "wider", amount: 6000 },
+      { ruleId: "recliner", rule: "recliner", amount: 8000 },
+    ]);
+    expect(configuration.unitPrice).toBe(64000);
+    expect(configuration.bom).toEqual([
+      { rawMaterialId: "leather-hide", componentProductId: null, quantity: 5.4, wastePercent: 5, consumptionStage: "cutting" },
+      { rawMaterialId: "frame-wood", componentProductId: null, quantity: 4, wastePercent: 0, consumptionStage: "cutting" },
+      // Added after the swap, so the extra width is in cotton
+      { rawMaterialId: "cotton-fabric", componentProductId: null, quantity: 2, wastePercent: 0, consumptionStage: null },
+      { rawMaterialId: "recliner-kit", componentProductId: null, quantity: 1, wastePercent: 0, consumptionStage: "assembly" },
+    ]);
+  });
+
+  it("has no BOM when neither the product nor its rules define one", () => {
+    expect(configure({ ...sofa, bom: undefined, rules: [] }, {}).bom).toBeNull();
+  });
+});
+
+describe("rules", () => {
+  it("checks conditions and per-unit pricing against the options", () => {
+    expect(() => validateRule(sofa.options, { conditions: [{ option: "fabric", values: ["velvet"] }], priceType: "fixed", unitOption: null, bomAdjustments: [] }))
+      .toThrow('"Fabric" has no value "velvet"');
+    expect(() => validateRule(sofa.options, { conditions: [], priceType: "per_unit", unitOption: "fabric", bomAdjustments: [] }))
+      .toThrow(ConfiguratorError);
+    expect(() => validateRule(sofa.options, sofa.rules[1])).not.toThrow();
+  });
+
+  it("requires BOM adjustments to say what they change", () => {
+    expect(bomAdjustmentSchema.safeParse({ action: "add", rawMaterialId: "glue" }).success).toBe(false);
+    expect(bomAdjustmentSchema.safeParse({ action: "replace", rawMaterialId: "glue" }).success).toBe(false);
+    expect(bomAdjustmentSchema.safeParse({ action: "scale", factor: 1.1 }).success).toBe(true);
+  });
+});
+
+describe("line amounts", () => {
+  it("takes the discount off the gross and taxes the rest", () => {
+    expect(lineAmounts(64000, 2, 10, 18)).toEqual({ gross: 128000, discountAmount: 12800, taxAmount: 20736, totalPrice: 135936 });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  SchedulingError,
+  dailyLoad,
+  maxOverlap,
+  parseCalendar,
+  placeForward,
+  scheduleBackward,
+  scheduleForward,
+  stageDuration,
+  toMinute,
+  workingMinutesBetween,
+  type Resource,
+} from "../../core/production-scheduling/schedule";
+
+// 2026-10-19 is a Monday
+const weekdays = parseCalendar({
+  monday: [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }],
+  tuesday: [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }],
+  wednesday: [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }],
+  thursday: [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }],
+  friday: [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }],
+}, ["2026-10-21"]);
+
+function resource(id: string, capacity = 1, extra: Partial<Resource> = {}): Resource {
+  return { id, name: id, capacity, calendar: weekdays, bookings: [], ...extra };
+}
+
+const at = (date: string, time: string) => toMinute(date, time);
+
+describe("calendars", () => {
+  it("falls back to no shifts when the stored calendar is unreadable", () => {
+    expect(parseCalendar({ someday: "all of it" }, null)).toEqual({ shifts: {}, blockedDates: [] });
+  });
+
+  it("counts only working minutes, skipping breaks and blocked dates", () => {
+    expect(workingMinutesBetween(weekdays, at("2026-10-19", "10:00"), at("2026-10-19", "14:00"))).toBe(180);
+    // Wednesday is blocked
+    expect(workingMinutesBetween(weekdays, at("2026-10-20", "00:00"), at("2026-10-22", "00:00"))).toBe(480);
+  });
+
+  it("sizes a stage from the work center rate unless it has planned minutes", () => {
+    expect(stageDuration({ setupMinutes: 30, minutesPerUnit: 45 }, 4, null)).toBe(210);
+    expect(stageDuration({ setupMinutes: 30, minutesPerUnit: 45 }, 4, 90)).toBe(90);
+  });
+});
+
+describe("forward placement", () => {
+  it("runs through breaks and overnight, skipping blocked days", () => {
+    const span = placeForward(resource("saw"), at("2026-10-20", "15:00"), 300);
+    expect(span).toEqual({ start: at("2026-10-20", "15:00"), end: at("2026-10-22", "11:00") });
+  });
+
+  it("queues behind bookings when capacity is used up", () => {
+    const busy = resource("saw", 1, { bookings: [{ start: at("2026-10-19", "08:00"), end: at("2026-10-19", "10:00") }] });
+    expect(placeForward(busy, at("2026-10-19", "08:00"), 60).start).toBe(at("2026-10-19", "10:00"));
+
+    const twoBenches = { ...busy, capacity: 2 };
+    expect(placeForward(twoBenches, at("2026-10-19", "08:00"), 60).start).toBe(at("2026-10-19", "08:00"));
+    expect(maxOverlap(busy.bookings, { start: at("2026-10-19", "09:00"), end: at("2026-10-19", "11:00") })).toBe(1);
+  });
+
+  it("rejects work centers with no shifts", () => {
+    const idle = resource("idle", 1, { calendar: parseCalendar({}, []) });
+    expect(() => placeForward(idle, at("2026-10-19", "08:00"), 60)).toThrow(SchedulingError);
+  });
+
+  it("chains stages so each starts after the one before", () => {
+    const saw = resource("saw");
+    const placements = scheduleForward([
+      { id: "cutting", duration: 240, resource: saw },
+      { id: "assembly", duration: 120, resource: resource("bench") },
+      { id: "recut", duration: 60, resource: saw },
+    ], at("2026-10-19", "08:00"));
+
+    expect(placements.map((placement) => [placement.id, placement.start, placement.end])).toEqual([
+      ["cutting", at("2026-10-19", "08:00"), at("2026-10-19", "12:00")],
+      ["assembly", at("2026-10-19", "13:00"), at("2026-10-19", "15:00")],
+      ["recut", at("2026-10-19", "15:00"), at("2026-10-19", "16:00")],
+    ]);
+    expect(saw.bookings).toHaveLength(2);
+  });
+});
+
+describe("backward placement", () => {
+  it("finishes the last stage as late as the due date allows", () => {
+    const placements = scheduleBackward([
+      { id: "cutting", duration: 240, resource: resource("saw") },
+      { id: "finishing", duration: 240, resource: resource("spray") },
+    ], at("2026-10-23", "00:00"), at("2026-10-19", "08:00"));
+
+    expect(placements).toEqual([
+      { id: "cutting", start: at("2026-10-22", "08:00"), end: at("2026-10-22", "12:00") },
+      { id: "finishing", start: at("2026-10-22", "13:00"), end: at("2026-10-22", "17:00") },
+    ]);
+  });
+
+  it("gives up without booking anything when the chain would start too early", () => {
+    const saw = resource("saw");
+    const placements = scheduleBackward([
+      { id: "cutting", duration: 480, resource: saw },
+      { id: "assembly", duration: 480, resource: resource("bench") },
+    ], at("2026-10-20", "17:00"), at("2026-10-19", "12:00"));
+
+    expect(placements).toBeNull();
+    expect(saw.bookings).toEqual([]);
+  });
+});
+
+describe("daily load", () => {
+  it("sets planned minutes against each day's capacity", () => {
+    const load = dailyLoad(weekdays, 2, [
+      { start: at("2026-10-19", "08:00"), end: at("2026-10-20", "10:00") },
+    ], "2026-10-19", "2026-10-21");
+    expect(load).toEqual([
+      { date: "2026-10-19", availableMinutes: 960, plannedMinutes: 480 },
+      { date: "2026-10-20", availableMinutes: 960, plannedMinutes: 120 },
+      { date: "2026-10-21", availableMinutes: 0, plannedMinutes: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { z } from "zod";
+import { API_SCOPES, hasApiScope, invalidApiScopes } from "../../core/public-api/scopes";
+import { TokenRateLimiter } from "../../core/public-api/rate-limiter";
+import { buildOpenApiDocument, zodToJsonSchema } from "../../core/public-api/openapi";
+import { mountPublicApiRoutes, type PublicApiRoute } from "../../core/public-api/definition";
+import { publicApiV1Routes } from "../../core/public-api/resources";
+import { PERMISSIONS } from "../../core/permissions";
+import express, { Router } from "express";
+import request from "supertest";
+
+// Token signing needs SESSION_SECRET; these tests never sign tokens
+jest.mock("../../core/jwt", () => ({ jwtAuthService: {} }));
+
+describe("Public API", () => {
+  it("defines read and write scopes per resource", () => {
+    expect(API_SCOPES).toContain("invoices:read");
+    expect(API_SCOPES).toContain("customers:write");
+    expect(invalidApiScopes(["employees:read", "payroll:read", "invoices:delete"])).toEqual(["payroll:read", "invoices:delete"]);
+  });
+
+  it("requires the exact scope; write does not imply read", () => {
+    expect(hasApiScope(["invoices:read"], "invoices:read")).toBe(true);
+    expect(hasApiScope(["invoices:write"], "invoices:read")).toBe(false);
+    expect(hasApiScope([], "customers:read")).toBe(false);
+  });
+
+  it("limits each token per minute independently", () => {
+    const limiter = new TokenRateLimiter();
+    const now = Date.parse("2026-10-18T10:00:00Z");
+
+    expect(limiter.consume("a", 2, now)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(limiter.consume("a", 2, now + 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(limiter.consume("a", 2, now + 2000)).toMatchObject({ allowed: false, remaining: 0, resetAt: now + 60000 });
+    expect(limiter.consume("b", 2, now + 2000).allowed).toBe(true);
+    expect(limiter.consume("a", 2, now + 60000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it("converts zod schemas to JSON schema", () => {
+    const schema = z.object({
+      name: z.string(),
+      email: z.string().email().nullable().optional(),
+      quantity: z.number().int().default(1),
+      status: z.enum(["draft", "paid"]),
+      tags: z.array(z.string()),
+      since: z.coerce.date().optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        email: { type: "string", format: "email", nullable: true },
+        quantity: { type: "integer" },
+        status: { type: "string", enum: ["draft", "paid"] },
+        tags: { type: "array", items: { type: "string" } },
+        since: { type: "string", format: "date-time" },
+      },
+      required: ["name", "status", "tags"],
+    });
+  });
+
+  it("documents routes with their scopes, parameters and bodies", () => {
+    const routes: PublicApiRoute[] = [
+      {
+        method: "get",
+        path: "/invoices/:id",
+        operationId: "getInvoice",
+        summary: "Get an invoice",
+        tag: "Invoices",
+        scope: "invoices:read",
+        handler: async () => null,
+      },
+      {
+        method: "post",
+        path: "/invoices",
+        operationId: "createInvoice",
+        summary: "Create an invoice",
+        tag: "Invoices",
+        scope: "invoices:write",
+        query: z.object({ dryRun: z.coerce.boolean().optional() }),
+        body: z.object({ customerId: z.string() }),
+        successStatus: 201,
+        handler: async () => ({}),
+      },
+    ];
+
+    const doc = buildOpenApiDocument(routes, { title: "API", version: "1.0.0", serverUrl: "https://example.com/api/v1" });
+    const getInvoice = doc.paths["/invoices/{id}"].get as any;
+    const createInvoice = doc.paths["/invoices"].post as any;
+
+    expect(getInvoice["x-required-scope"]).toBe("invoices:read");
+    expect(getInvoice.parameters).toEqual([{ name: "id", in: "path", required: true, schema: { type: "string" } }]);
+    expect(getInvoice.responses["404"]).toBeDefined();
+    expect(createInvoice.parameters).toEqual([{ name: "dryRun", in: "query", required: false, schema: { type: "boolean" } }]);
+    expect(createInvoice.requestBody.content["application/json"].schema.required).toEqual(["customerId"]);
+    expect(createInvoice.responses["201"]).toBeDefined();
+  });
+
+  it("requires a tenant permission on every route", () => {
+    const unguarded = publicApiV1Routes.filter((route) => !route.permission).map((route) => `${route.method} ${route.path}`);
+    expect(unguarded).toEqual([]);
+  });
+
+  it("denies invoice and inventory routes to a token owner without the permission", async () => {
+    const router = Router();
+    mountPublicApiRoutes(router, publicApiV1Routes);
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      res.locals.apiToken = { scopes: [...API_SCOPES] };
+      (req as any).context = { user: { id: "user-1" }, tenant: { id: "tenant-1" }, permissions: [PERMISSIONS.CUSTOMERS_READ] };
+      next();
+    });
+    app.use(router);
+
+    const denied = [
+      request(app).get("/invoices"),
+      request(app).get("/invoices/inv-1"),
+      request(app).post("/invoices").send({ customerId: "c-1", items: [{ description: "Service", unitPrice: 10 }] }),
+      request(app).get("/inventory/items"),
+      request(app).get("/inventory/items/item-1"),
+      request(app).post("/inventory/items").send({ name: "Soap" }),
+      request(app).patch("/inventory/items/item-1").send({ name: "Soap" }),
+    ];
+    for (const response of await Promise.all(denied)) {
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe("Insufficient permissions");
+    }
+  });
+});
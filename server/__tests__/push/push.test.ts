@@ -0,0 +1,55 @@
+import { describe, it, expect } from "@jest/globals";
+import { isPushEnabled, quietHoursRemaining } from "../../core/push/preferences";
+import { MockPushAdapter } from "../../core/push/adapters/mock-adapter";
+import { tokenDeviceId } from "../../core/push/device-registry";
+
+const prefs = (overrides: Partial<{ pushEnabled: boolean | null; quietHoursEnabled: boolean | null; quietHoursStart: string | null; quietHoursEnd: string | null }> = {}) => ({
+  pushEnabled: true,
+  quietHoursEnabled: false,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  ...overrides,
+});
+
+describe("Push notifications", () => {
+  it("sends pushes unless the user turned them off", () => {
+    expect(isPushEnabled(undefined)).toBe(true);
+    expect(isPushEnabled(prefs({ pushEnabled: null }))).toBe(true);
+    expect(isPushEnabled(prefs({ pushEnabled: false }))).toBe(false);
+  });
+
+  it("holds pushes back during quiet hours in the tenant timezone", () => {
+    const quiet = prefs({ quietHoursEnabled: true, quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+    // 23:30 in Kolkata (UTC+5:30)
+    expect(quietHoursRemaining(quiet, new Date("2026-10-18T18:00:00Z"), "Asia/Kolkata")).toBe(7 * 60 + 30);
+    // 06:30 in Kolkata
+    expect(quietHoursRemaining(quiet, new Date("2026-10-18T01:00:00Z"), "Asia/Kolkata")).toBe(30);
+    // 12:00 in Kolkata
+    expect(quietHoursRemaining(quiet, new Date("2026-10-18T06:30:00Z"), "Asia/Kolkata")).toBe(0);
+    // Same instant is 19:00 in London
+    expect(quietHoursRemaining(quiet, new Date("2026-10-18T18:00:00Z"), "Europe/London")).toBe(0);
+  });
+
+  it("ignores quiet hours that are disabled or incomplete", () => {
+    const at = new Date("2026-10-18T18:00:00Z");
+    expect(quietHoursRemaining(prefs({ quietHoursStart: "22:00", quietHoursEnd: "07:00" }), at, "Asia/Kolkata")).toBe(0);
+    expect(quietHoursRemaining(prefs({ quietHoursEnabled: true, quietHoursStart: "22:00" }), at, "Asia/Kolkata")).toBe(0);
+  });
+
+  it("keys token-only devices by a hash of the token", () => {
+    expect(tokenDeviceId("abc")).toBe(tokenDeviceId("abc"));
+    expect(tokenDeviceId("abc")).not.toBe(tokenDeviceId("abd"));
+    expect(tokenDeviceId("abc")).not.toContain("abc");
+  });
+
+  it("delivers through the mock provider and rejects invalid tokens", async () => {
+    const provider = new MockPushAdapter();
+    const message = { title: "Invoice INV-1", body: "Your invoice is ready" };
+
+    await expect(provider.send("token-1", message)).resolves.toMatchObject({ success: true, providerMessageId: "mock-1" });
+    await expect(provider.send("invalid-token", message)).resolves.toMatchObject({ success: false, invalidToken: true });
+    expect(provider.sent).toHaveLength(1);
+    expect(provider.sent[0]).toMatchObject({ token: "token-1", message });
+  });
+});
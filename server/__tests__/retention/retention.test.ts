@@ -0,0 +1,50 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  canReleaseLegalHold,
+  isRetentionAction,
+  isRetentionPolicyDue,
+  nextRetentionRunAt,
+  retentionArchiveName,
+  retentionCutoff,
+  unsupportedActionReason,
+} from "../../core/compliance/retention-rules";
+
+const now = new Date("2026-03-10T12:00:00.000Z");
+const allCapabilities = { softDelete: true, hardDelete: true, anonymize: true };
+
+describe("Data retention rules", () => {
+  it("computes the cutoff and next run from the current time", () => {
+    expect(retentionCutoff(now, 30).toISOString()).toBe("2026-02-08T12:00:00.000Z");
+    expect(nextRetentionRunAt(now).toISOString()).toBe("2026-03-11T12:00:00.000Z");
+  });
+
+  it("only schedules enabled auto-delete policies that are due", () => {
+    const policy = { isEnabled: true, autoDelete: true, nextScheduledAt: null };
+    expect(isRetentionPolicyDue(policy, now)).toBe(true);
+    expect(isRetentionPolicyDue({ ...policy, nextScheduledAt: new Date("2026-03-10T11:00:00.000Z") }, now)).toBe(true);
+    expect(isRetentionPolicyDue({ ...policy, nextScheduledAt: new Date("2026-03-10T13:00:00.000Z") }, now)).toBe(false);
+    expect(isRetentionPolicyDue({ ...policy, autoDelete: false }, now)).toBe(false);
+    expect(isRetentionPolicyDue({ ...policy, isEnabled: false }, now)).toBe(false);
+  });
+
+  it("rejects actions a resource cannot perform", () => {
+    expect(isRetentionAction("anonymize")).toBe(true);
+    expect(isRetentionAction("shred")).toBe(false);
+    expect(unsupportedActionReason("hard_delete", allCapabilities)).toBeNull();
+    expect(unsupportedActionReason("shred", allCapabilities)).toMatch(/Unknown/);
+    expect(unsupportedActionReason("hard_delete", { ...allCapabilities, hardDelete: false })).toMatch(/hard deleted/);
+    expect(unsupportedActionReason("soft_delete", { ...allCapabilities, softDelete: false })).toMatch(/soft deletion/);
+    expect(unsupportedActionReason("anonymize", { ...allCapabilities, anonymize: false })).toMatch(/anonymization/);
+  });
+
+  it("lets only compliance and platform roles release a legal hold", () => {
+    expect(canReleaseLegalHold("compliance_officer")).toBe(true);
+    expect(canReleaseLegalHold("Platform_Admin")).toBe(true);
+    expect(canReleaseLegalHold("admin")).toBe(false);
+    expect(canReleaseLegalHold(undefined)).toBe(false);
+  });
+
+  it("names archives after the resource and run time", () => {
+    expect(retentionArchiveName("customers", now)).toBe("customers-2026-03-10T12-00-00-000Z.zip");
+  });
+});
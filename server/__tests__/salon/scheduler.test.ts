@@ -0,0 +1,111 @@
+import { describe, it, expect } from "@jest/globals";
+import { planSequence, findFirstAvailable, type DayContext, type ServiceSpec } from "../../core/salon/scheduler";
+import { timeToMinutes } from "../../utils/time-of-day";
+
+const haircut: ServiceSpec = {
+  id: "svc-cut",
+  name: "Haircut",
+  duration: 45,
+  bufferMinutes: 0,
+  cleanupMinutes: 15,
+  requiredResourceType: "chair",
+  price: "40.00",
+};
+
+const colour: ServiceSpec = {
+  id: "svc-colour",
+  name: "Colour",
+  duration: 60,
+  bufferMinutes: 10,
+  cleanupMinutes: 10,
+  requiredResourceType: "wash_station",
+  price: "80.00",
+};
+
+function context(overrides: Partial<DayContext> = {}): DayContext {
+  return {
+    stylists: [
+      { staffId: "anna", windows: [{ start: "09:00", end: "17:00" }], serviceIds: [] },
+      { staffId: "ben", windows: [{ start: "12:00", end: "20:00" }], serviceIds: ["svc-colour"] },
+    ],
+    resources: [
+      { id: "chair-1", type: "chair" },
+      { id: "wash-1", type: "wash_station" },
+    ],
+    staffBusy: [],
+    resourceBusy: [],
+    ...overrides,
+  };
+}
+
+describe("Salon scheduler", () => {
+  describe("planSequence", () => {
+    it("plans services back-to-back with resources", () => {
+      const plan = planSequence(timeToMinutes("10:00"), [{ service: haircut }, { service: colour }], context());
+
+      expect(plan.ok).toBe(true);
+      if (!plan.ok) return;
+      expect(plan.startTime).toBe("10:00");
+      expect(plan.endTime).toBe("11:45");
+      expect(plan.items[0]).toMatchObject({ staffId: "anna", resourceId: "chair-1", blockedUntil: "11:00" });
+      expect(plan.items[1]).toMatchObject({ staffId: "anna", resourceId: "wash-1", startTime: "10:45", blockedFrom: "10:35" });
+    });
+
+    it("lets a different stylist take a later service", () => {
+      const plan = planSequence(
+        timeToMinutes("12:00"),
+        [{ service: haircut, staffId: "anna" }, { service: colour, staffId: "ben" }],
+        context()
+      );
+
+      expect(plan.ok).toBe(true);
+      if (!plan.ok) return;
+      expect(plan.items.map(i => i.staffId)).toEqual(["anna", "ben"]);
+    });
+
+    it("blocks stylists for buffer and cleanup around existing bookings", () => {
+      // Anna finishes a colour at 10:00 but is cleaning up until 10:10
+      const ctx = context({ staffBusy: [{ ownerId: "anna", from: timeToMinutes("08:50"), until: timeToMinutes("10:10") }] });
+      const plan = planSequence(timeToMinutes("10:00"), [{ service: haircut, staffId: "anna" }], ctx);
+
+      expect(plan.ok).toBe(false);
+      if (plan.ok) return;
+      expect(plan.conflicts).toEqual(["Haircut: requested stylist is not available"]);
+    });
+
+    it("reports a missing resource", () => {
+      const ctx = context({ resourceBusy: [{ ownerId: "chair-1", from: timeToMinutes("09:30"), until: timeToMinutes("11:00") }] });
+      const plan = planSequence(timeToMinutes("10:00"), [{ service: haircut }], ctx);
+
+      expect(plan.ok).toBe(false);
+      if (plan.ok) return;
+      expect(plan.conflicts).toEqual(["Haircut: no chair available"]);
+    });
+
+    it("respects the services a stylist can perform and their shift", () => {
+      const plan = planSequence(timeToMinutes("18:00"), [{ service: haircut }], context());
+
+      expect(plan.ok).toBe(false);
+      if (plan.ok) return;
+      expect(plan.conflicts).toEqual(["Haircut: no stylist available"]);
+    });
+  });
+
+  describe("findFirstAvailable", () => {
+    it("returns the first start time where the whole sequence fits", () => {
+      const ctx = context({ staffBusy: [{ ownerId: "anna", from: timeToMinutes("09:00"), until: timeToMinutes("10:20") }] });
+      const plan = findFirstAvailable([{ service: haircut, staffId: "anna" }], ctx);
+
+      expect(plan?.ok).toBe(true);
+      expect(plan && plan.ok && plan.startTime).toBe("10:30");
+    });
+
+    it("honours notBefore and returns null when nothing fits", () => {
+      const later = findFirstAvailable([{ service: haircut }], context(), { notBefore: timeToMinutes("13:07") });
+      expect(later && later.ok && later.startTime).toBe("13:15");
+
+      const none = findFirstAvailable([{ service: haircut }], context({ resources: [] }));
+      expect(none).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  StockError,
+  daysToExpiry,
+  movingAverageCost,
+  pickLots,
+  pickOrder,
+  receiptLots,
+  summarizeCount,
+  valuate,
+} from "../../core/stock/lots";
+
+function lot(id: string, quantity: number, expiryDate: string | null, receivedAt: string) {
+  return { id, quantity, expiryDate, receivedAt: new Date(receivedAt) };
+}
+
+describe("receipt lots", () => {
+  const batchItem = { name: "Amoxicillin 500mg", trackingMode: "batch" as const, tracksExpiry: true };
+  const serialItem = { name: "Hair dryer", trackingMode: "serial" as const, tracksExpiry: false };
+
+  it("requires what the item is tracked by", () => {
+    expect(() => receiptLots(batchItem, { quantity: 10, expiryDate: "2027-01-31" })).toThrow("needs a batch number");
+    expect(() => receiptLots(batchItem, { quantity: 10, batchNumber: "B1" })).toThrow("needs an expiry date");
+    expect(receiptLots(batchItem, { quantity: 10, batchNumber: "B1", expiryDate: "2027-01-31" })).toEqual([
+      { batchNumber: "B1", serialNumber: null, expiryDate: "2027-01-31", quantity: 10 },
+    ]);
+  });
+
+  it("holds serial-tracked stock one unit per lot", () => {
+    expect(receiptLots(serialItem, { quantity: 2, serialNumbers: ["SN1", "SN2"] }).map((identity) => [identity.serialNumber, identity.quantity]))
+      .toEqual([["SN1", 1], ["SN2", 1]]);
+    expect(() => receiptLots(serialItem, { quantity: 3, serialNumbers: ["SN1", "SN2"] })).toThrow("one serial number per unit");
+    expect(() => receiptLots(serialItem, { quantity: 2, serialNumbers: ["SN1", "SN1"] })).toThrow("unique");
+  });
+
+  it("rejects fractional quantities", () => {
+    expect(() => receiptLots({ name: "Shampoo", trackingMode: "none", tracksExpiry: false }, { quantity: 1.5 })).toThrow(StockError);
+  });
+});
+
+describe("FEFO picking", () => {
+  const lots = [
+    lot("no-expiry-old", 5, null, "2026-01-01"),
+    lot("late", 5, "2027-06-30", "2026-02-01"),
+    lot("soon", 3, "2026-11-30", "2026-03-01"),
+    lot("expired", 4, "2026-09-30", "2026-01-15"),
+  ];
+
+  it("orders by expiry, then by receipt date, with undated lots last", () => {
+    expect(pickOrder(lots).map((candidate) => candidate.id)).toEqual(["expired", "soon", "late", "no-expiry-old"]);
+  });
+
+  it("skips expired lots and splits across lots", () => {
+    expect(pickLots(lots, 6, "2026-10-19")).toEqual([
+      { lotId: "soon", quantity: 3 },
+      { lotId: "late", quantity: 3 },
+    ]);
+  });
+
+  it("picks expired lots only when writing them off", () => {
+    expect(pickLots(lots, 2, "2026-10-19", { includeExpired: true })).toEqual([{ lotId: "expired", quantity: 2 }]);
+  });
+
+  it("refuses to pick more than is available", () => {
+    expect(() => pickLots(lots, 14, "2026-10-19")).toThrow("Only 13 of 14 available");
+  });
+});
+
+describe("valuation", () => {
+  const lots = [
+    { itemId: "i1", warehouseId: "w1", quantity: 10, unitCost: 100 },
+    { itemId: "i1", warehouseId: "w1", quantity: 5, unitCost: 130 },
+    { itemId: "i1", warehouseId: "w2", quantity: 5, unitCost: 130 },
+  ];
+
+  it("values FIFO stock at each lot's receipt cost", () => {
+    const result = valuate(lots, "fifo", new Map());
+    expect(result.rows).toEqual([
+      { itemId: "i1", warehouseId: "w1", quantity: 15, unitCost: 110, value: 1650 },
+      { itemId: "i1", warehouseId: "w2", quantity: 5, unitCost: 130, value: 650 },
+    ]);
+    expect(result.totalValue).toBe(2300);
+  });
+
+  it("values weighted-average stock at the item's running average", () => {
+    expect(valuate(lots, "weighted_average", new Map([["i1", 115]])).totalValue).toBe(2300);
+    expect(movingAverageCost(10, 100, 10, 130)).toBe(115);
+    expect(movingAverageCost(0, 100, 4, 80)).toBe(80);
+  });
+});
+
+describe("cycle count variance", () => {
+  it("summarizes counted lines and leaves uncounted ones out", () => {
+    expect(summarizeCount([
+      { expectedQuantity: 10, countedQuantity: 10, unitCost: 5 },
+      { expectedQuantity: 10, countedQuantity: 7, unitCost: 20 },
+      { expectedQuantity: 0, countedQuantity: 2, unitCost: 15 },
+      { expectedQuantity: 4, countedQuantity: null, unitCost: 50 },
+    ])).toEqual({
+      lines: 4,
+      counted: 3,
+      withVariance: 2,
+      accuracyPercent: 33.33,
+      netUnits: -1,
+      gainValue: 30,
+      lossValue: 60,
+      netValue: -30,
+    });
+  });
+
+  it("counts days to expiry, negative once expired", () => {
+    expect(daysToExpiry("2026-10-29", "2026-10-19")).toBe(10);
+    expect(daysToExpiry("2026-10-18", "2026-10-19")).toBe(-1);
+  });
+});
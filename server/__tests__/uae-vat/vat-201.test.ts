@@ -0,0 +1,135 @@
+import { describe, it, expect } from "@jest/globals";
+import type { UaeVatConfiguration, UaeVatInvoice, UaeVatPurchase } from "@shared/schema";
+import { buildVat201, emirateCode, isDesignatedZoneSupply } from "../../core/uae-compliance/vat-201";
+import { buildFtaAuditFile, fafDate } from "../../core/uae-compliance/fta-audit-file";
+
+const config = {
+  trn: "100123456700003",
+  businessNameEn: "Oasis Interiors LLC",
+  businessNameAr: null,
+  emirate: "Dubai",
+  isDesignatedZone: false,
+} as UaeVatConfiguration;
+const freeZones = ["JAFZA", "DAFZA", "KIZAD"];
+
+function invoice(overrides: Partial<UaeVatInvoice>): UaeVatInvoice {
+  return {
+    id: "inv-1",
+    invoiceNumber: "INV-2026-000001",
+    invoiceDate: new Date("2026-02-10T08:00:00Z"),
+    supplyDate: null,
+    invoiceType: "standard",
+    customerTrn: null,
+    customerNameEn: "Customer",
+    customerEmirate: null,
+    customerFreeZone: null,
+    supplyNature: "goods",
+    isExport: false,
+    isReverseCharge: false,
+    isZeroRated: false,
+    isExempt: false,
+    lineItems: [{ description: "Sofa", taxableAmount: 1000, vatAmount: 50 }],
+    taxableAmount: "1000",
+    vatAmount: "50",
+    totalAmount: "1050",
+    currency: "AED",
+    exchangeRate: null,
+    referenceNumber: null,
+    status: "issued",
+    ...overrides,
+  } as UaeVatInvoice;
+}
+
+function purchase(overrides: Partial<UaeVatPurchase>): UaeVatPurchase {
+  return {
+    id: "pur-1",
+    supplierName: "Supplier",
+    supplierTrn: null,
+    invoiceNumber: "S-1",
+    invoiceDate: new Date("2026-02-15T08:00:00Z"),
+    description: "Timber",
+    customsDeclarationNumber: null,
+    taxableAmount: "400",
+    vatAmount: "20",
+    totalAmount: "420",
+    currency: "AED",
+    exchangeRate: null,
+    isReverseCharge: false,
+    isImport: false,
+    isRecoverable: true,
+    status: "recorded",
+    ...overrides,
+  } as UaeVatPurchase;
+}
+
+const invoices = [
+  invoice({}),
+  invoice({ id: "inv-2", customerEmirate: "AZ", lineItems: [{ taxableAmount: 2000, vatAmount: 100 }, { taxableAmount: 300, vatAmount: 0, isZeroRated: true }] }),
+  invoice({ id: "inv-3", isExport: true, currency: "USD", exchangeRate: "3.6725", lineItems: [{ taxableAmount: 100, vatAmount: 0 }] }),
+  invoice({ id: "inv-4", invoiceType: "credit_note", customerEmirate: "Sharjah", lineItems: [{ taxableAmount: 200, vatAmount: 10 }] }),
+  invoice({ id: "inv-5", isExempt: true, lineItems: [{ taxableAmount: 500, vatAmount: 0 }] }),
+  invoice({ id: "inv-6", status: "draft" }),
+  invoice({ id: "inv-7", invoiceDate: new Date("2026-01-25T08:00:00Z"), supplyDate: new Date("2026-04-02T08:00:00Z") }),
+];
+const purchases = [
+  purchase({}),
+  purchase({ id: "pur-2", isReverseCharge: true, taxableAmount: "1000", vatAmount: "50" }),
+  purchase({ id: "pur-3", isImport: true, taxableAmount: "2000", vatAmount: "100", customsDeclarationNumber: "101-2026-1" }),
+  purchase({ id: "pur-4", isRecoverable: false, taxableAmount: "100", vatAmount: "5" }),
+];
+const period = { periodStart: "2026-01-01", periodEnd: "2026-03-31" };
+
+describe("UAE VAT 201", () => {
+  it("maps emirate names and codes", () => {
+    expect(emirateCode("Ras Al Khaimah")).toBe("RK");
+    expect(emirateCode("du")).toBe("DU");
+    expect(emirateCode("Muscat")).toBeNull();
+  });
+
+  it("reports supplies per emirate and nets expenses", () => {
+    const vat201 = buildVat201({ config, freeZones, ...period, invoices, purchases });
+    const byBox = Object.fromEntries(vat201.standardRatedSupplies.map((line) => [line.box, line]));
+
+    expect(byBox["1a"]).toMatchObject({ amount: 2000, vat: 100, adjustment: 0 });
+    expect(byBox["1b"]).toMatchObject({ amount: 1000, vat: 50 });
+    expect(byBox["1c"]).toMatchObject({ amount: -200, vat: 0, adjustment: -10 });
+    expect(vat201.zeroRatedSupplies).toBe(667.25);
+    expect(vat201.exemptSupplies).toBe(500);
+    expect(vat201.reverseChargeSupplies).toEqual({ amount: 1000, vat: 50 });
+    expect(vat201.importedGoods).toEqual({ amount: 2000, vat: 100 });
+    expect(vat201.standardRatedExpenses).toEqual({ amount: 500, vat: 20, adjustment: 0 });
+    expect(vat201.reverseChargeExpenses).toEqual({ amount: 3000, vat: 150, adjustment: 0 });
+    expect(vat201.totalDueTax).toBe(290);
+    expect(vat201.totalRecoverableTax).toBe(170);
+    expect(vat201.payableTax).toBe(120);
+  });
+
+  it("keeps designated zone goods out of scope", () => {
+    const zoneConfig = { ...config, isDesignatedZone: true };
+    const toZone = invoice({ customerFreeZone: "jafza" });
+    expect(isDesignatedZoneSupply(toZone, zoneConfig, freeZones)).toBe(true);
+    expect(isDesignatedZoneSupply({ ...toZone, supplyNature: "services" }, zoneConfig, freeZones)).toBe(false);
+    expect(isDesignatedZoneSupply(toZone, config, freeZones)).toBe(false);
+
+    const vat201 = buildVat201({ config: zoneConfig, freeZones, ...period, invoices: [toZone], purchases: [] });
+    expect(vat201.outOfScopeSupplies).toBe(1000);
+    expect(vat201.totalSupplies).toEqual({ amount: 0, vat: 0, adjustment: 0 });
+  });
+});
+
+describe("FTA audit file", () => {
+  it("lists purchases and supply lines with totals", () => {
+    const csv = buildFtaAuditFile({ config, freeZones, ...period, invoices, purchases, createdAt: new Date("2026-04-10T00:00:00Z") });
+    const lines = csv.split("\r\n");
+
+    expect(lines[0]).toBe("CompanyInformation");
+    expect(lines[2]).toBe("Oasis Interiors LLC,,100123456700003,,,,,01/01/2026,31/03/2026,10/04/2026,1.0,FAFv1.0.0");
+    expect(lines).toContain("Supplier,,15/02/2026,S-1,101-2026-1,pur-3,1,Timber,2000.00,100.00,IM,,,");
+    expect(lines).toContain("Customer,,10/02/2026,INV-2026-000001,,inv-3,1,,367.25,0.00,ZR,,USD,100.00,0.00");
+    expect(lines).toContain("3500.00,175.00,4");
+
+    const supplyTotals = lines[lines.indexOf("SupplyTotalAED,VATTotalAED,TransactionCountTotal") + 1];
+    expect(supplyTotals).toBe("3967.25,140.00,5");
+    expect(fafDate("2026-12-01")).toBe("01/12/2026");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  buildMtdVatReturnPayload,
+  computeNineBoxReturn,
+  obligationForPeriodKey,
+  validateMtdVatReturnPayload,
+  vatObligations,
+  vrnFromVatNumber,
+  type VatPurchaseEntry,
+  type VatSale,
+} from "../../core/uk-compliance/vat-return";
+import { MockHmrcVatClient } from "../../core/uk-compliance/hmrc/mock-client";
+
+const period = { start: "2026-01-01", end: "2026-03-31" };
+
+function sale(overrides: Partial<VatSale>): VatSale {
+  return {
+    invoiceDate: "2026-02-10",
+    paidAt: null,
+    status: "issued",
+    netAmount: "1000.00",
+    vatAmount: "200.00",
+    totalAmount: "1200.00",
+    isEcSupply: false,
+    ...overrides,
+  };
+}
+
+function purchase(overrides: Partial<VatPurchaseEntry>): VatPurchaseEntry {
+  return {
+    invoiceDate: "2026-02-15",
+    paidAt: null,
+    status: "recorded",
+    netAmount: "400.00",
+    vatAmount: "80.00",
+    totalAmount: "480.00",
+    isReverseCharge: false,
+    isEcAcquisition: false,
+    isCapitalAsset: false,
+    ...overrides,
+  };
+}
+
+const sales = [
+  sale({}),
+  sale({ invoiceDate: "2026-03-20", paidAt: new Date("2026-04-05T10:00:00Z"), netAmount: "500.50", vatAmount: "100.10", totalAmount: "600.60" }),
+  sale({ invoiceDate: "2026-03-01", status: "draft" }),
+  sale({ invoiceDate: "2026-01-05", netAmount: "300.00", vatAmount: "0.00", totalAmount: "300.00", isEcSupply: true }),
+];
+const purchases = [
+  purchase({}),
+  purchase({ netAmount: "2500.00", vatAmount: "500.00", totalAmount: "3000.00", isCapitalAsset: true }),
+  purchase({ netAmount: "100.00", vatAmount: "20.00", totalAmount: "100.00", isReverseCharge: true }),
+  purchase({ netAmount: "250.00", vatAmount: "50.00", totalAmount: "250.00", isEcAcquisition: true }),
+  purchase({ status: "void" }),
+];
+
+describe("VAT obligations", () => {
+  it("follows the registration's stagger", () => {
+    const obligations = vatObligations({ accountingPeriodStart: "2025-02-01", frequency: "quarterly" }, "2026-01-01", "2026-06-30");
+    expect(obligations.map((o) => [o.start, o.end, o.due])).toEqual([
+      ["2025-11-01", "2026-01-31", "2026-03-07"],
+      ["2026-02-01", "2026-04-30", "2026-06-07"],
+      ["2026-05-01", "2026-07-31", "2026-09-07"],
+    ]);
+    expect(obligations[1].periodKey).toBe("26DQ");
+  });
+
+  it("resolves a period key back to its obligation", () => {
+    const schedule = { accountingPeriodStart: null, frequency: "quarterly" };
+    expect(obligationForPeriodKey(schedule, "26CQ")).toMatchObject({ start: "2026-01-01", end: "2026-03-31" });
+    expect(obligationForPeriodKey({ frequency: "monthly" }, "26BM")).toMatchObject({ start: "2026-02-01", end: "2026-02-28" });
+    expect(obligationForPeriodKey(schedule, "26BQ")).toBeNull();
+    expect(vrnFromVatNumber("GB 123 4567 89")).toBe("123456789");
+  });
+});
+
+describe("nine-box VAT return", () => {
+  it("computes a standard accrual return", () => {
+    const boxes = computeNineBoxReturn({ scheme: "standard", basis: "accrual", period, sales, purchases });
+    expect(boxes).toEqual({
+      vatDueSales: 320.1,
+      vatDueAcquisitions: 50,
+      totalVatDue: 370.1,
+      vatReclaimedCurrPeriod: 650,
+      netVatDue: 279.9,
+      totalValueSalesExVAT: 1800,
+      totalValuePurchasesExVAT: 3250,
+      totalValueGoodsSuppliedExVAT: 300,
+      totalAcquisitionsExVAT: 250,
+    });
+  });
+
+  it("only counts paid entries on the cash basis", () => {
+    const paid = new Date("2026-03-10T12:00:00Z");
+    const boxes = computeNineBoxReturn({
+      scheme: "cash_accounting",
+      basis: "cash",
+      period,
+      sales: [...sales, sale({ invoiceDate: "2025-12-15", paidAt: paid })],
+      purchases: [purchase({ paidAt: paid }), purchase({})],
+    });
+    expect(boxes.vatDueSales).toBe(200);
+    expect(boxes.vatReclaimedCurrPeriod).toBe(80);
+    expect(boxes.totalValueSalesExVAT).toBe(1000);
+  });
+
+  it("applies the flat rate to VAT-inclusive turnover", () => {
+    const boxes = computeNineBoxReturn({ scheme: "flat_rate", basis: "accrual", flatRatePercentage: 12.5, period, sales, purchases });
+    // 12.5% of 1200 + 600.60 + 300, plus reverse-charged VAT
+    expect(boxes.vatDueSales).toBe(282.58);
+    expect(boxes.vatReclaimedCurrPeriod).toBe(500);
+    expect(boxes.totalValueSalesExVAT).toBe(2100);
+    expect(boxes.totalValuePurchasesExVAT).toBe(2500);
+  });
+});
+
+describe("MTD submission", () => {
+  const credentials = { vrn: "123456789", accessToken: "" };
+
+  it("validates the payload and rejects a second return for the period", async () => {
+    const payload = buildMtdVatReturnPayload("26CQ", computeNineBoxReturn({ scheme: "standard", basis: "accrual", period, sales, purchases }));
+    expect(validateMtdVatReturnPayload(payload)).toEqual([]);
+    expect(validateMtdVatReturnPayload({ ...payload, totalVatDue: 1, totalValueSalesExVAT: 10.5 })).toEqual([
+      "totalVatDue must equal vatDueSales plus vatDueAcquisitions",
+      "netVatDue must be the difference between totalVatDue and vatReclaimedCurrPeriod",
+      "totalValueSalesExVAT must be in whole pounds",
+    ]);
+
+    const client = new MockHmrcVatClient();
+    const receipt = await client.submitReturn(payload, credentials);
+    expect(receipt.formBundleNumber).toMatch(/^\d{12}$/);
+    expect(receipt.chargeRefNumber).toBeUndefined();
+    await expect(client.submitReturn(payload, credentials)).rejects.toMatchObject({ code: "DUPLICATE_SUBMISSION" });
+  });
+});
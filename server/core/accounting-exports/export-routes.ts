@@ -0,0 +1,111 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { AccountingExportError, EXPORT_TARGETS } from "./vouchers";
+import { XERO_DOCUMENTS, accountingExportService } from "./export-service";
+
+export const accountingExportRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const targetSchema = z.enum(EXPORT_TARGETS);
+
+const exportQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+  document: z.enum(XERO_DOCUMENTS).optional(),
+});
+
+const mappingsSchema = z.object({
+  mappings: z.record(z.string().min(1).max(100), z.string().trim().min(1).max(255).nullable()),
+});
+
+function sendExportError(res: Response, error: any) {
+  if (error instanceof AccountingExportError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+accountingExportRouter.get("/mappings/:target", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const target = targetSchema.safeParse(req.params.target);
+    if (!target.success) {
+      return res.status(404).json({ message: "Unknown export target" });
+    }
+    res.json(await accountingExportService.getMappingView(isolation.getTenantId(), target.data));
+  } catch (error: any) {
+    sendExportError(res, error);
+  }
+});
+
+accountingExportRouter.put("/mappings/:target", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const target = targetSchema.safeParse(req.params.target);
+    if (!target.success) {
+      return res.status(404).json({ message: "Unknown export target" });
+    }
+    const parsed = mappingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const mappings = await accountingExportService.updateMappings(isolation.getTenantId(), target.data, parsed.data.mappings);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "accounting_export_mapping",
+      resourceId: target.data,
+      metadata: { changes: parsed.data.mappings },
+    });
+
+    res.json({ target: target.data, mappings });
+  } catch (error: any) {
+    sendExportError(res, error);
+  }
+});
+
+accountingExportRouter.get("/:target", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const target = targetSchema.safeParse(req.params.target);
+    if (!target.success) {
+      return res.status(404).json({ message: "Unknown export target" });
+    }
+    const parsed = exportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { from, to, document } = parsed.data;
+
+    const file = await accountingExportService.exportFile(isolation.getTenantId(), target.data, { from, to }, document);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "access",
+      resource: "accounting_export",
+      resourceId: target.data,
+      metadata: { from, to, document, voucherCount: file.voucherCount },
+    });
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.send(file.content);
+  } catch (error: any) {
+    sendExportError(res, error);
+  }
+});
@@ -0,0 +1,362 @@
+import { db } from "../../db";
+import {
+  accountingExportMappings,
+  ledgerDocuments,
+  ledgerEntries,
+  furnitureInvoices,
+  furnitureInvoicePayments,
+  taxCalculationLogs,
+  payments,
+  invoices,
+  customers,
+  tenants,
+  type LedgerDocument,
+} from "@shared/schema";
+import { and, asc, eq, gte, inArray, isNotNull, lte, ne, sql, type SQL } from "drizzle-orm";
+import type { TaxBreakdown } from "../../services/tax-calculator";
+import {
+  DEFAULT_LEDGER_NAMES,
+  AccountingExportError,
+  isValidMappingKey,
+  splitTax,
+  type ExportTarget,
+  type ExportVoucher,
+} from "./vouchers";
+import { renderQuickBooksIif, renderTallyXml, renderXeroInvoicesCsv, renderXeroStatementCsv } from "./formats";
+import { amount } from "../../utils/money";
+import { isoDate } from "../../utils/time-of-day";
+
+// Core payment statuses where money has been received
+const RECEIVED_PAYMENT_STATUSES: Array<"paid" | "partial" | "refunded"> = ["paid", "partial", "refunded"];
+
+const MAX_RANGE_DAYS = 366;
+
+export const XERO_DOCUMENTS = ["invoices", "payments"] as const;
+export type XeroDocument = typeof XERO_DOCUMENTS[number];
+
+export interface ExportRange {
+  from: string;
+  to: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+  voucherCount: number;
+}
+
+function startOf(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function endOf(day: string): Date {
+  return new Date(`${day}T23:59:59.999Z`);
+}
+
+function shortId(id: string): string {
+  return id.replace(/-/g, "").slice(0, 8).toUpperCase();
+}
+
+function validateRange(range: ExportRange): void {
+  if (range.from > range.to) throw new AccountingExportError(400, "The export range ends before it starts");
+  const days = (Date.parse(range.to) - Date.parse(range.from)) / 86400000;
+  if (days > MAX_RANGE_DAYS) throw new AccountingExportError(400, "The export range cannot exceed one year");
+}
+
+// Furniture invoices keep TaxCalculatorService's breakdown on the invoice itself
+async function furnitureBreakdowns(tenantId: string, ids: string[]): Promise<Map<string, TaxBreakdown[]>> {
+  if (!ids.length) return new Map();
+  const rows = await db.select({ id: furnitureInvoices.id, taxMetadata: furnitureInvoices.taxMetadata })
+    .from(furnitureInvoices)
+    .where(and(eq(furnitureInvoices.tenantId, tenantId), inArray(furnitureInvoices.id, ids)));
+  return new Map(rows.map((row) => {
+    const breakdown = (row.taxMetadata as { breakdown?: TaxBreakdown[] } | null)?.breakdown;
+    return [row.id, Array.isArray(breakdown) ? breakdown : []];
+  }));
+}
+
+// Core invoices have theirs in the calculation log, one row per tax component
+async function loggedBreakdowns(tenantId: string, ids: string[]): Promise<Map<string, TaxBreakdown[]>> {
+  const result = new Map<string, TaxBreakdown[]>();
+  if (!ids.length) return result;
+  const rows = await db.select().from(taxCalculationLogs)
+    .where(and(eq(taxCalculationLogs.tenantId, tenantId), inArray(taxCalculationLogs.invoiceId, ids)))
+    .orderBy(asc(taxCalculationLogs.calculatedAt));
+  for (const row of rows) {
+    const details = (row.calculationDetails ?? {}) as { taxType?: string };
+    const list = result.get(row.invoiceId!) ?? [];
+    list.push({
+      taxType: details.taxType ?? row.taxName,
+      taxName: row.taxName,
+      rate: amount(row.taxRate),
+      baseAmount: amount(row.baseAmount),
+      taxAmount: amount(row.taxAmount),
+    });
+    result.set(row.invoiceId!, list);
+  }
+  return result;
+}
+
+/**
+ * Tax breakdowns for ledger documents, keyed by document id. Notes take the
+ * breakdown of the document they were issued against.
+ */
+async function documentBreakdowns(tenantId: string, documents: LedgerDocument[]): Promise<Map<string, TaxBreakdown[]>> {
+  const originalIds = Array.from(new Set(documents.map((document) => document.originalDocumentId).filter((id): id is string => !!id)));
+  const originals = originalIds.length
+    ? await db.select().from(ledgerDocuments).where(and(eq(ledgerDocuments.tenantId, tenantId), inArray(ledgerDocuments.id, originalIds)))
+    : [];
+  const all = [...documents, ...originals];
+  const sourceIds = (module: LedgerDocument["sourceModule"]) => all
+    .filter((document) => document.sourceModule === module && document.sourceId)
+    .map((document) => document.sourceId!);
+
+  const [furniture, core] = await Promise.all([
+    furnitureBreakdowns(tenantId, sourceIds("furniture")),
+    loggedBreakdowns(tenantId, sourceIds("core")),
+  ]);
+  const ownBreakdown = (document: LedgerDocument): TaxBreakdown[] => {
+    if (!document.sourceId) return [];
+    if (document.sourceModule === "furniture") return furniture.get(document.sourceId) ?? [];
+    if (document.sourceModule === "core") return core.get(document.sourceId) ?? [];
+    return [];
+  };
+
+  const byId = new Map(all.map((document) => [document.id, document]));
+  return new Map(documents.map((document) => {
+    const original = document.originalDocumentId ? byId.get(document.originalDocumentId) : undefined;
+    return [document.id, ownBreakdown(original ?? document)];
+  }));
+}
+
+async function documentVouchers(tenantId: string, range: ExportRange): Promise<ExportVoucher[]> {
+  const documents = await db.select().from(ledgerDocuments)
+    .where(and(
+      eq(ledgerDocuments.tenantId, tenantId),
+      ne(ledgerDocuments.status, "void"),
+      gte(ledgerDocuments.issueDate, range.from),
+      lte(ledgerDocuments.issueDate, range.to),
+    ))
+    .orderBy(asc(ledgerDocuments.issueDate), asc(ledgerDocuments.documentNumber));
+  const breakdowns = await documentBreakdowns(tenantId, documents);
+
+  return documents.map((document) => {
+    const total = amount(document.totalAmount);
+    const taxes = splitTax(amount(document.taxAmount), breakdowns.get(document.id) ?? []);
+    return {
+      kind: document.documentType,
+      number: document.documentNumber,
+      date: document.issueDate,
+      dueDate: document.dueDate,
+      reference: document.sourceReference,
+      partyName: document.partyName,
+      currency: document.currency,
+      netAmount: amount(document.subtotal),
+      taxes,
+      totalAmount: total,
+      narration: document.reason,
+    };
+  });
+}
+
+// Payments and refunds recorded directly against ledger documents
+async function ledgerEntryVouchers(tenantId: string, range: ExportRange): Promise<ExportVoucher[]> {
+  const rows = await db.select({ entry: ledgerEntries, document: ledgerDocuments })
+    .from(ledgerEntries)
+    .innerJoin(ledgerDocuments, eq(ledgerDocuments.id, ledgerEntries.documentId))
+    .where(and(
+      eq(ledgerEntries.tenantId, tenantId),
+      inArray(ledgerEntries.entryType, ["payment", "refund"]),
+      gte(ledgerEntries.entryDate, range.from),
+      lte(ledgerEntries.entryDate, range.to),
+    ));
+  return rows.map(({ entry, document }) => ({
+    kind: entry.entryType === "refund" ? "refund" : "payment",
+    number: `${entry.entryType === "refund" ? "RFD" : "RCT"}-${shortId(entry.id)}`,
+    date: entry.entryDate,
+    dueDate: null,
+    reference: entry.reference ?? document.documentNumber,
+    partyName: document.partyName,
+    currency: document.currency,
+    netAmount: amount(entry.amount),
+    taxes: [],
+    totalAmount: amount(entry.amount),
+    narration: entry.reason ?? `${entry.entryType === "refund" ? "Refund on" : "Payment for"} ${document.documentNumber}`,
+  }));
+}
+
+// Payments taken through the core invoicing module, and their refunds
+async function corePaymentVouchers(tenantId: string, range: ExportRange): Promise<ExportVoucher[]> {
+  const paidAt = sql`coalesce(${payments.paidAt}, ${payments.createdAt})`;
+  const [received, refunded] = await Promise.all([
+    db.select({ payment: payments, invoiceNumber: invoices.invoiceNumber, customerName: customers.name })
+      .from(payments)
+      .leftJoin(invoices, eq(invoices.id, payments.invoiceId))
+      .leftJoin(customers, eq(customers.id, payments.customerId))
+      .where(and(
+        eq(payments.tenantId, tenantId),
+        inArray(payments.status, RECEIVED_PAYMENT_STATUSES),
+        sql`${paidAt} >= ${startOf(range.from)}`,
+        sql`${paidAt} <= ${endOf(range.to)}`,
+      )),
+    db.select({ payment: payments, invoiceNumber: invoices.invoiceNumber, customerName: customers.name })
+      .from(payments)
+      .leftJoin(invoices, eq(invoices.id, payments.invoiceId))
+      .leftJoin(customers, eq(customers.id, payments.customerId))
+      .where(and(
+        eq(payments.tenantId, tenantId),
+        isNotNull(payments.refundAmount),
+        gte(payments.refundedAt, startOf(range.from)),
+        lte(payments.refundedAt, endOf(range.to)),
+      )),
+  ]);
+
+  const vouchers: ExportVoucher[] = received.map(({ payment, invoiceNumber, customerName }) => ({
+    kind: "payment",
+    number: `RCT-${shortId(payment.id)}`,
+    date: isoDate(payment.paidAt ?? payment.createdAt ?? new Date()),
+    dueDate: null,
+    reference: invoiceNumber ?? payment.transactionId,
+    partyName: customerName,
+    currency: payment.currency,
+    netAmount: amount(payment.amount),
+    taxes: [],
+    totalAmount: amount(payment.amount),
+    narration: invoiceNumber ? `Payment for ${invoiceNumber}` : `${payment.method} payment`,
+  }));
+  for (const { payment, invoiceNumber, customerName } of refunded) {
+    if (amount(payment.refundAmount) <= 0) continue;
+    vouchers.push({
+      kind: "refund",
+      number: `RFD-${shortId(payment.id)}`,
+      date: isoDate(payment.refundedAt!),
+      dueDate: null,
+      reference: invoiceNumber ?? payment.transactionId,
+      partyName: customerName,
+      currency: payment.currency,
+      netAmount: amount(payment.refundAmount),
+      taxes: [],
+      totalAmount: amount(payment.refundAmount),
+      narration: payment.refundReason ?? (invoiceNumber ? `Refund on ${invoiceNumber}` : "Payment refunded"),
+    });
+  }
+  return vouchers;
+}
+
+async function furniturePaymentVouchers(tenantId: string, range: ExportRange): Promise<ExportVoucher[]> {
+  const rows = await db.select({
+    payment: furnitureInvoicePayments,
+    invoiceNumber: furnitureInvoices.invoiceNumber,
+    billingName: furnitureInvoices.billingName,
+    customerName: customers.name,
+  })
+    .from(furnitureInvoicePayments)
+    .innerJoin(furnitureInvoices, eq(furnitureInvoices.id, furnitureInvoicePayments.invoiceId))
+    .leftJoin(customers, eq(customers.id, furnitureInvoices.customerId))
+    .where(and(
+      eq(furnitureInvoices.tenantId, tenantId),
+      eq(furnitureInvoicePayments.status, "completed"),
+      gte(furnitureInvoicePayments.paymentDate, startOf(range.from)),
+      lte(furnitureInvoicePayments.paymentDate, endOf(range.to)),
+    ));
+  return rows.map(({ payment, invoiceNumber, billingName, customerName }) => ({
+    kind: "payment",
+    number: payment.paymentNumber ?? `RCT-${shortId(payment.id)}`,
+    date: isoDate(payment.paymentDate),
+    dueDate: null,
+    reference: invoiceNumber,
+    partyName: billingName || customerName,
+    currency: payment.currency,
+    netAmount: amount(payment.amount),
+    taxes: [],
+    totalAmount: amount(payment.amount),
+    narration: payment.paymentReference ? `Payment for ${invoiceNumber} (${payment.paymentReference})` : `Payment for ${invoiceNumber}`,
+  }));
+}
+
+class AccountingExportService {
+  /**
+   * Every invoice, note, payment and refund in the range, by date. Voided
+   * documents are left out; a document voided after it was exported has to
+   * be cancelled in the accounting product by hand.
+   */
+  async loadVouchers(tenantId: string, range: ExportRange): Promise<ExportVoucher[]> {
+    validateRange(range);
+    const groups = await Promise.all([
+      documentVouchers(tenantId, range),
+      ledgerEntryVouchers(tenantId, range),
+      corePaymentVouchers(tenantId, range),
+      furniturePaymentVouchers(tenantId, range),
+    ]);
+    return groups.flat().sort((a, b) => a.date.localeCompare(b.date) || a.number.localeCompare(b.number));
+  }
+
+  async exportFile(tenantId: string, target: ExportTarget, range: ExportRange, document: XeroDocument = "invoices"): Promise<ExportFile> {
+    const [vouchers, mappings, [tenant]] = await Promise.all([
+      this.loadVouchers(tenantId, range),
+      this.getMappings(tenantId, target),
+      db.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, tenantId)),
+    ]);
+    const options = { mappings, companyName: tenant?.name ?? "" };
+    const period = `${range.from.replace(/-/g, "")}_${range.to.replace(/-/g, "")}`;
+
+    if (target === "tally") {
+      return { fileName: `tally_vouchers_${period}.xml`, contentType: "application/xml; charset=utf-8", content: renderTallyXml(vouchers, options), voucherCount: vouchers.length };
+    }
+    if (target === "quickbooks") {
+      return { fileName: `quickbooks_${period}.iif`, contentType: "text/plain; charset=utf-8", content: renderQuickBooksIif(vouchers, options), voucherCount: vouchers.length };
+    }
+    const isPayments = document === "payments";
+    const included = vouchers.filter((voucher) => (voucher.kind === "payment" || voucher.kind === "refund") === isPayments);
+    return {
+      fileName: `xero_${document}_${period}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      content: isPayments ? renderXeroStatementCsv(included, options) : renderXeroInvoicesCsv(included, options),
+      voucherCount: included.length,
+    };
+  }
+
+  async getMappings(tenantId: string, target: ExportTarget): Promise<Record<string, string>> {
+    const rows = await db.select().from(accountingExportMappings)
+      .where(and(eq(accountingExportMappings.tenantId, tenantId), eq(accountingExportMappings.target, target)))
+      .orderBy(asc(accountingExportMappings.mappingKey));
+    return Object.fromEntries(rows.map((row) => [row.mappingKey, row.ledgerName]));
+  }
+
+  async getMappingView(tenantId: string, target: ExportTarget): Promise<{ target: ExportTarget; mappings: Record<string, string>; defaults: Record<string, string> }> {
+    return { target, mappings: await this.getMappings(tenantId, target), defaults: DEFAULT_LEDGER_NAMES[target] };
+  }
+
+  /**
+   * Sets ledger names by mapping key; a null name removes the mapping so the
+   * product default applies again.
+   */
+  async updateMappings(tenantId: string, target: ExportTarget, changes: Record<string, string | null>): Promise<Record<string, string>> {
+    const invalid = Object.keys(changes).filter((key) => !isValidMappingKey(key));
+    if (invalid.length) throw new AccountingExportError(400, `Unknown mapping keys: ${invalid.join(", ")}`);
+
+    await db.transaction(async (tx) => {
+      for (const [mappingKey, ledgerName] of Object.entries(changes)) {
+        const where: SQL = and(
+          eq(accountingExportMappings.tenantId, tenantId),
+          eq(accountingExportMappings.target, target),
+          eq(accountingExportMappings.mappingKey, mappingKey),
+        )!;
+        if (ledgerName === null) {
+          await tx.delete(accountingExportMappings).where(where);
+          continue;
+        }
+        await tx.insert(accountingExportMappings)
+          .values({ tenantId, target, mappingKey, ledgerName })
+          .onConflictDoUpdate({
+            target: [accountingExportMappings.tenantId, accountingExportMappings.target, accountingExportMappings.mappingKey],
+            set: { ledgerName, updatedAt: new Date() },
+          });
+      }
+    });
+    return this.getMappings(tenantId, target);
+  }
+}
+
+export const accountingExportService = new AccountingExportService();
@@ -0,0 +1,228 @@
+/**
+ * Renderers for the import formats of each product: Tally XML vouchers,
+ * QuickBooks Desktop IIF transactions, and Xero's sales invoice and bank
+ * statement CSV templates.
+ */
+
+import {
+  PARTY_LEDGER,
+  resolveLedger,
+  taxKey,
+  voucherLines,
+  type ExportTarget,
+  type ExportVoucher,
+  type VoucherKind,
+} from "./vouchers";
+import { round2 } from "../../utils/money";
+
+export interface RenderOptions {
+  mappings: Record<string, string>;
+  // Used when no company mapping is set; Tally imports into the company named here
+  companyName: string;
+}
+
+const TALLY_VOUCHER_TYPES: Record<VoucherKind, string> = {
+  invoice: "Sales",
+  credit_note: "Credit Note",
+  debit_note: "Debit Note",
+  payment: "Receipt",
+  refund: "Payment",
+};
+
+const IIF_TRANSACTION_TYPES: Record<VoucherKind, string> = {
+  invoice: "INVOICE",
+  credit_note: "CREDIT MEMO",
+  debit_note: "INVOICE",
+  payment: "PAYMENT",
+  refund: "CHECK",
+};
+
+export const XERO_INVOICE_COLUMNS = [
+  "*ContactName", "EmailAddress", "POAddressLine1", "POAddressLine2", "POAddressLine3", "POAddressLine4",
+  "POCity", "PORegion", "POPostalCode", "POCountry", "*InvoiceNumber", "Reference", "*InvoiceDate", "*DueDate",
+  "Total", "InventoryItemCode", "*Description", "*Quantity", "*UnitAmount", "Discount", "*AccountCode", "*TaxType",
+  "TaxAmount", "TrackingName1", "TrackingOption1", "TrackingName2", "TrackingOption2", "Currency", "BrandingTheme",
+] as const;
+
+export const XERO_STATEMENT_COLUMNS = ["*Date", "*Amount", "Payee", "Description", "Reference"] as const;
+
+function ledgerFor(target: ExportTarget, options: RenderOptions, voucher: ExportVoucher, ledger: string, taxName?: string): string {
+  if (ledger === PARTY_LEDGER) return voucher.partyName || resolveLedger(target, options.mappings, "customer");
+  return resolveLedger(target, options.mappings, ledger, taxName);
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Tally's import envelope. Tally signs amounts the opposite way to debits:
+ * a debit is a negative amount flagged ISDEEMEDPOSITIVE, a credit positive.
+ */
+export function renderTallyXml(vouchers: ExportVoucher[], options: RenderOptions): string {
+  const company = options.mappings.company || options.companyName;
+  const body = vouchers.map((voucher) => {
+    const voucherType = TALLY_VOUCHER_TYPES[voucher.kind];
+    const entries = voucherLines(voucher).map((line) => {
+      const isDebit = line.amount > 0;
+      return [
+        "      <ALLLEDGERENTRIES.LIST>",
+        `       <LEDGERNAME>${xml(ledgerFor("tally", options, voucher, line.ledger, line.taxName))}</LEDGERNAME>`,
+        `       <ISDEEMEDPOSITIVE>${isDebit ? "Yes" : "No"}</ISDEEMEDPOSITIVE>`,
+        `       <ISPARTYLEDGER>${line.ledger === PARTY_LEDGER ? "Yes" : "No"}</ISPARTYLEDGER>`,
+        `       <AMOUNT>${(-line.amount).toFixed(2)}</AMOUNT>`,
+        "      </ALLLEDGERENTRIES.LIST>",
+      ].join("\n");
+    });
+    return [
+      `     <VOUCHER VCHTYPE="${xml(voucherType)}" ACTION="Create" OBJVIEW="Accounting Voucher View">`,
+      `      <DATE>${voucher.date.replace(/-/g, "")}</DATE>`,
+      `      <VOUCHERTYPENAME>${xml(voucherType)}</VOUCHERTYPENAME>`,
+      `      <VOUCHERNUMBER>${xml(voucher.number)}</VOUCHERNUMBER>`,
+      voucher.reference ? `      <REFERENCE>${xml(voucher.reference)}</REFERENCE>` : null,
+      `      <PARTYLEDGERNAME>${xml(ledgerFor("tally", options, voucher, PARTY_LEDGER))}</PARTYLEDGERNAME>`,
+      voucher.narration ? `      <NARRATION>${xml(voucher.narration)}</NARRATION>` : null,
+      ...entries,
+      "     </VOUCHER>",
+    ].filter((line): line is string => line !== null).join("\n");
+  });
+
+  return [
+    "<ENVELOPE>",
+    " <HEADER>",
+    "  <TALLYREQUEST>Import Data</TALLYREQUEST>",
+    " </HEADER>",
+    " <BODY>",
+    "  <IMPORTDATA>",
+    "   <REQUESTDESC>",
+    "    <REPORTNAME>Vouchers</REPORTNAME>",
+    "    <STATICVARIABLES>",
+    `     <SVCURRENTCOMPANY>${xml(company)}</SVCURRENTCOMPANY>`,
+    "    </STATICVARIABLES>",
+    "   </REQUESTDESC>",
+    "   <REQUESTDATA>",
+    "    <TALLYMESSAGE xmlns:UDF=\"TallyUDF\">",
+    ...body,
+    "    </TALLYMESSAGE>",
+    "   </REQUESTDATA>",
+    "  </IMPORTDATA>",
+    " </BODY>",
+    "</ENVELOPE>",
+    "",
+  ].join("\n");
+}
+
+// IIF is tab separated with no quoting, so tabs and line breaks cannot appear in a value
+function iifCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return (typeof value === "number" ? value.toFixed(2) : value).replace(/[\t\r\n]+/g, " ");
+}
+
+function iifDate(iso: string): string {
+  const [year, month, day] = iso.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * QuickBooks Desktop IIF. The first line of each transaction is its TRNS
+ * row: receivables for invoices and credit memos, the bank for payments and
+ * refunds. Customer lines post to the receivables account under the
+ * customer's name.
+ */
+export function renderQuickBooksIif(vouchers: ExportVoucher[], options: RenderOptions): string {
+  const rows: string[] = [
+    "!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO\tDUEDATE",
+    "!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO",
+    "!ENDTRNS",
+  ];
+  for (const voucher of vouchers) {
+    const type = IIF_TRANSACTION_TYPES[voucher.kind];
+    const customer = ledgerFor("quickbooks", options, voucher, PARTY_LEDGER);
+    voucherLines(voucher).forEach((line, index) => {
+      const isParty = line.ledger === PARTY_LEDGER;
+      const account = isParty
+        ? resolveLedger("quickbooks", options.mappings, "receivables")
+        : ledgerFor("quickbooks", options, voucher, line.ledger, line.taxName);
+      const cells = [
+        index === 0 ? "TRNS" : "SPL",
+        "",
+        type,
+        iifDate(voucher.date),
+        account,
+        isParty || index === 0 ? customer : "",
+        line.amount,
+        voucher.number,
+        voucher.narration,
+      ];
+      if (index === 0) cells.push(voucher.dueDate ? iifDate(voucher.dueDate) : "");
+      rows.push(cells.map(iifCell).join("\t"));
+    });
+    rows.push("ENDTRNS");
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "number" ? value.toFixed(2) : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Xero reads import dates in the organisation's regional order; UK and Malaysian orgs use dd/mm/yyyy
+function xeroDate(iso: string): string {
+  const [year, month, day] = iso.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+/**
+ * Xero's sales invoice template, one tax-exclusive line per document. Credit
+ * notes are imported through the same template as negative amounts. The tax
+ * type comes from the document's first tax component, since Xero applies a
+ * single tax rate per line.
+ */
+export function renderXeroInvoicesCsv(vouchers: ExportVoucher[], options: RenderOptions): string {
+  const rows = [XERO_INVOICE_COLUMNS.join(",")];
+  for (const voucher of vouchers) {
+    if (voucher.kind === "payment" || voucher.kind === "refund") continue;
+    const sign = voucher.kind === "credit_note" ? -1 : 1;
+    const taxAmount = round2(voucher.taxes.reduce((sum, tax) => sum + tax.amount, 0));
+    const tax = voucher.taxes[0];
+    const values: Record<string, string | number | null> = {
+      "*ContactName": ledgerFor("xero", options, voucher, PARTY_LEDGER),
+      "*InvoiceNumber": voucher.number,
+      Reference: voucher.reference,
+      "*InvoiceDate": xeroDate(voucher.date),
+      "*DueDate": xeroDate(voucher.dueDate ?? voucher.date),
+      "*Description": voucher.narration ?? (voucher.kind === "invoice" ? "Sales" : voucher.kind === "credit_note" ? "Credit note" : "Debit note"),
+      "*Quantity": "1",
+      "*UnitAmount": sign * round2(voucher.totalAmount - taxAmount),
+      "*AccountCode": resolveLedger("xero", options.mappings, voucher.kind === "credit_note" ? "sales_returns" : "sales"),
+      "*TaxType": resolveLedger("xero", options.mappings, tax ? taxKey(tax.taxType) : "tax:none", tax?.taxName),
+      TaxAmount: sign * taxAmount,
+      Currency: voucher.currency,
+    };
+    rows.push(XERO_INVOICE_COLUMNS.map((column) => csvCell(values[column])).join(","));
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+// Xero's precoded bank statement import, for reconciling receipts and refunds against the invoices
+export function renderXeroStatementCsv(vouchers: ExportVoucher[], options: RenderOptions): string {
+  const rows = [XERO_STATEMENT_COLUMNS.join(",")];
+  for (const voucher of vouchers) {
+    if (voucher.kind !== "payment" && voucher.kind !== "refund") continue;
+    rows.push([
+      xeroDate(voucher.date),
+      voucher.kind === "refund" ? -round2(voucher.totalAmount) : round2(voucher.totalAmount),
+      ledgerFor("xero", options, voucher, PARTY_LEDGER),
+      voucher.narration,
+      voucher.reference ?? voucher.number,
+    ].map(csvCell).join(","));
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Accounting Software Export
+ *
+ * Invoices, credit and debit notes, payments and refunds for a date range in
+ * the import formats of desktop and cloud accounting products:
+ * - Tally XML vouchers with GST split into the tenant's tax ledgers
+ * - QuickBooks Desktop IIF transactions
+ * - Xero sales invoice and bank statement CSVs
+ * - Per-tenant mapping of ledger and account names for each product
+ *
+ * @module server/core/accounting-exports
+ */
+
+export * from "./vouchers";
+export * from "./formats";
+export { accountingExportService, XERO_DOCUMENTS, type XeroDocument, type ExportRange, type ExportFile } from "./export-service";
+export { accountingExportRouter } from "./export-routes";
@@ -0,0 +1,157 @@
+/**
+ * The neutral shape every export is rendered from: one voucher per invoice,
+ * note, payment or refund, and the balanced ledger lines behind it. Ledger
+ * lines name a mapping key ("sales", "tax:cgst", ...) that each target
+ * resolves to the tenant's own ledger or account name.
+ */
+
+import type { TaxBreakdown } from "../../services/tax-calculator";
+import { round2 } from "../../utils/money";
+
+export const EXPORT_TARGETS = ["tally", "quickbooks", "xero"] as const;
+export type ExportTarget = typeof EXPORT_TARGETS[number];
+
+export const VOUCHER_KINDS = ["invoice", "credit_note", "debit_note", "payment", "refund"] as const;
+export type VoucherKind = typeof VOUCHER_KINDS[number];
+
+// The customer's own ledger; resolved from the voucher's party name, not a mapping
+export const PARTY_LEDGER = "party";
+
+export const MAPPING_KEYS = ["company", "customer", "sales", "sales_returns", "receivables", "bank", "rounding", "tax"] as const;
+export type MappingKey = typeof MAPPING_KEYS[number];
+
+// Used until a tenant maps its own names; credit notes post to the sales ledger unless sales_returns is mapped
+export const DEFAULT_LEDGER_NAMES: Record<ExportTarget, Record<string, string>> = {
+  tally: {
+    customer: "Cash Customers",
+    sales: "Sales",
+    bank: "Bank Account",
+    rounding: "Round Off",
+  },
+  quickbooks: {
+    customer: "Walk-in Customer",
+    sales: "Sales",
+    receivables: "Accounts Receivable",
+    bank: "Undeposited Funds",
+    rounding: "Rounding",
+    tax: "Sales Tax Payable",
+  },
+  xero: {
+    customer: "Walk-in Customer",
+    sales: "200",
+    tax: "Tax on Sales",
+    "tax:none": "Tax Exempt",
+  },
+};
+
+export interface ExportTaxLine {
+  taxType: string;
+  taxName: string;
+  rate: number;
+  amount: number;
+}
+
+export interface ExportVoucher {
+  kind: VoucherKind;
+  number: string;
+  date: string;
+  dueDate: string | null;
+  // The module's number for an invoice, or the document a note or payment settles
+  reference: string | null;
+  partyName: string | null;
+  currency: string;
+  // Net, tax and total are positive; the kind decides the direction
+  netAmount: number;
+  taxes: ExportTaxLine[];
+  totalAmount: number;
+  narration: string | null;
+}
+
+// Debits are positive, credits negative
+export interface VoucherLine {
+  ledger: string;
+  amount: number;
+  taxName?: string;
+  taxRate?: number;
+}
+
+export class AccountingExportError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "AccountingExportError";
+  }
+}
+
+export function taxKey(taxType: string): string {
+  const normalized = taxType.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return `tax:${normalized || "tax"}`;
+}
+
+export function isValidMappingKey(key: string): boolean {
+  return (MAPPING_KEYS as readonly string[]).includes(key) || /^tax:[a-z0-9_]{1,60}$/.test(key);
+}
+
+/**
+ * Ledger name for a mapping key: the tenant's mapping, else the product
+ * default. Tax keys fall back to a generic tax mapping, then to an
+ * "Output <tax>" ledger named after the tax itself.
+ */
+export function resolveLedger(target: ExportTarget, mappings: Record<string, string>, key: string, taxName?: string): string {
+  const defaults = DEFAULT_LEDGER_NAMES[target];
+  const direct = mappings[key] ?? defaults[key];
+  if (direct) return direct;
+  if (key.startsWith("tax:")) {
+    return mappings.tax ?? defaults.tax ?? `Output ${taxName ?? key.slice(4).toUpperCase()}`;
+  }
+  if (key === "sales_returns") return resolveLedger(target, mappings, "sales");
+  throw new AccountingExportError(400, `No ledger is mapped for "${key}"`);
+}
+
+/**
+ * Spreads a document's tax over the breakdown TaxCalculatorService produced
+ * for it, so a credit note for part of an invoice keeps the invoice's
+ * CGST/SGST split. Rounding is absorbed by the last component.
+ */
+export function splitTax(taxAmount: number, breakdown: TaxBreakdown[]): ExportTaxLine[] {
+  if (taxAmount === 0) return [];
+  const components = breakdown.filter((item) => item.taxAmount !== 0);
+  const basis = components.reduce((sum, item) => sum + item.taxAmount, 0);
+  if (!components.length || basis === 0) {
+    return [{ taxType: "tax", taxName: "Tax", rate: 0, amount: round2(taxAmount) }];
+  }
+
+  let allocated = 0;
+  return components.map((item, index) => {
+    const share = index === components.length - 1
+      ? round2(taxAmount - allocated)
+      : round2(taxAmount * item.taxAmount / basis);
+    allocated = round2(allocated + share);
+    return { taxType: item.taxType, taxName: item.taxName, rate: item.rate, amount: share };
+  });
+}
+
+/**
+ * The balanced lines of a voucher. Invoices and debit notes debit the party
+ * and credit sales and each tax; credit notes reverse that; payments debit
+ * the bank and refunds credit it. Any difference between the total and its
+ * parts goes to the rounding ledger.
+ */
+export function voucherLines(voucher: ExportVoucher): VoucherLine[] {
+  const total = round2(voucher.totalAmount);
+  if (voucher.kind === "payment") {
+    return [{ ledger: "bank", amount: total }, { ledger: PARTY_LEDGER, amount: -total }];
+  }
+  if (voucher.kind === "refund") {
+    return [{ ledger: "bank", amount: -total }, { ledger: PARTY_LEDGER, amount: total }];
+  }
+
+  const sign = voucher.kind === "credit_note" ? -1 : 1;
+  const lines: VoucherLine[] = [
+    { ledger: PARTY_LEDGER, amount: sign * total },
+    { ledger: voucher.kind === "credit_note" ? "sales_returns" : "sales", amount: -sign * round2(voucher.netAmount) },
+    ...voucher.taxes.map((tax) => ({ ledger: taxKey(tax.taxType), amount: -sign * tax.amount, taxName: tax.taxName, taxRate: tax.rate })),
+  ];
+  const difference = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (difference !== 0) lines.push({ ledger: "rounding", amount: -difference });
+  return lines.filter((line) => line.amount !== 0);
+}
@@ -0,0 +1,374 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { GL_ACCOUNT_TYPES } from "./chart-of-accounts";
+import { AccountingError } from "./journal";
+import { GL_SOURCE_TYPES } from "./posting-rules";
+import { accountingService } from "./accounting-service";
+import { today } from "../../utils/time-of-day";
+
+export const accountingRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const accountSchema = z.object({
+  code: z.string().min(1).max(20),
+  name: z.string().min(1).max(255),
+  accountType: z.enum(GL_ACCOUNT_TYPES),
+  parentId: z.string().nullable().optional(),
+  description: z.string().max(1000).nullable().optional(),
+});
+
+const accountUpdateSchema = accountSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const journalSchema = z.object({
+  entryDate: dateString,
+  description: z.string().min(1).max(1000),
+  lines: z.array(z.object({
+    accountId: z.string().min(1),
+    debit: z.coerce.number().min(0).default(0),
+    credit: z.coerce.number().min(0).default(0),
+    description: z.string().max(500).optional(),
+  })).min(2),
+});
+
+const journalsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sourceType: z.string().max(40).optional(),
+  accountId: z.string().optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const reverseSchema = z.object({
+  entryDate: dateString.optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+const asOfQuerySchema = z.object({
+  asOf: dateString.optional(),
+});
+
+const rangeQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+});
+
+const periodSchema = z.object({
+  name: z.string().min(1).max(100),
+  periodStart: dateString,
+  periodEnd: dateString,
+});
+
+const syncSchema = z.object({
+  sourceTypes: z.array(z.enum(GL_SOURCE_TYPES)).min(1).default([...GL_SOURCE_TYPES]),
+});
+
+function sendAccountingError(res: Response, error: any) {
+  if (error instanceof AccountingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+accountingRouter.get("/accounts", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await accountingService.listAccounts(isolation.getTenantId()));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/accounts", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = accountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const account = await accountingService.createAccount(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gl_account",
+      resourceId: account.id,
+      metadata: { code: account.code, name: account.name, accountType: account.accountType },
+    });
+
+    res.status(201).json(account);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.patch("/accounts/:id", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = accountUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const account = await accountingService.updateAccount(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gl_account",
+      resourceId: account.id,
+      metadata: { changes: parsed.data },
+    });
+
+    res.json(account);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/journals", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = journalsQuerySchema.parse(req.query);
+    const { data, total } = await accountingService.listJournals(isolation.getTenantId(), query);
+
+    res.json({
+      data,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/journals/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await accountingService.getJournal(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/journals", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = journalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const entry = await accountingService.createJournal(isolation.getTenantId(), parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gl_journal_entry",
+      resourceId: entry.id,
+      metadata: { entryNumber: entry.entryNumber, entryDate: entry.entryDate },
+    });
+
+    res.status(201).json(entry);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/journals/:id/reverse", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = reverseSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const reversal = await accountingService.reverseJournal(isolation.getTenantId(), req.params.id, parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gl_journal_entry",
+      resourceId: reversal.id,
+      metadata: { reversalOfId: req.params.id, entryNumber: reversal.entryNumber, reason: parsed.data.reason },
+    });
+
+    res.status(201).json(reversal);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/reports/trial-balance", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = asOfQuerySchema.parse(req.query);
+    res.json(await accountingService.getTrialBalance(isolation.getTenantId(), query.asOf ?? today()));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/reports/profit-and-loss", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = rangeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    res.json(await accountingService.getProfitAndLoss(isolation.getTenantId(), parsed.data.from, parsed.data.to));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/reports/balance-sheet", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = asOfQuerySchema.parse(req.query);
+    res.json(await accountingService.getBalanceSheet(isolation.getTenantId(), query.asOf ?? today()));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.get("/periods", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await accountingService.listPeriods(isolation.getTenantId()));
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/periods", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = periodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const period = await accountingService.createPeriod(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gl_period",
+      resourceId: period.id,
+      metadata: { name: period.name, periodStart: period.periodStart, periodEnd: period.periodEnd },
+    });
+
+    res.status(201).json(period);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/periods/:id/close", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const period = await accountingService.closePeriod(isolation.getTenantId(), req.params.id, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gl_period",
+      resourceId: period.id,
+      metadata: { name: period.name, status: period.status },
+    });
+
+    res.json(period);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/periods/:id/reopen", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const period = await accountingService.reopenPeriod(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gl_period",
+      resourceId: period.id,
+      metadata: { name: period.name, status: period.status },
+    });
+
+    res.json(period);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/periods/:id/lock", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const period = await accountingService.lockPeriod(isolation.getTenantId(), req.params.id, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gl_period",
+      resourceId: period.id,
+      metadata: { name: period.name, status: period.status },
+    });
+
+    res.json(period);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
+
+accountingRouter.post("/sync", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = syncSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const result = await accountingService.syncTenant(isolation.getTenantId(), parsed.data.sourceTypes);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "general_ledger",
+      metadata: { sync: result.posted, failed: result.failed.length },
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    sendAccountingError(res, error);
+  }
+});
@@ -0,0 +1,566 @@
+import { db } from "../../db";
+import {
+  glAccounts,
+  glJournalEntries,
+  glJournalLines,
+  glPeriods,
+  tenants,
+  payments,
+  invoices,
+  furnitureInvoicePayments,
+  furnitureInvoices,
+  hrPayRuns,
+  inventoryTransactions,
+  inventoryItems,
+  realEstateCommissions,
+  type GlAccount,
+  type GlJournalEntry,
+  type GlJournalLine,
+  type GlPeriod,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import { DEFAULT_CHART_OF_ACCOUNTS, isValidAccountCode, type GlAccountType } from "./chart-of-accounts";
+import {
+  AccountingError,
+  assertCanClose,
+  assertCanLock,
+  assertCanReopen,
+  assertPeriodOpen,
+  balancedLines,
+  openPostingDate,
+  reversedLines,
+  validatePeriod,
+  type JournalDraft,
+  type JournalLineDraft,
+} from "./journal";
+import {
+  GL_SOURCE_TYPES,
+  journalFromCommission,
+  journalFromFurniturePayment,
+  journalFromInventoryTransaction,
+  journalFromPayRun,
+  journalFromPayment,
+  journalFromPaymentRefund,
+  type GlSourceType,
+} from "./posting-rules";
+import {
+  balanceSheet,
+  profitAndLoss,
+  trialBalance,
+  type AccountTotals,
+  type BalanceSheet,
+  type ProfitAndLoss,
+  type TrialBalance,
+} from "./reports";
+import { money } from "../../utils/money";
+import { today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Reader = Pick<Transaction, "select">;
+
+const SYNC_BATCH_SIZE = 200;
+
+export interface AccountInput {
+  code: string;
+  name: string;
+  accountType: GlAccountType;
+  parentId?: string | null;
+  description?: string | null;
+}
+
+export interface AccountUpdate {
+  code?: string;
+  name?: string;
+  accountType?: GlAccountType;
+  parentId?: string | null;
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface ManualJournalInput {
+  entryDate: string;
+  description: string;
+  lines: Array<{ accountId: string; debit: number; credit: number; description?: string }>;
+}
+
+export interface JournalFilters {
+  sourceType?: string;
+  accountId?: string;
+  from?: string;
+  to?: string;
+  page: number;
+  limit: number;
+}
+
+async function functionalCurrency(reader: Reader, tenantId: string): Promise<string> {
+  const [tenant] = await reader.select({ currency: tenants.currency }).from(tenants).where(eq(tenants.id, tenantId));
+  return tenant?.currency || "INR";
+}
+
+// Serialises postings per tenant so entry numbers and source links stay unique
+async function lockJournal(tx: Transaction, tenantId: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`gl:journal:${tenantId}`}))`);
+}
+
+async function seedChart(tx: Pick<Transaction, "insert">, tenantId: string): Promise<void> {
+  await tx.insert(glAccounts)
+    .values(DEFAULT_CHART_OF_ACCOUNTS.map((account) => ({ tenantId, ...account })))
+    .onConflictDoNothing();
+}
+
+/**
+ * The journal a source record should produce. Undefined when the record
+ * does not exist, null when it has nothing to post.
+ */
+async function loadDraft(reader: Reader, tenantId: string, sourceType: GlSourceType, sourceId: string, currency: string): Promise<JournalDraft | null | undefined> {
+  switch (sourceType) {
+    case "payment":
+    case "payment_refund": {
+      const [row] = await reader.select({ payment: payments, invoiceNumber: invoices.invoiceNumber, totalAmount: invoices.totalAmount, taxAmount: invoices.taxAmount })
+        .from(payments)
+        .leftJoin(invoices, eq(invoices.id, payments.invoiceId))
+        .where(and(eq(payments.id, sourceId), eq(payments.tenantId, tenantId)));
+      if (!row) return undefined;
+      const invoice = row.invoiceNumber ? { invoiceNumber: row.invoiceNumber, totalAmount: row.totalAmount!, taxAmount: row.taxAmount } : null;
+      return sourceType === "payment"
+        ? journalFromPayment(row.payment, invoice, currency)
+        : journalFromPaymentRefund(row.payment, invoice, currency);
+    }
+    case "furniture_payment": {
+      const [row] = await reader.select({ payment: furnitureInvoicePayments, invoice: furnitureInvoices })
+        .from(furnitureInvoicePayments)
+        .innerJoin(furnitureInvoices, eq(furnitureInvoices.id, furnitureInvoicePayments.invoiceId))
+        .where(and(eq(furnitureInvoicePayments.id, sourceId), eq(furnitureInvoices.tenantId, tenantId)));
+      return row && journalFromFurniturePayment(row.payment, row.invoice, currency);
+    }
+    case "pay_run": {
+      const [payRun] = await reader.select().from(hrPayRuns).where(and(eq(hrPayRuns.id, sourceId), eq(hrPayRuns.tenantId, tenantId)));
+      return payRun && journalFromPayRun(payRun);
+    }
+    case "inventory_transaction": {
+      const [row] = await reader.select({ transaction: inventoryTransactions, name: inventoryItems.name, costPrice: inventoryItems.costPrice })
+        .from(inventoryTransactions)
+        .innerJoin(inventoryItems, eq(inventoryItems.id, inventoryTransactions.itemId))
+        .where(and(eq(inventoryTransactions.id, sourceId), eq(inventoryTransactions.tenantId, tenantId)));
+      return row && journalFromInventoryTransaction(row.transaction, row);
+    }
+    case "commission": {
+      const [commission] = await reader.select().from(realEstateCommissions)
+        .where(and(eq(realEstateCommissions.id, sourceId), eq(realEstateCommissions.tenantId, tenantId)));
+      return commission && journalFromCommission(commission, currency);
+    }
+  }
+}
+
+// Ids of one page of a source's records, oldest first
+function sourceIdsQuery(tenantId: string, sourceType: GlSourceType) {
+  switch (sourceType) {
+    case "payment":
+      return db.select({ id: payments.id }).from(payments).where(eq(payments.tenantId, tenantId)).orderBy(asc(payments.createdAt), asc(payments.id));
+    case "payment_refund":
+      return db.select({ id: payments.id }).from(payments)
+        .where(and(eq(payments.tenantId, tenantId), isNotNull(payments.refundAmount)))
+        .orderBy(asc(payments.createdAt), asc(payments.id));
+    case "furniture_payment":
+      return db.select({ id: furnitureInvoicePayments.id }).from(furnitureInvoicePayments)
+        .innerJoin(furnitureInvoices, eq(furnitureInvoices.id, furnitureInvoicePayments.invoiceId))
+        .where(eq(furnitureInvoices.tenantId, tenantId))
+        .orderBy(asc(furnitureInvoicePayments.createdAt), asc(furnitureInvoicePayments.id));
+    case "pay_run":
+      return db.select({ id: hrPayRuns.id }).from(hrPayRuns).where(eq(hrPayRuns.tenantId, tenantId)).orderBy(asc(hrPayRuns.createdAt), asc(hrPayRuns.id));
+    case "inventory_transaction":
+      return db.select({ id: inventoryTransactions.id }).from(inventoryTransactions)
+        .where(eq(inventoryTransactions.tenantId, tenantId))
+        .orderBy(asc(inventoryTransactions.createdAt), asc(inventoryTransactions.id));
+    case "commission":
+      return db.select({ id: realEstateCommissions.id }).from(realEstateCommissions)
+        .where(eq(realEstateCommissions.tenantId, tenantId))
+        .orderBy(asc(realEstateCommissions.createdAt), asc(realEstateCommissions.id));
+  }
+}
+
+async function sourceIds(tenantId: string, sourceType: GlSourceType, offset: number): Promise<string[]> {
+  const rows = await sourceIdsQuery(tenantId, sourceType).limit(SYNC_BATCH_SIZE).offset(offset);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Maps each line to an active account of the tenant, looking automatic
+ * lines up by system key.
+ */
+async function resolveAccounts(tx: Transaction, tenantId: string, lines: JournalLineDraft[]): Promise<string[]> {
+  const systemKeys = Array.from(new Set(lines.flatMap((line) => (line.systemKey ? [line.systemKey] : []))));
+  const accountIds = Array.from(new Set(lines.flatMap((line) => (line.accountId ? [line.accountId] : []))));
+  const conditions: SQL[] = [];
+  if (systemKeys.length) conditions.push(inArray(glAccounts.systemKey, systemKeys));
+  if (accountIds.length) conditions.push(inArray(glAccounts.id, accountIds));
+
+  const accounts = await tx.select().from(glAccounts)
+    .where(and(eq(glAccounts.tenantId, tenantId), sql`(${sql.join(conditions, sql` OR `)})`));
+
+  return lines.map((line) => {
+    const account = line.accountId
+      ? accounts.find((candidate) => candidate.id === line.accountId)
+      : accounts.find((candidate) => candidate.systemKey === line.systemKey);
+    if (!account) {
+      throw new AccountingError(line.accountId ? 400 : 409, line.accountId ? `Account ${line.accountId} not found` : `No account is mapped to ${line.systemKey}`);
+    }
+    if (!account.isActive) throw new AccountingError(409, `Account ${account.code} ${account.name} is inactive`);
+    return account.id;
+  });
+}
+
+async function writeEntry(
+  tx: Transaction,
+  tenantId: string,
+  draft: JournalDraft,
+  extra: { currency: string; reversalOfId?: string; createdBy?: string },
+): Promise<GlJournalEntry & { lines: GlJournalLine[] }> {
+  const lines = balancedLines(draft.lines);
+  const accountIds = await resolveAccounts(tx, tenantId, lines);
+
+  const [{ lastNumber }] = await tx.select({ lastNumber: sql<number>`coalesce(max(${glJournalEntries.entryNumber}), 0)::int` })
+    .from(glJournalEntries)
+    .where(eq(glJournalEntries.tenantId, tenantId));
+
+  const [entry] = await tx.insert(glJournalEntries).values({
+    tenantId,
+    entryNumber: lastNumber + 1,
+    entryDate: draft.entryDate,
+    sourceType: draft.sourceType,
+    sourceId: draft.sourceId,
+    description: draft.description,
+    currency: extra.currency,
+    reversalOfId: extra.reversalOfId,
+    createdBy: extra.createdBy,
+  }).returning();
+
+  const inserted = await tx.insert(glJournalLines).values(lines.map((line, index) => ({
+    tenantId,
+    entryId: entry.id,
+    accountId: accountIds[index],
+    lineNo: index + 1,
+    debit: money(line.debit),
+    credit: money(line.credit),
+    description: line.description,
+  }))).returning();
+  return { ...entry, lines: inserted };
+}
+
+async function loadPeriods(reader: Reader, tenantId: string): Promise<GlPeriod[]> {
+  return reader.select().from(glPeriods).where(eq(glPeriods.tenantId, tenantId)).orderBy(asc(glPeriods.periodStart));
+}
+
+async function accountTotals(tenantId: string, range: { from?: string; to: string }): Promise<AccountTotals[]> {
+  const conditions: SQL[] = [eq(glJournalEntries.tenantId, tenantId), lte(glJournalEntries.entryDate, range.to)];
+  if (range.from) conditions.push(gte(glJournalEntries.entryDate, range.from));
+
+  const [accounts, sums] = await Promise.all([
+    db.select().from(glAccounts).where(eq(glAccounts.tenantId, tenantId)),
+    db.select({
+      accountId: glJournalLines.accountId,
+      debit: sql<string>`coalesce(sum(${glJournalLines.debit}), 0)`,
+      credit: sql<string>`coalesce(sum(${glJournalLines.credit}), 0)`,
+    })
+      .from(glJournalLines)
+      .innerJoin(glJournalEntries, eq(glJournalEntries.id, glJournalLines.entryId))
+      .where(and(...conditions))
+      .groupBy(glJournalLines.accountId),
+  ]);
+
+  return accounts.map((account) => {
+    const sum = sums.find((row) => row.accountId === account.id);
+    return {
+      accountId: account.id,
+      code: account.code,
+      name: account.name,
+      accountType: account.accountType,
+      debit: parseFloat(sum?.debit ?? "0"),
+      credit: parseFloat(sum?.credit ?? "0"),
+    };
+  });
+}
+
+async function findPeriod(tx: Transaction, tenantId: string, id: string): Promise<GlPeriod> {
+  const [period] = await tx.select().from(glPeriods)
+    .where(and(eq(glPeriods.id, id), eq(glPeriods.tenantId, tenantId)))
+    .for("update");
+  if (!period) throw new AccountingError(404, "Period not found");
+  return period;
+}
+
+class AccountingService {
+  /**
+   * Seeds the default chart for a tenant. Accounts that already exist, by
+   * code or system key, are left as they are.
+   */
+  async ensureChart(tenantId: string): Promise<void> {
+    await seedChart(db, tenantId);
+  }
+
+  /**
+   * Posts the journal for a source record once. Later changes to the record
+   * do not rewrite the entry; corrections are made by reversal. Entries that
+   * would fall in a closed period are dated into the next open one.
+   */
+  async post(tenantId: string, sourceType: GlSourceType, sourceId: string): Promise<GlJournalEntry | null> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      const [existing] = await tx.select().from(glJournalEntries)
+        .where(and(
+          eq(glJournalEntries.tenantId, tenantId),
+          eq(glJournalEntries.sourceType, sourceType),
+          eq(glJournalEntries.sourceId, sourceId),
+        ));
+      if (existing) return existing;
+
+      const currency = await functionalCurrency(tx, tenantId);
+      const draft = await loadDraft(tx, tenantId, sourceType, sourceId, currency);
+      if (!draft) return null;
+
+      await seedChart(tx, tenantId);
+      const periods = await loadPeriods(tx, tenantId);
+      const { lines, ...entry } = await writeEntry(tx, tenantId, { ...draft, entryDate: openPostingDate(periods, draft.entryDate) }, { currency });
+      return entry;
+    });
+  }
+
+  /**
+   * Fire-and-forget posting for module routes; an accounting failure never
+   * fails the module's own write, and a sync picks the record up later.
+   */
+  postAsync(tenantId: string, sourceType: GlSourceType, sourceId: string): void {
+    setImmediate(async () => {
+      try {
+        await this.post(tenantId, sourceType, sourceId);
+      } catch (error) {
+        console.error(`[accounting] Failed to post ${sourceType} ${sourceId}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Posts every record of the given sources that has no journal yet, for
+   * records that predate the ledger or posts that failed.
+   */
+  async syncTenant(tenantId: string, sourceTypes: readonly GlSourceType[] = GL_SOURCE_TYPES): Promise<{ posted: Record<string, number>; failed: Array<{ sourceType: string; sourceId: string; message: string }> }> {
+    const posted: Record<string, number> = {};
+    const failed: Array<{ sourceType: string; sourceId: string; message: string }> = [];
+    for (const sourceType of sourceTypes) {
+      posted[sourceType] = 0;
+      for (let offset = 0; ; offset += SYNC_BATCH_SIZE) {
+        const ids = await sourceIds(tenantId, sourceType, offset);
+        for (const id of ids) {
+          try {
+            if (await this.post(tenantId, sourceType, id)) posted[sourceType] += 1;
+          } catch (error: any) {
+            if (!(error instanceof AccountingError)) throw error;
+            failed.push({ sourceType, sourceId: id, message: error.message });
+          }
+        }
+        if (ids.length < SYNC_BATCH_SIZE) break;
+      }
+    }
+    return { posted, failed };
+  }
+
+  async listAccounts(tenantId: string): Promise<GlAccount[]> {
+    await this.ensureChart(tenantId);
+    return db.select().from(glAccounts).where(eq(glAccounts.tenantId, tenantId)).orderBy(asc(glAccounts.code));
+  }
+
+  async createAccount(tenantId: string, input: AccountInput): Promise<GlAccount> {
+    if (!isValidAccountCode(input.code)) throw new AccountingError(400, "Account codes may only contain letters, digits, '.' and '-'");
+    await this.assertParent(tenantId, input.parentId);
+    const [account] = await db.insert(glAccounts).values({ tenantId, ...input }).onConflictDoNothing().returning();
+    if (!account) throw new AccountingError(409, `Account code ${input.code} is already in use`);
+    return account;
+  }
+
+  /**
+   * Accounts with postings keep their type, so past reports do not change
+   * meaning. Accounts are deactivated rather than deleted.
+   */
+  async updateAccount(tenantId: string, id: string, update: AccountUpdate): Promise<GlAccount> {
+    const [account] = await db.select().from(glAccounts).where(and(eq(glAccounts.id, id), eq(glAccounts.tenantId, tenantId)));
+    if (!account) throw new AccountingError(404, "Account not found");
+    if (update.code !== undefined && !isValidAccountCode(update.code)) {
+      throw new AccountingError(400, "Account codes may only contain letters, digits, '.' and '-'");
+    }
+    if (update.parentId === id) throw new AccountingError(400, "An account cannot be its own parent");
+    await this.assertParent(tenantId, update.parentId);
+    if (update.accountType && update.accountType !== account.accountType) {
+      const [used] = await db.select({ id: glJournalLines.id }).from(glJournalLines).where(eq(glJournalLines.accountId, id)).limit(1);
+      if (used) throw new AccountingError(409, "Accounts with postings cannot change type");
+    }
+    if (update.code && update.code !== account.code) {
+      const [taken] = await db.select({ id: glAccounts.id }).from(glAccounts)
+        .where(and(eq(glAccounts.tenantId, tenantId), eq(glAccounts.code, update.code)));
+      if (taken) throw new AccountingError(409, `Account code ${update.code} is already in use`);
+    }
+
+    const [updated] = await db.update(glAccounts)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(glAccounts.id, id))
+      .returning();
+    return updated;
+  }
+
+  private async assertParent(tenantId: string, parentId: string | null | undefined): Promise<void> {
+    if (!parentId) return;
+    const [parent] = await db.select({ id: glAccounts.id }).from(glAccounts)
+      .where(and(eq(glAccounts.id, parentId), eq(glAccounts.tenantId, tenantId)));
+    if (!parent) throw new AccountingError(400, "Parent account not found");
+  }
+
+  async createJournal(tenantId: string, input: ManualJournalInput, userId?: string): Promise<GlJournalEntry & { lines: GlJournalLine[] }> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      assertPeriodOpen(await loadPeriods(tx, tenantId), input.entryDate);
+      return writeEntry(tx, tenantId, {
+        entryDate: input.entryDate,
+        description: input.description,
+        sourceType: "manual",
+        sourceId: null,
+        lines: input.lines,
+      }, { currency: await functionalCurrency(tx, tenantId), createdBy: userId });
+    });
+  }
+
+  async listJournals(tenantId: string, filters: JournalFilters): Promise<{ data: GlJournalEntry[]; total: number }> {
+    const conditions: SQL[] = [eq(glJournalEntries.tenantId, tenantId)];
+    if (filters.sourceType) conditions.push(eq(glJournalEntries.sourceType, filters.sourceType));
+    if (filters.from) conditions.push(gte(glJournalEntries.entryDate, filters.from));
+    if (filters.to) conditions.push(lte(glJournalEntries.entryDate, filters.to));
+    if (filters.accountId) {
+      conditions.push(sql`exists (select 1 from ${glJournalLines} where ${glJournalLines.entryId} = ${glJournalEntries.id} and ${glJournalLines.accountId} = ${filters.accountId})`);
+    }
+
+    const [data, [{ count }]] = await Promise.all([
+      db.select()
+        .from(glJournalEntries)
+        .where(and(...conditions))
+        .orderBy(desc(glJournalEntries.entryDate), desc(glJournalEntries.entryNumber))
+        .limit(filters.limit)
+        .offset((filters.page - 1) * filters.limit),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(glJournalEntries)
+        .where(and(...conditions)),
+    ]);
+    return { data, total: count };
+  }
+
+  async getJournal(tenantId: string, id: string): Promise<GlJournalEntry & { lines: Array<GlJournalLine & { accountCode: string; accountName: string }> }> {
+    const [entry] = await db.select().from(glJournalEntries)
+      .where(and(eq(glJournalEntries.id, id), eq(glJournalEntries.tenantId, tenantId)));
+    if (!entry) throw new AccountingError(404, "Journal entry not found");
+
+    const rows = await db.select({ line: glJournalLines, accountCode: glAccounts.code, accountName: glAccounts.name })
+      .from(glJournalLines)
+      .innerJoin(glAccounts, eq(glAccounts.id, glJournalLines.accountId))
+      .where(eq(glJournalLines.entryId, id))
+      .orderBy(asc(glJournalLines.lineNo));
+    return { ...entry, lines: rows.map((row) => ({ ...row.line, accountCode: row.accountCode, accountName: row.accountName })) };
+  }
+
+  /**
+   * Reverses an entry with a mirror entry dated in an open period; the
+   * original stays in place, marked reversed.
+   */
+  async reverseJournal(tenantId: string, id: string, input: { entryDate?: string; reason?: string }, userId?: string): Promise<GlJournalEntry & { lines: GlJournalLine[] }> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      const [original] = await tx.select().from(glJournalEntries)
+        .where(and(eq(glJournalEntries.id, id), eq(glJournalEntries.tenantId, tenantId)));
+      if (!original) throw new AccountingError(404, "Journal entry not found");
+      if (original.status === "reversed") throw new AccountingError(409, `Entry ${original.entryNumber} is already reversed`);
+      if (original.reversalOfId) throw new AccountingError(409, "Reversal entries cannot be reversed");
+
+      const entryDate = input.entryDate ?? today();
+      assertPeriodOpen(await loadPeriods(tx, tenantId), entryDate);
+
+      const lines = await tx.select().from(glJournalLines).where(eq(glJournalLines.entryId, id)).orderBy(asc(glJournalLines.lineNo));
+      const reversal = await writeEntry(tx, tenantId, {
+        entryDate,
+        description: input.reason ? `Reversal of #${original.entryNumber}: ${input.reason}` : `Reversal of #${original.entryNumber}`,
+        sourceType: "reversal",
+        sourceId: original.id,
+        lines: reversedLines(lines.map((line) => ({
+          accountId: line.accountId,
+          debit: parseFloat(line.debit),
+          credit: parseFloat(line.credit),
+          description: line.description ?? undefined,
+        }))),
+      }, { currency: original.currency, reversalOfId: original.id, createdBy: userId });
+
+      await tx.update(glJournalEntries).set({ status: "reversed" }).where(eq(glJournalEntries.id, original.id));
+      return reversal;
+    });
+  }
+
+  async getTrialBalance(tenantId: string, asOf: string): Promise<TrialBalance> {
+    return trialBalance(await accountTotals(tenantId, { to: asOf }), asOf);
+  }
+
+  async getProfitAndLoss(tenantId: string, from: string, to: string): Promise<ProfitAndLoss> {
+    if (to < from) throw new AccountingError(400, "The report ends before it starts");
+    return profitAndLoss(await accountTotals(tenantId, { from, to }), from, to);
+  }
+
+  async getBalanceSheet(tenantId: string, asOf: string): Promise<BalanceSheet> {
+    return balanceSheet(await accountTotals(tenantId, { to: asOf }), asOf);
+  }
+
+  async listPeriods(tenantId: string): Promise<GlPeriod[]> {
+    return loadPeriods(db, tenantId);
+  }
+
+  async createPeriod(tenantId: string, input: { name: string; periodStart: string; periodEnd: string }): Promise<GlPeriod> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      validatePeriod(input, await loadPeriods(tx, tenantId));
+      const [period] = await tx.insert(glPeriods).values({ tenantId, ...input }).returning();
+      return period;
+    });
+  }
+
+  async closePeriod(tenantId: string, id: string, userId?: string): Promise<GlPeriod> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      const period = await findPeriod(tx, tenantId, id);
+      assertCanClose(period, await loadPeriods(tx, tenantId));
+      const [closed] = await tx.update(glPeriods)
+        .set({ status: "closed", closedAt: new Date(), closedBy: userId, updatedAt: new Date() })
+        .where(eq(glPeriods.id, id))
+        .returning();
+      return closed;
+    });
+  }
+
+  async reopenPeriod(tenantId: string, id: string): Promise<GlPeriod> {
+    return db.transaction(async (tx) => {
+      await lockJournal(tx, tenantId);
+      const period = await findPeriod(tx, tenantId, id);
+      assertCanReopen(period, await loadPeriods(tx, tenantId));
+      const [reopened] = await tx.update(glPeriods)
+        .set({ status: "open", closedAt: null, closedBy: null, updatedAt: new Date() })
+        .where(eq(glPeriods.id, id))
+        .returning();
+      return reopened;
+    });
+  }
+
+  async lockPeriod(tenantId: string, id: string, userId?: string): Promise<GlPeriod> {
+    return db.transaction(async (tx) => {
+      const period = await findPeriod(tx, tenantId, id);
+      assertCanLock(period);
+      const [locked] = await tx.update(glPeriods)
+        .set({ status: "locked", lockedAt: new Date(), lockedBy: userId, updatedAt: new Date() })
+        .where(eq(glPeriods.id, id))
+        .returning();
+      return locked;
+    });
+  }
+}
+
+export const accountingService = new AccountingService();
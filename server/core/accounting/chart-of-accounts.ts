@@ -0,0 +1,67 @@
+/**
+ * The default chart of accounts seeded for each tenant, and the system keys
+ * automatic postings look accounts up by. Tenants may renumber or rename the
+ * seeded accounts; the system key follows the account.
+ */
+
+import type { GlAccount } from "@shared/schema";
+
+export const GL_ACCOUNT_TYPES = ["asset", "liability", "equity", "income", "expense"] as const;
+export type GlAccountType = typeof GL_ACCOUNT_TYPES[number];
+
+export const GL_SYSTEM_KEYS = [
+  "cash",
+  "accounts_receivable",
+  "inventory",
+  "accounts_payable",
+  "tax_payable",
+  "payroll_liabilities",
+  "owner_equity",
+  "retained_earnings",
+  "sales",
+  "commission_income",
+  "cost_of_goods_sold",
+  "salaries",
+  "inventory_adjustments",
+] as const;
+export type GlSystemKey = typeof GL_SYSTEM_KEYS[number];
+
+export interface DefaultAccount {
+  code: string;
+  name: string;
+  accountType: GlAccountType;
+  systemKey: GlSystemKey;
+}
+
+export const DEFAULT_CHART_OF_ACCOUNTS: DefaultAccount[] = [
+  { code: "1000", name: "Cash and Bank", accountType: "asset", systemKey: "cash" },
+  { code: "1100", name: "Accounts Receivable", accountType: "asset", systemKey: "accounts_receivable" },
+  { code: "1200", name: "Inventory", accountType: "asset", systemKey: "inventory" },
+  { code: "2000", name: "Accounts Payable", accountType: "liability", systemKey: "accounts_payable" },
+  { code: "2100", name: "Tax Payable", accountType: "liability", systemKey: "tax_payable" },
+  { code: "2200", name: "Payroll Deductions Payable", accountType: "liability", systemKey: "payroll_liabilities" },
+  { code: "3000", name: "Owner's Equity", accountType: "equity", systemKey: "owner_equity" },
+  { code: "3900", name: "Retained Earnings", accountType: "equity", systemKey: "retained_earnings" },
+  { code: "4000", name: "Sales Revenue", accountType: "income", systemKey: "sales" },
+  { code: "4100", name: "Commission Income", accountType: "income", systemKey: "commission_income" },
+  { code: "5000", name: "Cost of Goods Sold", accountType: "expense", systemKey: "cost_of_goods_sold" },
+  { code: "5100", name: "Salaries and Wages", accountType: "expense", systemKey: "salaries" },
+  { code: "5200", name: "Inventory Adjustments", accountType: "expense", systemKey: "inventory_adjustments" },
+];
+
+// Assets and expenses grow with debits; liabilities, equity and income with credits
+export function isDebitNormal(accountType: GlAccountType): boolean {
+  return accountType === "asset" || accountType === "expense";
+}
+
+/**
+ * Balance of an account on its normal side, so a healthy asset or income
+ * account is positive.
+ */
+export function normalBalance(account: Pick<GlAccount, "accountType">, debit: number, credit: number): number {
+  return isDebitNormal(account.accountType) ? debit - credit : credit - debit;
+}
+
+export function isValidAccountCode(code: string): boolean {
+  return /^[0-9A-Za-z.-]{1,20}$/.test(code);
+}
@@ -0,0 +1,19 @@
+/**
+ * General Ledger
+ *
+ * Per-tenant double-entry accounting:
+ * - Chart of accounts seeded with defaults, editable per tenant
+ * - Journals posted automatically from payments, payroll, stock movements
+ *   and real estate commissions, plus manual journals and reversals
+ * - Trial balance, profit and loss and balance sheet
+ * - Accounting periods that close in order and can be locked for good
+ *
+ * @module server/core/accounting
+ */
+
+export * from "./chart-of-accounts";
+export * from "./journal";
+export * from "./posting-rules";
+export * from "./reports";
+export { accountingService } from "./accounting-service";
+export { accountingRouter } from "./accounting-routes";
@@ -0,0 +1,119 @@
+/**
+ * Journal entry validation and accounting period rules. Entries must balance
+ * and may only be dated in open periods.
+ */
+
+import type { GlPeriod } from "@shared/schema";
+import type { GlSystemKey } from "./chart-of-accounts";
+import { round2 } from "../../utils/money";
+import { addDays } from "../../utils/time-of-day";
+
+export interface JournalLineDraft {
+  // Manual lines name an account; automatic postings use a system key
+  accountId?: string;
+  systemKey?: GlSystemKey;
+  debit: number;
+  credit: number;
+  description?: string;
+}
+
+export interface JournalDraft {
+  entryDate: string;
+  description: string;
+  sourceType: string;
+  sourceId: string | null;
+  lines: JournalLineDraft[];
+}
+
+export type PeriodBounds = Pick<GlPeriod, "name" | "periodStart" | "periodEnd" | "status">;
+
+export class AccountingError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "AccountingError";
+  }
+}
+
+/**
+ * Drops zero lines and checks what is left: every line is a debit or a
+ * credit, never both, and the two sides agree to the cent.
+ */
+export function balancedLines(lines: JournalLineDraft[]): JournalLineDraft[] {
+  const kept = lines
+    .map((line) => ({ ...line, debit: round2(line.debit), credit: round2(line.credit) }))
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+
+  for (const line of kept) {
+    if (!line.accountId && !line.systemKey) throw new AccountingError(400, "Every journal line needs an account");
+    if (line.debit < 0 || line.credit < 0) throw new AccountingError(400, "Debits and credits cannot be negative");
+    if (line.debit > 0 && line.credit > 0) throw new AccountingError(400, "A journal line is either a debit or a credit");
+  }
+  if (kept.length < 2) throw new AccountingError(400, "A journal entry needs at least two lines");
+
+  const debits = round2(kept.reduce((sum, line) => sum + line.debit, 0));
+  const credits = round2(kept.reduce((sum, line) => sum + line.credit, 0));
+  if (debits !== credits) {
+    throw new AccountingError(400, `Journal does not balance: debits ${debits.toFixed(2)}, credits ${credits.toFixed(2)}`);
+  }
+  return kept;
+}
+
+/**
+ * The lines of an entry with debits and credits swapped, for reversals.
+ */
+export function reversedLines<T extends { debit: number; credit: number }>(lines: T[]): T[] {
+  return lines.map((line) => ({ ...line, debit: line.credit, credit: line.debit }));
+}
+
+export function periodFor<T extends PeriodBounds>(periods: T[], date: string): T | undefined {
+  return periods.find((period) => date >= period.periodStart && date <= period.periodEnd);
+}
+
+export function assertPeriodOpen(periods: PeriodBounds[], date: string): void {
+  const period = periodFor(periods, date);
+  if (period && period.status !== "open") {
+    throw new AccountingError(409, `${date} falls in ${period.name}, which is ${period.status}`);
+  }
+}
+
+/**
+ * Where an automatic posting lands: its own date when that period is open,
+ * otherwise the first day after the closed periods it falls in.
+ */
+export function openPostingDate(periods: PeriodBounds[], date: string): string {
+  let postingDate = date;
+  for (let period = periodFor(periods, postingDate); period && period.status !== "open"; period = periodFor(periods, postingDate)) {
+    postingDate = addDays(period.periodEnd, 1);
+  }
+  return postingDate;
+}
+
+export function validatePeriod(period: { periodStart: string; periodEnd: string }, existing: Array<{ name: string; periodStart: string; periodEnd: string }>): void {
+  if (period.periodEnd < period.periodStart) throw new AccountingError(400, "Period end is before its start");
+  const overlapping = existing.find((other) => period.periodStart <= other.periodEnd && period.periodEnd >= other.periodStart);
+  if (overlapping) throw new AccountingError(409, `Period overlaps ${overlapping.name}`);
+}
+
+/**
+ * Periods close in order: an earlier period still open blocks closing a later one.
+ */
+export function assertCanClose(period: PeriodBounds, periods: PeriodBounds[]): void {
+  if (period.status !== "open") throw new AccountingError(409, `${period.name} is already ${period.status}`);
+  const earlierOpen = periods.find((other) => other.periodEnd < period.periodStart && other.status === "open");
+  if (earlierOpen) throw new AccountingError(409, `Close ${earlierOpen.name} first`);
+}
+
+/**
+ * Reopening runs the other way: a later closed period has to be reopened
+ * first. Locked periods stay locked.
+ */
+export function assertCanReopen(period: PeriodBounds, periods: PeriodBounds[]): void {
+  if (period.status === "locked") throw new AccountingError(409, `${period.name} is locked and cannot be reopened`);
+  if (period.status !== "closed") throw new AccountingError(409, `${period.name} is not closed`);
+  const laterClosed = periods.find((other) => other.periodStart > period.periodEnd && other.status !== "open");
+  if (laterClosed) throw new AccountingError(409, `${laterClosed.name} is ${laterClosed.status}; reopen it first`);
+}
+
+export function assertCanLock(period: PeriodBounds): void {
+  if (period.status !== "closed") throw new AccountingError(409, `Close ${period.name} before locking it`);
+}
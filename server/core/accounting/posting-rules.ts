@@ -0,0 +1,212 @@
+/**
+ * How module records become journal entries. Postings are on a cash basis in
+ * the tenant's currency: money received or paid out is what moves the books.
+ * A null draft means the record has nothing to post yet.
+ */
+
+import type {
+  Payment,
+  Invoice,
+  FurnitureInvoice,
+  FurnitureInvoicePayment,
+  HrPayRun,
+  InventoryItem,
+  InventoryTransaction,
+  RealEstateCommission,
+} from "@shared/schema";
+import { AccountingError, type JournalDraft, type JournalLineDraft } from "./journal";
+import type { GlSystemKey } from "./chart-of-accounts";
+import { amount, round2 } from "../../utils/money";
+import { isoDate, today } from "../../utils/time-of-day";
+
+export const GL_SOURCE_TYPES = [
+  "payment",
+  "payment_refund",
+  "furniture_payment",
+  "pay_run",
+  "inventory_transaction",
+  "commission",
+] as const;
+export type GlSourceType = typeof GL_SOURCE_TYPES[number];
+
+// Statuses of core payments where the money has arrived
+const RECEIVED_PAYMENT_STATUSES = ["paid", "partial", "refunded"];
+
+function debit(systemKey: GlSystemKey, value: number, description?: string): JournalLineDraft {
+  return { systemKey, debit: value, credit: 0, description };
+}
+
+function credit(systemKey: GlSystemKey, value: number, description?: string): JournalLineDraft {
+  return { systemKey, debit: 0, credit: value, description };
+}
+
+/**
+ * An amount in the tenant's currency: as recorded when the record is already
+ * in it, otherwise through the record's base currency amount or rate.
+ */
+export function toFunctional(
+  value: number,
+  currency: string | null,
+  functionalCurrency: string,
+  base: { currency: string | null; amount?: number | null; rate?: number | null } = { currency: null },
+): number {
+  if (!currency || currency === functionalCurrency) return round2(value);
+  if (base.currency === functionalCurrency) {
+    if (base.amount != null) return round2(base.amount);
+    if (base.rate) return round2(value * base.rate);
+  }
+  throw new AccountingError(422, `Cannot convert ${currency} to ${functionalCurrency}: no exchange rate recorded`);
+}
+
+// The part of a receipt that is tax, in the proportion the invoice carried it
+export function taxShare(received: number, invoiceTotal: number, invoiceTax: number): number {
+  if (invoiceTotal <= 0 || invoiceTax <= 0) return 0;
+  return round2(received * invoiceTax / invoiceTotal);
+}
+
+function receiptLines(received: number, tax: number, incomeKey: GlSystemKey, memo: string): JournalLineDraft[] {
+  return [
+    debit("cash", received, memo),
+    credit(incomeKey, round2(received - tax), memo),
+    credit("tax_payable", tax, memo),
+  ];
+}
+
+type CoreInvoiceAmounts = Pick<Invoice, "invoiceNumber" | "totalAmount" | "taxAmount">;
+
+function corePaymentAmount(payment: Payment, functionalCurrency: string): number {
+  return toFunctional(amount(payment.amount), payment.currency, functionalCurrency, {
+    currency: payment.baseCurrency,
+    amount: payment.baseAmount ? amount(payment.baseAmount) : null,
+    rate: payment.exchangeRate ? amount(payment.exchangeRate) : null,
+  });
+}
+
+export function journalFromPayment(payment: Payment, invoice: CoreInvoiceAmounts | null, functionalCurrency: string): JournalDraft | null {
+  if (!RECEIVED_PAYMENT_STATUSES.includes(payment.status ?? "pending")) return null;
+  const received = corePaymentAmount(payment, functionalCurrency);
+  const tax = invoice ? taxShare(received, amount(invoice.totalAmount), amount(invoice.taxAmount)) : 0;
+  const memo = invoice ? `Payment for ${invoice.invoiceNumber}` : "Payment received";
+  return {
+    entryDate: isoDate(payment.paidAt ?? payment.createdAt) ?? today(),
+    description: memo,
+    sourceType: "payment",
+    sourceId: payment.id,
+    lines: receiptLines(received, tax, "sales", memo),
+  };
+}
+
+/**
+ * Refunds reverse the receipt in proportion, at the rate the payment was
+ * received at.
+ */
+export function journalFromPaymentRefund(payment: Payment, invoice: CoreInvoiceAmounts | null, functionalCurrency: string): JournalDraft | null {
+  const refunded = amount(payment.refundAmount);
+  const paid = amount(payment.amount);
+  if (refunded <= 0 || paid <= 0) return null;
+  const value = round2(corePaymentAmount(payment, functionalCurrency) * refunded / paid);
+  const tax = invoice ? taxShare(value, amount(invoice.totalAmount), amount(invoice.taxAmount)) : 0;
+  const memo = invoice ? `Refund on ${invoice.invoiceNumber}` : "Payment refunded";
+  return {
+    entryDate: isoDate(payment.refundedAt) ?? today(),
+    description: memo,
+    sourceType: "payment_refund",
+    sourceId: payment.id,
+    lines: [
+      debit("sales", round2(value - tax), memo),
+      debit("tax_payable", tax, memo),
+      credit("cash", value, memo),
+    ],
+  };
+}
+
+type FurnitureInvoiceAmounts = Pick<FurnitureInvoice,
+  "invoiceNumber" | "currency" | "baseCurrency" | "exchangeRate" | "totalAmount" | "taxAmount">;
+
+export function journalFromFurniturePayment(
+  payment: FurnitureInvoicePayment,
+  invoice: FurnitureInvoiceAmounts,
+  functionalCurrency: string,
+): JournalDraft | null {
+  if (payment.status !== "completed") return null;
+  // Payments taken in another currency record their value in the invoice currency
+  const invoiceAmount = payment.invoiceAmount ? amount(payment.invoiceAmount) : amount(payment.amount);
+  const received = payment.currency === functionalCurrency
+    ? round2(amount(payment.amount))
+    : toFunctional(invoiceAmount, invoice.currency, functionalCurrency, {
+      currency: invoice.baseCurrency,
+      rate: amount(invoice.exchangeRate),
+    });
+  const tax = taxShare(received, amount(invoice.totalAmount), amount(invoice.taxAmount));
+  const memo = `Payment for ${invoice.invoiceNumber}`;
+  return {
+    entryDate: isoDate(payment.paymentDate) ?? today(),
+    description: memo,
+    sourceType: "furniture_payment",
+    sourceId: payment.id,
+    lines: receiptLines(received, tax, "sales", memo),
+  };
+}
+
+/**
+ * Gross pay is the expense; net pay leaves the bank and deductions are held
+ * until they are paid over to the authorities.
+ */
+export function journalFromPayRun(payRun: HrPayRun): JournalDraft | null {
+  if (payRun.status !== "paid") return null;
+  const period = `${payRun.year}-${String(payRun.month).padStart(2, "0")}`;
+  const memo = `Payroll ${period}`;
+  return {
+    entryDate: isoDate(payRun.paidAt ?? payRun.updatedAt) ?? today(),
+    description: memo,
+    sourceType: "pay_run",
+    sourceId: payRun.id,
+    lines: [
+      debit("salaries", amount(payRun.totalGross), memo),
+      credit("payroll_liabilities", amount(payRun.totalDeductions), memo),
+      credit("cash", amount(payRun.totalNet), memo),
+    ],
+  };
+}
+
+/**
+ * Stock movements valued at the item's cost price. Sales go to cost of goods
+ * sold, other removals to adjustments; items without a cost price have
+ * nothing to post.
+ */
+export function journalFromInventoryTransaction(
+  transaction: InventoryTransaction,
+  item: Pick<InventoryItem, "name" | "costPrice">,
+): JournalDraft | null {
+  const change = transaction.newStock - transaction.previousStock;
+  const value = round2(Math.abs(change) * amount(item.costPrice));
+  if (value === 0) return null;
+
+  const memo = `Stock ${change > 0 ? "added to" : "removed from"} ${item.name}`;
+  const expenseKey: GlSystemKey = transaction.type === "sale" ? "cost_of_goods_sold" : "inventory_adjustments";
+  return {
+    entryDate: isoDate(transaction.createdAt) ?? today(),
+    description: memo,
+    sourceType: "inventory_transaction",
+    sourceId: transaction.id,
+    lines: change > 0
+      ? [debit("inventory", value, memo), credit("inventory_adjustments", value, memo)]
+      : [debit(expenseKey, value, memo), credit("inventory", value, memo)],
+  };
+}
+
+export function journalFromCommission(commission: RealEstateCommission, functionalCurrency: string): JournalDraft | null {
+  if (commission.status !== "paid") return null;
+  const billed = amount(commission.netAmount);
+  const paid = amount(commission.paidAmount);
+  const received = toFunctional(paid > 0 ? paid : billed, commission.currency, functionalCurrency);
+  const tax = taxShare(received, billed, amount(commission.taxAmount));
+  const memo = `Commission ${commission.commissionNumber ?? ""}`.trim();
+  return {
+    entryDate: isoDate(commission.paidDate ?? commission.updatedAt) ?? today(),
+    description: memo,
+    sourceType: "commission",
+    sourceId: commission.id,
+    lines: receiptLines(received, tax, "commission_income", memo),
+  };
+}
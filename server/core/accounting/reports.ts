@@ -0,0 +1,143 @@
+/**
+ * Trial balance, profit and loss and balance sheet built from per-account
+ * debit and credit totals.
+ */
+
+import { normalBalance, type GlAccountType } from "./chart-of-accounts";
+import { round2 } from "../../utils/money";
+
+export interface AccountTotals {
+  accountId: string;
+  code: string;
+  name: string;
+  accountType: GlAccountType;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceLine {
+  accountId: string;
+  code: string;
+  name: string;
+  accountType: GlAccountType;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string;
+  lines: TrialBalanceLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+export interface ReportLine {
+  accountId: string | null;
+  code: string | null;
+  name: string;
+  amount: number;
+}
+
+export interface ProfitAndLoss {
+  from: string;
+  to: string;
+  income: ReportLine[];
+  expenses: ReportLine[];
+  totalIncome: number;
+  totalExpenses: number;
+  netProfit: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  assets: ReportLine[];
+  liabilities: ReportLine[];
+  equity: ReportLine[];
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  balanced: boolean;
+}
+
+function byCode(a: { code: string }, b: { code: string }): number {
+  return a.code.localeCompare(b.code, undefined, { numeric: true });
+}
+
+function reportLines(accounts: AccountTotals[], accountType: GlAccountType): ReportLine[] {
+  return accounts
+    .filter((account) => account.accountType === accountType)
+    .sort(byCode)
+    .map((account) => ({
+      accountId: account.accountId,
+      code: account.code,
+      name: account.name,
+      amount: round2(normalBalance(account, account.debit, account.credit)),
+    }))
+    .filter((line) => line.amount !== 0);
+}
+
+function total(lines: ReportLine[]): number {
+  return round2(lines.reduce((sum, line) => sum + line.amount, 0));
+}
+
+/**
+ * Each account's net balance on the side it falls, so the two columns must
+ * agree when every entry balanced.
+ */
+export function trialBalance(accounts: AccountTotals[], asOf: string): TrialBalance {
+  const lines = [...accounts]
+    .sort(byCode)
+    .map((account) => {
+      const net = round2(account.debit - account.credit);
+      return {
+        accountId: account.accountId,
+        code: account.code,
+        name: account.name,
+        accountType: account.accountType,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      };
+    })
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+
+  const totalDebit = round2(lines.reduce((sum, line) => sum + line.debit, 0));
+  const totalCredit = round2(lines.reduce((sum, line) => sum + line.credit, 0));
+  return { asOf, lines, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+}
+
+// Totals here cover only entries dated within the reporting range
+export function profitAndLoss(accounts: AccountTotals[], from: string, to: string): ProfitAndLoss {
+  const income = reportLines(accounts, "income");
+  const expenses = reportLines(accounts, "expense");
+  const totalIncome = total(income);
+  const totalExpenses = total(expenses);
+  return { from, to, income, expenses, totalIncome, totalExpenses, netProfit: round2(totalIncome - totalExpenses) };
+}
+
+/**
+ * Position at a date from all entries up to it. Income and expenses are not
+ * closed into retained earnings by an entry, so their net shows as current
+ * earnings within equity.
+ */
+export function balanceSheet(accounts: AccountTotals[], asOf: string): BalanceSheet {
+  const assets = reportLines(accounts, "asset");
+  const liabilities = reportLines(accounts, "liability");
+  const equity = reportLines(accounts, "equity");
+  const earnings = round2(total(reportLines(accounts, "income")) - total(reportLines(accounts, "expense")));
+  if (earnings !== 0) equity.push({ accountId: null, code: null, name: "Current Earnings", amount: earnings });
+
+  const totalAssets = total(assets);
+  const totalLiabilities = total(liabilities);
+  const totalEquity = total(equity);
+  return {
+    asOf,
+    assets,
+    liabilities,
+    equity,
+    totalAssets,
+    totalLiabilities,
+    totalEquity,
+    balanced: totalAssets === round2(totalLiabilities + totalEquity),
+  };
+}
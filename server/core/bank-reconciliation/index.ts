@@ -0,0 +1,16 @@
+/**
+ * Bank Reconciliation
+ *
+ * Matches bank statements against recorded payments:
+ * - CSV, OFX, MT940 and camt.053 statement import with duplicate detection
+ * - Tenant rules, then scoring on amount, reference, date and party name
+ * - Manual matching with suggestions, unmatching and exclusions
+ * - Unreconciled bank lines and payments report
+ *
+ * @module server/core/bank-reconciliation
+ */
+
+export * from "./statement-parsers";
+export * from "./matching";
+export { bankReconciliationService } from "./reconciliation-service";
+export { bankReconciliationRouter } from "./reconciliation-routes";
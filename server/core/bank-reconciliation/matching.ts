@@ -0,0 +1,287 @@
+/**
+ * Matching bank lines to recorded payments. Tenant rules run first and can
+ * exclude a line or narrow where its match is looked for; the rest are scored
+ * on amount, reference, date and party name, and only clear winners are
+ * matched automatically.
+ */
+
+import type { BankReconciliationRule } from "@shared/schema";
+import { BankReconciliationError } from "./statement-parsers";
+import { round2 } from "../../utils/money";
+import { daysBetween } from "../../utils/time-of-day";
+
+export const MATCH_SOURCE_TYPES = ["payment", "billing_payment", "furniture_payment"] as const;
+export type MatchSourceType = typeof MATCH_SOURCE_TYPES[number];
+
+export const RULE_FIELDS = ["description", "reference", "counterparty"] as const;
+export const RULE_DIRECTIONS = ["in", "out", "any"] as const;
+export const RULE_ACTIONS = ["exclude", "match_source"] as const;
+
+export const AUTO_MATCH_THRESHOLD = 75;
+// A line is only auto-matched when its best candidate leads the next by this much
+export const AUTO_MATCH_MARGIN = 10;
+export const DEFAULT_DATE_WINDOW_DAYS = 7;
+
+// Money the tenant received is positive, money it paid out negative, as on the statement
+export interface MatchCandidate {
+  sourceType: MatchSourceType;
+  sourceId: string;
+  amount: number;
+  currency: string | null;
+  date: string;
+  references: string[];
+  partyName: string | null;
+  label: string;
+}
+
+export interface MatchableLine {
+  id: string;
+  bookingDate: string;
+  amount: number;
+  currency: string | null;
+  description: string | null;
+  reference: string | null;
+  counterparty: string | null;
+  bankReference: string | null;
+}
+
+export type MatchRule = Pick<BankReconciliationRule,
+  "id" | "name" | "priority" | "field" | "pattern" | "direction" | "minAmount" | "maxAmount" | "action" | "sourceType" | "isActive">;
+
+export interface ScoredCandidate {
+  candidate: MatchCandidate;
+  score: number;
+  reasons: string[];
+}
+
+export interface MatchOptions {
+  dateWindowDays?: number;
+  // Relative amount difference still offered as a suggestion, e.g. 0.05 for 5%
+  amountTolerance?: number;
+}
+
+export interface AutoMatchResult {
+  matches: Array<{ lineId: string; sourceType: MatchSourceType; sourceId: string; score: number; method: "rule" | "auto"; ruleId: string | null }>;
+  exclusions: Array<{ lineId: string; ruleId: string; note: string | null }>;
+}
+
+export function normalizeReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function words(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 1);
+}
+
+/**
+ * Dice similarity of letter pairs, which tolerates the truncation and
+ * reordering bank narrations apply to names.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const pairs = (value: string): string[] => {
+    const result: string[] = [];
+    for (const word of words(value)) {
+      for (let i = 0; i < word.length - 1; i++) result.push(word.slice(i, i + 2));
+    }
+    return result;
+  };
+  const left = pairs(a);
+  const right = pairs(b);
+  if (!left.length || !right.length) return 0;
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared += 1;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+// Patterns wrapped in slashes are regular expressions; anything else is a case-insensitive substring
+export function validateRulePattern(pattern: string): void {
+  if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+    try {
+      new RegExp(pattern.slice(1, -1), "i");
+    } catch {
+      throw new BankReconciliationError(400, "The rule pattern is not a valid regular expression");
+    }
+  }
+}
+
+export function ruleMatches(rule: MatchRule, line: MatchableLine): boolean {
+  if (!rule.isActive) return false;
+  if (rule.direction === "in" && line.amount < 0) return false;
+  if (rule.direction === "out" && line.amount > 0) return false;
+  const magnitude = Math.abs(line.amount);
+  if (rule.minAmount !== null && magnitude < parseFloat(rule.minAmount)) return false;
+  if (rule.maxAmount !== null && magnitude > parseFloat(rule.maxAmount)) return false;
+
+  const text = (rule.field === "reference" ? [line.reference, line.bankReference].filter(Boolean).join(" ")
+    : rule.field === "counterparty" ? line.counterparty
+    : line.description) ?? "";
+  if (rule.pattern.length > 2 && rule.pattern.startsWith("/") && rule.pattern.endsWith("/")) {
+    return new RegExp(rule.pattern.slice(1, -1), "i").test(text);
+  }
+  return text.toLowerCase().includes(rule.pattern.toLowerCase());
+}
+
+export function firstMatchingRule(rules: MatchRule[], line: MatchableLine): MatchRule | undefined {
+  return [...rules].sort((a, b) => a.priority - b.priority).find((rule) => ruleMatches(rule, line));
+}
+
+/**
+ * Scores a candidate out of 100, or null when it cannot be the match:
+ * another currency, outside the date window, or an amount too far off.
+ */
+export function scoreCandidate(line: MatchableLine, candidate: MatchCandidate, options: MatchOptions = {}): ScoredCandidate | null {
+  const window = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  if (line.currency && candidate.currency && line.currency !== candidate.currency) return null;
+  if (Math.sign(line.amount) !== Math.sign(candidate.amount)) return null;
+
+  const days = Math.abs(daysBetween(line.bookingDate, candidate.date));
+  if (days > window) return null;
+
+  const reasons: string[] = [];
+  let score = 0;
+  const difference = Math.abs(line.amount - candidate.amount);
+  if (difference < 0.005) {
+    score += 50;
+    reasons.push("amount");
+  } else {
+    const tolerance = (options.amountTolerance ?? 0) * Math.abs(line.amount);
+    if (difference > tolerance) return null;
+    score += Math.round(30 * (1 - difference / tolerance));
+    reasons.push("approximate amount");
+  }
+
+  const lineText = normalizeReference([line.reference, line.bankReference, line.description].filter(Boolean).join(" "));
+  if (candidate.references.some((reference) => {
+    const normalized = normalizeReference(reference);
+    return normalized.length >= 4 && lineText.includes(normalized);
+  })) {
+    score += 35;
+    reasons.push("reference");
+  }
+
+  score += Math.round(10 * (1 - days / (window + 1)));
+  if (days === 0) reasons.push("same day");
+
+  const lineParty = line.counterparty ?? line.description;
+  if (candidate.partyName && lineParty) {
+    const similarity = nameSimilarity(candidate.partyName, lineParty);
+    if (similarity >= 0.4) {
+      score += Math.round(15 * similarity);
+      reasons.push("name");
+    }
+  }
+
+  return { candidate, score: Math.min(score, 100), reasons };
+}
+
+export function suggestMatches(line: MatchableLine, candidates: MatchCandidate[], options: MatchOptions = {}, limit = 10): ScoredCandidate[] {
+  return candidates
+    .map((candidate) => scoreCandidate(line, candidate, { amountTolerance: 0.05, ...options }))
+    .filter((scored): scored is ScoredCandidate => scored !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Matches lines to candidates one to one. A candidate that is the only one
+ * with the line's exact amount in the window earns a bonus, so a plain
+ * same-day receipt can still match without a reference.
+ */
+export function autoMatch(lines: MatchableLine[], candidates: MatchCandidate[], rules: MatchRule[], options: MatchOptions = {}): AutoMatchResult {
+  const result: AutoMatchResult = { matches: [], exclusions: [] };
+  const proposals: Array<{ line: MatchableLine; scored: ScoredCandidate; ruleId: string | null }> = [];
+
+  for (const line of lines) {
+    const rule = firstMatchingRule(rules, line);
+    if (rule?.action === "exclude") {
+      result.exclusions.push({ lineId: line.id, ruleId: rule.id, note: rule.name });
+      continue;
+    }
+    const pool = rule?.action === "match_source" && rule.sourceType
+      ? candidates.filter((candidate) => candidate.sourceType === rule.sourceType)
+      : candidates;
+
+    const scored = pool
+      .map((candidate) => scoreCandidate(line, candidate, { ...options, amountTolerance: 0 }))
+      .filter((entry): entry is ScoredCandidate => entry !== null);
+    if (scored.length === 1) {
+      scored[0] = { ...scored[0], score: Math.min(scored[0].score + 15, 100), reasons: [...scored[0].reasons, "only candidate"] };
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scored;
+    if (!best || best.score < AUTO_MATCH_THRESHOLD) continue;
+    if (runnerUp && best.score - runnerUp.score < AUTO_MATCH_MARGIN) continue;
+    proposals.push({ line, scored: best, ruleId: rule?.id ?? null });
+  }
+
+  // Strongest proposals claim their candidate first
+  const claimed = new Set<string>();
+  for (const proposal of proposals.sort((a, b) => b.scored.score - a.scored.score)) {
+    const key = `${proposal.scored.candidate.sourceType}:${proposal.scored.candidate.sourceId}`;
+    if (claimed.has(key)) continue;
+    claimed.add(key);
+    result.matches.push({
+      lineId: proposal.line.id,
+      sourceType: proposal.scored.candidate.sourceType,
+      sourceId: proposal.scored.candidate.sourceId,
+      score: proposal.scored.score,
+      method: proposal.ruleId ? "rule" : "auto",
+      ruleId: proposal.ruleId,
+    });
+  }
+  return result;
+}
+
+export interface UnreconciledReport {
+  asOf: string;
+  bankLines: {
+    count: number;
+    moneyIn: number;
+    moneyOut: number;
+    items: Array<MatchableLine & { ageDays: number }>;
+  };
+  records: {
+    count: number;
+    bySourceType: Record<string, { count: number; amount: number }>;
+    items: Array<MatchCandidate & { ageDays: number }>;
+  };
+}
+
+/**
+ * Bank lines with no payment behind them, and payments that never showed up
+ * on a statement, oldest first.
+ */
+export function buildUnreconciledReport(lines: MatchableLine[], records: MatchCandidate[], asOf: string): UnreconciledReport {
+  const bySourceType: Record<string, { count: number; amount: number }> = {};
+  for (const record of records) {
+    const entry = bySourceType[record.sourceType] ??= { count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount = round2(entry.amount + record.amount);
+  }
+  return {
+    asOf,
+    bankLines: {
+      count: lines.length,
+      moneyIn: round2(lines.filter((line) => line.amount > 0).reduce((sum, line) => sum + line.amount, 0)),
+      moneyOut: round2(lines.filter((line) => line.amount < 0).reduce((sum, line) => sum - line.amount, 0)),
+      items: lines
+        .map((line) => ({ ...line, ageDays: daysBetween(line.bookingDate, asOf) }))
+        .sort((a, b) => a.bookingDate.localeCompare(b.bookingDate)),
+    },
+    records: {
+      count: records.length,
+      bySourceType,
+      items: records
+        .map((record) => ({ ...record, ageDays: daysBetween(record.date, asOf) }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    },
+  };
+}
@@ -0,0 +1,368 @@
+import { Router, type Request, type Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { BankReconciliationError, CSV_DATE_FORMATS, CSV_FIELDS, STATEMENT_FORMATS } from "./statement-parsers";
+import { MATCH_SOURCE_TYPES, RULE_ACTIONS, RULE_DIRECTIONS, RULE_FIELDS } from "./matching";
+import { bankReconciliationService } from "./reconciliation-service";
+
+export const bankReconciliationRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+});
+
+// Multipart fields arrive as strings, so column mappings may be sent as JSON text
+const columnsSchema = z.preprocess(
+  (value) => (typeof value === "string" ? JSON.parse(value) : value),
+  z.object(Object.fromEntries(CSV_FIELDS.map((field) => [field, z.string().max(100).optional()]))).optional(),
+);
+
+const importSchema = z.object({
+  content: z.string().min(1).optional(),
+  fileName: z.string().max(255).optional(),
+  format: z.enum(STATEMENT_FORMATS).optional(),
+  dateFormat: z.enum(CSV_DATE_FORMATS).optional(),
+  columns: columnsSchema,
+});
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const autoMatchSchema = z.object({
+  statementId: z.string().optional(),
+  dateWindowDays: z.coerce.number().int().min(0).max(60).optional(),
+});
+
+const matchSchema = z.object({
+  sourceType: z.enum(MATCH_SOURCE_TYPES),
+  sourceId: z.string().min(1),
+  note: z.string().max(1000).optional(),
+});
+
+const excludeSchema = z.object({
+  note: z.string().min(1).max(1000),
+});
+
+const rangeQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+});
+
+const ruleSchema = z.object({
+  name: z.string().min(1).max(100),
+  priority: z.number().int().min(0).max(10000).optional(),
+  field: z.enum(RULE_FIELDS).optional(),
+  pattern: z.string().min(1).max(255),
+  direction: z.enum(RULE_DIRECTIONS).optional(),
+  minAmount: z.number().min(0).nullable().optional(),
+  maxAmount: z.number().min(0).nullable().optional(),
+  action: z.enum(RULE_ACTIONS),
+  sourceType: z.enum(MATCH_SOURCE_TYPES).nullable().optional(),
+  note: z.string().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+function sendReconciliationError(res: Response, error: any) {
+  if (error instanceof BankReconciliationError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+bankReconciliationRouter.post("/statements", ...managerMiddleware, upload.single("file"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = importSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const content = req.file ? req.file.buffer.toString("utf8") : parsed.data.content;
+    if (!content) {
+      return res.status(400).json({ message: "Upload a statement file or send its content" });
+    }
+
+    const { statement, matching } = await bankReconciliationService.importStatement(isolation.getTenantId(), {
+      content,
+      fileName: req.file?.originalname ?? parsed.data.fileName,
+      format: parsed.data.format,
+      csv: { dateFormat: parsed.data.dateFormat, columns: parsed.data.columns },
+    }, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "bank_statement",
+      resourceId: statement.id,
+      metadata: {
+        format: statement.format,
+        lineCount: statement.lineCount,
+        duplicateCount: statement.duplicateCount,
+        matched: matching.matches.length,
+        excluded: matching.exclusions.length,
+      },
+    });
+
+    res.status(201).json({ statement, matching });
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.get("/statements", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = listQuerySchema.parse(req.query);
+    const { data, total } = await bankReconciliationService.listStatements(isolation.getTenantId(), query.page, query.limit);
+
+    res.json({
+      data,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.get("/statements/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await bankReconciliationService.getStatement(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.delete("/statements/:id", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    await bankReconciliationService.deleteStatement(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "bank_statement",
+      resourceId: req.params.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.post("/auto-match", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = autoMatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const result = await bankReconciliationService.autoMatch(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "bank_reconciliation",
+      metadata: { statementId: parsed.data.statementId, matched: result.matches.length, excluded: result.exclusions.length },
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.get("/lines/:id/suggestions", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await bankReconciliationService.suggestions(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.post("/lines/:id/match", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = matchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const line = await bankReconciliationService.matchLine(isolation.getTenantId(), req.params.id, parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "bank_statement_line",
+      resourceId: line.id,
+      metadata: { matched: `${parsed.data.sourceType}:${parsed.data.sourceId}`, note: parsed.data.note },
+    });
+
+    res.json(line);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.post("/lines/:id/unmatch", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const line = await bankReconciliationService.unmatchLine(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "bank_statement_line",
+      resourceId: line.id,
+      metadata: { unmatched: true },
+    });
+
+    res.json(line);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.post("/lines/:id/exclude", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = excludeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const line = await bankReconciliationService.excludeLine(isolation.getTenantId(), req.params.id, parsed.data.note, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "bank_statement_line",
+      resourceId: line.id,
+      metadata: { excluded: true, note: parsed.data.note },
+    });
+
+    res.json(line);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.get("/reports/unreconciled", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = rangeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    res.json(await bankReconciliationService.getUnreconciled(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.get("/rules", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await bankReconciliationService.listRules(isolation.getTenantId()));
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.post("/rules", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = ruleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const rule = await bankReconciliationService.createRule(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "bank_reconciliation_rule",
+      resourceId: rule.id,
+      metadata: { name: rule.name, action: rule.action },
+    });
+
+    res.status(201).json(rule);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.patch("/rules/:id", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = ruleSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const rule = await bankReconciliationService.updateRule(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "bank_reconciliation_rule",
+      resourceId: rule.id,
+      metadata: { changes: parsed.data },
+    });
+
+    res.json(rule);
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
+
+bankReconciliationRouter.delete("/rules/:id", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    await bankReconciliationService.deleteRule(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "bank_reconciliation_rule",
+      resourceId: req.params.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendReconciliationError(res, error);
+  }
+});
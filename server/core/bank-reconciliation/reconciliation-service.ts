@@ -0,0 +1,481 @@
+import { db } from "../../db";
+import {
+  bankStatements,
+  bankStatementLines,
+  bankReconciliationRules,
+  payments,
+  invoices,
+  customers,
+  billingPayments,
+  furnitureInvoicePayments,
+  furnitureInvoices,
+  type BankStatement,
+  type BankStatementLine,
+  type BankReconciliationRule,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, sql, type SQL } from "drizzle-orm";
+import {
+  BankReconciliationError,
+  detectStatementFormat,
+  fileHash,
+  lineDedupeKeys,
+  parseStatement,
+  type CsvOptions,
+  type StatementFormat,
+} from "./statement-parsers";
+import {
+  DEFAULT_DATE_WINDOW_DAYS,
+  autoMatch,
+  buildUnreconciledReport,
+  suggestMatches,
+  validateRulePattern,
+  type AutoMatchResult,
+  type MatchCandidate,
+  type MatchSourceType,
+  type MatchableLine,
+  type ScoredCandidate,
+  type UnreconciledReport,
+} from "./matching";
+import { addDays, isoDate, today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Core payment statuses where money has been received
+const RECEIVED_PAYMENT_STATUSES: Array<"paid" | "partial" | "refunded"> = ["paid", "partial", "refunded"];
+
+export interface ImportInput {
+  content: string;
+  fileName?: string | null;
+  format?: StatementFormat;
+  csv?: CsvOptions;
+}
+
+export interface RuleInput {
+  name: string;
+  priority?: number;
+  field?: string;
+  pattern: string;
+  direction?: string;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  action: string;
+  sourceType?: string | null;
+  note?: string | null;
+  isActive?: boolean;
+}
+
+interface CandidateFilter {
+  from?: string;
+  to?: string;
+  id?: string;
+}
+
+function startOf(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function endOf(day: string): Date {
+  return new Date(`${day}T23:59:59.999Z`);
+}
+
+function amountText(value: number | null | undefined): string | null {
+  return value === null || value === undefined ? null : value.toFixed(2);
+}
+
+function toMatchable(line: BankStatementLine): MatchableLine {
+  return {
+    id: line.id,
+    bookingDate: line.bookingDate,
+    amount: parseFloat(line.amount),
+    currency: line.currency,
+    description: line.description,
+    reference: line.reference,
+    counterparty: line.counterparty,
+    bankReference: line.bankReference,
+  };
+}
+
+async function paymentCandidates(tenantId: string, filter: CandidateFilter): Promise<MatchCandidate[]> {
+  const paidAt = sql`coalesce(${payments.paidAt}, ${payments.createdAt})`;
+  const conditions: SQL[] = [eq(payments.tenantId, tenantId), inArray(payments.status, RECEIVED_PAYMENT_STATUSES)];
+  if (filter.id) conditions.push(eq(payments.id, filter.id));
+  if (filter.from) conditions.push(sql`${paidAt} >= ${startOf(filter.from)}`);
+  if (filter.to) conditions.push(sql`${paidAt} <= ${endOf(filter.to)}`);
+
+  const rows = await db.select({ payment: payments, invoiceNumber: invoices.invoiceNumber, customerName: customers.name })
+    .from(payments)
+    .leftJoin(invoices, eq(invoices.id, payments.invoiceId))
+    .leftJoin(customers, eq(customers.id, payments.customerId))
+    .where(and(...conditions));
+  return rows.map(({ payment, invoiceNumber, customerName }) => ({
+    sourceType: "payment",
+    sourceId: payment.id,
+    amount: parseFloat(payment.amount),
+    currency: payment.currency,
+    date: isoDate(payment.paidAt ?? payment.createdAt) ?? today(),
+    references: [payment.transactionId, invoiceNumber].filter((value): value is string => !!value),
+    partyName: customerName,
+    label: invoiceNumber ? `Payment for ${invoiceNumber}` : `${payment.method} payment`,
+  }));
+}
+
+// Subscription payments the tenant made to the platform leave its account
+async function billingPaymentCandidates(tenantId: string, filter: CandidateFilter): Promise<MatchCandidate[]> {
+  const conditions: SQL[] = [eq(billingPayments.tenantId, tenantId), eq(billingPayments.status, "paid"), isNotNull(billingPayments.paidAt)];
+  if (filter.id) conditions.push(eq(billingPayments.id, filter.id));
+  if (filter.from) conditions.push(gte(billingPayments.paidAt, startOf(filter.from)));
+  if (filter.to) conditions.push(lte(billingPayments.paidAt, endOf(filter.to)));
+
+  const rows = await db.select().from(billingPayments).where(and(...conditions));
+  return rows.map((payment) => ({
+    sourceType: "billing_payment",
+    sourceId: payment.id,
+    amount: -parseFloat(payment.amount),
+    currency: payment.currency,
+    date: isoDate(payment.paidAt) ?? today(),
+    references: [payment.providerPaymentId, payment.providerOrderId].filter((value): value is string => !!value),
+    partyName: null,
+    label: `Subscription payment via ${payment.provider}`,
+  }));
+}
+
+async function furniturePaymentCandidates(tenantId: string, filter: CandidateFilter): Promise<MatchCandidate[]> {
+  const conditions: SQL[] = [eq(furnitureInvoices.tenantId, tenantId), eq(furnitureInvoicePayments.status, "completed")];
+  if (filter.id) conditions.push(eq(furnitureInvoicePayments.id, filter.id));
+  if (filter.from) conditions.push(gte(furnitureInvoicePayments.paymentDate, startOf(filter.from)));
+  if (filter.to) conditions.push(lte(furnitureInvoicePayments.paymentDate, endOf(filter.to)));
+
+  const rows = await db.select({
+    payment: furnitureInvoicePayments,
+    invoiceNumber: furnitureInvoices.invoiceNumber,
+    billingName: furnitureInvoices.billingName,
+    customerName: customers.name,
+  })
+    .from(furnitureInvoicePayments)
+    .innerJoin(furnitureInvoices, eq(furnitureInvoices.id, furnitureInvoicePayments.invoiceId))
+    .leftJoin(customers, eq(customers.id, furnitureInvoices.customerId))
+    .where(and(...conditions));
+  return rows.map(({ payment, invoiceNumber, billingName, customerName }) => ({
+    sourceType: "furniture_payment",
+    sourceId: payment.id,
+    amount: parseFloat(payment.amount),
+    currency: payment.currency,
+    date: isoDate(payment.paymentDate) ?? today(),
+    references: [payment.paymentReference, payment.paymentNumber, invoiceNumber].filter((value): value is string => !!value),
+    partyName: billingName || customerName,
+    label: `Payment for ${invoiceNumber}`,
+  }));
+}
+
+const CANDIDATE_LOADERS: Record<MatchSourceType, (tenantId: string, filter: CandidateFilter) => Promise<MatchCandidate[]>> = {
+  payment: paymentCandidates,
+  billing_payment: billingPaymentCandidates,
+  furniture_payment: furniturePaymentCandidates,
+};
+
+async function matchedSourceKeys(tenantId: string): Promise<Set<string>> {
+  const rows = await db.select({ sourceType: bankStatementLines.matchedSourceType, sourceId: bankStatementLines.matchedSourceId })
+    .from(bankStatementLines)
+    .where(and(eq(bankStatementLines.tenantId, tenantId), eq(bankStatementLines.status, "matched")));
+  return new Set(rows.map((row) => `${row.sourceType}:${row.sourceId}`));
+}
+
+// Recorded payments in a date range that no bank line has been matched to yet
+async function openCandidates(tenantId: string, from: string, to: string): Promise<MatchCandidate[]> {
+  const [matched, ...groups] = await Promise.all([
+    matchedSourceKeys(tenantId),
+    ...Object.values(CANDIDATE_LOADERS).map((load) => load(tenantId, { from, to })),
+  ]);
+  return groups.flat().filter((candidate) => !matched.has(`${candidate.sourceType}:${candidate.sourceId}`));
+}
+
+async function findLine(tenantId: string, id: string): Promise<BankStatementLine> {
+  const [line] = await db.select().from(bankStatementLines)
+    .where(and(eq(bankStatementLines.id, id), eq(bankStatementLines.tenantId, tenantId)));
+  if (!line) throw new BankReconciliationError(404, "Statement line not found");
+  return line;
+}
+
+async function lockTenant(tx: Transaction, tenantId: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`bank-reconciliation:${tenantId}`}))`);
+}
+
+function ruleValues(input: Partial<RuleInput>) {
+  const { minAmount, maxAmount, ...rest } = input;
+  return {
+    ...rest,
+    ...(minAmount !== undefined ? { minAmount: amountText(minAmount) } : {}),
+    ...(maxAmount !== undefined ? { maxAmount: amountText(maxAmount) } : {}),
+  };
+}
+
+function validateRule(rule: { pattern?: string; action?: string; sourceType?: string | null }): void {
+  if (rule.pattern !== undefined) validateRulePattern(rule.pattern);
+  if (rule.action === "match_source" && !rule.sourceType) {
+    throw new BankReconciliationError(400, "Rules that narrow matching need a source type");
+  }
+}
+
+class BankReconciliationService {
+  /**
+   * Imports a statement and runs auto-matching over its new lines. Lines
+   * already imported from an overlapping statement are skipped.
+   */
+  async importStatement(tenantId: string, input: ImportInput, userId?: string): Promise<{ statement: BankStatement; matching: AutoMatchResult }> {
+    const format = input.format ?? detectStatementFormat(input.content, input.fileName);
+    const parsed = parseStatement(input.content, format, input.csv);
+    const hash = fileHash(input.content);
+    const keys = lineDedupeKeys(parsed.lines, parsed.accountNumber);
+
+    const statement = await db.transaction(async (tx) => {
+      await lockTenant(tx, tenantId);
+      const [existing] = await tx.select({ id: bankStatements.id }).from(bankStatements)
+        .where(and(eq(bankStatements.tenantId, tenantId), eq(bankStatements.fileHash, hash)));
+      if (existing) throw new BankReconciliationError(409, "This statement has already been imported");
+
+      const [created] = await tx.insert(bankStatements).values({
+        tenantId,
+        format,
+        fileName: input.fileName,
+        fileHash: hash,
+        accountNumber: parsed.accountNumber,
+        currency: parsed.currency,
+        periodStart: parsed.periodStart,
+        periodEnd: parsed.periodEnd,
+        openingBalance: amountText(parsed.openingBalance),
+        closingBalance: amountText(parsed.closingBalance),
+        importedBy: userId,
+      }).returning();
+
+      const inserted = await tx.insert(bankStatementLines).values(parsed.lines.map((line, index) => ({
+        tenantId,
+        statementId: created.id,
+        lineNo: index + 1,
+        bookingDate: line.bookingDate,
+        valueDate: line.valueDate,
+        amount: line.amount.toFixed(2),
+        currency: line.currency ?? parsed.currency,
+        description: line.description,
+        reference: line.reference,
+        counterparty: line.counterparty,
+        bankReference: line.bankReference,
+        dedupeKey: keys[index],
+      }))).onConflictDoNothing().returning({ id: bankStatementLines.id });
+
+      const [updated] = await tx.update(bankStatements)
+        .set({ lineCount: inserted.length, duplicateCount: parsed.lines.length - inserted.length })
+        .where(eq(bankStatements.id, created.id))
+        .returning();
+      return updated;
+    });
+
+    const matching = await this.autoMatch(tenantId, { statementId: statement.id });
+    return { statement, matching };
+  }
+
+  async listStatements(tenantId: string, page: number, limit: number): Promise<{ data: BankStatement[]; total: number }> {
+    const [data, [{ count }]] = await Promise.all([
+      db.select().from(bankStatements)
+        .where(eq(bankStatements.tenantId, tenantId))
+        .orderBy(desc(bankStatements.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ count: sql<number>`count(*)::int` }).from(bankStatements).where(eq(bankStatements.tenantId, tenantId)),
+    ]);
+    return { data, total: count };
+  }
+
+  async getStatement(tenantId: string, id: string): Promise<BankStatement & { lines: BankStatementLine[] }> {
+    const [statement] = await db.select().from(bankStatements)
+      .where(and(eq(bankStatements.id, id), eq(bankStatements.tenantId, tenantId)));
+    if (!statement) throw new BankReconciliationError(404, "Statement not found");
+    const lines = await db.select().from(bankStatementLines)
+      .where(eq(bankStatementLines.statementId, id))
+      .orderBy(asc(bankStatementLines.lineNo));
+    return { ...statement, lines };
+  }
+
+  // Removing a statement releases its matches; the payments become unreconciled again
+  async deleteStatement(tenantId: string, id: string): Promise<void> {
+    const [deleted] = await db.delete(bankStatements)
+      .where(and(eq(bankStatements.id, id), eq(bankStatements.tenantId, tenantId)))
+      .returning({ id: bankStatements.id });
+    if (!deleted) throw new BankReconciliationError(404, "Statement not found");
+  }
+
+  /**
+   * Applies rules and fuzzy matching to unmatched lines, of one statement or
+   * of all statements. Lines that are not clear matches stay unmatched for
+   * manual review.
+   */
+  async autoMatch(tenantId: string, scope: { statementId?: string; dateWindowDays?: number } = {}): Promise<AutoMatchResult> {
+    return db.transaction(async (tx) => {
+      await lockTenant(tx, tenantId);
+      const conditions: SQL[] = [eq(bankStatementLines.tenantId, tenantId), eq(bankStatementLines.status, "unmatched")];
+      if (scope.statementId) conditions.push(eq(bankStatementLines.statementId, scope.statementId));
+      const lines = (await tx.select().from(bankStatementLines).where(and(...conditions))).map(toMatchable);
+      if (!lines.length) return { matches: [], exclusions: [] };
+
+      const window = scope.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+      const dates = lines.map((line) => line.bookingDate).sort();
+      const [candidates, rules] = await Promise.all([
+        openCandidates(tenantId, addDays(dates[0], -window), addDays(dates[dates.length - 1], window)),
+        tx.select().from(bankReconciliationRules)
+          .where(and(eq(bankReconciliationRules.tenantId, tenantId), eq(bankReconciliationRules.isActive, true))),
+      ]);
+
+      const result = autoMatch(lines, candidates, rules, { dateWindowDays: window });
+      const now = new Date();
+      for (const match of result.matches) {
+        await tx.update(bankStatementLines).set({
+          status: "matched",
+          matchedSourceType: match.sourceType,
+          matchedSourceId: match.sourceId,
+          matchMethod: match.method,
+          matchScore: match.score,
+          ruleId: match.ruleId,
+          matchedAt: now,
+        }).where(eq(bankStatementLines.id, match.lineId));
+      }
+      for (const exclusion of result.exclusions) {
+        await tx.update(bankStatementLines).set({
+          status: "excluded",
+          matchMethod: "rule",
+          ruleId: exclusion.ruleId,
+          note: exclusion.note,
+          matchedAt: now,
+        }).where(eq(bankStatementLines.id, exclusion.lineId));
+      }
+      return result;
+    });
+  }
+
+  async suggestions(tenantId: string, lineId: string): Promise<ScoredCandidate[]> {
+    const line = await findLine(tenantId, lineId);
+    // A wider window than auto-matching, since a person reviews these
+    const window = DEFAULT_DATE_WINDOW_DAYS * 2;
+    const candidates = await openCandidates(tenantId, addDays(line.bookingDate, -window), addDays(line.bookingDate, window));
+    return suggestMatches(toMatchable(line), candidates, { dateWindowDays: window });
+  }
+
+  /**
+   * Matches a line to a payment by hand. The amounts may differ, e.g. when the
+   * bank deducted a fee; the note records why.
+   */
+  async matchLine(
+    tenantId: string,
+    lineId: string,
+    input: { sourceType: MatchSourceType; sourceId: string; note?: string },
+    userId?: string,
+  ): Promise<BankStatementLine> {
+    return db.transaction(async (tx) => {
+      await lockTenant(tx, tenantId);
+      const line = await findLine(tenantId, lineId);
+      if (line.status === "matched") throw new BankReconciliationError(409, "The line is already matched; unmatch it first");
+
+      const [candidate] = await CANDIDATE_LOADERS[input.sourceType](tenantId, { id: input.sourceId });
+      if (!candidate) throw new BankReconciliationError(404, "Payment not found");
+      if (Math.sign(candidate.amount) !== Math.sign(parseFloat(line.amount))) {
+        throw new BankReconciliationError(400, "Money in can only match a receipt, and money out a payment");
+      }
+      const [taken] = await tx.select({ id: bankStatementLines.id }).from(bankStatementLines)
+        .where(and(
+          eq(bankStatementLines.tenantId, tenantId),
+          eq(bankStatementLines.matchedSourceType, input.sourceType),
+          eq(bankStatementLines.matchedSourceId, input.sourceId),
+        ));
+      if (taken) throw new BankReconciliationError(409, "The payment is already matched to another bank line");
+
+      const [updated] = await tx.update(bankStatementLines).set({
+        status: "matched",
+        matchedSourceType: input.sourceType,
+        matchedSourceId: input.sourceId,
+        matchMethod: "manual",
+        matchScore: null,
+        ruleId: null,
+        note: input.note ?? null,
+        matchedAt: new Date(),
+        matchedBy: userId,
+      }).where(eq(bankStatementLines.id, line.id)).returning();
+      return updated;
+    });
+  }
+
+  async unmatchLine(tenantId: string, lineId: string): Promise<BankStatementLine> {
+    const line = await findLine(tenantId, lineId);
+    if (line.status === "unmatched") throw new BankReconciliationError(409, "The line is not matched");
+    const [updated] = await db.update(bankStatementLines).set({
+      status: "unmatched",
+      matchedSourceType: null,
+      matchedSourceId: null,
+      matchMethod: null,
+      matchScore: null,
+      ruleId: null,
+      note: null,
+      matchedAt: null,
+      matchedBy: null,
+    }).where(eq(bankStatementLines.id, line.id)).returning();
+    return updated;
+  }
+
+  // For lines with no payment record to match, such as bank charges or interest
+  async excludeLine(tenantId: string, lineId: string, note: string, userId?: string): Promise<BankStatementLine> {
+    const line = await findLine(tenantId, lineId);
+    if (line.status === "matched") throw new BankReconciliationError(409, "The line is already matched; unmatch it first");
+    const [updated] = await db.update(bankStatementLines).set({
+      status: "excluded",
+      matchMethod: "manual",
+      note,
+      matchedAt: new Date(),
+      matchedBy: userId,
+    }).where(eq(bankStatementLines.id, line.id)).returning();
+    return updated;
+  }
+
+  async getUnreconciled(tenantId: string, range: { from: string; to: string }): Promise<UnreconciledReport> {
+    const [lines, records] = await Promise.all([
+      db.select().from(bankStatementLines).where(and(
+        eq(bankStatementLines.tenantId, tenantId),
+        eq(bankStatementLines.status, "unmatched"),
+        gte(bankStatementLines.bookingDate, range.from),
+        lte(bankStatementLines.bookingDate, range.to),
+      )),
+      openCandidates(tenantId, range.from, range.to),
+    ]);
+    return buildUnreconciledReport(lines.map(toMatchable), records, range.to);
+  }
+
+  async listRules(tenantId: string): Promise<BankReconciliationRule[]> {
+    return db.select().from(bankReconciliationRules)
+      .where(eq(bankReconciliationRules.tenantId, tenantId))
+      .orderBy(asc(bankReconciliationRules.priority), asc(bankReconciliationRules.createdAt));
+  }
+
+  async createRule(tenantId: string, input: RuleInput): Promise<BankReconciliationRule> {
+    validateRule(input);
+    const [rule] = await db.insert(bankReconciliationRules).values({ ...ruleValues(input), tenantId, name: input.name, pattern: input.pattern, action: input.action }).returning();
+    return rule;
+  }
+
+  async updateRule(tenantId: string, id: string, input: Partial<RuleInput>): Promise<BankReconciliationRule> {
+    const [existing] = await db.select().from(bankReconciliationRules)
+      .where(and(eq(bankReconciliationRules.id, id), eq(bankReconciliationRules.tenantId, tenantId)));
+    if (!existing) throw new BankReconciliationError(404, "Rule not found");
+    validateRule({ ...existing, ...input });
+
+    const [rule] = await db.update(bankReconciliationRules)
+      .set({ ...ruleValues(input), updatedAt: new Date() })
+      .where(eq(bankReconciliationRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteRule(tenantId: string, id: string): Promise<void> {
+    const [deleted] = await db.delete(bankReconciliationRules)
+      .where(and(eq(bankReconciliationRules.id, id), eq(bankReconciliationRules.tenantId, tenantId)))
+      .returning({ id: bankReconciliationRules.id });
+    if (!deleted) throw new BankReconciliationError(404, "Rule not found");
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
@@ -0,0 +1,534 @@
+/**
+ * Bank statement parsers for CSV exports, OFX/QFX, SWIFT MT940 and ISO 20022
+ * camt.053. Every format is reduced to the same statement shape, with line
+ * amounts signed from the account holder's side: money in is positive.
+ */
+
+import { createHash } from "crypto";
+import { round2 } from "../../utils/money";
+
+export const STATEMENT_FORMATS = ["csv", "ofx", "mt940", "camt053"] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export const CSV_DATE_FORMATS = ["ymd", "dmy", "mdy"] as const;
+export type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+
+export const CSV_FIELDS = [
+  "date",
+  "valueDate",
+  "amount",
+  "debit",
+  "credit",
+  "direction",
+  "description",
+  "reference",
+  "counterparty",
+  "currency",
+] as const;
+export type CsvField = typeof CSV_FIELDS[number];
+
+export interface CsvOptions {
+  dateFormat?: CsvDateFormat;
+  // Header names to use instead of the recognised defaults
+  columns?: Partial<Record<CsvField, string>>;
+}
+
+export interface ParsedStatementLine {
+  bookingDate: string;
+  valueDate: string | null;
+  amount: number;
+  currency: string | null;
+  description: string | null;
+  reference: string | null;
+  counterparty: string | null;
+  bankReference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber: string | null;
+  currency: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export class BankReconciliationError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "BankReconciliationError";
+  }
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Header spellings seen in bank exports, compared with punctuation and spaces removed
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  date: ["date", "transactiondate", "txndate", "trandate", "bookingdate", "postingdate", "posteddate", "entrydate"],
+  valueDate: ["valuedate", "valuedt"],
+  amount: ["amount", "transactionamount", "amt", "amountinr"],
+  debit: ["debit", "debitamount", "withdrawal", "withdrawals", "withdrawalamt", "withdrawalamount", "paidout", "moneyout", "dr"],
+  credit: ["credit", "creditamount", "deposit", "deposits", "depositamt", "depositamount", "paidin", "moneyin", "cr"],
+  direction: ["drcr", "crdr", "debitcredit"],
+  description: ["description", "narration", "particulars", "details", "transactiondetails", "remarks", "memo"],
+  reference: ["reference", "ref", "refno", "referenceno", "referencenumber", "chqrefno", "chequeno", "utr", "transactionid"],
+  counterparty: ["counterparty", "payee", "payer", "beneficiary", "name"],
+  currency: ["currency", "ccy"],
+};
+
+function headerKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = value?.replace(/\s+/g, " ").trim();
+  return trimmed ? trimmed : null;
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function isoFromParts(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+/**
+ * Reads the date layouts banks export: ISO dates, numeric dates in the given
+ * order, and day-month-name-year forms such as 05-Mar-2026.
+ */
+export function parseStatementDate(value: string, dateFormat: CsvDateFormat = "dmy"): string {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    const iso = isoFromParts(+match[1], +match[2], +match[3]);
+    if (iso) return iso;
+  }
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[a-z]*[\s,-]+(\d{2,4})$/);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    const iso = isoFromParts(+match[3], MONTHS.indexOf(match[2].toLowerCase()) + 1, +match[1]);
+    if (iso) return iso;
+  }
+
+  match = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  if (match) {
+    const [a, b, c] = [+match[1], +match[2], +match[3]];
+    const iso = match[1].length === 4 || dateFormat === "ymd"
+      ? isoFromParts(a, b, c)
+      : dateFormat === "mdy" ? isoFromParts(c, a, b) : isoFromParts(c, b, a);
+    if (iso) return iso;
+  }
+  throw new BankReconciliationError(400, `Unrecognised date "${value}"`);
+}
+
+/**
+ * Reads bank amount formats: thousands separators either way round,
+ * parentheses or a trailing DR for debits, and currency symbols.
+ */
+export function parseStatementAmount(value: string): number {
+  let text = value.trim();
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  const suffix = text.match(/\s*(CR|DR|C|D)\.?$/i);
+  if (suffix) {
+    if (suffix[1].toUpperCase().startsWith("D")) sign = -sign;
+    text = text.slice(0, suffix.index);
+  }
+  text = text.replace(/[^0-9.,-]/g, "");
+  if (text.startsWith("-")) {
+    sign = -sign;
+    text = text.slice(1);
+  }
+  // A comma after the last dot is the decimal separator, as in 1.234,56
+  const lastComma = text.lastIndexOf(",");
+  if (lastComma > text.lastIndexOf(".") && text.length - lastComma <= 3) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  const amount = parseFloat(text);
+  if (!text || Number.isNaN(amount)) throw new BankReconciliationError(400, `Unrecognised amount "${value}"`);
+  return round2(sign * amount);
+}
+
+export function detectStatementFormat(content: string, fileName?: string | null): StatementFormat {
+  const head = content.slice(0, 4000);
+  if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(fileName ?? "")) return "ofx";
+  if (/camt\.053|<BkToCstmrStmt>/.test(head)) return "camt053";
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) return "mt940";
+  return "csv";
+}
+
+function statementBounds(lines: ParsedStatementLine[]): { periodStart: string | null; periodEnd: string | null } {
+  const dates = lines.map((line) => line.bookingDate).sort();
+  return { periodStart: dates[0] ?? null, periodEnd: dates[dates.length - 1] ?? null };
+}
+
+function splitCsvRow(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, 20).join("\n");
+  const counts = [",", ";", "\t", "|"].map((delimiter) => ({ delimiter, count: sample.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * CSV exports differ per bank. The header row is the first row naming a date
+ * column, which skips the account details many banks print above it; either
+ * a signed amount column or separate debit and credit columns are needed.
+ */
+export function parseCsvStatement(content: string, options: CsvOptions = {}): ParsedStatement {
+  const rows = content.split(/\r?\n/).filter((line) => line.trim());
+  const delimiter = detectDelimiter(rows);
+  const dateFormat = options.dateFormat ?? "dmy";
+
+  const aliasesFor = (field: CsvField): string[] => (options.columns?.[field] ? [headerKey(options.columns[field]!)] : CSV_HEADER_ALIASES[field]);
+  const headerIndex = rows.findIndex((row, index) => index < 30 && splitCsvRow(row, delimiter).some((cell) => aliasesFor("date").includes(headerKey(cell))));
+  if (headerIndex < 0) throw new BankReconciliationError(400, "No header row with a date column was found");
+
+  const headers = splitCsvRow(rows[headerIndex], delimiter).map(headerKey);
+  const column = (field: CsvField): number => {
+    const aliases = aliasesFor(field);
+    // Earlier aliases are the better fit, e.g. a transaction date over a value date
+    for (const alias of aliases) {
+      const index = headers.indexOf(alias);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const columns = Object.fromEntries(CSV_FIELDS.map((field) => [field, column(field)])) as Record<CsvField, number>;
+  if (columns.amount < 0 && (columns.debit < 0 || columns.credit < 0)) {
+    throw new BankReconciliationError(400, "The statement needs an amount column, or debit and credit columns");
+  }
+
+  const lines: ParsedStatementLine[] = [];
+  for (const [offset, row] of rows.slice(headerIndex + 1).entries()) {
+    const cells = splitCsvRow(row, delimiter);
+    const cell = (field: CsvField): string => (columns[field] >= 0 ? cells[columns[field]] ?? "" : "");
+    const dateText = cell("date");
+    // Banks close exports with totals and disclaimers that have no date
+    if (!dateText || !/\d/.test(dateText)) continue;
+
+    let amount: number;
+    try {
+      if (columns.amount >= 0 && cell("amount")) {
+        amount = parseStatementAmount(cell("amount"));
+        const direction = cell("direction").toUpperCase();
+        if (direction.startsWith("D") && amount > 0) amount = -amount;
+      } else {
+        const credit = cell("credit") ? parseStatementAmount(cell("credit")) : 0;
+        const debit = cell("debit") ? parseStatementAmount(cell("debit")) : 0;
+        amount = round2(Math.abs(credit) - Math.abs(debit));
+      }
+    } catch (error: any) {
+      throw new BankReconciliationError(400, `Row ${headerIndex + offset + 2}: ${error.message}`);
+    }
+    if (amount === 0) continue;
+
+    lines.push({
+      bookingDate: parseStatementDate(dateText, dateFormat),
+      valueDate: cell("valueDate") ? parseStatementDate(cell("valueDate"), dateFormat) : null,
+      amount,
+      currency: clean(cell("currency"))?.toUpperCase() ?? null,
+      description: clean(cell("description")),
+      reference: clean(cell("reference")),
+      counterparty: clean(cell("counterparty")),
+      bankReference: null,
+    });
+  }
+
+  return {
+    format: "csv",
+    accountNumber: null,
+    currency: null,
+    ...statementBounds(lines),
+    openingBalance: null,
+    closingBalance: null,
+    lines,
+  };
+}
+
+// OFX leaf elements are not closed in the SGML flavour, so values run to the next tag or line end
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? clean(decodeXml(match[1])) : null;
+}
+
+function ofxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? isoFromParts(+match[1], +match[2], +match[3]) : null;
+}
+
+export function parseOfxStatement(content: string): ParsedStatement {
+  const transactions = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  const currency = ofxValue(content, "CURDEF");
+
+  const lines = transactions.map((block) => {
+    const bookingDate = ofxDate(ofxValue(block, "DTPOSTED"));
+    const amountText = ofxValue(block, "TRNAMT");
+    if (!bookingDate || !amountText) throw new BankReconciliationError(400, "OFX transaction without a date or amount");
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    return {
+      bookingDate,
+      valueDate: ofxDate(ofxValue(block, "DTAVAIL")),
+      amount: parseStatementAmount(amountText),
+      currency: ofxValue(block, "CURRENCY") ?? currency,
+      description: memo ?? name,
+      reference: ofxValue(block, "REFNUM") ?? ofxValue(block, "CHECKNUM"),
+      counterparty: name,
+      bankReference: ofxValue(block, "FITID"),
+    };
+  });
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?(?:<\/LEDGERBAL>|$)/i)?.[0];
+  const closing = ledgerBalance ? ofxValue(ledgerBalance, "BALAMT") : null;
+  const bounds = statementBounds(lines);
+  return {
+    format: "ofx",
+    accountNumber: ofxValue(content, "ACCTID"),
+    currency,
+    periodStart: ofxDate(ofxValue(content, "DTSTART")) ?? bounds.periodStart,
+    periodEnd: ofxDate(ofxValue(content, "DTEND")) ?? bounds.periodEnd,
+    openingBalance: null,
+    closingBalance: closing ? parseStatementAmount(closing) : null,
+    lines,
+  };
+}
+
+function mt940Date(yymmdd: string): string {
+  const iso = isoFromParts(+yymmdd.slice(0, 2), +yymmdd.slice(2, 4), +yymmdd.slice(4, 6));
+  if (!iso) throw new BankReconciliationError(400, `Unrecognised MT940 date "${yymmdd}"`);
+  return iso;
+}
+
+function mt940Balance(value: string): { amount: number; currency: string; date: string } {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) throw new BankReconciliationError(400, `Unrecognised MT940 balance "${value}"`);
+  const amount = parseStatementAmount(match[4]);
+  return { amount: match[1] === "D" ? -amount : amount, currency: match[3], date: mt940Date(match[2]) };
+}
+
+// Structured :86: fields (?20, ?32 and so on) become plain text
+function mt940Details(value: string): string | null {
+  return clean(value.replace(/\?\d{2}/g, " "));
+}
+
+export function parseMt940Statement(content: string): ParsedStatement {
+  // Each field starts with :tag: at the beginning of a line; continuation lines belong to it
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) fields.push({ tag: match[1], value: match[2] });
+    else if (fields.length && line.trim() && line.trim() !== "-}" && line.trim() !== "-") {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  let accountNumber: string | null = null;
+  let opening: ReturnType<typeof mt940Balance> | null = null;
+  let closing: ReturnType<typeof mt940Balance> | null = null;
+  const lines: ParsedStatementLine[] = [];
+
+  for (const field of fields) {
+    if (field.tag === "25") accountNumber ??= clean(field.value);
+    else if ((field.tag === "60F" || field.tag === "60M") && !opening) opening = mt940Balance(field.value);
+    else if (field.tag === "62F" || field.tag === "62M") closing = mt940Balance(field.value);
+    else if (field.tag === "61") {
+      const [first, ...rest] = field.value.split("\n");
+      const match = first.match(/^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)[A-Z]([A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/);
+      if (!match) throw new BankReconciliationError(400, `Unrecognised MT940 statement line "${first}"`);
+      const valueDate = mt940Date(match[1]);
+      let bookingDate = valueDate;
+      if (match[2]) {
+        // The entry date carries no year; it can fall in the year before or after the value date
+        const year = +valueDate.slice(0, 4);
+        const candidates = [year - 1, year, year + 1].map((y) => isoFromParts(y, +match[2]!.slice(0, 2), +match[2]!.slice(2, 4)));
+        bookingDate = candidates
+          .filter((date): date is string => !!date)
+          .sort((a, b) => Math.abs(Date.parse(a) - Date.parse(valueDate)) - Math.abs(Date.parse(b) - Date.parse(valueDate)))[0] ?? valueDate;
+      }
+      const amount = parseStatementAmount(match[4]);
+      // A reversal of a credit takes money out, a reversal of a debit puts it back
+      const isDebit = match[3] === "D" || match[3] === "RC";
+      const customerReference = clean(match[6]);
+      lines.push({
+        bookingDate,
+        valueDate,
+        amount: isDebit ? -amount : amount,
+        currency: opening?.currency ?? null,
+        description: clean(rest.join(" ")),
+        reference: customerReference && customerReference.toUpperCase() !== "NONREF" ? customerReference : null,
+        counterparty: null,
+        bankReference: clean(match[7]),
+      });
+    } else if (field.tag === "86" && lines.length) {
+      const line = lines[lines.length - 1];
+      line.description = [line.description, mt940Details(field.value)].filter(Boolean).join(" ") || null;
+    }
+  }
+
+  const bounds = statementBounds(lines);
+  return {
+    format: "mt940",
+    accountNumber,
+    currency: opening?.currency ?? closing?.currency ?? null,
+    periodStart: opening?.date ?? bounds.periodStart,
+    periodEnd: closing?.date ?? bounds.periodEnd,
+    openingBalance: opening?.amount ?? null,
+    closingBalance: closing?.amount ?? null,
+    lines,
+  };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Inner XML of each element with the given local name, at any depth
+function xmlBlocks(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function xmlText(xml: string | undefined, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const name of path) {
+    current = current === undefined ? undefined : xmlBlocks(current, name)[0];
+  }
+  return current === undefined ? null : clean(decodeXml(current.replace(/<[^>]+>/g, " ")));
+}
+
+function xmlAttribute(xml: string, name: string, attribute: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\s[^>]*${attribute}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function camtAmount(xml: string): number {
+  const text = xmlText(xml, "Amt");
+  if (!text) throw new BankReconciliationError(400, "camt.053 entry without an amount");
+  const amount = parseStatementAmount(text);
+  return xmlText(xml, "CdtDbtInd") === "DBIT" ? -amount : amount;
+}
+
+function camtDate(xml: string | undefined): string | null {
+  const text = xmlText(xml, "Dt") ?? xmlText(xml, "DtTm");
+  return text ? parseStatementDate(text, "ymd") : null;
+}
+
+export function parseCamt053Statement(content: string): ParsedStatement {
+  const statement = xmlBlocks(content, "Stmt")[0];
+  if (!statement) throw new BankReconciliationError(400, "No statement found in the camt.053 file");
+
+  const account = xmlBlocks(statement, "Acct")[0];
+  const balances = xmlBlocks(statement, "Bal").map((balance) => ({
+    code: xmlText(balance, "Tp", "Cd"),
+    amount: camtAmount(balance),
+    date: camtDate(balance),
+  }));
+  const opening = balances.find((balance) => balance.code === "OPBD" || balance.code === "PRCD");
+  const closing = balances.find((balance) => balance.code === "CLBD");
+
+  const lines = xmlBlocks(statement, "Ntry").map((entry) => {
+    const isCredit = xmlText(entry, "CdtDbtInd") === "CRDT";
+    const details = xmlBlocks(entry, "TxDtls")[0];
+    const endToEnd = xmlText(details, "Refs", "EndToEndId");
+    const bookingDate = camtDate(xmlBlocks(entry, "BookgDt")[0]) ?? camtDate(xmlBlocks(entry, "ValDt")[0]);
+    if (!bookingDate) throw new BankReconciliationError(400, "camt.053 entry without a booking date");
+    const remittance = details ? xmlBlocks(details, "Ustrd").map((text) => clean(decodeXml(text))).filter(Boolean).join(" ") : "";
+    // Money in names the debtor who paid, money out the creditor who was paid
+    const party = details ? xmlBlocks(details, isCredit ? "Dbtr" : "Cdtr")[0] : undefined;
+    return {
+      bookingDate,
+      valueDate: camtDate(xmlBlocks(entry, "ValDt")[0]),
+      amount: camtAmount(entry),
+      currency: xmlAttribute(entry, "Amt", "Ccy"),
+      description: clean(remittance) ?? xmlText(entry, "AddtlNtryInf"),
+      reference: endToEnd && endToEnd !== "NOTPROVIDED" ? endToEnd : xmlText(details, "Refs", "InstrId"),
+      counterparty: party ? xmlText(party, "Nm") : null,
+      bankReference: xmlText(entry, "AcctSvcrRef"),
+    };
+  });
+
+  const bounds = statementBounds(lines);
+  return {
+    format: "camt053",
+    accountNumber: xmlText(account, "IBAN") ?? xmlText(account, "Othr", "Id"),
+    currency: xmlText(account, "Ccy") ?? lines[0]?.currency ?? null,
+    periodStart: opening?.date ?? bounds.periodStart,
+    periodEnd: closing?.date ?? bounds.periodEnd,
+    openingBalance: opening?.amount ?? null,
+    closingBalance: closing?.amount ?? null,
+    lines,
+  };
+}
+
+export function parseStatement(content: string, format: StatementFormat, options: CsvOptions = {}): ParsedStatement {
+  const text = content.replace(/^\uFEFF/, "");
+  const statement = format === "ofx" ? parseOfxStatement(text)
+    : format === "mt940" ? parseMt940Statement(text)
+    : format === "camt053" ? parseCamt053Statement(text)
+    : parseCsvStatement(text, options);
+  if (!statement.lines.length) throw new BankReconciliationError(400, "The statement has no transactions");
+  return statement;
+}
+
+/**
+ * Keys that identify a bank transaction across overlapping statements: the
+ * bank's own id when it gives one, otherwise its details plus how many
+ * identical lines came before it in the file.
+ */
+export function lineDedupeKeys(lines: ParsedStatementLine[], accountNumber: string | null): string[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    let identity = line.bankReference
+      ? `ref|${line.bankReference}|${line.bookingDate}`
+      : `${line.bookingDate}|${line.amount.toFixed(2)}|${line.reference ?? ""}|${line.description ?? ""}`;
+    if (!line.bankReference) {
+      const occurrence = seen.get(identity) ?? 0;
+      seen.set(identity, occurrence + 1);
+      identity += `|${occurrence}`;
+    }
+    return createHash("sha256").update(`${accountNumber ?? ""}|${identity}`).digest("hex");
+  });
+}
+
+export function fileHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
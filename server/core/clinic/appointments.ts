@@ -0,0 +1,505 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { appointments, patients, doctors, insertAppointmentSchema } from "@shared/schema";
+import { eq, and, desc, asc, sql, isNull, ne, gte, lte } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { requirePermission } from "../context";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import {
+  parseAvailability,
+  hasSchedule,
+  isWithinWorkingHours,
+  addMinutes,
+  timeToMinutes,
+  findConflict,
+} from "./availability";
+
+export const clinicAppointmentsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type AppointmentStatus = "pending" | "confirmed" | "completed" | "cancelled";
+
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(["createdAt", "appointmentDate", "status"]).default("appointmentDate"),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]).optional(),
+  doctorId: z.string().optional(),
+  patientId: z.string().optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+});
+
+const statusUpdateSchema = z.object({
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]),
+  notes: z.string().optional(),
+});
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+export class AppointmentConflictError extends Error {
+  constructor(message: string, public conflictingAppointmentId: string) {
+    super(message);
+    this.name = "AppointmentConflictError";
+  }
+}
+
+interface SlotRequest {
+  tenantId: string;
+  doctorId: string;
+  patientId: string;
+  appointmentDate: string;
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  excludeAppointmentId?: string;
+}
+
+/**
+ * Serialises bookings per doctor/day and per patient/day with advisory locks,
+ * then rejects the request if the doctor or the patient already has an
+ * overlapping appointment. The doctor lock is always taken before the patient
+ * lock so concurrent bookings cannot deadlock. Must run inside a transaction
+ * so the locks are held until the insert commits.
+ */
+async function assertSlotFree(tx: Transaction, request: SlotRequest): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`clinic:${request.doctorId}:${request.appointmentDate}`}))`);
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`clinic:patient:${request.patientId}:${request.appointmentDate}`}))`);
+
+  const sameDay = await tx.select({
+    id: appointments.id,
+    doctorId: appointments.doctorId,
+    patientId: appointments.patientId,
+    startTime: appointments.startTime,
+    endTime: appointments.endTime,
+  })
+    .from(appointments)
+    .where(and(
+      eq(appointments.tenantId, request.tenantId),
+      eq(appointments.appointmentDate, request.appointmentDate),
+      ne(appointments.status, "cancelled"),
+      isNull(appointments.deletedAt),
+      request.excludeAppointmentId ? ne(appointments.id, request.excludeAppointmentId) : undefined
+    ));
+
+  const doctorConflict = findConflict(
+    sameDay.filter(a => a.doctorId === request.doctorId),
+    request.startTime,
+    request.endTime,
+    request.slotMinutes
+  );
+  if (doctorConflict) {
+    throw new AppointmentConflictError("Doctor already has an appointment in this time slot", doctorConflict.id);
+  }
+
+  const patientConflict = findConflict(
+    sameDay.filter(a => a.patientId === request.patientId),
+    request.startTime,
+    request.endTime,
+    request.slotMinutes
+  );
+  if (patientConflict) {
+    throw new AppointmentConflictError("Patient already has an appointment in this time slot", patientConflict.id);
+  }
+}
+
+async function nextTokenNumber(tx: Transaction, tenantId: string, doctorId: string, appointmentDate: string): Promise<number> {
+  const [result] = await tx.select({ max: sql<number>`COALESCE(MAX(${appointments.tokenNumber}), 0)::int` })
+    .from(appointments)
+    .where(and(
+      eq(appointments.tenantId, tenantId),
+      eq(appointments.doctorId, doctorId),
+      eq(appointments.appointmentDate, appointmentDate)
+    ));
+  return (result?.max || 0) + 1;
+}
+
+async function loadDoctor(tenantId: string, doctorId: string) {
+  const [doctor] = await db.select()
+    .from(doctors)
+    .where(and(eq(doctors.id, doctorId), eq(doctors.tenantId, tenantId), isNull(doctors.deletedAt)));
+  return doctor;
+}
+
+/**
+ * Resolves the end time from the doctor's slot length and checks the request
+ * against their configured working hours. Doctors without a schedule accept
+ * any time so clinics can start booking before configuring availability.
+ */
+function resolveSchedule(doctor: typeof doctors.$inferSelect, appointmentDate: string, startTime: string, endTime?: string | null) {
+  const availability = parseAvailability(doctor.availability);
+  const resolvedEnd = endTime || addMinutes(startTime, availability.slotMinutes);
+
+  if (timeToMinutes(resolvedEnd) <= timeToMinutes(startTime)) {
+    return { error: "End time must be after start time" } as const;
+  }
+
+  if (hasSchedule(availability) && !isWithinWorkingHours(availability, appointmentDate, startTime, resolvedEnd)) {
+    return { error: "Doctor is not available at the requested time" } as const;
+  }
+
+  return { endTime: resolvedEnd, slotMinutes: availability.slotMinutes } as const;
+}
+
+clinicAppointmentsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortBy, sortOrder, status, doctorId, patientId, dateFrom, dateTo } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(appointments.tenantId, tenantId), isNull(appointments.deletedAt)];
+
+    if (status) {
+      conditions.push(eq(appointments.status, status));
+    }
+
+    if (doctorId) {
+      conditions.push(eq(appointments.doctorId, doctorId));
+    }
+
+    if (patientId) {
+      conditions.push(eq(appointments.patientId, patientId));
+    }
+
+    if (dateFrom) {
+      conditions.push(gte(appointments.appointmentDate, dateFrom));
+    }
+
+    if (dateTo) {
+      conditions.push(lte(appointments.appointmentDate, dateTo));
+    }
+
+    const orderColumn = {
+      createdAt: appointments.createdAt,
+      appointmentDate: appointments.appointmentDate,
+      status: appointments.status,
+    }[sortBy];
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        appointment: appointments,
+        patientFirstName: patients.firstName,
+        patientLastName: patients.lastName,
+        doctorSpecialization: doctors.specialization,
+      })
+        .from(appointments)
+        .leftJoin(patients, eq(appointments.patientId, patients.id))
+        .leftJoin(doctors, eq(appointments.doctorId, doctors.id))
+        .where(and(...conditions))
+        .orderBy(orderFn(orderColumn), orderFn(appointments.startTime))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(appointments)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: data.map(row => ({
+        ...row.appointment,
+        patientName: [row.patientFirstName, row.patientLastName].filter(Boolean).join(" "),
+        doctorSpecialization: row.doctorSpecialization,
+      })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicAppointmentsRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [appointment] = await db.select()
+      .from(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.tenantId, isolation.getTenantId()), isNull(appointments.deletedAt)));
+
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    res.json(appointment);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicAppointmentsRouter.post("/", ...middleware, requirePermission("appointments:create"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = insertAppointmentSchema.omit({ tokenNumber: true, reminderSent: true }).safeParse({
+      ...req.body,
+      tenantId,
+    });
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [patient] = await db.select({ id: patients.id })
+      .from(patients)
+      .where(and(eq(patients.id, parsed.data.patientId), eq(patients.tenantId, tenantId), isNull(patients.deletedAt)));
+
+    if (!patient) {
+      return res.status(400).json({ message: "Patient not found" });
+    }
+
+    const doctor = await loadDoctor(tenantId, parsed.data.doctorId);
+    if (!doctor) {
+      return res.status(400).json({ message: "Doctor not found" });
+    }
+
+    const schedule = resolveSchedule(doctor, parsed.data.appointmentDate, parsed.data.startTime, parsed.data.endTime);
+    if ("error" in schedule) {
+      return res.status(400).json({ message: schedule.error });
+    }
+
+    const appointment = await db.transaction(async (tx) => {
+      await assertSlotFree(tx, {
+        tenantId,
+        doctorId: doctor.id,
+        patientId: patient.id,
+        appointmentDate: parsed.data.appointmentDate,
+        startTime: parsed.data.startTime,
+        endTime: schedule.endTime,
+        slotMinutes: schedule.slotMinutes,
+      });
+
+      const tokenNumber = await nextTokenNumber(tx, tenantId, doctor.id, parsed.data.appointmentDate);
+
+      const [created] = await tx.insert(appointments)
+        .values({ ...parsed.data, endTime: schedule.endTime, tokenNumber })
+        .returning();
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "appointment",
+      resourceId: appointment.id,
+      metadata: { doctorId: appointment.doctorId, appointmentDate: appointment.appointmentDate, startTime: appointment.startTime },
+    });
+
+    res.status(201).json(appointment);
+  } catch (error: any) {
+    if (error instanceof AppointmentConflictError) {
+      return res.status(409).json({ message: error.message, conflictingAppointmentId: error.conflictingAppointmentId });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicAppointmentsRouter.patch("/:id", ...middleware, requirePermission("appointments:update"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.tenantId, tenantId), isNull(appointments.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    const updateSchema = insertAppointmentSchema
+      .omit({ tokenNumber: true, status: true, patientId: true })
+      .partial()
+      .omit({ tenantId: true });
+    const parsed = updateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const isReschedule = parsed.data.doctorId !== undefined
+      || parsed.data.appointmentDate !== undefined
+      || parsed.data.startTime !== undefined
+      || parsed.data.endTime !== undefined;
+
+    if (isReschedule && (existing.status === "completed" || existing.status === "cancelled")) {
+      return res.status(400).json({ message: `Cannot reschedule a ${existing.status} appointment` });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const changes: Partial<typeof appointments.$inferInsert> = { ...parsed.data };
+
+      if (isReschedule) {
+        const doctorId = parsed.data.doctorId ?? existing.doctorId;
+        const appointmentDate = parsed.data.appointmentDate ?? existing.appointmentDate;
+        const startTime = parsed.data.startTime ?? existing.startTime;
+        // A new start time without an explicit end re-derives the end from the slot length
+        const endTime = parsed.data.endTime ?? (parsed.data.startTime ? null : existing.endTime);
+
+        const doctor = await loadDoctor(tenantId, doctorId);
+        if (!doctor) {
+          throw new Error("Doctor not found");
+        }
+
+        const schedule = resolveSchedule(doctor, appointmentDate, startTime, endTime);
+        if ("error" in schedule) {
+          throw new Error(schedule.error);
+        }
+
+        await assertSlotFree(tx, {
+          tenantId,
+          doctorId,
+          patientId: existing.patientId,
+          appointmentDate,
+          startTime,
+          endTime: schedule.endTime,
+          slotMinutes: schedule.slotMinutes,
+          excludeAppointmentId: id,
+        });
+
+        changes.endTime = schedule.endTime;
+        if (doctorId !== existing.doctorId || appointmentDate !== existing.appointmentDate) {
+          changes.tokenNumber = await nextTokenNumber(tx, tenantId, doctorId, appointmentDate);
+        }
+      }
+
+      const [row] = await tx.update(appointments)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(appointments.id, id))
+        .returning();
+      return row;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "appointment",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data), rescheduled: isReschedule },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    if (error instanceof AppointmentConflictError) {
+      return res.status(409).json({ message: error.message, conflictingAppointmentId: error.conflictingAppointmentId });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicAppointmentsRouter.patch("/:id/status", ...middleware, requirePermission("appointments:update"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const parsed = statusUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [existing] = await db.select()
+      .from(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.tenantId, isolation.getTenantId()), isNull(appointments.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    const from = (existing.status || "pending") as AppointmentStatus;
+    const to = parsed.data.status;
+
+    if (!STATUS_TRANSITIONS[from].includes(to)) {
+      return res.status(400).json({
+        message: `Invalid status transition from ${from} to ${to}`,
+        allowedTransitions: STATUS_TRANSITIONS[from],
+      });
+    }
+
+    const [updated] = await db.update(appointments)
+      .set({
+        status: to,
+        notes: parsed.data.notes ?? existing.notes,
+        updatedAt: new Date(),
+      })
+      .where(eq(appointments.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "appointment",
+      resourceId: id,
+      metadata: { statusChange: { from, to } },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicAppointmentsRouter.delete("/:id", ...middleware, requirePermission("appointments:delete"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.tenantId, isolation.getTenantId()), isNull(appointments.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    await db.update(appointments).set({ deletedAt: new Date() }).where(eq(appointments.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "appointment",
+      resourceId: id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import {
+  dateString,
+  weeklyScheduleSchema,
+  timeToMinutes,
+  minutesToTime,
+  addMinutes,
+  rangesOverlap,
+  windowsForDate,
+  type WorkingWindow,
+} from "../../utils/time-of-day";
+
+export { timeToMinutes, minutesToTime, addMinutes, rangesOverlap };
+
+/**
+ * Doctor availability helpers.
+ *
+ * The `doctors.availability` jsonb column stores a weekly schedule:
+ *
+ *   {
+ *     slotMinutes: 15,
+ *     schedule: { monday: [{ start: "09:00", end: "13:00" }, { start: "14:00", end: "17:00" }] },
+ *     blockedDates: ["2026-12-25"]
+ *   }
+ *
+ * Everything in this file is pure so slot calculation and overlap detection
+ * can be unit tested without a database.
+ */
+
+export const DEFAULT_SLOT_MINUTES = 15;
+
+export const doctorAvailabilitySchema = z.object({
+  slotMinutes: z.number().int().min(5).max(240).default(DEFAULT_SLOT_MINUTES),
+  schedule: weeklyScheduleSchema.default({}),
+  blockedDates: z.array(dateString).default([]),
+});
+
+export type DoctorAvailability = z.infer<typeof doctorAvailabilitySchema>;
+
+export interface TimeRange {
+  startTime: string;
+  endTime: string | null;
+}
+
+export interface Slot {
+  start: string;
+  end: string;
+  available: boolean;
+}
+
+/**
+ * Parses the stored jsonb value, falling back to an empty schedule for
+ * doctors created before availability was configured.
+ */
+export function parseAvailability(raw: unknown): DoctorAvailability {
+  const parsed = doctorAvailabilitySchema.safeParse(raw ?? {});
+  return parsed.success ? parsed.data : doctorAvailabilitySchema.parse({});
+}
+
+export function hasSchedule(availability: DoctorAvailability): boolean {
+  return Object.values(availability.schedule).some(windows => windows && windows.length > 0);
+}
+
+export function getWorkingWindows(availability: DoctorAvailability, date: string): WorkingWindow[] {
+  return windowsForDate(availability.schedule, availability.blockedDates, date);
+}
+
+/**
+ * Returns true when [startTime, endTime) lies entirely inside one working window.
+ */
+export function isWithinWorkingHours(availability: DoctorAvailability, date: string, startTime: string, endTime: string): boolean {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  return getWorkingWindows(availability, date).some(
+    w => start >= timeToMinutes(w.start) && end <= timeToMinutes(w.end)
+  );
+}
+
+/**
+ * Appointments without an explicit end time occupy a single slot.
+ */
+export function resolveEndTime(range: TimeRange, slotMinutes: number): string {
+  return range.endTime ?? addMinutes(range.startTime, slotMinutes);
+}
+
+export function findConflict<T extends TimeRange>(
+  existing: T[],
+  startTime: string,
+  endTime: string,
+  slotMinutes: number
+): T | undefined {
+  return existing.find(b => rangesOverlap(startTime, endTime, b.startTime, resolveEndTime(b, slotMinutes)));
+}
+
+/**
+ * Splits the doctor's working windows for a date into fixed-length slots and
+ * marks each one unavailable when it overlaps an existing appointment.
+ */
+export function calculateSlots(availability: DoctorAvailability, date: string, booked: TimeRange[]): Slot[] {
+  const { slotMinutes } = availability;
+  const slots: Slot[] = [];
+
+  for (const window of getWorkingWindows(availability, date)) {
+    const windowEnd = timeToMinutes(window.end);
+    for (let cursor = timeToMinutes(window.start); cursor + slotMinutes <= windowEnd; cursor += slotMinutes) {
+      const start = minutesToTime(cursor);
+      const end = minutesToTime(cursor + slotMinutes);
+      slots.push({
+        start,
+        end,
+        available: !findConflict(booked, start, end, slotMinutes),
+      });
+    }
+  }
+
+  return slots.sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+}
@@ -0,0 +1,340 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { doctors, staff, appointments, insertDoctorSchema } from "@shared/schema";
+import { eq, and, desc, asc, sql, ilike, or, isNull, ne } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { requirePermission } from "../context";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { doctorAvailabilitySchema, parseAvailability, calculateSlots } from "./availability";
+
+export const clinicDoctorsRouter = Router();
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(["createdAt", "name", "specialization"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+  specialization: z.string().optional(),
+  acceptingNew: z.enum(["true", "false"]).optional(),
+});
+
+const slotsQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+});
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const doctorColumns = {
+  id: doctors.id,
+  tenantId: doctors.tenantId,
+  staffId: doctors.staffId,
+  name: staff.name,
+  email: staff.email,
+  phone: staff.phone,
+  registrationNumber: doctors.registrationNumber,
+  specialization: doctors.specialization,
+  qualifications: doctors.qualifications,
+  consultationFee: doctors.consultationFee,
+  followUpFee: doctors.followUpFee,
+  availability: doctors.availability,
+  isAcceptingNew: doctors.isAcceptingNew,
+  createdAt: doctors.createdAt,
+  updatedAt: doctors.updatedAt,
+};
+
+async function findDoctor(tenantId: string, id: string) {
+  const [doctor] = await db.select()
+    .from(doctors)
+    .where(and(eq(doctors.id, id), eq(doctors.tenantId, tenantId), isNull(doctors.deletedAt)));
+  return doctor;
+}
+
+async function validateStaffLink(tenantId: string, staffId: string | null | undefined): Promise<string | null> {
+  if (!staffId) return null;
+  const [member] = await db.select({ id: staff.id })
+    .from(staff)
+    .where(and(eq(staff.id, staffId), eq(staff.tenantId, tenantId), isNull(staff.deletedAt)));
+  return member ? null : "Staff member not found";
+}
+
+clinicDoctorsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortBy, sortOrder, search, specialization, acceptingNew } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(doctors.tenantId, tenantId), isNull(doctors.deletedAt)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(staff.name, `%${search}%`),
+          ilike(doctors.specialization, `%${search}%`),
+          ilike(doctors.registrationNumber, `%${search}%`)
+        )!
+      );
+    }
+
+    if (specialization) {
+      conditions.push(ilike(doctors.specialization, specialization));
+    }
+
+    if (acceptingNew) {
+      conditions.push(eq(doctors.isAcceptingNew, acceptingNew === "true"));
+    }
+
+    const orderColumn = {
+      createdAt: doctors.createdAt,
+      name: staff.name,
+      specialization: doctors.specialization,
+    }[sortBy];
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [data, countResult] = await Promise.all([
+      db.select(doctorColumns)
+        .from(doctors)
+        .leftJoin(staff, eq(doctors.staffId, staff.id))
+        .where(and(...conditions))
+        .orderBy(orderFn(orderColumn))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(doctors)
+        .leftJoin(staff, eq(doctors.staffId, staff.id))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [doctor] = await db.select(doctorColumns)
+      .from(doctors)
+      .leftJoin(staff, eq(doctors.staffId, staff.id))
+      .where(and(eq(doctors.id, id), eq(doctors.tenantId, isolation.getTenantId()), isNull(doctors.deletedAt)));
+
+    if (!doctor) {
+      return res.status(404).json({ message: "Doctor not found" });
+    }
+
+    res.json(doctor);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.get("/:id/slots", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+    const { date } = slotsQuerySchema.parse(req.query);
+
+    const doctor = await findDoctor(isolation.getTenantId(), id);
+    if (!doctor) {
+      return res.status(404).json({ message: "Doctor not found" });
+    }
+
+    const booked = await db.select({ startTime: appointments.startTime, endTime: appointments.endTime })
+      .from(appointments)
+      .where(and(
+        eq(appointments.tenantId, isolation.getTenantId()),
+        eq(appointments.doctorId, id),
+        eq(appointments.appointmentDate, date),
+        ne(appointments.status, "cancelled"),
+        isNull(appointments.deletedAt)
+      ));
+
+    const availability = parseAvailability(doctor.availability);
+    const slots = calculateSlots(availability, date, booked);
+
+    res.json({
+      doctorId: id,
+      date,
+      slotMinutes: availability.slotMinutes,
+      isAcceptingNew: doctor.isAcceptingNew,
+      slots,
+      availableCount: slots.filter(s => s.available).length,
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.post("/", ...middleware, requirePermission("doctors:create"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = insertDoctorSchema.extend({
+      availability: doctorAvailabilitySchema.optional(),
+    }).safeParse({
+      ...req.body,
+      tenantId,
+    });
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const staffError = await validateStaffLink(tenantId, parsed.data.staffId);
+    if (staffError) {
+      return res.status(400).json({ message: staffError });
+    }
+
+    const [doctor] = await db.insert(doctors).values(parsed.data).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "doctor",
+      resourceId: doctor.id,
+      metadata: { specialization: doctor.specialization },
+    });
+
+    res.status(201).json(doctor);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.patch("/:id", ...middleware, requirePermission("doctors:update"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const existing = await findDoctor(isolation.getTenantId(), id);
+    if (!existing) {
+      return res.status(404).json({ message: "Doctor not found" });
+    }
+
+    const updateSchema = insertDoctorSchema.extend({
+      availability: doctorAvailabilitySchema.optional(),
+    }).partial().omit({ tenantId: true });
+    const parsed = updateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const staffError = await validateStaffLink(isolation.getTenantId(), parsed.data.staffId);
+    if (staffError) {
+      return res.status(400).json({ message: staffError });
+    }
+
+    const [updated] = await db.update(doctors)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(doctors.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "doctor",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.put("/:id/availability", ...middleware, requirePermission("doctors:update"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const existing = await findDoctor(isolation.getTenantId(), id);
+    if (!existing) {
+      return res.status(404).json({ message: "Doctor not found" });
+    }
+
+    const parsed = doctorAvailabilitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(doctors)
+      .set({ availability: parsed.data, updatedAt: new Date() })
+      .where(eq(doctors.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "doctor",
+      resourceId: id,
+      metadata: { changes: ["availability"] },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicDoctorsRouter.delete("/:id", ...middleware, requirePermission("doctors:delete"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const existing = await findDoctor(isolation.getTenantId(), id);
+    if (!existing) {
+      return res.status(404).json({ message: "Doctor not found" });
+    }
+
+    await db.update(doctors)
+      .set({ deletedAt: new Date(), isAcceptingNew: false })
+      .where(eq(doctors.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "doctor",
+      resourceId: id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -1,20 +1,27 @@
 /**
  * Clinic/Healthcare Module
- * 
+ *
  * Healthcare management for clinics and medical practices:
  * - Patient management with medical history
- * - Doctor profiles and specializations
- * - Appointment scheduling
- * - Prescription management
- * - Medical billing
- * 
+ * - Doctor profiles, specializations and weekly availability
+ * - Appointment scheduling with slot calculation and double-booking prevention
+ * - Medical records per visit
+ *
  * @module server/core/clinic
  */
 
 import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { patients, doctors, appointments, medicalRecords } from "@shared/schema";
+import { eq, and, sql, isNull } from "drizzle-orm";
 import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
-import { z } from "zod";
+import { clinicPatientsRouter } from "./patients";
+import { clinicDoctorsRouter } from "./doctors";
+import { clinicAppointmentsRouter } from "./appointments";
+import { clinicMedicalRecordsRouter } from "./medical-records";
+import { parseAvailability, getWorkingWindows } from "./availability";
+import { today } from "../../utils/time-of-day";
 
 export const clinicRouter = Router();
 
@@ -24,94 +31,69 @@ const middleware = [
   requireMinimumRole("staff"),
 ];
 
-const paginationSchema = z.object({
-  page: z.coerce.number().min(1).default(1),
-  limit: z.coerce.number().min(1).max(100).default(20),
-  search: z.string().optional(),
-  status: z.string().optional(),
-});
-
-clinicRouter.get("/patients", ...middleware, async (req: Request, res: Response) => {
+async function getDashboardStats(req: Request, res: Response) {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-clinicRouter.post("/patients", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const date = today();
 
-clinicRouter.get("/doctors", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const [patientCounts, doctorRows, appointmentCounts, followUpsResult] = await Promise.all([
+      db.select({
+        total: sql<number>`count(*)::int`,
+        active: sql<number>`count(*) FILTER (WHERE ${patients.isActive} = true)::int`,
+      })
+        .from(patients)
+        .where(and(eq(patients.tenantId, tenantId), isNull(patients.deletedAt))),
 
-clinicRouter.get("/appointments", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({ availability: doctors.availability })
+        .from(doctors)
+        .where(and(eq(doctors.tenantId, tenantId), isNull(doctors.deletedAt))),
 
-clinicRouter.post("/appointments", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({
+        today: sql<number>`count(*) FILTER (WHERE ${appointments.appointmentDate} = ${date} AND ${appointments.status} <> 'cancelled')::int`,
+        pending: sql<number>`count(*) FILTER (WHERE ${appointments.status} = 'pending' AND ${appointments.appointmentDate} >= ${date})::int`,
+        completedToday: sql<number>`count(*) FILTER (WHERE ${appointments.appointmentDate} = ${date} AND ${appointments.status} = 'completed')::int`,
+      })
+        .from(appointments)
+        .where(and(eq(appointments.tenantId, tenantId), isNull(appointments.deletedAt))),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(medicalRecords)
+        .where(and(
+          eq(medicalRecords.tenantId, tenantId),
+          sql`${medicalRecords.followUpDate} >= ${date}`
+        )),
+    ]);
+
+    const doctorsOnDuty = doctorRows.filter(
+      d => getWorkingWindows(parseAvailability(d.availability), date).length > 0
+    ).length;
 
-clinicRouter.get("/dashboard", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
     res.json({
-      totalPatients: 0,
-      activePatients: 0,
-      totalDoctors: 0,
-      todayAppointments: 0,
-      pendingAppointments: 0,
-      completedToday: 0,
+      totalPatients: patientCounts[0]?.total || 0,
+      activePatients: patientCounts[0]?.active || 0,
+      totalDoctors: doctorRows.length,
+      doctorsOnDuty,
+      todayAppointments: appointmentCounts[0]?.today || 0,
+      pendingAppointments: appointmentCounts[0]?.pending || 0,
+      completedToday: appointmentCounts[0]?.completedToday || 0,
+      upcomingFollowUps: followUpsResult[0]?.count || 0,
     });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
+  } catch (error) {
+    console.error("[clinic/dashboard] Error:", error);
+    res.status(500).json({ message: "Failed to fetch dashboard stats" });
   }
-});
+}
+
+clinicRouter.get("/dashboard", ...middleware, getDashboardStats);
+clinicRouter.get("/stats", ...middleware, getDashboardStats);
+
+clinicRouter.use("/patients", clinicPatientsRouter);
+clinicRouter.use("/doctors", clinicDoctorsRouter);
+clinicRouter.use("/appointments", clinicAppointmentsRouter);
+clinicRouter.use("/medical-records", clinicMedicalRecordsRouter);
+
+export { clinicPatientsRouter, clinicDoctorsRouter, clinicAppointmentsRouter, clinicMedicalRecordsRouter };
 
 export default clinicRouter;
@@ -0,0 +1,194 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { medicalRecords, patients, appointments, insertMedicalRecordSchema } from "@shared/schema";
+import { eq, and, desc, sql, isNull, gte, lte } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { requirePermission } from "../context";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { phiAccessMiddleware, requireAccessReason } from "../compliance";
+import { auditService } from "../audit";
+
+export const clinicMedicalRecordsRouter = Router();
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  patientId: z.string().optional(),
+  doctorId: z.string().optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+});
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+clinicMedicalRecordsRouter.get("/", ...middleware, requireAccessReason(), phiAccessMiddleware("medical_record"), async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, patientId, doctorId, dateFrom, dateTo } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(medicalRecords.tenantId, tenantId)];
+
+    if (patientId) {
+      conditions.push(eq(medicalRecords.patientId, patientId));
+    }
+
+    if (doctorId) {
+      conditions.push(eq(medicalRecords.doctorId, doctorId));
+    }
+
+    if (dateFrom) {
+      conditions.push(gte(medicalRecords.visitDate, dateFrom));
+    }
+
+    if (dateTo) {
+      conditions.push(lte(medicalRecords.visitDate, dateTo));
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(medicalRecords)
+        .where(and(...conditions))
+        .orderBy(desc(medicalRecords.visitDate))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(medicalRecords)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicMedicalRecordsRouter.get("/:id", ...middleware, requireAccessReason(), phiAccessMiddleware("medical_record"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [record] = await db.select()
+      .from(medicalRecords)
+      .where(and(eq(medicalRecords.id, id), eq(medicalRecords.tenantId, isolation.getTenantId())));
+
+    if (!record) {
+      return res.status(404).json({ message: "Medical record not found" });
+    }
+
+    res.json(record);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicMedicalRecordsRouter.post("/", ...middleware, requirePermission("medical_records:create"), phiAccessMiddleware("medical_record"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = insertMedicalRecordSchema.safeParse({
+      ...req.body,
+      tenantId,
+      createdBy: req.context?.user?.id,
+    });
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [patient] = await db.select({ id: patients.id })
+      .from(patients)
+      .where(and(eq(patients.id, parsed.data.patientId), eq(patients.tenantId, tenantId), isNull(patients.deletedAt)));
+
+    if (!patient) {
+      return res.status(400).json({ message: "Patient not found" });
+    }
+
+    if (parsed.data.appointmentId) {
+      const [appointment] = await db.select({ id: appointments.id, patientId: appointments.patientId })
+        .from(appointments)
+        .where(and(eq(appointments.id, parsed.data.appointmentId), eq(appointments.tenantId, tenantId)));
+
+      if (!appointment || appointment.patientId !== patient.id) {
+        return res.status(400).json({ message: "Appointment does not belong to this patient" });
+      }
+    }
+
+    const [record] = await db.insert(medicalRecords).values(parsed.data).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "medical_record",
+      resourceId: record.id,
+      metadata: { patientId: record.patientId, appointmentId: record.appointmentId },
+    });
+
+    res.status(201).json(record);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicMedicalRecordsRouter.patch("/:id", ...middleware, requirePermission("medical_records:update"), requireAccessReason(), phiAccessMiddleware("medical_record"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(medicalRecords)
+      .where(and(eq(medicalRecords.id, id), eq(medicalRecords.tenantId, isolation.getTenantId())));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Medical record not found" });
+    }
+
+    const updateSchema = insertMedicalRecordSchema.partial().omit({ tenantId: true, patientId: true, createdBy: true });
+    const parsed = updateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(medicalRecords)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(medicalRecords.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "medical_record",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
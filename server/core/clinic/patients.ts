@@ -0,0 +1,277 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { patients, appointments, medicalRecords, insertPatientSchema } from "@shared/schema";
+import { eq, and, desc, asc, sql, ilike, or, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { requirePermission } from "../context";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { phiAccessMiddleware, dataMaskingMiddleware, requireAccessReason } from "../compliance";
+import { auditService } from "../audit";
+
+export const clinicPatientsRouter = Router();
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(["createdAt", "firstName", "lastName", "patientId"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+});
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const patientDataMasking = dataMaskingMiddleware({
+  email: "email",
+  phone: "phone",
+  dob: "dateOfBirth",
+});
+
+async function generatePatientNumber(tenantId: string): Promise<string> {
+  const [result] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(patients)
+    .where(eq(patients.tenantId, tenantId));
+  return `PAT-${String((result?.count || 0) + 1).padStart(5, "0")}`;
+}
+
+clinicPatientsRouter.get("/", ...middleware, patientDataMasking, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortBy, sortOrder, search, status } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(patients.tenantId, tenantId), isNull(patients.deletedAt)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(patients.firstName, `%${search}%`),
+          ilike(patients.lastName, `%${search}%`),
+          ilike(patients.phone, `%${search}%`),
+          ilike(patients.email, `%${search}%`),
+          ilike(patients.patientId, `%${search}%`)
+        )!
+      );
+    }
+
+    if (status) {
+      conditions.push(eq(patients.isActive, status === "active"));
+    }
+
+    const orderColumn = {
+      createdAt: patients.createdAt,
+      firstName: patients.firstName,
+      lastName: patients.lastName,
+      patientId: patients.patientId,
+    }[sortBy];
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(patients)
+        .where(and(...conditions))
+        .orderBy(orderFn(orderColumn))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(patients)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.get("/:id", ...middleware, phiAccessMiddleware("patient"), patientDataMasking, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [patient] = await db.select()
+      .from(patients)
+      .where(and(eq(patients.id, id), eq(patients.tenantId, isolation.getTenantId()), isNull(patients.deletedAt)));
+
+    if (!patient) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    res.json(patient);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.get("/:id/appointments", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const data = await db.select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.patientId, id),
+        eq(appointments.tenantId, isolation.getTenantId()),
+        isNull(appointments.deletedAt)
+      ))
+      .orderBy(desc(appointments.appointmentDate), desc(appointments.startTime));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.get("/:id/medical-records", ...middleware, requireAccessReason(), phiAccessMiddleware("medical_record"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const data = await db.select()
+      .from(medicalRecords)
+      .where(and(eq(medicalRecords.patientId, id), eq(medicalRecords.tenantId, isolation.getTenantId())))
+      .orderBy(desc(medicalRecords.visitDate));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.post("/", ...middleware, requirePermission("patients:create"), phiAccessMiddleware("patient"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = insertPatientSchema.safeParse({
+      ...req.body,
+      tenantId,
+    });
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const patientNumber = parsed.data.patientId || await generatePatientNumber(tenantId);
+
+    const [duplicate] = await db.select({ id: patients.id })
+      .from(patients)
+      .where(and(eq(patients.tenantId, tenantId), eq(patients.patientId, patientNumber)));
+
+    if (duplicate) {
+      return res.status(409).json({ message: "Patient ID already exists" });
+    }
+
+    const [patient] = await db.insert(patients)
+      .values({ ...parsed.data, patientId: patientNumber })
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "patient",
+      resourceId: patient.id,
+      metadata: { patientId: patient.patientId },
+    });
+
+    res.status(201).json(patient);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.patch("/:id", ...middleware, requirePermission("patients:update"), phiAccessMiddleware("patient"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(patients)
+      .where(and(eq(patients.id, id), eq(patients.tenantId, isolation.getTenantId()), isNull(patients.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    const updateSchema = insertPatientSchema.partial().omit({ tenantId: true });
+    const parsed = updateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(patients)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(patients.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "patient",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+clinicPatientsRouter.delete("/:id", ...middleware, requirePermission("patients:delete"), async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(patients)
+      .where(and(eq(patients.id, id), eq(patients.tenantId, isolation.getTenantId()), isNull(patients.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Patient not found" });
+    }
+
+    await db.update(patients)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(patients.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "patient",
+      resourceId: id,
+      metadata: { patientId: existing.patientId },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -399,16 +399,20 @@ export function phiAccessMiddleware(resourceType: string) {
     const originalJson = res.json.bind(res);
 
     res.json = function(body: any) {
-      if (res.statusCode >= 200 && res.statusCode < 300) {
-        const patientId = req.params.patientId || req.params.id || body?.id;
-        
-        if (patientId && req.context?.user?.id && req.context?.tenant?.id) {
+      if (res.statusCode >= 200 && res.statusCode < 300 && req.context?.user?.id && req.context?.tenant?.id) {
+        // List responses log one access per returned record
+        const accesses: Array<{ patientId: string; resourceId?: string }> = Array.isArray(body?.data)
+          ? body.data.filter((record: any) => record?.patientId).map((record: any) => ({ patientId: record.patientId, resourceId: record.id }))
+          : [{ patientId: req.params.patientId || req.params.id || body?.id, resourceId: req.params.id }];
+
+        for (const { patientId, resourceId } of accesses) {
+          if (!patientId) continue;
           complianceService.logPHIAccessAsync({
             tenantId: req.context.tenant.id,
             userId: req.context.user.id,
             patientId,
             resourceType,
-            resourceId: req.params.id,
+            resourceId,
             action: getActionFromMethod(req.method),
             accessReason: (req.headers["x-access-reason"] as PHIAccessReason) || "treatment",
             ipAddress: req.ip || undefined,
@@ -1,9 +1,23 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { complianceService } from "./compliance-service";
-import { insertCompliancePackSchema, insertComplianceChecklistItemSchema, insertTenantComplianceSettingsSchema } from "@shared/schema";
+import { retentionExecutor } from "./retention-executor";
+import { dsarFulfilmentService, DsarFulfilmentError } from "./dsar-fulfilment";
+import { RETENTION_RESOURCES } from "./retention-resources";
+import { MIN_RETENTION_DAYS, RETENTION_ACTIONS, canReleaseLegalHold } from "./retention-rules";
+import {
+  insertCompliancePackSchema,
+  insertComplianceChecklistItemSchema,
+  insertTenantComplianceSettingsSchema,
+  insertDataRetentionPolicySchema,
+  dataRetentionPolicies,
+  dataRetentionLogs,
+} from "@shared/schema";
+import { db } from "../../db";
+import { and, desc, eq, sql } from "drizzle-orm";
 import { z } from "zod";
 import { authenticateJWT, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
+import { auditService } from "../audit";
 
 const router = Router();
 
@@ -15,6 +29,23 @@ const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => P
 const updatePackSchema = insertCompliancePackSchema.partial();
 const updateItemSchema = insertComplianceChecklistItemSchema.partial().omit({ packId: true });
 const updateTenantSettingsSchema = insertTenantComplianceSettingsSchema.partial().omit({ tenantId: true });
+const retentionPolicySchema = insertDataRetentionPolicySchema
+  .omit({ tenantId: true, createdBy: true, lastExecutedAt: true, nextScheduledAt: true, archiveLocation: true })
+  .extend({
+    resourceType: z.string().refine((type) => type in RETENTION_RESOURCES, { message: "Unsupported resource type" }),
+    retentionDays: z.number().int().min(MIN_RETENTION_DAYS),
+    deleteAction: z.enum(RETENTION_ACTIONS).optional(),
+  });
+const updateRetentionPolicySchema = retentionPolicySchema.partial();
+const retentionLogsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  policyId: z.string().optional(),
+  status: z.enum(["completed", "skipped", "failed"]).optional(),
+});
+const verifyDsarSchema = z.object({
+  method: z.enum(["email", "phone", "document"]),
+});
 const updateProgressSchema = z.object({
   status: z.enum(["not_started", "in_progress", "completed", "not_applicable", "overdue"]).optional(),
   notes: z.string().optional(),
@@ -293,4 +324,307 @@ router.put("/tenant/settings",
   })
 );
 
+async function findRetentionPolicy(tenantId: string, policyId: string) {
+  const [policy] = await db.select()
+    .from(dataRetentionPolicies)
+    .where(and(eq(dataRetentionPolicies.id, policyId), eq(dataRetentionPolicies.tenantId, tenantId)));
+  return policy;
+}
+
+router.get("/retention/resources",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.json({ resourceTypes: Object.keys(RETENTION_RESOURCES), actions: RETENTION_ACTIONS });
+  })
+);
+
+router.get("/retention/policies",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const policies = await db.select()
+      .from(dataRetentionPolicies)
+      .where(eq(dataRetentionPolicies.tenantId, String(tenantId)))
+      .orderBy(desc(dataRetentionPolicies.createdAt));
+    res.json(policies);
+  })
+);
+
+router.post("/retention/policies",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const validated = retentionPolicySchema.parse(req.body);
+    const [policy] = await db.insert(dataRetentionPolicies).values({
+      ...validated,
+      tenantId: String(tenantId),
+      createdBy: (req as any).context?.user?.id,
+    }).returning();
+
+    await auditService.logAsync({
+      tenantId: String(tenantId),
+      userId: (req as any).context?.user?.id,
+      action: "create",
+      resource: "data_retention_policy",
+      resourceId: policy.id,
+      metadata: { resourceType: policy.resourceType, retentionDays: policy.retentionDays, deleteAction: policy.deleteAction },
+    });
+    res.status(201).json(policy);
+  })
+);
+
+router.patch("/retention/policies/:policyId",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const existing = await findRetentionPolicy(String(tenantId), req.params.policyId);
+    if (!existing) {
+      res.status(404).json({ error: "Retention policy not found" });
+      return;
+    }
+    const validated = updateRetentionPolicySchema.parse(req.body);
+    if (existing.legalHold && validated.legalHold === false && !canReleaseLegalHold(req.context?.role?.name)) {
+      res.status(403).json({ error: "Only a compliance officer or platform admin can release a legal hold" });
+      return;
+    }
+    const [policy] = await db.update(dataRetentionPolicies)
+      .set({ ...validated, updatedAt: new Date() })
+      .where(eq(dataRetentionPolicies.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: String(tenantId),
+      userId: (req as any).context?.user?.id,
+      action: "update",
+      resource: "data_retention_policy",
+      resourceId: existing.id,
+      oldValue: { legalHold: existing.legalHold, retentionDays: existing.retentionDays, deleteAction: existing.deleteAction },
+      newValue: { legalHold: policy.legalHold, retentionDays: policy.retentionDays, deleteAction: policy.deleteAction },
+    });
+    res.json(policy);
+  })
+);
+
+router.get("/retention/policies/:policyId/preview",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const policy = await findRetentionPolicy(String(tenantId), req.params.policyId);
+    if (!policy) {
+      res.status(404).json({ error: "Retention policy not found" });
+      return;
+    }
+    res.json(await retentionExecutor.preview(policy, String(tenantId)));
+  })
+);
+
+router.post("/retention/policies/:policyId/run",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const policy = await findRetentionPolicy(String(tenantId), req.params.policyId);
+    if (!policy) {
+      res.status(404).json({ error: "Retention policy not found" });
+      return;
+    }
+    const log = await retentionExecutor.execute(policy, String(tenantId), (req as any).context?.user?.id || "system");
+    await db.update(dataRetentionPolicies)
+      .set({ lastExecutedAt: new Date(), updatedAt: new Date() })
+      .where(eq(dataRetentionPolicies.id, policy.id));
+    res.json(log);
+  })
+);
+
+router.get("/retention/logs",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const { page, limit, policyId, status } = retentionLogsQuerySchema.parse(req.query);
+    const conditions = [eq(dataRetentionLogs.tenantId, String(tenantId))];
+    if (policyId) conditions.push(eq(dataRetentionLogs.policyId, policyId));
+    if (status) conditions.push(eq(dataRetentionLogs.status, status));
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(dataRetentionLogs)
+        .where(and(...conditions))
+        .orderBy(desc(dataRetentionLogs.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(dataRetentionLogs)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+    res.json({ data, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } });
+  })
+);
+
+function dsarActor(req: Request) {
+  const user = (req as any).context?.user;
+  return { id: user?.id, email: user?.email };
+}
+
+function sendDsarError(res: Response, error: unknown): boolean {
+  if (error instanceof DsarFulfilmentError) {
+    res.status(error.status).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
+router.get("/dsar/:dsarId/subjects",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      const dsar = await dsarFulfilmentService.getRequest(String(tenantId), req.params.dsarId);
+      res.json(await dsarFulfilmentService.findSubjects(dsar));
+    } catch (error) {
+      if (!sendDsarError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/dsar/:dsarId/verify",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const { method } = verifyDsarSchema.parse(req.body);
+    try {
+      res.json(await dsarFulfilmentService.verifyIdentity(String(tenantId), req.params.dsarId, dsarActor(req), method));
+    } catch (error) {
+      if (!sendDsarError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/dsar/:dsarId/export",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      const manifest = await dsarFulfilmentService.generateExport(String(tenantId), req.params.dsarId, dsarActor(req));
+      await auditService.logAsync({
+        tenantId: String(tenantId),
+        userId: dsarActor(req).id,
+        action: "access",
+        resource: "dsar_export",
+        resourceId: req.params.dsarId,
+        metadata: { totalRecords: manifest.totalRecords, files: manifest.files.length },
+      });
+      res.status(201).json(manifest);
+    } catch (error) {
+      if (!sendDsarError(res, error)) throw error;
+    }
+  })
+);
+
+router.get("/dsar/:dsarId/export",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      const exportPath = await dsarFulfilmentService.getExportFile(String(tenantId), req.params.dsarId);
+      if (!exportPath) {
+        res.status(404).json({ error: "No export available; generate a new one" });
+        return;
+      }
+      res.download(exportPath, `DSAR_${req.params.dsarId}.zip`);
+    } catch (error) {
+      if (!sendDsarError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/dsar/:dsarId/erase",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      const result = await dsarFulfilmentService.erase(String(tenantId), req.params.dsarId, dsarActor(req));
+      await auditService.logAsync({
+        tenantId: String(tenantId),
+        userId: dsarActor(req).id,
+        action: "update",
+        resource: "dsar_erasure",
+        resourceId: req.params.dsarId,
+        metadata: { ...result },
+      });
+      res.json(result);
+    } catch (error) {
+      if (!sendDsarError(res, error)) throw error;
+    }
+  })
+);
+
 export default router;
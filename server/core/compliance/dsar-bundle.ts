@@ -0,0 +1,94 @@
+/**
+ * Layout of the personal-data export bundle produced for a DSAR: a
+ * manifest describing what was found, the full records as JSON and one
+ * CSV per table.
+ */
+
+export const DSAR_EXPORT_TTL_DAYS = 30;
+
+export interface DsarTableExport {
+  subjectType: string;
+  table: string;
+  // The subject's own records, as opposed to records that reference them
+  isSubject: boolean;
+  rows: Record<string, unknown>[];
+}
+
+export interface DsarManifest {
+  dsarId: string;
+  tenantId: string;
+  requestType: string;
+  subjectEmail: string;
+  generatedAt: string;
+  expiresAt: string;
+  subjects: Array<{ subjectType: string; id: string }>;
+  files: Array<{ path: string; table: string; subjectType: string; recordCount: number }>;
+  totalRecords: number;
+}
+
+export function normalizeSubjectEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function dsarExportExpiry(generatedAt: Date): Date {
+  return new Date(generatedAt.getTime() + DSAR_EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function csvCell(value: unknown): string {
+  const str = value === null || value === undefined
+    ? ""
+    : value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return `"${str.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return "";
+
+  // Union of keys, since anonymized or sparse rows can omit columns
+  const headers = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return [
+    headers.join(","),
+    ...rows.map((row) => headers.map((header) => csvCell(row[header])).join(",")),
+  ].join("\n");
+}
+
+export function dsarCsvPath(subjectType: string, table: string): string {
+  return `csv/${subjectType}/${table}.csv`;
+}
+
+export function buildDsarManifest(params: {
+  dsarId: string;
+  tenantId: string;
+  requestType: string;
+  subjectEmail: string;
+  generatedAt: Date;
+  exports: DsarTableExport[];
+}): DsarManifest {
+  const subjects = params.exports
+    .filter((entry) => entry.isSubject)
+    .flatMap((entry) => entry.rows.map((row) => ({ subjectType: entry.subjectType, id: String(row.id) })));
+  const files = params.exports
+    .filter((entry) => entry.rows.length > 0)
+    .map((entry) => ({
+      path: dsarCsvPath(entry.subjectType, entry.table),
+      table: entry.table,
+      subjectType: entry.subjectType,
+      recordCount: entry.rows.length,
+    }));
+
+  return {
+    dsarId: params.dsarId,
+    tenantId: params.tenantId,
+    requestType: params.requestType,
+    subjectEmail: params.subjectEmail,
+    generatedAt: params.generatedAt.toISOString(),
+    expiresAt: dsarExportExpiry(params.generatedAt).toISOString(),
+    subjects,
+    files,
+    totalRecords: files.reduce((sum, file) => sum + file.recordCount, 0),
+  };
+}
@@ -0,0 +1,332 @@
+import fs from "fs";
+import path from "path";
+import archiver from "archiver";
+import { db } from "../../db";
+import { dsarRequests, dsarActivityLog, type DsarRequest } from "@shared/schema";
+import { and, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+  DSAR_SUBJECTS,
+  DSAR_SUBJECT_TYPES,
+  DSAR_CONTACT_TABLES,
+  stripExcludedColumns,
+  type DsarContactTable,
+  type DsarRelatedTable,
+  type DsarSubjectDefinition,
+  type DsarSubjectType,
+} from "./dsar-subjects";
+import type { RetentionTable } from "./retention-resources";
+import {
+  buildDsarManifest,
+  dsarCsvPath,
+  dsarExportExpiry,
+  normalizeSubjectEmail,
+  toCsv,
+  type DsarManifest,
+  type DsarTableExport,
+} from "./dsar-bundle";
+
+const DSAR_EXPORT_DIR = process.env.DSAR_EXPORT_DIR || path.join(process.cwd(), "data", "dsar-exports");
+const CONTACT_SUBJECT = "contact";
+
+type Row = Record<string, unknown> & { id: string };
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface DsarActor {
+  id: string;
+  email?: string;
+}
+
+export interface DsarSubjectMatch {
+  subjectType: DsarSubjectType;
+  ids: string[];
+}
+
+export interface DsarErasureResult {
+  anonymized: Array<{ subjectType: string; table: string; recordCount: number }>;
+  retained: Array<{ subjectType: string; table: string; recordCount: number; reason: string }>;
+}
+
+export class DsarFulfilmentError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "DsarFulfilmentError";
+  }
+}
+
+async function logActivity(dsar: DsarRequest, actor: DsarActor, action: string, notes: string, metadata: Record<string, unknown>, newStatus?: DsarRequest["status"]) {
+  await db.insert(dsarActivityLog).values({
+    dsarId: dsar.id,
+    action,
+    previousStatus: newStatus ? dsar.status : undefined,
+    newStatus,
+    performedBy: actor.id,
+    performedByEmail: actor.email,
+    notes,
+    metadata,
+  });
+}
+
+function subjectConditions(dsar: DsarRequest, subjectType: DsarSubjectType, customerIds: string[]): SQL {
+  const subject = DSAR_SUBJECTS[subjectType];
+  const matches: SQL[] = [sql`lower(${subject.emailColumn}) = ${normalizeSubjectEmail(dsar.subjectEmail)}`];
+  if (dsar.subjectPhone) matches.push(eq(subject.phoneColumn, dsar.subjectPhone));
+  if (subject.customerColumn && customerIds.length > 0) matches.push(inArray(subject.customerColumn, customerIds));
+  return and(eq(subject.table.tenantId, dsar.tenantId), or(...matches))!;
+}
+
+function relatedConditions(tenantId: string, related: DsarRelatedTable, values: string[]): SQL {
+  return and(eq(related.table.tenantId, tenantId), inArray(sql`${related.column}`, values))!;
+}
+
+function byIds(tenantId: string, table: RetentionTable, ids: string[]): SQL {
+  return and(eq(table.tenantId, tenantId), inArray(table.id, ids))!;
+}
+
+function contactValues(dsar: DsarRequest, contact: DsarContactTable): string[] {
+  const values = [dsar.subjectEmail, normalizeSubjectEmail(dsar.subjectEmail)];
+  if (contact.matchesPhone && dsar.subjectPhone) values.push(dsar.subjectPhone);
+  return values;
+}
+
+async function selectValues(executor: typeof db | Transaction, table: RetentionTable, key: AnyPgColumn, where: SQL): Promise<string[]> {
+  const rows = await executor.select({ value: key }).from(table).where(where) as Array<{ value: unknown }>;
+  return Array.from(new Set(rows.map((row) => row.value).filter((value): value is string => typeof value === "string")));
+}
+
+/**
+ * Finds the ids of the rows each related table holds about the subject.
+ * Tables are resolved in order, so one can follow the rows matched in an
+ * earlier table (gym check-ins through gym memberships, for instance).
+ */
+async function matchRelated(
+  executor: typeof db | Transaction,
+  tenantId: string,
+  subject: DsarSubjectDefinition,
+  ids: string[]
+): Promise<Array<{ related: DsarRelatedTable; ids: string[] }>> {
+  const matched = new Map<string, { table: RetentionTable; ids: string[] }>([[subject.name, { table: subject.table, ids }]]);
+  const matches: Array<{ related: DsarRelatedTable; ids: string[] }> = [];
+
+  for (const related of subject.related) {
+    let values = ids;
+    if (related.via) {
+      const source = matched.get(related.via.name);
+      if (!source) throw new Error(`DSAR table "${related.name}" follows unknown table "${related.via.name}"`);
+      values = source.ids.length > 0
+        ? await selectValues(executor, source.table, related.via.key ?? source.table.id, byIds(tenantId, source.table, source.ids))
+        : [];
+    }
+    const relatedIds = values.length > 0
+      ? await selectValues(executor, related.table, related.table.id, relatedConditions(tenantId, related, values))
+      : [];
+    matched.set(related.name, { table: related.table, ids: relatedIds });
+    matches.push({ related, ids: relatedIds });
+  }
+  return matches;
+}
+
+/**
+ * Fulfils data subject requests: finds every record the tenant holds about
+ * the requester across customers, patients, students, travelers and
+ * employees, packages them as a downloadable export bundle, and anonymizes
+ * them for erasure requests. Each step is recorded in the DSAR activity log.
+ */
+class DsarFulfilmentService {
+  async getRequest(tenantId: string, dsarId: string): Promise<DsarRequest> {
+    const [dsar] = await db.select()
+      .from(dsarRequests)
+      .where(and(eq(dsarRequests.id, dsarId), eq(dsarRequests.tenantId, tenantId)));
+    if (!dsar) throw new DsarFulfilmentError(404, "DSAR not found");
+    return dsar;
+  }
+
+  async findSubjects(dsar: DsarRequest): Promise<DsarSubjectMatch[]> {
+    const match = async (subjectType: DsarSubjectType, customerIds: string[]): Promise<DsarSubjectMatch> => {
+      const { table } = DSAR_SUBJECTS[subjectType];
+      const rows = await db.select({ id: table.id }).from(table).where(subjectConditions(dsar, subjectType, customerIds)) as Row[];
+      return { subjectType, ids: rows.map((row) => row.id) };
+    };
+
+    // Customers first: other subjects can be linked to them
+    const customer = await match("customer", []);
+    const others = await Promise.all(DSAR_SUBJECT_TYPES
+      .filter((subjectType) => subjectType !== "customer")
+      .map((subjectType) => match(subjectType, customer.ids)));
+    return [customer, ...others].filter((subject) => subject.ids.length > 0);
+  }
+
+  async collect(dsar: DsarRequest): Promise<DsarTableExport[]> {
+    const exports: DsarTableExport[] = [];
+
+    for (const { subjectType, ids } of await this.findSubjects(dsar)) {
+      const subject = DSAR_SUBJECTS[subjectType];
+      const rows = await db.select().from(subject.table).where(byIds(dsar.tenantId, subject.table, ids)) as Row[];
+      exports.push({ subjectType, table: subject.name, isSubject: true, rows: rows.map(stripExcludedColumns) });
+
+      for (const { related, ids: relatedIds } of await matchRelated(db, dsar.tenantId, subject, ids)) {
+        const relatedRows = relatedIds.length > 0
+          ? await db.select().from(related.table).where(byIds(dsar.tenantId, related.table, relatedIds)) as Row[]
+          : [];
+        exports.push({ subjectType, table: related.name, isSubject: false, rows: relatedRows.map(stripExcludedColumns) });
+      }
+    }
+
+    for (const contact of DSAR_CONTACT_TABLES) {
+      const rows = await db.select().from(contact.table).where(relatedConditions(dsar.tenantId, contact, contactValues(dsar, contact))) as Row[];
+      exports.push({ subjectType: CONTACT_SUBJECT, table: contact.name, isSubject: false, rows: rows.map(stripExcludedColumns) });
+    }
+
+    return exports;
+  }
+
+  async generateExport(tenantId: string, dsarId: string, actor: DsarActor): Promise<DsarManifest> {
+    const dsar = await this.getRequest(tenantId, dsarId);
+    if (dsar.status === "rejected" || dsar.status === "expired") {
+      throw new DsarFulfilmentError(400, `Cannot export data for a ${dsar.status} request`);
+    }
+
+    const exports = await this.collect(dsar);
+    const generatedAt = new Date();
+    const manifest = buildDsarManifest({
+      dsarId: dsar.id,
+      tenantId,
+      requestType: dsar.requestType,
+      subjectEmail: dsar.subjectEmail,
+      generatedAt,
+      exports,
+    });
+
+    await logActivity(dsar, actor, "DATA_DISCOVERY_COMPLETED", `Found ${manifest.totalRecords} records in ${manifest.files.length} tables`, {
+      subjects: manifest.subjects,
+      tables: manifest.files.map((file) => ({ table: file.table, recordCount: file.recordCount })),
+    });
+
+    const dir = path.join(DSAR_EXPORT_DIR, tenantId);
+    await fs.promises.mkdir(dir, { recursive: true });
+    const exportPath = path.join(dir, `${dsar.id}.zip`);
+
+    await new Promise<void>((resolve, reject) => {
+      const output = fs.createWriteStream(exportPath);
+      const archive = archiver("zip", { zlib: { level: 9 } });
+      output.on("close", resolve);
+      output.on("error", reject);
+      archive.on("error", reject);
+      archive.pipe(output);
+
+      archive.append(JSON.stringify(manifest, null, 2), { name: "manifest.json" });
+      const data: Record<string, Record<string, unknown[]>> = {};
+      for (const entry of exports.filter((e) => e.rows.length > 0)) {
+        data[entry.subjectType] ??= {};
+        data[entry.subjectType][entry.table] = entry.rows;
+        archive.append(toCsv(entry.rows), { name: dsarCsvPath(entry.subjectType, entry.table) });
+      }
+      archive.append(JSON.stringify(data, null, 2), { name: "data.json" });
+      archive.finalize();
+    });
+
+    await db.update(dsarRequests)
+      .set({
+        dataExportUrl: `/api/compliance/dsar/${dsar.id}/export`,
+        dataExportExpiresAt: dsarExportExpiry(generatedAt),
+        metadata: { ...(dsar.metadata as Record<string, unknown> ?? {}), exportPath, exportGeneratedAt: generatedAt.toISOString() },
+        updatedAt: new Date(),
+      })
+      .where(eq(dsarRequests.id, dsar.id));
+
+    await logActivity(dsar, actor, "EXPORT_GENERATED", `Export bundle available until ${manifest.expiresAt}`, {
+      totalRecords: manifest.totalRecords,
+      files: manifest.files.length,
+    });
+
+    return manifest;
+  }
+
+  /**
+   * Path of a request's export bundle, or null when none was generated or it expired.
+   */
+  async getExportFile(tenantId: string, dsarId: string): Promise<string | null> {
+    const dsar = await this.getRequest(tenantId, dsarId);
+    const exportPath = (dsar.metadata as Record<string, unknown> | null)?.exportPath;
+    if (typeof exportPath !== "string" || !dsar.dataExportExpiresAt) return null;
+    if (dsar.dataExportExpiresAt.getTime() < Date.now()) return null;
+    return fs.existsSync(exportPath) ? exportPath : null;
+  }
+
+  async verifyIdentity(tenantId: string, dsarId: string, actor: DsarActor, method: string): Promise<DsarRequest> {
+    const dsar = await this.getRequest(tenantId, dsarId);
+    const [updated] = await db.update(dsarRequests)
+      .set({ verificationStatus: "verified", verificationMethod: method, verifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(dsarRequests.id, dsar.id))
+      .returning();
+
+    await logActivity(dsar, actor, "IDENTITY_VERIFIED", `Identity verified by ${method}`, { method });
+    return updated;
+  }
+
+  /**
+   * Anonymizes the subject's records across every module. Only runs for
+   * verified erasure requests; tables with a retention obligation are
+   * reported as retained rather than changed.
+   */
+  async erase(tenantId: string, dsarId: string, actor: DsarActor): Promise<DsarErasureResult> {
+    const dsar = await this.getRequest(tenantId, dsarId);
+    if (dsar.requestType !== "erasure") {
+      throw new DsarFulfilmentError(400, "Only erasure requests can be fulfilled by anonymization");
+    }
+    if (dsar.verificationStatus !== "verified") {
+      throw new DsarFulfilmentError(400, "The requester's identity must be verified before erasure");
+    }
+    if (dsar.status === "completed" || dsar.status === "rejected") {
+      throw new DsarFulfilmentError(400, `Request is already ${dsar.status}`);
+    }
+
+    const subjects = await this.findSubjects(dsar);
+    const result: DsarErasureResult = { anonymized: [], retained: [] };
+
+    await db.transaction(async (tx) => {
+      const apply = async (subjectType: string, related: DsarRelatedTable, where: SQL | null) => {
+        if (related.erasure) {
+          const rows = where ? await tx.update(related.table).set(related.erasure).where(where).returning({ id: related.table.id }) : [];
+          result.anonymized.push({ subjectType, table: related.name, recordCount: rows.length });
+        } else if (related.retainReason) {
+          const [{ count }] = where ? await tx.select({ count: sql<number>`count(*)::int` }).from(related.table).where(where) : [{ count: 0 }];
+          result.retained.push({ subjectType, table: related.name, recordCount: count, reason: related.retainReason });
+        }
+      };
+
+      for (const { subjectType, ids } of subjects) {
+        const subject = DSAR_SUBJECTS[subjectType];
+        // Related rows first, all matched before any is changed, since
+        // erasure can clear the values a later table is matched on
+        for (const { related, ids: relatedIds } of await matchRelated(tx, tenantId, subject, ids)) {
+          await apply(subjectType, related, relatedIds.length > 0 ? byIds(tenantId, related.table, relatedIds) : null);
+        }
+        const rows = await tx.update(subject.table)
+          .set(subject.erasure)
+          .where(and(eq(subject.table.tenantId, tenantId), inArray(subject.table.id, ids)))
+          .returning({ id: subject.table.id });
+        result.anonymized.push({ subjectType, table: subject.name, recordCount: rows.length });
+      }
+
+      for (const contact of DSAR_CONTACT_TABLES) {
+        await apply(CONTACT_SUBJECT, contact, relatedConditions(tenantId, contact, contactValues(dsar, contact)));
+      }
+
+      await tx.update(dsarRequests)
+        .set({
+          status: "completed",
+          completedAt: new Date(),
+          responseNotes: `Personal data anonymized in ${result.anonymized.length} tables; ${result.retained.length} tables retained under legal obligations`,
+          updatedAt: new Date(),
+        })
+        .where(eq(dsarRequests.id, dsar.id));
+    });
+
+    const total = result.anonymized.reduce((sum, entry) => sum + entry.recordCount, 0);
+    await logActivity(dsar, actor, "ERASURE_COMPLETED", `Anonymized ${total} records`, { ...result }, "completed");
+    return result;
+  }
+}
+
+export const dsarFulfilmentService = new DsarFulfilmentService();
@@ -0,0 +1,370 @@
+import {
+  customers,
+  bookings,
+  invoices,
+  payments,
+  customerMemberships,
+  patientDocuments,
+  whatsappOptIns,
+  gymMembers,
+  pgResidents,
+  salonAppointments,
+  patients,
+  appointments,
+  medicalRecords,
+  students,
+  attendance,
+  examResults,
+  fees,
+  feePayments,
+  travelers,
+  hrEmployees,
+  hrEmployeeDocuments,
+  hrAttendance,
+  hrLeaves,
+  hrPayroll,
+  hrTimesheets,
+  consentRecords,
+  notificationLogs,
+  documentShareLinks,
+  desks,
+  deskBookings,
+  coworkingRoomBookings,
+  coworkingDeskRecurrences,
+  customerPortalAccounts,
+  customerPortalInvites,
+  deliveryOrders,
+  installationOrders,
+  furnitureSalesOrders,
+  furnitureQuotations,
+  furnitureInvoices,
+  recurringPaymentSchedules,
+  projects,
+  gymCheckIns,
+  gymClassBookings,
+  pgRentCharges,
+  pgDepositLedger,
+  pgMaintenanceTickets,
+  batchStudents,
+  studentRiskPredictions,
+  tourBookings,
+  mobileSyncChanges,
+  tenantWebhookDeliveries,
+} from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { RetentionTable } from "./retention-resources";
+
+export const DSAR_SUBJECT_TYPES = ["customer", "patient", "student", "traveler", "employee"] as const;
+export type DsarSubjectType = typeof DSAR_SUBJECT_TYPES[number];
+
+export const ANONYMIZED_CUSTOMER_NAME = "Anonymized customer";
+export const REDACTED = "[redacted]";
+
+// Secrets are never part of an export, whichever table they sit in
+export const DSAR_EXCLUDED_COLUMNS = [
+  "passwordHash",
+  "pinHash",
+  "qrToken",
+  "token",
+  "tokenHash",
+  "inviteToken",
+  "emailVerificationToken",
+  "passwordResetToken",
+];
+
+export const ANONYMIZED_CUSTOMER_VALUES: Record<string, unknown> = {
+  name: ANONYMIZED_CUSTOMER_NAME,
+  email: null,
+  phone: null,
+  address: null,
+  taxId: null,
+  notes: null,
+  tags: [],
+  customFields: {},
+  metadata: sql`jsonb_build_object('anonymizedAt', now())`,
+};
+
+/**
+ * A table holding records about a subject. `erasure` lists the values that
+ * replace personal data on an erasure request; tables that must be kept
+ * intact (tax, clinical or academic records) give a `retainReason` instead
+ * and are exported but left unchanged. Tables with neither are exported
+ * only.
+ *
+ * Rows match when `column` is one of the subject's ids, or with `via`, one
+ * of the `key` values (ids by default) of the rows already matched in the
+ * named table: the subject's own or an earlier related table.
+ */
+export interface DsarRelatedTable {
+  name: string;
+  table: RetentionTable;
+  column: AnyPgColumn | SQL;
+  via?: { name: string; key?: AnyPgColumn };
+  erasure?: Record<string, unknown>;
+  retainReason?: string;
+}
+
+export interface DsarSubjectDefinition {
+  name: string;
+  table: RetentionTable;
+  emailColumn: AnyPgColumn;
+  phoneColumn: AnyPgColumn;
+  // Records linked to a matched customer belong to the subject even when
+  // their own contact details differ
+  customerColumn?: AnyPgColumn;
+  erasure: Record<string, unknown>;
+  related: DsarRelatedTable[];
+}
+
+export interface DsarContactTable extends DsarRelatedTable {
+  // Also matched on the subject's phone number, e.g. SMS and WhatsApp recipients
+  matchesPhone?: boolean;
+}
+
+const TAX_RECORDS = "Financial records are kept to meet tax and accounting obligations";
+const CLINICAL_RECORDS = "Clinical records are kept to meet medical record-keeping obligations";
+const ACADEMIC_RECORDS = "Academic and fee records are kept to meet institutional record-keeping obligations";
+const EMPLOYMENT_RECORDS = "Payroll and employment documents are kept to meet employment law obligations";
+
+const DELIVERY_ERASURE = {
+  deliveryAddress: REDACTED,
+  deliveryCity: null,
+  deliveryState: null,
+  deliveryPincode: null,
+  deliveryContact: null,
+  deliveryPhone: null,
+  podSignature: null,
+  podPhoto: null,
+  podNotes: null,
+  notes: null,
+  internalNotes: null,
+};
+
+const TOUR_BOOKING_ERASURE = {
+  specialRequests: null,
+  dietaryPreferences: [],
+  emergencyContact: {},
+  pickupDetails: {},
+  notes: null,
+  cancellationReason: null,
+};
+
+// Sync payloads hold the record as the device sent it
+const MOBILE_SYNC_ERASURE = { payload: {}, serverData: null };
+
+// Webhook payloads hold the record as it was published
+const WEBHOOK_DELIVERY_ERASURE = {
+  payload: sql`jsonb_set(${tenantWebhookDeliveries.payload}, '{data}', jsonb_build_object('redacted', true))`,
+  responseBody: null,
+};
+
+function placeholderEmail(id: AnyPgColumn): SQL {
+  return sql`'anonymized-' || ${id} || '@invalid'`;
+}
+
+export const DSAR_SUBJECTS: Record<DsarSubjectType, DsarSubjectDefinition> = {
+  customer: {
+    name: "customers",
+    table: customers,
+    emailColumn: customers.email,
+    phoneColumn: customers.phone,
+    erasure: ANONYMIZED_CUSTOMER_VALUES,
+    related: [
+      { name: "bookings", table: bookings, column: bookings.customerId, erasure: { notes: null, internalNotes: null, cancelReason: null } },
+      { name: "invoices", table: invoices, column: invoices.customerId, retainReason: TAX_RECORDS },
+      { name: "payments", table: payments, column: payments.customerId, retainReason: TAX_RECORDS },
+      { name: "customer_memberships", table: customerMemberships, column: customerMemberships.customerId, erasure: { notes: null } },
+      { name: "patient_documents", table: patientDocuments, column: patientDocuments.customerId, retainReason: CLINICAL_RECORDS },
+      { name: "whatsapp_opt_ins", table: whatsappOptIns, column: whatsappOptIns.customerId, erasure: { phoneNumber: REDACTED, consentIpAddress: null, isActive: false } },
+      { name: "gym_members", table: gymMembers, column: gymMembers.customerId, erasure: { emergencyContactName: null, emergencyContactPhone: null, healthNotes: null } },
+      { name: "pg_residents", table: pgResidents, column: pgResidents.customerId, erasure: { emergencyContactName: null, emergencyContactPhone: null, idProofNumber: null, notes: null } },
+      { name: "salon_appointments", table: salonAppointments, column: salonAppointments.customerId, erasure: { notes: null, cancelReason: null } },
+      { name: "gym_check_ins", table: gymCheckIns, column: gymCheckIns.memberId, via: { name: "gym_members" }, erasure: { ipAddress: null } },
+      { name: "gym_class_bookings", table: gymClassBookings, column: gymClassBookings.memberId, via: { name: "gym_members" } },
+      { name: "pg_rent_charges", table: pgRentCharges, column: pgRentCharges.residentId, via: { name: "pg_residents" }, retainReason: TAX_RECORDS },
+      { name: "pg_deposit_ledger", table: pgDepositLedger, column: pgDepositLedger.residentId, via: { name: "pg_residents" }, retainReason: TAX_RECORDS },
+      { name: "pg_maintenance_tickets", table: pgMaintenanceTickets, column: pgMaintenanceTickets.residentId, via: { name: "pg_residents" }, erasure: { description: null, resolutionNotes: null } },
+      { name: "document_share_links", table: documentShareLinks, column: documentShareLinks.customerId, erasure: { expiresAt: sql`now()` } },
+      { name: "customer_portal_accounts", table: customerPortalAccounts, column: customerPortalAccounts.customerId, erasure: {
+        email: placeholderEmail(customerPortalAccounts.id),
+        passwordHash: null,
+        status: "deactivated",
+        emailVerificationToken: null,
+        passwordResetToken: null,
+        passwordResetExpiresAt: null,
+      } },
+      { name: "customer_portal_invites", table: customerPortalInvites, column: customerPortalInvites.customerId, erasure: { email: placeholderEmail(customerPortalInvites.id), expiresAt: sql`now()` } },
+      { name: "desks", table: desks, column: desks.assignedTo },
+      { name: "desk_bookings", table: deskBookings, column: deskBookings.customerId },
+      { name: "coworking_desk_recurrences", table: coworkingDeskRecurrences, column: coworkingDeskRecurrences.customerId },
+      { name: "coworking_room_bookings", table: coworkingRoomBookings, column: coworkingRoomBookings.customerId, erasure: { title: null, notes: null } },
+      { name: "delivery_orders", table: deliveryOrders, column: deliveryOrders.customerId, erasure: DELIVERY_ERASURE },
+      { name: "installation_orders", table: installationOrders, column: installationOrders.customerId, erasure: {
+        completionPhoto: null,
+        customerSignature: null,
+        customerFeedback: null,
+        notes: null,
+        internalNotes: null,
+      } },
+      { name: "furniture_quotations", table: furnitureQuotations, column: furnitureQuotations.customerId, erasure: { deliveryAddress: null, notes: null, rejectionReason: null } },
+      { name: "furniture_sales_orders", table: furnitureSalesOrders, column: furnitureSalesOrders.customerId, erasure: { deliveryAddress: null, notes: null, internalNotes: null } },
+      { name: "furniture_invoices", table: furnitureInvoices, column: furnitureInvoices.customerId, retainReason: TAX_RECORDS },
+      { name: "recurring_payment_schedules", table: recurringPaymentSchedules, column: recurringPaymentSchedules.customerId, retainReason: TAX_RECORDS },
+      { name: "projects", table: projects, column: projects.customerId },
+      { name: "tour_bookings", table: tourBookings, column: tourBookings.customerId, erasure: TOUR_BOOKING_ERASURE },
+      {
+        name: "mobile_sync_changes",
+        table: mobileSyncChanges,
+        column: sql`case when ${mobileSyncChanges.entity} = 'customers' then ${mobileSyncChanges.recordId} else ${mobileSyncChanges.payload} ->> 'customerId' end`,
+        erasure: MOBILE_SYNC_ERASURE,
+      },
+      {
+        name: "webhook_deliveries",
+        table: tenantWebhookDeliveries,
+        column: sql`case when ${tenantWebhookDeliveries.eventType} like 'customer.%' then ${tenantWebhookDeliveries.payload} -> 'data' ->> 'id' else ${tenantWebhookDeliveries.payload} -> 'data' ->> 'customerId' end`,
+        erasure: WEBHOOK_DELIVERY_ERASURE,
+      },
+    ],
+  },
+  patient: {
+    name: "patients",
+    table: patients,
+    emailColumn: patients.email,
+    phoneColumn: patients.phone,
+    customerColumn: patients.customerId,
+    erasure: {
+      firstName: "Anonymized",
+      lastName: "patient",
+      dateOfBirth: null,
+      phone: null,
+      email: null,
+      address: null,
+      emergencyContact: {},
+      insuranceInfo: {},
+      notes: null,
+      isActive: false,
+    },
+    related: [
+      { name: "appointments", table: appointments, column: appointments.patientId, erasure: { reason: null, notes: null } },
+      { name: "medical_records", table: medicalRecords, column: medicalRecords.patientId, retainReason: CLINICAL_RECORDS },
+    ],
+  },
+  student: {
+    name: "students",
+    table: students,
+    emailColumn: students.email,
+    phoneColumn: students.phone,
+    erasure: {
+      firstName: "Anonymized",
+      lastName: "student",
+      email: null,
+      phone: null,
+      dateOfBirth: null,
+      address: null,
+      city: null,
+      state: null,
+      postalCode: null,
+      guardianName: null,
+      guardianPhone: null,
+      guardianEmail: null,
+      profileImageUrl: null,
+      medicalNotes: null,
+      notes: null,
+    },
+    related: [
+      { name: "attendance", table: attendance, column: attendance.studentId, erasure: { remarks: null } },
+      { name: "exam_results", table: examResults, column: examResults.studentId, retainReason: ACADEMIC_RECORDS },
+      { name: "fees", table: fees, column: fees.studentId, retainReason: ACADEMIC_RECORDS },
+      { name: "fee_payments", table: feePayments, column: feePayments.studentId, retainReason: TAX_RECORDS },
+      { name: "batch_students", table: batchStudents, column: batchStudents.studentId },
+      { name: "student_risk_predictions", table: studentRiskPredictions, column: studentRiskPredictions.studentId, erasure: { explanation: null, suggestedActions: [] } },
+      {
+        name: "mobile_sync_changes",
+        table: mobileSyncChanges,
+        column: sql`case when ${mobileSyncChanges.entity} = 'attendance' then ${mobileSyncChanges.payload} ->> 'studentId' end`,
+        erasure: MOBILE_SYNC_ERASURE,
+      },
+    ],
+  },
+  traveler: {
+    name: "travelers",
+    table: travelers,
+    emailColumn: travelers.email,
+    phoneColumn: travelers.phone,
+    erasure: {
+      firstName: "Anonymized",
+      lastName: "traveler",
+      email: null,
+      phone: null,
+      dateOfBirth: null,
+      passportNumber: null,
+      passportExpiry: null,
+      visaNumber: null,
+      visaExpiry: null,
+      idType: null,
+      idNumber: null,
+      dietaryPreferences: [],
+      medicalConditions: null,
+      specialAssistance: null,
+      emergencyContactName: null,
+      emergencyContactPhone: null,
+      emergencyContactRelation: null,
+    },
+    related: [
+      // The booking belongs to whoever made it, so a traveler's erasure leaves it as is
+      { name: "tour_bookings", table: tourBookings, column: tourBookings.id, via: { name: "travelers", key: travelers.bookingId } },
+    ],
+  },
+  employee: {
+    name: "hr_employees",
+    table: hrEmployees,
+    emailColumn: hrEmployees.email,
+    phoneColumn: hrEmployees.phone,
+    erasure: {
+      firstName: "Anonymized",
+      lastName: "employee",
+      // Email is required and unique per employee, so keep a placeholder
+      email: sql`'anonymized-' || ${hrEmployees.id} || '@invalid'`,
+      phone: null,
+      dateOfBirth: null,
+      address: null,
+      city: null,
+      state: null,
+      postalCode: null,
+      profilePhotoUrl: null,
+      emergencyContactName: null,
+      emergencyContactPhone: null,
+      bankName: null,
+      bankAccountNumber: null,
+      bankIfscCode: null,
+      panNumber: null,
+      aadharNumber: null,
+    },
+    related: [
+      { name: "hr_employee_documents", table: hrEmployeeDocuments, column: hrEmployeeDocuments.employeeId, retainReason: EMPLOYMENT_RECORDS },
+      { name: "hr_attendance", table: hrAttendance, column: hrAttendance.employeeId, erasure: { checkInLocation: null, checkOutLocation: null, notes: null } },
+      { name: "hr_leaves", table: hrLeaves, column: hrLeaves.employeeId, erasure: { reason: null } },
+      { name: "hr_payroll", table: hrPayroll, column: hrPayroll.employeeId, retainReason: EMPLOYMENT_RECORDS },
+      { name: "hr_timesheets", table: hrTimesheets, column: hrTimesheets.employeeId },
+      {
+        name: "webhook_deliveries",
+        table: tenantWebhookDeliveries,
+        column: sql`case when ${tenantWebhookDeliveries.eventType} like 'employee.%' then ${tenantWebhookDeliveries.payload} -> 'data' ->> 'id' end`,
+        erasure: WEBHOOK_DELIVERY_ERASURE,
+      },
+    ],
+  },
+};
+
+/**
+ * Tables tied to the subject's contact details rather than to a subject record.
+ */
+export const DSAR_CONTACT_TABLES: DsarContactTable[] = [
+  { name: "consent_records", table: consentRecords, column: consentRecords.subjectEmail, retainReason: "Consent records are kept as proof of lawful processing" },
+  { name: "notification_logs", table: notificationLogs, column: notificationLogs.recipient, matchesPhone: true, erasure: { recipient: REDACTED, subject: null, body: REDACTED } },
+];
+
+export function stripExcludedColumns(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !DSAR_EXCLUDED_COLUMNS.includes(key)));
+}
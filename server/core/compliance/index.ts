@@ -1,5 +1,9 @@
 export { complianceService, ComplianceService } from "./compliance-service";
 export type { DataCategory, AccessReason, MaskingType } from "./compliance-service";
+export { retentionExecutor, processDueRetentionPolicies } from "./retention-executor";
+export type { RetentionPreview } from "./retention-executor";
+export { dsarFulfilmentService, DsarFulfilmentError } from "./dsar-fulfilment";
+export type { DsarManifest } from "./dsar-bundle";
 export { sensitiveDataAccessLogger, dataMaskingMiddleware } from "./sensitive-access-middleware";
 
 import complianceRoutes from "./compliance-routes";
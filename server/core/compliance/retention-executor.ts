@@ -0,0 +1,300 @@
+import fs from "fs";
+import path from "path";
+import archiver from "archiver";
+import { db } from "../../db";
+import {
+  dataRetentionPolicies,
+  dataRetentionLogs,
+  tenants,
+  type DataRetentionPolicy,
+  type DataRetentionLog,
+} from "@shared/schema";
+import { and, asc, eq, inArray, isNull, lt, or, type SQL } from "drizzle-orm";
+import { auditService } from "../audit";
+import { RETENTION_RESOURCES, retentionCapabilities, type RetentionResource } from "./retention-resources";
+import {
+  RETENTION_MAX_RECORDS_PER_RUN,
+  isRetentionPolicyDue,
+  nextRetentionRunAt,
+  retentionArchiveName,
+  retentionCutoff,
+  unsupportedActionReason,
+  type RetentionAction,
+} from "./retention-rules";
+
+const ARCHIVE_DIR = process.env.RETENTION_ARCHIVE_DIR || path.join(process.cwd(), "data", "retention-archives");
+const WRITE_CHUNK_SIZE = 500;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+export interface RetentionPreview {
+  policyId: string;
+  tenantId: string;
+  resourceType: string;
+  action: string;
+  cutoffDate: Date;
+  legalHold: boolean;
+  supported: boolean;
+  reason: string | null;
+  recordCount: number;
+  truncated: boolean;
+  sample: Record<string, unknown>[];
+}
+
+interface RunContext {
+  policy: DataRetentionPolicy;
+  tenantId: string;
+  triggeredBy: string;
+  now: Date;
+}
+
+type ResolvedPolicy =
+  | { ok: true; resource: RetentionResource; action: RetentionAction }
+  | { ok: false; reason: string };
+
+function resolvePolicy(policy: DataRetentionPolicy): ResolvedPolicy {
+  const resource = RETENTION_RESOURCES[policy.resourceType];
+  if (!resource) {
+    return { ok: false, reason: `No retention mapping for resource type "${policy.resourceType}"` };
+  }
+  const action = policy.deleteAction || "soft_delete";
+  const reason = unsupportedActionReason(action, retentionCapabilities(resource));
+  if (reason) return { ok: false, reason };
+  return { ok: true, resource, action: action as RetentionAction };
+}
+
+function candidateConditions(resource: RetentionResource, action: RetentionAction, tenantId: string, cutoff: Date): SQL {
+  const conditions: SQL[] = [
+    eq(resource.table.tenantId, tenantId),
+    lt(resource.ageColumn, cutoff),
+  ];
+  // Soft-deleted rows are already out of use; only a hard delete still needs to reach them
+  if (resource.deletedAtColumn && action !== "hard_delete") {
+    conditions.push(isNull(resource.deletedAtColumn));
+  }
+  if (action === "anonymize" && resource.anonymize) {
+    conditions.push(resource.anonymize.pending);
+  }
+  return and(...conditions)!;
+}
+
+async function selectCandidates(resource: RetentionResource, where: SQL, limit: number) {
+  return await db.select()
+    .from(resource.table)
+    .where(where)
+    .orderBy(asc(resource.ageColumn))
+    .limit(limit) as Array<Record<string, unknown> & { id: string }>;
+}
+
+async function writeArchive(ctx: RunContext, resourceType: string, cutoff: Date, records: Record<string, unknown>[]): Promise<string> {
+  const dir = path.resolve(ARCHIVE_DIR, ctx.tenantId);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const archivePath = path.join(dir, retentionArchiveName(resourceType, ctx.now));
+
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(archivePath);
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    output.on("close", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+    archive.pipe(output);
+
+    archive.append(JSON.stringify({
+      tenantId: ctx.tenantId,
+      policyId: ctx.policy.id,
+      resourceType,
+      action: ctx.policy.deleteAction,
+      regulation: ctx.policy.regulation,
+      retentionDays: ctx.policy.retentionDays,
+      cutoffDate: cutoff.toISOString(),
+      recordCount: records.length,
+      triggeredBy: ctx.triggeredBy,
+      createdAt: ctx.now.toISOString(),
+    }, null, 2), { name: "manifest.json" });
+    archive.append(JSON.stringify(records, null, 2), { name: "records.json" });
+    archive.finalize();
+  });
+
+  return archivePath;
+}
+
+async function applyAction(resource: RetentionResource, action: RetentionAction, tenantId: string, ids: string[], now: Date) {
+  const { table } = resource;
+  await db.transaction(async (tx) => {
+    for (let i = 0; i < ids.length; i += WRITE_CHUNK_SIZE) {
+      const where = and(eq(table.tenantId, tenantId), inArray(table.id, ids.slice(i, i + WRITE_CHUNK_SIZE)));
+      switch (action) {
+        case "soft_delete":
+          await tx.update(table).set({ deletedAt: now }).where(where);
+          break;
+        case "hard_delete":
+          await tx.delete(table).where(where);
+          break;
+        case "anonymize":
+          await tx.update(table).set(resource.anonymize!.values).where(where);
+          break;
+      }
+    }
+  });
+}
+
+async function recordLog(ctx: RunContext, values: Omit<typeof dataRetentionLogs.$inferInsert, "tenantId" | "policyId" | "resourceType" | "action" | "triggeredBy" | "startedAt">) {
+  const [log] = await db.insert(dataRetentionLogs).values({
+    tenantId: ctx.tenantId,
+    policyId: ctx.policy.id,
+    resourceType: ctx.policy.resourceType,
+    action: ctx.policy.deleteAction || "soft_delete",
+    triggeredBy: ctx.triggeredBy,
+    startedAt: ctx.now,
+    completedAt: new Date(),
+    ...values,
+  }).returning();
+  return log;
+}
+
+/**
+ * Applies data retention policies: finds records past their retention
+ * period, archives them to a local zip bundle and then soft deletes, hard
+ * deletes or anonymizes them. Every run writes a retention log, including
+ * runs skipped for a legal hold and runs that failed.
+ */
+class RetentionExecutor {
+  async preview(policy: DataRetentionPolicy, tenantId: string, now = new Date()): Promise<RetentionPreview> {
+    const cutoffDate = retentionCutoff(now, policy.retentionDays);
+    const resolved = resolvePolicy(policy);
+    const base = {
+      policyId: policy.id,
+      tenantId,
+      resourceType: policy.resourceType,
+      action: policy.deleteAction || "soft_delete",
+      cutoffDate,
+      legalHold: !!policy.legalHold,
+    };
+
+    if (!resolved.ok) {
+      return { ...base, supported: false, reason: resolved.reason, recordCount: 0, truncated: false, sample: [] };
+    }
+
+    const where = candidateConditions(resolved.resource, resolved.action, tenantId, cutoffDate);
+    const ids = await db.select({ id: resolved.resource.table.id })
+      .from(resolved.resource.table)
+      .where(where)
+      .limit(RETENTION_MAX_RECORDS_PER_RUN + 1);
+    const sample = await selectCandidates(resolved.resource, where, PREVIEW_SAMPLE_SIZE);
+
+    return {
+      ...base,
+      supported: true,
+      reason: policy.legalHold ? policy.legalHoldReason || "Policy is under legal hold" : null,
+      recordCount: Math.min(ids.length, RETENTION_MAX_RECORDS_PER_RUN),
+      truncated: ids.length > RETENTION_MAX_RECORDS_PER_RUN,
+      sample,
+    };
+  }
+
+  async execute(policy: DataRetentionPolicy, tenantId: string, triggeredBy: string, now = new Date()): Promise<DataRetentionLog> {
+    const ctx: RunContext = { policy, tenantId, triggeredBy, now };
+    const cutoffDate = retentionCutoff(now, policy.retentionDays);
+
+    if (policy.legalHold) {
+      return recordLog(ctx, {
+        status: "skipped",
+        cutoffDate,
+        reason: policy.legalHoldReason || "Policy is under legal hold",
+      });
+    }
+
+    const resolved = resolvePolicy(policy);
+    if (!resolved.ok) {
+      return recordLog(ctx, { status: "failed", cutoffDate, errorMessage: resolved.reason });
+    }
+
+    try {
+      const { resource, action } = resolved;
+      const records = await selectCandidates(
+        resource,
+        candidateConditions(resource, action, tenantId, cutoffDate),
+        RETENTION_MAX_RECORDS_PER_RUN,
+      );
+      if (records.length === 0) {
+        return recordLog(ctx, { status: "completed", cutoffDate, recordCount: 0 });
+      }
+
+      // Nothing is removed unless the archive was written
+      const archivePath = policy.archiveBeforeDelete !== false
+        ? await writeArchive(ctx, policy.resourceType, cutoffDate, records)
+        : null;
+
+      const ids = records.map((record) => record.id);
+      await applyAction(resource, action, tenantId, ids, now);
+
+      const log = await recordLog(ctx, {
+        status: "completed",
+        cutoffDate,
+        recordCount: ids.length,
+        recordIds: ids,
+        archivePath,
+      });
+
+      auditService.logAsync({
+        tenantId,
+        userId: triggeredBy === "scheduler" ? undefined : triggeredBy,
+        action: action === "anonymize" ? "update" : "delete",
+        resource: policy.resourceType,
+        metadata: { retentionPolicyId: policy.id, retentionLogId: log.id, action, recordCount: ids.length },
+      });
+
+      return log;
+    } catch (error: any) {
+      console.error(`[retention] Policy ${policy.id} failed for tenant ${tenantId}:`, error);
+      return recordLog(ctx, { status: "failed", cutoffDate, errorMessage: error.message });
+    }
+  }
+
+  /**
+   * Tenants a policy applies to. A global policy (no tenant) covers every
+   * active tenant that has no policy of its own for the same resource.
+   */
+  async tenantsForPolicy(policy: DataRetentionPolicy): Promise<string[]> {
+    if (policy.tenantId) return [policy.tenantId];
+
+    const [activeTenants, overrides] = await Promise.all([
+      db.select({ id: tenants.id }).from(tenants).where(eq(tenants.status, "active")),
+      db.select({ tenantId: dataRetentionPolicies.tenantId })
+        .from(dataRetentionPolicies)
+        .where(and(
+          eq(dataRetentionPolicies.resourceType, policy.resourceType),
+          eq(dataRetentionPolicies.isEnabled, true),
+        )),
+    ]);
+    const overridden = new Set(overrides.map((row) => row.tenantId).filter(Boolean));
+    return activeTenants.map((tenant) => tenant.id).filter((id) => !overridden.has(id));
+  }
+
+  async processDuePolicies(now = new Date()): Promise<{ processed: number }> {
+    const policies = await db.select()
+      .from(dataRetentionPolicies)
+      .where(and(
+        eq(dataRetentionPolicies.isEnabled, true),
+        eq(dataRetentionPolicies.autoDelete, true),
+        or(isNull(dataRetentionPolicies.nextScheduledAt), lt(dataRetentionPolicies.nextScheduledAt, now)),
+      ));
+
+    let processed = 0;
+    for (const policy of policies.filter((p) => isRetentionPolicyDue(p, now))) {
+      for (const tenantId of await this.tenantsForPolicy(policy)) {
+        const log = await this.execute(policy, tenantId, "scheduler", now);
+        processed += log.recordCount ?? 0;
+      }
+      await db.update(dataRetentionPolicies)
+        .set({ lastExecutedAt: now, nextScheduledAt: nextRetentionRunAt(now), updatedAt: now })
+        .where(eq(dataRetentionPolicies.id, policy.id));
+    }
+    return { processed };
+  }
+}
+
+export const retentionExecutor = new RetentionExecutor();
+
+export async function processDueRetentionPolicies() {
+  return retentionExecutor.processDuePolicies();
+}
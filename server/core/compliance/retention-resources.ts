@@ -0,0 +1,106 @@
+import {
+  customers,
+  bookings,
+  invoices,
+  notificationLogs,
+  tenantStaffLoginHistory,
+  tenantWebhookDeliveries,
+  mobileSyncChanges,
+} from "@shared/schema";
+import { isNotNull, ne, or, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import type { RetentionCapabilities } from "./retention-rules";
+import { ANONYMIZED_CUSTOMER_NAME, ANONYMIZED_CUSTOMER_VALUES, REDACTED } from "./dsar-subjects";
+
+export type RetentionTable = PgTable & {
+  id: AnyPgColumn;
+  tenantId: AnyPgColumn;
+};
+
+export interface RetentionResource {
+  table: RetentionTable;
+  // Records older than the policy cutoff by this column are in scope
+  ageColumn: AnyPgColumn;
+  deletedAtColumn?: AnyPgColumn;
+  // False where other records still reference the rows (e.g. payments and
+  // rent charges point at invoices), or the rows are tax records
+  hardDelete: boolean;
+  anonymize?: {
+    values: Record<string, unknown>;
+    // Matches rows that still hold personal data, so reruns skip finished rows
+    pending: SQL;
+  };
+}
+
+/**
+ * Maps a policy's `resourceType` to the table it governs. Audit logs are
+ * deliberately absent: tenants must not be able to purge their own trail.
+ */
+export const RETENTION_RESOURCES: Record<string, RetentionResource> = {
+  customers: {
+    table: customers,
+    ageColumn: customers.updatedAt,
+    deletedAtColumn: customers.deletedAt,
+    hardDelete: false,
+    anonymize: {
+      values: ANONYMIZED_CUSTOMER_VALUES,
+      pending: ne(customers.name, ANONYMIZED_CUSTOMER_NAME),
+    },
+  },
+  bookings: {
+    table: bookings,
+    ageColumn: bookings.createdAt,
+    deletedAtColumn: bookings.deletedAt,
+    hardDelete: false,
+    anonymize: {
+      values: { notes: null, internalNotes: null, cancelReason: null },
+      pending: or(isNotNull(bookings.notes), isNotNull(bookings.internalNotes), isNotNull(bookings.cancelReason))!,
+    },
+  },
+  invoices: {
+    table: invoices,
+    ageColumn: invoices.createdAt,
+    deletedAtColumn: invoices.deletedAt,
+    hardDelete: false,
+    anonymize: {
+      values: { notes: null },
+      pending: isNotNull(invoices.notes),
+    },
+  },
+  notification_logs: {
+    table: notificationLogs,
+    ageColumn: notificationLogs.createdAt,
+    hardDelete: true,
+    anonymize: {
+      values: { recipient: REDACTED, subject: null, body: REDACTED },
+      pending: ne(notificationLogs.recipient, REDACTED),
+    },
+  },
+  login_history: {
+    table: tenantStaffLoginHistory,
+    ageColumn: tenantStaffLoginHistory.loginAt,
+    hardDelete: true,
+    anonymize: {
+      values: { ipAddress: null, userAgent: null },
+      pending: or(isNotNull(tenantStaffLoginHistory.ipAddress), isNotNull(tenantStaffLoginHistory.userAgent))!,
+    },
+  },
+  webhook_deliveries: {
+    table: tenantWebhookDeliveries,
+    ageColumn: tenantWebhookDeliveries.createdAt,
+    hardDelete: true,
+  },
+  mobile_sync_changes: {
+    table: mobileSyncChanges,
+    ageColumn: mobileSyncChanges.createdAt,
+    hardDelete: true,
+  },
+};
+
+export function retentionCapabilities(resource: RetentionResource): RetentionCapabilities {
+  return {
+    softDelete: !!resource.deletedAtColumn,
+    hardDelete: resource.hardDelete,
+    anonymize: !!resource.anonymize,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Rules for executing data retention policies.
+ *
+ * A policy removes records of one resource type that are older than
+ * `retentionDays`. Scheduled runs only happen for enabled policies with
+ * `autoDelete` set; a legal hold turns every run, scheduled or manual, into
+ * a logged skip. Tenant admins can place a hold, but only a compliance
+ * officer or platform admin can release one.
+ */
+
+export const RETENTION_ACTIONS = ["soft_delete", "hard_delete", "anonymize"] as const;
+export type RetentionAction = typeof RETENTION_ACTIONS[number];
+
+export const RETENTION_RUN_INTERVAL_DAYS = 1;
+// Upper bound per tenant per run; the rest is picked up by the next run
+export const RETENTION_MAX_RECORDS_PER_RUN = 10000;
+// Shorter periods are almost always a typo and would purge live records
+export const MIN_RETENTION_DAYS = 30;
+export const LEGAL_HOLD_RELEASE_ROLES = ["compliance_officer", "platform_admin", "super_admin"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionCapabilities {
+  softDelete: boolean;
+  hardDelete: boolean;
+  anonymize: boolean;
+}
+
+export interface RetentionPolicySchedule {
+  isEnabled: boolean | null;
+  autoDelete: boolean | null;
+  nextScheduledAt: Date | null;
+}
+
+export function isRetentionAction(value: string): value is RetentionAction {
+  return (RETENTION_ACTIONS as readonly string[]).includes(value);
+}
+
+export function retentionCutoff(now: Date, retentionDays: number): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+export function nextRetentionRunAt(now: Date): Date {
+  return new Date(now.getTime() + RETENTION_RUN_INTERVAL_DAYS * DAY_MS);
+}
+
+export function isRetentionPolicyDue(policy: RetentionPolicySchedule, now: Date): boolean {
+  if (!policy.isEnabled || !policy.autoDelete) return false;
+  return !policy.nextScheduledAt || policy.nextScheduledAt.getTime() <= now.getTime();
+}
+
+export function canReleaseLegalHold(roleName: string | null | undefined): boolean {
+  return !!roleName && (LEGAL_HOLD_RELEASE_ROLES as readonly string[]).includes(roleName.toLowerCase());
+}
+
+/**
+ * Why a policy's action cannot run against a resource, or null when it can.
+ */
+export function unsupportedActionReason(action: string, capabilities: RetentionCapabilities): string | null {
+  if (!isRetentionAction(action)) return `Unknown retention action "${action}"`;
+  if (action === "soft_delete" && !capabilities.softDelete) return "Resource does not support soft deletion";
+  if (action === "hard_delete" && !capabilities.hardDelete) return "Resource cannot be hard deleted";
+  if (action === "anonymize" && !capabilities.anonymize) return "Resource does not support anonymization";
+  return null;
+}
+
+export function retentionArchiveName(resourceType: string, at: Date): string {
+  return `${resourceType}-${at.toISOString().replace(/[:.]/g, "-")}.zip`;
+}
@@ -0,0 +1,350 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  coworkingPlanAllowances,
+  coworkingRoomBookings,
+  coworkingMeetingRooms,
+  customerMemberships,
+  membershipPlans,
+  customers,
+  invoices,
+  invoiceItems,
+  tenants,
+  insertCoworkingPlanAllowanceSchema,
+} from "@shared/schema";
+import { eq, and, asc, desc, sql, gte, lt, lte, isNull, inArray, like } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { addDays, dateString } from "../../utils/time-of-day";
+import { creditWindow } from "./scheduling";
+import { invoiceLedgerService } from "../invoicing";
+
+export const coworkingCreditsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Reader = Pick<Transaction, "select">;
+
+const OVERAGE_DUE_DAYS = 7;
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const periodString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM");
+
+const allowanceSchema = insertCoworkingPlanAllowanceSchema.omit({ tenantId: true, planId: true });
+
+const balanceQuerySchema = z.object({
+  date: dateString.optional(),
+});
+
+const overageRunSchema = z.object({
+  period: periodString,
+});
+
+/**
+ * The customer's active membership on `date` whose plan carries a
+ * meeting-room allowance. With several, the most generous one wins.
+ */
+export async function findCreditMembership(reader: Reader, tenantId: string, customerId: string, date: string) {
+  const [membership] = await reader.select({
+    membershipId: customerMemberships.id,
+    planId: membershipPlans.id,
+    planName: membershipPlans.name,
+    monthlyCredits: coworkingPlanAllowances.monthlyCredits,
+    overageHourlyRate: coworkingPlanAllowances.overageHourlyRate,
+  })
+    .from(customerMemberships)
+    .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+    .innerJoin(coworkingPlanAllowances, eq(coworkingPlanAllowances.planId, membershipPlans.id))
+    .where(and(
+      eq(customerMemberships.tenantId, tenantId),
+      eq(customerMemberships.customerId, customerId),
+      eq(customerMemberships.status, "active"),
+      lte(customerMemberships.startDate, date),
+      gte(customerMemberships.endDate, date)
+    ))
+    .orderBy(desc(coworkingPlanAllowances.monthlyCredits))
+    .limit(1);
+
+  return membership;
+}
+
+export async function creditsUsedInWindow(reader: Reader, tenantId: string, customerId: string, window: { start: Date; end: Date }) {
+  const [result] = await reader.select({
+    used: sql<string>`COALESCE(SUM(${coworkingRoomBookings.creditsUsed}), 0)`,
+  })
+    .from(coworkingRoomBookings)
+    .where(and(
+      eq(coworkingRoomBookings.tenantId, tenantId),
+      eq(coworkingRoomBookings.customerId, customerId),
+      inArray(coworkingRoomBookings.status, ["pending", "confirmed", "completed"]),
+      gte(coworkingRoomBookings.startTime, window.start),
+      lt(coworkingRoomBookings.startTime, window.end)
+    ));
+
+  return parseFloat(result?.used || "0");
+}
+
+async function findPlan(tenantId: string, planId: string) {
+  const [plan] = await db.select()
+    .from(membershipPlans)
+    .where(and(eq(membershipPlans.id, planId), eq(membershipPlans.tenantId, tenantId)));
+  return plan;
+}
+
+coworkingCreditsRouter.get("/plans", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const data = await db.select({
+      planId: membershipPlans.id,
+      name: membershipPlans.name,
+      price: membershipPlans.price,
+      isActive: membershipPlans.isActive,
+      monthlyCredits: coworkingPlanAllowances.monthlyCredits,
+      overageHourlyRate: coworkingPlanAllowances.overageHourlyRate,
+    })
+      .from(membershipPlans)
+      .leftJoin(coworkingPlanAllowances, eq(coworkingPlanAllowances.planId, membershipPlans.id))
+      .where(eq(membershipPlans.tenantId, tenantId))
+      .orderBy(asc(membershipPlans.sortOrder), asc(membershipPlans.name));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingCreditsRouter.get("/plans/:planId/allowance", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const plan = await findPlan(tenantId, req.params.planId);
+    if (!plan) {
+      return res.status(404).json({ message: "Membership plan not found" });
+    }
+
+    const [allowance] = await db.select()
+      .from(coworkingPlanAllowances)
+      .where(eq(coworkingPlanAllowances.planId, plan.id));
+
+    res.json(allowance ?? null);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingCreditsRouter.put("/plans/:planId/allowance", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const plan = await findPlan(tenantId, req.params.planId);
+    if (!plan) {
+      return res.status(404).json({ message: "Membership plan not found" });
+    }
+
+    const parsed = allowanceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [allowance] = await db.insert(coworkingPlanAllowances)
+      .values({ ...parsed.data, tenantId, planId: plan.id })
+      .onConflictDoUpdate({
+        target: coworkingPlanAllowances.planId,
+        set: { ...parsed.data, updatedAt: new Date() },
+      })
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_plan_allowance",
+      resourceId: allowance.id,
+      metadata: { planId: plan.id, monthlyCredits: allowance.monthlyCredits, overageHourlyRate: allowance.overageHourlyRate },
+    });
+
+    res.json(allowance);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingCreditsRouter.get("/members/:customerId", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const { date } = balanceQuerySchema.parse(req.query);
+    const onDate = date ?? new Date().toISOString().split("T")[0];
+
+    const [customer] = await db.select({ id: customers.id })
+      .from(customers)
+      .where(and(eq(customers.id, req.params.customerId), eq(customers.tenantId, tenantId)));
+
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+
+    const window = creditWindow(new Date(`${onDate}T00:00:00Z`));
+    const [membership, used] = await Promise.all([
+      findCreditMembership(db, tenantId, customer.id, onDate),
+      creditsUsedInWindow(db, tenantId, customer.id, window),
+    ]);
+
+    const monthlyCredits = membership ? parseFloat(membership.monthlyCredits) : 0;
+
+    res.json({
+      customerId: customer.id,
+      membership: membership ?? null,
+      windowStart: window.start,
+      windowEnd: window.end,
+      monthlyCredits,
+      creditsUsed: used,
+      creditsRemaining: Math.max(monthlyCredits - used, 0),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+/**
+ * Bills unbilled meeting-room overage for a month: one invoice per customer
+ * with a line per booking. Only bookings that have already ended are billed,
+ * and each booking is billed at most once.
+ */
+coworkingCreditsRouter.post("/overage-runs", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = overageRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { period } = parsed.data;
+    const window = creditWindow(new Date(`${period}-01T00:00:00Z`));
+    const now = new Date();
+
+    const result = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`cw:overage:${tenantId}:${period}`}))`);
+
+      const [tenant] = await tx.select({ currency: tenants.currency })
+        .from(tenants)
+        .where(eq(tenants.id, tenantId));
+
+      const pending = await tx.select({
+        booking: coworkingRoomBookings,
+        roomName: coworkingMeetingRooms.name,
+      })
+        .from(coworkingRoomBookings)
+        .innerJoin(coworkingMeetingRooms, eq(coworkingRoomBookings.roomId, coworkingMeetingRooms.id))
+        .where(and(
+          eq(coworkingRoomBookings.tenantId, tenantId),
+          isNull(coworkingRoomBookings.invoiceId),
+          inArray(coworkingRoomBookings.status, ["confirmed", "completed"]),
+          sql`${coworkingRoomBookings.overageAmount} > 0`,
+          gte(coworkingRoomBookings.startTime, window.start),
+          lt(coworkingRoomBookings.startTime, window.end),
+          lte(coworkingRoomBookings.endTime, now)
+        ))
+        .orderBy(asc(coworkingRoomBookings.customerId), asc(coworkingRoomBookings.startTime));
+
+      const byCustomer = new Map<string, typeof pending>();
+      for (const row of pending) {
+        const rows = byCustomer.get(row.booking.customerId) ?? [];
+        rows.push(row);
+        byCustomer.set(row.booking.customerId, rows);
+      }
+
+      const prefix = `CWO-${period.replace("-", "")}-`;
+      const [existing] = await tx.select({ count: sql<number>`count(*)::int` })
+        .from(invoices)
+        .where(and(eq(invoices.tenantId, tenantId), like(invoices.invoiceNumber, `${prefix}%`)));
+      let sequence = existing?.count || 0;
+
+      const today = now.toISOString().split("T")[0];
+      const created = [];
+
+      for (const [customerId, rows] of Array.from(byCustomer.entries())) {
+        sequence++;
+        const total = rows.reduce((sum, { booking }) => sum + Math.round(parseFloat(booking.overageAmount) * 100), 0) / 100;
+
+        const [invoice] = await tx.insert(invoices).values({
+          tenantId,
+          customerId,
+          invoiceNumber: `${prefix}${String(sequence).padStart(5, "0")}`,
+          status: "pending",
+          currency: tenant?.currency || "INR",
+          subtotal: total.toFixed(2),
+          totalAmount: total.toFixed(2),
+          dueDate: addDays(today, OVERAGE_DUE_DAYS),
+          notes: `Meeting room overage for ${period}`,
+          metadata: { source: "coworking_overage", period, bookingIds: rows.map(({ booking }) => booking.id) },
+          createdBy: userId,
+        }).returning();
+
+        await tx.insert(invoiceItems).values(rows.map(({ booking, roomName }) => ({
+          invoiceId: invoice.id,
+          description: `Meeting room overage - ${roomName}, ${booking.startTime.toISOString().split("T")[0]} (${booking.overageHours} h)`,
+          quantity: 1,
+          unitPrice: booking.overageAmount,
+          totalPrice: booking.overageAmount,
+        })));
+
+        await tx.update(coworkingRoomBookings)
+          .set({ invoiceId: invoice.id, updatedAt: new Date() })
+          .where(inArray(coworkingRoomBookings.id, rows.map(({ booking }) => booking.id)));
+
+        created.push({
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          customerId,
+          bookingCount: rows.length,
+          totalAmount: invoice.totalAmount,
+        });
+      }
+
+      return { period, invoiceCount: created.length, bookingCount: pending.length, invoices: created };
+    });
+
+    if (result.invoiceCount > 0) {
+      await auditService.logAsync({
+        tenantId,
+        userId,
+        action: "create",
+        resource: "coworking_overage_run",
+        metadata: { period, invoiceCount: result.invoiceCount, bookingCount: result.bookingCount },
+      });
+    }
+
+    for (const invoice of result.invoices) {
+      invoiceLedgerService.postAsync(tenantId, "core", invoice.invoiceId);
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
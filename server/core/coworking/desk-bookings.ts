@@ -0,0 +1,242 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { desks, deskBookings, customers } from "@shared/schema";
+import { eq, and, desc, sql, gte, lte, lt, gt, inArray, ne } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const coworkingDeskBookingsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const listQuerySchema = z.object({
+  deskId: z.string().optional(),
+  customerId: z.string().optional(),
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  mine: z.enum(["true", "false"]).optional(),
+});
+
+const createBookingSchema = z.object({
+  deskId: z.string().min(1),
+  customerId: z.string().optional(),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+}).refine(data => data.endTime > data.startTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
+});
+
+const statusSchema = z.object({
+  status: z.enum(["confirmed", "completed", "cancelled"]),
+});
+
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export class DeskUnavailableError extends Error {
+  constructor(message: string, public conflicts: { id: string; startTime: Date; endTime: Date }[] = []) {
+    super(message);
+    this.name = "DeskUnavailableError";
+  }
+}
+
+/**
+ * Reserves a desk for one time range inside the caller's transaction.
+ * Serialises on the desk so overlapping requests cannot both succeed.
+ */
+export async function reserveDesk(
+  tx: Transaction,
+  booking: {
+    tenantId: string;
+    deskId: string;
+    userId: string;
+    customerId?: string | null;
+    recurrenceId?: string | null;
+    startTime: Date;
+    endTime: Date;
+  }
+) {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`cw:desk:${booking.deskId}`}))`);
+
+  const [desk] = await tx.select()
+    .from(desks)
+    .where(and(eq(desks.id, booking.deskId), eq(desks.tenantId, booking.tenantId)));
+
+  if (!desk) {
+    throw new DeskUnavailableError("Desk not found");
+  }
+  if (desk.status === "maintenance") {
+    throw new DeskUnavailableError("Desk is under maintenance");
+  }
+  if (desk.type === "dedicated" && desk.assignedTo && desk.assignedTo !== booking.customerId) {
+    throw new DeskUnavailableError("Desk is dedicated to another member");
+  }
+
+  const conflicts = await tx.select({ id: deskBookings.id, startTime: deskBookings.startTime, endTime: deskBookings.endTime })
+    .from(deskBookings)
+    .where(and(
+      eq(deskBookings.deskId, booking.deskId),
+      inArray(deskBookings.status, ["pending", "confirmed"]),
+      lt(deskBookings.startTime, booking.endTime),
+      gt(deskBookings.endTime, booking.startTime)
+    ));
+
+  if (conflicts.length > 0) {
+    throw new DeskUnavailableError("Desk is already booked for part of this time", conflicts);
+  }
+
+  const [created] = await tx.insert(deskBookings).values({ ...booking, status: "confirmed" }).returning();
+  return created;
+}
+
+coworkingDeskBookingsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { deskId, customerId, status, from, to, mine } = listQuerySchema.parse(req.query);
+    const conditions = [eq(deskBookings.tenantId, tenantId)];
+
+    if (deskId) {
+      conditions.push(eq(deskBookings.deskId, deskId));
+    }
+
+    if (customerId) {
+      conditions.push(eq(deskBookings.customerId, customerId));
+    }
+
+    if (status) {
+      conditions.push(eq(deskBookings.status, status));
+    }
+
+    if (from) {
+      conditions.push(gte(deskBookings.endTime, from));
+    }
+
+    if (to) {
+      conditions.push(lte(deskBookings.startTime, to));
+    }
+
+    if (mine === "true" && req.context?.user?.id) {
+      conditions.push(eq(deskBookings.userId, req.context.user.id));
+    }
+
+    const data = await db.select()
+      .from(deskBookings)
+      .where(and(...conditions))
+      .orderBy(desc(deskBookings.startTime))
+      .limit(500);
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDeskBookingsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const parsed = createBookingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    if (parsed.data.customerId) {
+      const [customer] = await db.select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, parsed.data.customerId), eq(customers.tenantId, tenantId)));
+      if (!customer) {
+        return res.status(400).json({ message: "Customer not found" });
+      }
+    }
+
+    const booking = await db.transaction(tx => reserveDesk(tx, { ...parsed.data, tenantId, userId }));
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "coworking_desk_booking",
+      resourceId: booking.id,
+      metadata: { deskId: booking.deskId, startTime: booking.startTime, endTime: booking.endTime },
+    });
+
+    res.status(201).json(booking);
+  } catch (error: any) {
+    if (error instanceof DeskUnavailableError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDeskBookingsRouter.patch("/:id/status", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = statusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [booking] = await db.select()
+      .from(deskBookings)
+      .where(and(eq(deskBookings.id, req.params.id), eq(deskBookings.tenantId, tenantId)));
+
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const from = booking.status || "pending";
+    if (!STATUS_TRANSITIONS[from]?.includes(parsed.data.status)) {
+      return res.status(400).json({ message: `Cannot move booking from ${from} to ${parsed.data.status}` });
+    }
+
+    const [updated] = await db.update(deskBookings)
+      .set({ status: parsed.data.status })
+      .where(and(eq(deskBookings.id, booking.id), ne(deskBookings.status, parsed.data.status)))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_desk_booking",
+      resourceId: booking.id,
+      metadata: { statusChange: { from, to: parsed.data.status } },
+    });
+
+    res.json(updated ?? booking);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,222 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { desks, spaces, deskBookings, customers, insertDeskSchema } from "@shared/schema";
+import { eq, and, asc, sql, gt, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const coworkingDesksRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const listQuerySchema = z.object({
+  spaceId: z.string().optional(),
+  type: z.enum(["hot", "dedicated"]).optional(),
+  status: z.enum(["available", "occupied", "reserved", "maintenance"]).optional(),
+});
+
+const deskSchema = insertDeskSchema.omit({ tenantId: true });
+
+async function findDesk(tenantId: string, id: string) {
+  const [desk] = await db.select()
+    .from(desks)
+    .where(and(eq(desks.id, id), eq(desks.tenantId, tenantId)));
+  return desk;
+}
+
+async function validateReferences(tenantId: string, refs: { spaceId?: string; assignedTo?: string | null }): Promise<string | null> {
+  if (refs.spaceId) {
+    const [space] = await db.select({ id: spaces.id })
+      .from(spaces)
+      .where(and(eq(spaces.id, refs.spaceId), eq(spaces.tenantId, tenantId)));
+    if (!space) return "Space not found";
+  }
+
+  if (refs.assignedTo) {
+    const [customer] = await db.select({ id: customers.id })
+      .from(customers)
+      .where(and(eq(customers.id, refs.assignedTo), eq(customers.tenantId, tenantId)));
+    if (!customer) return "Customer not found";
+  }
+
+  return null;
+}
+
+coworkingDesksRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { spaceId, type, status } = listQuerySchema.parse(req.query);
+    const conditions = [eq(desks.tenantId, tenantId)];
+
+    if (spaceId) {
+      conditions.push(eq(desks.spaceId, spaceId));
+    }
+
+    if (type) {
+      conditions.push(eq(desks.type, type));
+    }
+
+    if (status) {
+      conditions.push(eq(desks.status, status));
+    }
+
+    const data = await db.select()
+      .from(desks)
+      .where(and(...conditions))
+      .orderBy(asc(desks.name));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDesksRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+
+    const desk = await findDesk(isolation.getTenantId(), req.params.id);
+    if (!desk) {
+      return res.status(404).json({ message: "Desk not found" });
+    }
+
+    res.json(desk);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDesksRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = deskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const referenceError = await validateReferences(tenantId, parsed.data);
+    if (referenceError) {
+      return res.status(400).json({ message: referenceError });
+    }
+
+    const [desk] = await db.insert(desks).values({ ...parsed.data, tenantId }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "coworking_desk",
+      resourceId: desk.id,
+      metadata: { name: desk.name, type: desk.type, spaceId: desk.spaceId },
+    });
+
+    res.status(201).json(desk);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDesksRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findDesk(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Desk not found" });
+    }
+
+    const parsed = deskSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const referenceError = await validateReferences(tenantId, parsed.data);
+    if (referenceError) {
+      return res.status(400).json({ message: referenceError });
+    }
+
+    const [updated] = await db.update(desks)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(desks.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_desk",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingDesksRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findDesk(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Desk not found" });
+    }
+
+    const [history] = await db.select({
+      total: sql<number>`count(*)::int`,
+      upcoming: sql<number>`count(*) FILTER (WHERE ${gt(deskBookings.endTime, new Date())} AND ${inArray(deskBookings.status, ["pending", "confirmed"])})::int`,
+    })
+      .from(deskBookings)
+      .where(eq(deskBookings.deskId, existing.id));
+
+    if (history?.upcoming) {
+      return res.status(409).json({ message: "Desk has upcoming bookings; cancel them first" });
+    }
+
+    // Desks with past bookings are kept for history and taken out of service
+    if (history?.total) {
+      await db.update(desks)
+        .set({ status: "maintenance", updatedAt: new Date() })
+        .where(eq(desks.id, existing.id));
+    } else {
+      await db.delete(desks).where(eq(desks.id, existing.id));
+    }
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "coworking_desk",
+      resourceId: existing.id,
+      metadata: { retired: !!history?.total },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
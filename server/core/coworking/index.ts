@@ -1,20 +1,41 @@
 /**
  * Coworking Space Module
- * 
+ *
  * Coworking and shared office management:
- * - Desk inventory (hot desk, dedicated)
- * - Meeting room bookings
- * - Membership plans
- * - Access control
- * - Amenity management
- * 
+ * - Spaces and desk inventory (hot desk, dedicated)
+ * - Desk bookings, including weekly recurring reservations
+ * - Hourly meeting rooms paid for with membership plan credits
+ * - Overage billing into invoices
+ * - Availability grid for the floor-plan view
+ *
  * @module server/core/coworking
  */
 
 import { Router, type Request, type Response } from "express";
-import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
-import { tenantIsolationMiddleware } from "../tenant-isolation";
+import { db } from "../../db";
+import {
+  spaces,
+  desks,
+  deskBookings,
+  coworkingMeetingRooms,
+  coworkingRoomBookings,
+  customerMemberships,
+  membershipPlans,
+  customers,
+} from "@shared/schema";
+import { eq, and, asc, desc, sql, lt, gt, gte, lte, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { dateString, minutesToTime, timeString, timeToMinutes } from "../../utils/time-of-day";
+import { buildAvailabilityRow, toTimestamp } from "./scheduling";
+import { coworkingSpacesRouter } from "./spaces";
+import { coworkingDesksRouter } from "./desks";
+import { coworkingDeskBookingsRouter } from "./desk-bookings";
+import { coworkingRecurringRouter } from "./recurring";
+import { coworkingMeetingRoomsRouter } from "./meeting-rooms";
+import { coworkingRoomBookingsRouter } from "./room-bookings";
+import { coworkingCreditsRouter } from "./credits";
 
 export const coworkingRouter = Router();
 
@@ -24,111 +45,277 @@ const baseMiddleware = [
 ];
 
 const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
-const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
 
 const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
   search: z.string().optional(),
-  status: z.string().optional(),
 });
 
-coworkingRouter.get("/desks", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
+const availabilityQuerySchema = z.object({
+  spaceId: z.string().min(1),
+  date: dateString,
+  slotMinutes: z.coerce.number().refine(value => [15, 30, 60].includes(value), "Expected 15, 30 or 60").default(30),
+  from: timeString.default("06:00"),
+  to: z.union([timeString, z.literal("24:00")]).default("22:00"),
 });
 
-coworkingRouter.post("/desks", ...managerMiddleware, async (req: Request, res: Response) => {
+async function dashboardStats(req: Request, res: Response) {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-coworkingRouter.get("/meeting-rooms", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+    const dayStart = toTimestamp(today, "00:00");
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    const [deskCounts, roomCount, deskBookingCount, roomBookingCount, memberCount] = await Promise.all([
+      // A desk is occupied while a confirmed booking covers the current time
+      db.select({
+        total: sql<number>`count(*)::int`,
+        maintenance: sql<number>`count(*) FILTER (WHERE ${desks.status} = 'maintenance')::int`,
+        occupied: sql<number>`count(*) FILTER (WHERE ${desks.status} = 'occupied' OR EXISTS (SELECT 1 FROM ${deskBookings} WHERE ${deskBookings.deskId} = ${desks.id} AND ${deskBookings.status} = 'confirmed' AND ${deskBookings.startTime} <= ${now} AND ${deskBookings.endTime} > ${now}))::int`,
+      })
+        .from(desks)
+        .where(eq(desks.tenantId, tenantId)),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(coworkingMeetingRooms)
+        .where(and(eq(coworkingMeetingRooms.tenantId, tenantId), eq(coworkingMeetingRooms.isActive, true), isNull(coworkingMeetingRooms.deletedAt))),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(deskBookings)
+        .where(and(
+          eq(deskBookings.tenantId, tenantId),
+          inArray(deskBookings.status, ["pending", "confirmed", "completed"]),
+          gte(deskBookings.startTime, dayStart),
+          lt(deskBookings.startTime, dayEnd)
+        )),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(coworkingRoomBookings)
+        .where(and(
+          eq(coworkingRoomBookings.tenantId, tenantId),
+          inArray(coworkingRoomBookings.status, ["pending", "confirmed", "completed"]),
+          gte(coworkingRoomBookings.startTime, dayStart),
+          lt(coworkingRoomBookings.startTime, dayEnd)
+        )),
+
+      db.select({ count: sql<number>`count(DISTINCT ${customerMemberships.customerId})::int` })
+        .from(customerMemberships)
+        .where(and(
+          eq(customerMemberships.tenantId, tenantId),
+          eq(customerMemberships.status, "active"),
+          lte(customerMemberships.startDate, today),
+          gte(customerMemberships.endDate, today)
+        )),
+    ]);
+
+    const totalDesks = deskCounts[0]?.total || 0;
+    const occupiedDesks = deskCounts[0]?.occupied || 0;
 
-coworkingRouter.get("/bookings", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
     res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+      totalDesks,
+      occupiedDesks,
+      availableDesks: Math.max(totalDesks - occupiedDesks - (deskCounts[0]?.maintenance || 0), 0),
+      totalMeetingRooms: roomCount[0]?.count || 0,
+      todayBookings: (deskBookingCount[0]?.count || 0) + (roomBookingCount[0]?.count || 0),
+      activeMembers: memberCount[0]?.count || 0,
     });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
+  } catch (error) {
+    console.error("[coworking/dashboard] Error:", error);
+    res.status(500).json({ message: "Failed to fetch dashboard stats" });
   }
-});
+}
 
-coworkingRouter.post("/bookings", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+coworkingRouter.get("/dashboard", ...staffMiddleware, dashboardStats);
+coworkingRouter.get("/stats", ...staffMiddleware, dashboardStats);
 
+// Members with a membership that is active today
 coworkingRouter.get("/members", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
+
     const query = paginationSchema.parse(req.query);
+    const offset = (query.page - 1) * query.limit;
+    const today = new Date().toISOString().split("T")[0];
+
+    const conditions = [
+      eq(customerMemberships.tenantId, tenantId),
+      eq(customerMemberships.status, "active"),
+      lte(customerMemberships.startDate, today),
+      gte(customerMemberships.endDate, today),
+    ];
+
+    if (query.search) {
+      conditions.push(sql`${customers.name} ILIKE ${`%${query.search}%`}`);
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        membershipId: customerMemberships.id,
+        customerId: customers.id,
+        name: customers.name,
+        email: customers.email,
+        phone: customers.phone,
+        planId: membershipPlans.id,
+        planName: membershipPlans.name,
+        startDate: customerMemberships.startDate,
+        endDate: customerMemberships.endDate,
+      })
+        .from(customerMemberships)
+        .innerJoin(customers, eq(customerMemberships.customerId, customers.id))
+        .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+        .where(and(...conditions))
+        .orderBy(asc(customers.name), desc(customerMemberships.endDate))
+        .limit(query.limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(customerMemberships)
+        .innerJoin(customers, eq(customerMemberships.customerId, customers.id))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
     res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+      data,
+      pagination: { page: query.page, limit: query.limit, total, totalPages: Math.ceil(total / query.limit) },
     });
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
-coworkingRouter.get("/dashboard", ...staffMiddleware, async (req: Request, res: Response) => {
+/**
+ * Floor-plan grid for one space and day: a row of time slots per desk and
+ * per meeting room, each slot free, booked, closed or blocked.
+ */
+coworkingRouter.get("/availability", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = availabilityQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { spaceId, date, slotMinutes, from, to } = parsed.data;
+    if (timeToMinutes(from) >= timeToMinutes(to)) {
+      return res.status(400).json({ message: "'to' must be after 'from'" });
+    }
+
+    const [space] = await db.select()
+      .from(spaces)
+      .where(and(eq(spaces.id, spaceId), eq(spaces.tenantId, tenantId)));
+
+    if (!space) {
+      return res.status(404).json({ message: "Space not found" });
+    }
+
+    const windowStart = toTimestamp(date, from);
+    const windowEnd = new Date(toTimestamp(date, "00:00").getTime() + timeToMinutes(to) * 60 * 1000);
+
+    const [spaceDesks, rooms] = await Promise.all([
+      db.select().from(desks).where(and(eq(desks.tenantId, tenantId), eq(desks.spaceId, space.id))).orderBy(asc(desks.name)),
+      db.select()
+        .from(coworkingMeetingRooms)
+        .where(and(eq(coworkingMeetingRooms.tenantId, tenantId), eq(coworkingMeetingRooms.spaceId, space.id), isNull(coworkingMeetingRooms.deletedAt)))
+        .orderBy(asc(coworkingMeetingRooms.name)),
+    ]);
+
+    const deskIds = spaceDesks.map(desk => desk.id);
+    const roomIds = rooms.map(room => room.id);
+
+    const [deskRows, roomRows] = await Promise.all([
+      deskIds.length === 0 ? [] : db.select({ id: deskBookings.id, deskId: deskBookings.deskId, startTime: deskBookings.startTime, endTime: deskBookings.endTime })
+        .from(deskBookings)
+        .where(and(
+          inArray(deskBookings.deskId, deskIds),
+          inArray(deskBookings.status, ["pending", "confirmed"]),
+          lt(deskBookings.startTime, windowEnd),
+          gt(deskBookings.endTime, windowStart)
+        )),
+      roomIds.length === 0 ? [] : db.select({ id: coworkingRoomBookings.id, roomId: coworkingRoomBookings.roomId, startTime: coworkingRoomBookings.startTime, endTime: coworkingRoomBookings.endTime })
+        .from(coworkingRoomBookings)
+        .where(and(
+          inArray(coworkingRoomBookings.roomId, roomIds),
+          inArray(coworkingRoomBookings.status, ["pending", "confirmed"]),
+          lt(coworkingRoomBookings.startTime, windowEnd),
+          gt(coworkingRoomBookings.endTime, windowStart)
+        )),
+    ]);
+
+    const slots = [];
+    for (let minute = timeToMinutes(from); minute + slotMinutes <= timeToMinutes(to); minute += slotMinutes) {
+      slots.push({ start: minutesToTime(minute), end: minutesToTime(minute + slotMinutes) });
+    }
+
     res.json({
-      totalDesks: 0,
-      occupiedDesks: 0,
-      availableDesks: 0,
-      totalMeetingRooms: 0,
-      todayBookings: 0,
-      activeMembers: 0,
+      spaceId: space.id,
+      spaceName: space.name,
+      date,
+      slotMinutes,
+      slots,
+      desks: spaceDesks.map(desk => ({
+        id: desk.id,
+        name: desk.name,
+        type: desk.type,
+        status: desk.status,
+        assignedTo: desk.assignedTo,
+        cells: buildAvailabilityRow({
+          date,
+          from,
+          to,
+          slotMinutes,
+          bookings: deskRows.filter(row => row.deskId === desk.id),
+          blocked: desk.status === "maintenance" || !space.isActive,
+        }),
+      })),
+      meetingRooms: rooms.map(room => ({
+        id: room.id,
+        name: room.name,
+        capacity: room.capacity,
+        hourlyRate: room.hourlyRate,
+        creditsPerHour: room.creditsPerHour,
+        cells: buildAvailabilityRow({
+          date,
+          from,
+          to,
+          slotMinutes,
+          bookings: roomRows.filter(row => row.roomId === room.id),
+          open: { openTime: room.openTime, closeTime: room.closeTime },
+          blocked: !room.isActive || !space.isActive,
+        }),
+      })),
     });
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
+coworkingRouter.use("/spaces", coworkingSpacesRouter);
+coworkingRouter.use("/desks", coworkingDesksRouter);
+coworkingRouter.use("/bookings", coworkingDeskBookingsRouter);
+coworkingRouter.use("/recurring-reservations", coworkingRecurringRouter);
+coworkingRouter.use("/meeting-rooms", coworkingMeetingRoomsRouter);
+coworkingRouter.use("/room-bookings", coworkingRoomBookingsRouter);
+coworkingRouter.use("/credits", coworkingCreditsRouter);
+
+export {
+  coworkingSpacesRouter,
+  coworkingDesksRouter,
+  coworkingDeskBookingsRouter,
+  coworkingRecurringRouter,
+  coworkingMeetingRoomsRouter,
+  coworkingRoomBookingsRouter,
+  coworkingCreditsRouter,
+};
+
 export default coworkingRouter;
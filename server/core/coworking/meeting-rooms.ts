@@ -0,0 +1,223 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { coworkingMeetingRooms, coworkingRoomBookings, spaces, insertCoworkingMeetingRoomSchema } from "@shared/schema";
+import { eq, and, asc, sql, isNull, gt, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { timeString, timeToMinutes } from "../../utils/time-of-day";
+
+export const coworkingMeetingRoomsRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const listQuerySchema = z.object({
+  spaceId: z.string().optional(),
+  minCapacity: z.coerce.number().int().min(1).optional(),
+});
+
+const roomSchema = insertCoworkingMeetingRoomSchema.omit({ tenantId: true }).extend({
+  openTime: timeString.optional(),
+  closeTime: timeString.optional(),
+  capacity: z.number().int().min(1).optional(),
+});
+
+function hoursError(data: { openTime?: string; closeTime?: string }, existing?: { openTime: string; closeTime: string }) {
+  const openTime = data.openTime ?? existing?.openTime;
+  const closeTime = data.closeTime ?? existing?.closeTime;
+  if (openTime && closeTime && timeToMinutes(openTime) >= timeToMinutes(closeTime)) {
+    return "Close time must be after open time";
+  }
+  return null;
+}
+
+async function findRoom(tenantId: string, id: string) {
+  const [room] = await db.select()
+    .from(coworkingMeetingRooms)
+    .where(and(eq(coworkingMeetingRooms.id, id), eq(coworkingMeetingRooms.tenantId, tenantId), isNull(coworkingMeetingRooms.deletedAt)));
+  return room;
+}
+
+async function spaceExists(tenantId: string, spaceId: string) {
+  const [space] = await db.select({ id: spaces.id })
+    .from(spaces)
+    .where(and(eq(spaces.id, spaceId), eq(spaces.tenantId, tenantId)));
+  return !!space;
+}
+
+coworkingMeetingRoomsRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { spaceId, minCapacity } = listQuerySchema.parse(req.query);
+    const conditions = [eq(coworkingMeetingRooms.tenantId, tenantId), isNull(coworkingMeetingRooms.deletedAt)];
+
+    if (spaceId) {
+      conditions.push(eq(coworkingMeetingRooms.spaceId, spaceId));
+    }
+
+    if (minCapacity) {
+      conditions.push(sql`${coworkingMeetingRooms.capacity} >= ${minCapacity}`);
+    }
+
+    const data = await db.select()
+      .from(coworkingMeetingRooms)
+      .where(and(...conditions))
+      .orderBy(asc(coworkingMeetingRooms.name));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingMeetingRoomsRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+
+    const room = await findRoom(isolation.getTenantId(), req.params.id);
+    if (!room) {
+      return res.status(404).json({ message: "Meeting room not found" });
+    }
+
+    res.json(room);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingMeetingRoomsRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = roomSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const validationError = hoursError(parsed.data, { openTime: "08:00", closeTime: "20:00" });
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    if (!(await spaceExists(tenantId, parsed.data.spaceId))) {
+      return res.status(400).json({ message: "Space not found" });
+    }
+
+    const [room] = await db.insert(coworkingMeetingRooms).values({ ...parsed.data, tenantId }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "coworking_meeting_room",
+      resourceId: room.id,
+      metadata: { name: room.name, spaceId: room.spaceId, hourlyRate: room.hourlyRate },
+    });
+
+    res.status(201).json(room);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingMeetingRoomsRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findRoom(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Meeting room not found" });
+    }
+
+    const parsed = roomSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const validationError = hoursError(parsed.data, existing);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    if (parsed.data.spaceId && !(await spaceExists(tenantId, parsed.data.spaceId))) {
+      return res.status(400).json({ message: "Space not found" });
+    }
+
+    const [updated] = await db.update(coworkingMeetingRooms)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(coworkingMeetingRooms.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_meeting_room",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingMeetingRoomsRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findRoom(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Meeting room not found" });
+    }
+
+    const [upcoming] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(coworkingRoomBookings)
+      .where(and(
+        eq(coworkingRoomBookings.roomId, existing.id),
+        inArray(coworkingRoomBookings.status, ["pending", "confirmed"]),
+        gt(coworkingRoomBookings.endTime, new Date())
+      ));
+
+    if (upcoming?.count) {
+      return res.status(409).json({ message: "Meeting room has upcoming bookings; cancel them first" });
+    }
+
+    await db.update(coworkingMeetingRooms)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(coworkingMeetingRooms.id, existing.id));
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "coworking_meeting_room",
+      resourceId: existing.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,206 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { desks, deskBookings, coworkingDeskRecurrences, customers } from "@shared/schema";
+import { eq, and, desc, sql, gt, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { WEEKDAYS, addDays, dateString, timeString, timeToMinutes, type Weekday } from "../../utils/time-of-day";
+import { expandRecurrence, toTimestamp } from "./scheduling";
+import { reserveDesk, DeskUnavailableError } from "./desk-bookings";
+
+export const coworkingRecurringRouter = Router();
+
+const MAX_RECURRENCE_DAYS = 180;
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const recurrenceSchema = z.object({
+  deskId: z.string().min(1),
+  customerId: z.string().optional(),
+  weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+  startTime: timeString,
+  endTime: timeString,
+  startDate: dateString,
+  endDate: dateString,
+}).refine(data => timeToMinutes(data.startTime) < timeToMinutes(data.endTime), {
+  message: "End time must be after start time",
+  path: ["endTime"],
+}).refine(data => data.startDate <= data.endDate && data.endDate <= addDays(data.startDate, MAX_RECURRENCE_DAYS), {
+  message: `End date must be within ${MAX_RECURRENCE_DAYS} days of the start date`,
+  path: ["endDate"],
+});
+
+coworkingRecurringRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const data = await db.select({
+      recurrence: coworkingDeskRecurrences,
+      deskName: desks.name,
+      upcomingBookings: sql<number>`(SELECT count(*)::int FROM ${deskBookings} WHERE ${deskBookings.recurrenceId} = ${coworkingDeskRecurrences.id} AND ${deskBookings.status} IN ('pending', 'confirmed') AND ${deskBookings.startTime} > now())`,
+    })
+      .from(coworkingDeskRecurrences)
+      .innerJoin(desks, eq(coworkingDeskRecurrences.deskId, desks.id))
+      .where(eq(coworkingDeskRecurrences.tenantId, tenantId))
+      .orderBy(desc(coworkingDeskRecurrences.createdAt));
+
+    res.json(data.map(({ recurrence, ...rest }) => ({ ...recurrence, ...rest })));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+/**
+ * Creates a weekly desk reservation and books each occurrence. Dates that
+ * clash with an existing booking are skipped and reported, not fatal.
+ */
+coworkingRecurringRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+    if (!userId) {
+      return res.status(401).json({ message: "User not authenticated" });
+    }
+
+    const parsed = recurrenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { deskId, customerId, weekdays, startTime, endTime, startDate, endDate } = parsed.data;
+
+    const [desk] = await db.select()
+      .from(desks)
+      .where(and(eq(desks.id, deskId), eq(desks.tenantId, tenantId)));
+
+    if (!desk) {
+      return res.status(400).json({ message: "Desk not found" });
+    }
+
+    if (customerId) {
+      const [customer] = await db.select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId)));
+      if (!customer) {
+        return res.status(400).json({ message: "Customer not found" });
+      }
+    }
+
+    const dates = expandRecurrence(startDate, endDate, weekdays as Weekday[]);
+    if (dates.length === 0) {
+      return res.status(400).json({ message: "No matching weekdays in the date range" });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [recurrence] = await tx.insert(coworkingDeskRecurrences).values({
+        tenantId,
+        deskId,
+        userId,
+        customerId,
+        weekdays,
+        startTime,
+        endTime,
+        startDate,
+        endDate: dates[dates.length - 1],
+      }).returning();
+
+      const bookings = [];
+      const skipped = [];
+
+      for (const date of dates) {
+        try {
+          // Savepoint per occurrence so one clash does not abort the series
+          const booking = await tx.transaction(sp => reserveDesk(sp, {
+            tenantId,
+            deskId,
+            userId,
+            customerId,
+            recurrenceId: recurrence.id,
+            startTime: toTimestamp(date, startTime),
+            endTime: toTimestamp(date, endTime),
+          }));
+          bookings.push(booking);
+        } catch (error) {
+          if (!(error instanceof DeskUnavailableError)) throw error;
+          skipped.push({ date, reason: error.message });
+        }
+      }
+
+      return { ...recurrence, bookings, skipped };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "coworking_desk_recurrence",
+      resourceId: result.id,
+      metadata: { deskId, weekdays, startDate, endDate: result.endDate, booked: result.bookings.length, skipped: result.skipped.length },
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Cancels the series and every occurrence that has not started yet
+coworkingRecurringRouter.delete("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const [recurrence] = await db.select()
+      .from(coworkingDeskRecurrences)
+      .where(and(eq(coworkingDeskRecurrences.id, req.params.id), eq(coworkingDeskRecurrences.tenantId, tenantId)));
+
+    if (!recurrence) {
+      return res.status(404).json({ message: "Recurring reservation not found" });
+    }
+
+    if (recurrence.status === "cancelled") {
+      return res.status(400).json({ message: "Recurring reservation is already cancelled" });
+    }
+
+    const cancelled = await db.transaction(async (tx) => {
+      await tx.update(coworkingDeskRecurrences)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(coworkingDeskRecurrences.id, recurrence.id));
+
+      return tx.update(deskBookings)
+        .set({ status: "cancelled" })
+        .where(and(
+          eq(deskBookings.recurrenceId, recurrence.id),
+          inArray(deskBookings.status, ["pending", "confirmed"]),
+          gt(deskBookings.startTime, new Date())
+        ))
+        .returning({ id: deskBookings.id });
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_desk_recurrence",
+      resourceId: recurrence.id,
+      metadata: { statusChange: { from: "active", to: "cancelled" }, cancelledBookings: cancelled.length },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,262 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { coworkingMeetingRooms, coworkingRoomBookings, customers } from "@shared/schema";
+import { eq, and, desc, sql, gte, lte, lt, gt, inArray, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { allocateCredits, bookingHours, creditWindow, overageCharge, validateRoomBookingWindow } from "./scheduling";
+import { creditsUsedInWindow, findCreditMembership } from "./credits";
+
+export const coworkingRoomBookingsRouter = Router();
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const listQuerySchema = z.object({
+  roomId: z.string().optional(),
+  customerId: z.string().optional(),
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const createBookingSchema = z.object({
+  roomId: z.string().min(1),
+  customerId: z.string().min(1),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  title: z.string().max(200).optional(),
+  notes: z.string().optional(),
+});
+
+class RoomUnavailableError extends Error {
+  constructor(message: string, public conflicts: { id: string; startTime: Date; endTime: Date }[] = []) {
+    super(message);
+    this.name = "RoomUnavailableError";
+  }
+}
+
+coworkingRoomBookingsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { roomId, customerId, status, from, to } = listQuerySchema.parse(req.query);
+    const conditions = [eq(coworkingRoomBookings.tenantId, tenantId)];
+
+    if (roomId) {
+      conditions.push(eq(coworkingRoomBookings.roomId, roomId));
+    }
+
+    if (customerId) {
+      conditions.push(eq(coworkingRoomBookings.customerId, customerId));
+    }
+
+    if (status) {
+      conditions.push(eq(coworkingRoomBookings.status, status));
+    }
+
+    if (from) {
+      conditions.push(gte(coworkingRoomBookings.endTime, from));
+    }
+
+    if (to) {
+      conditions.push(lte(coworkingRoomBookings.startTime, to));
+    }
+
+    const data = await db.select({
+      booking: coworkingRoomBookings,
+      roomName: coworkingMeetingRooms.name,
+      customerName: customers.name,
+    })
+      .from(coworkingRoomBookings)
+      .innerJoin(coworkingMeetingRooms, eq(coworkingRoomBookings.roomId, coworkingMeetingRooms.id))
+      .innerJoin(customers, eq(coworkingRoomBookings.customerId, customers.id))
+      .where(and(...conditions))
+      .orderBy(desc(coworkingRoomBookings.startTime))
+      .limit(500);
+
+    res.json(data.map(({ booking, ...rest }) => ({ ...booking, ...rest })));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+/**
+ * Books a meeting room for a member. Hours are paid for from the member's
+ * monthly plan credits first; anything beyond is recorded as overage and
+ * billed later by an overage run.
+ */
+coworkingRoomBookingsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = createBookingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { roomId, customerId, startTime, endTime, title, notes } = parsed.data;
+
+    const [[room], [customer]] = await Promise.all([
+      db.select()
+        .from(coworkingMeetingRooms)
+        .where(and(eq(coworkingMeetingRooms.id, roomId), eq(coworkingMeetingRooms.tenantId, tenantId), isNull(coworkingMeetingRooms.deletedAt))),
+      db.select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId))),
+    ]);
+
+    if (!room) {
+      return res.status(400).json({ message: "Meeting room not found" });
+    }
+    if (!customer) {
+      return res.status(400).json({ message: "Customer not found" });
+    }
+    if (!room.isActive) {
+      return res.status(400).json({ message: "Meeting room is not available for booking" });
+    }
+
+    const windowError = validateRoomBookingWindow(room, startTime, endTime);
+    if (windowError) {
+      return res.status(400).json({ message: windowError });
+    }
+
+    const booking = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`cw:room:${room.id}`}))`);
+
+      const conflicts = await tx.select({ id: coworkingRoomBookings.id, startTime: coworkingRoomBookings.startTime, endTime: coworkingRoomBookings.endTime })
+        .from(coworkingRoomBookings)
+        .where(and(
+          eq(coworkingRoomBookings.roomId, room.id),
+          inArray(coworkingRoomBookings.status, ["pending", "confirmed"]),
+          lt(coworkingRoomBookings.startTime, endTime),
+          gt(coworkingRoomBookings.endTime, startTime)
+        ));
+
+      if (conflicts.length > 0) {
+        throw new RoomUnavailableError("Meeting room is already booked for part of this time", conflicts);
+      }
+
+      // Serialise credit spending per member so two bookings cannot share the same credits
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`cw:credits:${tenantId}:${customer.id}`}))`);
+
+      const hours = bookingHours(startTime, endTime);
+      const bookingDate = startTime.toISOString().split("T")[0];
+      const membership = await findCreditMembership(tx, tenantId, customer.id, bookingDate);
+
+      let creditsUsed = 0;
+      let overageHours = hours;
+      let overageRate = parseFloat(room.hourlyRate);
+
+      if (membership) {
+        const used = await creditsUsedInWindow(tx, tenantId, customer.id, creditWindow(startTime));
+        const allocation = allocateCredits(hours, parseFloat(room.creditsPerHour), parseFloat(membership.monthlyCredits) - used);
+        creditsUsed = allocation.creditsUsed;
+        overageHours = allocation.overageHours;
+        if (membership.overageHourlyRate !== null) {
+          overageRate = parseFloat(membership.overageHourlyRate);
+        }
+      }
+
+      const [created] = await tx.insert(coworkingRoomBookings).values({
+        tenantId,
+        roomId: room.id,
+        customerId: customer.id,
+        membershipId: membership?.membershipId,
+        title,
+        notes,
+        startTime,
+        endTime,
+        hours: hours.toFixed(2),
+        creditsUsed: creditsUsed.toFixed(2),
+        overageHours: overageHours.toFixed(2),
+        overageAmount: overageCharge(overageHours, overageRate).toFixed(2),
+        status: "confirmed",
+        bookedBy: userId,
+      }).returning();
+
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "coworking_room_booking",
+      resourceId: booking.id,
+      metadata: {
+        roomId: booking.roomId,
+        customerId: booking.customerId,
+        hours: booking.hours,
+        creditsUsed: booking.creditsUsed,
+        overageAmount: booking.overageAmount,
+      },
+    });
+
+    res.status(201).json(booking);
+  } catch (error: any) {
+    if (error instanceof RoomUnavailableError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Cancelling returns the credits to the member's monthly balance
+coworkingRoomBookingsRouter.post("/:id/cancel", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const [booking] = await db.select()
+      .from(coworkingRoomBookings)
+      .where(and(eq(coworkingRoomBookings.id, req.params.id), eq(coworkingRoomBookings.tenantId, tenantId)));
+
+    if (!booking) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    if (booking.invoiceId) {
+      return res.status(400).json({ message: "Booking overage has already been invoiced" });
+    }
+
+    if (booking.status === "cancelled" || booking.status === "completed") {
+      return res.status(400).json({ message: `Cannot cancel a ${booking.status} booking` });
+    }
+
+    const [updated] = await db.update(coworkingRoomBookings)
+      .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(coworkingRoomBookings.id, booking.id), isNull(coworkingRoomBookings.invoiceId)))
+      .returning();
+
+    if (!updated) {
+      return res.status(400).json({ message: "Booking overage has already been invoiced" });
+    }
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_room_booking",
+      resourceId: booking.id,
+      metadata: { statusChange: { from: booking.status, to: "cancelled" }, creditsReleased: booking.creditsUsed },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
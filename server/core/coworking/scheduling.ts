@@ -0,0 +1,156 @@
+import { addDays, getWeekday, minutesToTime, timeToMinutes, type Weekday } from "../../utils/time-of-day";
+import { round2 } from "../../utils/money";
+
+/**
+ * Coworking booking, credit and availability rules.
+ *
+ * Pure functions shared by the coworking routes so the rules can be unit
+ * tested without a database. Booking times are timestamps evaluated in UTC;
+ * opening hours and grid slots are "HH:MM" times on that UTC day.
+ */
+
+export const BOOKING_INCREMENT_MINUTES = 30;
+export const MAX_RECURRING_OCCURRENCES = 100;
+
+export type GridCellState = "free" | "booked" | "closed" | "blocked";
+
+export interface GridCell {
+  start: string;
+  end: string;
+  state: GridCellState;
+  bookingId?: string;
+}
+
+export interface TimedBooking {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+function minuteOfDay(value: Date): number {
+  return value.getUTCHours() * 60 + value.getUTCMinutes();
+}
+
+function dayOf(value: Date): string {
+  return value.toISOString().split("T")[0];
+}
+
+export function toTimestamp(date: string, time: string): Date {
+  return new Date(`${date}T${time.slice(0, 5)}:00Z`);
+}
+
+export function timestampsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+}
+
+export function bookingHours(start: Date, end: Date): number {
+  return round2((end.getTime() - start.getTime()) / (60 * 60 * 1000));
+}
+
+/**
+ * Returns why a meeting-room booking window is not acceptable, or null.
+ * Bookings are same-day, in 30-minute increments, within opening hours.
+ */
+export function validateRoomBookingWindow(
+  room: { openTime: string; closeTime: string },
+  start: Date,
+  end: Date
+): string | null {
+  if (end.getTime() <= start.getTime()) {
+    return "End time must be after start time";
+  }
+  if (dayOf(start) !== dayOf(end) && minuteOfDay(end) !== 0) {
+    return "Bookings cannot span multiple days";
+  }
+  if (minuteOfDay(start) % BOOKING_INCREMENT_MINUTES !== 0 || minuteOfDay(end) % BOOKING_INCREMENT_MINUTES !== 0
+    || start.getUTCSeconds() !== 0 || end.getUTCSeconds() !== 0) {
+    return `Bookings must start and end on ${BOOKING_INCREMENT_MINUTES}-minute boundaries`;
+  }
+
+  const endMinute = dayOf(start) === dayOf(end) ? minuteOfDay(end) : 24 * 60;
+  if (minuteOfDay(start) < timeToMinutes(room.openTime) || endMinute > timeToMinutes(room.closeTime)) {
+    return `Room is open ${room.openTime.slice(0, 5)}-${room.closeTime.slice(0, 5)}`;
+  }
+  return null;
+}
+
+/**
+ * Monthly credit window (UTC calendar month) that a booking draws from.
+ */
+export function creditWindow(at: Date): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+  return { start, end };
+}
+
+/**
+ * Covers as much of a booking as the remaining credits allow; the rest is
+ * overage, expressed in hours so it can be billed at an hourly rate.
+ */
+export function allocateCredits(hours: number, creditsPerHour: number, remainingCredits: number) {
+  if (creditsPerHour <= 0) {
+    return { creditsUsed: 0, overageHours: 0 };
+  }
+
+  const needed = hours * creditsPerHour;
+  const creditsUsed = round2(Math.min(needed, Math.max(remainingCredits, 0)));
+  return {
+    creditsUsed,
+    overageHours: round2((needed - creditsUsed) / creditsPerHour),
+  };
+}
+
+export function overageCharge(overageHours: number, hourlyRate: number): number {
+  return round2(overageHours * hourlyRate);
+}
+
+export function expandRecurrence(startDate: string, endDate: string, weekdays: Weekday[]): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate && dates.length < MAX_RECURRING_OCCURRENCES; date = addDays(date, 1)) {
+    if (weekdays.includes(getWeekday(date))) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * One row of the floor-plan availability grid: `from`-`to` on `date` split
+ * into slots, each free, booked, closed (outside opening hours) or blocked
+ * (resource out of service).
+ */
+export function buildAvailabilityRow(options: {
+  date: string;
+  from: string;
+  to: string;
+  slotMinutes: number;
+  bookings: TimedBooking[];
+  open?: { openTime: string; closeTime: string };
+  blocked?: boolean;
+}): GridCell[] {
+  const { date, slotMinutes, bookings, open, blocked } = options;
+  const cells: GridCell[] = [];
+
+  for (let minute = timeToMinutes(options.from); minute + slotMinutes <= timeToMinutes(options.to); minute += slotMinutes) {
+    const start = minutesToTime(minute);
+    const end = minutesToTime(minute + slotMinutes);
+
+    if (blocked) {
+      cells.push({ start, end, state: "blocked" });
+      continue;
+    }
+
+    if (open && (minute < timeToMinutes(open.openTime) || minute + slotMinutes > timeToMinutes(open.closeTime))) {
+      cells.push({ start, end, state: "closed" });
+      continue;
+    }
+
+    const slotStart = toTimestamp(date, start);
+    const slotEnd = new Date(slotStart.getTime() + slotMinutes * 60 * 1000);
+    const booking = bookings.find(b => timestampsOverlap(b.startTime, b.endTime, slotStart, slotEnd));
+
+    cells.push(booking ? { start, end, state: "booked", bookingId: booking.id } : { start, end, state: "free" });
+  }
+
+  return cells;
+}
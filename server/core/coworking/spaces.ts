@@ -0,0 +1,178 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { spaces, desks, deskBookings, coworkingMeetingRooms, coworkingRoomBookings, insertSpaceSchema } from "@shared/schema";
+import { eq, and, asc, sql, isNull } from "drizzle-orm";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const coworkingSpacesRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const spaceSchema = insertSpaceSchema.omit({ tenantId: true });
+
+async function findSpace(tenantId: string, id: string) {
+  const [space] = await db.select()
+    .from(spaces)
+    .where(and(eq(spaces.id, id), eq(spaces.tenantId, tenantId)));
+  return space;
+}
+
+coworkingSpacesRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const data = await db.select()
+      .from(spaces)
+      .where(eq(spaces.tenantId, tenantId))
+      .orderBy(asc(spaces.name));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingSpacesRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const space = await findSpace(tenantId, req.params.id);
+    if (!space) {
+      return res.status(404).json({ message: "Space not found" });
+    }
+
+    const [spaceDesks, rooms] = await Promise.all([
+      db.select().from(desks).where(and(eq(desks.tenantId, tenantId), eq(desks.spaceId, space.id))).orderBy(asc(desks.name)),
+      db.select()
+        .from(coworkingMeetingRooms)
+        .where(and(eq(coworkingMeetingRooms.tenantId, tenantId), eq(coworkingMeetingRooms.spaceId, space.id), isNull(coworkingMeetingRooms.deletedAt)))
+        .orderBy(asc(coworkingMeetingRooms.name)),
+    ]);
+
+    res.json({ ...space, desks: spaceDesks, meetingRooms: rooms });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingSpacesRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = spaceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [space] = await db.insert(spaces).values({ ...parsed.data, tenantId }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "coworking_space",
+      resourceId: space.id,
+      metadata: { name: space.name },
+    });
+
+    res.status(201).json(space);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+coworkingSpacesRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findSpace(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Space not found" });
+    }
+
+    const parsed = spaceSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(spaces)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(spaces.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "coworking_space",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Deletes the space with its desks and rooms; spaces with booking history must be deactivated instead
+coworkingSpacesRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await findSpace(tenantId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Space not found" });
+    }
+
+    const [[deskHistory], [roomHistory]] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(deskBookings)
+        .innerJoin(desks, eq(deskBookings.deskId, desks.id))
+        .where(eq(desks.spaceId, existing.id)),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(coworkingRoomBookings)
+        .innerJoin(coworkingMeetingRooms, eq(coworkingRoomBookings.roomId, coworkingMeetingRooms.id))
+        .where(eq(coworkingMeetingRooms.spaceId, existing.id)),
+    ]);
+
+    if ((deskHistory?.count || 0) + (roomHistory?.count || 0) > 0) {
+      return res.status(409).json({ message: "Space has booking history; deactivate it instead" });
+    }
+
+    await db.delete(spaces).where(eq(spaces.id, existing.id));
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "coworking_space",
+      resourceId: existing.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
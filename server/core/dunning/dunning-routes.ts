@@ -0,0 +1,214 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, authenticateJWT, requireMinimumRole, requirePlatformAdmin } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { DUNNING_CHANNELS, DUNNING_TONES, DunningError } from "./ladder";
+import { CASE_STATUSES, SCHEDULE_SCOPES, dunningService } from "./dunning-service";
+
+// Tenant side: the billing page's view of an overdue renewal
+export const dunningRouter = Router();
+
+// Platform side: schedules, cases and recovery reporting
+export const dunningAdminRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const platformAdminMiddleware = [authenticateJWT({ required: true }), requirePlatformAdmin()];
+const superAdminMiddleware = [authenticateJWT({ required: true }), requirePlatformAdmin("SUPER_ADMIN")];
+
+const scopeSchema = z.enum(SCHEDULE_SCOPES);
+
+const day = z.number().int().min(0).max(90);
+
+const scheduleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  retryDays: z.array(day.min(1)).min(1).max(10),
+  messageSteps: z.array(z.object({
+    day,
+    channel: z.enum(DUNNING_CHANNELS),
+    tone: z.enum(DUNNING_TONES),
+  })).max(20),
+  limitFeaturesAfterDays: day,
+  readOnlyAfterDays: day,
+  suspendAfterDays: day.min(1),
+});
+
+const listCasesSchema = z.object({
+  status: z.enum(CASE_STATUSES).optional(),
+  tenantId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const cancelSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+const reportQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+});
+
+function sendDunningError(res: Response, error: any) {
+  if (error instanceof DunningError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+function platformAdminId(req: Request): string | undefined {
+  return req.platformAdminContext?.platformAdmin.id;
+}
+
+dunningRouter.get("/status", ...baseMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const status = await dunningService.getTenantStatus(isolation.getTenantId());
+    res.json({ pastDue: status !== null, dunning: status });
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningRouter.post("/payment-link", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const result = await dunningService.createPaymentLink(isolation.getTenantId());
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "dunning_payment_link",
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.get("/schedules", ...platformAdminMiddleware, async (_req: Request, res: Response) => {
+  try {
+    res.json(await dunningService.listSchedules());
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.put("/schedules/:scope", ...superAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = scopeSchema.safeParse(req.params.scope);
+    if (!scope.success) {
+      return res.status(404).json({ message: "Unknown schedule scope" });
+    }
+    const parsed = scheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const schedule = await dunningService.upsertSchedule(scope.data, parsed.data);
+
+    await auditService.logAsync({
+      action: "update",
+      resource: "dunning_schedule",
+      resourceId: scope.data,
+      newValue: parsed.data,
+      metadata: { platformAdminId: platformAdminId(req) },
+    });
+
+    res.json(schedule);
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.delete("/schedules/:scope", ...superAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const scope = scopeSchema.safeParse(req.params.scope);
+    if (!scope.success) {
+      return res.status(404).json({ message: "Unknown schedule scope" });
+    }
+
+    await dunningService.deleteSchedule(scope.data);
+
+    await auditService.logAsync({
+      action: "delete",
+      resource: "dunning_schedule",
+      resourceId: scope.data,
+      metadata: { platformAdminId: platformAdminId(req) },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.get("/cases", ...platformAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listCasesSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+
+    const { data, total } = await dunningService.listCases(filters, page, limit);
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.get("/cases/:id", ...platformAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    res.json(await dunningService.getCase(req.params.id));
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.post("/cases/:id/cancel", ...superAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = cancelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const dunningCase = await dunningService.cancelCase(req.params.id, parsed.data.reason);
+
+    await auditService.logAsync({
+      tenantId: dunningCase.tenantId,
+      action: "update",
+      resource: "dunning_case",
+      resourceId: dunningCase.id,
+      metadata: { status: "cancelled", reason: parsed.data.reason, platformAdminId: platformAdminId(req) },
+    });
+
+    res.json(dunningCase);
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
+
+dunningAdminRouter.get("/reports/recovery", ...platformAdminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    res.json(await dunningService.getRecoveryReport(parsed.data));
+  } catch (error: any) {
+    sendDunningError(res, error);
+  }
+});
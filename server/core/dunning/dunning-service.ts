@@ -0,0 +1,583 @@
+import { db } from "../../db";
+import {
+  dunningCases,
+  dunningEvents,
+  dunningSchedules,
+  paymentAttempts,
+  subscriptionInvoices,
+  tenantCountryEnum,
+  tenantSubscriptions,
+  tenants,
+  type DunningCase,
+  type DunningEvent,
+  type DunningSchedule,
+  type PaymentAttempt,
+  type SubscriptionInvoice,
+  type Tenant,
+  type TenantSubscription,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import { gatewaySelector } from "../payments/gateway-selector";
+import type { Currency, TenantCountry } from "../payments/types";
+import { notificationService } from "../../services/notification";
+import {
+  DEFAULT_DUNNING_SCHEDULE,
+  DEFAULT_SCHEDULE_SCOPE,
+  DunningError,
+  accessStage,
+  dueMessages,
+  nextRetryAt,
+  renderDunningMessage,
+  summarizeRecovery,
+  suspendsAt,
+  validateSchedule,
+  type AccessStage,
+  type DunningMessageStep,
+  type DunningScheduleConfig,
+  type RecoverySummary,
+} from "./ladder";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const SCHEDULE_SCOPES = [DEFAULT_SCHEDULE_SCOPE, ...tenantCountryEnum.enumValues] as const;
+export type ScheduleScope = typeof SCHEDULE_SCOPES[number];
+
+export const CASE_STATUSES = ["open", "recovered", "failed", "cancelled"] as const;
+
+export interface ScheduleInput extends DunningScheduleConfig {
+  name: string;
+}
+
+export interface DunningAccess {
+  subscription: TenantSubscription;
+  dunningCase: DunningCase;
+  stage: AccessStage;
+}
+
+export interface TenantDunningStatus {
+  caseId: string;
+  invoiceNumber: string;
+  amountDue: number;
+  currency: string;
+  openedAt: Date;
+  accessStage: AccessStage;
+  nextRetryAt: Date | null;
+  suspendsAt: Date;
+  paymentLink: string;
+}
+
+const CLOSED_INVOICE_STATUSES = ["paid", "cancelled", "refunded"];
+
+function appUrl(path: string): string {
+  return `${process.env.APP_URL || ""}${path}`;
+}
+
+function billingUrl(dunningCase: DunningCase): string {
+  return dunningCase.paymentLink || appUrl(`/subscription/billing?invoice=${dunningCase.invoiceId}`);
+}
+
+function toConfig(schedule: DunningSchedule): DunningScheduleConfig {
+  return {
+    retryDays: schedule.retryDays,
+    messageSteps: schedule.messageSteps,
+    limitFeaturesAfterDays: schedule.limitFeaturesAfterDays,
+    readOnlyAfterDays: schedule.readOnlyAfterDays,
+    suspendAfterDays: schedule.suspendAfterDays,
+  };
+}
+
+async function logEvent(
+  executor: typeof db | Transaction,
+  dunningCase: Pick<DunningCase, "id" | "tenantId">,
+  eventType: string,
+  extra: { channel?: string; attemptNumber?: number; details?: Record<string, unknown> } = {},
+): Promise<void> {
+  await executor.insert(dunningEvents).values({
+    caseId: dunningCase.id,
+    tenantId: dunningCase.tenantId,
+    eventType,
+    channel: extra.channel,
+    attemptNumber: extra.attemptNumber,
+    details: extra.details ?? {},
+  });
+}
+
+class DunningService {
+  async listSchedules(): Promise<{ data: DunningSchedule[]; defaultSchedule: DunningScheduleConfig }> {
+    const data = await db.select().from(dunningSchedules).orderBy(asc(dunningSchedules.scope));
+    const stored = data.find((schedule) => schedule.scope === DEFAULT_SCHEDULE_SCOPE);
+    return { data, defaultSchedule: stored ? toConfig(stored) : DEFAULT_DUNNING_SCHEDULE };
+  }
+
+  async upsertSchedule(scope: ScheduleScope, input: ScheduleInput): Promise<DunningSchedule> {
+    const { name, ...config } = input;
+    validateSchedule(config);
+    const [schedule] = await db.insert(dunningSchedules)
+      .values({ scope, name, ...config })
+      .onConflictDoUpdate({
+        target: dunningSchedules.scope,
+        set: { name, ...config, updatedAt: new Date() },
+      })
+      .returning();
+    return schedule;
+  }
+
+  // Removing the default schedule falls back to the built-in ladder
+  async deleteSchedule(scope: ScheduleScope): Promise<void> {
+    const [deleted] = await db.delete(dunningSchedules).where(eq(dunningSchedules.scope, scope)).returning();
+    if (!deleted) throw new DunningError(404, "Schedule not found");
+  }
+
+  private async resolveSchedule(executor: typeof db | Transaction, country: string | null): Promise<DunningScheduleConfig> {
+    const rows = await executor.select().from(dunningSchedules)
+      .where(sql`${dunningSchedules.scope} IN (${DEFAULT_SCHEDULE_SCOPE}, ${country ?? DEFAULT_SCHEDULE_SCOPE})`);
+    const schedule = rows.find((row) => row.scope === country) ?? rows.find((row) => row.scope === DEFAULT_SCHEDULE_SCOPE);
+    return schedule ? toConfig(schedule) : DEFAULT_DUNNING_SCHEDULE;
+  }
+
+  /**
+   * Called for every failed renewal charge. The first failure on an invoice
+   * opens its case and puts the subscription past due; later failures, such
+   * as a declined retry, are logged against the open case. Closed cases are
+   * not reopened.
+   */
+  async recordFailedCharge(tenantId: string, invoiceId: string, reason: string | null): Promise<DunningCase | null> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`dunning:${invoiceId}`}))`);
+
+      const [invoice] = await tx.select().from(subscriptionInvoices)
+        .where(and(eq(subscriptionInvoices.id, invoiceId), eq(subscriptionInvoices.tenantId, tenantId)));
+      if (!invoice || CLOSED_INVOICE_STATUSES.includes(invoice.status ?? "")) return null;
+
+      const [existing] = await tx.select().from(dunningCases).where(eq(dunningCases.invoiceId, invoiceId));
+      if (existing) {
+        if (existing.status !== "open") return existing;
+        const [updated] = await tx.update(dunningCases)
+          .set({ lastFailureReason: reason, updatedAt: new Date() })
+          .where(eq(dunningCases.id, existing.id))
+          .returning();
+        await logEvent(tx, existing, "payment_failed", { details: { reason } });
+        return updated;
+      }
+
+      const [tenant] = await tx.select({ country: tenants.country }).from(tenants).where(eq(tenants.id, tenantId));
+      const [subscription] = await tx.select({ id: tenantSubscriptions.id }).from(tenantSubscriptions)
+        .where(eq(tenantSubscriptions.tenantId, tenantId));
+      const schedule = await this.resolveSchedule(tx, tenant?.country ?? null);
+      const openedAt = new Date();
+
+      const [created] = await tx.insert(dunningCases).values({
+        tenantId,
+        subscriptionId: invoice.subscriptionId ?? subscription?.id,
+        invoiceId,
+        schedule,
+        amountDue: invoice.amountDue ?? invoice.totalAmount,
+        currency: invoice.currency,
+        nextRetryAt: nextRetryAt(openedAt, 0, schedule),
+        lastFailureReason: reason,
+        openedAt,
+      }).returning();
+      await logEvent(tx, created, "opened", { details: { reason, invoiceNumber: invoice.invoiceNumber } });
+
+      await tx.update(tenantSubscriptions)
+        .set({ status: "past_due", updatedAt: new Date() })
+        .where(eq(tenantSubscriptions.tenantId, tenantId));
+
+      return created;
+    });
+  }
+
+  // Closes the invoice's open case once its payment succeeds, however it was paid
+  async markRecovered(tenantId: string, invoiceId: string, amount?: number): Promise<boolean> {
+    const now = new Date();
+    const [recovered] = await db.update(dunningCases)
+      .set({
+        status: "recovered",
+        recoveredAmount: amount !== undefined ? amount.toFixed(2) : sql`${dunningCases.amountDue}`,
+        recoveredAt: now,
+        closedAt: now,
+        accessStage: "full",
+        nextRetryAt: null,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(dunningCases.tenantId, tenantId),
+        eq(dunningCases.invoiceId, invoiceId),
+        eq(dunningCases.status, "open"),
+      ))
+      .returning();
+    if (!recovered) return false;
+
+    await logEvent(db, recovered, "recovered", { details: { amount: recovered.recoveredAmount, retries: recovered.retryCount } });
+    return true;
+  }
+
+  /**
+   * Moves every open case along its ladder: suspends the tenant once the
+   * grace period is over, records access stage changes, runs due retries and
+   * sends due messages. Retries only create the charge; the gateway's webhook
+   * reports whether it went through.
+   */
+  async processDue(now: Date = new Date()): Promise<{ processed: number }> {
+    const openCases = await db.select().from(dunningCases)
+      .where(eq(dunningCases.status, "open"))
+      .orderBy(asc(dunningCases.openedAt));
+
+    let processed = 0;
+    for (const dunningCase of openCases) {
+      try {
+        if (await this.advance(dunningCase, now)) processed++;
+      } catch (error) {
+        console.error(`[dunning] Failed to advance case ${dunningCase.id}:`, error);
+      }
+    }
+    return { processed };
+  }
+
+  private async advance(dunningCase: DunningCase, now: Date): Promise<boolean> {
+    const stage = accessStage(dunningCase.openedAt, now, dunningCase.schedule);
+    if (stage === "suspended") {
+      await this.suspend(dunningCase);
+      return true;
+    }
+
+    let current = dunningCase;
+    let changed = false;
+
+    if (stage !== current.accessStage) {
+      [current] = await db.update(dunningCases)
+        .set({ accessStage: stage, updatedAt: now })
+        .where(eq(dunningCases.id, current.id))
+        .returning();
+      await logEvent(db, current, "stage_changed", { details: { from: dunningCase.accessStage, to: stage } });
+      changed = true;
+    }
+
+    if (current.nextRetryAt && current.nextRetryAt <= now) {
+      current = await this.retryCharge(current, now);
+      changed = true;
+    }
+
+    const { send, handled } = dueMessages(current.openedAt, now, current.schedule, current.messagesSent);
+    if (handled.length) {
+      for (const step of send) {
+        await this.sendMessage(current, step);
+      }
+      await db.update(dunningCases)
+        .set({ messagesSent: [...current.messagesSent, ...handled], updatedAt: now })
+        .where(eq(dunningCases.id, current.id));
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  private async retryCharge(dunningCase: DunningCase, now: Date): Promise<DunningCase> {
+    const retryCount = dunningCase.retryCount + 1;
+    const nextRetry = nextRetryAt(dunningCase.openedAt, retryCount, dunningCase.schedule);
+    const charge = await this.createCharge(dunningCase, nextRetry);
+
+    const [updated] = await db.update(dunningCases)
+      .set({
+        retryCount,
+        nextRetryAt: nextRetry,
+        lastAttemptAt: now,
+        paymentLink: charge.paymentLink ?? dunningCase.paymentLink,
+        lastFailureReason: charge.error ?? dunningCase.lastFailureReason,
+        updatedAt: now,
+      })
+      .where(eq(dunningCases.id, dunningCase.id))
+      .returning();
+
+    await logEvent(db, dunningCase, charge.error ? "retry_failed" : "retry", {
+      attemptNumber: charge.attemptNumber,
+      details: { retry: retryCount, gatewayPaymentId: charge.gatewayPaymentId, error: charge.error },
+    });
+    return updated;
+  }
+
+  /**
+   * Starts a new charge for the case's invoice and records it as the
+   * invoice's next payment attempt. The gateway's hosted page doubles as the
+   * card-update link, since paying there saves the new card.
+   */
+  private async createCharge(
+    dunningCase: DunningCase,
+    nextRetry: Date | null,
+  ): Promise<{ attemptNumber: number; paymentLink?: string; gatewayPaymentId?: string; error?: string }> {
+    await gatewaySelector.initialize();
+
+    const [[invoice], [tenant], [attempts]] = await Promise.all([
+      db.select().from(subscriptionInvoices).where(eq(subscriptionInvoices.id, dunningCase.invoiceId)),
+      db.select().from(tenants).where(eq(tenants.id, dunningCase.tenantId)),
+      db.select({ last: sql<number>`COALESCE(MAX(${paymentAttempts.attemptNumber}), 0)` })
+        .from(paymentAttempts)
+        .where(eq(paymentAttempts.invoiceId, dunningCase.invoiceId)),
+    ]);
+    const attemptNumber = Number(attempts?.last ?? 0) + 1;
+
+    const gateway = gatewaySelector.getGatewayForCountry(invoice.country as TenantCountry);
+    if (!gateway) {
+      return { attemptNumber, error: "No payment gateway available for this country" };
+    }
+
+    const amount = parseFloat(dunningCase.amountDue);
+    try {
+      const intent = await gateway.createPayment({
+        tenantId: dunningCase.tenantId,
+        invoiceId: invoice.id,
+        amount,
+        currency: dunningCase.currency as Currency,
+        description: `Subscription invoice ${invoice.invoiceNumber}`,
+        customerEmail: tenant?.email || undefined,
+        customerName: tenant?.name,
+        returnUrl: appUrl("/billing/success"),
+        webhookUrl: appUrl(`/api/webhooks/${gateway.name}`),
+        metadata: {
+          tenantId: dunningCase.tenantId,
+          invoiceId: invoice.id,
+          dunningCaseId: dunningCase.id,
+        },
+      });
+
+      await db.insert(paymentAttempts).values({
+        tenantId: dunningCase.tenantId,
+        invoiceId: invoice.id,
+        gateway: gateway.name,
+        amount: dunningCase.amountDue,
+        currency: dunningCase.currency,
+        status: intent.status,
+        gatewayPaymentId: intent.gatewayPaymentId,
+        attemptNumber,
+        nextRetryAt: nextRetry,
+        metadata: { dunningCaseId: dunningCase.id },
+      });
+
+      return {
+        attemptNumber,
+        paymentLink: intent.redirectUrl || undefined,
+        gatewayPaymentId: intent.gatewayPaymentId,
+      };
+    } catch (error: any) {
+      await db.insert(paymentAttempts).values({
+        tenantId: dunningCase.tenantId,
+        invoiceId: invoice.id,
+        gateway: gateway.name,
+        amount: dunningCase.amountDue,
+        currency: dunningCase.currency,
+        status: "failed",
+        errorMessage: error.message,
+        attemptNumber,
+        nextRetryAt: nextRetry,
+        metadata: { dunningCaseId: dunningCase.id },
+      });
+      return { attemptNumber, error: error.message };
+    }
+  }
+
+  // Messages go out through the platform's own channels, addressed to the tenant's billing contact
+  private async sendMessage(dunningCase: DunningCase, step: DunningMessageStep): Promise<void> {
+    const [[invoice], [tenant]] = await Promise.all([
+      db.select({ invoiceNumber: subscriptionInvoices.invoiceNumber }).from(subscriptionInvoices)
+        .where(eq(subscriptionInvoices.id, dunningCase.invoiceId)),
+      db.select().from(tenants).where(eq(tenants.id, dunningCase.tenantId)),
+    ]);
+
+    const variables = {
+      tenantName: tenant?.name ?? "there",
+      invoiceNumber: invoice?.invoiceNumber ?? "",
+      amount: parseFloat(dunningCase.amountDue).toFixed(2),
+      currency: dunningCase.currency,
+      paymentLink: billingUrl(dunningCase),
+      suspendsOn: suspendsAt(dunningCase.openedAt, dunningCase.schedule).toISOString().slice(0, 10),
+    };
+    const message = renderDunningMessage(step.tone, variables);
+
+    const result = await notificationService.sendPlatformMessage({
+      channel: step.channel,
+      recipient: { email: tenant?.email ?? undefined, phone: tenant?.phone ?? undefined, name: tenant?.name ?? "" },
+      subject: message.subject,
+      body: message.body,
+      country: tenant?.country ?? undefined,
+    });
+
+    await logEvent(db, dunningCase, result.success ? "message_sent" : "message_failed", {
+      channel: step.channel,
+      details: { day: step.day, tone: step.tone, messageId: result.messageId ?? null, error: result.error },
+    });
+  }
+
+  private async suspend(dunningCase: DunningCase): Promise<void> {
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx.update(dunningCases)
+        .set({ status: "failed", accessStage: "suspended", nextRetryAt: null, closedAt: now, updatedAt: now })
+        .where(eq(dunningCases.id, dunningCase.id));
+      await tx.update(tenantSubscriptions)
+        .set({ status: "suspended", updatedAt: now })
+        .where(eq(tenantSubscriptions.tenantId, dunningCase.tenantId));
+      await tx.update(tenants)
+        .set({
+          status: "suspended",
+          statusChangedAt: now,
+          statusChangeReason: "Subscription payment not recovered",
+          updatedAt: now,
+        })
+        .where(eq(tenants.id, dunningCase.tenantId));
+      await logEvent(tx, dunningCase, "suspended", { details: { retries: dunningCase.retryCount } });
+    });
+  }
+
+  /**
+   * What a past-due tenant may still do. Returns null when the tenant has no
+   * past-due subscription under an open case, so callers fall back to their
+   * normal subscription checks.
+   */
+  async getAccess(tenantId: string, now: Date = new Date()): Promise<DunningAccess | null> {
+    const [subscription] = await db.select().from(tenantSubscriptions)
+      .where(and(eq(tenantSubscriptions.tenantId, tenantId), eq(tenantSubscriptions.status, "past_due")));
+    if (!subscription) return null;
+
+    const [dunningCase] = await db.select().from(dunningCases)
+      .where(and(eq(dunningCases.tenantId, tenantId), eq(dunningCases.status, "open")))
+      .orderBy(asc(dunningCases.openedAt))
+      .limit(1);
+    if (!dunningCase) return null;
+
+    return { subscription, dunningCase, stage: accessStage(dunningCase.openedAt, now, dunningCase.schedule) };
+  }
+
+  async getTenantStatus(tenantId: string): Promise<TenantDunningStatus | null> {
+    const [row] = await db.select({ dunningCase: dunningCases, invoiceNumber: subscriptionInvoices.invoiceNumber })
+      .from(dunningCases)
+      .innerJoin(subscriptionInvoices, eq(subscriptionInvoices.id, dunningCases.invoiceId))
+      .where(and(eq(dunningCases.tenantId, tenantId), eq(dunningCases.status, "open")))
+      .orderBy(asc(dunningCases.openedAt))
+      .limit(1);
+    if (!row) return null;
+
+    const { dunningCase } = row;
+    return {
+      caseId: dunningCase.id,
+      invoiceNumber: row.invoiceNumber,
+      amountDue: parseFloat(dunningCase.amountDue),
+      currency: dunningCase.currency,
+      openedAt: dunningCase.openedAt,
+      accessStage: accessStage(dunningCase.openedAt, new Date(), dunningCase.schedule),
+      nextRetryAt: dunningCase.nextRetryAt,
+      suspendsAt: suspendsAt(dunningCase.openedAt, dunningCase.schedule),
+      paymentLink: billingUrl(dunningCase),
+    };
+  }
+
+  // A fresh payment page for the tenant to pay with a new card; it doesn't use up a scheduled retry
+  async createPaymentLink(tenantId: string): Promise<{ paymentLink: string }> {
+    const [dunningCase] = await db.select().from(dunningCases)
+      .where(and(eq(dunningCases.tenantId, tenantId), eq(dunningCases.status, "open")))
+      .orderBy(asc(dunningCases.openedAt))
+      .limit(1);
+    if (!dunningCase) throw new DunningError(404, "There is no overdue subscription payment");
+
+    const charge = await this.createCharge(dunningCase, dunningCase.nextRetryAt);
+    if (charge.error) throw new DunningError(502, charge.error);
+    if (!charge.paymentLink) throw new DunningError(502, "The payment gateway did not return a payment page");
+
+    await db.update(dunningCases)
+      .set({ paymentLink: charge.paymentLink, updatedAt: new Date() })
+      .where(eq(dunningCases.id, dunningCase.id));
+    await logEvent(db, dunningCase, "payment_link", {
+      attemptNumber: charge.attemptNumber,
+      details: { gatewayPaymentId: charge.gatewayPaymentId },
+    });
+
+    return { paymentLink: charge.paymentLink };
+  }
+
+  async listCases(
+    filters: { status?: typeof CASE_STATUSES[number]; tenantId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: Array<DunningCase & { tenantName: string; invoiceNumber: string }>; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(dunningCases.status, filters.status));
+    if (filters.tenantId) conditions.push(eq(dunningCases.tenantId, filters.tenantId));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ dunningCase: dunningCases, tenantName: tenants.name, invoiceNumber: subscriptionInvoices.invoiceNumber })
+        .from(dunningCases)
+        .innerJoin(tenants, eq(tenants.id, dunningCases.tenantId))
+        .innerJoin(subscriptionInvoices, eq(subscriptionInvoices.id, dunningCases.invoiceId))
+        .where(where)
+        .orderBy(desc(dunningCases.openedAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(dunningCases).where(where),
+    ]);
+
+    return {
+      data: rows.map((row) => ({ ...row.dunningCase, tenantName: row.tenantName, invoiceNumber: row.invoiceNumber })),
+      total,
+    };
+  }
+
+  async getCase(id: string): Promise<DunningCase & { invoice: SubscriptionInvoice; tenant: Pick<Tenant, "id" | "name" | "email" | "phone" | "country">; events: DunningEvent[]; attempts: PaymentAttempt[] }> {
+    const [dunningCase] = await db.select().from(dunningCases).where(eq(dunningCases.id, id));
+    if (!dunningCase) throw new DunningError(404, "Dunning case not found");
+
+    const [[invoice], [tenant], events, attempts] = await Promise.all([
+      db.select().from(subscriptionInvoices).where(eq(subscriptionInvoices.id, dunningCase.invoiceId)),
+      db.select({ id: tenants.id, name: tenants.name, email: tenants.email, phone: tenants.phone, country: tenants.country })
+        .from(tenants).where(eq(tenants.id, dunningCase.tenantId)),
+      db.select().from(dunningEvents).where(eq(dunningEvents.caseId, id)).orderBy(asc(dunningEvents.createdAt)),
+      db.select().from(paymentAttempts).where(eq(paymentAttempts.invoiceId, dunningCase.invoiceId)).orderBy(asc(paymentAttempts.attemptNumber)),
+    ]);
+
+    return { ...dunningCase, invoice, tenant, events, attempts };
+  }
+
+  // Stops dunning without a payment, e.g. when the invoice was settled offline, and restores the subscription
+  async cancelCase(id: string, reason: string): Promise<DunningCase> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [cancelled] = await tx.update(dunningCases)
+        .set({ status: "cancelled", nextRetryAt: null, closedAt: now, updatedAt: now })
+        .where(and(eq(dunningCases.id, id), eq(dunningCases.status, "open")))
+        .returning();
+      if (!cancelled) throw new DunningError(409, "Only open dunning cases can be cancelled");
+
+      await tx.update(tenantSubscriptions)
+        .set({ status: "active", paymentFailureCount: 0, updatedAt: now })
+        .where(and(eq(tenantSubscriptions.tenantId, cancelled.tenantId), eq(tenantSubscriptions.status, "past_due")));
+      await logEvent(tx, cancelled, "cancelled", { details: { reason } });
+      return cancelled;
+    });
+  }
+
+  async getRecoveryReport(range: { from: string; to: string }): Promise<{ from: string; to: string; summary: RecoverySummary[] }> {
+    if (range.from > range.to) throw new DunningError(400, "The start date must not be after the end date");
+
+    const end = new Date(`${range.to}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    const cases = await db.select().from(dunningCases)
+      .where(and(gte(dunningCases.openedAt, new Date(`${range.from}T00:00:00.000Z`)), lt(dunningCases.openedAt, end)));
+
+    const summary = summarizeRecovery(cases.map((item) => ({
+      status: item.status,
+      currency: item.currency,
+      amountDue: parseFloat(item.amountDue),
+      recoveredAmount: item.recoveredAmount !== null ? parseFloat(item.recoveredAmount) : null,
+      retryCount: item.retryCount,
+      openedAt: item.openedAt,
+      recoveredAt: item.recoveredAt,
+    })));
+
+    return { from: range.from, to: range.to, summary };
+  }
+}
+
+export const dunningService = new DunningService();
+
+export async function processDueDunningCases(): Promise<{ processed: number }> {
+  return dunningService.processDue();
+}
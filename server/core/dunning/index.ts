@@ -0,0 +1,15 @@
+/**
+ * Subscription Dunning
+ *
+ * Recovers failed platform renewal charges:
+ * - Retry ladders per country (day 1/3/7 by default) with scheduled gateway retries
+ * - Escalating email and WhatsApp reminders carrying a card-update link
+ * - Grace-period degradation: premium features, then writes, then suspension
+ * - Case history and revenue-recovery reporting for platform admins
+ *
+ * @module server/core/dunning
+ */
+
+export * from "./ladder";
+export { dunningService, processDueDunningCases } from "./dunning-service";
+export { dunningRouter, dunningAdminRouter } from "./dunning-routes";
@@ -0,0 +1,244 @@
+/**
+ * The dunning ladder for a failed renewal charge: when to retry, which
+ * messages go out on which day, and how far the tenant's access has been
+ * degraded. Every offset is in whole days from the day the case opened.
+ */
+
+import type { DunningMessageStep, DunningScheduleConfig } from "@shared/schema";
+import { round2 } from "../../utils/money";
+
+export type { DunningMessageStep, DunningScheduleConfig };
+
+export const DUNNING_CHANNELS = ["email", "whatsapp"] as const;
+export type DunningChannel = typeof DUNNING_CHANNELS[number];
+
+export const DUNNING_TONES = ["reminder", "warning", "final"] as const;
+export type DunningTone = typeof DUNNING_TONES[number];
+
+// full: everything works; limited: premium features off; read_only: no writes; suspended: no access
+export const ACCESS_STAGES = ["full", "limited", "read_only", "suspended"] as const;
+export type AccessStage = typeof ACCESS_STAGES[number];
+
+export const DEFAULT_SCHEDULE_SCOPE = "default";
+
+export const DEFAULT_DUNNING_SCHEDULE: DunningScheduleConfig = {
+  retryDays: [1, 3, 7],
+  messageSteps: [
+    { day: 0, channel: "email", tone: "reminder" },
+    { day: 3, channel: "email", tone: "warning" },
+    { day: 3, channel: "whatsapp", tone: "warning" },
+    { day: 7, channel: "email", tone: "final" },
+    { day: 7, channel: "whatsapp", tone: "final" },
+  ],
+  limitFeaturesAfterDays: 3,
+  readOnlyAfterDays: 7,
+  suspendAfterDays: 10,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export class DunningError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "DunningError";
+  }
+}
+
+export function validateSchedule(schedule: DunningScheduleConfig): void {
+  const { retryDays, messageSteps, limitFeaturesAfterDays, readOnlyAfterDays, suspendAfterDays } = schedule;
+  if (!retryDays.length) {
+    throw new DunningError(400, "A schedule needs at least one retry");
+  }
+  retryDays.forEach((day, index) => {
+    if (index > 0 && day <= retryDays[index - 1]) {
+      throw new DunningError(400, "Retry days must be in ascending order");
+    }
+  });
+  if (!(limitFeaturesAfterDays <= readOnlyAfterDays && readOnlyAfterDays <= suspendAfterDays)) {
+    throw new DunningError(400, "Features must be limited before access is read-only, and read-only before suspension");
+  }
+  if (retryDays[retryDays.length - 1] >= suspendAfterDays) {
+    throw new DunningError(400, "The last retry must come before the account is suspended");
+  }
+  const keys = new Set<string>();
+  for (const step of messageSteps) {
+    if (step.day >= suspendAfterDays) {
+      throw new DunningError(400, `The day ${step.day} ${step.channel} message would be sent after suspension`);
+    }
+    const key = stepKey(step);
+    if (keys.has(key)) {
+      throw new DunningError(400, `More than one ${step.channel} message on day ${step.day}`);
+    }
+    keys.add(key);
+  }
+}
+
+export function stepKey(step: DunningMessageStep): string {
+  return `${step.day}:${step.channel}`;
+}
+
+export function daysSince(openedAt: Date, now: Date): number {
+  return Math.max(0, Math.floor((now.getTime() - openedAt.getTime()) / DAY_MS));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// When the next retry is due after `retriesMade` retries, or null once the ladder is exhausted
+export function nextRetryAt(openedAt: Date, retriesMade: number, schedule: DunningScheduleConfig): Date | null {
+  const day = schedule.retryDays[retriesMade];
+  return day === undefined ? null : addDays(openedAt, day);
+}
+
+export function suspendsAt(openedAt: Date, schedule: DunningScheduleConfig): Date {
+  return addDays(openedAt, schedule.suspendAfterDays);
+}
+
+export function accessStage(openedAt: Date, now: Date, schedule: DunningScheduleConfig): AccessStage {
+  const elapsed = daysSince(openedAt, now);
+  if (elapsed >= schedule.suspendAfterDays) return "suspended";
+  if (elapsed >= schedule.readOnlyAfterDays) return "read_only";
+  if (elapsed >= schedule.limitFeaturesAfterDays) return "limited";
+  return "full";
+}
+
+/**
+ * Whether a request goes through at a stage. Premium requests are the ones
+ * gated on a plan feature or tier; they stop first, then every write.
+ */
+export function stageAllows(stage: AccessStage, request: { method: string; premium: boolean }): boolean {
+  switch (stage) {
+    case "full":
+      return true;
+    case "limited":
+      return !request.premium;
+    case "read_only":
+      return !request.premium && READ_METHODS.includes(request.method.toUpperCase());
+    default:
+      return false;
+  }
+}
+
+/**
+ * Messages due by `now` that have not gone out. If the job fell behind, only
+ * the latest due step per channel is sent; the older ones are still reported
+ * as handled so they are never sent late.
+ */
+export function dueMessages(
+  openedAt: Date,
+  now: Date,
+  schedule: DunningScheduleConfig,
+  sent: string[],
+): { send: DunningMessageStep[]; handled: string[] } {
+  const elapsed = daysSince(openedAt, now);
+  const due = schedule.messageSteps
+    .filter((step) => step.day <= elapsed && !sent.includes(stepKey(step)))
+    .sort((a, b) => a.day - b.day);
+
+  const latest = new Map<DunningChannel, DunningMessageStep>();
+  for (const step of due) latest.set(step.channel, step);
+
+  return { send: Array.from(latest.values()), handled: due.map(stepKey) };
+}
+
+export interface DunningMessageVariables {
+  tenantName: string;
+  invoiceNumber: string;
+  amount: string;
+  currency: string;
+  paymentLink: string;
+  suspendsOn: string;
+}
+
+const MESSAGES: Record<DunningTone, { subject: string; body: string }> = {
+  reminder: {
+    subject: "Your subscription payment didn't go through",
+    body: "Hi {{tenantName}}, we couldn't collect {{currency}} {{amount}} for invoice {{invoiceNumber}}. We'll retry automatically, or you can update your card here: {{paymentLink}}",
+  },
+  warning: {
+    subject: "Action needed: some features are now limited",
+    body: "Hi {{tenantName}}, invoice {{invoiceNumber}} for {{currency}} {{amount}} is still unpaid, so premium features have been switched off. Update your card to restore them: {{paymentLink}}",
+  },
+  final: {
+    subject: "Final notice: your account will be suspended on {{suspendsOn}}",
+    body: "Hi {{tenantName}}, your account is now read-only and will be suspended on {{suspendsOn}} unless invoice {{invoiceNumber}} for {{currency}} {{amount}} is paid. Pay or update your card here: {{paymentLink}}",
+  },
+};
+
+export function renderDunningMessage(tone: DunningTone, variables: DunningMessageVariables): { subject: string; body: string } {
+  const fill = (template: string) =>
+    template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => variables[key as keyof DunningMessageVariables] ?? "");
+  const message = MESSAGES[tone];
+  return { subject: fill(message.subject), body: fill(message.body) };
+}
+
+export interface RecoveryCase {
+  status: "open" | "recovered" | "failed" | "cancelled";
+  currency: string;
+  amountDue: number;
+  recoveredAmount: number | null;
+  retryCount: number;
+  openedAt: Date;
+  recoveredAt: Date | null;
+}
+
+export interface RecoverySummary {
+  currency: string;
+  cases: number;
+  open: number;
+  recovered: number;
+  failed: number;
+  cancelled: number;
+  amountAtRisk: number;
+  amountRecovered: number;
+  amountLost: number;
+  // Share of closed, non-cancelled cases that were recovered
+  recoveryRate: number;
+  averageDaysToRecover: number | null;
+  // How many retries had run when each recovered case was paid; 0 means paid before the first retry
+  recoveredByRetry: Record<number, number>;
+}
+
+export function summarizeRecovery(cases: RecoveryCase[]): RecoverySummary[] {
+  const byCurrency = new Map<string, RecoveryCase[]>();
+  for (const item of cases) {
+    const list = byCurrency.get(item.currency) ?? [];
+    list.push(item);
+    byCurrency.set(item.currency, list);
+  }
+
+  return Array.from(byCurrency.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, list]) => {
+      const count = (status: RecoveryCase["status"]) => list.filter((item) => item.status === status).length;
+      const recovered = list.filter((item) => item.status === "recovered");
+      const recoveredByRetry: Record<number, number> = {};
+      for (const item of recovered) {
+        recoveredByRetry[item.retryCount] = (recoveredByRetry[item.retryCount] ?? 0) + 1;
+      }
+      const recoveryDays = recovered
+        .filter((item) => item.recoveredAt)
+        .map((item) => (item.recoveredAt!.getTime() - item.openedAt.getTime()) / DAY_MS);
+      const settled = recovered.length + count("failed");
+
+      return {
+        currency,
+        cases: list.length,
+        open: count("open"),
+        recovered: recovered.length,
+        failed: count("failed"),
+        cancelled: count("cancelled"),
+        amountAtRisk: round2(list.filter((item) => item.status === "open").reduce((sum, item) => sum + item.amountDue, 0)),
+        amountRecovered: round2(recovered.reduce((sum, item) => sum + (item.recoveredAmount ?? item.amountDue), 0)),
+        amountLost: round2(list.filter((item) => item.status === "failed").reduce((sum, item) => sum + item.amountDue, 0)),
+        recoveryRate: settled ? round2((recovered.length / settled) * 100) : 0,
+        averageDaysToRecover: recoveryDays.length
+          ? round2(recoveryDays.reduce((sum, days) => sum + days, 0) / recoveryDays.length)
+          : null,
+        recoveredByRetry,
+      };
+    });
+}
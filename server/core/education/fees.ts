@@ -9,6 +9,7 @@ import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isol
 import { auditService } from "../audit";
 import { baseFinancialService } from "../../services/base-financial";
 import { sendFeeReminder, sendFeePaymentConfirmation } from "../../services/notification-adapters";
+import { invoiceLedgerService } from "../invoicing";
 
 export const feesRouter = Router();
 
@@ -148,6 +149,7 @@ feesRouter.post("/", ...middleware, requirePermission("fees:create"), async (req
       metadata: { studentId: fee.studentId, amount: fee.totalAmount },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "education", fee.id);
     res.status(201).json(fee);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -196,6 +198,7 @@ feesRouter.post("/:id/payments", ...middleware, requirePermission("fees:update")
       metadata: { feeId: id, amount: payment.amount },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "education", id);
     res.status(201).json(payment);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -239,6 +242,7 @@ feesRouter.patch("/:id", ...middleware, requirePermission("fees:update"), async
       metadata: { changes: Object.keys(parsed.data) },
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "education", id);
     res.json(updated);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -268,6 +272,7 @@ feesRouter.delete("/:id", ...middleware, requirePermission("fees:delete"), async
       resourceId: id,
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "education", id);
     res.status(204).send();
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -0,0 +1,459 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { storage } from "../../storage";
+import { bookings, invoices, invoiceItems, tenants } from "@shared/schema";
+import { eq, and, ne, sql, like, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { invoiceLedgerService } from "../invoicing";
+import { addDays, addMinutes, dateString, rangesOverlap, timeString, timeToMinutes } from "../../utils/time-of-day";
+import {
+  SERVICE_JOB_STAGES,
+  canTransitionJob,
+  jobInvoiceAmount,
+  jobStageUpdate,
+  serviceJobStage,
+} from "./workflow";
+
+export const serviceBookingsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DEFAULT_DUE_DAYS = 15;
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  stage: z.enum(SERVICE_JOB_STAGES).optional(),
+  staffId: z.string().optional(),
+  customerId: z.string().optional(),
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+});
+
+const createBookingSchema = z.object({
+  customerId: z.string().min(1),
+  serviceId: z.string().min(1),
+  staffId: z.string().optional(),
+  bookingDate: dateString,
+  startTime: timeString,
+  endTime: timeString.optional(),
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Expected an amount").optional(),
+  notes: z.string().optional(),
+  internalNotes: z.string().optional(),
+});
+
+const assignSchema = z.object({
+  staffId: z.string().min(1).nullable(),
+});
+
+const statusSchema = z.object({
+  status: z.enum(["in_progress", "completed", "cancelled"]),
+  reason: z.string().optional(),
+});
+
+const convertSchema = z.object({
+  dueDate: dateString.optional(),
+  notes: z.string().optional(),
+});
+
+export class StaffUnavailableError extends Error {
+  constructor(public conflicts: { id: string; startTime: string; endTime: string }[]) {
+    super("Staff member already has a job at this time");
+    this.name = "StaffUnavailableError";
+  }
+}
+
+/**
+ * Checks the staff member is free for the slot, serialising on their day so
+ * two concurrent assignments cannot both pass. Call inside the transaction
+ * that writes the assignment.
+ */
+async function ensureStaffFree(
+  tx: Transaction,
+  slot: { tenantId: string; staffId: string; bookingDate: string; startTime: string; endTime: string; excludeBookingId?: string }
+) {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`svc:staff:${slot.staffId}:${slot.bookingDate}`}))`);
+
+  const sameDay = await tx.select({ id: bookings.id, startTime: bookings.startTime, endTime: bookings.endTime })
+    .from(bookings)
+    .where(and(
+      eq(bookings.tenantId, slot.tenantId),
+      eq(bookings.staffId, slot.staffId),
+      eq(bookings.bookingDate, slot.bookingDate),
+      ne(bookings.status, "cancelled"),
+      isNull(bookings.deletedAt),
+      slot.excludeBookingId ? ne(bookings.id, slot.excludeBookingId) : undefined
+    ));
+
+  const conflicts = sameDay.filter(b => rangesOverlap(b.startTime, b.endTime, slot.startTime, slot.endTime));
+  if (conflicts.length > 0) {
+    throw new StaffUnavailableError(conflicts);
+  }
+}
+
+async function validateStaff(tenantId: string, staffId: string): Promise<string | null> {
+  const member = await storage.getStaffMember(staffId, tenantId);
+  if (!member) return "Staff member not found";
+  if (!member.isActive) return "Staff member is inactive";
+  return null;
+}
+
+serviceBookingsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = listQuerySchema.parse(req.query);
+    const search = query.search?.toLowerCase();
+
+    const rows = (await storage.getBookings(tenantId))
+      .filter(b => !b.deletedAt)
+      .map(b => ({ ...b, stage: serviceJobStage(b) }))
+      .filter(b => !query.stage || b.stage === query.stage)
+      .filter(b => !query.staffId || b.staffId === query.staffId)
+      .filter(b => !query.customerId || b.customerId === query.customerId)
+      .filter(b => !query.dateFrom || b.bookingDate >= query.dateFrom)
+      .filter(b => !query.dateTo || b.bookingDate <= query.dateTo)
+      .filter(b => !search
+        || b.customer?.name.toLowerCase().includes(search)
+        || b.service?.name.toLowerCase().includes(search));
+
+    const offset = (query.page - 1) * query.limit;
+
+    res.json({
+      data: rows.slice(offset, offset + query.limit),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total: rows.length,
+        totalPages: Math.ceil(rows.length / query.limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+serviceBookingsRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+
+    const booking = await storage.getBooking(req.params.id, isolation.getTenantId());
+    if (!booking || booking.deletedAt) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    res.json({ ...booking, stage: serviceJobStage(booking) });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+serviceBookingsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = createBookingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { staffId, ...data } = parsed.data;
+
+    const [customer, service] = await Promise.all([
+      storage.getCustomer(data.customerId, tenantId),
+      storage.getService(data.serviceId, tenantId),
+    ]);
+
+    if (!customer) {
+      return res.status(400).json({ message: "Customer not found" });
+    }
+    if (!service || service.deletedAt || !service.isActive) {
+      return res.status(400).json({ message: "Service not found or inactive" });
+    }
+
+    const endTime = data.endTime ?? addMinutes(data.startTime, service.duration);
+    if (timeToMinutes(endTime) <= timeToMinutes(data.startTime)) {
+      return res.status(400).json({ message: "End time must be after start time" });
+    }
+
+    if (staffId) {
+      const staffError = await validateStaff(tenantId, staffId);
+      if (staffError) {
+        return res.status(400).json({ message: staffError });
+      }
+    }
+
+    const values = {
+      ...data,
+      tenantId,
+      staffId,
+      endTime,
+      amount: data.amount ?? service.price,
+      status: "confirmed" as const,
+      createdBy: userId,
+    };
+
+    const booking = staffId
+      ? await db.transaction(async (tx) => {
+          await ensureStaffFree(tx, { tenantId, staffId, bookingDate: data.bookingDate, startTime: data.startTime, endTime });
+          const [created] = await tx.insert(bookings).values(values).returning();
+          return created;
+        })
+      : await storage.createBooking(values);
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "service_booking",
+      resourceId: booking.id,
+      metadata: { serviceId: booking.serviceId, customerId: booking.customerId, staffId: booking.staffId, bookingDate: booking.bookingDate },
+    });
+
+    res.status(201).json({ ...booking, stage: serviceJobStage(booking) });
+  } catch (error: any) {
+    if (error instanceof StaffUnavailableError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Assigns (or with null, unassigns) the staff member doing the job
+serviceBookingsRouter.patch("/:id/assign", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = assignSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const booking = await storage.getBooking(req.params.id, tenantId);
+    if (!booking || booking.deletedAt) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const stage = serviceJobStage(booking);
+    if (stage !== "scheduled" && stage !== "in_progress") {
+      return res.status(400).json({ message: `Cannot reassign a ${stage} job` });
+    }
+
+    const { staffId } = parsed.data;
+    let updated;
+
+    if (staffId) {
+      const staffError = await validateStaff(tenantId, staffId);
+      if (staffError) {
+        return res.status(400).json({ message: staffError });
+      }
+
+      updated = await db.transaction(async (tx) => {
+        await ensureStaffFree(tx, {
+          tenantId,
+          staffId,
+          bookingDate: booking.bookingDate,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          excludeBookingId: booking.id,
+        });
+        const [row] = await tx.update(bookings)
+          .set({ staffId, updatedAt: new Date() })
+          .where(eq(bookings.id, booking.id))
+          .returning();
+        return row;
+      });
+    } else {
+      updated = await storage.updateBooking(booking.id, tenantId, { staffId: null });
+    }
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "service_booking",
+      resourceId: booking.id,
+      metadata: { staffChange: { from: booking.staffId, to: staffId } },
+    });
+
+    res.json({ ...updated, stage });
+  } catch (error: any) {
+    if (error instanceof StaffUnavailableError) {
+      return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+serviceBookingsRouter.patch("/:id/status", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = statusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const booking = await storage.getBooking(req.params.id, tenantId);
+    if (!booking || booking.deletedAt) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const from = serviceJobStage(booking);
+    const to = parsed.data.status;
+    if (!canTransitionJob(from, to)) {
+      return res.status(400).json({ message: `Cannot move job from ${from} to ${to}` });
+    }
+
+    if (to === "in_progress" && !booking.staffId) {
+      const service = await storage.getService(booking.serviceId, tenantId);
+      if (service?.requiresStaff) {
+        return res.status(400).json({ message: "Assign a staff member before starting this job" });
+      }
+    }
+
+    const updated = await storage.updateBooking(booking.id, tenantId, jobStageUpdate(to, new Date(), { userId, reason: parsed.data.reason }));
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "update",
+      resource: "service_booking",
+      resourceId: booking.id,
+      metadata: { stageChange: { from, to }, reason: parsed.data.reason },
+    });
+
+    res.json({ ...updated, stage: to });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+/**
+ * Raises an invoice for a completed job and links it to the booking, which
+ * moves the job to invoiced. A booking can only be invoiced once.
+ */
+serviceBookingsRouter.post("/:id/convert-to-invoice", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = convertSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const existing = await storage.getBooking(req.params.id, tenantId);
+    if (!existing || existing.deletedAt) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    const [service, customer] = await Promise.all([
+      storage.getService(existing.serviceId, tenantId),
+      storage.getCustomer(existing.customerId, tenantId),
+    ]);
+    if (!service || !customer) {
+      return res.status(400).json({ message: "Booking service or customer no longer exists" });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`svc:invoices:${tenantId}`}))`);
+
+      // Re-read under the lock so a concurrent conversion sees the invoice link
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, existing.id));
+      const stage = serviceJobStage(booking);
+      if (!canTransitionJob(stage, "invoiced")) {
+        throw new Error(stage === "invoiced" ? "Booking has already been invoiced" : `Cannot invoice a ${stage} job`);
+      }
+
+      const [tenant] = await tx.select({ currency: tenants.currency })
+        .from(tenants)
+        .where(eq(tenants.id, tenantId));
+
+      const today = new Date().toISOString().split("T")[0];
+      const prefix = `SRV-${today.slice(0, 7).replace("-", "")}-`;
+      const [numbered] = await tx.select({ count: sql<number>`count(*)::int` })
+        .from(invoices)
+        .where(and(eq(invoices.tenantId, tenantId), like(invoices.invoiceNumber, `${prefix}%`)));
+
+      const amount = jobInvoiceAmount(booking.amount, service.price).toFixed(2);
+      const description = `${service.name} - ${booking.bookingDate} ${booking.startTime.slice(0, 5)}`;
+
+      const [invoice] = await tx.insert(invoices).values({
+        tenantId,
+        customerId: booking.customerId,
+        invoiceNumber: `${prefix}${String((numbered?.count || 0) + 1).padStart(5, "0")}`,
+        status: "pending",
+        currency: tenant?.currency || "INR",
+        subtotal: amount,
+        totalAmount: amount,
+        dueDate: parsed.data.dueDate ?? addDays(today, DEFAULT_DUE_DAYS),
+        notes: parsed.data.notes ?? description,
+        metadata: { source: "service_booking", bookingId: booking.id },
+        createdBy: userId,
+      }).returning();
+
+      const [item] = await tx.insert(invoiceItems).values({
+        invoiceId: invoice.id,
+        serviceId: service.id,
+        description,
+        quantity: 1,
+        unitPrice: amount,
+        totalPrice: amount,
+      }).returning();
+
+      const [updated] = await tx.update(bookings)
+        .set({ invoiceId: invoice.id, updatedAt: new Date() })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+
+      return { booking: { ...updated, stage: serviceJobStage(updated) }, invoice: { ...invoice, items: [item] } };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "invoice",
+      resourceId: result.invoice.id,
+      metadata: { source: "service_booking", bookingId: existing.id, invoiceNumber: result.invoice.invoiceNumber, totalAmount: result.invoice.totalAmount },
+    });
+
+    invoiceLedgerService.postAsync(tenantId, "core", result.invoice.id);
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
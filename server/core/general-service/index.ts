@@ -1,20 +1,29 @@
 /**
  * General Service Business Module
- * 
- * Generic service business management:
+ *
+ * Generic service business management on the shared customers, services and
+ * bookings tables:
  * - Service catalog
  * - Customer database
- * - Booking and scheduling
- * - Invoice generation
- * - Staff assignment
- * 
+ * - Booking and scheduling with staff assignment
+ * - Job workflow (scheduled → in progress → completed → invoiced)
+ * - Invoice generation from completed jobs
+ *
  * @module server/core/general-service
  */
 
 import { Router, type Request, type Response } from "express";
-import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
-import { tenantIsolationMiddleware } from "../tenant-isolation";
+import { db } from "../../db";
+import { storage } from "../../storage";
+import { bookings, services, customers, invoices, insertServiceSchema, insertCustomerSchema } from "@shared/schema";
+import { eq, and, sql, gte, lt, isNull, isNotNull } from "drizzle-orm";
 import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { serviceBookingsRouter } from "./bookings";
+import { serviceJobStage } from "./workflow";
 
 export const generalServiceRouter = Router();
 
@@ -30,19 +39,47 @@ const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
   search: z.string().optional(),
-  status: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
 });
 
+const scheduleQuerySchema = z.object({
+  date: dateString.optional(),
+});
+
+const serviceSchema = insertServiceSchema.omit({ tenantId: true, createdBy: true, deletedAt: true });
+const customerSchema = insertCustomerSchema.omit({ tenantId: true });
+
+function paginate<T>(rows: T[], query: { page: number; limit: number }) {
+  const offset = (query.page - 1) * query.limit;
+  return {
+    data: rows.slice(offset, offset + query.limit),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total: rows.length,
+      totalPages: Math.ceil(rows.length / query.limit),
+    },
+  };
+}
+
+function matches(search: string | undefined, ...fields: (string | null | undefined)[]) {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(needle));
+}
+
 generalServiceRouter.get("/services", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
+
     const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
+    const rows = (await storage.getServices(tenantId))
+      .filter(s => !s.deletedAt)
+      .filter(s => !query.status || (query.status === "active") === !!s.isActive)
+      .filter(s => matches(query.search, s.name, s.category, s.description));
+
+    res.json(paginate(rows, query));
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
@@ -50,59 +87,144 @@ generalServiceRouter.get("/services", ...staffMiddleware, async (req: Request, r
 
 generalServiceRouter.post("/services", ...managerMiddleware, async (req: Request, res: Response) => {
   try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = serviceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const service = await storage.createService({ ...parsed.data, tenantId, createdBy: req.context?.user?.id });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "service",
+      resourceId: service.id,
+      metadata: { name: service.name, price: service.price },
+    });
+
+    res.status(201).json(service);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
-generalServiceRouter.get("/customers", ...staffMiddleware, async (req: Request, res: Response) => {
+generalServiceRouter.patch("/services/:id", ...managerMiddleware, async (req: Request, res: Response) => {
   try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await storage.getService(req.params.id, tenantId);
+    if (!existing || existing.deletedAt) {
+      return res.status(404).json({ message: "Service not found" });
+    }
+
+    const parsed = serviceSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const service = await storage.updateService(existing.id, tenantId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "service",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
     });
+
+    res.json(service);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
-generalServiceRouter.post("/customers", ...staffMiddleware, async (req: Request, res: Response) => {
+generalServiceRouter.get("/customers", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
+
+    const query = paginationSchema.parse(req.query);
+    const rows = (await storage.getCustomers(tenantId))
+      .filter(c => matches(query.search, c.name, c.email, c.phone));
+
+    res.json(paginate(rows, query));
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
-generalServiceRouter.get("/bookings", ...staffMiddleware, async (req: Request, res: Response) => {
+generalServiceRouter.post("/customers", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = customerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const customer = await storage.createCustomer({ ...parsed.data, tenantId });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "customer",
+      resourceId: customer.id,
+      metadata: { name: customer.name },
     });
+
+    res.status(201).json(customer);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
-generalServiceRouter.post("/bookings", ...staffMiddleware, async (req: Request, res: Response) => {
+generalServiceRouter.patch("/customers/:id", ...staffMiddleware, async (req: Request, res: Response) => {
   try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const existing = await storage.getCustomer(req.params.id, tenantId);
+    if (!existing) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+
+    const parsed = customerSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const customer = await storage.updateCustomer(existing.id, tenantId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "customer",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(customer);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
@@ -112,12 +234,38 @@ generalServiceRouter.get("/staff", ...staffMiddleware, async (req: Request, res:
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
+
     const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
+    const rows = (await storage.getStaffMembers(tenantId))
+      .filter(s => !query.status || (query.status === "active") === !!s.isActive)
+      .filter(s => matches(query.search, s.name, s.email, s.phone));
+
+    res.json(paginate(rows, query));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// One staff member's jobs for a day, used when picking who to assign
+generalServiceRouter.get("/staff/:id/schedule", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const member = await storage.getStaffMember(req.params.id, tenantId);
+    if (!member) {
+      return res.status(404).json({ message: "Staff member not found" });
+    }
+
+    const { date } = scheduleQuerySchema.parse(req.query);
+    const day = date ?? new Date().toISOString().split("T")[0];
+
+    const jobs = (await storage.getBookings(tenantId))
+      .filter(b => b.staffId === member.id && b.bookingDate === day && !b.deletedAt && b.status !== "cancelled")
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .map(b => ({ ...b, stage: serviceJobStage(b) }));
+
+    res.json({ staff: member, date: day, jobs });
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
@@ -127,18 +275,61 @@ generalServiceRouter.get("/dashboard", ...staffMiddleware, async (req: Request,
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
+
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const nextMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    const [serviceCount, customerCount, bookingCounts, revenue] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(services)
+        .where(and(eq(services.tenantId, tenantId), eq(services.isActive, true), isNull(services.deletedAt))),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(customers)
+        .where(eq(customers.tenantId, tenantId)),
+
+      db.select({
+        today: sql<number>`count(*) FILTER (WHERE ${bookings.bookingDate} = ${today} AND ${bookings.status} != 'cancelled')::int`,
+        pending: sql<number>`count(*) FILTER (WHERE ${bookings.status} IN ('pending', 'confirmed') AND ${bookings.startedAt} IS NULL)::int`,
+        inProgress: sql<number>`count(*) FILTER (WHERE ${bookings.status} = 'confirmed' AND ${bookings.startedAt} IS NOT NULL)::int`,
+        completedToday: sql<number>`count(*) FILTER (WHERE ${bookings.status} = 'completed' AND ${bookings.completedAt} >= ${new Date(`${today}T00:00:00Z`)})::int`,
+        awaitingInvoice: sql<number>`count(*) FILTER (WHERE ${bookings.status} = 'completed' AND ${bookings.invoiceId} IS NULL)::int`,
+      })
+        .from(bookings)
+        .where(and(eq(bookings.tenantId, tenantId), isNull(bookings.deletedAt))),
+
+      // Revenue invoiced this month from converted jobs
+      db.select({ total: sql<string>`COALESCE(SUM(${invoices.totalAmount}), 0)` })
+        .from(bookings)
+        .innerJoin(invoices, eq(bookings.invoiceId, invoices.id))
+        .where(and(
+          eq(bookings.tenantId, tenantId),
+          isNotNull(bookings.invoiceId),
+          sql`${invoices.status} != 'cancelled'`,
+          gte(invoices.createdAt, monthStart),
+          lt(invoices.createdAt, nextMonthStart)
+        )),
+    ]);
+
     res.json({
-      totalServices: 0,
-      totalCustomers: 0,
-      todayBookings: 0,
-      pendingBookings: 0,
-      completedToday: 0,
-      monthlyRevenue: 0,
+      totalServices: serviceCount[0]?.count || 0,
+      totalCustomers: customerCount[0]?.count || 0,
+      todayBookings: bookingCounts[0]?.today || 0,
+      pendingBookings: bookingCounts[0]?.pending || 0,
+      inProgressBookings: bookingCounts[0]?.inProgress || 0,
+      completedToday: bookingCounts[0]?.completedToday || 0,
+      awaitingInvoice: bookingCounts[0]?.awaitingInvoice || 0,
+      monthlyRevenue: parseFloat(revenue[0]?.total || "0"),
     });
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
+generalServiceRouter.use("/bookings", serviceBookingsRouter);
+
+export { serviceBookingsRouter };
+
 export default generalServiceRouter;
@@ -0,0 +1,62 @@
+import type { Booking } from "@shared/schema";
+import { round2 } from "../../utils/money";
+
+/**
+ * Service job workflow for general-service bookings.
+ *
+ * The job stage is derived from the booking row rather than stored: the shared
+ * booking status keeps its meaning for /api/bookings consumers, while
+ * startedAt and invoiceId carry the extra service steps.
+ *
+ *   scheduled -> in_progress -> completed -> invoiced
+ *        \-> cancelled
+ */
+
+export const SERVICE_JOB_STAGES = ["scheduled", "in_progress", "completed", "invoiced", "cancelled"] as const;
+export type ServiceJobStage = typeof SERVICE_JOB_STAGES[number];
+
+export const SERVICE_JOB_TRANSITIONS: Record<ServiceJobStage, ServiceJobStage[]> = {
+  scheduled: ["in_progress", "cancelled"],
+  in_progress: ["completed"],
+  completed: ["invoiced"],
+  invoiced: [],
+  cancelled: [],
+};
+
+type StageFields = Pick<Booking, "status" | "startedAt" | "invoiceId">;
+
+export function serviceJobStage(booking: StageFields): ServiceJobStage {
+  if (booking.invoiceId) return "invoiced";
+  if (booking.status === "cancelled") return "cancelled";
+  if (booking.status === "completed") return "completed";
+  if (booking.startedAt) return "in_progress";
+  return "scheduled";
+}
+
+export function canTransitionJob(from: ServiceJobStage, to: ServiceJobStage): boolean {
+  return SERVICE_JOB_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Booking columns to write when a job moves to `to`. Invoicing is not
+ * covered here; it is done by converting the booking into an invoice.
+ */
+export function jobStageUpdate(to: Exclude<ServiceJobStage, "scheduled" | "invoiced">, at: Date, options: { userId?: string; reason?: string } = {}) {
+  switch (to) {
+    case "in_progress":
+      return { status: "confirmed" as const, startedAt: at, updatedAt: at };
+    case "completed":
+      return { status: "completed" as const, completedAt: at, updatedAt: at };
+    case "cancelled":
+      return { status: "cancelled" as const, cancelledAt: at, cancelledBy: options.userId, cancelReason: options.reason, updatedAt: at };
+  }
+}
+
+/**
+ * Amount billed for a job: the price agreed on the booking, or the service
+ * list price when none was recorded.
+ */
+export function jobInvoiceAmount(bookingAmount: string | null, servicePrice: string): number {
+  const amount = bookingAmount !== null && bookingAmount !== "" ? parseFloat(bookingAmount) : parseFloat(servicePrice);
+  return round2(amount);
+}
@@ -0,0 +1,220 @@
+import { Router, type Request, type Response } from "express";
+import bcrypt from "bcrypt";
+import { db } from "../../db";
+import {
+  gymMembers,
+  gymCheckIns,
+  gymClassSessions,
+  gymClassBookings,
+  customers,
+  customerMemberships,
+} from "@shared/schema";
+import { eq, and, desc, sql, isNull, gte, lte } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { evaluateCheckIn, selectCurrentMembership } from "./lifecycle";
+
+export const gymCheckInsRouter = Router();
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  memberId: z.string().optional(),
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+  allowed: z.enum(["true", "false"]).optional(),
+});
+
+const checkInSchema = z.discriminatedUnion("method", [
+  z.object({ method: z.literal("qr"), qrToken: z.string().min(1), sessionId: z.string().optional() }),
+  z.object({ method: z.literal("pin"), memberCode: z.string().min(1), pin: z.string().min(1), sessionId: z.string().optional() }),
+  z.object({ method: z.literal("manual"), memberId: z.string().min(1), sessionId: z.string().optional() }),
+]);
+
+type CheckInRequest = z.infer<typeof checkInSchema>;
+
+async function resolveMember(tenantId: string, input: CheckInRequest) {
+  const conditions = [eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt)];
+
+  if (input.method === "qr") {
+    conditions.push(eq(gymMembers.qrToken, input.qrToken));
+  } else if (input.method === "pin") {
+    conditions.push(eq(gymMembers.memberCode, input.memberCode.toUpperCase()));
+  } else {
+    conditions.push(eq(gymMembers.id, input.memberId));
+  }
+
+  const [member] = await db.select().from(gymMembers).where(and(...conditions));
+  if (!member) {
+    return null;
+  }
+
+  if (input.method === "pin") {
+    const valid = member.pinHash ? await bcrypt.compare(input.pin, member.pinHash) : false;
+    return valid ? member : null;
+  }
+
+  return member;
+}
+
+gymCheckInsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, memberId, dateFrom, dateTo, allowed } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(gymCheckIns.tenantId, tenantId)];
+
+    if (memberId) {
+      conditions.push(eq(gymCheckIns.memberId, memberId));
+    }
+
+    if (dateFrom) {
+      conditions.push(gte(gymCheckIns.checkedInAt, new Date(`${dateFrom}T00:00:00Z`)));
+    }
+
+    if (dateTo) {
+      conditions.push(lte(gymCheckIns.checkedInAt, new Date(`${dateTo}T23:59:59.999Z`)));
+    }
+
+    if (allowed) {
+      conditions.push(eq(gymCheckIns.allowed, allowed === "true"));
+    }
+
+    const [rows, countResult] = await Promise.all([
+      db.select({ checkIn: gymCheckIns, memberCode: gymMembers.memberCode, memberName: customers.name })
+        .from(gymCheckIns)
+        .leftJoin(gymMembers, eq(gymCheckIns.memberId, gymMembers.id))
+        .leftJoin(customers, eq(gymMembers.customerId, customers.id))
+        .where(and(...conditions))
+        .orderBy(desc(gymCheckIns.checkedInAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(gymCheckIns)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(({ checkIn, ...rest }) => ({ ...checkIn, ...rest })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymCheckInsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = checkInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const input = parsed.data;
+    const today = new Date().toISOString().split("T")[0];
+
+    const logAttempt = (values: Partial<typeof gymCheckIns.$inferInsert> & { allowed: boolean }) =>
+      db.insert(gymCheckIns).values({
+        tenantId,
+        method: input.method,
+        sessionId: input.sessionId,
+        recordedBy: req.context?.user?.id,
+        ipAddress: req.ip,
+        ...values,
+      }).returning().then(rows => rows[0]);
+
+    const member = await resolveMember(tenantId, input);
+    if (!member) {
+      const reason = input.method === "pin" ? "Invalid member code or PIN" : "Member not found";
+      const attempt = await logAttempt({ allowed: false, deniedReason: reason });
+      return res.status(403).json({ allowed: false, message: reason, checkInId: attempt.id });
+    }
+
+    const memberships = await db.select()
+      .from(customerMemberships)
+      .where(and(eq(customerMemberships.tenantId, tenantId), eq(customerMemberships.customerId, member.customerId)));
+
+    const membership = selectCurrentMembership(memberships, today);
+    let decision = evaluateCheckIn(member, membership, today);
+
+    let session: typeof gymClassSessions.$inferSelect | undefined;
+    if (decision.allowed && input.sessionId) {
+      [session] = await db.select()
+        .from(gymClassSessions)
+        .where(and(eq(gymClassSessions.id, input.sessionId), eq(gymClassSessions.tenantId, tenantId)));
+
+      if (!session || session.isCancelled || session.sessionDate !== today) {
+        decision = { allowed: false, reason: "Class session is not running today" };
+      }
+    }
+
+    const checkIn = await logAttempt({
+      memberId: member.id,
+      membershipId: membership?.id,
+      allowed: decision.allowed,
+      deniedReason: decision.allowed ? null : decision.reason,
+    });
+
+    if (!decision.allowed) {
+      return res.status(403).json({ allowed: false, message: decision.reason, checkInId: checkIn.id });
+    }
+
+    if (session) {
+      await db.update(gymClassBookings)
+        .set({ status: "attended", updatedAt: new Date() })
+        .where(and(
+          eq(gymClassBookings.sessionId, session.id),
+          eq(gymClassBookings.memberId, member.id),
+          eq(gymClassBookings.status, "booked")
+        ));
+    }
+
+    await db.update(customers)
+      .set({
+        visitCount: sql`COALESCE(${customers.visitCount}, 0) + 1`,
+        lastVisitAt: new Date(),
+      })
+      .where(eq(customers.id, member.customerId));
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_check_in",
+      resourceId: checkIn.id,
+      metadata: { memberId: member.id, method: input.method, sessionId: input.sessionId },
+    });
+
+    res.status(201).json({
+      allowed: true,
+      checkIn,
+      member: { id: member.id, memberCode: member.memberCode },
+      membership: membership ? { id: membership.id, endDate: membership.endDate } : null,
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
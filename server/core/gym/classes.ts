@@ -0,0 +1,612 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  gymClasses,
+  gymClassSessions,
+  gymClassBookings,
+  gymMembers,
+  customers,
+  customerMemberships,
+  tenantStaff,
+  insertGymClassSchema,
+} from "@shared/schema";
+import { eq, and, asc, sql, ilike, isNull, gte, lte, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { WEEKDAYS, addMinutes, dateString, timeString } from "../../utils/time-of-day";
+import { allocateSeat, evaluateCheckIn, expandWeeklyDates, selectCurrentMembership } from "./lifecycle";
+
+export const gymClassesRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+  trainerId: z.string().optional(),
+});
+
+const sessionQuerySchema = z.object({
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+  classId: z.string().optional(),
+  includeCancelled: z.enum(["true", "false"]).default("false"),
+});
+
+const classSchema = insertGymClassSchema.extend({
+  capacity: z.number().int().min(1).max(500),
+  durationMinutes: z.number().int().min(5).max(480).optional(),
+  waitlistLimit: z.number().int().min(0).max(500).optional(),
+});
+
+const createSessionsSchema = z.object({
+  startTime: timeString,
+  dates: z.array(dateString).max(100).optional(),
+  repeat: z.object({
+    from: dateString,
+    until: dateString,
+    weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+  }).optional(),
+  trainerId: z.string().optional(),
+  capacity: z.number().int().min(1).max(500).optional(),
+  waitlistLimit: z.number().int().min(0).max(500).optional(),
+}).refine(data => data.dates?.length || data.repeat, {
+  message: "Provide dates or a weekly repeat",
+  path: ["dates"],
+});
+
+const bookSchema = z.object({
+  memberId: z.string().min(1),
+});
+
+export class ClassFullError extends Error {
+  constructor() {
+    super("Class and waitlist are full");
+    this.name = "ClassFullError";
+  }
+}
+
+function lockSession(tx: Transaction, sessionId: string) {
+  return tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`gym:session:${sessionId}`}))`);
+}
+
+async function findSession(tenantId: string, sessionId: string) {
+  const [session] = await db.select()
+    .from(gymClassSessions)
+    .where(and(eq(gymClassSessions.id, sessionId), eq(gymClassSessions.tenantId, tenantId)));
+  return session;
+}
+
+async function countSeats(tx: Transaction, sessionId: string) {
+  const [counts] = await tx.select({
+    booked: sql<number>`count(*) FILTER (WHERE ${gymClassBookings.status} IN ('booked', 'attended'))::int`,
+    waitlisted: sql<number>`count(*) FILTER (WHERE ${gymClassBookings.status} = 'waitlisted')::int`,
+  })
+    .from(gymClassBookings)
+    .where(eq(gymClassBookings.sessionId, sessionId));
+  return { booked: counts?.booked || 0, waitlisted: counts?.waitlisted || 0 };
+}
+
+// Moves the longest-waiting members into seats freed by a cancellation
+async function promoteFromWaitlist(tx: Transaction, session: typeof gymClassSessions.$inferSelect) {
+  const { booked } = await countSeats(tx, session.id);
+  const openSeats = session.capacity - booked;
+  if (openSeats <= 0) {
+    return [];
+  }
+
+  const waitlist = await tx.select({ id: gymClassBookings.id })
+    .from(gymClassBookings)
+    .where(and(eq(gymClassBookings.sessionId, session.id), eq(gymClassBookings.status, "waitlisted")))
+    .orderBy(asc(gymClassBookings.waitlistedAt), asc(gymClassBookings.createdAt))
+    .limit(openSeats);
+
+  if (waitlist.length === 0) {
+    return [];
+  }
+
+  return tx.update(gymClassBookings)
+    .set({ status: "booked", promotedAt: new Date(), updatedAt: new Date() })
+    .where(inArray(gymClassBookings.id, waitlist.map(w => w.id)))
+    .returning();
+}
+
+gymClassesRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, search, status, trainerId } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(gymClasses.tenantId, tenantId), isNull(gymClasses.deletedAt)];
+
+    if (search) {
+      conditions.push(ilike(gymClasses.name, `%${search}%`));
+    }
+
+    if (status) {
+      conditions.push(eq(gymClasses.isActive, status === "active"));
+    }
+
+    if (trainerId) {
+      conditions.push(eq(gymClasses.trainerId, trainerId));
+    }
+
+    const [rows, countResult] = await Promise.all([
+      db.select({ gymClass: gymClasses, trainerName: tenantStaff.fullName })
+        .from(gymClasses)
+        .leftJoin(tenantStaff, eq(gymClasses.trainerId, tenantStaff.id))
+        .where(and(...conditions))
+        .orderBy(asc(gymClasses.name))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(gymClasses)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(r => ({ ...r.gymClass, trainerName: r.trainerName })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.get("/sessions", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const { dateFrom, dateTo, classId, includeCancelled } = sessionQuerySchema.parse(req.query);
+    const from = dateFrom ?? new Date().toISOString().split("T")[0];
+
+    const conditions = [eq(gymClassSessions.tenantId, tenantId), gte(gymClassSessions.sessionDate, from)];
+
+    if (dateTo) {
+      conditions.push(lte(gymClassSessions.sessionDate, dateTo));
+    }
+
+    if (classId) {
+      conditions.push(eq(gymClassSessions.classId, classId));
+    }
+
+    if (includeCancelled === "false") {
+      conditions.push(eq(gymClassSessions.isCancelled, false));
+    }
+
+    const rows = await db.select({
+      session: gymClassSessions,
+      className: gymClasses.name,
+      trainerName: tenantStaff.fullName,
+      booked: sql<number>`(SELECT count(*)::int FROM ${gymClassBookings} WHERE ${gymClassBookings.sessionId} = ${gymClassSessions.id} AND ${gymClassBookings.status} IN ('booked', 'attended'))`,
+      waitlisted: sql<number>`(SELECT count(*)::int FROM ${gymClassBookings} WHERE ${gymClassBookings.sessionId} = ${gymClassSessions.id} AND ${gymClassBookings.status} = 'waitlisted')`,
+    })
+      .from(gymClassSessions)
+      .innerJoin(gymClasses, eq(gymClassSessions.classId, gymClasses.id))
+      .leftJoin(tenantStaff, eq(gymClassSessions.trainerId, tenantStaff.id))
+      .where(and(...conditions))
+      .orderBy(asc(gymClassSessions.sessionDate), asc(gymClassSessions.startTime))
+      .limit(500);
+
+    res.json(rows.map(({ session, ...rest }) => ({
+      ...session,
+      ...rest,
+      spotsLeft: Math.max(0, session.capacity - rest.booked),
+    })));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.get("/sessions/:sessionId/roster", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const session = await findSession(tenantId, req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    const bookings = await db.select({
+      booking: gymClassBookings,
+      memberCode: gymMembers.memberCode,
+      memberName: customers.name,
+    })
+      .from(gymClassBookings)
+      .innerJoin(gymMembers, eq(gymClassBookings.memberId, gymMembers.id))
+      .innerJoin(customers, eq(gymMembers.customerId, customers.id))
+      .where(eq(gymClassBookings.sessionId, session.id))
+      .orderBy(asc(gymClassBookings.createdAt));
+
+    const flat = bookings.map(({ booking, ...rest }) => ({ ...booking, ...rest }));
+
+    res.json({
+      ...session,
+      booked: flat.filter(b => b.status === "booked" || b.status === "attended"),
+      waitlist: flat
+        .filter(b => b.status === "waitlisted")
+        .sort((a, b) => (a.waitlistedAt?.getTime() ?? 0) - (b.waitlistedAt?.getTime() ?? 0)),
+      cancelled: flat.filter(b => b.status === "cancelled" || b.status === "no_show"),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.post("/sessions/:sessionId/bookings", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = bookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const session = await findSession(tenantId, req.params.sessionId);
+    if (!session || session.isCancelled) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    const [member] = await db.select()
+      .from(gymMembers)
+      .where(and(eq(gymMembers.id, parsed.data.memberId), eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt)));
+
+    if (!member) {
+      return res.status(400).json({ message: "Member not found" });
+    }
+
+    const memberships = await db.select()
+      .from(customerMemberships)
+      .where(and(eq(customerMemberships.tenantId, tenantId), eq(customerMemberships.customerId, member.customerId)));
+
+    const decision = evaluateCheckIn(member, selectCurrentMembership(memberships, session.sessionDate), session.sessionDate);
+    if (!decision.allowed) {
+      return res.status(403).json({ message: decision.reason });
+    }
+
+    const booking = await db.transaction(async (tx) => {
+      await lockSession(tx, session.id);
+
+      const [existing] = await tx.select({ id: gymClassBookings.id })
+        .from(gymClassBookings)
+        .where(and(
+          eq(gymClassBookings.sessionId, session.id),
+          eq(gymClassBookings.memberId, member.id),
+          inArray(gymClassBookings.status, ["booked", "waitlisted", "attended"])
+        ));
+
+      if (existing) {
+        throw new Error("Member is already booked for this session");
+      }
+
+      const { booked, waitlisted } = await countSeats(tx, session.id);
+      const allocation = allocateSeat(session, booked, waitlisted);
+      if (allocation === "full") {
+        throw new ClassFullError();
+      }
+
+      const [created] = await tx.insert(gymClassBookings).values({
+        tenantId,
+        sessionId: session.id,
+        memberId: member.id,
+        status: allocation,
+        waitlistedAt: allocation === "waitlisted" ? new Date() : null,
+      }).returning();
+
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_class_booking",
+      resourceId: booking.id,
+      metadata: { sessionId: session.id, memberId: member.id, status: booking.status },
+    });
+
+    res.status(201).json(booking);
+  } catch (error: any) {
+    if (error instanceof ClassFullError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.delete("/sessions/:sessionId/bookings/:bookingId", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { sessionId, bookingId } = req.params;
+
+    const session = await findSession(tenantId, sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    const promoted = await db.transaction(async (tx) => {
+      await lockSession(tx, session.id);
+
+      const [cancelled] = await tx.update(gymClassBookings)
+        .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(gymClassBookings.id, bookingId),
+          eq(gymClassBookings.sessionId, session.id),
+          inArray(gymClassBookings.status, ["booked", "waitlisted"])
+        ))
+        .returning();
+
+      if (!cancelled) {
+        return null;
+      }
+
+      return promoteFromWaitlist(tx, session);
+    });
+
+    if (!promoted) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "gym_class_booking",
+      resourceId: bookingId,
+      metadata: { sessionId, promotedBookingIds: promoted.map(p => p.id) },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.post("/sessions/:sessionId/cancel", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const session = await findSession(tenantId, req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    if (session.isCancelled) {
+      return res.status(400).json({ message: "Session is already cancelled" });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [result] = await tx.update(gymClassSessions)
+        .set({ isCancelled: true, updatedAt: new Date() })
+        .where(eq(gymClassSessions.id, session.id))
+        .returning();
+
+      await tx.update(gymClassBookings)
+        .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(gymClassBookings.sessionId, session.id), inArray(gymClassBookings.status, ["booked", "waitlisted"])));
+
+      return result;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_class_session",
+      resourceId: session.id,
+      metadata: { cancelled: true, sessionDate: session.sessionDate },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [gymClass] = await db.select()
+      .from(gymClasses)
+      .where(and(eq(gymClasses.id, id), eq(gymClasses.tenantId, isolation.getTenantId()), isNull(gymClasses.deletedAt)));
+
+    if (!gymClass) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+
+    res.json(gymClass);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = classSchema.safeParse({ ...req.body, tenantId });
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [gymClass] = await db.insert(gymClasses).values(parsed.data).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_class",
+      resourceId: gymClass.id,
+      metadata: { name: gymClass.name, capacity: gymClass.capacity },
+    });
+
+    res.status(201).json(gymClass);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(gymClasses)
+      .where(and(eq(gymClasses.id, id), eq(gymClasses.tenantId, isolation.getTenantId()), isNull(gymClasses.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+
+    const parsed = classSchema.partial().omit({ tenantId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    // Existing sessions keep their own capacity; only new sessions pick up changes
+    const [updated] = await db.update(gymClasses)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(gymClasses.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_class",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(gymClasses)
+      .where(and(eq(gymClasses.id, id), eq(gymClasses.tenantId, isolation.getTenantId()), isNull(gymClasses.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+
+    await db.update(gymClasses)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(gymClasses.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "gym_class",
+      resourceId: id,
+      metadata: { name: existing.name },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymClassesRouter.post("/:id/sessions", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const [gymClass] = await db.select()
+      .from(gymClasses)
+      .where(and(eq(gymClasses.id, id), eq(gymClasses.tenantId, tenantId), isNull(gymClasses.deletedAt)));
+
+    if (!gymClass) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+
+    const parsed = createSessionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { startTime, dates = [], repeat, trainerId, capacity, waitlistLimit } = parsed.data;
+    const sessionDates = Array.from(new Set([
+      ...dates,
+      ...(repeat ? expandWeeklyDates(repeat.from, repeat.until, repeat.weekdays) : []),
+    ])).sort();
+
+    if (sessionDates.length === 0) {
+      return res.status(400).json({ message: "No session dates match the request" });
+    }
+
+    const sessions = await db.insert(gymClassSessions).values(sessionDates.map(sessionDate => ({
+      tenantId,
+      classId: gymClass.id,
+      trainerId: trainerId ?? gymClass.trainerId,
+      sessionDate,
+      startTime,
+      endTime: addMinutes(startTime, gymClass.durationMinutes),
+      capacity: capacity ?? gymClass.capacity,
+      waitlistLimit: waitlistLimit ?? gymClass.waitlistLimit,
+    }))).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_class_session",
+      resourceId: gymClass.id,
+      metadata: { count: sessions.length, from: sessionDates[0], until: sessionDates[sessionDates.length - 1] },
+    });
+
+    res.status(201).json(sessions);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -1,20 +1,28 @@
 /**
  * Gym/Fitness Module
- * 
+ *
  * Fitness center management:
- * - Member management
- * - Membership plans
- * - Trainer scheduling
- * - Equipment tracking
- * - Class scheduling
- * 
+ * - Member profiles linked to customers and membership plans
+ * - Memberships with freeze/unfreeze and renewal reminders
+ * - Class schedules with capacity and waitlists
+ * - QR/PIN check-in logging
+ * - Trainer assignments
+ *
  * @module server/core/gym
  */
 
 import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { gymMembers, gymClasses, gymCheckIns, customerMemberships, membershipPlans, tenantStaff } from "@shared/schema";
+import { eq, and, sql, isNull, gte, lte, asc } from "drizzle-orm";
 import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
-import { z } from "zod";
+import { addDays } from "../../utils/time-of-day";
+import { gymMembersRouter } from "./members";
+import { gymMembershipsRouter } from "./memberships";
+import { gymClassesRouter } from "./classes";
+import { gymCheckInsRouter } from "./check-ins";
+import { RENEWAL_REMINDER_DAYS } from "./lifecycle";
 
 export const gymRouter = Router();
 
@@ -24,50 +32,68 @@ const middleware = [
   requireMinimumRole("staff"),
 ];
 
-const paginationSchema = z.object({
-  page: z.coerce.number().min(1).default(1),
-  limit: z.coerce.number().min(1).max(100).default(20),
-  search: z.string().optional(),
-  status: z.string().optional(),
-});
+// Memberships held by this tenant's gym members
+const gymMembershipJoin = and(
+  eq(gymMembers.customerId, customerMemberships.customerId),
+  eq(gymMembers.tenantId, customerMemberships.tenantId)
+);
 
-gymRouter.get("/members", ...middleware, async (req: Request, res: Response) => {
+gymRouter.get("/dashboard", ...middleware, async (req: Request, res: Response) => {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-gymRouter.post("/members", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split("T")[0];
+    const startOfDay = new Date(`${today}T00:00:00Z`);
+
+    const [memberCounts, membershipCounts, trainerCount, checkInCount, revenueResult] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(gymMembers)
+        .where(and(eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt))),
+
+      db.select({
+        active: sql<number>`count(DISTINCT ${customerMemberships.customerId}) FILTER (WHERE ${customerMemberships.status} = 'active' AND ${customerMemberships.startDate} <= ${today} AND ${customerMemberships.endDate} >= ${today})::int`,
+        frozen: sql<number>`count(*) FILTER (WHERE ${customerMemberships.status} = 'suspended')::int`,
+        expiring: sql<number>`count(*) FILTER (WHERE ${customerMemberships.status} = 'active' AND ${customerMemberships.endDate} BETWEEN ${today} AND ${addDays(today, RENEWAL_REMINDER_DAYS)})::int`,
+      })
+        .from(customerMemberships)
+        .innerJoin(gymMembers, gymMembershipJoin)
+        .where(and(eq(customerMemberships.tenantId, tenantId), isNull(gymMembers.deletedAt))),
+
+      db.select({ count: sql<number>`count(DISTINCT ${gymClasses.trainerId})::int` })
+        .from(gymClasses)
+        .where(and(eq(gymClasses.tenantId, tenantId), eq(gymClasses.isActive, true), isNull(gymClasses.deletedAt))),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(gymCheckIns)
+        .where(and(eq(gymCheckIns.tenantId, tenantId), eq(gymCheckIns.allowed, true), gte(gymCheckIns.checkedInAt, startOfDay))),
+
+      // Memberships sold this month at their plan price
+      db.select({ total: sql<string>`COALESCE(SUM(${membershipPlans.price}), 0)` })
+        .from(customerMemberships)
+        .innerJoin(gymMembers, gymMembershipJoin)
+        .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+        .where(and(
+          eq(customerMemberships.tenantId, tenantId),
+          gte(customerMemberships.createdAt, new Date(`${startOfMonth}T00:00:00Z`)),
+          lte(customerMemberships.createdAt, now)
+        )),
+    ]);
 
-gymRouter.get("/memberships", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
     res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+      totalMembers: memberCounts[0]?.total || 0,
+      activeMembers: membershipCounts[0]?.active || 0,
+      frozenMemberships: membershipCounts[0]?.frozen || 0,
+      expiringMemberships: membershipCounts[0]?.expiring || 0,
+      totalTrainers: trainerCount[0]?.count || 0,
+      todayCheckIns: checkInCount[0]?.count || 0,
+      monthlyRevenue: parseFloat(revenueResult[0]?.total || "0"),
     });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
+  } catch (error) {
+    console.error("[gym/dashboard] Error:", error);
+    res.status(500).json({ message: "Failed to fetch dashboard stats" });
   }
 });
 
@@ -75,48 +101,36 @@ gymRouter.get("/trainers", ...middleware, async (req: Request, res: Response) =>
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-gymRouter.get("/classes", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const trainers = await db.select({
+      id: tenantStaff.id,
+      fullName: tenantStaff.fullName,
+      jobTitle: tenantStaff.jobTitle,
+      email: tenantStaff.email,
+      phone: tenantStaff.phone,
+      classCount: sql<number>`count(${gymClasses.id})::int`,
+    })
+      .from(tenantStaff)
+      .leftJoin(gymClasses, and(
+        eq(gymClasses.trainerId, tenantStaff.id),
+        eq(gymClasses.isActive, true),
+        isNull(gymClasses.deletedAt)
+      ))
+      .where(and(eq(tenantStaff.tenantId, tenantId), eq(tenantStaff.status, "active")))
+      .groupBy(tenantStaff.id)
+      .orderBy(asc(tenantStaff.fullName));
 
-gymRouter.get("/dashboard", ...middleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    res.json({
-      totalMembers: 0,
-      activeMembers: 0,
-      expiringMemberships: 0,
-      totalTrainers: 0,
-      todayCheckIns: 0,
-      monthlyRevenue: 0,
-    });
+    res.json(trainers);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
   }
 });
 
+gymRouter.use("/members", gymMembersRouter);
+gymRouter.use("/memberships", gymMembershipsRouter);
+gymRouter.use("/classes", gymClassesRouter);
+gymRouter.use("/check-ins", gymCheckInsRouter);
+
+export { gymMembersRouter, gymMembershipsRouter, gymClassesRouter, gymCheckInsRouter };
+
 export default gymRouter;
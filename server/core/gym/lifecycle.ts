@@ -0,0 +1,108 @@
+import { addDays, daysBetween, getWeekday, type Weekday } from "../../utils/time-of-day";
+
+/**
+ * Gym membership and class rules.
+ *
+ * Pure functions shared by the gym routes and the expiry job so the rules
+ * can be unit tested without a database. Dates are "YYYY-MM-DD" strings and
+ * membership end dates are inclusive.
+ */
+
+export const RENEWAL_REMINDER_DAYS = 7;
+export const MAX_SESSIONS_PER_REQUEST = 100;
+
+export interface MembershipState {
+  status: string | null;
+  startDate: string;
+  endDate: string;
+}
+
+export type CheckInDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+export type SeatAllocation = "booked" | "waitlisted" | "full";
+
+export function membershipEndDate(startDate: string, durationDays: number): string {
+  return addDays(startDate, Math.max(durationDays, 1) - 1);
+}
+
+/**
+ * A frozen membership is extended by the number of days it was frozen. The
+ * unfreeze day itself is usable again, so it does not count.
+ */
+export function calculateFreezeExtension(endDate: string, freezeStart: string, unfreezeDate: string) {
+  const daysFrozen = Math.max(0, daysBetween(freezeStart, unfreezeDate));
+  return { daysFrozen, newEndDate: addDays(endDate, daysFrozen) };
+}
+
+export function evaluateCheckIn(
+  member: { isActive: boolean | null },
+  membership: MembershipState | null,
+  date: string
+): CheckInDecision {
+  if (member.isActive === false) {
+    return { allowed: false, reason: "Member is inactive" };
+  }
+  if (!membership) {
+    return { allowed: false, reason: "No membership" };
+  }
+  if (membership.status === "suspended") {
+    return { allowed: false, reason: "Membership is frozen" };
+  }
+  if (membership.status !== "active") {
+    return { allowed: false, reason: `Membership is ${membership.status}` };
+  }
+  if (date < membership.startDate) {
+    return { allowed: false, reason: `Membership starts on ${membership.startDate}` };
+  }
+  if (date > membership.endDate) {
+    return { allowed: false, reason: `Membership expired on ${membership.endDate}` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Picks the membership that governs access on `date`: a current one first,
+ * otherwise the most recently ending one so the denial reason is useful.
+ */
+export function selectCurrentMembership<T extends MembershipState>(memberships: T[], date: string): T | null {
+  const current = memberships.find(m =>
+    (m.status === "active" || m.status === "suspended") && m.startDate <= date && date <= m.endDate
+  );
+  if (current) {
+    return current;
+  }
+  return [...memberships].sort((a, b) => b.endDate.localeCompare(a.endDate))[0] ?? null;
+}
+
+export function allocateSeat(session: { capacity: number; waitlistLimit: number | null }, bookedCount: number, waitlistedCount: number): SeatAllocation {
+  if (bookedCount < session.capacity) {
+    return "booked";
+  }
+  if (waitlistedCount < (session.waitlistLimit ?? 0)) {
+    return "waitlisted";
+  }
+  return "full";
+}
+
+export function isDueForRenewalReminder(
+  membership: MembershipState & { renewalReminderSentAt: Date | null },
+  today: string,
+  leadDays: number = RENEWAL_REMINDER_DAYS
+): boolean {
+  return membership.status === "active"
+    && !membership.renewalReminderSentAt
+    && membership.endDate >= today
+    && membership.endDate <= addDays(today, leadDays);
+}
+
+export function expandWeeklyDates(from: string, until: string, weekdays: Weekday[]): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= until && dates.length < MAX_SESSIONS_PER_REQUEST; date = addDays(date, 1)) {
+    if (weekdays.includes(getWeekday(date))) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
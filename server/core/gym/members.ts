@@ -0,0 +1,389 @@
+import { Router, type Request, type Response } from "express";
+import { randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { db } from "../../db";
+import {
+  gymMembers,
+  gymCheckIns,
+  customers,
+  customerMemberships,
+  membershipPlans,
+  insertGymMemberSchema,
+  insertCustomerSchema,
+} from "@shared/schema";
+import { eq, and, desc, asc, sql, ilike, or, isNull, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { selectCurrentMembership } from "./lifecycle";
+
+export const gymMembersRouter = Router();
+
+const PIN_SALT_ROUNDS = 10;
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(["createdAt", "memberCode", "name"]).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  search: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+});
+
+const pinSchema = z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
+const memberProfileSchema = insertGymMemberSchema.omit({ tenantId: true, memberCode: true, createdBy: true });
+
+const createMemberSchema = memberProfileSchema.extend({
+  customerId: z.string().optional(),
+  customer: insertCustomerSchema.pick({ name: true, email: true, phone: true, address: true }).optional(),
+  pin: pinSchema.optional(),
+}).refine(data => data.customerId || data.customer, {
+  message: "Either customerId or customer details are required",
+  path: ["customerId"],
+});
+
+const credentialsSchema = z.object({
+  regenerateQr: z.boolean().default(false),
+  pin: pinSchema.optional(),
+});
+
+export function generateQrToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+async function generateMemberCode(tenantId: string): Promise<string> {
+  const [result] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(gymMembers)
+    .where(eq(gymMembers.tenantId, tenantId));
+  return `GYM-${String((result?.count || 0) + 1).padStart(5, "0")}`;
+}
+
+function withoutSecrets<T extends { pinHash: string | null }>(member: T) {
+  const { pinHash, ...rest } = member;
+  return { ...rest, hasPin: !!pinHash };
+}
+
+gymMembersRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortBy, sortOrder, search, status } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(customers.name, `%${search}%`),
+          ilike(customers.email, `%${search}%`),
+          ilike(customers.phone, `%${search}%`),
+          ilike(gymMembers.memberCode, `%${search}%`)
+        )!
+      );
+    }
+
+    if (status) {
+      conditions.push(eq(gymMembers.isActive, status === "active"));
+    }
+
+    const orderColumn = {
+      createdAt: gymMembers.createdAt,
+      memberCode: gymMembers.memberCode,
+      name: customers.name,
+    }[sortBy];
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [rows, countResult] = await Promise.all([
+      db.select({ member: gymMembers, customer: customers })
+        .from(gymMembers)
+        .innerJoin(customers, eq(gymMembers.customerId, customers.id))
+        .where(and(...conditions))
+        .orderBy(orderFn(orderColumn))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(gymMembers)
+        .innerJoin(customers, eq(gymMembers.customerId, customers.id))
+        .where(and(...conditions)),
+    ]);
+
+    const customerIds = rows.map(r => r.member.customerId);
+    const memberships = customerIds.length > 0
+      ? await db.select({ membership: customerMemberships, planName: membershipPlans.name })
+        .from(customerMemberships)
+        .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+        .where(and(eq(customerMemberships.tenantId, tenantId), inArray(customerMemberships.customerId, customerIds)))
+      : [];
+
+    const today = new Date().toISOString().split("T")[0];
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(({ member, customer }) => {
+        const current = selectCurrentMembership(
+          memberships.filter(m => m.membership.customerId === member.customerId)
+            .map(m => ({ ...m.membership, planName: m.planName })),
+          today
+        );
+        return {
+          ...withoutSecrets(member),
+          name: customer.name,
+          email: customer.email,
+          phone: customer.phone,
+          currentMembership: current,
+        };
+      }),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembersRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const [row] = await db.select({ member: gymMembers, customer: customers })
+      .from(gymMembers)
+      .innerJoin(customers, eq(gymMembers.customerId, customers.id))
+      .where(and(eq(gymMembers.id, id), eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt)));
+
+    if (!row) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    const [memberships, recentCheckIns] = await Promise.all([
+      db.select({ membership: customerMemberships, planName: membershipPlans.name })
+        .from(customerMemberships)
+        .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+        .where(and(eq(customerMemberships.tenantId, tenantId), eq(customerMemberships.customerId, row.member.customerId)))
+        .orderBy(desc(customerMemberships.endDate)),
+      db.select()
+        .from(gymCheckIns)
+        .where(and(eq(gymCheckIns.tenantId, tenantId), eq(gymCheckIns.memberId, id)))
+        .orderBy(desc(gymCheckIns.checkedInAt))
+        .limit(20),
+    ]);
+
+    res.json({
+      ...withoutSecrets(row.member),
+      customer: row.customer,
+      memberships: memberships.map(m => ({ ...m.membership, planName: m.planName })),
+      recentCheckIns,
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembersRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = createMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { customerId, customer: customerDetails, pin, ...profile } = parsed.data;
+
+    if (customerId) {
+      const [customer] = await db.select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId), isNull(customers.deletedAt)));
+
+      if (!customer) {
+        return res.status(400).json({ message: "Customer not found" });
+      }
+
+      const [existing] = await db.select({ id: gymMembers.id })
+        .from(gymMembers)
+        .where(and(eq(gymMembers.tenantId, tenantId), eq(gymMembers.customerId, customerId)));
+
+      if (existing) {
+        return res.status(409).json({ message: "Customer is already a gym member", memberId: existing.id });
+      }
+    }
+
+    const memberCode = await generateMemberCode(tenantId);
+    const pinHash = pin ? await bcrypt.hash(pin, PIN_SALT_ROUNDS) : null;
+
+    const member = await db.transaction(async (tx) => {
+      let resolvedCustomerId = customerId;
+      if (!resolvedCustomerId) {
+        const [created] = await tx.insert(customers).values({
+          ...customerDetails!,
+          tenantId,
+          createdBy: req.context?.user?.id,
+        }).returning();
+        resolvedCustomerId = created.id;
+      }
+
+      const [created] = await tx.insert(gymMembers).values({
+        ...profile,
+        tenantId,
+        customerId: resolvedCustomerId,
+        memberCode,
+        qrToken: generateQrToken(),
+        pinHash,
+        joinedAt: profile.joinedAt ?? new Date().toISOString().split("T")[0],
+        createdBy: req.context?.user?.id,
+      }).returning();
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_member",
+      resourceId: member.id,
+      metadata: { memberCode: member.memberCode, customerId: member.customerId },
+    });
+
+    res.status(201).json(withoutSecrets(member));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembersRouter.patch("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(gymMembers)
+      .where(and(eq(gymMembers.id, id), eq(gymMembers.tenantId, isolation.getTenantId()), isNull(gymMembers.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    const parsed = memberProfileSchema.partial().omit({ customerId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(gymMembers)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(gymMembers.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_member",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(withoutSecrets(updated));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembersRouter.post("/:id/credentials", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(gymMembers)
+      .where(and(eq(gymMembers.id, id), eq(gymMembers.tenantId, isolation.getTenantId()), isNull(gymMembers.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { regenerateQr, pin } = parsed.data;
+
+    const [updated] = await db.update(gymMembers)
+      .set({
+        qrToken: regenerateQr ? generateQrToken() : existing.qrToken,
+        pinHash: pin ? await bcrypt.hash(pin, PIN_SALT_ROUNDS) : existing.pinHash,
+        updatedAt: new Date(),
+      })
+      .where(eq(gymMembers.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_member",
+      resourceId: id,
+      metadata: { credentials: { qrRegenerated: regenerateQr, pinChanged: !!pin } },
+    });
+
+    res.json(withoutSecrets(updated));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembersRouter.delete("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(gymMembers)
+      .where(and(eq(gymMembers.id, id), eq(gymMembers.tenantId, isolation.getTenantId()), isNull(gymMembers.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Member not found" });
+    }
+
+    await db.update(gymMembers)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(gymMembers.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "gym_member",
+      resourceId: id,
+      metadata: { memberCode: existing.memberCode },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
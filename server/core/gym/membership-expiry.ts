@@ -0,0 +1,124 @@
+/**
+ * Gym Membership Expiry
+ *
+ * Background pass over gym memberships:
+ * - Sends renewal reminders for memberships ending within RENEWAL_REMINDER_DAYS
+ * - Expires active memberships whose end date has passed and notifies the member
+ *
+ * Frozen (suspended) memberships are skipped; their end date is extended
+ * when they are unfrozen.
+ *
+ * @module server/core/gym/membership-expiry
+ */
+
+import { db } from "../../db";
+import { gymMembers, customers, customerMemberships, membershipPlans } from "@shared/schema";
+import { eq, and, lt, gte, lte, isNull, inArray } from "drizzle-orm";
+import { addDays } from "../../utils/time-of-day";
+import { sendMembershipRenewalReminder, sendMembershipExpiredNotice } from "../../services/gym-notification-adapter";
+import { RENEWAL_REMINDER_DAYS, isDueForRenewalReminder } from "./lifecycle";
+
+const BATCH_SIZE = 200;
+
+function gymMembershipQuery() {
+  return db.select({
+    membership: customerMemberships,
+    planName: membershipPlans.name,
+    planPrice: membershipPlans.price,
+    memberCode: gymMembers.memberCode,
+    memberName: customers.name,
+    memberEmail: customers.email,
+    memberPhone: customers.phone,
+  })
+    .from(customerMemberships)
+    .innerJoin(gymMembers, and(eq(gymMembers.customerId, customerMemberships.customerId), eq(gymMembers.tenantId, customerMemberships.tenantId)))
+    .innerJoin(customers, eq(customerMemberships.customerId, customers.id))
+    .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id));
+}
+
+type Row = Awaited<ReturnType<typeof gymMembershipQuery>>[number];
+
+function notificationData(row: Row) {
+  return {
+    membershipId: row.membership.id,
+    memberName: row.memberName,
+    memberEmail: row.memberEmail || undefined,
+    memberPhone: row.memberPhone || undefined,
+    memberCode: row.memberCode,
+    planName: row.planName,
+    endDate: row.membership.endDate,
+    renewalPrice: row.planPrice,
+  };
+}
+
+export async function processGymMembershipExpiry(today: string = new Date().toISOString().split("T")[0]): Promise<{ processed: number; reminded: number; expired: number }> {
+  let reminded = 0;
+  let expired = 0;
+
+  const expiring = await gymMembershipQuery()
+    .where(and(
+      eq(customerMemberships.status, "active"),
+      isNull(customerMemberships.renewalReminderSentAt),
+      isNull(gymMembers.deletedAt),
+      gte(customerMemberships.endDate, today),
+      lte(customerMemberships.endDate, addDays(today, RENEWAL_REMINDER_DAYS))
+    ))
+    .limit(BATCH_SIZE);
+
+  for (const row of expiring) {
+    if (!isDueForRenewalReminder(row.membership, today)) continue;
+
+    try {
+      await sendMembershipRenewalReminder(row.membership.tenantId, notificationData(row));
+    } catch (error) {
+      console.error(`[gym-membership-expiry] Reminder failed for ${row.membership.id}:`, error);
+    }
+
+    // Marked even when delivery failed; the notification log keeps its own retries
+    await db.update(customerMemberships)
+      .set({ renewalReminderSentAt: new Date() })
+      .where(eq(customerMemberships.id, row.membership.id));
+    reminded++;
+  }
+
+  const lapsed = await gymMembershipQuery()
+    .where(and(
+      eq(customerMemberships.status, "active"),
+      isNull(gymMembers.deletedAt),
+      lt(customerMemberships.endDate, today)
+    ))
+    .limit(BATCH_SIZE);
+
+  if (lapsed.length > 0) {
+    await db.update(customerMemberships)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(and(
+        inArray(customerMemberships.id, lapsed.map(r => r.membership.id)),
+        eq(customerMemberships.status, "active")
+      ));
+
+    for (const row of lapsed) {
+      // A renewal already lined up means the member does not need an expiry notice
+      const [renewal] = await db.select({ id: customerMemberships.id })
+        .from(customerMemberships)
+        .where(and(
+          eq(customerMemberships.tenantId, row.membership.tenantId),
+          eq(customerMemberships.customerId, row.membership.customerId),
+          eq(customerMemberships.status, "active"),
+          gte(customerMemberships.endDate, today)
+        ))
+        .limit(1);
+
+      if (!renewal) {
+        try {
+          await sendMembershipExpiredNotice(row.membership.tenantId, notificationData(row));
+        } catch (error) {
+          console.error(`[gym-membership-expiry] Expiry notice failed for ${row.membership.id}:`, error);
+        }
+      }
+      expired++;
+    }
+  }
+
+  return { processed: reminded + expired, reminded, expired };
+}
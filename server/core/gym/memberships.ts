@@ -0,0 +1,394 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  gymMembers,
+  gymMembershipFreezes,
+  customers,
+  customerMemberships,
+  membershipPlans,
+} from "@shared/schema";
+import { eq, and, desc, sql, isNull, inArray, gte, lte } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { addDays, dateString, today } from "../../utils/time-of-day";
+import { membershipEndDate, calculateFreezeExtension } from "./lifecycle";
+
+export const gymMembershipsRouter = Router();
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(["active", "expired", "suspended", "cancelled"]).optional(),
+  memberId: z.string().optional(),
+  expiringWithinDays: z.coerce.number().int().min(0).max(365).optional(),
+});
+
+const createMembershipSchema = z.object({
+  memberId: z.string().min(1),
+  planId: z.string().min(1),
+  startDate: dateString.optional(),
+  autoRenew: z.boolean().default(false),
+  notes: z.string().optional(),
+});
+
+const freezeSchema = z.object({
+  startDate: dateString.optional(),
+  reason: z.string().optional(),
+});
+
+const unfreezeSchema = z.object({
+  date: dateString.optional(),
+});
+
+const cancelSchema = z.object({
+  reason: z.string().optional(),
+});
+
+async function findMembership(tenantId: string, id: string) {
+  const [membership] = await db.select()
+    .from(customerMemberships)
+    .where(and(eq(customerMemberships.id, id), eq(customerMemberships.tenantId, tenantId)));
+  return membership;
+}
+
+gymMembershipsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, status, memberId, expiringWithinDays } = query;
+    const offset = (page - 1) * limit;
+
+    // Only memberships held by gym members; other modules share customer_memberships
+    const conditions = [eq(customerMemberships.tenantId, tenantId), isNull(gymMembers.deletedAt)];
+
+    if (status) {
+      conditions.push(eq(customerMemberships.status, status));
+    }
+
+    if (memberId) {
+      conditions.push(eq(gymMembers.id, memberId));
+    }
+
+    if (expiringWithinDays !== undefined) {
+      conditions.push(eq(customerMemberships.status, "active"));
+      conditions.push(gte(customerMemberships.endDate, today()));
+      conditions.push(lte(customerMemberships.endDate, addDays(today(), expiringWithinDays)));
+    }
+
+    const [rows, countResult] = await Promise.all([
+      db.select({
+        membership: customerMemberships,
+        planName: membershipPlans.name,
+        memberId: gymMembers.id,
+        memberCode: gymMembers.memberCode,
+        memberName: customers.name,
+      })
+        .from(customerMemberships)
+        .innerJoin(gymMembers, and(eq(gymMembers.customerId, customerMemberships.customerId), eq(gymMembers.tenantId, customerMemberships.tenantId)))
+        .innerJoin(customers, eq(customerMemberships.customerId, customers.id))
+        .innerJoin(membershipPlans, eq(customerMemberships.planId, membershipPlans.id))
+        .where(and(...conditions))
+        .orderBy(desc(customerMemberships.endDate))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(customerMemberships)
+        .innerJoin(gymMembers, and(eq(gymMembers.customerId, customerMemberships.customerId), eq(gymMembers.tenantId, customerMemberships.tenantId)))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(({ membership, ...rest }) => ({ ...membership, ...rest })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembershipsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = createMembershipSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { memberId, planId, autoRenew, notes } = parsed.data;
+
+    const [[member], [plan]] = await Promise.all([
+      db.select()
+        .from(gymMembers)
+        .where(and(eq(gymMembers.id, memberId), eq(gymMembers.tenantId, tenantId), isNull(gymMembers.deletedAt))),
+      db.select()
+        .from(membershipPlans)
+        .where(and(eq(membershipPlans.id, planId), eq(membershipPlans.tenantId, tenantId), eq(membershipPlans.isActive, true))),
+    ]);
+
+    if (!member) {
+      return res.status(400).json({ message: "Member not found" });
+    }
+
+    if (!plan) {
+      return res.status(400).json({ message: "Membership plan not found or inactive" });
+    }
+
+    // Renewals start the day after the latest running membership ends
+    const [latest] = await db.select({ endDate: customerMemberships.endDate })
+      .from(customerMemberships)
+      .where(and(
+        eq(customerMemberships.tenantId, tenantId),
+        eq(customerMemberships.customerId, member.customerId),
+        inArray(customerMemberships.status, ["active", "suspended"]),
+        gte(customerMemberships.endDate, today())
+      ))
+      .orderBy(desc(customerMemberships.endDate))
+      .limit(1);
+
+    const startDate = parsed.data.startDate ?? (latest ? addDays(latest.endDate, 1) : today());
+
+    if (latest && startDate <= latest.endDate) {
+      return res.status(409).json({
+        message: `Member already has a membership running until ${latest.endDate}`,
+        nextStartDate: addDays(latest.endDate, 1),
+      });
+    }
+
+    const [membership] = await db.insert(customerMemberships).values({
+      tenantId,
+      customerId: member.customerId,
+      planId,
+      startDate,
+      endDate: membershipEndDate(startDate, plan.durationDays),
+      autoRenew,
+      notes,
+    }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "gym_membership",
+      resourceId: membership.id,
+      metadata: { memberId, planId, startDate, endDate: membership.endDate },
+    });
+
+    res.status(201).json(membership);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembershipsRouter.get("/:id/freezes", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const membership = await findMembership(tenantId, req.params.id);
+    if (!membership) {
+      return res.status(404).json({ message: "Membership not found" });
+    }
+
+    const freezes = await db.select()
+      .from(gymMembershipFreezes)
+      .where(and(eq(gymMembershipFreezes.tenantId, tenantId), eq(gymMembershipFreezes.membershipId, membership.id)))
+      .orderBy(desc(gymMembershipFreezes.startDate));
+
+    res.json(freezes);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembershipsRouter.post("/:id/freeze", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = freezeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const membership = await findMembership(tenantId, req.params.id);
+    if (!membership) {
+      return res.status(404).json({ message: "Membership not found" });
+    }
+
+    if (membership.status !== "active") {
+      return res.status(400).json({ message: `Cannot freeze a ${membership.status} membership` });
+    }
+
+    const startDate = parsed.data.startDate ?? today();
+    if (startDate > today()) {
+      return res.status(400).json({ message: "Freeze cannot start in the future" });
+    }
+    if (startDate < membership.startDate || startDate > membership.endDate) {
+      return res.status(400).json({ message: "Freeze must start within the membership period" });
+    }
+
+    const freeze = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(gymMembershipFreezes).values({
+        tenantId,
+        membershipId: membership.id,
+        startDate,
+        reason: parsed.data.reason,
+        frozenBy: req.context?.user?.id,
+      }).returning();
+
+      await tx.update(customerMemberships)
+        .set({ status: "suspended", updatedAt: new Date() })
+        .where(eq(customerMemberships.id, membership.id));
+
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_membership",
+      resourceId: membership.id,
+      metadata: { freeze: { startDate, reason: parsed.data.reason } },
+    });
+
+    res.status(201).json(freeze);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembershipsRouter.post("/:id/unfreeze", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = unfreezeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const membership = await findMembership(tenantId, req.params.id);
+    if (!membership) {
+      return res.status(404).json({ message: "Membership not found" });
+    }
+
+    const [openFreeze] = await db.select()
+      .from(gymMembershipFreezes)
+      .where(and(
+        eq(gymMembershipFreezes.tenantId, tenantId),
+        eq(gymMembershipFreezes.membershipId, membership.id),
+        isNull(gymMembershipFreezes.endDate)
+      ));
+
+    if (membership.status !== "suspended" || !openFreeze) {
+      return res.status(400).json({ message: "Membership is not frozen" });
+    }
+
+    const unfreezeDate = parsed.data.date ?? today();
+    if (unfreezeDate < openFreeze.startDate) {
+      return res.status(400).json({ message: "Unfreeze date is before the freeze started" });
+    }
+
+    const { daysFrozen, newEndDate } = calculateFreezeExtension(membership.endDate, openFreeze.startDate, unfreezeDate);
+
+    const updated = await db.transaction(async (tx) => {
+      await tx.update(gymMembershipFreezes)
+        .set({ endDate: unfreezeDate, daysFrozen, unfrozenBy: req.context?.user?.id })
+        .where(eq(gymMembershipFreezes.id, openFreeze.id));
+
+      const [result] = await tx.update(customerMemberships)
+        .set({
+          status: "active",
+          endDate: newEndDate,
+          // The end date moved, so the renewal reminder should go out again
+          renewalReminderSentAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(customerMemberships.id, membership.id))
+        .returning();
+
+      return result;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_membership",
+      resourceId: membership.id,
+      metadata: { unfreeze: { daysFrozen, previousEndDate: membership.endDate, newEndDate } },
+    });
+
+    res.json({ ...updated, daysFrozen });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+gymMembershipsRouter.post("/:id/cancel", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = cancelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const membership = await findMembership(tenantId, req.params.id);
+    if (!membership) {
+      return res.status(404).json({ message: "Membership not found" });
+    }
+
+    if (membership.status === "cancelled" || membership.status === "expired") {
+      return res.status(400).json({ message: `Membership is already ${membership.status}` });
+    }
+
+    const [updated] = await db.update(customerMemberships)
+      .set({ status: "cancelled", autoRenew: false, updatedAt: new Date() })
+      .where(eq(customerMemberships.id, membership.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "gym_membership",
+      resourceId: membership.id,
+      metadata: { statusChange: { from: membership.status, to: "cancelled" }, reason: parsed.data.reason },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -97,6 +97,18 @@ export {
   type BusinessModule 
 } from "./business-modules";
 export { whatsappService, whatsappProviderSelector, initializeWhatsappProviders } from "./whatsapp";
+export { pushService, deviceRegistry, pushProviderRegistry } from "./push";
+export { webhookService, webhookEndpointsRouter } from "./webhooks";
+export { invoiceLedgerService, invoiceLedgerRouter } from "./invoicing";
+export { accountingService, accountingRouter } from "./accounting";
+export { bankReconciliationService, bankReconciliationRouter } from "./bank-reconciliation";
+export { accountingExportService, accountingExportRouter } from "./accounting-exports";
+export { dunningService, dunningRouter, dunningAdminRouter } from "./dunning";
+export { procurementService, procurementRouter } from "./procurement";
+export { stockService, stockRouter } from "./stock";
+export { mrpService, mrpRouter } from "./mrp";
+export { productionSchedulingService, productionSchedulingRouter } from "./production-scheduling";
+export { productConfiguratorService, productConfiguratorRouter } from "./product-configurator";
 export { domainService, resolveTenantByDomain, requireVerifiedDomain, attachDomainBranding } from "./domain";
 export { realEstateRouter } from "./real-estate";
 export { tourismRouter } from "./tourism";
@@ -0,0 +1,264 @@
+/**
+ * E-invoice (IRN) payloads for the Invoice Registration Portal, following
+ * the GST e-invoice schema v1.1 (INV-01).
+ */
+
+import crypto from "crypto";
+import type { GstConfiguration, GstInvoice } from "@shared/schema";
+import { round2 } from "../../utils/money";
+
+export const E_INVOICE_SCHEMA_VERSION = "1.1";
+// The IRP only accepts cancellation within 24 hours of generation
+export const IRN_CANCEL_WINDOW_HOURS = 24;
+
+export interface GstLineItem {
+  description?: string;
+  name?: string;
+  hsnCode?: string;
+  sacCode?: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  discount?: number;
+  gstRate?: number;
+  cessRate?: number;
+  cessAmount?: number;
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+export interface EInvoicePayload {
+  Version: string;
+  TranDtls: { TaxSch: "GST"; SupTyp: string; RegRev: "Y" | "N"; EcmGstin: string | null; IgstOnIntra: "Y" | "N" };
+  DocDtls: { Typ: "INV" | "CRN" | "DBN"; No: string; Dt: string };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    CesVal: number;
+    Discount: number;
+    OthChrg: number;
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  TrdNm?: string;
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  IsServc: "Y" | "N";
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  CesRt: number;
+  CesAmt: number;
+  TotItemVal: number;
+}
+
+const DOC_TYPES: Record<string, "INV" | "CRN" | "DBN"> = {
+  tax_invoice: "INV",
+  credit_note: "CRN",
+  debit_note: "DBN",
+};
+
+// Supply types the IRP accepts; B2C invoices are outside the e-invoice mandate
+const SUPPLY_TYPES: Record<string, string> = {
+  B2B: "B2B",
+  B2G: "B2B",
+  SEZ: "SEZWP",
+  Export: "EXPWP",
+};
+
+export function formatEInvoiceDate(date: Date): string {
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  return `${dd}/${mm}/${date.getFullYear()}`;
+}
+
+export function financialYear(date: Date): string {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${year}-${String(year + 1).slice(-2)}`;
+}
+
+/**
+ * IRN as the IRP computes it: SHA-256 over supplier GSTIN, financial year,
+ * document type and document number.
+ */
+export function computeIrn(sellerGstin: string, docType: string, docNo: string, docDate: Date): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${sellerGstin}${financialYear(docDate)}${docType}${docNo}`.toUpperCase())
+    .digest("hex");
+}
+
+export function canCancelIrn(ackDate: Date, now: Date): boolean {
+  return now.getTime() - ackDate.getTime() <= IRN_CANCEL_WINDOW_HOURS * 60 * 60 * 1000;
+}
+
+export function isServiceCode(code: string): boolean {
+  // SAC codes for services all fall under chapter 99
+  return code.startsWith("99");
+}
+
+function lineItemHsn(item: GstLineItem): string {
+  return item.hsnCode || item.sacCode || "";
+}
+
+/**
+ * Problems that would make the IRP reject the invoice, checked before
+ * anything is sent.
+ */
+export function validateForEInvoice(invoice: GstInvoice, config: GstConfiguration): string[] {
+  const errors: string[] = [];
+  if (!DOC_TYPES[invoice.invoiceType]) errors.push(`Invoice type "${invoice.invoiceType}" cannot be e-invoiced`);
+  if (!SUPPLY_TYPES[invoice.supplyType || ""]) errors.push("Only B2B, B2G, SEZ and export supplies are e-invoiced");
+  if (!invoice.customerGstin && invoice.supplyType !== "Export") errors.push("Buyer GSTIN is required");
+  if (!config.addressLine1 || !config.city || !config.pincode) errors.push("Seller address, city and PIN code are required in the GST configuration");
+  if (!invoice.customerAddress || !invoice.customerCity || !invoice.customerPincode) errors.push("Buyer address, city and PIN code are required");
+  if (invoice.invoiceNumber.length > 16) errors.push("Document number must be at most 16 characters");
+
+  const items = (invoice.lineItems as GstLineItem[]) || [];
+  if (items.length === 0) errors.push("Invoice has no line items");
+  items.forEach((item, index) => {
+    if (!/^\d{4,8}$/.test(lineItemHsn(item))) errors.push(`Line ${index + 1}: a 4-8 digit HSN/SAC code is required`);
+  });
+  return errors;
+}
+
+export function buildEInvoicePayload(invoice: GstInvoice, config: GstConfiguration): EInvoicePayload {
+  const items = (invoice.lineItems as GstLineItem[]) || [];
+  const buyerStateCode = invoice.customerStateCode || invoice.placeOfSupply;
+
+  const itemList: EInvoiceItem[] = items.map((item, index) => {
+    const hsn = lineItemHsn(item);
+    const totAmt = round2(item.quantity * item.unitPrice);
+    const discount = round2(item.discount || 0);
+    const assAmt = round2(item.taxableAmount ?? totAmt - discount);
+    const igst = round2(item.igstAmount || 0);
+    const cgst = round2(item.cgstAmount || 0);
+    const sgst = round2(item.sgstAmount || 0);
+    const cess = round2(item.cessAmount || 0);
+    return {
+      SlNo: String(index + 1),
+      PrdDesc: item.description || item.name || "",
+      IsServc: isServiceCode(hsn) ? "Y" : "N",
+      HsnCd: hsn,
+      Qty: item.quantity,
+      Unit: item.unit || (isServiceCode(hsn) ? "OTH" : "NOS"),
+      UnitPrice: round2(item.unitPrice),
+      TotAmt: totAmt,
+      Discount: discount,
+      AssAmt: assAmt,
+      GstRt: item.gstRate ?? 18,
+      IgstAmt: igst,
+      CgstAmt: cgst,
+      SgstAmt: sgst,
+      CesRt: item.cessRate || 0,
+      CesAmt: cess,
+      TotItemVal: round2(assAmt + igst + cgst + sgst + cess),
+    };
+  });
+
+  const sum = (pick: (item: EInvoiceItem) => number) => round2(itemList.reduce((acc, item) => acc + pick(item), 0));
+
+  return {
+    Version: E_INVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: "GST",
+      SupTyp: SUPPLY_TYPES[invoice.supplyType || ""] || "B2B",
+      RegRev: invoice.reverseCharge ? "Y" : "N",
+      EcmGstin: null,
+      IgstOnIntra: "N",
+    },
+    DocDtls: {
+      Typ: DOC_TYPES[invoice.invoiceType] || "INV",
+      No: invoice.invoiceNumber,
+      Dt: formatEInvoiceDate(invoice.invoiceDate),
+    },
+    SellerDtls: {
+      Gstin: config.gstin,
+      LglNm: config.legalName,
+      ...(config.tradeName ? { TrdNm: config.tradeName } : {}),
+      Addr1: config.addressLine1 || "",
+      ...(config.addressLine2 ? { Addr2: config.addressLine2 } : {}),
+      Loc: config.city || "",
+      Pin: Number(config.pincode),
+      Stcd: config.stateCode,
+      ...(config.phone ? { Ph: config.phone } : {}),
+      ...(config.email ? { Em: config.email } : {}),
+    },
+    BuyerDtls: {
+      // Export buyers have no GSTIN; the schema expects "URP" (unregistered person)
+      Gstin: invoice.customerGstin || "URP",
+      LglNm: invoice.customerName,
+      Pos: invoice.placeOfSupply,
+      Addr1: invoice.customerAddress || "",
+      Loc: invoice.customerCity || "",
+      Pin: Number(invoice.customerPincode),
+      Stcd: buyerStateCode,
+    },
+    ItemList: itemList,
+    ValDtls: {
+      AssVal: sum((item) => item.AssAmt),
+      CgstVal: sum((item) => item.CgstAmt),
+      SgstVal: sum((item) => item.SgstAmt),
+      IgstVal: sum((item) => item.IgstAmt),
+      CesVal: sum((item) => item.CesAmt),
+      Discount: 0,
+      OthChrg: 0,
+      RndOffAmt: round2(parseFloat(invoice.roundOff || "0")),
+      TotInvVal: round2(sum((item) => item.TotItemVal) + parseFloat(invoice.roundOff || "0")),
+    },
+  };
+}
+
+/**
+ * Claims carried in the IRP signed QR code.
+ */
+export function buildSignedQrData(payload: EInvoicePayload, irn: string, ackDate: Date) {
+  const hsnTotals = new Map<string, number>();
+  for (const item of payload.ItemList) {
+    hsnTotals.set(item.HsnCd, (hsnTotals.get(item.HsnCd) || 0) + item.AssAmt);
+  }
+  const mainHsnCode = Array.from(hsnTotals.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+  return {
+    SellerGstin: payload.SellerDtls.Gstin,
+    BuyerGstin: payload.BuyerDtls.Gstin,
+    DocNo: payload.DocDtls.No,
+    DocTyp: payload.DocDtls.Typ,
+    DocDt: payload.DocDtls.Dt,
+    TotInvVal: payload.ValDtls.TotInvVal,
+    ItemCnt: payload.ItemList.length,
+    MainHsnCode: mainHsnCode,
+    Irn: irn,
+    IrnDt: ackDate.toISOString().replace("T", " ").slice(0, 19),
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * GSTR-1 and GSTR-3B return summaries built from issued GST invoices, in
+ * the JSON layout accepted by the GST portal's offline tool.
+ */
+
+import type { GstInvoice } from "@shared/schema";
+import type { GstLineItem } from "./e-invoice";
+import { round2 } from "../../utils/money";
+
+// Inter-state B2C invoices above this value are reported invoice-wise (B2CL)
+export const B2CL_INVOICE_THRESHOLD = 100000;
+
+const EXCLUDED_STATUSES = ["draft", "cancelled"];
+
+export interface ReturnPeriod {
+  period: string;
+  start: Date;
+  end: Date;
+}
+
+interface TaxTotals {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface RateLine extends TaxTotals {
+  rt: number;
+}
+
+/**
+ * Parses a return period in the portal's MMYYYY form.
+ */
+export function parseReturnPeriod(period: string): ReturnPeriod | null {
+  const match = /^(0[1-9]|1[0-2])(\d{4})$/.exec(period);
+  if (!match) return null;
+  const month = Number(match[1]) - 1;
+  const year = Number(match[2]);
+  return {
+    period,
+    start: new Date(year, month, 1),
+    end: new Date(year, month + 1, 0, 23, 59, 59, 999),
+  };
+}
+
+export function formatReturnDate(date: Date): string {
+  const dd = String(date.getDate()).padStart(2, "0");
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  return `${dd}-${mm}-${date.getFullYear()}`;
+}
+
+function emptyTotals(): TaxTotals {
+  return { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+}
+
+function addTotals(target: TaxTotals, source: TaxTotals, sign = 1) {
+  target.txval = round2(target.txval + sign * source.txval);
+  target.iamt = round2(target.iamt + sign * source.iamt);
+  target.camt = round2(target.camt + sign * source.camt);
+  target.samt = round2(target.samt + sign * source.samt);
+  target.csamt = round2(target.csamt + sign * source.csamt);
+}
+
+function itemTotals(item: GstLineItem): TaxTotals {
+  return {
+    txval: round2(item.taxableAmount ?? item.quantity * item.unitPrice - (item.discount || 0)),
+    iamt: round2(item.igstAmount || 0),
+    camt: round2(item.cgstAmount || 0),
+    samt: round2(item.sgstAmount || 0),
+    csamt: round2(item.cessAmount || 0),
+  };
+}
+
+function lineItems(invoice: GstInvoice): GstLineItem[] {
+  return (invoice.lineItems as GstLineItem[]) || [];
+}
+
+// Invoice items grouped by tax rate, as GSTR-1 reports them
+function rateLines(invoice: GstInvoice): RateLine[] {
+  const byRate = new Map<number, RateLine>();
+  for (const item of lineItems(invoice)) {
+    const rt = item.gstRate ?? 18;
+    const line = byRate.get(rt) ?? { rt, ...emptyTotals() };
+    addTotals(line, itemTotals(item));
+    byRate.set(rt, line);
+  }
+  return Array.from(byRate.values()).sort((a, b) => a.rt - b.rt);
+}
+
+function isNote(invoice: GstInvoice): boolean {
+  return invoice.invoiceType === "credit_note" || invoice.invoiceType === "debit_note";
+}
+
+function isExport(invoice: GstInvoice): boolean {
+  return invoice.supplyType === "Export";
+}
+
+function isInterState(invoice: GstInvoice, sellerStateCode: string): boolean {
+  return invoice.placeOfSupply !== sellerStateCode;
+}
+
+function gstr1Items(invoice: GstInvoice) {
+  return rateLines(invoice).map((line, index) => ({
+    num: index + 1,
+    itm_det: { txval: line.txval, rt: line.rt, iamt: line.iamt, camt: line.camt, samt: line.samt, csamt: line.csamt },
+  }));
+}
+
+function gstr1InvoiceType(invoice: GstInvoice): string {
+  if (invoice.supplyType === "SEZ") return "SEWP";
+  return "R";
+}
+
+export function reportableInvoices(invoices: GstInvoice[]): GstInvoice[] {
+  return invoices.filter((invoice) => !EXCLUDED_STATUSES.includes(invoice.status || "draft"));
+}
+
+export function buildGstr1(params: { gstin: string; sellerStateCode: string; period: string; invoices: GstInvoice[] }) {
+  const { gstin, sellerStateCode, period } = params;
+  const invoices = reportableInvoices(params.invoices);
+
+  const b2b = new Map<string, unknown[]>();
+  const cdnr = new Map<string, unknown[]>();
+  const b2cl = new Map<string, unknown[]>();
+  const b2cs = new Map<string, { sply_ty: string; pos: string; typ: string } & RateLine>();
+  const exp: unknown[] = [];
+  const hsn = new Map<string, { num: number; hsn_sc: string; desc: string; uqc: string; qty: number; rt: number } & TaxTotals>();
+
+  for (const invoice of invoices) {
+    const value = round2(parseFloat(invoice.totalAmount));
+    const note = isNote(invoice);
+    const sign = invoice.invoiceType === "credit_note" ? -1 : 1;
+    const common = { val: value, pos: invoice.placeOfSupply, rchrg: invoice.reverseCharge ? "Y" : "N", inv_typ: gstr1InvoiceType(invoice) };
+
+    if (invoice.customerGstin) {
+      if (note) {
+        const list = cdnr.get(invoice.customerGstin) ?? [];
+        list.push({ ntty: sign < 0 ? "C" : "D", nt_num: invoice.invoiceNumber, nt_dt: formatReturnDate(invoice.invoiceDate), ...common, itms: gstr1Items(invoice) });
+        cdnr.set(invoice.customerGstin, list);
+      } else {
+        const list = b2b.get(invoice.customerGstin) ?? [];
+        list.push({ inum: invoice.invoiceNumber, idt: formatReturnDate(invoice.invoiceDate), ...common, itms: gstr1Items(invoice) });
+        b2b.set(invoice.customerGstin, list);
+      }
+    } else if (isExport(invoice)) {
+      exp.push({
+        inum: invoice.invoiceNumber,
+        idt: formatReturnDate(invoice.invoiceDate),
+        val: value,
+        itms: rateLines(invoice).map((line) => ({ txval: line.txval, rt: line.rt, iamt: line.iamt, csamt: line.csamt })),
+      });
+    } else if (!note && isInterState(invoice, sellerStateCode) && value > B2CL_INVOICE_THRESHOLD) {
+      const list = b2cl.get(invoice.placeOfSupply) ?? [];
+      list.push({ inum: invoice.invoiceNumber, idt: formatReturnDate(invoice.invoiceDate), val: value, itms: gstr1Items(invoice) });
+      b2cl.set(invoice.placeOfSupply, list);
+    } else {
+      // Small B2C supplies and notes against them are reported net, by place of supply and rate
+      const splyTy = isInterState(invoice, sellerStateCode) ? "INTER" : "INTRA";
+      for (const line of rateLines(invoice)) {
+        const key = `${splyTy}|${invoice.placeOfSupply}|${line.rt}`;
+        const entry = b2cs.get(key) ?? { sply_ty: splyTy, pos: invoice.placeOfSupply, typ: "OE", rt: line.rt, ...emptyTotals() };
+        addTotals(entry, line, sign);
+        b2cs.set(key, entry);
+      }
+    }
+
+    for (const item of lineItems(invoice)) {
+      const code = item.hsnCode || item.sacCode || "";
+      const rt = item.gstRate ?? 18;
+      const key = `${code}|${rt}`;
+      const entry = hsn.get(key) ?? { num: 0, hsn_sc: code, desc: item.description || item.name || "", uqc: item.unit || "NOS", qty: 0, rt, ...emptyTotals() };
+      entry.qty = round2(entry.qty + sign * item.quantity);
+      addTotals(entry, itemTotals(item), sign);
+      hsn.set(key, entry);
+    }
+  }
+
+  return {
+    gstin,
+    fp: period,
+    b2b: Array.from(b2b, ([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl, ([pos, inv]) => ({ pos, inv })),
+    b2cs: Array.from(b2cs.values()),
+    cdnr: Array.from(cdnr, ([ctin, nt]) => ({ ctin, nt })),
+    exp: exp.length > 0 ? [{ exp_typ: "WPAY", inv: exp }] : [],
+    hsn: { data: Array.from(hsn.values()).map((entry, index) => ({ ...entry, num: index + 1 })) },
+  };
+}
+
+export function buildGstr3b(params: { gstin: string; sellerStateCode: string; period: string; invoices: GstInvoice[] }) {
+  const { gstin, sellerStateCode, period } = params;
+  const osupDet = emptyTotals();
+  const osupZero = emptyTotals();
+  const osupNilExmp = emptyTotals();
+  const unregistered = new Map<string, { pos: string; txval: number; iamt: number }>();
+
+  for (const invoice of reportableInvoices(params.invoices)) {
+    const sign = invoice.invoiceType === "credit_note" ? -1 : 1;
+
+    for (const item of lineItems(invoice)) {
+      const totals = itemTotals(item);
+      // Under reverse charge the recipient pays the tax
+      if (invoice.reverseCharge) {
+        totals.iamt = totals.camt = totals.samt = totals.csamt = 0;
+      }
+
+      if (isExport(invoice) || invoice.supplyType === "SEZ") {
+        addTotals(osupZero, totals, sign);
+      } else if ((item.gstRate ?? 18) === 0) {
+        addTotals(osupNilExmp, totals, sign);
+      } else {
+        addTotals(osupDet, totals, sign);
+        if (!invoice.customerGstin && isInterState(invoice, sellerStateCode)) {
+          const entry = unregistered.get(invoice.placeOfSupply) ?? { pos: invoice.placeOfSupply, txval: 0, iamt: 0 };
+          entry.txval = round2(entry.txval + sign * totals.txval);
+          entry.iamt = round2(entry.iamt + sign * totals.iamt);
+          unregistered.set(invoice.placeOfSupply, entry);
+        }
+      }
+    }
+  }
+
+  return {
+    gstin,
+    ret_period: period,
+    sup_details: {
+      osup_det: osupDet,
+      osup_zero: { txval: osupZero.txval, iamt: osupZero.iamt, csamt: osupZero.csamt },
+      osup_nil_exmp: { txval: osupNilExmp.txval },
+      isup_rev: emptyTotals(),
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: Array.from(unregistered.values()),
+      comp_details: [],
+      uin_details: [],
+    },
+  };
+}
@@ -1,3 +1,5 @@
 export { indiaComplianceService } from "./india-compliance-service";
+export { getIrpClient, setIrpClient, IrpError, IRN_CANCEL_REASONS } from "./irp";
+export type { IrpClient, IrnResult, IrnCancelReason } from "./irp";
 import indiaComplianceRoutes from "./india-compliance-routes";
 export { indiaComplianceRoutes };
@@ -5,18 +5,51 @@ import {
   insertGstInvoiceSchema,
   insertDltTemplateSchema,
   insertRbiPaymentComplianceSchema,
+  type GstConfiguration,
 } from "@shared/schema";
 import { z } from "zod";
+import { invoicePDFService } from "../../services/invoice-pdf";
+import { IRN_CANCEL_REASONS, IrpError, type IrnCancelReason } from "./irp";
 import { authenticateJWT, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
 
 const router = Router();
 
+// The IRP password is write-only
+function publicGstConfiguration(config: GstConfiguration) {
+  const { eInvoicePasswordEncrypted, ...rest } = config;
+  return { ...rest, hasEInvoicePassword: !!eInvoicePasswordEncrypted };
+}
+
+function sendIrpError(res: Response, error: unknown): boolean {
+  if (!(error instanceof IrpError)) return false;
+  res.status(502).json({ error: error.message, code: error.code });
+  return true;
+}
+
 const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) =>
   (req: Request, res: Response, next: NextFunction) => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 
+const gstConfigInputSchema = insertGstConfigurationSchema
+  .omit({ eInvoicePasswordEncrypted: true })
+  .extend({ eInvoicePassword: z.string().min(1).optional() });
+const createGstInvoiceSchema = insertGstInvoiceSchema.omit({
+  eInvoiceIrn: true,
+  eInvoiceAckNo: true,
+  eInvoiceAckDate: true,
+  eInvoiceQrCode: true,
+  eInvoiceStatus: true,
+  eInvoiceSignedInvoice: true,
+  eInvoiceError: true,
+  eInvoiceCancelledAt: true,
+  eInvoiceCancelReason: true,
+});
+const cancelEInvoiceSchema = z.object({
+  reason: z.enum(Object.keys(IRN_CANCEL_REASONS) as [IrnCancelReason, ...IrnCancelReason[]]),
+  remark: z.string().min(1).max(100),
+});
 const updateGstConfigSchema = insertGstConfigurationSchema.partial().omit({ tenantId: true });
 const updateDltTemplateSchema = insertDltTemplateSchema.partial().omit({ tenantId: true });
 const updateRbiComplianceSchema = insertRbiPaymentComplianceSchema.partial().omit({ tenantId: true });
@@ -43,7 +76,7 @@ router.get("/gst/configuration",
       return;
     }
     const config = await indiaComplianceService.getGstConfiguration(tenantId);
-    res.json(config || {});
+    res.json(config ? publicGstConfiguration(config) : {});
   })
 );
 
@@ -57,9 +90,13 @@ router.put("/gst/configuration",
       res.status(400).json({ error: "Tenant context required" });
       return;
     }
-    const validated = insertGstConfigurationSchema.parse({ ...req.body, tenantId });
-    const config = await indiaComplianceService.saveGstConfiguration(validated);
-    res.json(config);
+    const { eInvoicePassword, ...validated } = gstConfigInputSchema.parse({ ...req.body, tenantId });
+    let config = await indiaComplianceService.saveGstConfiguration(validated);
+    if (eInvoicePassword) {
+      await indiaComplianceService.setEInvoicePassword(tenantId, eInvoicePassword);
+      config = await indiaComplianceService.getGstConfiguration(tenantId);
+    }
+    res.json(config ? publicGstConfiguration(config) : config);
   })
 );
 
@@ -123,12 +160,136 @@ router.post("/gst/invoices",
       return;
     }
     const userId = (req as any).user?.id;
-    const validated = insertGstInvoiceSchema.parse({ ...req.body, tenantId, createdBy: userId });
+    const validated = createGstInvoiceSchema.parse({ ...req.body, tenantId, createdBy: userId });
     const invoice = await indiaComplianceService.createGstInvoice(validated);
     res.status(201).json(invoice);
   })
 );
 
+router.get("/gst/invoices/:invoiceId/pdf",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const data = await indiaComplianceService.getGstInvoicePdfData(tenantId, req.params.invoiceId);
+    if (!data) {
+      res.status(404).json({ error: "Invoice not found" });
+      return;
+    }
+    const pdf = await invoicePDFService.generatePDFFromData(data);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${data.invoice.invoiceNumber.replace(/[^\w-]/g, "_")}.pdf"`);
+    res.send(pdf);
+  })
+);
+
+router.get("/gst/invoices/:invoiceId/e-invoice",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const preview = await indiaComplianceService.previewEInvoice(tenantId, req.params.invoiceId);
+    if (!preview) {
+      res.status(404).json({ error: "Invoice not found" });
+      return;
+    }
+    res.json(preview);
+  })
+);
+
+router.post("/gst/invoices/:invoiceId/e-invoice",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      const { invoice, errors } = await indiaComplianceService.generateEInvoice(tenantId, req.params.invoiceId);
+      if (!invoice) {
+        res.status(404).json({ error: "Invoice not found" });
+        return;
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: "Invoice cannot be e-invoiced", details: errors });
+        return;
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (!sendIrpError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/gst/invoices/:invoiceId/e-invoice/cancel",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const { reason, remark } = cancelEInvoiceSchema.parse(req.body);
+    try {
+      const { invoice, errors } = await indiaComplianceService.cancelEInvoice(tenantId, req.params.invoiceId, reason, remark);
+      if (!invoice) {
+        res.status(404).json({ error: "Invoice not found" });
+        return;
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: errors[0] });
+        return;
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (!sendIrpError(res, error)) throw error;
+    }
+  })
+);
+
+router.get("/gst/returns/:returnType",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = (req as any).context?.tenant?.id;
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const { returnType } = req.params;
+    if (returnType !== "gstr1" && returnType !== "gstr3b") {
+      res.status(404).json({ error: "Unknown return type" });
+      return;
+    }
+    const period = typeof req.query.period === "string" ? req.query.period : "";
+    if (!/^(0[1-9]|1[0-2])\d{4}$/.test(period)) {
+      res.status(400).json({ error: "period is required in MMYYYY format" });
+      return;
+    }
+    const result = returnType === "gstr1"
+      ? await indiaComplianceService.generateGstr1(tenantId, period)
+      : await indiaComplianceService.generateGstr3b(tenantId, period);
+    if (req.query.download === "true") {
+      res.setHeader("Content-Disposition", `attachment; filename="${returnType.toUpperCase()}_${result.gstin}_${period}.json"`);
+    }
+    res.json(result);
+  })
+);
+
 router.get("/dlt/templates",
   authenticateJWT({ required: true }),
   tenantIsolationMiddleware(),
@@ -1,5 +1,5 @@
 import { db } from "../../db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, desc, sql, gte, lte } from "drizzle-orm";
 import {
   gstConfigurations,
   gstInvoices,
@@ -16,6 +16,11 @@ import {
   DltTemplate,
   RbiPaymentCompliance,
 } from "@shared/schema";
+import { encryptToken, decryptToken } from "../../sso/token-handler";
+import type { InvoicePDFData } from "../../services/invoice-pdf";
+import { buildEInvoicePayload, canCancelIrn, validateForEInvoice, type EInvoicePayload, type GstLineItem } from "./e-invoice";
+import { buildGstr1, buildGstr3b, parseReturnPeriod } from "./gst-returns";
+import { getIrpClient, IrpError, type IrnCancelReason, type IrpCredentials } from "./irp";
 
 const INDIAN_STATE_CODES: Record<string, string> = {
   "01": "Jammu and Kashmir",
@@ -226,6 +231,12 @@ class IndiaComplianceService {
     if (filters?.status) {
       conditions.push(eq(gstInvoices.status, filters.status));
     }
+    if (filters?.fromDate) {
+      conditions.push(gte(gstInvoices.invoiceDate, filters.fromDate));
+    }
+    if (filters?.toDate) {
+      conditions.push(lte(gstInvoices.invoiceDate, filters.toDate));
+    }
 
     return db.select().from(gstInvoices).where(and(...conditions)).orderBy(desc(gstInvoices.createdAt));
   }
@@ -238,6 +249,235 @@ class IndiaComplianceService {
     return invoice || null;
   }
 
+  async setEInvoicePassword(tenantId: string, password: string): Promise<void> {
+    await db
+      .update(gstConfigurations)
+      .set({ eInvoicePasswordEncrypted: encryptToken(password), updatedAt: new Date() })
+      .where(eq(gstConfigurations.tenantId, tenantId));
+  }
+
+  private irpCredentials(config: GstConfiguration): IrpCredentials {
+    if (!config.isEInvoiceEnabled) {
+      throw new IrpError("NOT_ENABLED", "E-invoicing is not enabled in the GST configuration");
+    }
+    if (!config.eInvoiceUsername || !config.eInvoicePasswordEncrypted) {
+      throw new IrpError("NO_CREDENTIALS", "E-invoice username and password are not configured");
+    }
+    return {
+      gstin: config.gstin,
+      username: config.eInvoiceUsername,
+      password: decryptToken(config.eInvoicePasswordEncrypted),
+    };
+  }
+
+  /**
+   * Builds the e-invoice JSON for an invoice without sending it, with the
+   * problems the IRP would reject it for.
+   */
+  async previewEInvoice(tenantId: string, invoiceId: string): Promise<{ payload: EInvoicePayload; errors: string[] } | null> {
+    const [config, invoice] = await Promise.all([
+      this.getGstConfiguration(tenantId),
+      this.getGstInvoice(tenantId, invoiceId),
+    ]);
+    if (!invoice) return null;
+    if (!config) {
+      throw new Error("GST configuration not found for tenant");
+    }
+    return { payload: buildEInvoicePayload(invoice, config), errors: validateForEInvoice(invoice, config) };
+  }
+
+  async generateEInvoice(tenantId: string, invoiceId: string): Promise<{ invoice: GstInvoice | null; errors: string[] }> {
+    const [config, invoice] = await Promise.all([
+      this.getGstConfiguration(tenantId),
+      this.getGstInvoice(tenantId, invoiceId),
+    ]);
+    if (!invoice) return { invoice: null, errors: [] };
+    if (!config) {
+      throw new Error("GST configuration not found for tenant");
+    }
+    if (invoice.eInvoiceStatus === "generated") {
+      return { invoice, errors: ["An IRN has already been generated for this invoice"] };
+    }
+    if (invoice.status === "draft" || invoice.status === "cancelled") {
+      return { invoice, errors: [`A ${invoice.status} invoice cannot be e-invoiced`] };
+    }
+
+    const errors = validateForEInvoice(invoice, config);
+    if (errors.length > 0) return { invoice, errors };
+
+    const client = getIrpClient();
+    if (!client.isConfigured()) {
+      throw new IrpError("NOT_CONFIGURED", "No IRP provider is configured");
+    }
+
+    try {
+      const result = await client.generateIrn(buildEInvoicePayload(invoice, config), this.irpCredentials(config));
+      const [updated] = await db
+        .update(gstInvoices)
+        .set({
+          eInvoiceIrn: result.irn,
+          eInvoiceAckNo: result.ackNo,
+          eInvoiceAckDate: result.ackDate,
+          eInvoiceQrCode: result.signedQrCode,
+          eInvoiceSignedInvoice: result.signedInvoice,
+          eInvoiceStatus: "generated",
+          eInvoiceError: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(gstInvoices.id, invoice.id))
+        .returning();
+      return { invoice: updated, errors: [] };
+    } catch (error: any) {
+      await db
+        .update(gstInvoices)
+        .set({ eInvoiceStatus: "failed", eInvoiceError: error.message, updatedAt: new Date() })
+        .where(eq(gstInvoices.id, invoice.id));
+      throw error;
+    }
+  }
+
+  async cancelEInvoice(tenantId: string, invoiceId: string, reason: IrnCancelReason, remark: string): Promise<{ invoice: GstInvoice | null; errors: string[] }> {
+    const [config, invoice] = await Promise.all([
+      this.getGstConfiguration(tenantId),
+      this.getGstInvoice(tenantId, invoiceId),
+    ]);
+    if (!invoice) return { invoice: null, errors: [] };
+    if (!config) {
+      throw new Error("GST configuration not found for tenant");
+    }
+    if (invoice.eInvoiceStatus !== "generated" || !invoice.eInvoiceIrn || !invoice.eInvoiceAckDate) {
+      return { invoice, errors: ["Invoice has no active IRN"] };
+    }
+    if (!canCancelIrn(invoice.eInvoiceAckDate, new Date())) {
+      return { invoice, errors: ["IRN can only be cancelled within 24 hours of generation; issue a credit note instead"] };
+    }
+
+    const result = await getIrpClient().cancelIrn(invoice.eInvoiceIrn, reason, remark, this.irpCredentials(config));
+    const [updated] = await db
+      .update(gstInvoices)
+      .set({
+        eInvoiceStatus: "cancelled",
+        eInvoiceCancelledAt: result.cancelDate,
+        eInvoiceCancelReason: `${reason}: ${remark}`,
+        status: "cancelled",
+        updatedAt: new Date(),
+      })
+      .where(eq(gstInvoices.id, invoice.id))
+      .returning();
+    return { invoice: updated, errors: [] };
+  }
+
+  private async returnInputs(tenantId: string, period: string) {
+    const range = parseReturnPeriod(period);
+    if (!range) {
+      throw new Error("Return period must be in MMYYYY format");
+    }
+    const config = await this.getGstConfiguration(tenantId);
+    if (!config) {
+      throw new Error("GST configuration not found for tenant");
+    }
+    const invoices = await this.getGstInvoices(tenantId, { fromDate: range.start, toDate: range.end });
+    return { gstin: config.gstin, sellerStateCode: config.stateCode, period, invoices };
+  }
+
+  async generateGstr1(tenantId: string, period: string) {
+    return buildGstr1(await this.returnInputs(tenantId, period));
+  }
+
+  async generateGstr3b(tenantId: string, period: string) {
+    return buildGstr3b(await this.returnInputs(tenantId, period));
+  }
+
+  /**
+   * Invoice PDF data for a GST invoice, including the IRN block and signed
+   * QR once the invoice has been registered.
+   */
+  async getGstInvoicePdfData(tenantId: string, invoiceId: string): Promise<InvoicePDFData | null> {
+    const [config, invoice] = await Promise.all([
+      this.getGstConfiguration(tenantId),
+      this.getGstInvoice(tenantId, invoiceId),
+    ]);
+    if (!invoice || !config) return null;
+
+    const items = (invoice.lineItems as GstLineItem[]) || [];
+    const taxAmount = ["cgstAmount", "sgstAmount", "igstAmount", "cessAmount"] as const;
+    const totalTax = taxAmount.reduce((sum, key) => sum + parseFloat(invoice[key] || "0"), 0);
+    const totalAmount = parseFloat(invoice.totalAmount);
+    const breakdown = [
+      { taxName: "CGST", amount: parseFloat(invoice.cgstAmount || "0") },
+      { taxName: "SGST", amount: parseFloat(invoice.sgstAmount || "0") },
+      { taxName: "IGST", amount: parseFloat(invoice.igstAmount || "0") },
+      { taxName: "Cess", amount: parseFloat(invoice.cessAmount || "0") },
+    ].filter((entry) => entry.amount > 0);
+
+    return {
+      invoice: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceType: invoice.invoiceType,
+        status: invoice.status || "draft",
+        invoiceDate: invoice.invoiceDate,
+        dueDate: null,
+        currency: "INR",
+        baseCurrency: "INR",
+        exchangeRate: 1,
+        subtotal: parseFloat(invoice.taxableAmount),
+        discountAmount: 0,
+        deliveryCharges: 0,
+        installationCharges: 0,
+        taxAmount: totalTax,
+        totalAmount,
+        paidAmount: 0,
+        balanceAmount: totalAmount,
+        taxMetadata: {
+          breakdown: breakdown.map((entry) => ({ taxName: entry.taxName, rate: 0, taxAmount: entry.amount })),
+        },
+        billingName: invoice.customerName,
+        billingAddress: invoice.customerAddress,
+        billingCity: invoice.customerCity,
+        billingState: invoice.customerState,
+        billingPostalCode: invoice.customerPincode,
+        billingCountry: "India",
+        billingEmail: null,
+        billingPhone: null,
+        customerTaxId: invoice.customerGstin,
+        customerTaxIdType: invoice.customerGstin ? "gstin" : null,
+        tenantTaxId: config.gstin,
+        tenantTaxIdType: "gstin",
+        tenantBusinessName: config.legalName,
+        tenantAddress: [config.addressLine1, config.addressLine2, config.city, config.pincode].filter(Boolean).join(", ") || null,
+        notes: invoice.notes,
+        termsAndConditions: null,
+        complianceCountry: "IN",
+      },
+      items: items.map((item) => {
+        const taxable = item.taxableAmount ?? item.quantity * item.unitPrice - (item.discount || 0);
+        const tax = (item.cgstAmount || 0) + (item.sgstAmount || 0) + (item.igstAmount || 0) + (item.cessAmount || 0);
+        return {
+          description: item.description || item.name || "",
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discountAmount: item.discount || 0,
+          taxRate: item.gstRate ?? 18,
+          taxAmount: tax,
+          totalPrice: taxable + tax,
+          hsnCode: item.hsnCode || item.sacCode || null,
+          taxBreakdown: {},
+        };
+      }),
+      branding: null,
+      tenant: { name: config.tradeName || config.legalName, address: null },
+      eInvoice: invoice.eInvoiceStatus === "generated" && invoice.eInvoiceIrn && invoice.eInvoiceQrCode
+        ? {
+            irn: invoice.eInvoiceIrn,
+            ackNo: invoice.eInvoiceAckNo || "",
+            ackDate: invoice.eInvoiceAckDate || invoice.updatedAt || new Date(),
+            signedQrCode: invoice.eInvoiceQrCode,
+          }
+        : null,
+    };
+  }
+
   validateDltTemplateId(templateId: string): boolean {
     return /^[0-9]{19}$/.test(templateId);
   }
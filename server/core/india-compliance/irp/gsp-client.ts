@@ -0,0 +1,112 @@
+import type { EInvoicePayload } from "../e-invoice";
+import {
+  IRN_CANCEL_REASONS,
+  IrpError,
+  type IrpClient,
+  type IrpCredentials,
+  type IrnResult,
+  type IrnCancelResult,
+  type IrnCancelReason,
+} from "./types";
+
+const REQUEST_TIMEOUT_MS = 30000;
+// IRP auth tokens last six hours; refresh a little early
+const TOKEN_TTL_MS = 5.5 * 60 * 60 * 1000;
+
+interface IrpResponse<T> {
+  Status: number | string;
+  Data?: T | string;
+  ErrorDetails?: Array<{ ErrorCode: string; ErrorMessage: string }>;
+}
+
+/**
+ * IRP access through a GST Suvidha Provider that exposes the NIC e-invoice
+ * API over plain JSON (the GSP handles the payload encryption NIC requires).
+ * Configured with IRP_BASE_URL, IRP_CLIENT_ID and IRP_CLIENT_SECRET; each
+ * tenant's e-invoice username and password come from its GST configuration.
+ */
+export class GspIrpClient implements IrpClient {
+  name = "gsp" as const;
+  private readonly tokens = new Map<string, { token: string; expiresAt: number }>();
+
+  constructor(
+    private readonly baseUrl = process.env.IRP_BASE_URL,
+    private readonly clientId = process.env.IRP_CLIENT_ID,
+    private readonly clientSecret = process.env.IRP_CLIENT_SECRET,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.baseUrl && this.clientId && this.clientSecret);
+  }
+
+  private async request<T>(path: string, body: unknown, headers: Record<string, string>): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        client_id: this.clientId!,
+        client_secret: this.clientSecret!,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const result = await response.json().catch(() => null) as IrpResponse<T> | null;
+    if (!result) {
+      throw new IrpError(String(response.status), `IRP returned HTTP ${response.status}`);
+    }
+    if (String(result.Status) !== "1" || !result.Data) {
+      const error = result.ErrorDetails?.[0];
+      throw new IrpError(error?.ErrorCode || "UNKNOWN", error?.ErrorMessage || "IRP request failed");
+    }
+    return (typeof result.Data === "string" ? JSON.parse(result.Data) : result.Data) as T;
+  }
+
+  private async authenticate(credentials: IrpCredentials): Promise<string> {
+    const key = `${credentials.gstin}:${credentials.username}`;
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.token;
+
+    const data = await this.request<{ AuthToken: string }>("/eivital/v1.04/auth", {
+      UserName: credentials.username,
+      Password: credentials.password,
+    }, { Gstin: credentials.gstin, user_name: credentials.username });
+
+    this.tokens.set(key, { token: data.AuthToken, expiresAt: Date.now() + TOKEN_TTL_MS });
+    return data.AuthToken;
+  }
+
+  private async authHeaders(credentials: IrpCredentials) {
+    return {
+      Gstin: credentials.gstin,
+      user_name: credentials.username,
+      AuthToken: await this.authenticate(credentials),
+    };
+  }
+
+  async generateIrn(payload: EInvoicePayload, credentials: IrpCredentials): Promise<IrnResult> {
+    const data = await this.request<{ Irn: string; AckNo: number | string; AckDt: string; SignedInvoice: string; SignedQRCode: string }>(
+      "/eicore/v1.03/Invoice",
+      payload,
+      await this.authHeaders(credentials),
+    );
+    return {
+      irn: data.Irn,
+      ackNo: String(data.AckNo),
+      // AckDt is IST wall-clock time, e.g. "2026-04-01 10:15:00"
+      ackDate: new Date(`${data.AckDt.replace(" ", "T")}+05:30`),
+      signedInvoice: data.SignedInvoice,
+      signedQrCode: data.SignedQRCode,
+    };
+  }
+
+  async cancelIrn(irn: string, reason: IrnCancelReason, remark: string, credentials: IrpCredentials): Promise<IrnCancelResult> {
+    const data = await this.request<{ Irn: string; CancelDate: string }>(
+      "/eicore/v1.03/Invoice/Cancel",
+      { Irn: irn, CnlRsn: IRN_CANCEL_REASONS[reason], CnlRem: remark },
+      await this.authHeaders(credentials),
+    );
+    return { irn: data.Irn, cancelDate: new Date(`${data.CancelDate.replace(" ", "T")}+05:30`) };
+  }
+}
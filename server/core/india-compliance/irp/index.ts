@@ -0,0 +1,26 @@
+import type { IrpClient } from "./types";
+import { GspIrpClient } from "./gsp-client";
+import { MockIrpClient } from "./mock-client";
+
+export * from "./types";
+export { GspIrpClient } from "./gsp-client";
+export { MockIrpClient } from "./mock-client";
+
+let client: IrpClient | null = null;
+
+/**
+ * The IRP client for this deployment. IRP_PROVIDER=mock (or running tests)
+ * selects the local mock; otherwise requests go through the configured GSP.
+ */
+export function getIrpClient(): IrpClient {
+  if (!client) {
+    client = process.env.IRP_PROVIDER === "mock" || process.env.NODE_ENV === "test"
+      ? new MockIrpClient()
+      : new GspIrpClient();
+  }
+  return client;
+}
+
+export function setIrpClient(next: IrpClient | null): void {
+  client = next;
+}
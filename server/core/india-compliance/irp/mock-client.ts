@@ -0,0 +1,57 @@
+import jwt from "jsonwebtoken";
+import type { EInvoicePayload } from "../e-invoice";
+import { buildSignedQrData, computeIrn } from "../e-invoice";
+import { IrpError, type IrpClient, type IrnResult, type IrnCancelResult, type IrnCancelReason } from "./types";
+
+const MOCK_SIGNING_KEY = "mock-irp-signing-key";
+
+/**
+ * Local stand-in for the IRP for tests and development. Computes the IRN the
+ * way the portal does and signs the invoice and QR with a fixed key, so the
+ * output has the same shape as a real response but is not legally valid.
+ */
+export class MockIrpClient implements IrpClient {
+  name = "mock" as const;
+  private readonly issued = new Map<string, IrnResult & { cancelled: boolean }>();
+  private ackCounter = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateIrn(payload: EInvoicePayload): Promise<IrnResult> {
+    const [dd, mm, yyyy] = payload.DocDtls.Dt.split("/").map(Number);
+    const irn = computeIrn(payload.SellerDtls.Gstin, payload.DocDtls.Typ, payload.DocDtls.No, new Date(yyyy, mm - 1, dd));
+    if (this.issued.has(irn)) {
+      throw new IrpError("2150", "Duplicate IRN");
+    }
+
+    const ackDate = new Date();
+    this.ackCounter++;
+    const ackNo = `1${String(ackDate.getTime()).slice(-9)}${String(this.ackCounter).padStart(5, "0")}`;
+    const qrData = buildSignedQrData(payload, irn, ackDate);
+
+    const result: IrnResult = {
+      irn,
+      ackNo,
+      ackDate,
+      signedInvoice: jwt.sign({ data: JSON.stringify({ ...payload, Irn: irn, AckNo: ackNo }), iss: "MOCK-IRP" }, MOCK_SIGNING_KEY),
+      signedQrCode: jwt.sign({ data: JSON.stringify(qrData), iss: "MOCK-IRP" }, MOCK_SIGNING_KEY),
+    };
+    this.issued.set(irn, { ...result, cancelled: false });
+    return result;
+  }
+
+  async cancelIrn(irn: string, _reason: IrnCancelReason, _remark: string): Promise<IrnCancelResult> {
+    const entry = this.issued.get(irn);
+    if (!entry) throw new IrpError("2163", "IRN not found");
+    if (entry.cancelled) throw new IrpError("9999", "IRN is already cancelled");
+    entry.cancelled = true;
+    return { irn, cancelDate: new Date() };
+  }
+
+  reset(): void {
+    this.issued.clear();
+    this.ackCounter = 0;
+  }
+}
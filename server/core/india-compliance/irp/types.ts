@@ -0,0 +1,48 @@
+import type { EInvoicePayload } from "../e-invoice";
+
+export type IrpProviderType = "gsp" | "mock";
+
+// IRP cancellation reason codes
+export const IRN_CANCEL_REASONS = {
+  duplicate: "1",
+  data_entry_mistake: "2",
+  order_cancelled: "3",
+  other: "4",
+} as const;
+export type IrnCancelReason = keyof typeof IRN_CANCEL_REASONS;
+
+export interface IrpCredentials {
+  gstin: string;
+  username: string;
+  password: string;
+}
+
+export interface IrnResult {
+  irn: string;
+  ackNo: string;
+  ackDate: Date;
+  signedInvoice: string;
+  signedQrCode: string;
+}
+
+export interface IrnCancelResult {
+  irn: string;
+  cancelDate: Date;
+}
+
+export class IrpError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = "IrpError";
+  }
+}
+
+export interface IrpClient {
+  name: IrpProviderType;
+
+  isConfigured(): boolean;
+
+  generateIrn(payload: EInvoicePayload, credentials: IrpCredentials): Promise<IrnResult>;
+
+  cancelIrn(irn: string, reason: IrnCancelReason, remark: string, credentials: IrpCredentials): Promise<IrnCancelResult>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Invoice Ledger
+ *
+ * One receivables ledger that every module's invoices post into:
+ * - Sequential per-tenant numbering series for invoices, credit and debit notes
+ * - Credit and debit notes referencing an original document
+ * - Partial refunds against what was paid
+ * - An aged receivables view across core, furniture, legal, education and tourism
+ *
+ * @module server/core/invoicing
+ */
+
+export * from "./ledger";
+export * from "./sources";
+export { invoiceLedgerService, type LedgerDocumentFilters, type NoteInput, type EntryInput } from "./ledger-service";
+export { invoiceLedgerRouter } from "./ledger-routes";
@@ -0,0 +1,281 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { InvoiceLedgerError, LEDGER_DOCUMENT_TYPES, LEDGER_SOURCE_MODULES } from "./ledger";
+import { invoiceLedgerService } from "./ledger-service";
+
+export const invoiceLedgerRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const documentsQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sourceModule: z.enum([...LEDGER_SOURCE_MODULES, "ledger"]).optional(),
+  documentType: z.enum(LEDGER_DOCUMENT_TYPES).optional(),
+  status: z.enum(["open", "partially_paid", "paid", "credited", "applied", "void"]).optional(),
+  partyType: z.string().optional(),
+  partyId: z.string().optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const seriesSchema = z.object({
+  prefix: z.string().optional(),
+  padding: z.number().int().optional(),
+  nextNumber: z.number().int().min(1).optional(),
+});
+
+const amountSchema = z.coerce.number().positive();
+
+const creditNoteSchema = z.object({
+  amount: amountSchema,
+  taxAmount: z.coerce.number().min(0).optional(),
+  reason: z.string().min(1).max(1000),
+  issueDate: dateString.optional(),
+});
+
+const debitNoteSchema = creditNoteSchema.extend({
+  dueDate: dateString.optional(),
+});
+
+const paymentSchema = z.object({
+  amount: amountSchema,
+  entryDate: dateString.optional(),
+  reference: z.string().max(255).optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+const refundSchema = paymentSchema.extend({
+  reason: z.string().min(1).max(1000),
+});
+
+const receivablesQuerySchema = z.object({
+  asOf: dateString.optional(),
+  sourceModule: z.enum([...LEDGER_SOURCE_MODULES, "ledger"]).optional(),
+  currency: z.string().max(10).optional(),
+});
+
+const syncSchema = z.object({
+  modules: z.array(z.enum(LEDGER_SOURCE_MODULES)).min(1).default([...LEDGER_SOURCE_MODULES]),
+});
+
+function sendLedgerError(res: Response, error: any) {
+  if (error instanceof InvoiceLedgerError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+invoiceLedgerRouter.get("/series", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await invoiceLedgerService.getSeries(isolation.getTenantId()));
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.put("/series/:documentType", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const documentType = z.enum(LEDGER_DOCUMENT_TYPES).safeParse(req.params.documentType);
+    if (!documentType.success) {
+      return res.status(404).json({ message: "Unknown document type" });
+    }
+    const parsed = seriesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const series = await invoiceLedgerService.updateSeries(isolation.getTenantId(), documentType.data, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "invoice_number_series",
+      resourceId: series.id,
+      metadata: { documentType: series.documentType, changes: parsed.data },
+    });
+
+    res.json(series);
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.get("/documents", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = documentsQuerySchema.parse(req.query);
+    const { data, total } = await invoiceLedgerService.listDocuments(isolation.getTenantId(), query);
+
+    res.json({
+      data,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.get("/documents/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await invoiceLedgerService.getDocument(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.post("/documents/:id/credit-notes", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = creditNoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const note = await invoiceLedgerService.issueNote(isolation.getTenantId(), req.params.id, "credit_note", parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "credit_note",
+      resourceId: note.id,
+      metadata: { documentNumber: note.documentNumber, originalDocumentId: req.params.id, amount: note.totalAmount },
+    });
+
+    res.status(201).json(note);
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.post("/documents/:id/debit-notes", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = debitNoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const note = await invoiceLedgerService.issueNote(isolation.getTenantId(), req.params.id, "debit_note", parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "debit_note",
+      resourceId: note.id,
+      metadata: { documentNumber: note.documentNumber, originalDocumentId: req.params.id, amount: note.totalAmount },
+    });
+
+    res.status(201).json(note);
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.post("/documents/:id/payments", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = paymentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const document = await invoiceLedgerService.recordPayment(isolation.getTenantId(), req.params.id, parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "ledger_payment",
+      resourceId: document.id,
+      metadata: { documentNumber: document.documentNumber, amount: parsed.data.amount },
+    });
+
+    res.status(201).json(document);
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.post("/documents/:id/refunds", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = refundSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const document = await invoiceLedgerService.recordRefund(isolation.getTenantId(), req.params.id, parsed.data, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "ledger_refund",
+      resourceId: document.id,
+      metadata: { documentNumber: document.documentNumber, amount: parsed.data.amount, reason: parsed.data.reason },
+    });
+
+    res.status(201).json(document);
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.get("/receivables", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const query = receivablesQuerySchema.parse(req.query);
+    const asOf = query.asOf ?? new Date().toISOString().slice(0, 10);
+
+    res.json(await invoiceLedgerService.getReceivables(isolation.getTenantId(), asOf, query));
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
+
+invoiceLedgerRouter.post("/sync", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = syncSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const posted = await invoiceLedgerService.syncTenant(isolation.getTenantId(), parsed.data.modules);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "invoice_ledger",
+      metadata: { sync: posted },
+    });
+
+    res.json({ posted });
+  } catch (error: any) {
+    sendLedgerError(res, error);
+  }
+});
@@ -0,0 +1,504 @@
+import { db } from "../../db";
+import {
+  invoiceNumberSeries,
+  ledgerDocuments,
+  ledgerEntries,
+  invoices,
+  furnitureInvoices,
+  legalInvoices,
+  legalClients,
+  fees,
+  students,
+  tourBookings,
+  customers,
+  type LedgerDocument,
+  type LedgerEntry,
+  type InvoiceNumberSeries,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, lte, gte, ne, sql, type SQL } from "drizzle-orm";
+import {
+  DEFAULT_SERIES_PADDING,
+  DEFAULT_SERIES_PREFIXES,
+  LEDGER_DOCUMENT_TYPES,
+  InvoiceLedgerError,
+  assertCanIssueNote,
+  assertCanRecordPayment,
+  assertCanRefund,
+  buildReceivables,
+  documentAmounts,
+  formatDocumentNumber,
+  ledgerBalance,
+  ledgerStatus,
+  validateSeriesUpdate,
+  type LedgerAmounts,
+  type LedgerDocumentType,
+  type LedgerPosting,
+  type LedgerSourceModule,
+  type ReceivablesView,
+} from "./ledger";
+import {
+  postingFromCoreInvoice,
+  postingFromFee,
+  postingFromFurnitureInvoice,
+  postingFromLegalInvoice,
+  postingFromTourBooking,
+} from "./sources";
+import { money } from "../../utils/money";
+import { today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Reader = Pick<Transaction, "select">;
+
+const SYNC_BATCH_SIZE = 200;
+
+export interface LedgerDocumentFilters {
+  sourceModule?: string;
+  documentType?: LedgerDocumentType;
+  status?: string;
+  partyType?: string;
+  partyId?: string;
+  from?: string;
+  to?: string;
+  page: number;
+  limit: number;
+}
+
+export interface NoteInput {
+  amount: number;
+  taxAmount?: number;
+  reason: string;
+  issueDate?: string;
+  dueDate?: string;
+}
+
+export interface EntryInput {
+  amount: number;
+  entryDate?: string;
+  reference?: string;
+  reason?: string;
+}
+
+// Balance and status columns for a document's amounts
+function settlement(documentType: LedgerDocumentType, amounts: LedgerAmounts, voided: boolean) {
+  return {
+    totalAmount: money(amounts.totalAmount),
+    paidAmount: money(amounts.paidAmount),
+    creditedAmount: money(amounts.creditedAmount),
+    refundedAmount: money(amounts.refundedAmount),
+    balanceAmount: money(ledgerBalance(amounts)),
+    status: ledgerStatus(documentType, amounts, voided),
+  };
+}
+
+function personName(firstName: string | null, lastName: string | null): string | null {
+  return [firstName, lastName].filter(Boolean).join(" ") || null;
+}
+
+/**
+ * A module record as a ledger posting. Undefined when the record no longer
+ * exists, null when it is not a receivable yet.
+ */
+async function loadPosting(reader: Reader, tenantId: string, module: LedgerSourceModule, sourceId: string): Promise<LedgerPosting | null | undefined> {
+  switch (module) {
+    case "core": {
+      const [row] = await reader.select({ invoice: invoices, customerName: customers.name })
+        .from(invoices)
+        .leftJoin(customers, eq(customers.id, invoices.customerId))
+        .where(and(eq(invoices.id, sourceId), eq(invoices.tenantId, tenantId)));
+      return row && postingFromCoreInvoice(row.invoice, row.customerName);
+    }
+    case "furniture": {
+      const [row] = await reader.select({ invoice: furnitureInvoices, customerName: customers.name })
+        .from(furnitureInvoices)
+        .leftJoin(customers, eq(customers.id, furnitureInvoices.customerId))
+        .where(and(eq(furnitureInvoices.id, sourceId), eq(furnitureInvoices.tenantId, tenantId)));
+      return row && postingFromFurnitureInvoice(row.invoice, row.customerName);
+    }
+    case "legal": {
+      const [row] = await reader.select({
+        invoice: legalInvoices,
+        companyName: legalClients.companyName,
+        firstName: legalClients.firstName,
+        lastName: legalClients.lastName,
+      })
+        .from(legalInvoices)
+        .leftJoin(legalClients, eq(legalClients.id, legalInvoices.clientId))
+        .where(and(eq(legalInvoices.id, sourceId), eq(legalInvoices.tenantId, tenantId)));
+      return row && postingFromLegalInvoice(row.invoice, row.companyName || personName(row.firstName, row.lastName));
+    }
+    case "education": {
+      const [row] = await reader.select({ fee: fees, firstName: students.firstName, lastName: students.lastName })
+        .from(fees)
+        .leftJoin(students, eq(students.id, fees.studentId))
+        .where(and(eq(fees.id, sourceId), eq(fees.tenantId, tenantId)));
+      return row && postingFromFee(row.fee, personName(row.firstName, row.lastName));
+    }
+    case "tourism": {
+      const [row] = await reader.select({ booking: tourBookings, customerName: customers.name })
+        .from(tourBookings)
+        .leftJoin(customers, eq(customers.id, tourBookings.customerId))
+        .where(and(eq(tourBookings.id, sourceId), eq(tourBookings.tenantId, tenantId)));
+      return row && postingFromTourBooking(row.booking, row.customerName);
+    }
+  }
+}
+
+// Ids of one page of a module's records, oldest first
+function sourceIdsQuery(tenantId: string, module: LedgerSourceModule) {
+  switch (module) {
+    case "core":
+      return db.select({ id: invoices.id }).from(invoices).where(eq(invoices.tenantId, tenantId)).orderBy(asc(invoices.createdAt), asc(invoices.id));
+    case "furniture":
+      return db.select({ id: furnitureInvoices.id }).from(furnitureInvoices).where(eq(furnitureInvoices.tenantId, tenantId)).orderBy(asc(furnitureInvoices.createdAt), asc(furnitureInvoices.id));
+    case "legal":
+      return db.select({ id: legalInvoices.id }).from(legalInvoices).where(eq(legalInvoices.tenantId, tenantId)).orderBy(asc(legalInvoices.createdAt), asc(legalInvoices.id));
+    case "education":
+      return db.select({ id: fees.id }).from(fees).where(eq(fees.tenantId, tenantId)).orderBy(asc(fees.createdAt), asc(fees.id));
+    case "tourism":
+      return db.select({ id: tourBookings.id }).from(tourBookings).where(eq(tourBookings.tenantId, tenantId)).orderBy(asc(tourBookings.createdAt), asc(tourBookings.id));
+  }
+}
+
+async function sourceIds(tenantId: string, module: LedgerSourceModule, offset: number): Promise<string[]> {
+  const rows = await sourceIdsQuery(tenantId, module).limit(SYNC_BATCH_SIZE).offset(offset);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Takes the next number from the tenant's series for a document type,
+ * creating the series with defaults on first use. The row update serialises
+ * concurrent callers, so numbers are sequential without gaps.
+ */
+async function nextDocumentNumber(tx: Transaction, tenantId: string, documentType: LedgerDocumentType): Promise<string> {
+  await tx.insert(invoiceNumberSeries).values({
+    tenantId,
+    documentType,
+    prefix: DEFAULT_SERIES_PREFIXES[documentType],
+    padding: DEFAULT_SERIES_PADDING,
+  }).onConflictDoNothing();
+
+  const [series] = await tx.update(invoiceNumberSeries)
+    .set({ nextNumber: sql`${invoiceNumberSeries.nextNumber} + 1`, updatedAt: new Date() })
+    .where(and(eq(invoiceNumberSeries.tenantId, tenantId), eq(invoiceNumberSeries.documentType, documentType)))
+    .returning();
+  return formatDocumentNumber(series, series.nextNumber - 1);
+}
+
+async function lockDocument(tx: Transaction, tenantId: string, id: string): Promise<LedgerDocument> {
+  const [document] = await tx.select()
+    .from(ledgerDocuments)
+    .where(and(eq(ledgerDocuments.id, id), eq(ledgerDocuments.tenantId, tenantId)))
+    .for("update");
+  if (!document) throw new InvoiceLedgerError(404, "Ledger document not found");
+  return document;
+}
+
+async function updateSettlement(tx: Transaction, document: LedgerDocument, amounts: LedgerAmounts): Promise<LedgerDocument> {
+  const [updated] = await tx.update(ledgerDocuments)
+    .set({ ...settlement(document.documentType, amounts, document.status === "void"), updatedAt: new Date() })
+    .where(eq(ledgerDocuments.id, document.id))
+    .returning();
+  return updated;
+}
+
+class InvoiceLedgerService {
+  /**
+   * Mirrors a module record into the ledger: the first posting numbers the
+   * document, later ones refresh its amounts and payments. Credits and refunds
+   * recorded in the ledger are kept.
+   */
+  async post(tenantId: string, module: LedgerSourceModule, sourceId: string): Promise<LedgerDocument | null> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select()
+        .from(ledgerDocuments)
+        .where(and(
+          eq(ledgerDocuments.tenantId, tenantId),
+          eq(ledgerDocuments.sourceModule, module),
+          eq(ledgerDocuments.sourceId, sourceId),
+        ))
+        .for("update");
+      const posting = await loadPosting(tx, tenantId, module, sourceId);
+
+      if (posting === undefined) {
+        // Hard-deleted at the source
+        if (!existing || existing.status === "void") return existing ?? null;
+        const [voided] = await tx.update(ledgerDocuments)
+          .set({ ...settlement("invoice", documentAmounts(existing), true), voidedAt: new Date(), updatedAt: new Date() })
+          .where(eq(ledgerDocuments.id, existing.id))
+          .returning();
+        return voided;
+      }
+      if (posting === null) return existing ?? null;
+      if (!existing && posting.voided) return null;
+
+      const amounts: LedgerAmounts = {
+        totalAmount: posting.totalAmount,
+        paidAmount: posting.paidAmount,
+        creditedAmount: existing ? parseFloat(existing.creditedAmount) : 0,
+        refundedAmount: existing ? parseFloat(existing.refundedAmount) : 0,
+      };
+      const values = {
+        sourceReference: posting.sourceReference,
+        partyType: posting.partyType,
+        partyId: posting.partyId,
+        partyName: posting.partyName,
+        currency: posting.currency,
+        issueDate: posting.issueDate,
+        dueDate: posting.dueDate,
+        subtotal: money(posting.subtotal),
+        taxAmount: money(posting.taxAmount),
+        ...settlement("invoice", amounts, posting.voided),
+        voidedAt: posting.voided ? existing?.voidedAt ?? new Date() : null,
+      };
+
+      if (existing) {
+        const [updated] = await tx.update(ledgerDocuments)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(ledgerDocuments.id, existing.id))
+          .returning();
+        return updated;
+      }
+
+      const [created] = await tx.insert(ledgerDocuments).values({
+        tenantId,
+        documentType: "invoice",
+        documentNumber: await nextDocumentNumber(tx, tenantId, "invoice"),
+        sourceModule: module,
+        sourceId,
+        ...values,
+      }).returning();
+      return created;
+    });
+  }
+
+  /**
+   * Fire-and-forget posting for module routes; a ledger failure never fails
+   * the module's own write, and the next post or sync catches it up.
+   */
+  postAsync(tenantId: string, module: LedgerSourceModule, sourceId: string): void {
+    setImmediate(async () => {
+      try {
+        await this.post(tenantId, module, sourceId);
+      } catch (error) {
+        console.error(`[invoice-ledger] Failed to post ${module} record ${sourceId}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Posts every record of the given modules, for tenants with invoices that
+   * predate the ledger or posts that failed.
+   */
+  async syncTenant(tenantId: string, modules: readonly LedgerSourceModule[]): Promise<Record<string, number>> {
+    const posted: Record<string, number> = {};
+    for (const module of modules) {
+      posted[module] = 0;
+      for (let offset = 0; ; offset += SYNC_BATCH_SIZE) {
+        const ids = await sourceIds(tenantId, module, offset);
+        for (const id of ids) {
+          if (await this.post(tenantId, module, id)) posted[module] += 1;
+        }
+        if (ids.length < SYNC_BATCH_SIZE) break;
+      }
+    }
+    return posted;
+  }
+
+  async getSeries(tenantId: string): Promise<Array<Pick<InvoiceNumberSeries, "documentType" | "prefix" | "nextNumber" | "padding"> & { nextDocumentNumber: string }>> {
+    const rows = await db.select().from(invoiceNumberSeries).where(eq(invoiceNumberSeries.tenantId, tenantId));
+    return LEDGER_DOCUMENT_TYPES.map((documentType) => {
+      const series = rows.find((row) => row.documentType === documentType)
+        ?? { documentType, prefix: DEFAULT_SERIES_PREFIXES[documentType], nextNumber: 1, padding: DEFAULT_SERIES_PADDING };
+      return {
+        documentType,
+        prefix: series.prefix,
+        nextNumber: series.nextNumber,
+        padding: series.padding,
+        nextDocumentNumber: formatDocumentNumber(series, series.nextNumber),
+      };
+    });
+  }
+
+  async updateSeries(
+    tenantId: string,
+    documentType: LedgerDocumentType,
+    update: { prefix?: string; padding?: number; nextNumber?: number },
+  ): Promise<InvoiceNumberSeries> {
+    return db.transaction(async (tx) => {
+      await tx.insert(invoiceNumberSeries).values({
+        tenantId,
+        documentType,
+        prefix: DEFAULT_SERIES_PREFIXES[documentType],
+        padding: DEFAULT_SERIES_PADDING,
+      }).onConflictDoNothing();
+      const [current] = await tx.select()
+        .from(invoiceNumberSeries)
+        .where(and(eq(invoiceNumberSeries.tenantId, tenantId), eq(invoiceNumberSeries.documentType, documentType)))
+        .for("update");
+
+      validateSeriesUpdate(current, update);
+      const [updated] = await tx.update(invoiceNumberSeries)
+        .set({ ...update, updatedAt: new Date() })
+        .where(eq(invoiceNumberSeries.id, current.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async listDocuments(tenantId: string, filters: LedgerDocumentFilters): Promise<{ data: LedgerDocument[]; total: number }> {
+    const conditions: SQL[] = [eq(ledgerDocuments.tenantId, tenantId)];
+    if (filters.sourceModule) conditions.push(eq(ledgerDocuments.sourceModule, filters.sourceModule as LedgerDocument["sourceModule"]));
+    if (filters.documentType) conditions.push(eq(ledgerDocuments.documentType, filters.documentType));
+    if (filters.status) conditions.push(eq(ledgerDocuments.status, filters.status as LedgerDocument["status"]));
+    if (filters.partyType) conditions.push(eq(ledgerDocuments.partyType, filters.partyType));
+    if (filters.partyId) conditions.push(eq(ledgerDocuments.partyId, filters.partyId));
+    if (filters.from) conditions.push(gte(ledgerDocuments.issueDate, filters.from));
+    if (filters.to) conditions.push(lte(ledgerDocuments.issueDate, filters.to));
+
+    const [data, [{ count }]] = await Promise.all([
+      db.select()
+        .from(ledgerDocuments)
+        .where(and(...conditions))
+        .orderBy(desc(ledgerDocuments.issueDate), desc(ledgerDocuments.documentNumber))
+        .limit(filters.limit)
+        .offset((filters.page - 1) * filters.limit),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(ledgerDocuments)
+        .where(and(...conditions)),
+    ]);
+    return { data, total: count };
+  }
+
+  async getDocument(tenantId: string, id: string): Promise<LedgerDocument & { entries: LedgerEntry[]; notes: LedgerDocument[] }> {
+    const [document] = await db.select()
+      .from(ledgerDocuments)
+      .where(and(eq(ledgerDocuments.id, id), eq(ledgerDocuments.tenantId, tenantId)));
+    if (!document) throw new InvoiceLedgerError(404, "Ledger document not found");
+
+    const [entries, notes] = await Promise.all([
+      db.select().from(ledgerEntries).where(eq(ledgerEntries.documentId, id)).orderBy(asc(ledgerEntries.entryDate), asc(ledgerEntries.createdAt)),
+      db.select().from(ledgerDocuments)
+        .where(and(eq(ledgerDocuments.tenantId, tenantId), eq(ledgerDocuments.originalDocumentId, id)))
+        .orderBy(asc(ledgerDocuments.issueDate)),
+    ]);
+    return { ...document, entries, notes };
+  }
+
+  /**
+   * Issues a credit or debit note against an invoice or debit note. A credit
+   * note is applied to the original at once; a debit note is a new
+   * receivable, due with the original unless a due date is given.
+   */
+  async issueNote(
+    tenantId: string,
+    originalId: string,
+    noteType: Exclude<LedgerDocumentType, "invoice">,
+    input: NoteInput,
+    userId?: string,
+  ): Promise<LedgerDocument> {
+    return db.transaction(async (tx) => {
+      const original = await lockDocument(tx, tenantId, originalId);
+      assertCanIssueNote(original, noteType, input.amount);
+
+      const issueDate = input.issueDate ?? today();
+      const tax = input.taxAmount ?? 0;
+      const noteAmounts: LedgerAmounts = { totalAmount: input.amount, paidAmount: 0, creditedAmount: 0, refundedAmount: 0 };
+      const [note] = await tx.insert(ledgerDocuments).values({
+        tenantId,
+        documentType: noteType,
+        documentNumber: await nextDocumentNumber(tx, tenantId, noteType),
+        sourceModule: "ledger",
+        originalDocumentId: original.id,
+        sourceReference: original.documentNumber,
+        partyType: original.partyType,
+        partyId: original.partyId,
+        partyName: original.partyName,
+        currency: original.currency,
+        issueDate,
+        dueDate: noteType === "debit_note" ? input.dueDate ?? original.dueDate ?? issueDate : null,
+        subtotal: money(input.amount - tax),
+        taxAmount: money(tax),
+        ...settlement(noteType, noteAmounts, false),
+        reason: input.reason,
+        createdBy: userId,
+      }).returning();
+
+      if (noteType === "credit_note") {
+        await tx.insert(ledgerEntries).values({
+          tenantId,
+          documentId: original.id,
+          entryType: "credit",
+          amount: money(input.amount),
+          entryDate: issueDate,
+          creditNoteId: note.id,
+          reference: note.documentNumber,
+          reason: input.reason,
+          createdBy: userId,
+        });
+        const amounts = documentAmounts(original);
+        await updateSettlement(tx, original, { ...amounts, creditedAmount: amounts.creditedAmount + input.amount });
+      }
+      return note;
+    });
+  }
+
+  async recordPayment(tenantId: string, id: string, input: EntryInput, userId?: string): Promise<LedgerDocument> {
+    return db.transaction(async (tx) => {
+      const document = await lockDocument(tx, tenantId, id);
+      assertCanRecordPayment(document, input.amount);
+
+      await tx.insert(ledgerEntries).values({
+        tenantId,
+        documentId: document.id,
+        entryType: "payment",
+        amount: money(input.amount),
+        entryDate: input.entryDate ?? today(),
+        reference: input.reference,
+        reason: input.reason,
+        createdBy: userId,
+      });
+      const amounts = documentAmounts(document);
+      return updateSettlement(tx, document, { ...amounts, paidAmount: amounts.paidAmount + input.amount });
+    });
+  }
+
+  /**
+   * Refunds part or all of what was paid on a document, typically the credit
+   * balance left by a credit note. Several partial refunds may follow each other.
+   */
+  async recordRefund(tenantId: string, id: string, input: EntryInput & { reason: string }, userId?: string): Promise<LedgerDocument> {
+    return db.transaction(async (tx) => {
+      const document = await lockDocument(tx, tenantId, id);
+      assertCanRefund(document, input.amount);
+
+      await tx.insert(ledgerEntries).values({
+        tenantId,
+        documentId: document.id,
+        entryType: "refund",
+        amount: money(input.amount),
+        entryDate: input.entryDate ?? today(),
+        reference: input.reference,
+        reason: input.reason,
+        createdBy: userId,
+      });
+      const amounts = documentAmounts(document);
+      return updateSettlement(tx, document, { ...amounts, refundedAmount: amounts.refundedAmount + input.amount });
+    });
+  }
+
+  async getReceivables(tenantId: string, asOf: string, filters: { sourceModule?: string; currency?: string } = {}): Promise<ReceivablesView> {
+    const conditions: SQL[] = [
+      eq(ledgerDocuments.tenantId, tenantId),
+      inArray(ledgerDocuments.documentType, ["invoice", "debit_note"]),
+      ne(ledgerDocuments.status, "void"),
+      ne(ledgerDocuments.balanceAmount, "0"),
+    ];
+    if (filters.sourceModule) conditions.push(eq(ledgerDocuments.sourceModule, filters.sourceModule as LedgerDocument["sourceModule"]));
+    if (filters.currency) conditions.push(eq(ledgerDocuments.currency, filters.currency));
+
+    const documents = await db.select().from(ledgerDocuments).where(and(...conditions));
+    return buildReceivables(documents, asOf);
+  }
+}
+
+export const invoiceLedgerService = new InvoiceLedgerService();
@@ -0,0 +1,266 @@
+/**
+ * Invoice ledger rules: document numbering, balances and statuses, what can
+ * be credited, refunded or paid, and the aged receivables view built from
+ * ledger documents across modules.
+ */
+
+import type { LedgerDocument } from "@shared/schema";
+import { amount, round2 } from "../../utils/money";
+import { daysBetween } from "../../utils/time-of-day";
+
+export const LEDGER_DOCUMENT_TYPES = ["invoice", "credit_note", "debit_note"] as const;
+export type LedgerDocumentType = typeof LEDGER_DOCUMENT_TYPES[number];
+
+// Modules whose invoices post into the ledger; notes issued in the ledger
+// itself carry the separate "ledger" source and are never posted
+export const LEDGER_SOURCE_MODULES = ["core", "furniture", "legal", "education", "tourism"] as const;
+export type LedgerSourceModule = typeof LEDGER_SOURCE_MODULES[number];
+
+export type LedgerDocumentStatus = LedgerDocument["status"];
+
+export const DEFAULT_SERIES_PREFIXES: Record<LedgerDocumentType, string> = {
+  invoice: "INV-",
+  credit_note: "CN-",
+  debit_note: "DN-",
+};
+export const DEFAULT_SERIES_PADDING = 6;
+
+export const AGING_BUCKETS = ["current", "1_30", "31_60", "61_90", "90_plus"] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+// What a module record contributes to the ledger
+export interface LedgerPosting {
+  sourceModule: LedgerSourceModule;
+  sourceId: string;
+  sourceReference: string | null;
+  partyType: string;
+  partyId: string | null;
+  partyName: string | null;
+  currency: string;
+  issueDate: string;
+  dueDate: string | null;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  paidAmount: number;
+  voided: boolean;
+}
+
+export interface LedgerAmounts {
+  totalAmount: number;
+  paidAmount: number;
+  creditedAmount: number;
+  refundedAmount: number;
+}
+
+export class InvoiceLedgerError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "InvoiceLedgerError";
+  }
+}
+
+export function documentAmounts(document: Pick<LedgerDocument, "totalAmount" | "paidAmount" | "creditedAmount" | "refundedAmount">): LedgerAmounts {
+  return {
+    totalAmount: amount(document.totalAmount),
+    paidAmount: amount(document.paidAmount),
+    creditedAmount: amount(document.creditedAmount),
+    refundedAmount: amount(document.refundedAmount),
+  };
+}
+
+export function formatDocumentNumber(series: { prefix: string; padding: number }, number: number): string {
+  return `${series.prefix}${String(number).padStart(series.padding, "0")}`;
+}
+
+/**
+ * Series can be renamed or moved forward, never back: an earlier next number
+ * would hand out numbers that are already taken.
+ */
+export function validateSeriesUpdate(
+  current: { nextNumber: number },
+  update: { prefix?: string; padding?: number; nextNumber?: number },
+): void {
+  if (update.prefix !== undefined && !/^[A-Za-z0-9/_-]{1,20}$/.test(update.prefix)) {
+    throw new InvoiceLedgerError(400, "Prefix may only contain letters, digits, '/', '_' and '-'");
+  }
+  if (update.padding !== undefined && (!Number.isInteger(update.padding) || update.padding < 1 || update.padding > 12)) {
+    throw new InvoiceLedgerError(400, "Padding must be between 1 and 12 digits");
+  }
+  if (update.nextNumber !== undefined && update.nextNumber < current.nextNumber) {
+    throw new InvoiceLedgerError(409, `Next number cannot go back below ${current.nextNumber}`);
+  }
+}
+
+/**
+ * Amount still owed. Refunds hand paid money back, so they raise the balance
+ * again; a negative balance is credit the party holds.
+ */
+export function ledgerBalance(amounts: LedgerAmounts): number {
+  return round2(amounts.totalAmount - amounts.paidAmount - amounts.creditedAmount + amounts.refundedAmount);
+}
+
+export function ledgerStatus(documentType: LedgerDocumentType, amounts: LedgerAmounts, voided: boolean): LedgerDocumentStatus {
+  if (voided) return "void";
+  // Credit notes are applied to their original when issued
+  if (documentType === "credit_note") return "applied";
+  if (ledgerBalance(amounts) <= 0) {
+    return amounts.totalAmount > 0 && amounts.creditedAmount >= amounts.totalAmount ? "credited" : "paid";
+  }
+  if (amounts.paidAmount - amounts.refundedAmount > 0 || amounts.creditedAmount > 0) return "partially_paid";
+  return "open";
+}
+
+function assertPositive(value: number): void {
+  if (!(value > 0)) throw new InvoiceLedgerError(400, "Amount must be greater than zero");
+}
+
+function assertNotVoid(document: Pick<LedgerDocument, "status" | "documentNumber">): void {
+  if (document.status === "void") throw new InvoiceLedgerError(409, `${document.documentNumber} is void`);
+}
+
+/**
+ * Credit and debit notes reference an invoice or a debit note. Credit notes
+ * cannot exceed what has not been credited already.
+ */
+export function assertCanIssueNote(
+  original: Pick<LedgerDocument, "documentType" | "documentNumber" | "status" | "totalAmount" | "creditedAmount">,
+  noteType: Exclude<LedgerDocumentType, "invoice">,
+  noteAmount: number,
+): void {
+  assertPositive(noteAmount);
+  if (original.documentType === "credit_note") {
+    throw new InvoiceLedgerError(400, "Notes must reference an invoice or a debit note");
+  }
+  assertNotVoid(original);
+  if (noteType === "credit_note") {
+    const creditable = round2(amount(original.totalAmount) - amount(original.creditedAmount));
+    if (noteAmount > creditable) {
+      throw new InvoiceLedgerError(400, `Only ${creditable.toFixed(2)} of ${original.documentNumber} can still be credited`);
+    }
+  }
+}
+
+export function assertCanRefund(
+  document: Pick<LedgerDocument, "documentType" | "documentNumber" | "status" | "paidAmount" | "refundedAmount">,
+  refundAmount: number,
+): void {
+  assertPositive(refundAmount);
+  if (document.documentType === "credit_note") {
+    throw new InvoiceLedgerError(400, "Refund against the credited invoice, not the credit note");
+  }
+  const refundable = round2(amount(document.paidAmount) - amount(document.refundedAmount));
+  if (refundAmount > refundable) {
+    throw new InvoiceLedgerError(400, `Only ${refundable.toFixed(2)} paid on ${document.documentNumber} can be refunded`);
+  }
+}
+
+/**
+ * Payments are only taken in the ledger for documents issued there; a
+ * module's invoices are paid through the module, which posts the new total.
+ */
+export function assertCanRecordPayment(
+  document: Pick<LedgerDocument, "documentType" | "documentNumber" | "sourceModule" | "status" | "balanceAmount">,
+  paymentAmount: number,
+): void {
+  assertPositive(paymentAmount);
+  if (document.sourceModule !== "ledger" || document.documentType !== "debit_note") {
+    throw new InvoiceLedgerError(409, `Record payments for ${document.documentNumber} in the ${document.sourceModule} module`);
+  }
+  assertNotVoid(document);
+  if (paymentAmount > amount(document.balanceAmount)) {
+    throw new InvoiceLedgerError(400, `Payment exceeds the ${amount(document.balanceAmount).toFixed(2)} outstanding on ${document.documentNumber}`);
+  }
+}
+
+export function agingBucket(dueDate: string | null, asOf: string): AgingBucket {
+  if (!dueDate) return "current";
+  const overdue = daysBetween(dueDate, asOf);
+  if (overdue <= 0) return "current";
+  if (overdue <= 30) return "1_30";
+  if (overdue <= 60) return "31_60";
+  if (overdue <= 90) return "61_90";
+  return "90_plus";
+}
+
+type ReceivableDocument = Pick<LedgerDocument,
+  "id" | "documentType" | "documentNumber" | "sourceModule" | "partyType" | "partyId" | "partyName" |
+  "currency" | "dueDate" | "balanceAmount" | "status">;
+
+export type AgingTotals = Record<AgingBucket, number> & { credit: number; total: number };
+
+export interface ReceivablesParty {
+  partyType: string;
+  partyId: string | null;
+  partyName: string | null;
+  currency: string;
+  modules: string[];
+  documentCount: number;
+  aging: AgingTotals;
+}
+
+export interface ReceivablesView {
+  asOf: string;
+  // Keyed by currency; amounts in different currencies are never added together
+  totals: Record<string, AgingTotals>;
+  byModule: Array<{ sourceModule: string; currency: string; outstanding: number; documentCount: number }>;
+  parties: ReceivablesParty[];
+}
+
+function emptyAging(): AgingTotals {
+  return { current: 0, "1_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0, credit: 0, total: 0 };
+}
+
+function addToAging(aging: AgingTotals, balance: number, bucket: AgingBucket): void {
+  // Credit balances are not aged; they offset what the party owes
+  if (balance < 0) aging.credit = round2(aging.credit + balance);
+  else aging[bucket] = round2(aging[bucket] + balance);
+  aging.total = round2(aging.total + balance);
+}
+
+/**
+ * Outstanding invoices and debit notes across modules, aged by due date and
+ * grouped per party and currency, largest balance first.
+ */
+export function buildReceivables(documents: ReceivableDocument[], asOf: string): ReceivablesView {
+  const totals: Record<string, AgingTotals> = {};
+  const modules = new Map<string, { sourceModule: string; currency: string; outstanding: number; documentCount: number }>();
+  const parties = new Map<string, ReceivablesParty>();
+
+  for (const document of documents) {
+    if (document.documentType === "credit_note" || document.status === "void") continue;
+    const balance = amount(document.balanceAmount);
+    if (balance === 0) continue;
+
+    const bucket = agingBucket(document.dueDate, asOf);
+    addToAging(totals[document.currency] ??= emptyAging(), balance, bucket);
+
+    const moduleKey = `${document.sourceModule}:${document.currency}`;
+    const moduleTotal = modules.get(moduleKey) ?? { sourceModule: document.sourceModule, currency: document.currency, outstanding: 0, documentCount: 0 };
+    moduleTotal.outstanding = round2(moduleTotal.outstanding + balance);
+    moduleTotal.documentCount += 1;
+    modules.set(moduleKey, moduleTotal);
+
+    const partyKey = `${document.partyType}:${document.partyId ?? document.partyName ?? ""}:${document.currency}`;
+    const party = parties.get(partyKey) ?? {
+      partyType: document.partyType,
+      partyId: document.partyId,
+      partyName: document.partyName,
+      currency: document.currency,
+      modules: [],
+      documentCount: 0,
+      aging: emptyAging(),
+    };
+    if (!party.modules.includes(document.sourceModule)) party.modules.push(document.sourceModule);
+    party.documentCount += 1;
+    addToAging(party.aging, balance, bucket);
+    parties.set(partyKey, party);
+  }
+
+  return {
+    asOf,
+    totals,
+    byModule: Array.from(modules.values()),
+    parties: Array.from(parties.values()).sort((a, b) => b.aging.total - a.aging.total),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * How each module's invoice records map onto ledger postings. A null posting
+ * means the record is not a receivable yet, e.g. a draft or an inquiry.
+ */
+
+import type { Invoice, FurnitureInvoice, LegalInvoice, Fee, TourBooking } from "@shared/schema";
+import type { LedgerPosting } from "./ledger";
+import { amount } from "../../utils/money";
+import { isoDate, today } from "../../utils/time-of-day";
+
+// Furniture documents that do not ask the customer for money
+const NON_RECEIVABLE_FURNITURE_TYPES = ["proforma", "delivery_challan"];
+
+export function postingFromCoreInvoice(invoice: Invoice, customerName: string | null): LedgerPosting | null {
+  if (invoice.status === "draft") return null;
+  return {
+    sourceModule: "core",
+    sourceId: invoice.id,
+    sourceReference: invoice.invoiceNumber,
+    partyType: "customer",
+    partyId: invoice.customerId,
+    partyName: customerName,
+    currency: invoice.currency,
+    issueDate: isoDate(invoice.createdAt) ?? today(),
+    dueDate: invoice.dueDate,
+    subtotal: amount(invoice.subtotal) - amount(invoice.discountAmount),
+    taxAmount: amount(invoice.taxAmount),
+    totalAmount: amount(invoice.totalAmount),
+    paidAmount: amount(invoice.paidAmount),
+    voided: invoice.status === "cancelled" || !!invoice.deletedAt,
+  };
+}
+
+export function postingFromFurnitureInvoice(invoice: FurnitureInvoice, customerName: string | null): LedgerPosting | null {
+  if (invoice.status === "draft" || NON_RECEIVABLE_FURNITURE_TYPES.includes(invoice.invoiceType)) return null;
+  const total = amount(invoice.totalAmount);
+  const tax = amount(invoice.taxAmount);
+  return {
+    sourceModule: "furniture",
+    sourceId: invoice.id,
+    sourceReference: invoice.invoiceNumber,
+    partyType: "customer",
+    partyId: invoice.customerId,
+    partyName: invoice.billingName || customerName,
+    currency: invoice.currency,
+    issueDate: isoDate(invoice.invoiceDate) ?? today(),
+    dueDate: isoDate(invoice.dueDate),
+    subtotal: total - tax,
+    taxAmount: tax,
+    totalAmount: total,
+    paidAmount: amount(invoice.paidAmount),
+    voided: invoice.status === "cancelled",
+  };
+}
+
+export function postingFromLegalInvoice(invoice: LegalInvoice, clientName: string | null): LedgerPosting | null {
+  if (invoice.status === "draft") return null;
+  return {
+    sourceModule: "legal",
+    sourceId: invoice.id,
+    sourceReference: invoice.invoiceNumber,
+    partyType: "legal_client",
+    partyId: invoice.clientId,
+    partyName: clientName,
+    currency: invoice.currency || "INR",
+    issueDate: invoice.invoiceDate,
+    dueDate: invoice.dueDate,
+    subtotal: amount(invoice.subtotal) - amount(invoice.discountAmount),
+    taxAmount: amount(invoice.taxAmount),
+    totalAmount: amount(invoice.totalAmount),
+    paidAmount: amount(invoice.paidAmount),
+    voided: invoice.status === "cancelled" || invoice.status === "written_off" || !!invoice.deletedAt,
+  };
+}
+
+export function postingFromFee(fee: Fee, studentName: string | null): LedgerPosting {
+  return {
+    sourceModule: "education",
+    sourceId: fee.id,
+    sourceReference: fee.installmentNumber && fee.totalInstallments
+      ? `${fee.feeType} ${fee.installmentNumber}/${fee.totalInstallments}`
+      : fee.feeType,
+    partyType: "student",
+    partyId: fee.studentId,
+    partyName: studentName,
+    currency: fee.currency || "INR",
+    issueDate: isoDate(fee.createdAt) ?? today(),
+    dueDate: fee.dueDate,
+    subtotal: amount(fee.amount) - amount(fee.discountAmount),
+    taxAmount: amount(fee.taxAmount),
+    totalAmount: amount(fee.totalAmount),
+    paidAmount: amount(fee.paidAmount),
+    voided: fee.status === "waived" || !!fee.deletedAt,
+  };
+}
+
+export function postingFromTourBooking(booking: TourBooking, customerName: string | null): LedgerPosting | null {
+  if (booking.status === "inquiry") return null;
+  return {
+    sourceModule: "tourism",
+    sourceId: booking.id,
+    sourceReference: booking.bookingNumber,
+    partyType: "customer",
+    partyId: booking.customerId,
+    partyName: customerName,
+    currency: booking.currency || "INR",
+    issueDate: isoDate(booking.confirmedAt ?? booking.createdAt) ?? today(),
+    dueDate: booking.paymentDueDate ?? booking.departureDate,
+    subtotal: amount(booking.baseAmount) - amount(booking.discountAmount),
+    taxAmount: amount(booking.taxAmount),
+    totalAmount: amount(booking.totalAmount),
+    paidAmount: amount(booking.paidAmount),
+    voided: booking.status === "cancelled" || booking.status === "refunded",
+  };
+}
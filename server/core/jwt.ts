@@ -17,6 +17,7 @@ const JWT_SECRET = getJwtSecret();
 const ACCESS_TOKEN_EXPIRY = "1h"; // Extended from 15m for better UX
 const REFRESH_TOKEN_EXPIRY_DAYS = 7;
 const REFRESH_TOKEN_MAX_DAYS = 30;
+const API_TOKEN_USAGE_WRITE_INTERVAL_MS = 60 * 1000;
 
 export interface TokenPayload extends JwtPayload {
   sub: string;
@@ -430,7 +431,8 @@ export class JWTAuthService {
     tenantId: string,
     name: string,
     scopes: string[],
-    expiresInDays?: number
+    expiresInDays?: number,
+    rateLimitPerMinute?: number
   ): Promise<{ token: string; tokenId: string }> {
     const tokenId = generateTokenId();
     const tokenHash = hashToken(tokenId);
@@ -446,6 +448,7 @@ export class JWTAuthService {
       tokenHash,
       scopes: scopes as any,
       expiresAt,
+      rateLimitPerMinute: rateLimitPerMinute ?? null,
       isActive: true,
     });
 
@@ -456,9 +459,11 @@ export class JWTAuthService {
   }
 
   async verifyApiToken(token: string): Promise<{
+    id: string;
     userId: string;
     tenantId: string | null;
     scopes: string[];
+    rateLimitPerMinute: number | null;
   } | null> {
     const tokenHash = hashToken(token);
 
@@ -477,14 +482,20 @@ export class JWTAuthService {
       return null;
     }
 
-    await db.update(apiTokens)
-      .set({ lastUsedAt: new Date() })
-      .where(eq(apiTokens.id, storedToken.id));
+    // Record usage at most once a minute so busy integrations don't write on every request
+    const now = new Date();
+    if (!storedToken.lastUsedAt || now.getTime() - storedToken.lastUsedAt.getTime() > API_TOKEN_USAGE_WRITE_INTERVAL_MS) {
+      await db.update(apiTokens)
+        .set({ lastUsedAt: now })
+        .where(eq(apiTokens.id, storedToken.id));
+    }
 
     return {
+      id: storedToken.id,
       userId: storedToken.userId,
       tenantId: storedToken.tenantId,
       scopes: (storedToken.scopes as string[]) || [],
+      rateLimitPerMinute: storedToken.rateLimitPerMinute,
     };
   }
 
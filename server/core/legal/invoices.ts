@@ -9,6 +9,7 @@ import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isol
 import { auditService } from "../audit";
 import { baseFinancialService } from "../../services/base-financial";
 import { sendLegalInvoiceNotification } from "../../services/legal-notification-adapter";
+import { invoiceLedgerService } from "../invoicing";
 
 export const legalInvoicesRouter = Router();
 
@@ -139,6 +140,7 @@ legalInvoicesRouter.post("/", ...middleware, requirePermission("legal_invoices:c
       metadata: { invoiceNumber: invoice.invoiceNumber, amount: invoice.totalAmount },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "legal", invoice.id);
     res.status(201).json(invoice);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -182,6 +184,7 @@ legalInvoicesRouter.patch("/:id", ...middleware, requirePermission("legal_invoic
       metadata: { changes: Object.keys(parsed.data) },
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "legal", id);
     res.json(updated);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -232,6 +235,7 @@ legalInvoicesRouter.post("/:id/payment", ...middleware, requirePermission("legal
       },
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "legal", id);
     res.json(updated);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -299,6 +303,7 @@ legalInvoicesRouter.delete("/:id", ...middleware, requirePermission("legal_invoi
       metadata: { invoiceNumber: existing.invoiceNumber },
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "legal", id);
     res.status(204).send();
   } catch (error: any) {
     res.status(400).json({ message: error.message });
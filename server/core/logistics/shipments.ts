@@ -7,6 +7,7 @@ import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { requirePermission } from "../context";
 import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
 import { auditService } from "../audit";
+import { webhookService } from "../webhooks";
 import { baseFinancialService } from "../../services/base-financial";
 import { sendShipmentUpdate, sendDeliveryNotification } from "../../services/notification-adapters";
 
@@ -251,6 +252,9 @@ shipmentsRouter.patch("/:id/status", ...middleware, requirePermission("shipments
       resourceId: id,
       metadata: { statusChange: { from: existing.status, to: status } },
     });
+    if (status === "delivered" && existing.status !== "delivered") {
+      webhookService.publishAsync(isolation.getTenantId(), "shipment.delivered", updated);
+    }
 
     res.json(updated);
   } catch (error: any) {
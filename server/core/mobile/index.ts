@@ -36,3 +36,11 @@ export {
   type ApiVersion,
   API_VERSIONS,
 } from './mobile-api';
+export {
+  SYNC_ENTITIES,
+  SYNC_CONFLICT_STRATEGIES,
+  DEFAULT_CONFLICT_STRATEGY,
+  type SyncEntity,
+  type SyncConflictStrategy,
+  type SyncResolution,
+} from './sync';
@@ -6,25 +6,52 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { z } from 'zod';
+import { z, type AnyZodObject } from 'zod';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import { and, asc, eq, gt, isNull, or, sql } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../../db';
+import {
+  attendance,
+  batches,
+  bookings,
+  customers,
+  invoices,
+  insertAttendanceSchema,
+  insertBookingSchema,
+  insertCustomerSchema,
+  insertInvoiceSchema,
+  mobileSyncChanges,
+  mobileSyncCursors,
+  services,
+  staff,
+  students,
+  type MobileSyncChange,
+} from '@shared/schema';
+import {
+  SYNC_CONFLICT_STRATEGIES,
+  SYNC_ENTITIES,
+  SYNC_PAGE_SIZE,
+  DEFAULT_CONFLICT_STRATEGY,
+  changeFeedAction,
+  detectConflict,
+  encodeSyncCursor,
+  isSyncEntity,
+  resolveConflict,
+  syncStartPosition,
+  type SyncConflictStrategy,
+  type SyncEntity,
+  type SyncPosition,
+  type SyncResolution,
+} from './sync';
+import { deviceRegistry } from '../push';
+import { webhookService } from '../webhooks';
+import { invoiceLedgerService } from '../invoicing';
 
 // ==================== Types ====================
 
-export interface MobileDevice {
-  id: string;
-  userId: string;
-  tenantId: string;
-  platform: 'ios' | 'android';
-  deviceId: string;
-  deviceName: string;
-  pushToken: string | null;
-  appVersion: string;
-  osVersion: string;
-  lastActiveAt: Date;
-  createdAt: Date;
-}
+export type { MobileDevice } from '@shared/schema';
 
 export interface MobileSession {
   id: string;
@@ -399,11 +426,16 @@ interface SyncRequest {
   entity: string;
   lastSyncedAt: string | null;
   clientVersion: number;
+  // nextCursor from the previous response; echoing it acknowledges that page
+  cursor?: string | null;
+  conflictResolution?: SyncConflictStrategy;
   pendingChanges: Array<{
     id: string;
     action: 'create' | 'update' | 'delete';
     data?: any;
     timestamp: number;
+    // updatedAt of the server row the offline edit was made against
+    baseUpdatedAt?: string | null;
   }>;
 }
 
@@ -418,18 +450,75 @@ interface SyncResponse {
     timestamp: number;
   }>;
   conflicts: Array<{
+    conflictId: string;
     clientChange: any;
     serverData: any;
-    resolution: 'client_wins' | 'server_wins' | 'manual';
+    resolution: SyncResolution;
   }>;
   processed: string[];
+  failed: Array<{ id: string; error: string }>;
   hasMore: boolean;
   nextCursor?: string;
 }
 
-// In-memory sync state store (replace with database in production)
-const syncStateStore = new Map<string, SyncState>();
-const pendingSyncStore = new Map<string, PendingSync[]>();
+type SyncChange = SyncRequest['pendingChanges'][0];
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Columns every synced table carries; the change feed pages on (updatedAt, id)
+type SyncTable = PgTable & {
+  id: AnyPgColumn;
+  tenantId: AnyPgColumn;
+  createdAt: AnyPgColumn;
+  updatedAt: AnyPgColumn;
+  deletedAt: AnyPgColumn;
+};
+
+interface SyncRecord {
+  id: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  deletedAt: Date | null;
+  [column: string]: unknown;
+}
+
+type TenantTable = PgTable & { id: AnyPgColumn; tenantId: AnyPgColumn };
+
+interface SyncTableConfig {
+  table: SyncTable;
+  // Fields an offline edit may write; who created a record is stamped by the server
+  writable: AnyZodObject;
+  // Foreign keys an edit may set, each of which must point at the caller's tenant
+  references: Record<string, TenantTable>;
+  stampsCreator: boolean;
+}
+
+// Tables a device can sync
+const SYNC_TABLES: Record<SyncEntity, SyncTableConfig> = {
+  customers: {
+    table: customers,
+    writable: insertCustomerSchema.omit({ tenantId: true, deletedAt: true, createdBy: true }),
+    references: {},
+    stampsCreator: true,
+  },
+  bookings: {
+    table: bookings,
+    writable: insertBookingSchema.omit({ tenantId: true, deletedAt: true, createdBy: true, cancelledBy: true }),
+    references: { customerId: customers, serviceId: services, staffId: staff, invoiceId: invoices },
+    stampsCreator: true,
+  },
+  invoices: {
+    table: invoices,
+    writable: insertInvoiceSchema.omit({ tenantId: true, deletedAt: true, createdBy: true }),
+    references: { customerId: customers },
+    stampsCreator: true,
+  },
+  attendance: {
+    table: attendance,
+    writable: insertAttendanceSchema.omit({ tenantId: true }),
+    references: { batchId: batches, studentId: students },
+    stampsCreator: false,
+  },
+};
 
 export class SyncManager {
   
@@ -439,112 +528,356 @@ export class SyncManager {
     deviceId: string,
     request: SyncRequest
   ): Promise<SyncResponse> {
-    const stateKey = `${tenantId}:${userId}:${request.entity}`;
-    const currentState = syncStateStore.get(stateKey) || {
-      entity: request.entity,
-      lastSyncedAt: new Date(0),
-      serverVersion: 0,
-      checksum: '',
-    };
+    if (!isSyncEntity(request.entity)) {
+      throw createApiError('VALIDATION_ERROR', { entity: request.entity, supported: SYNC_ENTITIES });
+    }
+    const entity = request.entity;
+    const strategy = request.conflictResolution ?? DEFAULT_CONFLICT_STRATEGY[entity];
+    
+    const [currentState] = await db.select().from(mobileSyncCursors).where(and(
+      eq(mobileSyncCursors.tenantId, tenantId),
+      eq(mobileSyncCursors.userId, userId),
+      eq(mobileSyncCursors.deviceId, deviceId),
+      eq(mobileSyncCursors.entity, entity),
+    ));
     
     // Process pending changes from client
     const processed: string[] = [];
     const conflicts: SyncResponse['conflicts'] = [];
+    const failed: SyncResponse['failed'] = [];
     
     for (const change of request.pendingChanges) {
       try {
-        const result = await this.processChange(tenantId, request.entity, change, currentState);
+        const result = await this.processChange(userId, tenantId, deviceId, entity, change, strategy);
         
-        if (result.conflict) {
+        if (result.status === 'failed') {
+          failed.push({ id: change.id, error: result.errorMessage ?? 'Change could not be applied' });
+          continue;
+        }
+        if (result.resolution) {
           conflicts.push({
+            conflictId: result.id,
             clientChange: change,
             serverData: result.serverData,
-            resolution: this.resolveConflict(change, result.serverData),
+            resolution: result.resolution as SyncResolution,
           });
-        } else {
+        }
+        if (result.status === 'processed') {
           processed.push(change.id);
         }
       } catch (error) {
         console.error('Sync change processing error:', error);
+        failed.push({ id: change.id, error: error instanceof Error ? error.message : 'Change could not be applied' });
       }
     }
     
-    // Get server changes since last sync
-    const serverChanges = await this.getServerChanges(
-      tenantId,
-      request.entity,
-      request.lastSyncedAt ? new Date(request.lastSyncedAt) : new Date(0)
-    );
+    // Get server changes since the device's cursor
+    const since = syncStartPosition({
+      cursor: request.cursor,
+      lastSyncedAt: request.lastSyncedAt,
+      stored: currentState?.cursorUpdatedAt
+        ? { updatedAt: currentState.cursorUpdatedAt, id: currentState.cursorRecordId ?? '' }
+        : null,
+    });
+    const feed = await this.getServerChanges(tenantId, entity, since);
     
     // Update sync state
-    const newVersion = currentState.serverVersion + 1;
+    const newVersion = (currentState?.serverVersion ?? 0) + 1;
     const syncedAt = new Date();
-    
-    syncStateStore.set(stateKey, {
-      entity: request.entity,
+    const state = {
       lastSyncedAt: syncedAt,
+      cursorUpdatedAt: feed.position.updatedAt,
+      cursorRecordId: feed.position.id,
       serverVersion: newVersion,
-      checksum: this.computeChecksum(serverChanges),
-    });
+      checksum: this.computeChecksum(feed.changes),
+      updatedAt: syncedAt,
+    };
+    
+    await db.insert(mobileSyncCursors)
+      .values({ tenantId, userId, deviceId, entity, ...state })
+      .onConflictDoUpdate({
+        target: [mobileSyncCursors.tenantId, mobileSyncCursors.userId, mobileSyncCursors.deviceId, mobileSyncCursors.entity],
+        set: state,
+      });
     
     return {
-      entity: request.entity,
+      entity,
       serverVersion: newVersion,
       syncedAt: syncedAt.toISOString(),
-      changes: serverChanges,
+      changes: feed.changes,
       conflicts,
       processed,
-      hasMore: serverChanges.length >= 100,
-      nextCursor: serverChanges.length >= 100 ? serverChanges[serverChanges.length - 1]?.id : undefined,
+      failed,
+      hasMore: feed.hasMore,
+      nextCursor: encodeSyncCursor(feed.position),
     };
   }
   
+  /**
+   * Applies one offline edit and records its outcome. Replays of an edit
+   * the server has already seen return the recorded outcome unchanged.
+   */
   private static async processChange(
+    userId: string,
     tenantId: string,
-    entity: string,
-    change: SyncRequest['pendingChanges'][0],
-    currentState: SyncState
-  ): Promise<{ conflict: boolean; serverData?: any }> {
-    // Check for conflicts (simplified - would check against actual database)
-    const serverData = null; // Would fetch from database
-    
-    if (serverData && change.action === 'update') {
-      // Check if server data was modified after client's timestamp
-      const serverModifiedAt = (serverData as any).updatedAt?.getTime() || 0;
-      if (serverModifiedAt > change.timestamp) {
-        return { conflict: true, serverData };
-      }
-    }
+    deviceId: string,
+    entity: SyncEntity,
+    change: SyncChange,
+    strategy: SyncConflictStrategy
+  ): Promise<MobileSyncChange> {
+    const clientTimestamp = new Date(change.timestamp);
+    const written: SyncRecord[] = [];
     
-    // Process the change (would update database)
-    // await database.processChange(tenantId, entity, change);
+    const recorded = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`sync:${tenantId}:${entity}:${change.id}`}))`);
+      
+      const [replayed] = await tx.select().from(mobileSyncChanges).where(and(
+        eq(mobileSyncChanges.tenantId, tenantId),
+        eq(mobileSyncChanges.deviceId, deviceId),
+        eq(mobileSyncChanges.entity, entity),
+        eq(mobileSyncChanges.recordId, change.id),
+        eq(mobileSyncChanges.clientTimestamp, clientTimestamp),
+      ));
+      if (replayed) return replayed;
+      
+      const serverData = await this.findRecord(tx, tenantId, entity, change.id);
+      const outcome: Partial<MobileSyncChange> = {};
+      
+      if (change.action === 'create' && serverData) {
+        // Created by an earlier sync whose response never reached the device
+        outcome.status = 'processed';
+      } else if (change.action !== 'create' && (!serverData || serverData.deletedAt)) {
+        if (change.action === 'delete') {
+          outcome.status = 'processed';
+        } else {
+          outcome.status = 'failed';
+          outcome.errorMessage = 'Record not found';
+        }
+      } else {
+        const serverUpdatedAt = serverData?.updatedAt ?? null;
+        const resolution = detectConflict(serverUpdatedAt, change)
+          ? resolveConflict(strategy, change, serverUpdatedAt)
+          : null;
+        
+        outcome.resolution = resolution;
+        if (resolution && resolution !== 'client_wins') {
+          outcome.status = 'conflict';
+          outcome.serverData = serverData;
+        } else {
+          const applied = await this.applyChange(tx, userId, tenantId, entity, change);
+          if ('error' in applied) {
+            outcome.status = 'failed';
+            outcome.errorMessage = applied.error;
+          } else {
+            written.push(applied.record);
+            outcome.status = 'processed';
+            outcome.serverData = resolution ? serverData : null;
+          }
+        }
+      }
+      
+      const [recorded] = await tx.insert(mobileSyncChanges).values({
+        tenantId,
+        userId,
+        deviceId,
+        entity,
+        recordId: change.id,
+        action: change.action,
+        payload: change.data ?? {},
+        clientTimestamp,
+        baseUpdatedAt: change.baseUpdatedAt ? new Date(change.baseUpdatedAt) : null,
+        status: outcome.status ?? 'pending',
+        resolution: outcome.resolution ?? null,
+        serverData: outcome.serverData ?? null,
+        errorMessage: outcome.errorMessage ?? null,
+      }).returning();
+      
+      return recorded;
+    });
     
-    return { conflict: false };
+    for (const record of written) this.publishChange(tenantId, entity, change.action, record);
+    return recorded;
+  }
+  
+  private static async findRecord(tx: Transaction, tenantId: string, entity: SyncEntity, id: string) {
+    const { table } = SYNC_TABLES[entity];
+    const [record] = await tx.select().from(table)
+      .where(and(eq(table.tenantId, tenantId), eq(table.id, id))) as SyncRecord[];
+    return record ?? null;
+  }
+  
+  // Returns the first foreign key in `data` that does not belong to the tenant
+  private static async foreignReference(tx: Transaction, tenantId: string, entity: SyncEntity, data: Record<string, unknown>): Promise<string | null> {
+    for (const [field, table] of Object.entries(SYNC_TABLES[entity].references)) {
+      const id = data[field];
+      if (typeof id !== 'string') continue;
+      const [owned] = await tx.select({ id: table.id }).from(table)
+        .where(and(eq(table.tenantId, tenantId), eq(table.id, id)));
+      if (!owned) return field;
+    }
+    return null;
   }
   
-  private static resolveConflict(
-    clientChange: any,
-    serverData: any
-  ): 'client_wins' | 'server_wins' | 'manual' {
-    // Last-write-wins strategy by default
-    const clientTimestamp = clientChange.timestamp || 0;
-    const serverTimestamp = serverData?.updatedAt?.getTime() || 0;
+  private static async applyChange(
+    tx: Transaction,
+    userId: string,
+    tenantId: string,
+    entity: SyncEntity,
+    change: Pick<SyncChange, 'id' | 'action' | 'data'>
+  ): Promise<{ record: SyncRecord } | { error: string }> {
+    const { table, writable, stampsCreator } = SYNC_TABLES[entity];
+    const where = and(eq(table.tenantId, tenantId), eq(table.id, change.id));
+    const now = new Date();
     
-    if (clientTimestamp > serverTimestamp) {
-      return 'client_wins';
+    let records: SyncRecord[];
+    switch (change.action) {
+      case 'create': {
+        const data = writable.parse(change.data ?? {});
+        const foreign = await this.foreignReference(tx, tenantId, entity, data);
+        if (foreign) return { error: `Unknown ${foreign}` };
+        const creator = stampsCreator ? { createdBy: userId } : {};
+        records = await tx.insert(table).values({ ...data, ...creator, id: change.id, tenantId, updatedAt: now }).returning() as SyncRecord[];
+        break;
+      }
+      case 'update': {
+        const data = writable.partial().parse(change.data ?? {});
+        const foreign = await this.foreignReference(tx, tenantId, entity, data);
+        if (foreign) return { error: `Unknown ${foreign}` };
+        records = await tx.update(table).set({ ...data, updatedAt: now }).where(where).returning() as SyncRecord[];
+        break;
+      }
+      case 'delete':
+        records = await tx.update(table).set({ deletedAt: now, updatedAt: now }).where(where).returning() as SyncRecord[];
+        break;
     }
+    return { record: records[0] };
+  }
+  
+  // Fires what the REST routes fire for the same writes, once the sync has committed
+  private static publishChange(tenantId: string, entity: SyncEntity, action: SyncChange['action'], record: SyncRecord): void {
+    switch (entity) {
+      case 'customers':
+        if (action === 'create') webhookService.publishAsync(tenantId, 'customer.created', record);
+        break;
+      case 'bookings':
+        webhookService.publishAsync(tenantId, action === 'create' ? 'booking.created' : 'booking.updated', record);
+        break;
+      case 'invoices':
+        if (action === 'create') webhookService.publishAsync(tenantId, 'invoice.created', record);
+        invoiceLedgerService.postAsync(tenantId, 'core', record.id);
+        break;
+    }
+  }
+  
+  /**
+   * Conflicts left for the user to settle, oldest first.
+   */
+  static async listConflicts(tenantId: string, userId: string, entity?: string): Promise<MobileSyncChange[]> {
+    return db.select().from(mobileSyncChanges).where(and(
+      eq(mobileSyncChanges.tenantId, tenantId),
+      eq(mobileSyncChanges.userId, userId),
+      eq(mobileSyncChanges.status, 'conflict'),
+      eq(mobileSyncChanges.resolution, 'manual'),
+      isNull(mobileSyncChanges.resolvedAt),
+      entity ? eq(mobileSyncChanges.entity, entity) : undefined,
+    )).orderBy(asc(mobileSyncChanges.createdAt));
+  }
+  
+  /**
+   * Settles a manual conflict. Keeping the device's edit applies it over the
+   * current server row; keeping the server version discards it.
+   */
+  static async resolveManualConflict(
+    tenantId: string,
+    userId: string,
+    conflictId: string,
+    resolution: 'client_wins' | 'server_wins'
+  ): Promise<MobileSyncChange> {
+    const written: SyncRecord[] = [];
+    
+    const resolved = await db.transaction(async (tx) => {
+      const [conflict] = await tx.select().from(mobileSyncChanges).where(and(
+        eq(mobileSyncChanges.id, conflictId),
+        eq(mobileSyncChanges.tenantId, tenantId),
+        eq(mobileSyncChanges.userId, userId),
+        eq(mobileSyncChanges.status, 'conflict'),
+        eq(mobileSyncChanges.resolution, 'manual'),
+        isNull(mobileSyncChanges.resolvedAt),
+      ));
+      if (!conflict || !isSyncEntity(conflict.entity)) {
+        throw createApiError('NOT_FOUND', { conflictId });
+      }
+      
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`sync:${tenantId}:${conflict.entity}:${conflict.recordId}`}))`);
+      
+      if (resolution === 'client_wins') {
+        const current = await this.findRecord(tx, tenantId, conflict.entity, conflict.recordId);
+        if (!current || current.deletedAt) {
+          throw createApiError('NOT_FOUND', { recordId: conflict.recordId });
+        }
+        const applied = await this.applyChange(tx, userId, tenantId, conflict.entity, {
+          id: conflict.recordId,
+          action: conflict.action as SyncChange['action'],
+          data: conflict.payload,
+        });
+        if ('error' in applied) {
+          throw createApiError('VALIDATION_ERROR', { conflictId, error: applied.error });
+        }
+        written.push(applied.record);
+      }
+      
+      const now = new Date();
+      const [resolved] = await tx.update(mobileSyncChanges).set({
+        status: resolution === 'client_wins' ? 'processed' : 'conflict',
+        resolution,
+        resolvedBy: userId,
+        resolvedAt: now,
+        updatedAt: now,
+      }).where(eq(mobileSyncChanges.id, conflict.id)).returning();
+      
+      return resolved;
+    });
     
-    return 'server_wins';
+    if (isSyncEntity(resolved.entity)) {
+      for (const record of written) this.publishChange(tenantId, resolved.entity, resolved.action as SyncChange['action'], record);
+    }
+    return resolved;
   }
   
+  /**
+   * One page of the entity's change feed after `since`, ordered by
+   * (updatedAt, id) so that rows sharing a timestamp are not skipped.
+   */
   private static async getServerChanges(
     tenantId: string,
-    entity: string,
-    since: Date
-  ): Promise<SyncResponse['changes']> {
-    // Would fetch from database
-    // return await database.getChanges(tenantId, entity, since);
-    return [];
+    entity: SyncEntity,
+    since: SyncPosition
+  ): Promise<{ changes: SyncResponse['changes']; position: SyncPosition; hasMore: boolean }> {
+    const { table } = SYNC_TABLES[entity];
+    const rows = await db.select().from(table)
+      .where(and(
+        eq(table.tenantId, tenantId),
+        or(
+          gt(table.updatedAt, since.updatedAt),
+          and(eq(table.updatedAt, since.updatedAt), gt(table.id, since.id)),
+        ),
+      ))
+      .orderBy(asc(table.updatedAt), asc(table.id))
+      .limit(SYNC_PAGE_SIZE + 1) as SyncRecord[];
+    
+    const page = rows.slice(0, SYNC_PAGE_SIZE);
+    const last = page[page.length - 1];
+    
+    return {
+      changes: page.map(row => ({
+        id: row.id,
+        action: changeFeedAction(row, since),
+        data: row,
+        timestamp: row.updatedAt?.getTime() ?? 0,
+      })),
+      position: last?.updatedAt ? { updatedAt: last.updatedAt, id: last.id } : since,
+      hasMore: rows.length > SYNC_PAGE_SIZE,
+    };
   }
   
   private static computeChecksum(data: any[]): string {
@@ -702,10 +1035,11 @@ router.get('/devices', mobileAuthMiddleware, async (req: Request, res: Response,
   try {
     const { userId } = req.mobileAuth!;
     
-    // Get user's devices (would fetch from database)
-    const devices: Partial<MobileDevice>[] = [];
+    const devices = await deviceRegistry.listForUser(userId);
     
-    res.json({ devices });
+    res.json({
+      devices: devices.map(({ pushToken, ...device }) => ({ ...device, hasPushToken: !!pushToken })),
+    });
   } catch (error) {
     next(error);
   }
@@ -716,8 +1050,10 @@ router.delete('/devices/:deviceId', mobileAuthMiddleware, async (req: Request, r
     const { deviceId } = req.params;
     const { userId } = req.mobileAuth!;
     
-    // Revoke device (would update database)
-    // await deviceService.revoke(userId, deviceId);
+    const revoked = await deviceRegistry.revoke(userId, deviceId);
+    if (!revoked) {
+      return res.status(404).json(createApiError('NOT_FOUND', { deviceId }));
+    }
     
     res.json({ success: true });
   } catch (error) {
@@ -728,10 +1064,13 @@ router.delete('/devices/:deviceId', mobileAuthMiddleware, async (req: Request, r
 // ==================== Push Notifications ====================
 
 const registerDeviceSchema = z.object({
-  token: z.string(),
+  token: z.string().min(1),
   platform: z.enum(['ios', 'android']),
   deviceId: z.string(),
   deviceName: z.string(),
+  provider: z.enum(['fcm', 'apns']).optional(),
+  appVersion: z.string().optional(),
+  osVersion: z.string().optional(),
 });
 
 router.post('/notifications/devices', mobileAuthMiddleware, async (req: Request, res: Response, next: NextFunction) => {
@@ -739,10 +1078,19 @@ router.post('/notifications/devices', mobileAuthMiddleware, async (req: Request,
     const data = registerDeviceSchema.parse(req.body);
     const { userId, tenantId } = req.mobileAuth!;
     
-    // Register push token (would save to database)
-    // await notificationService.registerDevice(userId, tenantId, data);
+    const device = await deviceRegistry.register({
+      tenantId,
+      userId,
+      platform: data.platform,
+      pushToken: data.token,
+      deviceId: data.deviceId,
+      deviceName: data.deviceName,
+      provider: data.provider,
+      appVersion: data.appVersion,
+      osVersion: data.osVersion,
+    });
     
-    res.json({ success: true });
+    res.json({ success: true, deviceId: device.deviceId });
   } catch (error) {
     next(error);
   }
@@ -753,8 +1101,7 @@ router.delete('/notifications/devices/:token', mobileAuthMiddleware, async (req:
     const { token } = req.params;
     const { userId } = req.mobileAuth!;
     
-    // Unregister push token (would delete from database)
-    // await notificationService.unregisterDevice(userId, token);
+    await deviceRegistry.unregisterToken(userId, token);
     
     res.json({ success: true });
   } catch (error) {
@@ -765,15 +1112,26 @@ router.delete('/notifications/devices/:token', mobileAuthMiddleware, async (req:
 // ==================== Sync Endpoints ====================
 
 const syncRequestSchema = z.object({
-  entity: z.string(),
+  entity: z.enum(SYNC_ENTITIES),
   lastSyncedAt: z.string().nullable(),
   clientVersion: z.number(),
+  cursor: z.string().nullable().optional(),
+  conflictResolution: z.enum(SYNC_CONFLICT_STRATEGIES).optional(),
   pendingChanges: z.array(z.object({
     id: z.string(),
     action: z.enum(['create', 'update', 'delete']),
     data: z.any(),
     timestamp: z.number(),
-  })),
+    baseUpdatedAt: z.string().nullable().optional(),
+  })).max(SYNC_PAGE_SIZE),
+});
+
+const syncBatchSchema = z.object({
+  entities: z.array(syncRequestSchema).max(SYNC_ENTITIES.length),
+});
+
+const resolveConflictSchema = z.object({
+  resolution: z.enum(['client_wins', 'server_wins']),
 });
 
 router.post('/sync', mobileAuthMiddleware, createRateLimiter('sync'), async (req: Request, res: Response, next: NextFunction) => {
@@ -791,7 +1149,7 @@ router.post('/sync', mobileAuthMiddleware, createRateLimiter('sync'), async (req
 
 router.post('/sync/batch', mobileAuthMiddleware, createRateLimiter('sync'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { entities } = req.body as { entities: SyncRequest[] };
+    const { entities } = syncBatchSchema.parse(req.body);
     const { userId, tenantId, deviceId } = req.mobileAuth!;
     
     const results = await Promise.all(
@@ -804,6 +1162,32 @@ router.post('/sync/batch', mobileAuthMiddleware, createRateLimiter('sync'), asyn
   }
 });
 
+router.get('/sync/conflicts', mobileAuthMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { userId, tenantId } = req.mobileAuth!;
+    const entity = typeof req.query.entity === 'string' ? req.query.entity : undefined;
+    
+    const conflicts = await SyncManager.listConflicts(tenantId, userId, entity);
+    
+    res.json({ conflicts });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/sync/conflicts/:id/resolve', mobileAuthMiddleware, createRateLimiter('sync'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { resolution } = resolveConflictSchema.parse(req.body);
+    const { userId, tenantId } = req.mobileAuth!;
+    
+    const conflict = await SyncManager.resolveManualConflict(tenantId, userId, req.params.id, resolution);
+    
+    res.json({ conflict });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ==================== Health & Status ====================
 
 router.get('/health', (req: Request, res: Response) => {
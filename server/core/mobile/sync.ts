@@ -0,0 +1,128 @@
+/**
+ * Offline sync rules shared by the SyncManager.
+ *
+ * Each device keeps a cursor per entity: the (updatedAt, id) position of the
+ * last server row it received. Client edits carry the updatedAt they were
+ * based on, so a row changed on the server since then is a conflict that is
+ * settled by the entity's conflict strategy.
+ */
+
+export const SYNC_ENTITIES = ["customers", "bookings", "invoices", "attendance"] as const;
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+export const SYNC_CONFLICT_STRATEGIES = ["last_write_wins", "client_wins", "server_wins", "manual"] as const;
+export type SyncConflictStrategy = typeof SYNC_CONFLICT_STRATEGIES[number];
+
+export type SyncResolution = "client_wins" | "server_wins" | "manual";
+
+// Invoices are financial records, so offline edits never overwrite them silently
+export const DEFAULT_CONFLICT_STRATEGY: Record<SyncEntity, SyncConflictStrategy> = {
+  customers: "last_write_wins",
+  bookings: "last_write_wins",
+  invoices: "manual",
+  attendance: "last_write_wins",
+};
+
+export const SYNC_PAGE_SIZE = 100;
+
+export interface SyncPosition {
+  updatedAt: Date;
+  id: string;
+}
+
+export interface SyncClientChange {
+  action: "create" | "update" | "delete";
+  timestamp: number;
+  baseUpdatedAt?: string | null;
+}
+
+export function isSyncEntity(entity: string): entity is SyncEntity {
+  return (SYNC_ENTITIES as readonly string[]).includes(entity);
+}
+
+/**
+ * The server version an edit was based on: the row's updatedAt as the device
+ * last saw it, or the time of the edit for clients that do not send one.
+ */
+export function changeBaseTime(change: SyncClientChange): number {
+  if (change.baseUpdatedAt) {
+    const base = new Date(change.baseUpdatedAt).getTime();
+    if (!Number.isNaN(base)) return base;
+  }
+  return change.timestamp;
+}
+
+/**
+ * A client update or delete conflicts when the server row was modified after
+ * the version the edit was based on. Creates never conflict.
+ */
+export function detectConflict(serverUpdatedAt: Date | null, change: SyncClientChange): boolean {
+  if (change.action === "create" || !serverUpdatedAt) return false;
+  return serverUpdatedAt.getTime() > changeBaseTime(change);
+}
+
+export function resolveConflict(
+  strategy: SyncConflictStrategy,
+  change: SyncClientChange,
+  serverUpdatedAt: Date | null,
+): SyncResolution {
+  switch (strategy) {
+    case "client_wins":
+      return "client_wins";
+    case "server_wins":
+      return "server_wins";
+    case "manual":
+      return "manual";
+    case "last_write_wins":
+      return change.timestamp > (serverUpdatedAt?.getTime() ?? 0) ? "client_wins" : "server_wins";
+  }
+}
+
+export function encodeSyncCursor(position: SyncPosition): string {
+  return Buffer.from(`${position.updatedAt.toISOString()}|${position.id}`).toString("base64url");
+}
+
+export function decodeSyncCursor(cursor: string): SyncPosition | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const separator = decoded.indexOf("|");
+  if (separator === -1) return null;
+
+  const updatedAt = new Date(decoded.slice(0, separator));
+  if (Number.isNaN(updatedAt.getTime())) return null;
+
+  return { updatedAt, id: decoded.slice(separator + 1) };
+}
+
+/**
+ * Where the change feed starts. A client without a lastSyncedAt has no local
+ * data and gets a full resync; otherwise an explicit page cursor wins over
+ * the device's stored cursor, which wins over the client's own timestamp.
+ */
+export function syncStartPosition(options: {
+  cursor?: string | null;
+  lastSyncedAt: string | null;
+  stored?: SyncPosition | null;
+}): SyncPosition {
+  const fullResync = { updatedAt: new Date(0), id: "" };
+  if (!options.lastSyncedAt && !options.cursor) return fullResync;
+
+  const fromCursor = options.cursor ? decodeSyncCursor(options.cursor) : null;
+  if (fromCursor) return fromCursor;
+  if (options.stored) return options.stored;
+
+  const since = options.lastSyncedAt ? new Date(options.lastSyncedAt) : null;
+  return since && !Number.isNaN(since.getTime()) ? { updatedAt: since, id: "" } : fullResync;
+}
+
+/**
+ * How a server row appears in the change feed: soft-deleted rows are sent as
+ * deletes, rows created after the feed position as creates.
+ */
+export function changeFeedAction(
+  row: { createdAt: Date | null; deletedAt: Date | null },
+  since: SyncPosition,
+): "create" | "update" | "delete" {
+  if (row.deletedAt) return "delete";
+  if (row.createdAt && row.createdAt.getTime() > since.updatedAt.getTime()) return "create";
+  return "update";
+}
@@ -0,0 +1,16 @@
+/**
+ * Furniture MRP
+ *
+ * Material requirements planning for furniture production:
+ * - Multi-level BOM explosion through sub-assemblies
+ * - Demand from open sales orders and unfinished production orders
+ * - Netting against free stock and incoming purchase orders, with shortage dates
+ * - Material reservation when a production order is released
+ * - Stage-by-stage back-flushing of reserved materials
+ *
+ * @module server/core/mrp
+ */
+
+export * from "./planning";
+export { mrpService } from "./mrp-service";
+export { mrpRouter } from "./mrp-routes";
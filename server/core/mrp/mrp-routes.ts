@@ -0,0 +1,91 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { MrpError } from "./planning";
+import { mrpService } from "./mrp-service";
+
+export const mrpRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const planQuerySchema = z.object({
+  asOf: dateString.optional(),
+});
+
+function sendMrpError(res: Response, error: any) {
+  if (error instanceof MrpError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+// ==================== PLANNING ====================
+
+mrpRouter.get("/plan", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = planQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await mrpService.getPlan(isolation.getTenantId(), parsed.data.asOf));
+  } catch (error: any) {
+    sendMrpError(res, error);
+  }
+});
+
+mrpRouter.get("/shortages", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = planQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await mrpService.getShortages(isolation.getTenantId(), parsed.data.asOf));
+  } catch (error: any) {
+    sendMrpError(res, error);
+  }
+});
+
+// ==================== PRODUCTION ORDERS ====================
+
+mrpRouter.get("/production-orders/:id/requirements", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await mrpService.getOrderRequirements(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendMrpError(res, error);
+  }
+});
+
+mrpRouter.post("/production-orders/:id/release", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const requirements = await mrpService.releaseOrder(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "production_order",
+      resourceId: requirements.productionOrderId,
+      metadata: {
+        event: "materials_reserved",
+        shortLines: requirements.lines.filter((line) => line.shortfall > 0).length,
+      },
+    });
+
+    res.json(requirements);
+  } catch (error: any) {
+    sendMrpError(res, error);
+  }
+});
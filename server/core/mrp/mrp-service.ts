@@ -0,0 +1,769 @@
+import { db } from "../../db";
+import {
+  billOfMaterials,
+  bomComponents,
+  furnitureProducts,
+  furnitureSalesOrderItems,
+  furnitureSalesOrders,
+  materialReservations,
+  productionOrders,
+  productionStages,
+  purchaseOrderLines,
+  purchaseOrders,
+  rawMaterialStockMovements,
+  rawMaterials,
+  type ConfiguredBomLine,
+  type FurnitureProduct,
+  type InsertProductionOrder,
+  type MaterialReservation,
+  type ProductionOrder,
+  type ProductionStage,
+  type RawMaterial,
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import {
+  MrpError,
+  OPEN_SALES_ORDER_STATUSES,
+  allocate,
+  allocateFinishedStock,
+  backflushStages,
+  explodeBom,
+  needByDate,
+  projectMaterial,
+  usesProduct,
+  type BomLookup,
+  type DatedQuantity,
+  type MaterialProjection,
+  type MaterialRequirement,
+  type ProductBom,
+  type StageType,
+} from "./planning";
+import { amount, money, round4 } from "../../utils/money";
+import { today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = Transaction | typeof db;
+
+// Production orders whose materials are still to be used
+const PLANNABLE_ORDER_STATUSES: NonNullable<ProductionOrder["status"]>[] = ["draft", "pending", "in_progress", "on_hold"];
+
+// Production orders released to the floor, whose materials are held for them
+const RELEASED_ORDER_STATUSES: NonNullable<ProductionOrder["status"]>[] = ["pending", "in_progress", "on_hold"];
+
+// Purchase orders that count as firm incoming supply
+const INCOMING_ORDER_STATUSES = ["approved", "partially_received"] as const;
+
+type PlanProduct = Pick<FurnitureProduct, "id" | "name" | "productType" | "currentStock" | "manufacturingLeadTime" | "defaultBomId">;
+
+interface BomCatalog {
+  products: Map<string, PlanProduct>;
+  bomById: Map<string, ProductBom>;
+  bomFor: BomLookup;
+  // BOMs of configured sales order items, by the production order making them
+  configuredBoms: Map<string, ProductBom>;
+}
+
+export interface ReservationLine {
+  id: string | null;
+  rawMaterialId: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string;
+  stageType: StageType | null;
+  requiredQuantity: number;
+  reservedQuantity: number;
+  consumedQuantity: number;
+  shortfall: number;
+  status: MaterialReservation["status"] | "planned";
+}
+
+export interface OrderRequirements {
+  productionOrderId: string;
+  orderNumber: string;
+  status: ProductionOrder["status"];
+  released: boolean;
+  lines: ReservationLine[];
+}
+
+export interface MaterialPlan extends MaterialProjection {
+  rawMaterialId: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string;
+  preferredSupplierId: string | null;
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export interface ProductionRequirement {
+  salesOrderId: string;
+  orderNumber: string;
+  salesOrderItemId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  fromStock: number;
+  toMake: number;
+  needBy: string;
+}
+
+export interface MrpPlan {
+  asOf: string;
+  materials: MaterialPlan[];
+  production: ProductionRequirement[];
+  // Demand for products with no bill of materials, which cannot be planned down to materials
+  unplanned: Array<{ productId: string; productName: string; quantity: number; reference: DatedQuantity["reference"] }>;
+}
+
+// A configured item's BOM is per unit of the item
+function configuredBom(products: Map<string, PlanProduct>, productId: string, lines: ConfiguredBomLine[]): ProductBom {
+  return {
+    productId,
+    productName: products.get(productId)?.name ?? productId,
+    yieldQuantity: 1,
+    lines: lines.map((line) => ({
+      ...line,
+      componentName: line.componentProductId ? products.get(line.componentProductId)?.name ?? line.componentProductId : "",
+    })),
+  };
+}
+
+class MrpService {
+  private async lock(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`mrp:${tenantId}`}))`);
+  }
+
+  // ==================== BILLS OF MATERIALS ====================
+
+  /**
+   * Every active BOM of the tenant, keyed for explosion. A product builds
+   * from its default BOM, else its primary one, else its latest version.
+   */
+  private async loadCatalog(executor: Executor, tenantId: string): Promise<BomCatalog> {
+    const productRows = await executor.select({
+      id: furnitureProducts.id,
+      name: furnitureProducts.name,
+      productType: furnitureProducts.productType,
+      currentStock: furnitureProducts.currentStock,
+      manufacturingLeadTime: furnitureProducts.manufacturingLeadTime,
+      defaultBomId: furnitureProducts.defaultBomId,
+    }).from(furnitureProducts)
+      .where(and(eq(furnitureProducts.tenantId, tenantId), isNull(furnitureProducts.deletedAt)));
+    const products = new Map(productRows.map((product) => [product.id, product]));
+
+    const boms = await executor.select().from(billOfMaterials)
+      .where(and(
+        eq(billOfMaterials.tenantId, tenantId),
+        isNull(billOfMaterials.deletedAt),
+        sql`${billOfMaterials.isActive} IS NOT FALSE`,
+      ));
+    const components = boms.length
+      ? await executor.select().from(bomComponents).where(inArray(bomComponents.bomId, boms.map((bom) => bom.id)))
+      : [];
+
+    const bomById = new Map<string, ProductBom>();
+    for (const bom of boms) {
+      const lines = components
+        .filter((component) => component.bomId === bom.id)
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+        .map((component) => ({
+          rawMaterialId: component.rawMaterialId,
+          componentProductId: component.componentProductId,
+          componentName: component.componentProductId
+            ? products.get(component.componentProductId)?.name ?? component.componentProductId
+            : "",
+          quantity: amount(component.quantity),
+          wastePercent: amount(component.wastePercentage),
+          consumptionStage: component.consumptionStage,
+        }));
+      bomById.set(bom.id, {
+        productId: bom.productId,
+        productName: products.get(bom.productId)?.name ?? bom.name,
+        yieldQuantity: bom.yieldQuantity ?? 1,
+        lines,
+      });
+    }
+
+    const chosen = new Map<string, string>();
+    const ranked = [...boms].sort((a, b) => Number(!!b.isPrimary) - Number(!!a.isPrimary) || (b.version ?? 1) - (a.version ?? 1));
+    for (const bom of ranked) {
+      if (!chosen.has(bom.productId)) chosen.set(bom.productId, bom.id);
+    }
+    for (const product of productRows) {
+      const preferred = product.defaultBomId ? bomById.get(product.defaultBomId) : undefined;
+      if (preferred?.productId === product.id) chosen.set(product.id, product.defaultBomId!);
+    }
+
+    const configuredItems = await executor.select({
+      productId: furnitureSalesOrderItems.productId,
+      productionOrderId: furnitureSalesOrderItems.productionOrderId,
+      configuredBom: furnitureSalesOrderItems.configuredBom,
+    }).from(furnitureSalesOrderItems)
+      .innerJoin(furnitureSalesOrders, eq(furnitureSalesOrders.id, furnitureSalesOrderItems.salesOrderId))
+      .where(and(
+        eq(furnitureSalesOrders.tenantId, tenantId),
+        isNotNull(furnitureSalesOrderItems.productionOrderId),
+        isNotNull(furnitureSalesOrderItems.configuredBom),
+      ));
+    const configuredBoms = new Map<string, ProductBom>();
+    for (const item of configuredItems) {
+      if (!item.productId || !item.productionOrderId || !item.configuredBom) continue;
+      configuredBoms.set(item.productionOrderId, configuredBom(products, item.productId, item.configuredBom));
+    }
+
+    return {
+      products,
+      bomById,
+      bomFor: (productId) => {
+        const bomId = chosen.get(productId);
+        return bomId ? bomById.get(bomId) : undefined;
+      },
+      configuredBoms,
+    };
+  }
+
+  // An order making a configured item builds to the item's BOM
+  private orderBom(catalog: BomCatalog, order: Pick<ProductionOrder, "id" | "bomId" | "productId">): ProductBom | undefined {
+    return catalog.configuredBoms.get(order.id)
+      ?? (order.bomId ? catalog.bomById.get(order.bomId) : undefined)
+      ?? catalog.bomFor(order.productId);
+  }
+
+  /**
+   * The BOM a product builds to, which configurations adjust; undefined
+   * when the product has no active bill of materials.
+   */
+  async productBom(tenantId: string, productId: string): Promise<ProductBom | undefined> {
+    return (await this.loadCatalog(db, tenantId)).bomFor(productId);
+  }
+
+  /**
+   * Checks a BOM component before it is saved: it must be exactly one of a
+   * raw material or a sub-assembly, and a sub-assembly may not be built,
+   * at any depth, from the product the BOM makes.
+   */
+  async validateComponent(
+    tenantId: string,
+    bomId: string,
+    changes: { rawMaterialId?: string | null; componentProductId?: string | null },
+    componentId?: string,
+  ): Promise<void> {
+    const [bom] = await db.select().from(billOfMaterials)
+      .where(and(eq(billOfMaterials.id, bomId), eq(billOfMaterials.tenantId, tenantId), isNull(billOfMaterials.deletedAt)));
+    if (!bom) throw new MrpError(404, "BOM not found");
+
+    let rawMaterialId = changes.rawMaterialId ?? null;
+    let componentProductId = changes.componentProductId ?? null;
+    if (componentId) {
+      const [existing] = await db.select().from(bomComponents)
+        .where(and(eq(bomComponents.id, componentId), eq(bomComponents.bomId, bomId)));
+      if (!existing) throw new MrpError(404, "BOM component not found");
+      if (changes.rawMaterialId === undefined) rawMaterialId = existing.rawMaterialId;
+      if (changes.componentProductId === undefined) componentProductId = existing.componentProductId;
+    }
+    if (!rawMaterialId === !componentProductId) {
+      throw new MrpError(400, "A BOM component must be either a raw material or a sub-assembly product");
+    }
+
+    if (rawMaterialId) {
+      const [material] = await db.select({ id: rawMaterials.id }).from(rawMaterials)
+        .where(and(eq(rawMaterials.id, rawMaterialId), eq(rawMaterials.tenantId, tenantId), isNull(rawMaterials.deletedAt)));
+      if (!material) throw new MrpError(400, "Raw material not found");
+      return;
+    }
+
+    const catalog = await this.loadCatalog(db, tenantId);
+    const component = catalog.products.get(componentProductId!);
+    if (!component) throw new MrpError(400, "Sub-assembly product not found");
+    if (usesProduct(component.id, bom.productId, catalog.bomFor)) {
+      const product = catalog.products.get(bom.productId);
+      throw new MrpError(422, `"${component.name}" is built from "${product?.name ?? bom.name}", so it cannot also be one of its components`);
+    }
+  }
+
+  // ==================== RESERVATIONS ====================
+
+  // Reserved and not yet consumed, per raw material
+  private async reservedByMaterial(executor: Executor, tenantId: string, materialIds?: string[]): Promise<Map<string, number>> {
+    if (materialIds && !materialIds.length) return new Map();
+    const rows = await executor.select({
+      rawMaterialId: materialReservations.rawMaterialId,
+      reserved: sql<string>`SUM(${materialReservations.reservedQuantity})`,
+    }).from(materialReservations)
+      .where(and(
+        eq(materialReservations.tenantId, tenantId),
+        eq(materialReservations.status, "active"),
+        materialIds ? inArray(materialReservations.rawMaterialId, materialIds) : undefined,
+      ))
+      .groupBy(materialReservations.rawMaterialId);
+    return new Map(rows.map((row) => [row.rawMaterialId, amount(row.reserved)]));
+  }
+
+  private async loadMaterials(executor: Executor, tenantId: string, ids: string[]): Promise<Map<string, RawMaterial>> {
+    if (!ids.length) return new Map();
+    const rows = await executor.select().from(rawMaterials)
+      .where(and(eq(rawMaterials.tenantId, tenantId), inArray(rawMaterials.id, ids)));
+    return new Map(rows.map((material) => [material.id, material]));
+  }
+
+  // Stock on hand that no released order has set aside yet
+  private async freeStock(executor: Executor, tenantId: string, materialIds: string[]): Promise<Map<string, number>> {
+    const [materials, reserved] = await Promise.all([
+      this.loadMaterials(executor, tenantId, materialIds),
+      this.reservedByMaterial(executor, tenantId, materialIds),
+    ]);
+    return new Map(materialIds.map((id) => [id, round4(amount(materials.get(id)?.currentStock) - (reserved.get(id) ?? 0))]));
+  }
+
+  private async findOrder(executor: Executor, tenantId: string, orderId: string): Promise<ProductionOrder> {
+    const [order] = await executor.select().from(productionOrders)
+      .where(and(eq(productionOrders.id, orderId), eq(productionOrders.tenantId, tenantId), isNull(productionOrders.deletedAt)));
+    if (!order) throw new MrpError(404, "Production order not found");
+    return order;
+  }
+
+  private async orderReservations(executor: Executor, orderId: string): Promise<MaterialReservation[]> {
+    return executor.select().from(materialReservations)
+      .where(eq(materialReservations.productionOrderId, orderId))
+      .orderBy(materialReservations.createdAt);
+  }
+
+  private async describe(executor: Executor, tenantId: string, order: ProductionOrder, rows: Array<Omit<ReservationLine, "sku" | "name" | "unitOfMeasure" | "shortfall">>): Promise<OrderRequirements> {
+    const materials = await this.loadMaterials(executor, tenantId, Array.from(new Set(rows.map((row) => row.rawMaterialId))));
+    return {
+      productionOrderId: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      released: rows.some((row) => row.status !== "planned"),
+      lines: rows.map((row) => {
+        const material = materials.get(row.rawMaterialId);
+        return {
+          ...row,
+          sku: material?.sku ?? "",
+          name: material?.name ?? "",
+          unitOfMeasure: material?.unitOfMeasure ?? "",
+          shortfall: row.status === "active" || row.status === "planned" ? round4(row.requiredQuantity - row.reservedQuantity) : 0,
+        };
+      }),
+    };
+  }
+
+  private toLine(row: MaterialReservation): Omit<ReservationLine, "sku" | "name" | "unitOfMeasure" | "shortfall"> {
+    return {
+      id: row.id,
+      rawMaterialId: row.rawMaterialId,
+      stageType: row.stageType,
+      requiredQuantity: amount(row.requiredQuantity),
+      reservedQuantity: amount(row.reservedQuantity),
+      consumedQuantity: amount(row.consumedQuantity),
+      status: row.status,
+    };
+  }
+
+  /**
+   * What a production order needs: its reservations once released, or
+   * otherwise the BOM explosion with what free stock could cover today.
+   */
+  async getOrderRequirements(tenantId: string, orderId: string): Promise<OrderRequirements> {
+    const order = await this.findOrder(db, tenantId, orderId);
+    const rows = await this.orderReservations(db, order.id);
+    if (rows.length) return this.describe(db, tenantId, order, rows.map((row) => this.toLine(row)));
+
+    const requirements = this.explodeOrder(await this.loadCatalog(db, tenantId), order);
+    const free = await this.freeStock(db, tenantId, Array.from(new Set(requirements.map((requirement) => requirement.rawMaterialId))));
+    return this.describe(db, tenantId, order, allocate(requirements, free).map((requirement) => ({
+      id: null,
+      rawMaterialId: requirement.rawMaterialId,
+      stageType: requirement.stageType,
+      requiredQuantity: requirement.quantity,
+      reservedQuantity: requirement.reserved,
+      consumedQuantity: 0,
+      status: "planned" as const,
+    })));
+  }
+
+  // Orders without a BOM make bought-in products and need no materials
+  private explodeOrder(catalog: BomCatalog, order: ProductionOrder): MaterialRequirement[] {
+    const bom = this.orderBom(catalog, order);
+    if (!bom) return [];
+    const remaining = Math.max(order.quantity - (order.completedQuantity ?? 0), 0);
+    return explodeBom(bom, remaining, catalog.bomFor);
+  }
+
+  /**
+   * Sets aside free stock for an order's materials. The first release fixes
+   * the order's requirements from its BOM; releasing again only tops up
+   * reservations that free stock could not fully cover before.
+   */
+  private async reserveInTx(tx: Transaction, tenantId: string, order: ProductionOrder): Promise<MaterialReservation[]> {
+    const existing = await this.orderReservations(tx, order.id);
+    if (!existing.length) {
+      const requirements = this.explodeOrder(await this.loadCatalog(tx, tenantId), order);
+      if (!requirements.length) return [];
+      const free = await this.freeStock(tx, tenantId, Array.from(new Set(requirements.map((requirement) => requirement.rawMaterialId))));
+      return tx.insert(materialReservations).values(allocate(requirements, free).map((requirement) => ({
+        tenantId,
+        productionOrderId: order.id,
+        rawMaterialId: requirement.rawMaterialId,
+        stageType: requirement.stageType,
+        requiredQuantity: String(requirement.quantity),
+        reservedQuantity: String(requirement.reserved),
+      }))).returning();
+    }
+
+    const short = existing.filter((row) => row.status === "active" && amount(row.reservedQuantity) < amount(row.requiredQuantity));
+    if (!short.length) return existing;
+    const free = await this.freeStock(tx, tenantId, Array.from(new Set(short.map((row) => row.rawMaterialId))));
+    const topUps = allocate(short.map((row) => ({
+      row,
+      rawMaterialId: row.rawMaterialId,
+      quantity: round4(amount(row.requiredQuantity) - amount(row.reservedQuantity)),
+    })), free);
+    for (const { row, reserved } of topUps) {
+      if (!reserved) continue;
+      await tx.update(materialReservations)
+        .set({ reservedQuantity: String(round4(amount(row.reservedQuantity) + reserved)), updatedAt: new Date() })
+        .where(eq(materialReservations.id, row.id));
+    }
+    return this.orderReservations(tx, order.id);
+  }
+
+  /**
+   * Releases a production order to the floor: reserves its materials and
+   * moves a draft order to pending. Materials free stock cannot cover are
+   * left as shortfalls for planning to chase.
+   */
+  async releaseOrder(tenantId: string, orderId: string): Promise<OrderRequirements> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      let order = await this.findOrder(tx, tenantId, orderId);
+      if (order.status === "completed" || order.status === "cancelled") {
+        throw new MrpError(409, `Production order is ${order.status}`);
+      }
+      const rows = await this.reserveInTx(tx, tenantId, order);
+      if (order.status === "draft") {
+        [order] = await tx.update(productionOrders)
+          .set({ status: "pending", updatedAt: new Date() })
+          .where(eq(productionOrders.id, order.id))
+          .returning();
+      }
+      return this.describe(tx, tenantId, order, rows.map((row) => this.toLine(row)));
+    });
+  }
+
+  // Uses up reservations, taking any shortfall from free stock; refuses if stock cannot cover it
+  private async consume(tx: Transaction, tenantId: string, userId: string | undefined, order: ProductionOrder, rows: MaterialReservation[], note: string): Promise<MaterialReservation[]> {
+    if (!rows.length) return [];
+    const byMaterial = new Map<string, MaterialReservation[]>();
+    for (const row of rows) byMaterial.set(row.rawMaterialId, [...(byMaterial.get(row.rawMaterialId) ?? []), row]);
+
+    const materialIds = Array.from(byMaterial.keys());
+    const [free, materials] = await Promise.all([
+      this.freeStock(tx, tenantId, materialIds),
+      this.loadMaterials(tx, tenantId, materialIds),
+    ]);
+    const short: string[] = [];
+    for (const [materialId, materialRows] of byMaterial) {
+      const shortfall = round4(materialRows.reduce((sum, row) => sum + amount(row.requiredQuantity) - amount(row.reservedQuantity), 0));
+      const missing = round4(shortfall - Math.max(free.get(materialId) ?? 0, 0));
+      if (missing > 0) {
+        const material = materials.get(materialId);
+        short.push(`${missing} ${material?.unitOfMeasure ?? "units"} of ${material?.name ?? materialId}`);
+      }
+    }
+    if (short.length) throw new MrpError(409, `Not enough stock to back-flush: short of ${short.join(", ")}`);
+
+    const consumed: MaterialReservation[] = [];
+    for (const [materialId, materialRows] of byMaterial) {
+      const quantity = round4(materialRows.reduce((sum, row) => sum + amount(row.requiredQuantity), 0));
+      const [material] = await tx.update(rawMaterials)
+        .set({ currentStock: sql`COALESCE(${rawMaterials.currentStock}, 0) - ${String(quantity)}`, updatedAt: new Date() })
+        .where(eq(rawMaterials.id, materialId))
+        .returning();
+      const unitCost = amount(material.unitCost);
+      const [movement] = await tx.insert(rawMaterialStockMovements).values({
+        tenantId,
+        rawMaterialId: materialId,
+        movementType: "out",
+        quantity: String(quantity),
+        balanceAfter: material.currentStock ?? "0",
+        referenceType: "production_order",
+        referenceId: order.id,
+        unitCost: material.unitCost,
+        totalCost: money(quantity * unitCost),
+        notes: `${note} on ${order.orderNumber}`,
+        createdBy: userId,
+      }).returning();
+      consumed.push(...await tx.update(materialReservations)
+        .set({ status: "consumed", consumedQuantity: sql`${materialReservations.requiredQuantity}`, stockMovementId: movement.id, updatedAt: new Date() })
+        .where(inArray(materialReservations.id, materialRows.map((row) => row.id)))
+        .returning());
+    }
+    return consumed;
+  }
+
+  private async releaseRows(tx: Transaction, rows: MaterialReservation[]): Promise<MaterialReservation[]> {
+    if (!rows.length) return [];
+    return tx.update(materialReservations)
+      .set({ status: "released", updatedAt: new Date() })
+      .where(inArray(materialReservations.id, rows.map((row) => row.id)))
+      .returning();
+  }
+
+  /**
+   * Back-flushes the materials a stage uses as it is completed, reserving
+   * them first if the order was never released. Skipping a stage hands its
+   * reservations back instead. Called before the stage itself is updated,
+   * so a stock shortfall blocks the status change.
+   */
+  async backflushStage(
+    tenantId: string,
+    userId: string | undefined,
+    orderId: string,
+    stageId: string,
+    status: "completed" | "skipped",
+  ): Promise<{ consumed: MaterialReservation[]; released: MaterialReservation[] }> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, orderId);
+      const stages: ProductionStage[] = await tx.select().from(productionStages).where(eq(productionStages.productionOrderId, order.id));
+      const stage = stages.find((candidate) => candidate.id === stageId);
+      if (!stage) throw new MrpError(404, "Production stage not found");
+      if (stage.status === status) return { consumed: [], released: [] };
+
+      if (status === "skipped") {
+        const rows = await this.orderReservations(tx, order.id);
+        return { consumed: [], released: await this.releaseRows(tx, rows.filter((row) => row.status === "active" && row.stageType === stage.stageType)) };
+      }
+
+      const rows = await this.reserveInTx(tx, tenantId, order);
+      const firstCompletion = !stages.some((candidate) => candidate.id !== stage.id && candidate.status === "completed");
+      const stageTypes = backflushStages(stage.stageType, firstCompletion);
+      const due = rows.filter((row) => row.status === "active" && stageTypes.includes(row.stageType));
+      const label = stage.stageType === "custom" && stage.customStageName ? stage.customStageName : stage.stageType.replace(/_/g, " ");
+      return { consumed: await this.consume(tx, tenantId, userId, order, due, `Back-flushed at ${label}`), released: [] };
+    });
+  }
+
+  // Completing reserves whatever was never reserved first, so an order that skipped release still back-flushes
+  private async closeInTx(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    order: ProductionOrder,
+    outcome: "completed" | "cancelled",
+  ): Promise<{ consumed: MaterialReservation[]; released: MaterialReservation[] }> {
+    if (outcome === "cancelled") {
+      const active = (await this.orderReservations(tx, order.id)).filter((row) => row.status === "active");
+      return { consumed: [], released: await this.releaseRows(tx, active) };
+    }
+    const active = (await this.reserveInTx(tx, tenantId, order)).filter((row) => row.status === "active");
+    return { consumed: await this.consume(tx, tenantId, userId, order, active, "Back-flushed at completion"), released: [] };
+  }
+
+  /**
+   * Settles an order's outstanding reservations when it closes: a completed
+   * order back-flushes whatever its stages did not, while a cancelled or
+   * deleted one hands everything back to free stock.
+   */
+  async closeOrder(
+    tenantId: string,
+    userId: string | undefined,
+    orderId: string,
+    outcome: "completed" | "cancelled",
+  ): Promise<{ consumed: MaterialReservation[]; released: MaterialReservation[] }> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      return this.closeInTx(tx, tenantId, userId, await this.findOrder(tx, tenantId, orderId), outcome);
+    });
+  }
+
+  /**
+   * Updates a production order together with the stock its new status
+   * implies: entering a released status reserves materials, completing
+   * back-flushes what is left and cancelling hands it back. A stock
+   * shortfall rolls the whole update back.
+   */
+  async updateOrder(
+    tenantId: string,
+    userId: string | undefined,
+    orderId: string,
+    changes: Partial<InsertProductionOrder>,
+  ): Promise<ProductionOrder> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const existing = await this.findOrder(tx, tenantId, orderId);
+      const [order] = await tx.update(productionOrders)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(productionOrders.id, existing.id))
+        .returning();
+
+      if (order.status && order.status !== existing.status) {
+        if (order.status === "completed" || order.status === "cancelled") {
+          await this.closeInTx(tx, tenantId, userId, order, order.status);
+        } else if (RELEASED_ORDER_STATUSES.includes(order.status)) {
+          await this.reserveInTx(tx, tenantId, order);
+        }
+      }
+      return order;
+    });
+  }
+
+  // ==================== PLANNING ====================
+
+  /**
+   * Material requirements for open sales orders and unfinished production
+   * orders. Sales demand is served from finished stock where it can be and
+   * exploded through BOMs otherwise; each material's need is then netted
+   * against free stock and incoming purchase orders in date order.
+   */
+  async getPlan(tenantId: string, asOf: string = today()): Promise<MrpPlan> {
+    const catalog = await this.loadCatalog(db, tenantId);
+    const demands = new Map<string, DatedQuantity[]>();
+    const addDemand = (requirement: { rawMaterialId: string; quantity: number }, date: string, reference: DatedQuantity["reference"]) => {
+      if (requirement.quantity <= 0) return;
+      demands.set(requirement.rawMaterialId, [...(demands.get(requirement.rawMaterialId) ?? []), { date, quantity: requirement.quantity, reference }]);
+    };
+    const unplanned: MrpPlan["unplanned"] = [];
+
+    // Production orders: released ones still need what their reservations fell short of
+    const orders = await db.select().from(productionOrders)
+      .where(and(eq(productionOrders.tenantId, tenantId), isNull(productionOrders.deletedAt)));
+    const reservations = await db.select().from(materialReservations)
+      .where(eq(materialReservations.tenantId, tenantId));
+    const released = new Set(reservations.map((row) => row.productionOrderId));
+    const plannable = orders.filter((order) => order.status && PLANNABLE_ORDER_STATUSES.includes(order.status));
+    for (const order of plannable) {
+      const date = order.scheduledStartDate ?? asOf;
+      const reference = { type: "production_order" as const, id: order.id, number: order.orderNumber };
+      if (released.has(order.id)) {
+        for (const row of reservations) {
+          if (row.productionOrderId !== order.id || row.status !== "active") continue;
+          addDemand({ rawMaterialId: row.rawMaterialId, quantity: round4(amount(row.requiredQuantity) - amount(row.reservedQuantity)) }, date, reference);
+        }
+        continue;
+      }
+      if (!this.orderBom(catalog, order)) {
+        unplanned.push({ productId: order.productId, productName: catalog.products.get(order.productId)?.name ?? "", quantity: order.quantity, reference });
+        continue;
+      }
+      for (const requirement of this.explodeOrder(catalog, order)) addDemand(requirement, date, reference);
+    }
+
+    // Sales orders: items already on a production order are planned through it
+    const onProductionOrder = new Set(orders.filter((order) => order.status !== "cancelled").map((order) => order.id));
+    const items = await db.select({
+      item: furnitureSalesOrderItems,
+      orderNumber: furnitureSalesOrders.orderNumber,
+      expectedDeliveryDate: furnitureSalesOrders.expectedDeliveryDate,
+    }).from(furnitureSalesOrderItems)
+      .innerJoin(furnitureSalesOrders, eq(furnitureSalesOrders.id, furnitureSalesOrderItems.salesOrderId))
+      .where(and(
+        eq(furnitureSalesOrders.tenantId, tenantId),
+        isNull(furnitureSalesOrders.deletedAt),
+        inArray(furnitureSalesOrders.status, OPEN_SALES_ORDER_STATUSES),
+      ));
+    const salesDemand = items.flatMap(({ item, orderNumber, expectedDeliveryDate }) => {
+      const product = item.productId ? catalog.products.get(item.productId) : undefined;
+      const quantity = item.quantity - (item.deliveredQuantity ?? 0);
+      if (!product || quantity <= 0) return [];
+      if (item.productionOrderId && onProductionOrder.has(item.productionOrderId)) return [];
+      const custom = item.customLength !== null || item.customWidth !== null || item.customHeight !== null || item.configuredBom !== null;
+      return [{
+        salesOrderId: item.salesOrderId,
+        orderNumber,
+        salesOrderItemId: item.id,
+        productId: product.id,
+        productName: product.name,
+        quantity,
+        needBy: needByDate(expectedDeliveryDate, product.manufacturingLeadTime, asOf),
+        fromStockAllowed: product.productType !== "made_to_order" && !custom,
+        configuredBom: item.configuredBom,
+      }];
+    });
+    const finishedStock = new Map(Array.from(catalog.products.values()).map((product) => [product.id, product.currentStock ?? 0]));
+    const allocated = allocateFinishedStock(salesDemand, finishedStock);
+    const production = allocated.map(({ fromStockAllowed: _, configuredBom: __, ...line }) => line);
+    for (const line of allocated) {
+      if (!line.toMake) continue;
+      const reference = { type: "sales_order" as const, id: line.salesOrderId, number: line.orderNumber };
+      const bom = line.configuredBom
+        ? configuredBom(catalog.products, line.productId, line.configuredBom)
+        : catalog.bomFor(line.productId);
+      if (!bom) {
+        unplanned.push({ productId: line.productId, productName: line.productName, quantity: line.toMake, reference });
+        continue;
+      }
+      for (const requirement of explodeBom(bom, line.toMake, catalog.bomFor)) addDemand(requirement, line.needBy, reference);
+    }
+
+    const materialIds = Array.from(demands.keys());
+    if (!materialIds.length) return { asOf, materials: [], production, unplanned };
+
+    const incoming = await db.select({
+      itemId: purchaseOrderLines.itemId,
+      outstanding: sql<string>`GREATEST(${purchaseOrderLines.quantity} - ${purchaseOrderLines.receivedQuantity}, 0)`,
+      purchaseOrderId: purchaseOrders.id,
+      poNumber: purchaseOrders.poNumber,
+      expectedDate: purchaseOrders.expectedDate,
+    }).from(purchaseOrderLines)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderLines.purchaseOrderId))
+      .where(and(
+        eq(purchaseOrderLines.tenantId, tenantId),
+        eq(purchaseOrderLines.itemType, "raw_material"),
+        inArray(purchaseOrderLines.itemId, materialIds),
+        inArray(purchaseOrders.status, [...INCOMING_ORDER_STATUSES]),
+      ));
+    const [materials, reserved] = await Promise.all([
+      this.loadMaterials(db, tenantId, materialIds),
+      this.reservedByMaterial(db, tenantId, materialIds),
+    ]);
+
+    const plans = materialIds.flatMap((materialId): MaterialPlan[] => {
+      const material = materials.get(materialId);
+      if (!material) return [];
+      const onHand = amount(material.currentStock);
+      const materialReserved = reserved.get(materialId) ?? 0;
+      const available = round4(onHand - materialReserved);
+      const supplies = incoming
+        .filter((line) => line.itemId === materialId && amount(line.outstanding) > 0)
+        .map((line) => ({
+          date: line.expectedDate,
+          quantity: amount(line.outstanding),
+          reference: { type: "purchase_order" as const, id: line.purchaseOrderId, number: line.poNumber },
+        }));
+      return [{
+        rawMaterialId: material.id,
+        sku: material.sku,
+        name: material.name,
+        unitOfMeasure: material.unitOfMeasure,
+        preferredSupplierId: material.preferredSupplierId,
+        onHand,
+        reserved: round4(materialReserved),
+        available,
+        ...projectMaterial(available, demands.get(materialId)!, supplies, asOf),
+      }];
+    });
+    plans.sort((a, b) => {
+      if (a.shortageDate !== b.shortageDate) {
+        if (a.shortageDate === null) return 1;
+        if (b.shortageDate === null) return -1;
+        return a.shortageDate.localeCompare(b.shortageDate);
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return { asOf, materials: plans, production, unplanned };
+  }
+
+  // Materials the plan runs short of, soonest first
+  async getShortages(tenantId: string, asOf: string = today()): Promise<Array<Omit<MaterialPlan, "timeline">>> {
+    const plan = await this.getPlan(tenantId, asOf);
+    return plan.materials
+      .filter((material) => material.shortageDate !== null)
+      .map(({ timeline: _, ...material }) => material);
+  }
+}
+
+export const mrpService = new MrpService();
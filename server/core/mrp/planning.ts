@@ -0,0 +1,234 @@
+/**
+ * Material requirements planning for furniture production: exploding
+ * multi-level bills of materials into raw material quantities, reserving
+ * free stock for released orders, and netting what is still needed against
+ * stock and open purchase orders over time to find the dates it runs short.
+ */
+
+import { addDays } from "../../utils/time-of-day";
+import { round4 } from "../../utils/money";
+
+export const STAGE_TYPES = ["cutting", "assembly", "finishing", "quality_check", "ready_for_dispatch", "custom"] as const;
+export type StageType = typeof STAGE_TYPES[number];
+
+// Sales orders whose undelivered items still need to be made or taken from stock
+export const OPEN_SALES_ORDER_STATUSES = ["confirmed", "processing"];
+
+export class MrpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "MrpError";
+  }
+}
+
+export interface BomLine {
+  rawMaterialId: string | null;
+  componentProductId: string | null;
+  componentName: string;
+  quantity: number;
+  wastePercent: number;
+  consumptionStage: StageType | null;
+}
+
+export interface ProductBom {
+  productId: string;
+  productName: string;
+  yieldQuantity: number;
+  lines: BomLine[];
+}
+
+export type BomLookup = (productId: string) => ProductBom | undefined;
+
+export interface MaterialRequirement {
+  rawMaterialId: string;
+  stageType: StageType | null;
+  quantity: number;
+}
+
+export function effectiveQuantity(quantity: number, wastePercent: number): number {
+  return quantity * (1 + wastePercent / 100);
+}
+
+/**
+ * Raw materials needed to build `quantity` units from a BOM, per material and
+ * consumption stage. Sub-assemblies are built within the parent's order, so
+ * they explode through their own BOMs, and a stage set on the sub-assembly
+ * line applies to everything it is made from.
+ */
+export function explodeBom(bom: ProductBom, quantity: number, bomFor: BomLookup): MaterialRequirement[] {
+  const totals = new Map<string, MaterialRequirement>();
+
+  const visit = (current: ProductBom, units: number, inheritedStage: StageType | null, path: string[]) => {
+    const batches = units / Math.max(current.yieldQuantity, 1);
+    for (const line of current.lines) {
+      const needed = effectiveQuantity(line.quantity, line.wastePercent) * batches;
+      const stageType = inheritedStage ?? line.consumptionStage;
+
+      if (line.rawMaterialId) {
+        const key = `${line.rawMaterialId}:${stageType ?? ""}`;
+        const existing = totals.get(key);
+        if (existing) existing.quantity += needed;
+        else totals.set(key, { rawMaterialId: line.rawMaterialId, stageType, quantity: needed });
+        continue;
+      }
+      if (!line.componentProductId) continue;
+
+      if (path.includes(line.componentProductId)) {
+        throw new MrpError(422, `Bill of materials for "${current.productName}" loops back to "${line.componentName}"`);
+      }
+      const child = bomFor(line.componentProductId);
+      if (!child) {
+        throw new MrpError(422, `Sub-assembly "${line.componentName}" has no active bill of materials`);
+      }
+      visit(child, needed, stageType, [...path, line.componentProductId]);
+    }
+  };
+
+  visit(bom, quantity, null, [bom.productId]);
+  return Array.from(totals.values())
+    .map((requirement) => ({ ...requirement, quantity: round4(requirement.quantity) }))
+    .filter((requirement) => requirement.quantity > 0);
+}
+
+// Whether `productId` is built, at any depth, from `targetProductId`
+export function usesProduct(productId: string, targetProductId: string, bomFor: BomLookup, seen = new Set<string>()): boolean {
+  if (productId === targetProductId) return true;
+  if (seen.has(productId)) return false;
+  seen.add(productId);
+  const bom = bomFor(productId);
+  return !!bom?.lines.some((line) => line.componentProductId && usesProduct(line.componentProductId, targetProductId, bomFor, seen));
+}
+
+/**
+ * Splits free stock across requirements in the order given. `free` is
+ * drawn down as it is handed out, so callers can allocate several orders
+ * against the same balances.
+ */
+export function allocate<T extends { rawMaterialId: string; quantity: number }>(
+  requirements: T[],
+  free: Map<string, number>,
+): Array<T & { reserved: number }> {
+  return requirements.map((requirement) => {
+    const available = Math.max(free.get(requirement.rawMaterialId) ?? 0, 0);
+    const reserved = round4(Math.min(requirement.quantity, available));
+    free.set(requirement.rawMaterialId, round4(available - reserved));
+    return { ...requirement, reserved };
+  });
+}
+
+// Reservations a stage's completion back-flushes; unstaged ones go with the first stage completed
+export function backflushStages(stageType: StageType, firstCompletion: boolean): Array<StageType | null> {
+  return firstCompletion ? [stageType, null] : [stageType];
+}
+
+export interface ProductDemand {
+  productId: string;
+  quantity: number;
+  needBy: string;
+  // Made-to-order and already-ordered items cannot be served from finished stock
+  fromStockAllowed: boolean;
+}
+
+/**
+ * Serves product demand from finished stock, earliest need first, leaving
+ * the rest to be made.
+ */
+export function allocateFinishedStock<T extends ProductDemand>(
+  demands: T[],
+  stock: Map<string, number>,
+): Array<T & { fromStock: number; toMake: number }> {
+  const remaining = new Map(stock);
+  const byNeed = demands.map((demand, index) => ({ demand, index }))
+    .sort((a, b) => a.demand.needBy.localeCompare(b.demand.needBy) || a.index - b.index);
+
+  const results = new Array<T & { fromStock: number; toMake: number }>(demands.length);
+  for (const { demand, index } of byNeed) {
+    const onHand = demand.fromStockAllowed ? Math.max(remaining.get(demand.productId) ?? 0, 0) : 0;
+    const fromStock = Math.min(onHand, demand.quantity);
+    if (fromStock) remaining.set(demand.productId, onHand - fromStock);
+    results[index] = { ...demand, fromStock, toMake: demand.quantity - fromStock };
+  }
+  return results;
+}
+
+// Materials must be on hand when production starts: the delivery date less the product's lead time
+export function needByDate(deliveryDate: string | null, leadTimeDays: number | null, asOf: string): string {
+  if (!deliveryDate) return asOf;
+  return addDays(deliveryDate, -Math.max(leadTimeDays ?? 0, 0));
+}
+
+export interface PlanReference {
+  type: "sales_order" | "production_order" | "purchase_order";
+  id: string;
+  number: string;
+}
+
+export interface DatedQuantity {
+  date: string | null;
+  quantity: number;
+  reference: PlanReference;
+}
+
+export interface ProjectionEntry {
+  date: string | null;
+  kind: "demand" | "supply";
+  quantity: number;
+  balance: number;
+  reference: PlanReference;
+}
+
+export interface MaterialProjection {
+  grossRequirement: number;
+  onOrder: number;
+  netRequirement: number;
+  shortageDate: string | null;
+  shortageQuantity: number;
+  timeline: ProjectionEntry[];
+}
+
+/**
+ * Walks a material's projected balance through its demands and incoming
+ * supply in date order. Undated demand is needed now; undated supply is
+ * counted last, since nobody can say when it arrives. The shortage date is
+ * the first need the balance cannot cover, and the shortage quantity the
+ * deepest the balance goes below zero, which can exceed the net
+ * requirement when an order arrives too late to help.
+ */
+export function projectMaterial(
+  available: number,
+  demands: DatedQuantity[],
+  supplies: DatedQuantity[],
+  asOf: string,
+): MaterialProjection {
+  const events = [
+    ...supplies.map((supply) => ({ ...supply, kind: "supply" as const })),
+    ...demands.map((demand) => ({ ...demand, date: demand.date ?? asOf, kind: "demand" as const })),
+  ].sort((a, b) => {
+    if (a.date !== b.date) {
+      if (a.date === null) return 1;
+      if (b.date === null) return -1;
+      return a.date.localeCompare(b.date);
+    }
+    return a.kind === b.kind ? 0 : a.kind === "supply" ? -1 : 1;
+  });
+
+  let balance = round4(available);
+  let lowest = balance;
+  let shortageDate: string | null = null;
+  const timeline: ProjectionEntry[] = [];
+  for (const event of events) {
+    balance = round4(balance + (event.kind === "supply" ? event.quantity : -event.quantity));
+    if (event.kind === "demand" && balance < 0 && shortageDate === null) shortageDate = event.date;
+    lowest = Math.min(lowest, balance);
+    timeline.push({ date: event.date, kind: event.kind, quantity: round4(event.quantity), balance, reference: event.reference });
+  }
+
+  return {
+    grossRequirement: round4(demands.reduce((sum, demand) => sum + demand.quantity, 0)),
+    onOrder: round4(supplies.reduce((sum, supply) => sum + supply.quantity, 0)),
+    netRequirement: round4(Math.max(-balance, 0)),
+    shortageDate,
+    shortageQuantity: round4(Math.max(-lowest, 0)),
+    timeline,
+  };
+}
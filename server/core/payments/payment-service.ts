@@ -12,6 +12,7 @@ import {
 } from "@shared/schema";
 import { eq, and, desc, sql, lt } from "drizzle-orm";
 import { gatewaySelector, initializePaymentGateways } from "./gateway-selector";
+import { dunningService } from "../dunning/dunning-service";
 import type { 
   TenantCountry, 
   Currency, 
@@ -264,6 +265,8 @@ export class PaymentService {
           updatedAt: new Date(),
         })
         .where(eq(subscriptionInvoices.id, invoiceId));
+
+      await dunningService.markRecovered(tenantId, invoiceId, event.amount);
     }
 
     await db.update(tenantSubscriptions)
@@ -311,15 +314,22 @@ export class PaymentService {
 
     const newFailureCount = (subscription[0].paymentFailureCount || 0) + 1;
 
+    // Failures on an invoice go through its dunning ladder, which decides when to suspend
+    const invoiceId = event.metadata?.invoiceId as string | undefined;
+    const dunningCase = invoiceId
+      ? await dunningService.recordFailedCharge(tenantId, invoiceId, (event.metadata?.failureReason as string | undefined) ?? null)
+      : null;
+    const suspend = dunningCase?.status !== "open" && newFailureCount >= SUSPEND_AFTER_FAILURES;
+
     await db.update(tenantSubscriptions)
       .set({
-        status: newFailureCount >= SUSPEND_AFTER_FAILURES ? "suspended" : "past_due",
+        status: suspend ? "suspended" : "past_due",
         paymentFailureCount: newFailureCount,
         updatedAt: new Date(),
       })
       .where(eq(tenantSubscriptions.tenantId, tenantId));
 
-    if (newFailureCount >= SUSPEND_AFTER_FAILURES) {
+    if (suspend) {
       await this.suspendTenant(tenantId, "Payment failures exceeded threshold");
     }
 
@@ -400,16 +410,18 @@ export class PaymentService {
 
       if (subscription.length) {
         const newFailureCount = (subscription[0].paymentFailureCount || 0) + 1;
+        const dunningCase = await dunningService.recordFailedCharge(invoice.tenantId, invoice.id, "Invoice overdue");
+        const suspend = dunningCase?.status !== "open" && newFailureCount >= SUSPEND_AFTER_FAILURES;
 
         await db.update(tenantSubscriptions)
           .set({
             paymentFailureCount: newFailureCount,
-            status: newFailureCount >= SUSPEND_AFTER_FAILURES ? "suspended" : "past_due",
+            status: suspend ? "suspended" : "past_due",
             updatedAt: new Date(),
           })
           .where(eq(tenantSubscriptions.tenantId, invoice.tenantId));
 
-        if (newFailureCount >= SUSPEND_AFTER_FAILURES) {
+        if (suspend) {
           await this.suspendTenant(invoice.tenantId, "Overdue payments exceeded threshold");
         }
       }
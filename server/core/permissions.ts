@@ -150,6 +150,8 @@ export const PERMISSIONS = {
   SETTINGS_UPDATE: "settings:update",
   BILLING_READ: "billing:read",
   BILLING_MANAGE: "billing:manage",
+  INVENTORY_READ: "inventory:read",
+  INVENTORY_MANAGE: "inventory:manage",
   USERS_READ: "users:read",
   USERS_INVITE: "users:invite",
   USERS_MANAGE: "users:manage",
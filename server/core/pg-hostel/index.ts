@@ -1,20 +1,26 @@
 /**
  * PG/Hostel Module
- * 
+ *
  * Paying guest and hostel management:
- * - Room inventory
- * - Bed allocation
- * - Tenant management
- * - Rent collection
- * - Maintenance requests
- * 
+ * - Room inventory with bed-level occupancy
+ * - Resident move-in/move-out with a security deposit ledger
+ * - Monthly rent runs (prorated) that raise invoices
+ * - Late-fee rules
+ * - Maintenance tickets with a status workflow
+ *
  * @module server/core/pg-hostel
  */
 
 import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { pgRooms, pgBeds, pgResidents, pgRentCharges, pgMaintenanceTickets, invoices } from "@shared/schema";
+import { eq, and, sql, isNull, inArray } from "drizzle-orm";
 import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
-import { z } from "zod";
+import { pgRoomsRouter } from "./rooms";
+import { pgResidentsRouter } from "./residents";
+import { pgRentRouter, listRentCharges } from "./rent";
+import { pgMaintenanceRouter } from "./maintenance";
 
 export const pgHostelRouter = Router();
 
@@ -24,111 +30,81 @@ const baseMiddleware = [
 ];
 
 const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
-const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
 
-const paginationSchema = z.object({
-  page: z.coerce.number().min(1).default(1),
-  limit: z.coerce.number().min(1).max(100).default(20),
-  search: z.string().optional(),
-  status: z.string().optional(),
-});
-
-pgHostelRouter.get("/rooms", ...staffMiddleware, async (req: Request, res: Response) => {
+async function dashboardStats(req: Request, res: Response) {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-pgHostelRouter.post("/rooms", ...managerMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const [roomCounts, bedCounts, residentCount, rentResult, maintenanceCount] = await Promise.all([
+      // A room counts as occupied once any of its beds is taken
+      db.select({
+        total: sql<number>`count(*)::int`,
+        occupied: sql<number>`count(*) FILTER (WHERE EXISTS (SELECT 1 FROM ${pgBeds} WHERE ${pgBeds.roomId} = ${pgRooms.id} AND ${pgBeds.status} = 'occupied' AND ${pgBeds.deletedAt} IS NULL))::int`,
+      })
+        .from(pgRooms)
+        .where(and(eq(pgRooms.tenantId, tenantId), eq(pgRooms.isActive, true), isNull(pgRooms.deletedAt))),
 
-pgHostelRouter.get("/residents", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({
+        total: sql<number>`count(*)::int`,
+        occupied: sql<number>`count(*) FILTER (WHERE ${pgBeds.status} = 'occupied')::int`,
+        available: sql<number>`count(*) FILTER (WHERE ${pgBeds.status} = 'available')::int`,
+      })
+        .from(pgBeds)
+        .innerJoin(pgRooms, eq(pgBeds.roomId, pgRooms.id))
+        .where(and(eq(pgBeds.tenantId, tenantId), isNull(pgBeds.deletedAt), eq(pgRooms.isActive, true), isNull(pgRooms.deletedAt))),
 
-pgHostelRouter.post("/residents", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgResidents)
+        .where(and(eq(pgResidents.tenantId, tenantId), eq(pgResidents.status, "active"), isNull(pgResidents.deletedAt))),
 
-pgHostelRouter.get("/rent-payments", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({
+        count: sql<number>`count(*)::int`,
+        outstanding: sql<string>`COALESCE(SUM(${invoices.totalAmount} - COALESCE(${invoices.paidAmount}, 0)), 0)`,
+      })
+        .from(pgRentCharges)
+        .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+        .where(and(eq(pgRentCharges.tenantId, tenantId), inArray(invoices.status, ["pending", "partial", "overdue"]))),
 
-pgHostelRouter.get("/maintenance-requests", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgMaintenanceTickets)
+        .where(and(eq(pgMaintenanceTickets.tenantId, tenantId), inArray(pgMaintenanceTickets.status, ["open", "assigned", "in_progress"]))),
+    ]);
+
+    const totalRooms = roomCounts[0]?.total || 0;
+    const occupiedRooms = roomCounts[0]?.occupied || 0;
+    const totalResidents = residentCount[0]?.count || 0;
 
-pgHostelRouter.get("/dashboard", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
     res.json({
-      totalRooms: 0,
-      occupiedBeds: 0,
-      availableBeds: 0,
-      totalResidents: 0,
-      pendingRent: 0,
-      maintenanceRequests: 0,
+      totalRooms,
+      occupiedRooms,
+      availableRooms: totalRooms - occupiedRooms,
+      totalBeds: bedCounts[0]?.total || 0,
+      occupiedBeds: bedCounts[0]?.occupied || 0,
+      availableBeds: bedCounts[0]?.available || 0,
+      totalResidents,
+      totalTenants: totalResidents,
+      pendingPayments: rentResult[0]?.count || 0,
+      pendingRent: parseFloat(rentResult[0]?.outstanding || "0"),
+      maintenanceRequests: maintenanceCount[0]?.count || 0,
     });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
+  } catch (error) {
+    console.error("[pg-hostel/dashboard] Error:", error);
+    res.status(500).json({ message: "Failed to fetch dashboard stats" });
   }
-});
+}
+
+pgHostelRouter.get("/dashboard", ...staffMiddleware, dashboardStats);
+pgHostelRouter.get("/stats", ...staffMiddleware, dashboardStats);
+
+// Rent invoices raised by rent runs, with their payment status
+pgHostelRouter.get("/rent-payments", ...staffMiddleware, listRentCharges);
+
+pgHostelRouter.use("/rooms", pgRoomsRouter);
+pgHostelRouter.use("/residents", pgResidentsRouter);
+pgHostelRouter.use("/rent", pgRentRouter);
+pgHostelRouter.use("/maintenance-requests", pgMaintenanceRouter);
+
+export { pgRoomsRouter, pgResidentsRouter, pgRentRouter, pgMaintenanceRouter };
 
 export default pgHostelRouter;
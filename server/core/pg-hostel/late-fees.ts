@@ -0,0 +1,132 @@
+/**
+ * PG Rent Late Fees
+ *
+ * Applies each tenant's late-fee rule to unpaid rent invoices once their
+ * grace period has passed. A fee is applied at most once per rent charge,
+ * as an extra invoice line, and the invoice is marked overdue. Invoices
+ * settled or cancelled since they were picked up are skipped.
+ *
+ * @module server/core/pg-hostel/late-fees
+ */
+
+import { db } from "../../db";
+import { pgLateFeeRules, pgRentCharges, invoices, invoiceItems, type Invoice } from "@shared/schema";
+import { eq, and, isNull, isNotNull, inArray, lt } from "drizzle-orm";
+import { addDays } from "../../utils/time-of-day";
+import { round2 } from "../../utils/money";
+import { invoiceLedgerService } from "../invoicing";
+import { calculateLateFee, isLateFeeDue } from "./rent-calculator";
+
+const BATCH_SIZE = 200;
+
+// Invoices still awaiting payment; anything else is left untouched
+const LATE_FEE_STATUSES: NonNullable<Invoice["status"]>[] = ["pending", "partial", "overdue"];
+
+export async function applyLateFees(
+  tenantId: string,
+  today: string = new Date().toISOString().split("T")[0]
+): Promise<{ applied: number; totalFees: number }> {
+  const [rule] = await db.select()
+    .from(pgLateFeeRules)
+    .where(and(eq(pgLateFeeRules.tenantId, tenantId), eq(pgLateFeeRules.isActive, true)));
+
+  if (!rule) {
+    return { applied: 0, totalFees: 0 };
+  }
+
+  const candidates = await db.select({ charge: pgRentCharges, invoice: invoices })
+    .from(pgRentCharges)
+    .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+    .where(and(
+      eq(pgRentCharges.tenantId, tenantId),
+      isNull(pgRentCharges.lateFeeAppliedAt),
+      inArray(invoices.status, LATE_FEE_STATUSES),
+      isNotNull(invoices.dueDate),
+      lt(invoices.dueDate, addDays(today, -rule.graceDays)),
+      isNull(invoices.deletedAt)
+    ))
+    .limit(BATCH_SIZE);
+
+  let applied = 0;
+  let totalFees = 0;
+
+  for (const { charge, invoice: candidate } of candidates) {
+    if (!isLateFeeDue(candidate.dueDate!, rule.graceDays, today)) continue;
+
+    const appliedFee = await db.transaction(async (tx) => {
+      // The candidate was read outside the transaction, so work from the
+      // locked row: a payment may have settled or changed it since
+      const [invoice] = await tx.select()
+        .from(invoices)
+        .where(eq(invoices.id, candidate.id))
+        .for("update");
+
+      if (!invoice || invoice.deletedAt || !invoice.status || !LATE_FEE_STATUSES.includes(invoice.status)) {
+        return null;
+      }
+
+      const outstanding = round2(parseFloat(invoice.totalAmount) - parseFloat(invoice.paidAmount || "0"));
+      const fee = calculateLateFee({
+        feeType: rule.feeType,
+        amount: parseFloat(rule.amount),
+        maxAmount: rule.maxAmount !== null ? parseFloat(rule.maxAmount) : null,
+      }, outstanding);
+
+      // Claim the charge first so a concurrent run cannot add the fee twice
+      const [claimed] = await tx.update(pgRentCharges)
+        .set({ lateFeeAmount: fee.toFixed(2), lateFeeAppliedAt: new Date() })
+        .where(and(eq(pgRentCharges.id, charge.id), isNull(pgRentCharges.lateFeeAppliedAt)))
+        .returning({ id: pgRentCharges.id });
+
+      if (!claimed) return null;
+
+      if (fee > 0) {
+        await tx.insert(invoiceItems).values({
+          invoiceId: invoice.id,
+          description: `Late fee for ${charge.period} rent (due ${invoice.dueDate})`,
+          quantity: 1,
+          unitPrice: fee.toFixed(2),
+          totalPrice: fee.toFixed(2),
+        });
+      }
+
+      await tx.update(invoices)
+        .set({
+          subtotal: round2(parseFloat(invoice.subtotal) + fee).toFixed(2),
+          totalAmount: round2(parseFloat(invoice.totalAmount) + fee).toFixed(2),
+          status: "overdue",
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoice.id));
+
+      return fee;
+    });
+
+    if (appliedFee !== null) {
+      invoiceLedgerService.postAsync(tenantId, "core", candidate.id);
+      applied++;
+      totalFees = round2(totalFees + appliedFee);
+    }
+  }
+
+  return { applied, totalFees };
+}
+
+export async function processPgLateFees(today: string = new Date().toISOString().split("T")[0]): Promise<{ processed: number }> {
+  const rules = await db.select({ tenantId: pgLateFeeRules.tenantId })
+    .from(pgLateFeeRules)
+    .where(eq(pgLateFeeRules.isActive, true));
+
+  let processed = 0;
+
+  for (const { tenantId } of rules) {
+    try {
+      const result = await applyLateFees(tenantId, today);
+      processed += result.applied;
+    } catch (error) {
+      console.error(`[pg-late-fees] Failed for tenant ${tenantId}:`, error);
+    }
+  }
+
+  return { processed };
+}
@@ -0,0 +1,364 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  pgMaintenanceTickets,
+  pgRooms,
+  pgBeds,
+  pgResidents,
+  tenantStaff,
+  insertPgMaintenanceTicketSchema,
+} from "@shared/schema";
+import { eq, and, desc, sql, ilike, or } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { canTransitionTicket, MAINTENANCE_TRANSITIONS, type MaintenanceStatus } from "./rent-calculator";
+
+export const pgMaintenanceRouter = Router();
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const ticketStatus = z.enum(["open", "assigned", "in_progress", "resolved", "closed", "cancelled"]);
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  status: ticketStatus.optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  roomId: z.string().optional(),
+  assignedTo: z.string().optional(),
+});
+
+const ticketSchema = insertPgMaintenanceTicketSchema.omit({
+  tenantId: true,
+  createdBy: true,
+  resolutionNotes: true,
+  cost: true,
+});
+
+const statusSchema = z.object({
+  status: ticketStatus,
+  assignedTo: z.string().optional(),
+  resolutionNotes: z.string().optional(),
+  cost: z.string().optional(),
+});
+
+async function generateTicketNumber(tenantId: string): Promise<string> {
+  const [result] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(pgMaintenanceTickets)
+    .where(eq(pgMaintenanceTickets.tenantId, tenantId));
+  return `MT-${String((result?.count || 0) + 1).padStart(5, "0")}`;
+}
+
+async function findTicket(tenantId: string, id: string) {
+  const [ticket] = await db.select()
+    .from(pgMaintenanceTickets)
+    .where(and(eq(pgMaintenanceTickets.id, id), eq(pgMaintenanceTickets.tenantId, tenantId)));
+  return ticket;
+}
+
+/**
+ * Checks that referenced room, bed, resident and staff belong to the tenant,
+ * and fills in the room from the bed or resident when only those are given.
+ */
+async function resolveReferences(
+  tenantId: string,
+  refs: { roomId?: string | null; bedId?: string | null; residentId?: string | null; assignedTo?: string | null }
+): Promise<{ roomId?: string | null; bedId?: string | null; error?: string }> {
+  let { roomId, bedId } = refs;
+
+  if (refs.residentId) {
+    const [resident] = await db.select({ bedId: pgResidents.bedId })
+      .from(pgResidents)
+      .where(and(eq(pgResidents.id, refs.residentId), eq(pgResidents.tenantId, tenantId)));
+    if (!resident) return { error: "Resident not found" };
+    bedId = bedId ?? resident.bedId;
+  }
+
+  if (bedId) {
+    const [bed] = await db.select({ roomId: pgBeds.roomId })
+      .from(pgBeds)
+      .where(and(eq(pgBeds.id, bedId), eq(pgBeds.tenantId, tenantId)));
+    if (!bed) return { error: "Bed not found" };
+    if (roomId && roomId !== bed.roomId) return { error: "Bed does not belong to the room" };
+    roomId = bed.roomId;
+  }
+
+  if (roomId) {
+    const [room] = await db.select({ id: pgRooms.id })
+      .from(pgRooms)
+      .where(and(eq(pgRooms.id, roomId), eq(pgRooms.tenantId, tenantId)));
+    if (!room) return { error: "Room not found" };
+  }
+
+  if (refs.assignedTo) {
+    const [staff] = await db.select({ id: tenantStaff.id })
+      .from(tenantStaff)
+      .where(and(eq(tenantStaff.id, refs.assignedTo), eq(tenantStaff.tenantId, tenantId)));
+    if (!staff) return { error: "Staff member not found" };
+  }
+
+  return { roomId, bedId };
+}
+
+pgMaintenanceRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, search, status, priority, roomId, assignedTo } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(pgMaintenanceTickets.tenantId, tenantId)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(pgMaintenanceTickets.title, `%${search}%`),
+          ilike(pgMaintenanceTickets.ticketNumber, `%${search}%`)
+        )!
+      );
+    }
+
+    if (status) {
+      conditions.push(eq(pgMaintenanceTickets.status, status));
+    }
+
+    if (priority) {
+      conditions.push(eq(pgMaintenanceTickets.priority, priority));
+    }
+
+    if (roomId) {
+      conditions.push(eq(pgMaintenanceTickets.roomId, roomId));
+    }
+
+    if (assignedTo) {
+      conditions.push(eq(pgMaintenanceTickets.assignedTo, assignedTo));
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        ticket: pgMaintenanceTickets,
+        roomNumber: pgRooms.roomNumber,
+        bedLabel: pgBeds.label,
+        assignedToName: tenantStaff.fullName,
+      })
+        .from(pgMaintenanceTickets)
+        .leftJoin(pgRooms, eq(pgMaintenanceTickets.roomId, pgRooms.id))
+        .leftJoin(pgBeds, eq(pgMaintenanceTickets.bedId, pgBeds.id))
+        .leftJoin(tenantStaff, eq(pgMaintenanceTickets.assignedTo, tenantStaff.id))
+        .where(and(...conditions))
+        .orderBy(desc(pgMaintenanceTickets.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgMaintenanceTickets)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: data.map(({ ticket, ...rest }) => ({ ...ticket, ...rest })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgMaintenanceRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+
+    const ticket = await findTicket(isolation.getTenantId(), req.params.id);
+    if (!ticket) {
+      return res.status(404).json({ message: "Maintenance ticket not found" });
+    }
+
+    res.json({ ...ticket, allowedTransitions: MAINTENANCE_TRANSITIONS[ticket.status] });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgMaintenanceRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = ticketSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const refs = await resolveReferences(tenantId, parsed.data);
+    if (refs.error) {
+      return res.status(400).json({ message: refs.error });
+    }
+
+    const [ticket] = await db.insert(pgMaintenanceTickets).values({
+      ...parsed.data,
+      roomId: refs.roomId,
+      bedId: refs.bedId,
+      tenantId,
+      ticketNumber: await generateTicketNumber(tenantId),
+      status: parsed.data.assignedTo ? "assigned" : "open",
+      createdBy: req.context?.user?.id,
+    }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "pg_maintenance_ticket",
+      resourceId: ticket.id,
+      metadata: { ticketNumber: ticket.ticketNumber, priority: ticket.priority, roomId: ticket.roomId },
+    });
+
+    res.status(201).json(ticket);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgMaintenanceRouter.patch("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const ticket = await findTicket(tenantId, req.params.id);
+    if (!ticket) {
+      return res.status(404).json({ message: "Maintenance ticket not found" });
+    }
+
+    if (ticket.status === "closed" || ticket.status === "cancelled") {
+      return res.status(400).json({ message: `Cannot edit a ${ticket.status} ticket` });
+    }
+
+    // Status and assignment go through /:id/status so the workflow is enforced
+    const parsed = ticketSchema.omit({ assignedTo: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const refs = await resolveReferences(tenantId, {
+      roomId: parsed.data.roomId ?? ticket.roomId,
+      bedId: parsed.data.bedId ?? ticket.bedId,
+      residentId: parsed.data.residentId,
+    });
+    if (refs.error) {
+      return res.status(400).json({ message: refs.error });
+    }
+
+    const [updated] = await db.update(pgMaintenanceTickets)
+      .set({ ...parsed.data, roomId: refs.roomId, bedId: refs.bedId, updatedAt: new Date() })
+      .where(eq(pgMaintenanceTickets.id, ticket.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_maintenance_ticket",
+      resourceId: ticket.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgMaintenanceRouter.patch("/:id/status", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = statusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const ticket = await findTicket(tenantId, req.params.id);
+    if (!ticket) {
+      return res.status(404).json({ message: "Maintenance ticket not found" });
+    }
+
+    const { status, assignedTo, resolutionNotes, cost } = parsed.data;
+    const from = ticket.status as MaintenanceStatus;
+
+    if (!canTransitionTicket(from, status)) {
+      return res.status(400).json({
+        message: `Cannot move ticket from ${from} to ${status}`,
+        allowedTransitions: MAINTENANCE_TRANSITIONS[from],
+      });
+    }
+
+    if (status === "assigned" && !assignedTo && !ticket.assignedTo) {
+      return res.status(400).json({ message: "assignedTo is required to assign a ticket" });
+    }
+
+    if (status === "resolved" && !resolutionNotes && !ticket.resolutionNotes) {
+      return res.status(400).json({ message: "resolutionNotes are required to resolve a ticket" });
+    }
+
+    if (assignedTo) {
+      const refs = await resolveReferences(tenantId, { assignedTo });
+      if (refs.error) {
+        return res.status(400).json({ message: refs.error });
+      }
+    }
+
+    const now = new Date();
+    const [updated] = await db.update(pgMaintenanceTickets)
+      .set({
+        status,
+        ...(assignedTo ? { assignedTo } : {}),
+        ...(resolutionNotes ? { resolutionNotes } : {}),
+        ...(cost ? { cost } : {}),
+        // Reopening clears the previous resolution time
+        resolvedAt: status === "resolved" ? now : status === "in_progress" ? null : ticket.resolvedAt,
+        closedAt: status === "closed" ? now : ticket.closedAt,
+        updatedAt: now,
+      })
+      .where(and(eq(pgMaintenanceTickets.id, ticket.id), eq(pgMaintenanceTickets.status, ticket.status)))
+      .returning();
+
+    if (!updated) {
+      return res.status(409).json({ message: "Ticket was updated concurrently; reload and retry" });
+    }
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_maintenance_ticket",
+      resourceId: ticket.id,
+      metadata: { statusChange: { from, to: status }, assignedTo },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
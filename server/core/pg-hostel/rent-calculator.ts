@@ -0,0 +1,130 @@
+import { addDays, daysBetween } from "../../utils/time-of-day";
+import { round2 } from "../../utils/money";
+
+/**
+ * PG/hostel rent, deposit and maintenance rules.
+ *
+ * Pure functions shared by the PG routes and the late-fee job so the rules
+ * can be unit tested without a database. Dates are "YYYY-MM-DD" strings,
+ * periods are "YYYY-MM", and a resident's move-out date is the last night
+ * stayed, so it is billed.
+ */
+
+export type MaintenanceStatus = "open" | "assigned" | "in_progress" | "resolved" | "closed" | "cancelled";
+export type DepositEntryType = "collected" | "deduction" | "refund" | "adjustment";
+
+export interface RentProration {
+  periodStart: string;
+  periodEnd: string;
+  daysBilled: number;
+  daysInPeriod: number;
+  amount: number;
+}
+
+export interface LateFeeRule {
+  feeType: "flat" | "percent";
+  amount: number;
+  maxAmount: number | null;
+}
+
+export const MAINTENANCE_TRANSITIONS: Record<MaintenanceStatus, MaintenanceStatus[]> = {
+  open: ["assigned", "in_progress", "cancelled"],
+  assigned: ["in_progress", "cancelled"],
+  in_progress: ["resolved"],
+  // Reopening sends the ticket back to work rather than to the queue
+  resolved: ["closed", "in_progress"],
+  closed: [],
+  cancelled: [],
+};
+
+export function periodBounds(period: string): { start: string; end: string; days: number } {
+  const start = `${period}-01`;
+  const [year, month] = period.split("-").map(Number);
+  const nextMonth = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+  const end = addDays(nextMonth, -1);
+  return { start, end, days: daysBetween(start, end) + 1 };
+}
+
+/**
+ * Rent for the part of `period` the resident occupied. Returns null when the
+ * stay does not overlap the period. A full month is billed at exactly the
+ * monthly rent; partial months are prorated by day.
+ */
+export function prorateRent(
+  monthlyRent: number,
+  period: string,
+  moveInDate: string,
+  moveOutDate?: string | null
+): RentProration | null {
+  const bounds = periodBounds(period);
+  const periodStart = moveInDate > bounds.start ? moveInDate : bounds.start;
+  const periodEnd = moveOutDate && moveOutDate < bounds.end ? moveOutDate : bounds.end;
+
+  if (periodStart > periodEnd) {
+    return null;
+  }
+
+  const daysBilled = daysBetween(periodStart, periodEnd) + 1;
+  const amount = daysBilled === bounds.days
+    ? round2(monthlyRent)
+    : round2((monthlyRent * daysBilled) / bounds.days);
+
+  return { periodStart, periodEnd, daysBilled, daysInPeriod: bounds.days, amount };
+}
+
+/**
+ * Due date for a period's rent: `dueDay` of the month (clamped to the month
+ * length), but never before the resident moved in.
+ */
+export function rentDueDate(period: string, dueDay: number, moveInDate: string): string {
+  const bounds = periodBounds(period);
+  const due = addDays(bounds.start, Math.min(Math.max(dueDay, 1), bounds.days) - 1);
+  return moveInDate > due ? moveInDate : due;
+}
+
+export function isLateFeeDue(dueDate: string, graceDays: number, today: string): boolean {
+  return today > addDays(dueDate, graceDays);
+}
+
+export function calculateLateFee(rule: LateFeeRule, outstanding: number): number {
+  if (outstanding <= 0) {
+    return 0;
+  }
+
+  const fee = rule.feeType === "percent" ? (outstanding * rule.amount) / 100 : rule.amount;
+  const capped = rule.maxAmount !== null ? Math.min(fee, rule.maxAmount) : fee;
+  return round2(Math.max(capped, 0));
+}
+
+export function canTransitionTicket(from: MaintenanceStatus, to: MaintenanceStatus): boolean {
+  return MAINTENANCE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Deposit balance after an entry. Collections and adjustments credit the
+ * resident; deductions and refunds draw down what is held.
+ */
+export function applyDepositEntry(balance: number, entryType: DepositEntryType, amount: number): number {
+  const next = entryType === "collected" || entryType === "adjustment"
+    ? balance + amount
+    : balance - amount;
+
+  if (next < 0) {
+    throw new Error(`Deposit balance ${balance.toFixed(2)} cannot cover ${entryType} of ${amount.toFixed(2)}`);
+  }
+  return round2(next);
+}
+
+/**
+ * Splits a held deposit into deductions and refund on move-out. Deductions
+ * beyond the deposit are reported as a shortfall rather than taken.
+ */
+export function settleDeposit(held: number, deductions: number[]) {
+  const requested = round2(deductions.reduce((sum, d) => sum + d, 0));
+  const deducted = Math.min(requested, held);
+  return {
+    deducted: round2(deducted),
+    refund: round2(held - deducted),
+    shortfall: round2(requested - deducted),
+  };
+}
@@ -0,0 +1,407 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  pgRentRuns,
+  pgRentCharges,
+  pgResidents,
+  pgBeds,
+  pgRooms,
+  pgLateFeeRules,
+  customers,
+  invoices,
+  invoiceItems,
+  tenants,
+  insertPgLateFeeRuleSchema,
+} from "@shared/schema";
+import { eq, and, desc, sql, isNull, or, gte, lte, like } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { round2 } from "../../utils/money";
+import { periodBounds, prorateRent, rentDueDate } from "./rent-calculator";
+import { applyLateFees } from "./late-fees";
+import { invoiceLedgerService } from "../invoicing";
+
+export const pgRentRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const periodString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM");
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const chargesQuerySchema = paginationSchema.extend({
+  period: periodString.optional(),
+  residentId: z.string().optional(),
+  status: z.enum(["draft", "pending", "paid", "partial", "overdue", "cancelled", "refunded"]).optional(),
+});
+
+const rentRunSchema = z.object({
+  period: periodString,
+  dueDay: z.number().int().min(1).max(28).default(5),
+});
+
+const lateFeeRuleSchema = insertPgLateFeeRuleSchema.omit({ tenantId: true }).extend({
+  graceDays: z.number().int().min(0).max(60).default(5),
+});
+
+const applyLateFeesSchema = z.object({
+  date: dateString.optional(),
+});
+
+pgRentRouter.get("/runs", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { page, limit } = paginationSchema.parse(req.query);
+    const offset = (page - 1) * limit;
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(pgRentRuns)
+        .where(eq(pgRentRuns.tenantId, tenantId))
+        .orderBy(desc(pgRentRuns.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgRentRuns)
+        .where(eq(pgRentRuns.tenantId, tenantId)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+/**
+ * Generates rent invoices for every resident who stayed during the period
+ * and has not been billed for it yet, so a run can be repeated to pick up
+ * late move-ins. Partial months are prorated by day.
+ */
+pgRentRouter.post("/runs", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = rentRunSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { period, dueDay } = parsed.data;
+    const bounds = periodBounds(period);
+
+    const result = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`pg:rent:${tenantId}:${period}`}))`);
+
+      const [tenant] = await tx.select({ currency: tenants.currency })
+        .from(tenants)
+        .where(eq(tenants.id, tenantId));
+
+      const residents = await tx.select({
+        resident: pgResidents,
+        bedLabel: pgBeds.label,
+        roomNumber: pgRooms.roomNumber,
+      })
+        .from(pgResidents)
+        .innerJoin(pgBeds, eq(pgResidents.bedId, pgBeds.id))
+        .innerJoin(pgRooms, eq(pgBeds.roomId, pgRooms.id))
+        .leftJoin(pgRentCharges, and(eq(pgRentCharges.residentId, pgResidents.id), eq(pgRentCharges.period, period)))
+        .where(and(
+          eq(pgResidents.tenantId, tenantId),
+          isNull(pgResidents.deletedAt),
+          isNull(pgRentCharges.id),
+          lte(pgResidents.moveInDate, bounds.end),
+          or(isNull(pgResidents.moveOutDate), gte(pgResidents.moveOutDate, bounds.start))
+        ));
+
+      const prefix = `RENT-${period.replace("-", "")}-`;
+      const [existing] = await tx.select({ count: sql<number>`count(*)::int` })
+        .from(invoices)
+        .where(and(eq(invoices.tenantId, tenantId), like(invoices.invoiceNumber, `${prefix}%`)));
+      let sequence = existing?.count || 0;
+
+      const [run] = await tx.insert(pgRentRuns).values({ tenantId, period, runBy: userId }).returning();
+
+      const charges = [];
+      let totalAmount = 0;
+
+      for (const { resident, bedLabel, roomNumber } of residents) {
+        const monthlyRent = parseFloat(resident.monthlyRent);
+        const proration = prorateRent(monthlyRent, period, resident.moveInDate, resident.moveOutDate);
+        if (!proration || proration.amount <= 0) continue;
+
+        sequence++;
+        const description = proration.daysBilled === proration.daysInPeriod
+          ? `Rent for ${period} - Room ${roomNumber}, Bed ${bedLabel}`
+          : `Rent for ${period} - Room ${roomNumber}, Bed ${bedLabel} (${proration.daysBilled}/${proration.daysInPeriod} days)`;
+
+        const [invoice] = await tx.insert(invoices).values({
+          tenantId,
+          customerId: resident.customerId,
+          invoiceNumber: `${prefix}${String(sequence).padStart(5, "0")}`,
+          status: "pending",
+          currency: tenant?.currency || "INR",
+          subtotal: proration.amount.toFixed(2),
+          totalAmount: proration.amount.toFixed(2),
+          dueDate: rentDueDate(period, dueDay, resident.moveInDate),
+          notes: description,
+          metadata: { source: "pg_rent", residentId: resident.id, period },
+          createdBy: userId,
+        }).returning();
+
+        await tx.insert(invoiceItems).values({
+          invoiceId: invoice.id,
+          description,
+          quantity: 1,
+          unitPrice: proration.amount.toFixed(2),
+          totalPrice: proration.amount.toFixed(2),
+        });
+
+        const [charge] = await tx.insert(pgRentCharges).values({
+          tenantId,
+          runId: run.id,
+          residentId: resident.id,
+          invoiceId: invoice.id,
+          period,
+          periodStart: proration.periodStart,
+          periodEnd: proration.periodEnd,
+          daysBilled: proration.daysBilled,
+          daysInPeriod: proration.daysInPeriod,
+          monthlyRent: resident.monthlyRent,
+          amount: proration.amount.toFixed(2),
+        }).returning();
+
+        totalAmount = round2(totalAmount + proration.amount);
+        charges.push({ ...charge, invoiceNumber: invoice.invoiceNumber });
+      }
+
+      const [completed] = await tx.update(pgRentRuns)
+        .set({ invoiceCount: charges.length, totalAmount: totalAmount.toFixed(2) })
+        .where(eq(pgRentRuns.id, run.id))
+        .returning();
+
+      return { ...completed, charges };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "pg_rent_run",
+      resourceId: result.id,
+      metadata: { period, invoiceCount: result.invoiceCount, totalAmount: result.totalAmount },
+    });
+
+    for (const charge of result.charges) {
+      invoiceLedgerService.postAsync(tenantId, "core", charge.invoiceId);
+    }
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRentRouter.get("/runs/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const [run] = await db.select()
+      .from(pgRentRuns)
+      .where(and(eq(pgRentRuns.id, req.params.id), eq(pgRentRuns.tenantId, tenantId)));
+
+    if (!run) {
+      return res.status(404).json({ message: "Rent run not found" });
+    }
+
+    const charges = await db.select({
+      charge: pgRentCharges,
+      invoiceNumber: invoices.invoiceNumber,
+      invoiceStatus: invoices.status,
+      customerName: customers.name,
+    })
+      .from(pgRentCharges)
+      .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+      .innerJoin(customers, eq(invoices.customerId, customers.id))
+      .where(and(eq(pgRentCharges.tenantId, tenantId), eq(pgRentCharges.runId, run.id)));
+
+    res.json({
+      ...run,
+      charges: charges.map(({ charge, ...rest }) => ({ ...charge, ...rest })),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+export async function listRentCharges(req: Request, res: Response) {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = chargesQuerySchema.parse(req.query);
+    const { page, limit, period, residentId, status } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(pgRentCharges.tenantId, tenantId)];
+
+    if (period) {
+      conditions.push(eq(pgRentCharges.period, period));
+    }
+
+    if (residentId) {
+      conditions.push(eq(pgRentCharges.residentId, residentId));
+    }
+
+    if (status) {
+      conditions.push(eq(invoices.status, status));
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        charge: pgRentCharges,
+        invoiceNumber: invoices.invoiceNumber,
+        invoiceStatus: invoices.status,
+        totalAmount: invoices.totalAmount,
+        paidAmount: invoices.paidAmount,
+        dueDate: invoices.dueDate,
+        customerName: customers.name,
+      })
+        .from(pgRentCharges)
+        .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+        .innerJoin(customers, eq(invoices.customerId, customers.id))
+        .where(and(...conditions))
+        .orderBy(desc(pgRentCharges.period), desc(pgRentCharges.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgRentCharges)
+        .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: data.map(({ charge, ...rest }) => ({ ...charge, ...rest })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+}
+
+pgRentRouter.get("/charges", ...staffMiddleware, listRentCharges);
+
+pgRentRouter.get("/late-fee-rule", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+
+    const [rule] = await db.select()
+      .from(pgLateFeeRules)
+      .where(eq(pgLateFeeRules.tenantId, isolation.getTenantId()));
+
+    res.json(rule ?? null);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRentRouter.put("/late-fee-rule", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = lateFeeRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    if (parsed.data.feeType === "percent" && parseFloat(parsed.data.amount) > 100) {
+      return res.status(400).json({ message: "Percentage late fee cannot exceed 100" });
+    }
+
+    const [rule] = await db.insert(pgLateFeeRules)
+      .values({ ...parsed.data, tenantId })
+      .onConflictDoUpdate({
+        target: pgLateFeeRules.tenantId,
+        set: { ...parsed.data, updatedAt: new Date() },
+      })
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_late_fee_rule",
+      resourceId: rule.id,
+      metadata: { feeType: rule.feeType, amount: rule.amount, graceDays: rule.graceDays, isActive: rule.isActive },
+    });
+
+    res.json(rule);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRentRouter.post("/late-fees/apply", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = applyLateFeesSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const result = await applyLateFees(tenantId, parsed.data.date);
+
+    if (result.applied > 0) {
+      await auditService.logAsync({
+        tenantId,
+        userId: req.context?.user?.id,
+        action: "update",
+        resource: "pg_rent_charge",
+        metadata: { lateFees: result },
+      });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,657 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  pgResidents,
+  pgBeds,
+  pgRooms,
+  pgDepositLedger,
+  pgRentCharges,
+  customers,
+  invoices,
+  invoiceItems,
+  insertPgResidentSchema,
+  insertCustomerSchema,
+} from "@shared/schema";
+import { eq, and, desc, asc, sql, ilike, or, isNull, gt } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString, today } from "../../utils/time-of-day";
+import { round2 } from "../../utils/money";
+import { prorateRent, applyDepositEntry, settleDeposit, type DepositEntryType } from "./rent-calculator";
+
+export const pgResidentsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const paymentMethod = z.enum(["cash", "card", "upi", "netbanking", "wallet", "other"]);
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  status: z.enum(["active", "moved_out"]).optional(),
+  roomId: z.string().optional(),
+});
+
+const residentProfileSchema = insertPgResidentSchema.omit({
+  tenantId: true,
+  customerId: true,
+  bedId: true,
+  moveInDate: true,
+  monthlyRent: true,
+  securityDeposit: true,
+  createdBy: true,
+});
+
+const moveInSchema = residentProfileSchema.extend({
+  customerId: z.string().optional(),
+  customer: insertCustomerSchema.pick({ name: true, email: true, phone: true, address: true }).optional(),
+  bedId: z.string().min(1),
+  moveInDate: dateString.optional(),
+  // Defaults to the bed's rent, then the room's
+  monthlyRent: z.coerce.number().positive().optional(),
+  securityDeposit: z.coerce.number().min(0).default(0),
+  depositPaymentMethod: paymentMethod.optional(),
+}).refine(data => data.customerId || data.customer, {
+  message: "Either customerId or customer details are required",
+  path: ["customerId"],
+});
+
+const updateResidentSchema = residentProfileSchema.partial().extend({
+  // Applies to rent runs from the next period onwards
+  monthlyRent: z.coerce.number().positive().optional(),
+});
+
+const moveOutSchema = z.object({
+  moveOutDate: dateString.optional(),
+  deductions: z.array(z.object({
+    description: z.string().min(1),
+    amount: z.coerce.number().positive(),
+  })).default([]),
+  refundMethod: paymentMethod.optional(),
+  notes: z.string().optional(),
+});
+
+const depositEntrySchema = z.object({
+  entryType: z.enum(["collected", "deduction", "refund", "adjustment"]),
+  amount: z.coerce.number().positive(),
+  description: z.string().optional(),
+  paymentMethod: paymentMethod.optional(),
+});
+
+export class BedUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BedUnavailableError";
+  }
+}
+
+async function findResident(tenantId: string, id: string) {
+  const [resident] = await db.select()
+    .from(pgResidents)
+    .where(and(eq(pgResidents.id, id), eq(pgResidents.tenantId, tenantId), isNull(pgResidents.deletedAt)));
+  return resident;
+}
+
+// Summed rather than read from the latest entry: entries written in one
+// transaction share a created_at timestamp
+async function depositBalance(tx: Transaction | typeof db, residentId: string): Promise<number> {
+  const [result] = await tx.select({
+    balance: sql<string>`COALESCE(SUM(CASE WHEN ${pgDepositLedger.entryType} IN ('collected', 'adjustment') THEN ${pgDepositLedger.amount} ELSE -${pgDepositLedger.amount} END), 0)`,
+  })
+    .from(pgDepositLedger)
+    .where(eq(pgDepositLedger.residentId, residentId));
+  return round2(parseFloat(result?.balance || "0"));
+}
+
+/**
+ * Appends a ledger entry under a per-resident lock so concurrent entries
+ * cannot compute their running balance from the same starting point.
+ */
+async function appendDepositEntry(
+  tx: Transaction,
+  entry: {
+    tenantId: string;
+    residentId: string;
+    entryType: DepositEntryType;
+    amount: number;
+    description?: string;
+    paymentMethod?: z.infer<typeof paymentMethod>;
+    createdBy?: string;
+  }
+) {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`pg:deposit:${entry.residentId}`}))`);
+
+  const balance = await depositBalance(tx, entry.residentId);
+  const balanceAfter = applyDepositEntry(balance, entry.entryType, entry.amount);
+
+  const [created] = await tx.insert(pgDepositLedger).values({
+    ...entry,
+    amount: entry.amount.toFixed(2),
+    balanceAfter: balanceAfter.toFixed(2),
+  }).returning();
+  return created;
+}
+
+/**
+ * Rent already billed past the move-out date is credited back: unpaid
+ * invoices get a negative line, anything already paid goes to the deposit.
+ */
+async function creditRentAfterMoveOut(
+  tx: Transaction,
+  resident: typeof pgResidents.$inferSelect,
+  moveOutDate: string,
+  userId?: string
+) {
+  const charges = await tx.select({ charge: pgRentCharges, invoice: invoices })
+    .from(pgRentCharges)
+    .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+    .where(and(eq(pgRentCharges.residentId, resident.id), gt(pgRentCharges.periodEnd, moveOutDate)));
+
+  const credits = [];
+
+  for (const { charge, invoice } of charges) {
+    const proration = prorateRent(parseFloat(charge.monthlyRent), charge.period, resident.moveInDate, moveOutDate);
+    const billed = parseFloat(charge.amount);
+    const credit = round2(billed - (proration?.amount ?? 0));
+    if (credit <= 0) continue;
+
+    const unpaid = parseFloat(invoice.paidAmount || "0") === 0
+      && ["draft", "pending", "overdue"].includes(invoice.status || "");
+
+    if (unpaid) {
+      const newTotal = round2(parseFloat(invoice.totalAmount) - credit);
+      await tx.insert(invoiceItems).values({
+        invoiceId: invoice.id,
+        description: `Move-out credit for ${charge.period} (left ${moveOutDate})`,
+        quantity: 1,
+        unitPrice: (-credit).toFixed(2),
+        totalPrice: (-credit).toFixed(2),
+      });
+      await tx.update(invoices)
+        .set({
+          subtotal: round2(parseFloat(invoice.subtotal) - credit).toFixed(2),
+          totalAmount: newTotal.toFixed(2),
+          status: newTotal <= 0 ? "cancelled" : invoice.status,
+          updatedAt: new Date(),
+        })
+        .where(eq(invoices.id, invoice.id));
+    } else {
+      await appendDepositEntry(tx, {
+        tenantId: resident.tenantId,
+        residentId: resident.id,
+        entryType: "adjustment",
+        amount: credit,
+        description: `Rent credit for ${charge.period} after move-out (invoice ${invoice.invoiceNumber})`,
+        createdBy: userId,
+      });
+    }
+
+    await tx.update(pgRentCharges)
+      .set({
+        periodEnd: proration?.periodEnd ?? charge.periodStart,
+        daysBilled: proration?.daysBilled ?? 0,
+        amount: (proration?.amount ?? 0).toFixed(2),
+      })
+      .where(eq(pgRentCharges.id, charge.id));
+
+    credits.push({ period: charge.period, invoiceId: invoice.id, credit, creditedTo: unpaid ? "invoice" : "deposit" });
+  }
+
+  return credits;
+}
+
+pgResidentsRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, search, status, roomId } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(pgResidents.tenantId, tenantId), isNull(pgResidents.deletedAt)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(customers.name, `%${search}%`),
+          ilike(customers.phone, `%${search}%`),
+          ilike(customers.email, `%${search}%`)
+        )!
+      );
+    }
+
+    if (status) {
+      conditions.push(eq(pgResidents.status, status));
+    }
+
+    if (roomId) {
+      conditions.push(eq(pgBeds.roomId, roomId));
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        resident: pgResidents,
+        customerName: customers.name,
+        customerPhone: customers.phone,
+        bedLabel: pgBeds.label,
+        roomId: pgRooms.id,
+        roomNumber: pgRooms.roomNumber,
+      })
+        .from(pgResidents)
+        .innerJoin(customers, eq(pgResidents.customerId, customers.id))
+        .innerJoin(pgBeds, eq(pgResidents.bedId, pgBeds.id))
+        .innerJoin(pgRooms, eq(pgBeds.roomId, pgRooms.id))
+        .where(and(...conditions))
+        .orderBy(asc(pgRooms.roomNumber), asc(pgBeds.label), desc(pgResidents.moveInDate))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgResidents)
+        .innerJoin(customers, eq(pgResidents.customerId, customers.id))
+        .innerJoin(pgBeds, eq(pgResidents.bedId, pgBeds.id))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: data.map(({ resident, ...rest }) => ({ ...resident, ...rest })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgResidentsRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const [row] = await db.select({
+      resident: pgResidents,
+      customer: customers,
+      bed: pgBeds,
+      roomNumber: pgRooms.roomNumber,
+    })
+      .from(pgResidents)
+      .innerJoin(customers, eq(pgResidents.customerId, customers.id))
+      .innerJoin(pgBeds, eq(pgResidents.bedId, pgBeds.id))
+      .innerJoin(pgRooms, eq(pgBeds.roomId, pgRooms.id))
+      .where(and(eq(pgResidents.id, req.params.id), eq(pgResidents.tenantId, tenantId), isNull(pgResidents.deletedAt)));
+
+    if (!row) {
+      return res.status(404).json({ message: "Resident not found" });
+    }
+
+    const [balance, ledger, charges] = await Promise.all([
+      depositBalance(db, row.resident.id),
+      db.select()
+        .from(pgDepositLedger)
+        .where(and(eq(pgDepositLedger.tenantId, tenantId), eq(pgDepositLedger.residentId, row.resident.id)))
+        .orderBy(asc(pgDepositLedger.createdAt)),
+      db.select({
+        charge: pgRentCharges,
+        invoiceNumber: invoices.invoiceNumber,
+        invoiceStatus: invoices.status,
+        totalAmount: invoices.totalAmount,
+        paidAmount: invoices.paidAmount,
+        dueDate: invoices.dueDate,
+      })
+        .from(pgRentCharges)
+        .innerJoin(invoices, eq(pgRentCharges.invoiceId, invoices.id))
+        .where(and(eq(pgRentCharges.tenantId, tenantId), eq(pgRentCharges.residentId, row.resident.id)))
+        .orderBy(desc(pgRentCharges.period)),
+    ]);
+
+    res.json({
+      ...row.resident,
+      customer: row.customer,
+      bed: { ...row.bed, roomNumber: row.roomNumber },
+      depositBalance: balance,
+      depositLedger: ledger,
+      rentCharges: charges.map(({ charge, ...invoice }) => ({ ...charge, ...invoice })),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Move-in: allocates the bed and records the security deposit collected
+pgResidentsRouter.post("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = moveInSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const {
+      customerId,
+      customer: customerDetails,
+      bedId,
+      securityDeposit,
+      depositPaymentMethod,
+      ...profile
+    } = parsed.data;
+    const moveInDate = parsed.data.moveInDate ?? today();
+
+    if (customerId) {
+      const [customer] = await db.select({ id: customers.id })
+        .from(customers)
+        .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId), isNull(customers.deletedAt)));
+
+      if (!customer) {
+        return res.status(400).json({ message: "Customer not found" });
+      }
+
+      const [current] = await db.select({ id: pgResidents.id })
+        .from(pgResidents)
+        .where(and(
+          eq(pgResidents.tenantId, tenantId),
+          eq(pgResidents.customerId, customerId),
+          eq(pgResidents.status, "active"),
+          isNull(pgResidents.deletedAt)
+        ));
+
+      if (current) {
+        return res.status(409).json({ message: "Customer already occupies a bed", residentId: current.id });
+      }
+    }
+
+    const resident = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`pg:bed:${bedId}`}))`);
+
+      const [bed] = await tx.select({ bed: pgBeds, roomRent: pgRooms.monthlyRent })
+        .from(pgBeds)
+        .innerJoin(pgRooms, eq(pgBeds.roomId, pgRooms.id))
+        .where(and(eq(pgBeds.id, bedId), eq(pgBeds.tenantId, tenantId), isNull(pgBeds.deletedAt), isNull(pgRooms.deletedAt)));
+
+      if (!bed) {
+        throw new BedUnavailableError("Bed not found");
+      }
+      if (bed.bed.status !== "available" && bed.bed.status !== "reserved") {
+        throw new BedUnavailableError(`Bed is ${bed.bed.status}`);
+      }
+
+      let resolvedCustomerId = customerId;
+      if (!resolvedCustomerId) {
+        const [created] = await tx.insert(customers).values({
+          ...customerDetails!,
+          tenantId,
+          createdBy: userId,
+        }).returning();
+        resolvedCustomerId = created.id;
+      }
+
+      const monthlyRent = profile.monthlyRent ?? parseFloat(bed.bed.monthlyRent ?? bed.roomRent);
+
+      const [created] = await tx.insert(pgResidents).values({
+        ...profile,
+        tenantId,
+        customerId: resolvedCustomerId,
+        bedId,
+        moveInDate,
+        monthlyRent: monthlyRent.toFixed(2),
+        securityDeposit: securityDeposit.toFixed(2),
+        createdBy: userId,
+      }).returning();
+
+      await tx.update(pgBeds)
+        .set({ status: "occupied", updatedAt: new Date() })
+        .where(eq(pgBeds.id, bedId));
+
+      if (securityDeposit > 0) {
+        await appendDepositEntry(tx, {
+          tenantId,
+          residentId: created.id,
+          entryType: "collected",
+          amount: securityDeposit,
+          description: "Security deposit collected at move-in",
+          paymentMethod: depositPaymentMethod,
+          createdBy: userId,
+        });
+      }
+
+      return created;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "create",
+      resource: "pg_resident",
+      resourceId: resident.id,
+      metadata: { bedId, moveInDate, monthlyRent: resident.monthlyRent, securityDeposit: resident.securityDeposit },
+    });
+
+    res.status(201).json(resident);
+  } catch (error: any) {
+    if (error instanceof BedUnavailableError) {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgResidentsRouter.patch("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const resident = await findResident(tenantId, req.params.id);
+    if (!resident) {
+      return res.status(404).json({ message: "Resident not found" });
+    }
+
+    const parsed = updateResidentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { monthlyRent, ...profile } = parsed.data;
+
+    const [updated] = await db.update(pgResidents)
+      .set({
+        ...profile,
+        ...(monthlyRent !== undefined ? { monthlyRent: monthlyRent.toFixed(2) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(pgResidents.id, resident.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_resident",
+      resourceId: resident.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgResidentsRouter.post("/:id/move-out", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const userId = req.context?.user?.id;
+
+    const parsed = moveOutSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const resident = await findResident(tenantId, req.params.id);
+    if (!resident) {
+      return res.status(404).json({ message: "Resident not found" });
+    }
+
+    if (resident.status !== "active") {
+      return res.status(400).json({ message: "Resident has already moved out" });
+    }
+
+    const moveOutDate = parsed.data.moveOutDate ?? today();
+    if (moveOutDate < resident.moveInDate) {
+      return res.status(400).json({ message: "Move-out date is before the move-in date" });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const rentCredits = await creditRentAfterMoveOut(tx, resident, moveOutDate, userId);
+
+      const held = await depositBalance(tx, resident.id);
+      const settlement = settleDeposit(held, parsed.data.deductions.map(d => d.amount));
+
+      // Itemised deductions, stopping once the deposit is exhausted
+      let remaining = settlement.deducted;
+      for (const deduction of parsed.data.deductions) {
+        const amount = round2(Math.min(deduction.amount, remaining));
+        if (amount <= 0) break;
+        await appendDepositEntry(tx, {
+          tenantId,
+          residentId: resident.id,
+          entryType: "deduction",
+          amount,
+          description: deduction.description,
+          createdBy: userId,
+        });
+        remaining = round2(remaining - amount);
+      }
+
+      if (settlement.refund > 0) {
+        await appendDepositEntry(tx, {
+          tenantId,
+          residentId: resident.id,
+          entryType: "refund",
+          amount: settlement.refund,
+          description: "Deposit refund at move-out",
+          paymentMethod: parsed.data.refundMethod,
+          createdBy: userId,
+        });
+      }
+
+      await tx.update(pgBeds)
+        .set({ status: "available", updatedAt: new Date() })
+        .where(eq(pgBeds.id, resident.bedId));
+
+      const [updated] = await tx.update(pgResidents)
+        .set({
+          status: "moved_out",
+          moveOutDate,
+          notes: parsed.data.notes ?? resident.notes,
+          updatedAt: new Date(),
+        })
+        .where(eq(pgResidents.id, resident.id))
+        .returning();
+
+      return { resident: updated, settlement: { held, ...settlement, rentCredits } };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId,
+      action: "update",
+      resource: "pg_resident",
+      resourceId: resident.id,
+      metadata: { moveOut: { moveOutDate, bedId: resident.bedId, ...result.settlement } },
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgResidentsRouter.get("/:id/deposit", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const resident = await findResident(tenantId, req.params.id);
+    if (!resident) {
+      return res.status(404).json({ message: "Resident not found" });
+    }
+
+    const [balance, entries] = await Promise.all([
+      depositBalance(db, resident.id),
+      db.select()
+        .from(pgDepositLedger)
+        .where(and(eq(pgDepositLedger.tenantId, tenantId), eq(pgDepositLedger.residentId, resident.id)))
+        .orderBy(asc(pgDepositLedger.createdAt)),
+    ]);
+
+    res.json({ balance, entries });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgResidentsRouter.post("/:id/deposit", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = depositEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const resident = await findResident(tenantId, req.params.id);
+    if (!resident) {
+      return res.status(404).json({ message: "Resident not found" });
+    }
+
+    const entry = await db.transaction(tx => appendDepositEntry(tx, {
+      tenantId,
+      residentId: resident.id,
+      ...parsed.data,
+      createdBy: req.context?.user?.id,
+    }));
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "pg_deposit_entry",
+      resourceId: entry.id,
+      metadata: { residentId: resident.id, entryType: entry.entryType, amount: entry.amount, balanceAfter: entry.balanceAfter },
+    });
+
+    res.status(201).json(entry);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
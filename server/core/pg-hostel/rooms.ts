@@ -0,0 +1,431 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { pgRooms, pgBeds, pgResidents, customers, insertPgRoomSchema } from "@shared/schema";
+import { eq, and, asc, sql, ilike, isNull, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const pgRoomsRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+});
+
+const createRoomSchema = insertPgRoomSchema.extend({
+  // Bed labels to create with the room, e.g. ["A", "B", "C"]
+  beds: z.array(z.string().min(1).max(20)).max(20).optional(),
+});
+
+const bedSchema = z.object({
+  label: z.string().min(1).max(20),
+  monthlyRent: z.string().nullable().optional(),
+});
+
+const updateBedSchema = bedSchema.partial().extend({
+  // "occupied" is only set by move-in/move-out
+  status: z.enum(["available", "reserved", "maintenance"]).optional(),
+});
+
+async function findRoom(tenantId: string, id: string) {
+  const [room] = await db.select()
+    .from(pgRooms)
+    .where(and(eq(pgRooms.id, id), eq(pgRooms.tenantId, tenantId), isNull(pgRooms.deletedAt)));
+  return room;
+}
+
+async function findBed(tenantId: string, id: string) {
+  const [bed] = await db.select()
+    .from(pgBeds)
+    .where(and(eq(pgBeds.id, id), eq(pgBeds.tenantId, tenantId), isNull(pgBeds.deletedAt)));
+  return bed;
+}
+
+async function bedsWithOccupants(tenantId: string, roomIds: string[]) {
+  if (roomIds.length === 0) {
+    return [];
+  }
+
+  return db.select({
+    bed: pgBeds,
+    residentId: pgResidents.id,
+    residentName: customers.name,
+    moveInDate: pgResidents.moveInDate,
+  })
+    .from(pgBeds)
+    .leftJoin(pgResidents, and(
+      eq(pgResidents.bedId, pgBeds.id),
+      eq(pgResidents.status, "active"),
+      isNull(pgResidents.deletedAt)
+    ))
+    .leftJoin(customers, eq(pgResidents.customerId, customers.id))
+    .where(and(eq(pgBeds.tenantId, tenantId), inArray(pgBeds.roomId, roomIds), isNull(pgBeds.deletedAt)))
+    .orderBy(asc(pgBeds.label));
+}
+
+pgRoomsRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, search, status } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(pgRooms.tenantId, tenantId), isNull(pgRooms.deletedAt)];
+
+    if (search) {
+      conditions.push(ilike(pgRooms.roomNumber, `%${search}%`));
+    }
+
+    if (status) {
+      conditions.push(eq(pgRooms.isActive, status === "active"));
+    }
+
+    const [data, countResult] = await Promise.all([
+      db.select({
+        room: pgRooms,
+        totalBeds: sql<number>`count(${pgBeds.id})::int`,
+        occupiedBeds: sql<number>`count(${pgBeds.id}) FILTER (WHERE ${pgBeds.status} = 'occupied')::int`,
+        availableBeds: sql<number>`count(${pgBeds.id}) FILTER (WHERE ${pgBeds.status} = 'available')::int`,
+      })
+        .from(pgRooms)
+        .leftJoin(pgBeds, and(eq(pgBeds.roomId, pgRooms.id), isNull(pgBeds.deletedAt)))
+        .where(and(...conditions))
+        .groupBy(pgRooms.id)
+        .orderBy(asc(pgRooms.roomNumber))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(pgRooms)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: data.map(({ room, ...counts }) => ({ ...room, ...counts })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+// Bed-level occupancy board for every active room
+pgRoomsRouter.get("/occupancy", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const rooms = await db.select()
+      .from(pgRooms)
+      .where(and(eq(pgRooms.tenantId, tenantId), eq(pgRooms.isActive, true), isNull(pgRooms.deletedAt)))
+      .orderBy(asc(pgRooms.roomNumber));
+
+    const beds = await bedsWithOccupants(tenantId, rooms.map(r => r.id));
+
+    res.json(rooms.map(room => ({
+      ...room,
+      beds: beds
+        .filter(b => b.bed.roomId === room.id)
+        .map(({ bed, ...occupant }) => ({ ...bed, occupant: occupant.residentId ? occupant : null })),
+    })));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const room = await findRoom(tenantId, req.params.id);
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    const beds = await bedsWithOccupants(tenantId, [room.id]);
+
+    res.json({
+      ...room,
+      beds: beds.map(({ bed, ...occupant }) => ({ ...bed, occupant: occupant.residentId ? occupant : null })),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = createRoomSchema.safeParse({ ...req.body, tenantId });
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { beds: bedLabels, ...roomData } = parsed.data;
+
+    if (bedLabels && new Set(bedLabels).size !== bedLabels.length) {
+      return res.status(400).json({ message: "Bed labels must be unique within a room" });
+    }
+
+    const [existing] = await db.select({ id: pgRooms.id })
+      .from(pgRooms)
+      .where(and(eq(pgRooms.tenantId, tenantId), eq(pgRooms.roomNumber, roomData.roomNumber), isNull(pgRooms.deletedAt)));
+
+    if (existing) {
+      return res.status(409).json({ message: `Room ${roomData.roomNumber} already exists` });
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [room] = await tx.insert(pgRooms).values(roomData).returning();
+
+      const beds = bedLabels?.length
+        ? await tx.insert(pgBeds)
+          .values(bedLabels.map(label => ({ tenantId, roomId: room.id, label })))
+          .returning()
+        : [];
+
+      return { ...room, beds };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "pg_room",
+      resourceId: result.id,
+      metadata: { roomNumber: result.roomNumber, beds: result.beds.length },
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const existing = await findRoom(tenantId, id);
+    if (!existing) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    const parsed = insertPgRoomSchema.partial().omit({ tenantId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(pgRooms)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(pgRooms.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_room",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const existing = await findRoom(tenantId, id);
+    if (!existing) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    const [occupied] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(pgBeds)
+      .where(and(eq(pgBeds.roomId, id), eq(pgBeds.status, "occupied"), isNull(pgBeds.deletedAt)));
+
+    if (occupied?.count) {
+      return res.status(409).json({ message: "Room has occupied beds; move residents out first" });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(pgRooms)
+        .set({ deletedAt: new Date(), isActive: false })
+        .where(eq(pgRooms.id, id));
+      await tx.update(pgBeds)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(pgBeds.roomId, id), isNull(pgBeds.deletedAt)));
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "pg_room",
+      resourceId: id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.post("/:id/beds", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const room = await findRoom(tenantId, req.params.id);
+    if (!room) {
+      return res.status(404).json({ message: "Room not found" });
+    }
+
+    const parsed = bedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [duplicate] = await db.select({ id: pgBeds.id })
+      .from(pgBeds)
+      .where(and(eq(pgBeds.roomId, room.id), eq(pgBeds.label, parsed.data.label), isNull(pgBeds.deletedAt)));
+
+    if (duplicate) {
+      return res.status(409).json({ message: `Bed ${parsed.data.label} already exists in room ${room.roomNumber}` });
+    }
+
+    const [bed] = await db.insert(pgBeds).values({
+      tenantId,
+      roomId: room.id,
+      label: parsed.data.label,
+      monthlyRent: parsed.data.monthlyRent ?? null,
+    }).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "pg_bed",
+      resourceId: bed.id,
+      metadata: { roomId: room.id, label: bed.label },
+    });
+
+    res.status(201).json(bed);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.patch("/beds/:bedId", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const bed = await findBed(tenantId, req.params.bedId);
+    if (!bed) {
+      return res.status(404).json({ message: "Bed not found" });
+    }
+
+    const parsed = updateBedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    if (parsed.data.status && bed.status === "occupied") {
+      return res.status(409).json({ message: "Bed is occupied; move the resident out first" });
+    }
+
+    const [updated] = await db.update(pgBeds)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(pgBeds.id, bed.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "pg_bed",
+      resourceId: bed.id,
+      metadata: { changes: Object.keys(parsed.data), status: parsed.data.status },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+pgRoomsRouter.delete("/beds/:bedId", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const bed = await findBed(tenantId, req.params.bedId);
+    if (!bed) {
+      return res.status(404).json({ message: "Bed not found" });
+    }
+
+    if (bed.status === "occupied") {
+      return res.status(409).json({ message: "Bed is occupied; move the resident out first" });
+    }
+
+    await db.update(pgBeds)
+      .set({ deletedAt: new Date() })
+      .where(eq(pgBeds.id, bed.id));
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "pg_bed",
+      resourceId: bed.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
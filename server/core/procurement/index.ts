@@ -0,0 +1,17 @@
+/**
+ * Procurement
+ *
+ * Buying raw materials and inventory items from suppliers:
+ * - Supplier master data and purchase requisitions
+ * - Purchase orders with amount-based approval thresholds
+ * - Partial goods receipts that post stock movements automatically
+ * - Supplier bills three-way matched against order and receipts
+ * - Reorder suggestions for raw materials at their reorder point
+ *
+ * @module server/core/procurement
+ */
+
+export * from "./purchasing";
+export * from "./three-way-match";
+export { procurementService } from "./procurement-service";
+export { procurementRouter } from "./procurement-routes";
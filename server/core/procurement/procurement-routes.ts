@@ -0,0 +1,796 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { APPROVAL_ROLES, PROCUREMENT_ITEM_TYPES, ProcurementError } from "./purchasing";
+import { BILL_STATUSES, ORDER_STATUSES, REQUISITION_STATUSES, procurementService } from "./procurement-service";
+
+export const procurementRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const percent = z.number().min(0).max(100);
+const quantity = z.number().positive().max(1_000_000_000);
+const price = z.number().min(0).max(1_000_000_000);
+
+const supplierSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(255),
+  contactName: z.string().trim().max(255).nullish(),
+  email: z.string().trim().email().max(255).nullish(),
+  phone: z.string().trim().max(50).nullish(),
+  address: z.string().trim().max(2000).nullish(),
+  taxId: z.string().trim().max(50).nullish(),
+  currency: z.string().trim().length(3).toUpperCase().optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+  notes: z.string().max(2000).nullish(),
+});
+
+const listSuppliersSchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  active: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+const settingsSchema = z.object({
+  approvalThresholds: z.array(z.object({
+    minAmount: price,
+    role: z.enum(APPROVAL_ROLES),
+  })).max(10),
+  priceTolerancePercent: percent,
+  quantityTolerancePercent: percent,
+  overReceiptTolerancePercent: percent,
+});
+
+const itemSchema = {
+  itemType: z.enum(PROCUREMENT_ITEM_TYPES),
+  itemId: z.string().min(1),
+  description: z.string().trim().min(1).max(500).optional(),
+  quantity,
+};
+
+const requisitionSchema = z.object({
+  lines: z.array(z.object({
+    ...itemSchema,
+    estimatedUnitCost: price.nullish(),
+    supplierId: z.string().min(1).nullish(),
+  })).min(1).max(200),
+  neededBy: dateString.nullish(),
+  notes: z.string().max(2000).nullish(),
+});
+
+const decisionSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+const convertSchema = z.object({
+  orderDate: dateString,
+  fallbackSupplierId: z.string().min(1).optional(),
+});
+
+const orderLineSchema = z.object({
+  ...itemSchema,
+  unitPrice: price.optional(),
+  taxRate: percent.optional(),
+});
+
+const orderSchema = z.object({
+  supplierId: z.string().min(1),
+  orderDate: dateString,
+  expectedDate: dateString.nullish(),
+  notes: z.string().max(2000).nullish(),
+  lines: z.array(orderLineSchema).min(1).max(200),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const receiptSchema = z.object({
+  receivedDate: dateString,
+  warehouseId: z.string().min(1).optional(),
+  supplierDeliveryNote: z.string().trim().max(100).nullish(),
+  notes: z.string().max(2000).nullish(),
+  lines: z.array(z.object({
+    purchaseOrderLineId: z.string().min(1),
+    quantity,
+    batchNumber: z.string().trim().max(100).nullish(),
+    serialNumbers: z.array(z.string().trim().min(1).max(100)).max(1000).optional(),
+    expiryDate: dateString.nullish(),
+  })).min(1).max(200),
+});
+
+const billSchema = z.object({
+  purchaseOrderId: z.string().min(1),
+  supplierInvoiceNumber: z.string().trim().min(1).max(100),
+  billDate: dateString,
+  dueDate: dateString.nullish(),
+  lines: z.array(z.object({
+    purchaseOrderLineId: z.string().min(1),
+    quantity,
+    unitPrice: price,
+    taxRate: percent.optional(),
+  })).min(1).max(200),
+});
+
+const approveBillSchema = z.object({
+  note: z.string().trim().min(1).max(1000),
+});
+
+const payBillSchema = z.object({
+  paidAt: z.coerce.date().optional(),
+  reference: z.string().trim().max(100).nullish(),
+});
+
+const pageSchema = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+};
+
+const listRequisitionsSchema = z.object({
+  status: z.enum(REQUISITION_STATUSES).optional(),
+  ...pageSchema,
+});
+
+const listOrdersSchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  supplierId: z.string().optional(),
+  ...pageSchema,
+});
+
+const listReceiptsSchema = z.object({
+  purchaseOrderId: z.string().optional(),
+  supplierId: z.string().optional(),
+  ...pageSchema,
+});
+
+const listBillsSchema = z.object({
+  status: z.enum(BILL_STATUSES).optional(),
+  supplierId: z.string().optional(),
+  purchaseOrderId: z.string().optional(),
+  ...pageSchema,
+});
+
+function sendProcurementError(res: Response, error: any) {
+  if (error instanceof ProcurementError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+function paginated<T>(data: T[], total: number, page: number, limit: number) {
+  return { data, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+}
+
+// ==================== SUPPLIERS ====================
+
+procurementRouter.get("/suppliers", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listSuppliersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.listSuppliers(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/suppliers/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getSupplier(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/suppliers", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = supplierSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const supplier = await procurementService.createSupplier(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "supplier",
+      resourceId: supplier.id,
+    });
+
+    res.status(201).json(supplier);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.patch("/suppliers/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = supplierSchema.partial().extend({ isActive: z.boolean().optional() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const supplier = await procurementService.updateSupplier(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "supplier",
+      resourceId: supplier.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(supplier);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// Suppliers are referenced by orders and bills, so they are deactivated rather than deleted
+procurementRouter.delete("/suppliers/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const supplier = await procurementService.updateSupplier(isolation.getTenantId(), req.params.id, { isActive: false });
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "supplier",
+      resourceId: supplier.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// ==================== SETTINGS ====================
+
+procurementRouter.get("/settings", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getSettings(isolation.getTenantId()));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.put("/settings", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const settings = await procurementService.updateSettings(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "procurement_settings",
+      resourceId: settings.id,
+      newValue: parsed.data,
+    });
+
+    res.json(settings);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// ==================== REQUISITIONS ====================
+
+procurementRouter.get("/requisitions", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listRequisitionsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await procurementService.listRequisitions(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/requisitions/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getRequisition(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/requisitions", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = requisitionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const requisition = await procurementService.createRequisition(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "purchase_requisition",
+      resourceId: requisition.id,
+    });
+
+    res.status(201).json(requisition);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/requisitions/:id/submit", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const requisition = await procurementService.submitRequisition(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_requisition",
+      resourceId: requisition.id,
+      metadata: { status: requisition.status },
+    });
+
+    res.json(requisition);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+for (const [path, decision] of [["approve", "approved"], ["reject", "rejected"]] as const) {
+  procurementRouter.post(`/requisitions/:id/${path}`, ...managerMiddleware, async (req: Request, res: Response) => {
+    try {
+      const parsed = decisionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+      }
+      const isolation = createTenantIsolation(req);
+      const requisition = await procurementService.decideRequisition(
+        isolation.getTenantId(),
+        req.params.id,
+        req.context?.user?.id,
+        decision,
+        parsed.data.note,
+      );
+
+      await auditService.logAsync({
+        tenantId: isolation.getTenantId(),
+        userId: req.context?.user?.id,
+        action: "update",
+        resource: "purchase_requisition",
+        resourceId: requisition.id,
+        metadata: { status: requisition.status, note: parsed.data.note },
+      });
+
+      res.json(requisition);
+    } catch (error: any) {
+      sendProcurementError(res, error);
+    }
+  });
+}
+
+procurementRouter.post("/requisitions/:id/cancel", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const requisition = await procurementService.cancelRequisition(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_requisition",
+      resourceId: requisition.id,
+      metadata: { status: requisition.status },
+    });
+
+    res.json(requisition);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/requisitions/:id/convert", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = convertSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const orders = await procurementService.convertRequisition(
+      isolation.getTenantId(),
+      req.params.id,
+      req.context?.user?.id,
+      parsed.data,
+    );
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_requisition",
+      resourceId: req.params.id,
+      metadata: { status: "converted", purchaseOrderIds: orders.map((order) => order.id) },
+    });
+
+    res.status(201).json(orders);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// ==================== PURCHASE ORDERS ====================
+
+procurementRouter.get("/purchase-orders", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listOrdersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await procurementService.listOrders(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/purchase-orders/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getOrder(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/purchase-orders", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = orderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const order = await procurementService.createOrder(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "purchase_order",
+      resourceId: order.id,
+      metadata: { poNumber: order.poNumber, totalAmount: order.totalAmount },
+    });
+
+    res.status(201).json(order);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.patch("/purchase-orders/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = orderSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const order = await procurementService.updateOrder(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_order",
+      resourceId: order.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(order);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/purchase-orders/:id/submit", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const order = await procurementService.submitOrder(isolation.getTenantId(), req.params.id, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_order",
+      resourceId: order.id,
+      metadata: { status: order.status, requiredApprovalRole: order.requiredApprovalRole },
+    });
+
+    res.json(order);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// The order's own threshold decides whether a manager is senior enough
+procurementRouter.post("/purchase-orders/:id/approve", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const order = await procurementService.approveOrder(isolation.getTenantId(), req.params.id, {
+      id: req.context?.user?.id,
+      role: req.context?.role?.name,
+    });
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_order",
+      resourceId: order.id,
+      metadata: { status: order.status },
+    });
+
+    res.json(order);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/purchase-orders/:id/reject", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = rejectSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const order = await procurementService.rejectOrder(isolation.getTenantId(), req.params.id, {
+      id: req.context?.user?.id,
+      role: req.context?.role?.name,
+    }, parsed.data.reason);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "purchase_order",
+      resourceId: order.id,
+      metadata: { status: order.status, reason: parsed.data.reason },
+    });
+
+    res.json(order);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+for (const path of ["cancel", "close"] as const) {
+  procurementRouter.post(`/purchase-orders/:id/${path}`, ...managerMiddleware, async (req: Request, res: Response) => {
+    try {
+      const isolation = createTenantIsolation(req);
+      const order = path === "cancel"
+        ? await procurementService.cancelOrder(isolation.getTenantId(), req.params.id)
+        : await procurementService.closeOrder(isolation.getTenantId(), req.params.id);
+
+      await auditService.logAsync({
+        tenantId: isolation.getTenantId(),
+        userId: req.context?.user?.id,
+        action: "update",
+        resource: "purchase_order",
+        resourceId: order.id,
+        metadata: { status: order.status },
+      });
+
+      res.json(order);
+    } catch (error: any) {
+      sendProcurementError(res, error);
+    }
+  });
+}
+
+// ==================== GOODS RECEIPTS ====================
+
+procurementRouter.post("/purchase-orders/:id/receipts", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = receiptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const receipt = await procurementService.receiveGoods(isolation.getTenantId(), req.params.id, req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "goods_receipt",
+      resourceId: receipt.id,
+      metadata: { grnNumber: receipt.grnNumber, purchaseOrderId: req.params.id },
+    });
+
+    res.status(201).json(receipt);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/goods-receipts", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listReceiptsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await procurementService.listReceipts(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/goods-receipts/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getReceipt(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// ==================== SUPPLIER BILLS ====================
+
+procurementRouter.get("/bills", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = listBillsSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await procurementService.listBills(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.get("/bills/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getBill(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/bills", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = billSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const bill = await procurementService.createBill(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "supplier_bill",
+      resourceId: bill.id,
+      metadata: { billNumber: bill.billNumber, status: bill.status, exceptions: bill.matchExceptions.length },
+    });
+
+    res.status(201).json(bill);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/bills/:id/approve", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = approveBillSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const bill = await procurementService.approveBill(isolation.getTenantId(), req.params.id, req.context?.user?.id, parsed.data.note);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "supplier_bill",
+      resourceId: bill.id,
+      metadata: { status: bill.status, note: parsed.data.note },
+    });
+
+    res.json(bill);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/bills/:id/pay", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = payBillSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const bill = await procurementService.markBillPaid(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "supplier_bill",
+      resourceId: bill.id,
+      metadata: { status: bill.status, reference: bill.paymentReference },
+    });
+
+    res.json(bill);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+procurementRouter.post("/bills/:id/cancel", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const bill = await procurementService.cancelBill(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "supplier_bill",
+      resourceId: bill.id,
+      metadata: { status: bill.status },
+    });
+
+    res.json(bill);
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
+
+// ==================== REORDERING ====================
+
+procurementRouter.get("/reorder-suggestions", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await procurementService.getReorderSuggestions(isolation.getTenantId()));
+  } catch (error: any) {
+    sendProcurementError(res, error);
+  }
+});
@@ -0,0 +1,1106 @@
+import { db } from "../../db";
+import {
+  goodsReceiptLines,
+  goodsReceipts,
+  inventoryItems,
+  procurementSettings,
+  purchaseOrderLines,
+  purchaseOrders,
+  purchaseRequisitions,
+  rawMaterialStockMovements,
+  rawMaterials,
+  supplierBillLines,
+  supplierBills,
+  suppliers,
+  type GoodsReceipt,
+  type GoodsReceiptLine,
+  type ProcurementSettings,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseRequisition,
+  type PurchaseRequisitionLine,
+  type Supplier,
+  type SupplierBill,
+  type SupplierBillLine,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, ilike, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import { storage } from "../../storage";
+import { ROLE_HIERARCHY } from "../auth-middleware";
+import { accountingService } from "../accounting";
+import { StockError, stockService } from "../stock";
+import {
+  ProcurementError,
+  documentNumber,
+  lineTotal,
+  orderTotals,
+  receiptStatus,
+  reorderSuggestions,
+  requiredApprovalRole,
+  validateReceipt,
+  validateThresholds,
+  type ProcurementApprovalThreshold,
+  type ProcurementDocument,
+  type ProcurementItemType,
+  type ReorderSuggestion,
+} from "./purchasing";
+import { threeWayMatch } from "./three-way-match";
+import { amount, round4 } from "../../utils/money";
+import { addDays } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const REQUISITION_STATUSES = ["draft", "submitted", "approved", "rejected", "converted", "cancelled"] as const;
+export const ORDER_STATUSES = ["draft", "pending_approval", "approved", "rejected", "partially_received", "received", "closed", "cancelled"] as const;
+export const BILL_STATUSES = ["matched", "on_hold", "approved", "paid", "cancelled"] as const;
+
+// Orders goods can still arrive against, and so count as stock on order
+const RECEIVABLE_ORDER_STATUSES: PurchaseOrder["status"][] = ["approved", "partially_received"];
+
+// Orders a supplier bill can be raised against
+const BILLABLE_ORDER_STATUSES: PurchaseOrder["status"][] = ["partially_received", "received", "closed"];
+
+export interface SupplierInput {
+  code: string;
+  name: string;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  taxId?: string | null;
+  currency?: string;
+  paymentTermsDays?: number;
+  leadTimeDays?: number;
+  notes?: string | null;
+}
+
+export interface SettingsInput {
+  approvalThresholds: ProcurementApprovalThreshold[];
+  priceTolerancePercent: number;
+  quantityTolerancePercent: number;
+  overReceiptTolerancePercent: number;
+}
+
+export interface RequisitionInput {
+  lines: Array<Omit<PurchaseRequisitionLine, "description" | "estimatedUnitCost" | "supplierId"> & {
+    description?: string;
+    estimatedUnitCost?: number | null;
+    supplierId?: string | null;
+  }>;
+  neededBy?: string | null;
+  notes?: string | null;
+}
+
+export interface OrderLineInput {
+  itemType: ProcurementItemType;
+  itemId: string;
+  description?: string;
+  quantity: number;
+  unitPrice?: number;
+  taxRate?: number;
+}
+
+export interface OrderInput {
+  supplierId: string;
+  orderDate: string;
+  expectedDate?: string | null;
+  notes?: string | null;
+  lines: OrderLineInput[];
+}
+
+export interface ReceiptInput {
+  receivedDate: string;
+  // Where inventory items are put away; the tenant's default warehouse when not given
+  warehouseId?: string;
+  supplierDeliveryNote?: string | null;
+  notes?: string | null;
+  lines: Array<{
+    purchaseOrderLineId: string;
+    quantity: number;
+    batchNumber?: string | null;
+    serialNumbers?: string[];
+    expiryDate?: string | null;
+  }>;
+}
+
+export interface BillInput {
+  purchaseOrderId: string;
+  supplierInvoiceNumber: string;
+  billDate: string;
+  dueDate?: string | null;
+  lines: Array<{ purchaseOrderLineId: string; quantity: number; unitPrice: number; taxRate?: number }>;
+}
+
+export interface Approver {
+  id?: string;
+  role?: string;
+}
+
+interface CatalogueItem {
+  description: string;
+  unit: string | null;
+  unitCost: number;
+  taxRate: number;
+  preferredSupplierId: string | null;
+}
+
+export type PurchaseOrderDetail = PurchaseOrder & {
+  supplier: Supplier;
+  lines: PurchaseOrderLine[];
+  receipts: GoodsReceipt[];
+  bills: SupplierBill[];
+};
+
+function itemKey(itemType: ProcurementItemType, itemId: string): string {
+  return `${itemType}:${itemId}`;
+}
+
+class ProcurementService {
+  private async lock(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`procurement:${tenantId}`}))`);
+  }
+
+  // Caller must hold the tenant's procurement lock
+  private async nextNumber(tx: Transaction, tenantId: string, document: ProcurementDocument): Promise<string> {
+    const table = {
+      requisition: purchaseRequisitions,
+      purchase_order: purchaseOrders,
+      goods_receipt: goodsReceipts,
+      supplier_bill: supplierBills,
+    }[document];
+    const [{ total }] = await tx.select({ total: count() }).from(table).where(eq(table.tenantId, tenantId));
+    return documentNumber(document, total + 1);
+  }
+
+  // ==================== SUPPLIERS ====================
+
+  async listSuppliers(tenantId: string, filters: { search?: string; active?: boolean }): Promise<Supplier[]> {
+    const conditions: SQL[] = [eq(suppliers.tenantId, tenantId)];
+    if (filters.active !== undefined) conditions.push(eq(suppliers.isActive, filters.active));
+    if (filters.search) {
+      conditions.push(or(ilike(suppliers.name, `%${filters.search}%`), ilike(suppliers.code, `%${filters.search}%`))!);
+    }
+    return db.select().from(suppliers).where(and(...conditions)).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(tenantId: string, id: string): Promise<Supplier> {
+    const [supplier] = await db.select().from(suppliers)
+      .where(and(eq(suppliers.tenantId, tenantId), eq(suppliers.id, id)));
+    if (!supplier) throw new ProcurementError(404, "Supplier not found");
+    return supplier;
+  }
+
+  async createSupplier(tenantId: string, input: SupplierInput): Promise<Supplier> {
+    await this.assertSupplierCodeFree(tenantId, input.code);
+    const [supplier] = await db.insert(suppliers).values({ tenantId, ...input }).returning();
+    return supplier;
+  }
+
+  async updateSupplier(tenantId: string, id: string, input: Partial<SupplierInput> & { isActive?: boolean }): Promise<Supplier> {
+    const existing = await this.getSupplier(tenantId, id);
+    if (input.code && input.code !== existing.code) await this.assertSupplierCodeFree(tenantId, input.code);
+    const [supplier] = await db.update(suppliers)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(suppliers.id, existing.id))
+      .returning();
+    return supplier;
+  }
+
+  private async assertSupplierCodeFree(tenantId: string, code: string): Promise<void> {
+    const [clash] = await db.select({ id: suppliers.id }).from(suppliers)
+      .where(and(eq(suppliers.tenantId, tenantId), eq(suppliers.code, code)));
+    if (clash) throw new ProcurementError(409, `Supplier code ${code} is already in use`);
+  }
+
+  // ==================== SETTINGS ====================
+
+  async getSettings(tenantId: string): Promise<Omit<ProcurementSettings, "id" | "createdAt" | "updatedAt">> {
+    const [settings] = await db.select().from(procurementSettings).where(eq(procurementSettings.tenantId, tenantId));
+    return settings ?? {
+      tenantId,
+      approvalThresholds: [],
+      priceTolerancePercent: "2",
+      quantityTolerancePercent: "0",
+      overReceiptTolerancePercent: "0",
+    };
+  }
+
+  async updateSettings(tenantId: string, input: SettingsInput): Promise<ProcurementSettings> {
+    validateThresholds(input.approvalThresholds);
+    const values = {
+      approvalThresholds: input.approvalThresholds,
+      priceTolerancePercent: String(input.priceTolerancePercent),
+      quantityTolerancePercent: String(input.quantityTolerancePercent),
+      overReceiptTolerancePercent: String(input.overReceiptTolerancePercent),
+    };
+    const [settings] = await db.insert(procurementSettings)
+      .values({ tenantId, ...values })
+      .onConflictDoUpdate({ target: procurementSettings.tenantId, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return settings;
+  }
+
+  // ==================== ITEMS ====================
+
+  /**
+   * Looks up the raw materials and inventory items being bought, for their
+   * names, units and the price to default to: a material's last purchase
+   * price, falling back to its unit cost, or an item's cost price.
+   */
+  private async catalogue(
+    executor: Transaction | typeof db,
+    tenantId: string,
+    lines: Array<{ itemType: ProcurementItemType; itemId: string }>,
+  ): Promise<Map<string, CatalogueItem>> {
+    const materialIds = lines.filter((line) => line.itemType === "raw_material").map((line) => line.itemId);
+    const itemIds = lines.filter((line) => line.itemType === "inventory_item").map((line) => line.itemId);
+
+    const [materials, items] = await Promise.all([
+      materialIds.length
+        ? executor.select().from(rawMaterials).where(and(
+            eq(rawMaterials.tenantId, tenantId),
+            inArray(rawMaterials.id, materialIds),
+            isNull(rawMaterials.deletedAt),
+          ))
+        : Promise.resolve([]),
+      itemIds.length
+        ? executor.select().from(inventoryItems).where(and(
+            eq(inventoryItems.tenantId, tenantId),
+            inArray(inventoryItems.id, itemIds),
+            isNull(inventoryItems.deletedAt),
+          ))
+        : Promise.resolve([]),
+    ]);
+
+    const catalogue = new Map<string, CatalogueItem>();
+    for (const material of materials) {
+      catalogue.set(itemKey("raw_material", material.id), {
+        description: material.name,
+        unit: material.unitOfMeasure,
+        unitCost: amount(material.lastPurchasePrice ?? material.unitCost),
+        taxRate: amount(material.gstRate),
+        preferredSupplierId: material.preferredSupplierId,
+      });
+    }
+    for (const item of items) {
+      catalogue.set(itemKey("inventory_item", item.id), {
+        description: item.name,
+        unit: item.unit,
+        unitCost: amount(item.costPrice),
+        taxRate: 0,
+        preferredSupplierId: null,
+      });
+    }
+
+    for (const line of lines) {
+      if (!catalogue.has(itemKey(line.itemType, line.itemId))) {
+        throw new ProcurementError(400, `${line.itemType === "raw_material" ? "Raw material" : "Inventory item"} ${line.itemId} not found`);
+      }
+    }
+    return catalogue;
+  }
+
+  // ==================== REQUISITIONS ====================
+
+  async listRequisitions(
+    tenantId: string,
+    filters: { status?: typeof REQUISITION_STATUSES[number] },
+    page: number,
+    limit: number,
+  ): Promise<{ data: PurchaseRequisition[]; total: number }> {
+    const conditions: SQL[] = [eq(purchaseRequisitions.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(purchaseRequisitions.status, filters.status));
+    const where = and(...conditions);
+
+    const [data, [{ total }]] = await Promise.all([
+      db.select().from(purchaseRequisitions).where(where)
+        .orderBy(desc(purchaseRequisitions.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(purchaseRequisitions).where(where),
+    ]);
+    return { data, total };
+  }
+
+  async getRequisition(tenantId: string, id: string): Promise<PurchaseRequisition> {
+    const [requisition] = await db.select().from(purchaseRequisitions)
+      .where(and(eq(purchaseRequisitions.tenantId, tenantId), eq(purchaseRequisitions.id, id)));
+    if (!requisition) throw new ProcurementError(404, "Purchase requisition not found");
+    return requisition;
+  }
+
+  async createRequisition(tenantId: string, userId: string | undefined, input: RequisitionInput): Promise<PurchaseRequisition> {
+    const catalogue = await this.catalogue(db, tenantId, input.lines);
+    const lines: PurchaseRequisitionLine[] = input.lines.map((line) => {
+      const item = catalogue.get(itemKey(line.itemType, line.itemId))!;
+      return {
+        itemType: line.itemType,
+        itemId: line.itemId,
+        description: line.description ?? item.description,
+        quantity: line.quantity,
+        estimatedUnitCost: line.estimatedUnitCost ?? item.unitCost,
+        supplierId: line.supplierId ?? item.preferredSupplierId,
+      };
+    });
+
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const [requisition] = await tx.insert(purchaseRequisitions).values({
+        tenantId,
+        requisitionNumber: await this.nextNumber(tx, tenantId, "requisition"),
+        lines,
+        neededBy: input.neededBy ?? null,
+        notes: input.notes ?? null,
+        requestedBy: userId,
+      }).returning();
+      return requisition;
+    });
+  }
+
+  private async transitionRequisition(
+    tenantId: string,
+    id: string,
+    from: PurchaseRequisition["status"][],
+    values: Partial<typeof purchaseRequisitions.$inferInsert>,
+  ): Promise<PurchaseRequisition> {
+    const requisition = await this.getRequisition(tenantId, id);
+    if (!from.includes(requisition.status)) {
+      throw new ProcurementError(409, `Requisition is ${requisition.status}`);
+    }
+    const [updated] = await db.update(purchaseRequisitions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(purchaseRequisitions.id, id), eq(purchaseRequisitions.status, requisition.status)))
+      .returning();
+    if (!updated) throw new ProcurementError(409, "Requisition was changed by someone else");
+    return updated;
+  }
+
+  async submitRequisition(tenantId: string, id: string): Promise<PurchaseRequisition> {
+    return this.transitionRequisition(tenantId, id, ["draft"], { status: "submitted" });
+  }
+
+  async decideRequisition(
+    tenantId: string,
+    id: string,
+    userId: string | undefined,
+    decision: "approved" | "rejected",
+    note?: string,
+  ): Promise<PurchaseRequisition> {
+    return this.transitionRequisition(tenantId, id, ["submitted"], {
+      status: decision,
+      decidedBy: userId,
+      decidedAt: new Date(),
+      decisionNote: note ?? null,
+    });
+  }
+
+  async cancelRequisition(tenantId: string, id: string): Promise<PurchaseRequisition> {
+    return this.transitionRequisition(tenantId, id, ["draft", "submitted", "approved"], { status: "cancelled" });
+  }
+
+  /**
+   * Turns an approved requisition into draft purchase orders, one per
+   * supplier. Lines without a supplier of their own go to the fallback
+   * supplier, if one is given.
+   */
+  async convertRequisition(
+    tenantId: string,
+    id: string,
+    userId: string | undefined,
+    options: { orderDate: string; fallbackSupplierId?: string },
+  ): Promise<PurchaseOrder[]> {
+    const requisition = await this.getRequisition(tenantId, id);
+    if (requisition.status !== "approved") {
+      throw new ProcurementError(409, `Only approved requisitions can be converted; this one is ${requisition.status}`);
+    }
+
+    const bySupplier = new Map<string, PurchaseRequisitionLine[]>();
+    for (const line of requisition.lines) {
+      const supplierId = line.supplierId ?? options.fallbackSupplierId;
+      if (!supplierId) throw new ProcurementError(400, `"${line.description}" has no supplier`);
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), line]);
+    }
+
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const [current] = await tx.select({ status: purchaseRequisitions.status }).from(purchaseRequisitions)
+        .where(eq(purchaseRequisitions.id, requisition.id));
+      if (current.status !== "approved") throw new ProcurementError(409, "Requisition was changed by someone else");
+
+      const orders: PurchaseOrder[] = [];
+      for (const [supplierId, lines] of Array.from(bySupplier.entries())) {
+        orders.push(await this.insertOrder(tx, tenantId, userId, {
+          supplierId,
+          orderDate: options.orderDate,
+          expectedDate: requisition.neededBy,
+          notes: `From requisition ${requisition.requisitionNumber}`,
+          lines: lines.map((line) => ({
+            itemType: line.itemType,
+            itemId: line.itemId,
+            description: line.description,
+            quantity: line.quantity,
+            unitPrice: line.estimatedUnitCost ?? undefined,
+          })),
+        }, requisition.id));
+      }
+
+      await tx.update(purchaseRequisitions)
+        .set({ status: "converted", updatedAt: new Date() })
+        .where(eq(purchaseRequisitions.id, requisition.id));
+      return orders;
+    });
+  }
+
+  // ==================== PURCHASE ORDERS ====================
+
+  async listOrders(
+    tenantId: string,
+    filters: { status?: typeof ORDER_STATUSES[number]; supplierId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: Array<PurchaseOrder & { supplierName: string }>; total: number }> {
+    const conditions: SQL[] = [eq(purchaseOrders.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(purchaseOrders.status, filters.status));
+    if (filters.supplierId) conditions.push(eq(purchaseOrders.supplierId, filters.supplierId));
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ order: purchaseOrders, supplierName: suppliers.name })
+        .from(purchaseOrders)
+        .innerJoin(suppliers, eq(suppliers.id, purchaseOrders.supplierId))
+        .where(where)
+        .orderBy(desc(purchaseOrders.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(purchaseOrders).where(where),
+    ]);
+    return { data: rows.map((row) => ({ ...row.order, supplierName: row.supplierName })), total };
+  }
+
+  private async findOrder(executor: Transaction | typeof db, tenantId: string, id: string): Promise<PurchaseOrder> {
+    const [order] = await executor.select().from(purchaseOrders)
+      .where(and(eq(purchaseOrders.tenantId, tenantId), eq(purchaseOrders.id, id)));
+    if (!order) throw new ProcurementError(404, "Purchase order not found");
+    return order;
+  }
+
+  private async orderLines(executor: Transaction | typeof db, orderId: string): Promise<PurchaseOrderLine[]> {
+    return executor.select().from(purchaseOrderLines)
+      .where(eq(purchaseOrderLines.purchaseOrderId, orderId))
+      .orderBy(asc(purchaseOrderLines.lineNumber));
+  }
+
+  async getOrder(tenantId: string, id: string): Promise<PurchaseOrderDetail> {
+    const order = await this.findOrder(db, tenantId, id);
+    const [supplier, lines, receipts, bills] = await Promise.all([
+      this.getSupplier(tenantId, order.supplierId),
+      this.orderLines(db, order.id),
+      db.select().from(goodsReceipts).where(eq(goodsReceipts.purchaseOrderId, order.id)).orderBy(asc(goodsReceipts.createdAt)),
+      db.select().from(supplierBills).where(eq(supplierBills.purchaseOrderId, order.id)).orderBy(asc(supplierBills.createdAt)),
+    ]);
+    return { ...order, supplier, lines, receipts, bills };
+  }
+
+  async createOrder(tenantId: string, userId: string | undefined, input: OrderInput): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      return this.insertOrder(tx, tenantId, userId, input, null);
+    });
+  }
+
+  // Caller must hold the tenant's procurement lock
+  private async insertOrder(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    input: OrderInput,
+    requisitionId: string | null,
+  ): Promise<PurchaseOrder> {
+    const supplier = await this.activeSupplier(tx, tenantId, input.supplierId);
+    const [order] = await tx.insert(purchaseOrders).values({
+      tenantId,
+      poNumber: await this.nextNumber(tx, tenantId, "purchase_order"),
+      supplierId: supplier.id,
+      requisitionId,
+      orderDate: input.orderDate,
+      expectedDate: input.expectedDate ?? addDays(input.orderDate, supplier.leadTimeDays),
+      currency: supplier.currency,
+      notes: input.notes ?? null,
+      createdBy: userId,
+    }).returning();
+    return this.replaceLines(tx, tenantId, order, input.lines);
+  }
+
+  private async activeSupplier(executor: Transaction | typeof db, tenantId: string, id: string): Promise<Supplier> {
+    const [supplier] = await executor.select().from(suppliers)
+      .where(and(eq(suppliers.tenantId, tenantId), eq(suppliers.id, id)));
+    if (!supplier) throw new ProcurementError(404, "Supplier not found");
+    if (!supplier.isActive) throw new ProcurementError(400, `Supplier ${supplier.name} is inactive`);
+    return supplier;
+  }
+
+  private async replaceLines(tx: Transaction, tenantId: string, order: PurchaseOrder, input: OrderLineInput[]): Promise<PurchaseOrder> {
+    if (!input.length) throw new ProcurementError(400, "A purchase order needs at least one line");
+    const catalogue = await this.catalogue(tx, tenantId, input);
+    const lines = input.map((line, index) => {
+      const item = catalogue.get(itemKey(line.itemType, line.itemId))!;
+      if (line.itemType === "inventory_item" && !Number.isInteger(line.quantity)) {
+        throw new ProcurementError(400, `"${item.description}" is stocked in whole units`);
+      }
+      const priced = { quantity: line.quantity, unitPrice: line.unitPrice ?? item.unitCost, taxRate: line.taxRate ?? item.taxRate };
+      return {
+        tenantId,
+        purchaseOrderId: order.id,
+        lineNumber: index + 1,
+        itemType: line.itemType,
+        itemId: line.itemId,
+        description: line.description ?? item.description,
+        unit: item.unit,
+        quantity: String(priced.quantity),
+        unitPrice: String(priced.unitPrice),
+        taxRate: String(priced.taxRate),
+        lineTotal: String(lineTotal(priced)),
+        priced,
+      };
+    });
+
+    await tx.delete(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, order.id));
+    await tx.insert(purchaseOrderLines).values(lines.map(({ priced, ...line }) => line));
+
+    const totals = orderTotals(lines.map((line) => line.priced));
+    const [updated] = await tx.update(purchaseOrders)
+      .set({
+        subtotal: String(totals.subtotal),
+        taxAmount: String(totals.taxAmount),
+        totalAmount: String(totals.totalAmount),
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseOrders.id, order.id))
+      .returning();
+    return updated;
+  }
+
+  async updateOrder(tenantId: string, id: string, input: Partial<OrderInput>): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, id);
+      if (order.status !== "draft") throw new ProcurementError(409, "Only draft purchase orders can be edited");
+
+      const values: Partial<typeof purchaseOrders.$inferInsert> = {};
+      if (input.supplierId && input.supplierId !== order.supplierId) {
+        const supplier = await this.activeSupplier(tx, tenantId, input.supplierId);
+        values.supplierId = supplier.id;
+        values.currency = supplier.currency;
+      }
+      if (input.orderDate) values.orderDate = input.orderDate;
+      if (input.expectedDate !== undefined) values.expectedDate = input.expectedDate;
+      if (input.notes !== undefined) values.notes = input.notes;
+
+      const [updated] = await tx.update(purchaseOrders)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+      return input.lines ? this.replaceLines(tx, tenantId, updated, input.lines) : updated;
+    });
+  }
+
+  /**
+   * Sends a draft for approval. Orders below every approval threshold are
+   * approved on the spot; the rest wait for a user of the threshold's role.
+   */
+  async submitOrder(tenantId: string, id: string, userId: string | undefined): Promise<PurchaseOrder> {
+    const settings = await this.getSettings(tenantId);
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, id);
+      if (order.status !== "draft") throw new ProcurementError(409, `Purchase order is ${order.status}`);
+
+      const role = requiredApprovalRole(amount(order.totalAmount), settings.approvalThresholds);
+      const [updated] = await tx.update(purchaseOrders)
+        .set(role
+          ? { status: "pending_approval", requiredApprovalRole: role, updatedAt: new Date() }
+          : { status: "approved", requiredApprovalRole: null, approvedBy: userId, approvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async approveOrder(tenantId: string, id: string, approver: Approver): Promise<PurchaseOrder> {
+    return this.decideOrder(tenantId, id, approver, { status: "approved", approvedBy: approver.id, approvedAt: new Date() });
+  }
+
+  async rejectOrder(tenantId: string, id: string, approver: Approver, reason: string): Promise<PurchaseOrder> {
+    return this.decideOrder(tenantId, id, approver, { status: "rejected", rejectionReason: reason });
+  }
+
+  private async decideOrder(
+    tenantId: string,
+    id: string,
+    approver: Approver,
+    values: Partial<typeof purchaseOrders.$inferInsert>,
+  ): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, id);
+      if (order.status !== "pending_approval") throw new ProcurementError(409, `Purchase order is ${order.status}`);
+
+      const required = order.requiredApprovalRole as keyof typeof ROLE_HIERARCHY | null;
+      const level = ROLE_HIERARCHY[approver.role?.toLowerCase() as keyof typeof ROLE_HIERARCHY] || 0;
+      if (required && level < ROLE_HIERARCHY[required]) {
+        throw new ProcurementError(403, `This purchase order needs approval from a ${required} or above`);
+      }
+
+      const [updated] = await tx.update(purchaseOrders)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async cancelOrder(tenantId: string, id: string): Promise<PurchaseOrder> {
+    return this.transitionOrder(tenantId, id, ["draft", "pending_approval", "approved"], "cancelled");
+  }
+
+  // Closes an order short: nothing more is expected against it
+  async closeOrder(tenantId: string, id: string): Promise<PurchaseOrder> {
+    return this.transitionOrder(tenantId, id, ["partially_received", "received"], "closed");
+  }
+
+  private async transitionOrder(
+    tenantId: string,
+    id: string,
+    from: PurchaseOrder["status"][],
+    to: PurchaseOrder["status"],
+  ): Promise<PurchaseOrder> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, id);
+      if (!from.includes(order.status)) throw new ProcurementError(409, `Purchase order is ${order.status}`);
+      const [updated] = await tx.update(purchaseOrders)
+        .set({ status: to, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // ==================== GOODS RECEIPTS ====================
+
+  /**
+   * Records goods arriving against an approved order. Each line posts a
+   * stock movement straight away: an "in" movement for raw materials, which
+   * also updates their last purchase price, or warehouse lots and a purchase
+   * transaction for inventory items, which the ledger picks up once the
+   * receipt is saved.
+   */
+  async receiveGoods(
+    tenantId: string,
+    orderId: string,
+    userId: string | undefined,
+    input: ReceiptInput,
+  ): Promise<GoodsReceipt & { lines: GoodsReceiptLine[] }> {
+    const settings = await this.getSettings(tenantId);
+    const inventoryTransactionIds: string[] = [];
+
+    const receipt = await db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, orderId);
+      if (!RECEIVABLE_ORDER_STATUSES.includes(order.status)) {
+        throw new ProcurementError(409, `Goods cannot be received against a ${order.status} purchase order`);
+      }
+
+      const lines = await this.orderLines(tx, order.id);
+      const receivable = lines.map((line) => ({
+        id: line.id,
+        description: line.description,
+        itemType: line.itemType,
+        quantity: amount(line.quantity),
+        receivedQuantity: amount(line.receivedQuantity),
+      }));
+      validateReceipt(receivable, input.lines, amount(settings.overReceiptTolerancePercent));
+
+      const grnNumber = await this.nextNumber(tx, tenantId, "goods_receipt");
+      const [header] = await tx.insert(goodsReceipts).values({
+        tenantId,
+        grnNumber,
+        purchaseOrderId: order.id,
+        supplierId: order.supplierId,
+        receivedDate: input.receivedDate,
+        supplierDeliveryNote: input.supplierDeliveryNote ?? null,
+        notes: input.notes ?? null,
+        receivedBy: userId,
+      }).returning();
+
+      const receiptLines: GoodsReceiptLine[] = [];
+      for (const received of input.lines) {
+        const line = lines.find((orderLine) => orderLine.id === received.purchaseOrderLineId)!;
+        const stockMovementId = line.itemType === "raw_material"
+          ? await this.receiveRawMaterial(tx, tenantId, userId, header, line, received)
+          : await this.receiveInventoryItem(tx, tenantId, userId, header, line, received, input.warehouseId);
+        if (line.itemType === "inventory_item") inventoryTransactionIds.push(stockMovementId);
+
+        const [receiptLine] = await tx.insert(goodsReceiptLines).values({
+          goodsReceiptId: header.id,
+          purchaseOrderLineId: line.id,
+          quantity: String(received.quantity),
+          batchNumber: received.batchNumber ?? null,
+          stockMovementId,
+        }).returning();
+        receiptLines.push(receiptLine);
+
+        const receivedQuantity = round4(amount(line.receivedQuantity) + received.quantity);
+        await tx.update(purchaseOrderLines)
+          .set({ receivedQuantity: String(receivedQuantity) })
+          .where(eq(purchaseOrderLines.id, line.id));
+        receivable.find((item) => item.id === line.id)!.receivedQuantity = receivedQuantity;
+      }
+
+      await tx.update(purchaseOrders)
+        .set({ status: receiptStatus(receivable), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id));
+
+      return { ...header, lines: receiptLines };
+    });
+
+    for (const transactionId of inventoryTransactionIds) {
+      accountingService.postAsync(tenantId, "inventory_transaction", transactionId);
+    }
+    return receipt;
+  }
+
+  private async receiveRawMaterial(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    receipt: GoodsReceipt,
+    line: PurchaseOrderLine,
+    received: ReceiptInput["lines"][number],
+  ): Promise<string> {
+    const [material] = await tx.update(rawMaterials)
+      .set({
+        currentStock: sql`COALESCE(${rawMaterials.currentStock}, 0) + ${String(received.quantity)}`,
+        lastPurchasePrice: line.unitPrice,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(rawMaterials.tenantId, tenantId), eq(rawMaterials.id, line.itemId)))
+      .returning();
+    if (!material) throw new ProcurementError(400, `Raw material for "${line.description}" no longer exists`);
+
+    const [movement] = await tx.insert(rawMaterialStockMovements).values({
+      tenantId,
+      rawMaterialId: material.id,
+      movementType: "in",
+      quantity: String(received.quantity),
+      balanceAfter: material.currentStock ?? "0",
+      referenceType: "goods_receipt",
+      referenceId: receipt.id,
+      batchNumber: received.batchNumber ?? null,
+      unitCost: line.unitPrice,
+      totalCost: String(lineTotal({ quantity: received.quantity, unitPrice: amount(line.unitPrice), taxRate: 0 })),
+      notes: `Received on ${receipt.grnNumber}`,
+      createdBy: userId,
+    }).returning();
+    return movement.id;
+  }
+
+  // Inventory items land as lots in a warehouse, carrying the order price as their cost
+  private async receiveInventoryItem(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    receipt: GoodsReceipt,
+    line: PurchaseOrderLine,
+    received: ReceiptInput["lines"][number],
+    warehouseId: string | undefined,
+  ): Promise<string> {
+    try {
+      const { transaction } = await stockService.receiveInTx(tx, tenantId, userId, {
+        itemId: line.itemId,
+        warehouseId,
+        quantity: received.quantity,
+        unitCost: amount(line.unitPrice),
+        batchNumber: received.batchNumber,
+        serialNumbers: received.serialNumbers,
+        expiryDate: received.expiryDate,
+        transactionType: "purchase",
+        referenceType: "goods_receipt",
+        referenceId: receipt.id,
+        notes: `Received on ${receipt.grnNumber}`,
+      });
+      return transaction.id;
+    } catch (error) {
+      if (error instanceof StockError) throw new ProcurementError(error.status, `"${line.description}": ${error.message}`);
+      throw error;
+    }
+  }
+
+  async listReceipts(
+    tenantId: string,
+    filters: { purchaseOrderId?: string; supplierId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: Array<GoodsReceipt & { poNumber: string; supplierName: string }>; total: number }> {
+    const conditions: SQL[] = [eq(goodsReceipts.tenantId, tenantId)];
+    if (filters.purchaseOrderId) conditions.push(eq(goodsReceipts.purchaseOrderId, filters.purchaseOrderId));
+    if (filters.supplierId) conditions.push(eq(goodsReceipts.supplierId, filters.supplierId));
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ receipt: goodsReceipts, poNumber: purchaseOrders.poNumber, supplierName: suppliers.name })
+        .from(goodsReceipts)
+        .innerJoin(purchaseOrders, eq(purchaseOrders.id, goodsReceipts.purchaseOrderId))
+        .innerJoin(suppliers, eq(suppliers.id, goodsReceipts.supplierId))
+        .where(where)
+        .orderBy(desc(goodsReceipts.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(goodsReceipts).where(where),
+    ]);
+    return {
+      data: rows.map((row) => ({ ...row.receipt, poNumber: row.poNumber, supplierName: row.supplierName })),
+      total,
+    };
+  }
+
+  async getReceipt(tenantId: string, id: string): Promise<GoodsReceipt & { lines: GoodsReceiptLine[] }> {
+    const [receipt] = await db.select().from(goodsReceipts)
+      .where(and(eq(goodsReceipts.tenantId, tenantId), eq(goodsReceipts.id, id)));
+    if (!receipt) throw new ProcurementError(404, "Goods receipt not found");
+    const lines = await db.select().from(goodsReceiptLines).where(eq(goodsReceiptLines.goodsReceiptId, receipt.id));
+    return { ...receipt, lines };
+  }
+
+  // ==================== SUPPLIER BILLS ====================
+
+  async listBills(
+    tenantId: string,
+    filters: { status?: typeof BILL_STATUSES[number]; supplierId?: string; purchaseOrderId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: Array<SupplierBill & { supplierName: string }>; total: number }> {
+    const conditions: SQL[] = [eq(supplierBills.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(supplierBills.status, filters.status));
+    if (filters.supplierId) conditions.push(eq(supplierBills.supplierId, filters.supplierId));
+    if (filters.purchaseOrderId) conditions.push(eq(supplierBills.purchaseOrderId, filters.purchaseOrderId));
+    const where = and(...conditions);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ bill: supplierBills, supplierName: suppliers.name })
+        .from(supplierBills)
+        .innerJoin(suppliers, eq(suppliers.id, supplierBills.supplierId))
+        .where(where)
+        .orderBy(desc(supplierBills.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(supplierBills).where(where),
+    ]);
+    return { data: rows.map((row) => ({ ...row.bill, supplierName: row.supplierName })), total };
+  }
+
+  private async findBill(executor: Transaction | typeof db, tenantId: string, id: string): Promise<SupplierBill> {
+    const [bill] = await executor.select().from(supplierBills)
+      .where(and(eq(supplierBills.tenantId, tenantId), eq(supplierBills.id, id)));
+    if (!bill) throw new ProcurementError(404, "Supplier bill not found");
+    return bill;
+  }
+
+  async getBill(tenantId: string, id: string): Promise<SupplierBill & { lines: SupplierBillLine[] }> {
+    const bill = await this.findBill(db, tenantId, id);
+    const lines = await db.select().from(supplierBillLines).where(eq(supplierBillLines.billId, bill.id));
+    return { ...bill, lines };
+  }
+
+  /**
+   * Enters a supplier's invoice against a received order and three-way
+   * matches it. Matched bills can be paid as they are; bills that charge
+   * for more than was received or drift from the order price are held.
+   */
+  async createBill(tenantId: string, userId: string | undefined, input: BillInput): Promise<SupplierBill & { lines: SupplierBillLine[] }> {
+    const settings = await this.getSettings(tenantId);
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, input.purchaseOrderId);
+      if (!BILLABLE_ORDER_STATUSES.includes(order.status)) {
+        throw new ProcurementError(409, `Nothing has been received against this ${order.status} purchase order`);
+      }
+
+      const [duplicate] = await tx.select({ billNumber: supplierBills.billNumber }).from(supplierBills).where(and(
+        eq(supplierBills.tenantId, tenantId),
+        eq(supplierBills.supplierId, order.supplierId),
+        eq(supplierBills.supplierInvoiceNumber, input.supplierInvoiceNumber),
+      ));
+      if (duplicate) {
+        throw new ProcurementError(409, `Supplier invoice ${input.supplierInvoiceNumber} is already entered as ${duplicate.billNumber}`);
+      }
+
+      const lines = await this.orderLines(tx, order.id);
+      const match = threeWayMatch(
+        lines.map((line) => ({
+          id: line.id,
+          description: line.description,
+          unitPrice: amount(line.unitPrice),
+          receivedQuantity: amount(line.receivedQuantity),
+          billedQuantity: amount(line.billedQuantity),
+        })),
+        input.lines,
+        { pricePercent: amount(settings.priceTolerancePercent), quantityPercent: amount(settings.quantityTolerancePercent) },
+      );
+
+      const priced = input.lines.map((billLine) => ({
+        ...billLine,
+        taxRate: billLine.taxRate ?? amount(lines.find((line) => line.id === billLine.purchaseOrderLineId)!.taxRate),
+      }));
+      const totals = orderTotals(priced);
+      const [supplier] = await tx.select({ paymentTermsDays: suppliers.paymentTermsDays }).from(suppliers)
+        .where(eq(suppliers.id, order.supplierId));
+
+      const [bill] = await tx.insert(supplierBills).values({
+        tenantId,
+        billNumber: await this.nextNumber(tx, tenantId, "supplier_bill"),
+        supplierInvoiceNumber: input.supplierInvoiceNumber,
+        supplierId: order.supplierId,
+        purchaseOrderId: order.id,
+        status: match.status,
+        billDate: input.billDate,
+        dueDate: input.dueDate ?? addDays(input.billDate, supplier.paymentTermsDays),
+        currency: order.currency,
+        subtotal: String(totals.subtotal),
+        taxAmount: String(totals.taxAmount),
+        totalAmount: String(totals.totalAmount),
+        matchExceptions: match.exceptions,
+        createdBy: userId,
+      }).returning();
+
+      const billLines = await tx.insert(supplierBillLines).values(priced.map((line) => ({
+        billId: bill.id,
+        purchaseOrderLineId: line.purchaseOrderLineId,
+        quantity: String(line.quantity),
+        unitPrice: String(line.unitPrice),
+        taxRate: String(line.taxRate),
+        lineTotal: String(lineTotal(line)),
+      }))).returning();
+
+      await this.adjustBilledQuantities(tx, billLines, 1);
+      return { ...bill, lines: billLines };
+    });
+  }
+
+  private async adjustBilledQuantities(tx: Transaction, lines: SupplierBillLine[], direction: 1 | -1): Promise<void> {
+    for (const line of lines) {
+      await tx.update(purchaseOrderLines)
+        .set({ billedQuantity: sql`${purchaseOrderLines.billedQuantity} + ${String(direction * amount(line.quantity))}` })
+        .where(eq(purchaseOrderLines.id, line.purchaseOrderLineId));
+    }
+  }
+
+  // Releases a held bill for payment; the note records why the exceptions were accepted
+  async approveBill(tenantId: string, id: string, userId: string | undefined, note: string): Promise<SupplierBill> {
+    return this.transitionBill(tenantId, id, ["on_hold"], {
+      status: "approved",
+      approvedBy: userId,
+      approvedAt: new Date(),
+      approvalNote: note,
+    });
+  }
+
+  async markBillPaid(tenantId: string, id: string, payment: { paidAt?: Date; reference?: string | null }): Promise<SupplierBill> {
+    return this.transitionBill(tenantId, id, ["matched", "approved"], {
+      status: "paid",
+      paidAt: payment.paidAt ?? new Date(),
+      paymentReference: payment.reference ?? null,
+    });
+  }
+
+  async cancelBill(tenantId: string, id: string): Promise<SupplierBill> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const bill = await this.findBill(tx, tenantId, id);
+      if (bill.status === "paid" || bill.status === "cancelled") {
+        throw new ProcurementError(409, `Supplier bill is ${bill.status}`);
+      }
+      const lines = await tx.select().from(supplierBillLines).where(eq(supplierBillLines.billId, bill.id));
+      await this.adjustBilledQuantities(tx, lines, -1);
+      const [updated] = await tx.update(supplierBills)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(supplierBills.id, bill.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  private async transitionBill(
+    tenantId: string,
+    id: string,
+    from: SupplierBill["status"][],
+    values: Partial<typeof supplierBills.$inferInsert>,
+  ): Promise<SupplierBill> {
+    const bill = await this.findBill(db, tenantId, id);
+    if (!from.includes(bill.status)) throw new ProcurementError(409, `Supplier bill is ${bill.status}`);
+    const [updated] = await db.update(supplierBills)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(supplierBills.id, bill.id), eq(supplierBills.status, bill.status)))
+      .returning();
+    if (!updated) throw new ProcurementError(409, "Supplier bill was changed by someone else");
+    return updated;
+  }
+
+  // ==================== REORDERING ====================
+
+  /**
+   * Purchase suggestions for raw materials at or below their reorder point,
+   * net of quantities already on open orders, grouped by preferred supplier.
+   */
+  async getReorderSuggestions(tenantId: string): Promise<Array<{
+    supplierId: string | null;
+    supplierName: string | null;
+    lines: ReorderSuggestion[];
+    estimatedTotal: number;
+  }>> {
+    const materials = await storage.getLowStockRawMaterials(tenantId);
+    if (!materials.length) return [];
+
+    const onOrderRows = await db.select({
+      itemId: purchaseOrderLines.itemId,
+      outstanding: sql<string>`SUM(GREATEST(${purchaseOrderLines.quantity} - ${purchaseOrderLines.receivedQuantity}, 0))`,
+    })
+      .from(purchaseOrderLines)
+      .innerJoin(purchaseOrders, eq(purchaseOrders.id, purchaseOrderLines.purchaseOrderId))
+      .where(and(
+        eq(purchaseOrderLines.tenantId, tenantId),
+        eq(purchaseOrderLines.itemType, "raw_material"),
+        inArray(purchaseOrderLines.itemId, materials.map((material) => material.id)),
+        inArray(purchaseOrders.status, ["draft", "pending_approval", ...RECEIVABLE_ORDER_STATUSES]),
+      ))
+      .groupBy(purchaseOrderLines.itemId);
+    const onOrder = new Map(onOrderRows.map((row) => [row.itemId, amount(row.outstanding)]));
+
+    // A preferred supplier id that is not one of this tenant's suppliers is treated as unassigned
+    const preferredIds = Array.from(new Set(materials.map((material) => material.preferredSupplierId).filter((id): id is string => !!id)));
+    const known = preferredIds.length
+      ? await db.select({ id: suppliers.id, name: suppliers.name }).from(suppliers)
+          .where(and(eq(suppliers.tenantId, tenantId), inArray(suppliers.id, preferredIds)))
+      : [];
+    const nameById = new Map(known.map((supplier) => [supplier.id, supplier.name]));
+
+    const groups = reorderSuggestions(materials.filter((material) => material.isActive !== false).map((material) => ({
+      id: material.id,
+      sku: material.sku,
+      name: material.name,
+      unitOfMeasure: material.unitOfMeasure,
+      currentStock: amount(material.currentStock),
+      reorderPoint: amount(material.reorderPoint),
+      maxStockLevel: material.maxStockLevel === null ? null : amount(material.maxStockLevel),
+      onOrder: onOrder.get(material.id) ?? 0,
+      preferredSupplierId: material.preferredSupplierId && nameById.has(material.preferredSupplierId) ? material.preferredSupplierId : null,
+      unitCost: amount(material.lastPurchasePrice ?? material.unitCost),
+    })));
+
+    return groups.map((group) => ({
+      ...group,
+      supplierName: group.supplierId ? nameById.get(group.supplierId)! : null,
+    }));
+  }
+}
+
+export const procurementService = new ProcurementService();
@@ -0,0 +1,180 @@
+/**
+ * Purchase order arithmetic and rules: line and order totals, which role
+ * must approve an order, how receipts move an order's status, and how much
+ * to reorder of materials that have fallen to their reorder point.
+ */
+
+import type { ProcurementApprovalThreshold, ProcurementItemType } from "@shared/schema";
+import { round2, round4 } from "../../utils/money";
+
+export type { ProcurementApprovalThreshold, ProcurementItemType };
+
+export const PROCUREMENT_ITEM_TYPES = ["raw_material", "inventory_item"] as const;
+
+export const APPROVAL_ROLES = ["manager", "admin"] as const;
+export type ApprovalRole = typeof APPROVAL_ROLES[number];
+
+// Document number prefixes, numbered per tenant
+export const DOCUMENT_PREFIXES = {
+  requisition: "PR",
+  purchase_order: "PO",
+  goods_receipt: "GRN",
+  supplier_bill: "BILL",
+} as const;
+export type ProcurementDocument = keyof typeof DOCUMENT_PREFIXES;
+
+export class ProcurementError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ProcurementError";
+  }
+}
+
+export function documentNumber(document: ProcurementDocument, sequence: number): string {
+  return `${DOCUMENT_PREFIXES[document]}-${String(sequence).padStart(6, "0")}`;
+}
+
+export interface PricedLine {
+  quantity: number;
+  unitPrice: number;
+  taxRate: number;
+}
+
+// Line totals are tax-exclusive; tax is worked out per line and summed
+export function lineTotal(line: PricedLine): number {
+  return round2(line.quantity * line.unitPrice);
+}
+
+export function orderTotals(lines: PricedLine[]): { subtotal: number; taxAmount: number; totalAmount: number } {
+  const subtotal = round2(lines.reduce((sum, line) => sum + lineTotal(line), 0));
+  const taxAmount = round2(lines.reduce((sum, line) => sum + round2(lineTotal(line) * line.taxRate / 100), 0));
+  return { subtotal, taxAmount, totalAmount: round2(subtotal + taxAmount) };
+}
+
+export function validateThresholds(thresholds: ProcurementApprovalThreshold[]): void {
+  const sorted = [...thresholds].sort((a, b) => a.minAmount - b.minAmount);
+  sorted.forEach((threshold, index) => {
+    if (index > 0 && threshold.minAmount === sorted[index - 1].minAmount) {
+      throw new ProcurementError(400, `More than one approval threshold at ${threshold.minAmount}`);
+    }
+    if (index > 0 && APPROVAL_ROLES.indexOf(threshold.role) < APPROVAL_ROLES.indexOf(sorted[index - 1].role)) {
+      throw new ProcurementError(400, "A higher threshold cannot need a more junior approver");
+    }
+  });
+}
+
+/**
+ * The role that must approve an order of this total: the role of the
+ * highest threshold the total reaches. Null when no threshold applies and
+ * the order is approved on submission.
+ */
+export function requiredApprovalRole(totalAmount: number, thresholds: ProcurementApprovalThreshold[]): ApprovalRole | null {
+  const reached = thresholds
+    .filter((threshold) => totalAmount >= threshold.minAmount)
+    .sort((a, b) => b.minAmount - a.minAmount);
+  return reached[0]?.role ?? null;
+}
+
+export interface ReceivableLine {
+  id: string;
+  description: string;
+  itemType: ProcurementItemType;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+/**
+ * Checks a goods receipt against its order: each line must be on the order,
+ * received in a positive quantity, whole for inventory items (their stock is
+ * counted in units), and not take the line past its ordered quantity plus
+ * the over-receipt tolerance.
+ */
+export function validateReceipt(
+  orderLines: ReceivableLine[],
+  receipt: Array<{ purchaseOrderLineId: string; quantity: number }>,
+  overReceiptTolerancePercent: number,
+): void {
+  if (!receipt.length) throw new ProcurementError(400, "A goods receipt needs at least one line");
+  const seen = new Set<string>();
+  for (const received of receipt) {
+    const line = orderLines.find((orderLine) => orderLine.id === received.purchaseOrderLineId);
+    if (!line) throw new ProcurementError(400, "Goods receipt line is not on the purchase order");
+    if (seen.has(line.id)) throw new ProcurementError(400, `"${line.description}" is received more than once`);
+    seen.add(line.id);
+    if (received.quantity <= 0) throw new ProcurementError(400, `Received quantity for "${line.description}" must be positive`);
+    if (line.itemType === "inventory_item" && !Number.isInteger(received.quantity)) {
+      throw new ProcurementError(400, `"${line.description}" is stocked in whole units`);
+    }
+    const allowed = round4(line.quantity * (1 + overReceiptTolerancePercent / 100));
+    if (round4(line.receivedQuantity + received.quantity) > allowed) {
+      throw new ProcurementError(400, `Receiving ${received.quantity} of "${line.description}" would exceed the ordered quantity`);
+    }
+  }
+}
+
+export function receiptStatus(lines: Array<{ quantity: number; receivedQuantity: number }>): "partially_received" | "received" {
+  return lines.every((line) => line.receivedQuantity >= line.quantity) ? "received" : "partially_received";
+}
+
+export interface ReorderCandidate {
+  id: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string;
+  currentStock: number;
+  reorderPoint: number;
+  maxStockLevel: number | null;
+  // Ordered on open purchase orders but not yet received
+  onOrder: number;
+  preferredSupplierId: string | null;
+  unitCost: number;
+}
+
+export interface ReorderSuggestion {
+  rawMaterialId: string;
+  sku: string;
+  name: string;
+  unitOfMeasure: string;
+  currentStock: number;
+  onOrder: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  estimatedUnitCost: number;
+  estimatedCost: number;
+}
+
+/**
+ * Tops each low-stock material up to its maximum stock level, or to twice
+ * its reorder point when no maximum is set, net of what is already on
+ * order. Materials already covered by open orders are left out. Suggestions
+ * are grouped by preferred supplier; null collects the unassigned ones.
+ */
+export function reorderSuggestions(candidates: ReorderCandidate[]): Array<{ supplierId: string | null; lines: ReorderSuggestion[]; estimatedTotal: number }> {
+  const groups = new Map<string | null, ReorderSuggestion[]>();
+  for (const candidate of candidates) {
+    const target = candidate.maxStockLevel ?? candidate.reorderPoint * 2;
+    const quantity = round4(target - candidate.currentStock - candidate.onOrder);
+    if (quantity <= 0 || candidate.currentStock + candidate.onOrder > candidate.reorderPoint) continue;
+
+    const lines = groups.get(candidate.preferredSupplierId) ?? [];
+    lines.push({
+      rawMaterialId: candidate.id,
+      sku: candidate.sku,
+      name: candidate.name,
+      unitOfMeasure: candidate.unitOfMeasure,
+      currentStock: candidate.currentStock,
+      onOrder: candidate.onOrder,
+      reorderPoint: candidate.reorderPoint,
+      suggestedQuantity: quantity,
+      estimatedUnitCost: candidate.unitCost,
+      estimatedCost: round2(quantity * candidate.unitCost),
+    });
+    groups.set(candidate.preferredSupplierId, lines);
+  }
+
+  return Array.from(groups.entries()).map(([supplierId, lines]) => ({
+    supplierId,
+    lines,
+    estimatedTotal: round2(lines.reduce((sum, line) => sum + line.estimatedCost, 0)),
+  }));
+}
@@ -0,0 +1,74 @@
+/**
+ * Three-way matching of a supplier bill against its purchase order and the
+ * goods received for it. A bill that bills no more than was received and
+ * at the ordered price, within the tenant's tolerances, is matched and can
+ * be paid; anything else is held for a manager to approve.
+ */
+
+import type { SupplierBillMatchException } from "@shared/schema";
+import { ProcurementError } from "./purchasing";
+import { round2, round4 } from "../../utils/money";
+
+export type { SupplierBillMatchException };
+
+export interface MatchOrderLine {
+  id: string;
+  description: string;
+  unitPrice: number;
+  receivedQuantity: number;
+  // Billed on earlier, uncancelled bills
+  billedQuantity: number;
+}
+
+export interface MatchBillLine {
+  purchaseOrderLineId: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface MatchTolerances {
+  pricePercent: number;
+  quantityPercent: number;
+}
+
+export interface MatchResult {
+  status: "matched" | "on_hold";
+  exceptions: SupplierBillMatchException[];
+}
+
+export function threeWayMatch(orderLines: MatchOrderLine[], billLines: MatchBillLine[], tolerances: MatchTolerances): MatchResult {
+  if (!billLines.length) throw new ProcurementError(400, "A supplier bill needs at least one line");
+
+  const exceptions: SupplierBillMatchException[] = [];
+  const seen = new Set<string>();
+  for (const billLine of billLines) {
+    const orderLine = orderLines.find((line) => line.id === billLine.purchaseOrderLineId);
+    if (!orderLine) throw new ProcurementError(400, "Bill line is not on the purchase order");
+    if (seen.has(orderLine.id)) throw new ProcurementError(400, `"${orderLine.description}" is billed more than once`);
+    seen.add(orderLine.id);
+    if (billLine.quantity <= 0) throw new ProcurementError(400, `Billed quantity for "${orderLine.description}" must be positive`);
+
+    const billable = round4(orderLine.receivedQuantity - orderLine.billedQuantity);
+    const billableWithTolerance = round4(billable + orderLine.receivedQuantity * tolerances.quantityPercent / 100);
+    if (billLine.quantity > billableWithTolerance) {
+      exceptions.push({
+        purchaseOrderLineId: orderLine.id,
+        type: "quantity_exceeds_received",
+        expected: Math.max(0, billable),
+        actual: billLine.quantity,
+      });
+    }
+
+    const variance = Math.abs(billLine.unitPrice - orderLine.unitPrice);
+    if (round2(variance) > round2(orderLine.unitPrice * tolerances.pricePercent / 100)) {
+      exceptions.push({
+        purchaseOrderLineId: orderLine.id,
+        type: "price_variance",
+        expected: orderLine.unitPrice,
+        actual: billLine.unitPrice,
+      });
+    }
+  }
+
+  return { status: exceptions.length ? "on_hold" : "matched", exceptions };
+}
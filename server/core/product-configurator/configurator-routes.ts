@@ -0,0 +1,463 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import {
+  ConfiguratorError,
+  INPUT_TYPES,
+  OPTION_TYPES,
+  PRICE_TYPES,
+  bomAdjustmentSchema,
+  configurationConditionSchema,
+} from "./configurator";
+import { productConfiguratorService } from "./configurator-service";
+
+export const productConfiguratorRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const QUOTATION_STATUSES = ["draft", "sent", "accepted", "rejected", "expired", "converted"] as const;
+
+const code = z.string().trim().min(1).max(50).regex(/^[a-z0-9_-]+$/i, "Use letters, digits, - and _ only");
+
+const optionValueSchema = z.object({
+  code,
+  label: z.string().trim().min(1).max(255),
+  isDefault: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const optionSchema = z.object({
+  code,
+  name: z.string().trim().min(1).max(255),
+  optionType: z.enum(OPTION_TYPES),
+  inputType: z.enum(INPUT_TYPES).optional(),
+  isRequired: z.boolean().optional(),
+  unit: z.string().max(20).nullable().optional(),
+  minValue: z.number().nullable().optional(),
+  maxValue: z.number().nullable().optional(),
+  baseValue: z.number().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+  values: z.array(optionValueSchema).optional(),
+});
+
+const updateOptionSchema = optionSchema
+  .omit({ code: true, optionType: true, inputType: true, values: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+const updateOptionValueSchema = optionValueSchema
+  .omit({ code: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  conditions: z.array(configurationConditionSchema).optional(),
+  priceType: z.enum(PRICE_TYPES).optional(),
+  priceAmount: z.number().optional(),
+  unitOption: z.string().nullable().optional(),
+  bomAdjustments: z.array(bomAdjustmentSchema).optional(),
+  priority: z.number().int().optional(),
+});
+
+const updateRuleSchema = ruleSchema.partial().extend({ isActive: z.boolean().optional() });
+
+const selectionsSchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+const configureSchema = z.object({
+  configuration: selectionsSchema.default({}),
+});
+
+const quotationItemSchema = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1),
+  configuration: selectionsSchema.optional(),
+  description: z.string().max(1000).optional(),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const quotationSchema = z.object({
+  customerId: z.string().min(1),
+  validUntil: dateString,
+  currency: z.string().length(3).optional(),
+  expectedDeliveryDate: dateString.nullable().optional(),
+  deliveryAddress: z.string().nullable().optional(),
+  requiresInstallation: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+  termsAndConditions: z.string().nullable().optional(),
+  salesPersonId: z.string().nullable().optional(),
+  items: z.array(quotationItemSchema).min(1),
+});
+
+const quotationQuerySchema = z.object({
+  status: z.enum(QUOTATION_STATUSES).optional(),
+  customerId: z.string().optional(),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+function sendConfiguratorError(res: Response, error: any) {
+  if (error instanceof ConfiguratorError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+// ==================== OPTIONS ====================
+
+productConfiguratorRouter.get("/products/:productId", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await productConfiguratorService.getProductConfigurator(isolation.getTenantId(), req.params.productId));
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/products/:productId/options", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = optionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const option = await productConfiguratorService.createOption(isolation.getTenantId(), req.params.productId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "furniture_product_option",
+      resourceId: option.id,
+      metadata: { productId: option.productId, code: option.code, values: option.values.length },
+    });
+
+    res.status(201).json(option);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.patch("/options/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateOptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const option = await productConfiguratorService.updateOption(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_product_option",
+      resourceId: option.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(option);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/options/:id/values", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = optionValueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const value = await productConfiguratorService.addOptionValue(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "furniture_product_option_value",
+      resourceId: value.id,
+      metadata: { optionId: value.optionId, code: value.code },
+    });
+
+    res.status(201).json(value);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.patch("/option-values/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateOptionValueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const value = await productConfiguratorService.updateOptionValue(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_product_option_value",
+      resourceId: value.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(value);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+// ==================== RULES ====================
+
+productConfiguratorRouter.post("/products/:productId/rules", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = ruleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const rule = await productConfiguratorService.createRule(isolation.getTenantId(), req.params.productId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "furniture_configuration_rule",
+      resourceId: rule.id,
+      metadata: { productId: rule.productId, priceType: rule.priceType, priceAmount: rule.priceAmount },
+    });
+
+    res.status(201).json(rule);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.patch("/rules/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const rule = await productConfiguratorService.updateRule(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_configuration_rule",
+      resourceId: rule.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(rule);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.delete("/rules/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    await productConfiguratorService.deleteRule(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "furniture_configuration_rule",
+      resourceId: req.params.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+// ==================== CONFIGURING ====================
+
+productConfiguratorRouter.post("/products/:productId/configure", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = configureSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await productConfiguratorService.configureProduct(isolation.getTenantId(), req.params.productId, parsed.data.configuration));
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+// ==================== QUOTATIONS ====================
+
+productConfiguratorRouter.get("/quotations", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = quotationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await productConfiguratorService.listQuotations(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.get("/quotations/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await productConfiguratorService.getQuotation(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/quotations", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = quotationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const quotation = await productConfiguratorService.createQuotation(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "furniture_quotation",
+      resourceId: quotation.id,
+      metadata: { quotationNumber: quotation.quotationNumber, totalAmount: quotation.totalAmount, items: quotation.items.length },
+    });
+
+    res.status(201).json(quotation);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.patch("/quotations/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = quotationSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const quotation = await productConfiguratorService.updateQuotation(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_quotation",
+      resourceId: quotation.id,
+      metadata: { fields: Object.keys(parsed.data), totalAmount: quotation.totalAmount },
+    });
+
+    res.json(quotation);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.delete("/quotations/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    await productConfiguratorService.deleteQuotation(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "furniture_quotation",
+      resourceId: req.params.id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/quotations/:id/send", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const quotation = await productConfiguratorService.sendQuotation(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_quotation",
+      resourceId: quotation.id,
+      metadata: { event: "sent" },
+    });
+
+    res.json(quotation);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/quotations/:id/accept", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const quotation = await productConfiguratorService.acceptQuotation(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_quotation",
+      resourceId: quotation.id,
+      metadata: { event: "accepted" },
+    });
+
+    res.json(quotation);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
+
+productConfiguratorRouter.post("/quotations/:id/reject", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = rejectSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const quotation = await productConfiguratorService.rejectQuotation(isolation.getTenantId(), req.params.id, parsed.data.reason);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "furniture_quotation",
+      resourceId: quotation.id,
+      metadata: { event: "rejected", reason: parsed.data.reason },
+    });
+
+    res.json(quotation);
+  } catch (error: any) {
+    sendConfiguratorError(res, error);
+  }
+});
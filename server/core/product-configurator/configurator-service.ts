@@ -0,0 +1,729 @@
+import { db } from "../../db";
+import {
+  furnitureConfigurationRules,
+  furnitureProductOptionValues,
+  furnitureProductOptions,
+  furnitureProducts,
+  furnitureQuotationItems,
+  furnitureQuotations,
+  furnitureSalesOrderItems,
+  furnitureSalesOrders,
+  rawMaterials,
+  type BomAdjustment,
+  type ConfigurationCondition,
+  type FurnitureConfigurationRule,
+  type FurnitureProduct,
+  type FurnitureProductOption,
+  type FurnitureProductOptionValue,
+  type FurnitureQuotation,
+  type FurnitureQuotationItem,
+  type FurnitureSalesOrder,
+  type FurnitureSalesOrderItem,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull, lt, ne, sql } from "drizzle-orm";
+import { mrpService } from "../mrp";
+import {
+  ConfiguratorError,
+  configure,
+  lineAmounts,
+  validateRule,
+  type Configuration,
+  type OptionDefinition,
+  type ProductDefinition,
+} from "./configurator";
+import { amount, round2 } from "../../utils/money";
+import { today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = Transaction | typeof db;
+type QuotationStatus = FurnitureQuotation["status"];
+
+// Offered quotations lapse once their validity date has passed
+const LAPSING_STATUSES: QuotationStatus[] = ["sent", "accepted"];
+
+export interface OptionValueInput {
+  code: string;
+  label: string;
+  isDefault?: boolean;
+  sortOrder?: number;
+}
+
+export interface OptionInput {
+  code: string;
+  name: string;
+  optionType: FurnitureProductOption["optionType"];
+  inputType?: FurnitureProductOption["inputType"];
+  isRequired?: boolean;
+  unit?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+  baseValue?: number | null;
+  sortOrder?: number;
+  values?: OptionValueInput[];
+}
+
+export interface RuleInput {
+  name: string;
+  conditions?: ConfigurationCondition[];
+  priceType?: FurnitureConfigurationRule["priceType"];
+  priceAmount?: number;
+  unitOption?: string | null;
+  bomAdjustments?: BomAdjustment[];
+  priority?: number;
+}
+
+export interface QuotationItemInput {
+  productId: string;
+  quantity: number;
+  configuration?: Record<string, unknown>;
+  description?: string;
+  discountPercentage?: number;
+  taxRate?: number;
+  notes?: string | null;
+}
+
+export interface QuotationInput {
+  customerId: string;
+  validUntil: string;
+  currency?: string;
+  expectedDeliveryDate?: string | null;
+  deliveryAddress?: string | null;
+  requiresInstallation?: boolean;
+  notes?: string | null;
+  termsAndConditions?: string | null;
+  salesPersonId?: string | null;
+  items: QuotationItemInput[];
+}
+
+export interface ConversionInput {
+  orderNumber: string;
+  status?: string;
+  orderType?: string;
+  expectedDeliveryDate?: string | null;
+  deliveryAddress?: string | null;
+  advanceAmount?: string | number;
+  notes?: string | null;
+  internalNotes?: string | null;
+}
+
+export type OptionWithValues = FurnitureProductOption & { values: FurnitureProductOptionValue[] };
+
+export interface ProductConfigurator {
+  productId: string;
+  productName: string;
+  basePrice: number;
+  options: OptionWithValues[];
+  rules: FurnitureConfigurationRule[];
+}
+
+export type QuotationWithItems = FurnitureQuotation & { items: FurnitureQuotationItem[] };
+
+function decimalOrNull(value: number | null | undefined): string | null | undefined {
+  return value === undefined ? undefined : value === null ? null : String(value);
+}
+
+function toDefinition(option: OptionWithValues): OptionDefinition {
+  return {
+    code: option.code,
+    name: option.name,
+    inputType: option.inputType,
+    isRequired: option.isRequired,
+    unit: option.unit,
+    minValue: option.minValue === null ? null : amount(option.minValue),
+    maxValue: option.maxValue === null ? null : amount(option.maxValue),
+    baseValue: option.baseValue === null ? null : amount(option.baseValue),
+    values: option.values
+      .filter((value) => value.isActive)
+      .map((value) => ({ code: value.code, label: value.label, isDefault: value.isDefault })),
+  };
+}
+
+class ProductConfiguratorService {
+  private async lock(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`configurator:${tenantId}`}))`);
+  }
+
+  // ==================== OPTIONS AND RULES ====================
+
+  private async findProduct(executor: Executor, tenantId: string, productId: string): Promise<FurnitureProduct> {
+    const [product] = await executor.select().from(furnitureProducts)
+      .where(and(eq(furnitureProducts.id, productId), eq(furnitureProducts.tenantId, tenantId), isNull(furnitureProducts.deletedAt)));
+    if (!product) throw new ConfiguratorError(404, "Product not found");
+    return product;
+  }
+
+  private async loadOptions(executor: Executor, tenantId: string, productId: string): Promise<OptionWithValues[]> {
+    const options = await executor.select().from(furnitureProductOptions)
+      .where(and(eq(furnitureProductOptions.tenantId, tenantId), eq(furnitureProductOptions.productId, productId)))
+      .orderBy(asc(furnitureProductOptions.sortOrder), asc(furnitureProductOptions.code));
+    const values = options.length
+      ? await executor.select().from(furnitureProductOptionValues)
+          .where(inArray(furnitureProductOptionValues.optionId, options.map((option) => option.id)))
+          .orderBy(asc(furnitureProductOptionValues.sortOrder), asc(furnitureProductOptionValues.code))
+      : [];
+    return options.map((option) => ({ ...option, values: values.filter((value) => value.optionId === option.id) }));
+  }
+
+  private async loadRules(executor: Executor, tenantId: string, productId: string): Promise<FurnitureConfigurationRule[]> {
+    return executor.select().from(furnitureConfigurationRules)
+      .where(and(eq(furnitureConfigurationRules.tenantId, tenantId), eq(furnitureConfigurationRules.productId, productId)))
+      .orderBy(asc(furnitureConfigurationRules.priority), asc(furnitureConfigurationRules.name));
+  }
+
+  async getProductConfigurator(tenantId: string, productId: string): Promise<ProductConfigurator> {
+    const product = await this.findProduct(db, tenantId, productId);
+    const [options, rules] = await Promise.all([
+      this.loadOptions(db, tenantId, product.id),
+      this.loadRules(db, tenantId, product.id),
+    ]);
+    return { productId: product.id, productName: product.name, basePrice: amount(product.sellingPrice), options, rules };
+  }
+
+  private async findOption(executor: Executor, tenantId: string, optionId: string): Promise<FurnitureProductOption> {
+    const [option] = await executor.select().from(furnitureProductOptions)
+      .where(and(eq(furnitureProductOptions.id, optionId), eq(furnitureProductOptions.tenantId, tenantId)));
+    if (!option) throw new ConfiguratorError(404, "Option not found");
+    return option;
+  }
+
+  private checkRange(option: { minValue?: number | null; maxValue?: number | null; baseValue?: number | null }): void {
+    const { minValue, maxValue, baseValue } = option;
+    if (minValue != null && maxValue != null && minValue > maxValue) {
+      throw new ConfiguratorError(400, "Minimum value must not exceed the maximum");
+    }
+    if (baseValue != null && ((minValue != null && baseValue < minValue) || (maxValue != null && baseValue > maxValue))) {
+      throw new ConfiguratorError(400, "Base value must lie within the option's range");
+    }
+  }
+
+  /**
+   * Adds an option to a product. Its code and input type are fixed once
+   * created, since rules and saved configurations refer to them.
+   */
+  async createOption(tenantId: string, productId: string, input: OptionInput): Promise<OptionWithValues> {
+    const product = await this.findProduct(db, tenantId, productId);
+    const inputType = input.inputType ?? "choice";
+    if (inputType !== "choice" && input.values?.length) {
+      throw new ConfiguratorError(400, `A ${inputType} option has no values to choose from`);
+    }
+    if (inputType === "number") this.checkRange(input);
+    if ((input.values ?? []).filter((value) => value.isDefault).length > 1) {
+      throw new ConfiguratorError(400, "Only one value can be the default");
+    }
+
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const [clash] = await tx.select({ id: furnitureProductOptions.id }).from(furnitureProductOptions)
+        .where(and(eq(furnitureProductOptions.productId, product.id), eq(furnitureProductOptions.code, input.code)));
+      if (clash) throw new ConfiguratorError(409, `Product already has an option "${input.code}"`);
+
+      const { values = [], minValue, maxValue, baseValue, ...fields } = input;
+      const [option] = await tx.insert(furnitureProductOptions).values({
+        ...fields,
+        tenantId,
+        productId: product.id,
+        inputType,
+        minValue: decimalOrNull(minValue),
+        maxValue: decimalOrNull(maxValue),
+        baseValue: decimalOrNull(baseValue),
+      }).returning();
+      const created = values.length
+        ? await tx.insert(furnitureProductOptionValues)
+            .values(values.map((value, index) => ({ sortOrder: index, ...value, tenantId, optionId: option.id })))
+            .returning()
+        : [];
+      return { ...option, values: created };
+    });
+  }
+
+  async updateOption(
+    tenantId: string,
+    optionId: string,
+    input: Partial<Omit<OptionInput, "code" | "inputType" | "optionType" | "values">> & { isActive?: boolean },
+  ): Promise<FurnitureProductOption> {
+    const existing = await this.findOption(db, tenantId, optionId);
+    if (existing.inputType === "number") {
+      this.checkRange({
+        minValue: input.minValue !== undefined ? input.minValue : existing.minValue === null ? null : amount(existing.minValue),
+        maxValue: input.maxValue !== undefined ? input.maxValue : existing.maxValue === null ? null : amount(existing.maxValue),
+        baseValue: input.baseValue !== undefined ? input.baseValue : existing.baseValue === null ? null : amount(existing.baseValue),
+      });
+    }
+    const { minValue, maxValue, baseValue, ...fields } = input;
+    const [option] = await db.update(furnitureProductOptions)
+      .set({
+        ...fields,
+        minValue: decimalOrNull(minValue),
+        maxValue: decimalOrNull(maxValue),
+        baseValue: decimalOrNull(baseValue),
+        updatedAt: new Date(),
+      })
+      .where(eq(furnitureProductOptions.id, existing.id))
+      .returning();
+    return option;
+  }
+
+  async addOptionValue(tenantId: string, optionId: string, input: OptionValueInput): Promise<FurnitureProductOptionValue> {
+    const option = await this.findOption(db, tenantId, optionId);
+    if (option.inputType !== "choice") throw new ConfiguratorError(400, `A ${option.inputType} option has no values to choose from`);
+
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const [clash] = await tx.select({ id: furnitureProductOptionValues.id }).from(furnitureProductOptionValues)
+        .where(and(eq(furnitureProductOptionValues.optionId, option.id), eq(furnitureProductOptionValues.code, input.code)));
+      if (clash) throw new ConfiguratorError(409, `"${option.name}" already has a value "${input.code}"`);
+      if (input.isDefault) await this.clearDefault(tx, option.id);
+      const [value] = await tx.insert(furnitureProductOptionValues)
+        .values({ ...input, tenantId, optionId: option.id })
+        .returning();
+      return value;
+    });
+  }
+
+  async updateOptionValue(
+    tenantId: string,
+    valueId: string,
+    input: Partial<Omit<OptionValueInput, "code">> & { isActive?: boolean },
+  ): Promise<FurnitureProductOptionValue> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const [existing] = await tx.select().from(furnitureProductOptionValues)
+        .where(and(eq(furnitureProductOptionValues.id, valueId), eq(furnitureProductOptionValues.tenantId, tenantId)));
+      if (!existing) throw new ConfiguratorError(404, "Option value not found");
+      if (input.isDefault) await this.clearDefault(tx, existing.optionId, existing.id);
+      const [value] = await tx.update(furnitureProductOptionValues)
+        .set({ ...input, updatedAt: new Date() })
+        .where(eq(furnitureProductOptionValues.id, existing.id))
+        .returning();
+      return value;
+    });
+  }
+
+  private async clearDefault(tx: Transaction, optionId: string, exceptId?: string): Promise<void> {
+    await tx.update(furnitureProductOptionValues)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(
+        eq(furnitureProductOptionValues.optionId, optionId),
+        eq(furnitureProductOptionValues.isDefault, true),
+        exceptId ? ne(furnitureProductOptionValues.id, exceptId) : undefined,
+      ));
+  }
+
+  // Rules may only name the product's options and the tenant's materials and products
+  private async checkRule(executor: Executor, tenantId: string, productId: string, rule: Required<Pick<RuleInput, "conditions" | "priceType" | "unitOption" | "bomAdjustments">>): Promise<void> {
+    const options = await this.loadOptions(executor, tenantId, productId);
+    validateRule(options.map(toDefinition), rule);
+
+    const materialIds = Array.from(new Set(rule.bomAdjustments
+      .flatMap((adjustment) => [adjustment.rawMaterialId, adjustment.withRawMaterialId])
+      .filter((id): id is string => !!id)));
+    const productIds = Array.from(new Set(rule.bomAdjustments
+      .flatMap((adjustment) => [adjustment.componentProductId, adjustment.withComponentProductId])
+      .filter((id): id is string => !!id)));
+
+    if (materialIds.length) {
+      const found = await executor.select({ id: rawMaterials.id }).from(rawMaterials)
+        .where(and(eq(rawMaterials.tenantId, tenantId), inArray(rawMaterials.id, materialIds), isNull(rawMaterials.deletedAt)));
+      if (found.length !== materialIds.length) throw new ConfiguratorError(422, "BOM adjustment names a raw material that does not exist");
+    }
+    if (productIds.length) {
+      if (productIds.includes(productId)) throw new ConfiguratorError(422, "A product cannot be a sub-assembly of itself");
+      const found = await executor.select({ id: furnitureProducts.id }).from(furnitureProducts)
+        .where(and(eq(furnitureProducts.tenantId, tenantId), inArray(furnitureProducts.id, productIds), isNull(furnitureProducts.deletedAt)));
+      if (found.length !== productIds.length) throw new ConfiguratorError(422, "BOM adjustment names a sub-assembly that does not exist");
+    }
+  }
+
+  async createRule(tenantId: string, productId: string, input: RuleInput): Promise<FurnitureConfigurationRule> {
+    const product = await this.findProduct(db, tenantId, productId);
+    const rule = {
+      conditions: input.conditions ?? [],
+      priceType: input.priceType ?? "fixed",
+      unitOption: input.unitOption ?? null,
+      bomAdjustments: input.bomAdjustments ?? [],
+    };
+    await this.checkRule(db, tenantId, product.id, rule);
+    const [created] = await db.insert(furnitureConfigurationRules).values({
+      ...rule,
+      tenantId,
+      productId: product.id,
+      name: input.name,
+      priceAmount: String(input.priceAmount ?? 0),
+      priority: input.priority ?? 0,
+    }).returning();
+    return created;
+  }
+
+  async updateRule(tenantId: string, ruleId: string, input: Partial<RuleInput> & { isActive?: boolean }): Promise<FurnitureConfigurationRule> {
+    const [existing] = await db.select().from(furnitureConfigurationRules)
+      .where(and(eq(furnitureConfigurationRules.id, ruleId), eq(furnitureConfigurationRules.tenantId, tenantId)));
+    if (!existing) throw new ConfiguratorError(404, "Rule not found");
+
+    await this.checkRule(db, tenantId, existing.productId, {
+      conditions: input.conditions ?? existing.conditions,
+      priceType: input.priceType ?? existing.priceType,
+      unitOption: input.unitOption !== undefined ? input.unitOption : existing.unitOption,
+      bomAdjustments: input.bomAdjustments ?? existing.bomAdjustments,
+    });
+    const { priceAmount, ...fields } = input;
+    const [rule] = await db.update(furnitureConfigurationRules)
+      .set({
+        ...fields,
+        priceAmount: priceAmount === undefined ? undefined : String(priceAmount),
+        updatedAt: new Date(),
+      })
+      .where(eq(furnitureConfigurationRules.id, existing.id))
+      .returning();
+    return rule;
+  }
+
+  async deleteRule(tenantId: string, ruleId: string): Promise<void> {
+    const deleted = await db.delete(furnitureConfigurationRules)
+      .where(and(eq(furnitureConfigurationRules.id, ruleId), eq(furnitureConfigurationRules.tenantId, tenantId)))
+      .returning({ id: furnitureConfigurationRules.id });
+    if (!deleted.length) throw new ConfiguratorError(404, "Rule not found");
+  }
+
+  // ==================== CONFIGURING ====================
+
+  private async loadDefinition(executor: Executor, tenantId: string, product: FurnitureProduct): Promise<ProductDefinition> {
+    const [options, rules, bom] = await Promise.all([
+      this.loadOptions(executor, tenantId, product.id),
+      this.loadRules(executor, tenantId, product.id),
+      mrpService.productBom(tenantId, product.id),
+    ]);
+    return {
+      name: product.name,
+      basePrice: amount(product.sellingPrice),
+      options: options.filter((option) => option.isActive).map(toDefinition),
+      rules: rules.filter((rule) => rule.isActive).map((rule) => ({
+        id: rule.id,
+        name: rule.name,
+        conditions: rule.conditions,
+        priceType: rule.priceType,
+        priceAmount: amount(rule.priceAmount),
+        unitOption: rule.unitOption,
+        bomAdjustments: rule.bomAdjustments,
+        priority: rule.priority,
+      })),
+      bom,
+    };
+  }
+
+  /**
+   * Prices a configuration of a product and works out the BOM it builds
+   * to, without saving anything.
+   */
+  async configureProduct(tenantId: string, productId: string, selections: Record<string, unknown>): Promise<Configuration> {
+    const product = await this.findProduct(db, tenantId, productId);
+    if (product.isActive === false) throw new ConfiguratorError(422, `Product "${product.name}" is not active`);
+    return configure(await this.loadDefinition(db, tenantId, product), selections);
+  }
+
+  /**
+   * The fields of a configured sales order item: the configuration's price
+   * and BOM, with the line's discount and tax worked out on that price.
+   */
+  async configureSalesItem(
+    tenantId: string,
+    item: { productId: string; configuration: Record<string, unknown>; quantity?: number; discountPercentage?: string | number | null; taxRate?: string | number | null; description?: string },
+  ) {
+    const product = await this.findProduct(db, tenantId, item.productId);
+    const configuration = await this.configureProduct(tenantId, product.id, item.configuration);
+    const quantity = item.quantity ?? 1;
+    const discountPercentage = amount(item.discountPercentage == null ? null : String(item.discountPercentage));
+    const taxRate = item.taxRate == null ? amount(product.gstRate) : amount(String(item.taxRate));
+    const line = lineAmounts(configuration.unitPrice, quantity, discountPercentage, taxRate);
+    return {
+      description: item.description || configuration.description,
+      configuration: configuration.selections,
+      configuredBom: configuration.bom,
+      unitPrice: configuration.unitPrice.toFixed(2),
+      discountPercentage: discountPercentage.toFixed(2),
+      discountAmount: line.discountAmount.toFixed(2),
+      taxRate: taxRate.toFixed(2),
+      taxAmount: line.taxAmount.toFixed(2),
+      totalPrice: line.totalPrice.toFixed(2),
+      hsnCode: product.hsnCode,
+    };
+  }
+
+  // Saves a configured item's selections and BOM, which the item endpoints do not accept directly
+  async attachConfiguration(
+    tenantId: string,
+    salesOrderId: string,
+    itemId: string,
+    configured: Pick<FurnitureSalesOrderItem, "configuration" | "configuredBom">,
+  ): Promise<FurnitureSalesOrderItem> {
+    const [order] = await db.select({ id: furnitureSalesOrders.id }).from(furnitureSalesOrders)
+      .where(and(eq(furnitureSalesOrders.id, salesOrderId), eq(furnitureSalesOrders.tenantId, tenantId)));
+    if (!order) throw new ConfiguratorError(404, "Sales order not found");
+    const [item] = await db.update(furnitureSalesOrderItems)
+      .set({ configuration: configured.configuration, configuredBom: configured.configuredBom, updatedAt: new Date() })
+      .where(and(eq(furnitureSalesOrderItems.id, itemId), eq(furnitureSalesOrderItems.salesOrderId, order.id)))
+      .returning();
+    if (!item) throw new ConfiguratorError(404, "Sales order item not found");
+    return item;
+  }
+
+  // ==================== QUOTATIONS ====================
+
+  // Marks offered quotations past their validity date as expired
+  private async expireLapsed(tenantId: string): Promise<void> {
+    await db.update(furnitureQuotations)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(and(
+        eq(furnitureQuotations.tenantId, tenantId),
+        inArray(furnitureQuotations.status, LAPSING_STATUSES),
+        lt(furnitureQuotations.validUntil, today()),
+      ));
+  }
+
+  async listQuotations(tenantId: string, filters: { status?: QuotationStatus; customerId?: string } = {}): Promise<FurnitureQuotation[]> {
+    await this.expireLapsed(tenantId);
+    return db.select().from(furnitureQuotations)
+      .where(and(
+        eq(furnitureQuotations.tenantId, tenantId),
+        isNull(furnitureQuotations.deletedAt),
+        filters.status ? eq(furnitureQuotations.status, filters.status) : undefined,
+        filters.customerId ? eq(furnitureQuotations.customerId, filters.customerId) : undefined,
+      ))
+      .orderBy(desc(furnitureQuotations.createdAt));
+  }
+
+  private async findQuotation(executor: Executor, tenantId: string, id: string): Promise<FurnitureQuotation> {
+    const [quotation] = await executor.select().from(furnitureQuotations)
+      .where(and(eq(furnitureQuotations.id, id), eq(furnitureQuotations.tenantId, tenantId), isNull(furnitureQuotations.deletedAt)));
+    if (!quotation) throw new ConfiguratorError(404, "Quotation not found");
+    return quotation;
+  }
+
+  private async withItems(executor: Executor, quotation: FurnitureQuotation): Promise<QuotationWithItems> {
+    const items = await executor.select().from(furnitureQuotationItems)
+      .where(eq(furnitureQuotationItems.quotationId, quotation.id))
+      .orderBy(asc(furnitureQuotationItems.sortOrder));
+    return { ...quotation, items };
+  }
+
+  async getQuotation(tenantId: string, id: string): Promise<QuotationWithItems> {
+    await this.expireLapsed(tenantId);
+    return this.withItems(db, await this.findQuotation(db, tenantId, id));
+  }
+
+  // Prices every line from its product's rules and totals the quotation
+  private async priceItems(tenantId: string, items: QuotationItemInput[]) {
+    const lines: Array<{ gross: number; values: Omit<typeof furnitureQuotationItems.$inferInsert, "quotationId"> }> = [];
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const product = await this.findProduct(db, tenantId, item.productId);
+      if (product.isActive === false) throw new ConfiguratorError(422, `Product "${product.name}" is not active`);
+      const configuration = configure(await this.loadDefinition(db, tenantId, product), item.configuration ?? {});
+      const discountPercentage = item.discountPercentage ?? 0;
+      const taxRate = item.taxRate ?? amount(product.gstRate);
+      const line = lineAmounts(configuration.unitPrice, item.quantity, discountPercentage, taxRate);
+      lines.push({
+        gross: line.gross,
+        values: {
+          productId: product.id,
+          description: item.description || configuration.description,
+          quantity: item.quantity,
+          configuration: configuration.selections,
+          configuredBom: configuration.bom,
+          basePrice: configuration.basePrice.toFixed(2),
+          priceBreakdown: configuration.priceBreakdown,
+          unitPrice: configuration.unitPrice.toFixed(2),
+          discountPercentage: discountPercentage.toFixed(2),
+          discountAmount: line.discountAmount.toFixed(2),
+          taxRate: taxRate.toFixed(2),
+          taxAmount: line.taxAmount.toFixed(2),
+          totalPrice: line.totalPrice.toFixed(2),
+          hsnCode: product.hsnCode,
+          notes: item.notes ?? null,
+          sortOrder: index,
+        },
+      });
+    }
+    const sum = (pick: (line: typeof lines[number]) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+    return {
+      items: lines.map((line) => line.values),
+      totals: {
+        subtotal: sum((line) => line.gross).toFixed(2),
+        discountAmount: sum((line) => amount(line.values.discountAmount)).toFixed(2),
+        taxAmount: sum((line) => amount(line.values.taxAmount)).toFixed(2),
+        totalAmount: sum((line) => amount(line.values.totalPrice)).toFixed(2),
+      },
+    };
+  }
+
+  async createQuotation(tenantId: string, userId: string | undefined, input: QuotationInput): Promise<QuotationWithItems> {
+    const { items, totals } = await this.priceItems(tenantId, input.items);
+    const { items: _, ...fields } = input;
+    return db.transaction(async (tx) => {
+      const [quotation] = await tx.insert(furnitureQuotations).values({
+        ...fields,
+        ...totals,
+        tenantId,
+        quotationNumber: `QT-${Date.now()}`,
+        createdBy: userId,
+      }).returning();
+      const created = await tx.insert(furnitureQuotationItems)
+        .values(items.map((item) => ({ ...item, quotationId: quotation.id })))
+        .returning();
+      return { ...quotation, items: created };
+    });
+  }
+
+  /**
+   * Edits a draft quotation. Items, when given, replace the existing lines
+   * and are repriced from the current rules.
+   */
+  async updateQuotation(tenantId: string, id: string, input: Partial<QuotationInput>): Promise<QuotationWithItems> {
+    const existing = await this.findQuotation(db, tenantId, id);
+    if (existing.status !== "draft") throw new ConfiguratorError(409, `Quotation is ${existing.status} and can no longer be edited`);
+    const priced = input.items ? await this.priceItems(tenantId, input.items) : null;
+    const { items: _, ...fields } = input;
+
+    return db.transaction(async (tx) => {
+      const [quotation] = await tx.update(furnitureQuotations)
+        .set({ ...fields, ...priced?.totals, updatedAt: new Date() })
+        .where(eq(furnitureQuotations.id, existing.id))
+        .returning();
+      if (priced) {
+        await tx.delete(furnitureQuotationItems).where(eq(furnitureQuotationItems.quotationId, existing.id));
+        await tx.insert(furnitureQuotationItems).values(priced.items.map((item) => ({ ...item, quotationId: existing.id })));
+      }
+      return this.withItems(tx, quotation);
+    });
+  }
+
+  // Moves a quotation along, refusing ones that have lapsed
+  private async transition(
+    tenantId: string,
+    id: string,
+    from: QuotationStatus[],
+    to: QuotationStatus,
+    changes: Partial<typeof furnitureQuotations.$inferInsert> = {},
+  ): Promise<FurnitureQuotation> {
+    await this.expireLapsed(tenantId);
+    const existing = await this.findQuotation(db, tenantId, id);
+    if (!from.includes(existing.status)) {
+      throw new ConfiguratorError(409, `Quotation is ${existing.status}; only ${from.join(" or ")} quotations can be ${to}`);
+    }
+    if (to === "sent" && existing.validUntil < today()) {
+      throw new ConfiguratorError(409, `Quotation was only valid until ${existing.validUntil}`);
+    }
+    const [quotation] = await db.update(furnitureQuotations)
+      .set({ ...changes, status: to, updatedAt: new Date() })
+      .where(and(eq(furnitureQuotations.id, existing.id), eq(furnitureQuotations.status, existing.status)))
+      .returning();
+    if (!quotation) throw new ConfiguratorError(409, "Quotation changed while updating it; try again");
+    return quotation;
+  }
+
+  async sendQuotation(tenantId: string, id: string): Promise<FurnitureQuotation> {
+    const quotation = await this.findQuotation(db, tenantId, id);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(furnitureQuotationItems)
+      .where(eq(furnitureQuotationItems.quotationId, quotation.id));
+    if (!count) throw new ConfiguratorError(422, "Quotation has no items");
+    return this.transition(tenantId, id, ["draft"], "sent", { sentAt: new Date() });
+  }
+
+  async acceptQuotation(tenantId: string, id: string): Promise<FurnitureQuotation> {
+    return this.transition(tenantId, id, ["sent"], "accepted", { respondedAt: new Date() });
+  }
+
+  async rejectQuotation(tenantId: string, id: string, reason?: string): Promise<FurnitureQuotation> {
+    return this.transition(tenantId, id, ["sent", "accepted"], "rejected", { respondedAt: new Date(), rejectionReason: reason ?? null });
+  }
+
+  async deleteQuotation(tenantId: string, id: string): Promise<void> {
+    const existing = await this.findQuotation(db, tenantId, id);
+    if (existing.status === "converted") throw new ConfiguratorError(409, "Converted quotations cannot be deleted");
+    await db.update(furnitureQuotations)
+      .set({ deletedAt: new Date() })
+      .where(eq(furnitureQuotations.id, existing.id));
+  }
+
+  /**
+   * Turns a sent or accepted quotation into a sales order carrying its
+   * lines, configurations and configured BOMs. Line discounts stay on the
+   * items, so the order's subtotal is net of them and it has no order-level
+   * discount.
+   */
+  async convertQuotation(tenantId: string, userId: string | undefined, id: string, input: ConversionInput): Promise<FurnitureSalesOrder> {
+    await this.expireLapsed(tenantId);
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const quotation = await this.findQuotation(tx, tenantId, id);
+      if (quotation.status === "converted") {
+        throw new ConfiguratorError(409, "Quotation has already been converted to a sales order");
+      }
+      if (quotation.status !== "sent" && quotation.status !== "accepted") {
+        throw new ConfiguratorError(409, `Quotation is ${quotation.status}; only sent or accepted quotations can be converted`);
+      }
+      const { items } = await this.withItems(tx, quotation);
+
+      const total = amount(quotation.totalAmount);
+      const advance = amount(input.advanceAmount === undefined ? null : String(input.advanceAmount));
+      if (advance < 0 || advance > total) {
+        throw new ConfiguratorError(400, `Advance amount (${advance}) must be between 0 and the total (${total})`);
+      }
+
+      const [order] = await tx.insert(furnitureSalesOrders).values({
+        tenantId,
+        orderNumber: input.orderNumber,
+        customerId: quotation.customerId,
+        orderType: input.orderType ?? "retail",
+        status: input.status ?? "confirmed",
+        subtotal: round2(amount(quotation.subtotal) - amount(quotation.discountAmount)).toFixed(2),
+        taxAmount: quotation.taxAmount,
+        discountAmount: "0",
+        totalAmount: quotation.totalAmount,
+        advanceAmount: advance.toFixed(2),
+        balanceAmount: round2(total - advance).toFixed(2),
+        currency: quotation.currency,
+        expectedDeliveryDate: input.expectedDeliveryDate !== undefined ? input.expectedDeliveryDate : quotation.expectedDeliveryDate,
+        deliveryAddress: input.deliveryAddress !== undefined ? input.deliveryAddress : quotation.deliveryAddress,
+        requiresInstallation: quotation.requiresInstallation,
+        notes: input.notes !== undefined ? input.notes : quotation.notes,
+        internalNotes: input.internalNotes ?? `Converted from quotation ${quotation.quotationNumber}`,
+        termsAndConditions: quotation.termsAndConditions,
+        salesPersonId: quotation.salesPersonId,
+        createdBy: userId,
+      }).returning();
+
+      if (items.length) {
+        await tx.insert(furnitureSalesOrderItems).values(items.map((item) => ({
+          salesOrderId: order.id,
+          productId: item.productId,
+          description: item.description,
+          quantity: item.quantity,
+          configuration: item.configuration,
+          configuredBom: item.configuredBom,
+          unitPrice: item.unitPrice,
+          discountPercentage: item.discountPercentage,
+          discountAmount: item.discountAmount,
+          taxRate: item.taxRate,
+          taxAmount: item.taxAmount,
+          totalPrice: item.totalPrice,
+          hsnCode: item.hsnCode,
+          notes: item.notes,
+          sortOrder: item.sortOrder,
+        })));
+      }
+
+      await tx.update(furnitureQuotations)
+        .set({
+          status: "converted",
+          salesOrderId: order.id,
+          convertedAt: new Date(),
+          respondedAt: quotation.respondedAt ?? new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(furnitureQuotations.id, quotation.id));
+      return order;
+    });
+  }
+}
+
+export const productConfiguratorService = new ProductConfiguratorService();
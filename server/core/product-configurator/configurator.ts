@@ -0,0 +1,333 @@
+/**
+ * Configurable furniture products: resolving a customer's option selections,
+ * and applying the product's rules to price the configuration and adjust its
+ * bill of materials. Rules apply in priority order; percentage adjustments
+ * are of the base price, so the order only matters for BOM changes.
+ */
+
+import { z } from "zod";
+import type {
+  BomAdjustment,
+  ConfigurationCondition,
+  ConfigurationSelections,
+  ConfiguredBomLine,
+  PriceAdjustment,
+} from "@shared/schema";
+import { STAGE_TYPES, type ProductBom } from "../mrp/planning";
+import { round2, round4 } from "../../utils/money";
+
+export const OPTION_TYPES = ["material", "dimension", "color", "add_on"] as const;
+export const INPUT_TYPES = ["choice", "number", "toggle"] as const;
+export const PRICE_TYPES = ["fixed", "percent", "per_unit"] as const;
+
+export class ConfiguratorError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ConfiguratorError";
+  }
+}
+
+export const configurationConditionSchema = z.object({
+  option: z.string().min(1),
+  values: z.array(z.string().min(1)).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  selected: z.boolean().optional(),
+});
+
+export const bomAdjustmentSchema = z.object({
+  action: z.enum(["add", "remove", "replace", "scale"]),
+  rawMaterialId: z.string().min(1).optional(),
+  componentProductId: z.string().min(1).optional(),
+  withRawMaterialId: z.string().min(1).optional(),
+  withComponentProductId: z.string().min(1).optional(),
+  quantity: z.number().positive().optional(),
+  factor: z.number().min(0).optional(),
+  perUnit: z.boolean().optional(),
+  wastePercent: z.number().min(0).max(100).optional(),
+  consumptionStage: z.enum(STAGE_TYPES).optional(),
+}).superRefine((adjustment, ctx) => {
+  const targets = Number(!!adjustment.rawMaterialId) + Number(!!adjustment.componentProductId);
+  const replacements = Number(!!adjustment.withRawMaterialId) + Number(!!adjustment.withComponentProductId);
+  if (targets > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Name either a raw material or a sub-assembly, not both" });
+  }
+  if (adjustment.action !== "scale" && targets === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A ${adjustment.action} adjustment needs a raw material or sub-assembly` });
+  }
+  if (adjustment.action === "add" && adjustment.quantity === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "An add adjustment needs a quantity", path: ["quantity"] });
+  }
+  if (adjustment.action === "replace" && replacements !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A replace adjustment needs exactly one replacement" });
+  }
+  if (adjustment.action === "scale" && adjustment.factor === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A scale adjustment needs a factor", path: ["factor"] });
+  }
+});
+
+export interface OptionValueDefinition {
+  code: string;
+  label: string;
+  isDefault: boolean;
+}
+
+export interface OptionDefinition {
+  code: string;
+  name: string;
+  inputType: typeof INPUT_TYPES[number];
+  isRequired: boolean;
+  unit: string | null;
+  minValue: number | null;
+  maxValue: number | null;
+  baseValue: number | null;
+  values: OptionValueDefinition[];
+}
+
+export interface RuleDefinition {
+  id: string;
+  name: string;
+  conditions: ConfigurationCondition[];
+  priceType: typeof PRICE_TYPES[number];
+  priceAmount: number;
+  unitOption: string | null;
+  bomAdjustments: BomAdjustment[];
+  priority: number;
+}
+
+export interface ProductDefinition {
+  name: string;
+  basePrice: number;
+  options: OptionDefinition[];
+  rules: RuleDefinition[];
+  // The product's own BOM, or undefined when it has none
+  bom?: ProductBom;
+}
+
+export interface Configuration {
+  selections: ConfigurationSelections;
+  description: string;
+  basePrice: number;
+  priceBreakdown: PriceAdjustment[];
+  unitPrice: number;
+  // Per unit of the item; null when neither the product nor its rules define materials
+  bom: ConfiguredBomLine[] | null;
+}
+
+/**
+ * Checks selections against the product's active options and fills in what
+ * was left out: a choice takes its default value, a number its base value,
+ * and a toggle is off.
+ */
+export function resolveSelections(options: OptionDefinition[], input: Record<string, unknown>): ConfigurationSelections {
+  const known = new Set(options.map((option) => option.code));
+  const unknown = Object.keys(input).filter((code) => !known.has(code));
+  if (unknown.length) throw new ConfiguratorError(422, `Unknown option ${unknown.map((code) => `"${code}"`).join(", ")}`);
+
+  const selections: ConfigurationSelections = {};
+  for (const option of options) {
+    const value = input[option.code];
+    if (option.inputType === "toggle") {
+      if (value !== undefined && typeof value !== "boolean") {
+        throw new ConfiguratorError(422, `"${option.name}" must be true or false`);
+      }
+      selections[option.code] = value === true;
+      continue;
+    }
+
+    if (option.inputType === "number") {
+      const number = value === undefined || value === null ? option.baseValue : Number(value);
+      if (number === null) {
+        if (option.isRequired) throw new ConfiguratorError(422, `"${option.name}" is required`);
+        continue;
+      }
+      if (!Number.isFinite(number)) throw new ConfiguratorError(422, `"${option.name}" must be a number`);
+      if ((option.minValue !== null && number < option.minValue) || (option.maxValue !== null && number > option.maxValue)) {
+        throw new ConfiguratorError(422, `"${option.name}" must be between ${option.minValue ?? "-"} and ${option.maxValue ?? "-"}${option.unit ? ` ${option.unit}` : ""}`);
+      }
+      selections[option.code] = number;
+      continue;
+    }
+
+    const code = value === undefined || value === null ? option.values.find((candidate) => candidate.isDefault)?.code : value;
+    if (code === undefined) {
+      if (option.isRequired) throw new ConfiguratorError(422, `"${option.name}" is required`);
+      continue;
+    }
+    if (typeof code !== "string" || !option.values.some((candidate) => candidate.code === code)) {
+      throw new ConfiguratorError(422, `"${String(code)}" is not a value of "${option.name}"`);
+    }
+    selections[option.code] = code;
+  }
+  return selections;
+}
+
+export function ruleMatches(conditions: ConfigurationCondition[], selections: ConfigurationSelections): boolean {
+  return conditions.every((condition) => {
+    const value = selections[condition.option];
+    if (condition.values && !(typeof value === "string" && condition.values.includes(value))) return false;
+    if (condition.selected !== undefined && value !== condition.selected) return false;
+    if (condition.min !== undefined && !(typeof value === "number" && value >= condition.min)) return false;
+    if (condition.max !== undefined && !(typeof value === "number" && value <= condition.max)) return false;
+    if (!condition.values && condition.selected === undefined && condition.min === undefined && condition.max === undefined) {
+      // A bare condition holds whenever the option has a value, and a toggle only when on
+      return value !== undefined && value !== false;
+    }
+    return true;
+  });
+}
+
+// How far a number option is set above the measurement the base price assumes
+function unitsOver(options: OptionDefinition[], selections: ConfigurationSelections, code: string | null): number {
+  const option = code ? options.find((candidate) => candidate.code === code) : undefined;
+  const value = code ? selections[code] : undefined;
+  if (!option || typeof value !== "number") return 0;
+  return Math.max(value - (option.baseValue ?? 0), 0);
+}
+
+function matchedRules(rules: RuleDefinition[], selections: ConfigurationSelections): RuleDefinition[] {
+  return rules
+    .filter((rule) => ruleMatches(rule.conditions, selections))
+    .sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+export function priceConfiguration(product: ProductDefinition, selections: ConfigurationSelections): { priceBreakdown: PriceAdjustment[]; unitPrice: number } {
+  const priceBreakdown = matchedRules(product.rules, selections)
+    .map((rule) => {
+      const amount = rule.priceType === "percent"
+        ? product.basePrice * rule.priceAmount / 100
+        : rule.priceType === "per_unit"
+          ? rule.priceAmount * unitsOver(product.options, selections, rule.unitOption)
+          : rule.priceAmount;
+      return { ruleId: rule.id, rule: rule.name, amount: round2(amount) };
+    })
+    .filter((adjustment) => adjustment.amount !== 0);
+  const unitPrice = round2(priceBreakdown.reduce((sum, adjustment) => sum + adjustment.amount, product.basePrice));
+  return { priceBreakdown, unitPrice: Math.max(unitPrice, 0) };
+}
+
+function targets(line: ConfiguredBomLine, adjustment: BomAdjustment): boolean {
+  if (adjustment.rawMaterialId) return line.rawMaterialId === adjustment.rawMaterialId;
+  if (adjustment.componentProductId) return line.componentProductId === adjustment.componentProductId;
+  return true;
+}
+
+/**
+ * The configured item's BOM per unit: the product's BOM scaled to one unit,
+ * with each matching rule's adjustments applied in turn.
+ */
+export function configureBom(product: ProductDefinition, selections: ConfigurationSelections): ConfiguredBomLine[] | null {
+  const rules = matchedRules(product.rules, selections).filter((rule) => rule.bomAdjustments.length);
+  if (!product.bom && !rules.length) return null;
+
+  const yieldQuantity = Math.max(product.bom?.yieldQuantity ?? 1, 1);
+  let lines: ConfiguredBomLine[] = (product.bom?.lines ?? []).map((line) => ({
+    rawMaterialId: line.rawMaterialId,
+    componentProductId: line.componentProductId,
+    quantity: line.quantity / yieldQuantity,
+    wastePercent: line.wastePercent,
+    consumptionStage: line.consumptionStage,
+  }));
+
+  for (const rule of rules) {
+    const units = unitsOver(product.options, selections, rule.unitOption);
+    for (const adjustment of rule.bomAdjustments) {
+      switch (adjustment.action) {
+        case "add": {
+          const quantity = (adjustment.quantity ?? 0) * (adjustment.perUnit ? units : 1);
+          if (quantity <= 0) break;
+          const stage = adjustment.consumptionStage ?? null;
+          const existing = lines.find((line) => targets(line, adjustment) && line.consumptionStage === stage);
+          if (existing) existing.quantity += quantity;
+          else lines.push({
+            rawMaterialId: adjustment.rawMaterialId ?? null,
+            componentProductId: adjustment.rawMaterialId ? null : adjustment.componentProductId ?? null,
+            quantity,
+            wastePercent: adjustment.wastePercent ?? 0,
+            consumptionStage: stage,
+          });
+          break;
+        }
+        case "remove":
+          lines = lines.filter((line) => !targets(line, adjustment));
+          break;
+        case "replace":
+          for (const line of lines.filter((candidate) => targets(candidate, adjustment))) {
+            line.rawMaterialId = adjustment.withRawMaterialId ?? null;
+            line.componentProductId = adjustment.withRawMaterialId ? null : adjustment.withComponentProductId ?? null;
+            line.quantity *= adjustment.factor ?? 1;
+          }
+          break;
+        case "scale": {
+          // Per unit, the factor is the growth for each unit over the option's base value
+          const factor = adjustment.perUnit ? 1 + (adjustment.factor ?? 0) * units : adjustment.factor ?? 1;
+          for (const line of lines.filter((candidate) => targets(candidate, adjustment))) line.quantity *= factor;
+          break;
+        }
+      }
+    }
+  }
+
+  return lines
+    .map((line) => ({ ...line, quantity: round4(line.quantity) }))
+    .filter((line) => line.quantity > 0);
+}
+
+export function describeConfiguration(product: ProductDefinition, selections: ConfigurationSelections): string {
+  const parts = product.options.flatMap((option) => {
+    const value = selections[option.code];
+    if (value === undefined || value === false) return [];
+    if (option.inputType === "toggle") return [option.name];
+    if (option.inputType === "number") return [`${option.name}: ${value}${option.unit ? ` ${option.unit}` : ""}`];
+    const label = option.values.find((candidate) => candidate.code === value)?.label ?? String(value);
+    return [`${option.name}: ${label}`];
+  });
+  return parts.length ? `${product.name} (${parts.join(", ")})` : product.name;
+}
+
+export function configure(product: ProductDefinition, input: Record<string, unknown>): Configuration {
+  const selections = resolveSelections(product.options, input);
+  return {
+    selections,
+    description: describeConfiguration(product, selections),
+    basePrice: product.basePrice,
+    ...priceConfiguration(product, selections),
+    bom: configureBom(product, selections),
+  };
+}
+
+/**
+ * Checks a rule against the product's options: conditions and per-unit
+ * pricing may only name options that exist, with values they offer.
+ */
+export function validateRule(options: OptionDefinition[], rule: Pick<RuleDefinition, "conditions" | "priceType" | "unitOption" | "bomAdjustments">): void {
+  const byCode = new Map(options.map((option) => [option.code, option]));
+  for (const condition of rule.conditions) {
+    const option = byCode.get(condition.option);
+    if (!option) throw new ConfiguratorError(422, `Condition names unknown option "${condition.option}"`);
+    const unknown = (condition.values ?? []).filter((code) => !option.values.some((value) => value.code === code));
+    if (unknown.length) throw new ConfiguratorError(422, `"${option.name}" has no value ${unknown.map((code) => `"${code}"`).join(", ")}`);
+    if ((condition.min !== undefined || condition.max !== undefined) && option.inputType !== "number") {
+      throw new ConfiguratorError(422, `"${option.name}" is not a number option and cannot have a range`);
+    }
+  }
+
+  const perUnit = rule.priceType === "per_unit" || rule.bomAdjustments.some((adjustment) => adjustment.perUnit);
+  if (perUnit) {
+    const option = rule.unitOption ? byCode.get(rule.unitOption) : undefined;
+    if (!option || option.inputType !== "number") {
+      throw new ConfiguratorError(422, "Per-unit adjustments need a number option to measure units against");
+    }
+  }
+}
+
+/**
+ * Line amounts the way sales order items are invoiced: the discount comes
+ * off the gross, and tax is charged on what remains.
+ */
+export function lineAmounts(unitPrice: number, quantity: number, discountPercentage: number, taxRate: number) {
+  const gross = round2(unitPrice * quantity);
+  const discountAmount = round2(gross * discountPercentage / 100);
+  const taxAmount = round2((gross - discountAmount) * taxRate / 100);
+  return { gross, discountAmount, taxAmount, totalPrice: round2(gross - discountAmount + taxAmount) };
+}
@@ -0,0 +1,15 @@
+/**
+ * Furniture Product Configurator
+ *
+ * Configurable furniture products and quotations:
+ * - Material, dimension, color and add-on options per product
+ * - Rules that adjust the price and BOM for matching configurations
+ * - Configured BOMs on sales order items, used by MRP for made-to-order lines
+ * - Quotations priced from the rules, converted to sales orders once accepted
+ *
+ * @module server/core/product-configurator
+ */
+
+export * from "./configurator";
+export { productConfiguratorService } from "./configurator-service";
+export { productConfiguratorRouter } from "./configurator-routes";
@@ -0,0 +1,15 @@
+/**
+ * Production Scheduling
+ *
+ * Finite-capacity scheduling of furniture production:
+ * - Work centers with weekly shift calendars, blocked dates and parallel capacity
+ * - Forward scheduling from a start, or backward from the sales order's delivery date
+ * - Gantt data with each work center's daily load
+ * - Rescheduling of later stages when a stage starts late, finishes late or is reported slipping
+ *
+ * @module server/core/production-scheduling
+ */
+
+export * from "./schedule";
+export { productionSchedulingService } from "./scheduling-service";
+export { productionSchedulingRouter } from "./scheduling-routes";
@@ -0,0 +1,263 @@
+/**
+ * Finite-capacity scheduling of production stages on work centers.
+ *
+ * Times are minutes since the epoch on the wall clock, evaluated in UTC like
+ * the other date helpers, so a shift from "08:00" to "16:00" means those
+ * hours whatever the server's timezone. A stage runs through consecutive
+ * working time on its work center, pausing between shifts, and may start
+ * only where fewer than the work center's capacity of other stages overlap it.
+ */
+
+import { z } from "zod";
+import {
+  addDays,
+  dateString,
+  timeToMinutes,
+  weeklyScheduleSchema,
+  windowsForDate,
+} from "../../utils/time-of-day";
+
+export const SCHEDULE_DIRECTIONS = ["forward", "backward"] as const;
+export type ScheduleDirection = typeof SCHEDULE_DIRECTIONS[number];
+
+// How far ahead a stage may be pushed looking for capacity
+export const HORIZON_DAYS = 365;
+
+export class SchedulingError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "SchedulingError";
+  }
+}
+
+export const workCenterCalendarSchema = z.object({
+  shifts: weeklyScheduleSchema.default({}),
+  blockedDates: z.array(dateString).default([]),
+});
+
+export type WorkCenterCalendar = z.infer<typeof workCenterCalendarSchema>;
+
+/**
+ * Parses the stored jsonb columns, treating anything unreadable as a work
+ * center with no shifts.
+ */
+export function parseCalendar(shifts: unknown, blockedDates: unknown): WorkCenterCalendar {
+  const parsed = workCenterCalendarSchema.safeParse({ shifts: shifts ?? {}, blockedDates: blockedDates ?? [] });
+  return parsed.success ? parsed.data : workCenterCalendarSchema.parse({});
+}
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export function toMinute(date: string, time = "00:00"): number {
+  return Math.round(new Date(`${date}T00:00:00Z`).getTime() / 60000) + timeToMinutes(time);
+}
+
+export function dateOfMinute(minute: number): string {
+  return new Date(minute * 60000).toISOString().slice(0, 10);
+}
+
+export function fromTimestamp(value: Date): number {
+  return Math.floor(value.getTime() / 60000);
+}
+
+export function toTimestamp(minute: number): Date {
+  return new Date(minute * 60000);
+}
+
+// Working windows from the start of `fromDate` to the end of `toDate`, in order
+export function workingIntervals(calendar: WorkCenterCalendar, fromDate: string, toDate: string): Interval[] {
+  const intervals: Interval[] = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    const windows = windowsForDate(calendar.shifts, calendar.blockedDates, date)
+      .map((window) => ({ start: toMinute(date, window.start), end: toMinute(date, window.end) }))
+      .sort((a, b) => a.start - b.start);
+    intervals.push(...windows);
+  }
+  return intervals;
+}
+
+export function workingMinutesBetween(calendar: WorkCenterCalendar, start: number, end: number): number {
+  if (end <= start) return 0;
+  return workingIntervals(calendar, dateOfMinute(start), dateOfMinute(end))
+    .reduce((sum, window) => sum + Math.max(Math.min(window.end, end) - Math.max(window.start, start), 0), 0);
+}
+
+export function stageDuration(
+  workCenter: { setupMinutes: number; minutesPerUnit: number },
+  quantity: number,
+  plannedMinutes: number | null,
+): number {
+  return plannedMinutes ?? workCenter.setupMinutes + workCenter.minutesPerUnit * Math.max(quantity, 1);
+}
+
+// The most bookings running at once anywhere inside the span
+export function maxOverlap(bookings: Interval[], span: Interval): number {
+  if (span.end <= span.start) return 0;
+  const edges = bookings
+    .filter((booking) => booking.start < span.end && booking.end > span.start)
+    .flatMap((booking) => [
+      { at: Math.max(booking.start, span.start), delta: 1 },
+      { at: Math.min(booking.end, span.end), delta: -1 },
+    ])
+    .sort((a, b) => a.at - b.at || a.delta - b.delta);
+  let running = 0;
+  let highest = 0;
+  for (const edge of edges) {
+    running += edge.delta;
+    highest = Math.max(highest, running);
+  }
+  return highest;
+}
+
+// Spends `duration` working minutes from `from` onwards
+function spanForward(windows: Interval[], from: number, duration: number): Interval | null {
+  let start: number | null = null;
+  let remaining = duration;
+  for (const window of windows) {
+    if (window.end <= from) continue;
+    const begin = Math.max(window.start, from);
+    if (start === null) start = begin;
+    const used = Math.min(window.end - begin, remaining);
+    remaining -= used;
+    if (remaining === 0) return { start, end: begin + used };
+  }
+  return null;
+}
+
+// Spends `duration` working minutes back from `until`
+function spanBackward(windows: Interval[], until: number, duration: number): Interval | null {
+  let end: number | null = null;
+  let remaining = duration;
+  for (let index = windows.length - 1; index >= 0; index--) {
+    const window = windows[index];
+    if (window.start >= until) continue;
+    const finish = Math.min(window.end, until);
+    if (end === null) end = finish;
+    const used = Math.min(finish - window.start, remaining);
+    remaining -= used;
+    if (remaining === 0) return { start: finish - used, end };
+  }
+  return null;
+}
+
+export interface Resource {
+  id: string;
+  name: string;
+  capacity: number;
+  calendar: WorkCenterCalendar;
+  bookings: Interval[];
+}
+
+/**
+ * The earliest span of `duration` working minutes starting no sooner than
+ * `earliest` where the resource has capacity throughout. Capacity can only
+ * free up at the start of a shift or the end of another booking, so those
+ * are the only start times worth trying.
+ */
+export function placeForward(resource: Resource, earliest: number, duration: number): Interval {
+  const windows = workingIntervals(resource.calendar, dateOfMinute(earliest), addDays(dateOfMinute(earliest), HORIZON_DAYS));
+  if (!windows.length) throw new SchedulingError(422, `Work center "${resource.name}" has no working shifts`);
+
+  const candidates = Array.from(new Set([
+    earliest,
+    ...windows.map((window) => window.start),
+    ...resource.bookings.map((booking) => booking.end),
+  ])).filter((minute) => minute >= earliest).sort((a, b) => a - b);
+
+  for (const candidate of candidates) {
+    const span = spanForward(windows, candidate, duration);
+    if (!span) break;
+    if (maxOverlap(resource.bookings, span) < resource.capacity) return span;
+  }
+  throw new SchedulingError(422, `Work center "${resource.name}" has no free capacity for ${duration} minutes within ${HORIZON_DAYS} days`);
+}
+
+/**
+ * The latest span of `duration` working minutes ending by `latest` where
+ * the resource has capacity throughout, or null if it would have to start
+ * before `notBefore`.
+ */
+export function placeBackward(resource: Resource, latest: number, duration: number, notBefore: number): Interval | null {
+  if (latest <= notBefore) return null;
+  const windows = workingIntervals(resource.calendar, dateOfMinute(notBefore), dateOfMinute(latest));
+
+  const candidates = Array.from(new Set([
+    latest,
+    ...windows.map((window) => window.end),
+    ...resource.bookings.map((booking) => booking.start),
+  ])).filter((minute) => minute <= latest).sort((a, b) => b - a);
+
+  for (const candidate of candidates) {
+    const span = spanBackward(windows, candidate, duration);
+    if (!span || span.start < notBefore) return null;
+    if (maxOverlap(resource.bookings, span) < resource.capacity) return span;
+  }
+  return null;
+}
+
+export interface StageToPlace {
+  id: string;
+  duration: number;
+  resource: Resource;
+}
+
+/**
+ * Places stages one after another from `earliest`. Each placement is booked
+ * on its resource so later stages on the same work center queue behind it.
+ */
+export function scheduleForward(stages: StageToPlace[], earliest: number): Array<Interval & { id: string }> {
+  let cursor = earliest;
+  return stages.map((stage) => {
+    const span = placeForward(stage.resource, cursor, stage.duration);
+    stage.resource.bookings.push(span);
+    cursor = span.end;
+    return { id: stage.id, ...span };
+  });
+}
+
+/**
+ * Places stages last to first so the final one ends by `deadline`, or
+ * returns null when the chain cannot start by `notBefore`. Resources are
+ * only booked once the whole chain fits.
+ */
+export function scheduleBackward(stages: StageToPlace[], deadline: number, notBefore: number): Array<Interval & { id: string }> | null {
+  const placed: Array<Interval & { id: string; resource: Resource }> = [];
+  const tentative = new Map<string, Interval[]>();
+  let cursor = deadline;
+  for (let index = stages.length - 1; index >= 0; index--) {
+    const stage = stages[index];
+    const extra = tentative.get(stage.resource.id) ?? [];
+    const span = placeBackward({ ...stage.resource, bookings: [...stage.resource.bookings, ...extra] }, cursor, stage.duration, notBefore);
+    if (!span) return null;
+    tentative.set(stage.resource.id, [...extra, span]);
+    placed.unshift({ id: stage.id, resource: stage.resource, ...span });
+    cursor = span.start;
+  }
+  for (const span of placed) span.resource.bookings.push({ start: span.start, end: span.end });
+  return placed.map(({ resource: _, ...span }) => span);
+}
+
+export interface DailyLoad {
+  date: string;
+  availableMinutes: number;
+  plannedMinutes: number;
+}
+
+// Working minutes a work center offers each day, against the minutes its stages take up
+export function dailyLoad(calendar: WorkCenterCalendar, capacity: number, placements: Interval[], fromDate: string, toDate: string): DailyLoad[] {
+  const days: DailyLoad[] = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    const windows = workingIntervals(calendar, date, date);
+    const overlap = (span: Interval) => windows
+      .reduce((sum, window) => sum + Math.max(Math.min(window.end, span.end) - Math.max(window.start, span.start), 0), 0);
+    days.push({
+      date,
+      availableMinutes: windows.reduce((sum, window) => sum + window.end - window.start, 0) * capacity,
+      plannedMinutes: placements.reduce((sum, span) => sum + overlap(span), 0),
+    });
+  }
+  return days;
+}
@@ -0,0 +1,244 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { productionStageTypeEnum } from "@shared/schema";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString, daysBetween, weeklyScheduleSchema } from "../../utils/time-of-day";
+import { SCHEDULE_DIRECTIONS, SchedulingError } from "./schedule";
+import { productionSchedulingService } from "./scheduling-service";
+
+export const productionSchedulingRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+// Longest range the Gantt view returns in one request
+const MAX_GANTT_DAYS = 92;
+
+const workCenterSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(255),
+  description: z.string().nullable().optional(),
+  stageTypes: z.array(z.enum(productionStageTypeEnum.enumValues)).optional(),
+  capacity: z.number().int().min(1).max(100).optional(),
+  shifts: weeklyScheduleSchema.optional(),
+  blockedDates: z.array(dateString).optional(),
+  setupMinutes: z.number().int().min(0).optional(),
+  minutesPerUnit: z.number().int().min(0).optional(),
+});
+
+const updateWorkCenterSchema = workCenterSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+const assignmentSchema = z.object({
+  workCenterId: z.string().nullable().optional(),
+  plannedMinutes: z.number().int().min(1).nullable().optional(),
+});
+
+const scheduleSchema = z.object({
+  direction: z.enum(SCHEDULE_DIRECTIONS).default("backward"),
+  dueDate: dateString.optional(),
+  startFrom: z.coerce.date().optional(),
+});
+
+const slipSchema = z.object({
+  expectedEnd: z.coerce.date(),
+  reason: z.string().max(500).optional(),
+});
+
+const ganttQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+  workCenterId: z.string().optional(),
+}).refine((query) => query.from <= query.to, { message: "from must not be after to", path: ["to"] })
+  .refine((query) => daysBetween(query.from, query.to) < MAX_GANTT_DAYS, {
+    message: `Range may span at most ${MAX_GANTT_DAYS} days`,
+    path: ["to"],
+  });
+
+function sendSchedulingError(res: Response, error: any) {
+  if (error instanceof SchedulingError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+// ==================== WORK CENTERS ====================
+
+productionSchedulingRouter.get("/work-centers", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const active = req.query.active === undefined ? undefined : req.query.active === "true";
+    res.json(await productionSchedulingService.listWorkCenters(isolation.getTenantId(), { active }));
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+productionSchedulingRouter.get("/work-centers/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await productionSchedulingService.getWorkCenter(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+productionSchedulingRouter.post("/work-centers", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = workCenterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const workCenter = await productionSchedulingService.createWorkCenter(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "work_center",
+      resourceId: workCenter.id,
+      metadata: { code: workCenter.code, stageTypes: workCenter.stageTypes, capacity: workCenter.capacity },
+    });
+
+    res.status(201).json(workCenter);
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+productionSchedulingRouter.patch("/work-centers/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateWorkCenterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const workCenter = await productionSchedulingService.updateWorkCenter(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "work_center",
+      resourceId: workCenter.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(workCenter);
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+// ==================== PRODUCTION ORDERS ====================
+
+productionSchedulingRouter.put("/production-orders/:id/stages/:stageId/assignment", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = assignmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const stage = await productionSchedulingService.assignStage(isolation.getTenantId(), req.params.id, req.params.stageId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "production_stage",
+      resourceId: stage.id,
+      metadata: { event: "work_center_assigned", workCenterId: stage.workCenterId, plannedMinutes: stage.plannedMinutes },
+    });
+
+    res.json(stage);
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+productionSchedulingRouter.post("/production-orders/:id/schedule", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = scheduleSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const schedule = await productionSchedulingService.scheduleOrder(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "production_order",
+      resourceId: schedule.productionOrderId,
+      metadata: {
+        event: "scheduled",
+        requested: parsed.data.direction,
+        direction: schedule.direction,
+        lateByMinutes: schedule.lateByMinutes,
+      },
+    });
+
+    res.json(schedule);
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+productionSchedulingRouter.post("/production-orders/:id/stages/:stageId/slip", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = slipSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const schedule = await productionSchedulingService.reportSlip(
+      isolation.getTenantId(),
+      req.params.id,
+      req.params.stageId,
+      parsed.data.expectedEnd,
+    );
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "production_stage",
+      resourceId: req.params.stageId,
+      metadata: {
+        event: "slipped",
+        expectedEnd: parsed.data.expectedEnd.toISOString(),
+        reason: parsed.data.reason,
+        lateByMinutes: schedule.lateByMinutes,
+      },
+    });
+
+    res.json(schedule);
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
+
+// ==================== GANTT ====================
+
+productionSchedulingRouter.get("/gantt", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = ganttQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await productionSchedulingService.getGantt(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendSchedulingError(res, error);
+  }
+});
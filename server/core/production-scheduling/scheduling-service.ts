@@ -0,0 +1,597 @@
+import { db } from "../../db";
+import {
+  furnitureProducts,
+  furnitureSalesOrders,
+  productionOrders,
+  productionStages,
+  workCenters,
+  type ProductionOrder,
+  type ProductionStage,
+  type WorkCenter,
+} from "@shared/schema";
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, ne, notInArray, sql } from "drizzle-orm";
+import { addDays } from "../../utils/time-of-day";
+import {
+  SchedulingError,
+  dailyLoad,
+  dateOfMinute,
+  fromTimestamp,
+  parseCalendar,
+  placeForward,
+  scheduleBackward,
+  scheduleForward,
+  stageDuration,
+  toMinute,
+  toTimestamp,
+  workingMinutesBetween,
+  type DailyLoad,
+  type Interval,
+  type Resource,
+  type ScheduleDirection,
+  type StageToPlace,
+  type WorkCenterCalendar,
+} from "./schedule";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = Transaction | typeof db;
+type StageType = ProductionStage["stageType"];
+
+// Stages still to be worked, which hold capacity on their work center
+const OPEN_STAGE_STATUSES: NonNullable<ProductionStage["status"]>[] = ["pending", "in_progress", "failed"];
+
+// Orders whose scheduled stages still hold capacity
+const CLOSED_ORDER_STATUSES: NonNullable<ProductionOrder["status"]>[] = ["completed", "cancelled"];
+
+export interface WorkCenterInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  stageTypes?: StageType[];
+  capacity?: number;
+  shifts?: WorkCenterCalendar["shifts"];
+  blockedDates?: string[];
+  setupMinutes?: number;
+  minutesPerUnit?: number;
+}
+
+export interface ScheduledStage {
+  id: string;
+  stageOrder: number;
+  stageType: StageType;
+  name: string;
+  status: ProductionStage["status"];
+  workCenterId: string | null;
+  workCenterName: string | null;
+  start: Date | null;
+  end: Date | null;
+  actualStart: Date | null;
+  actualEnd: Date | null;
+}
+
+export interface OrderSchedule {
+  productionOrderId: string;
+  orderNumber: string;
+  direction: ScheduleDirection;
+  dueDate: string | null;
+  scheduledStart: Date | null;
+  scheduledEnd: Date | null;
+  late: boolean;
+  lateByMinutes: number;
+  stages: ScheduledStage[];
+}
+
+export interface GanttOrder {
+  id: string;
+  orderNumber: string;
+  productName: string;
+  quantity: number;
+  status: ProductionOrder["status"];
+  priority: number | null;
+  dueDate: string | null;
+  start: Date | null;
+  end: Date | null;
+  late: boolean;
+  stages: ScheduledStage[];
+}
+
+export interface Gantt {
+  from: string;
+  to: string;
+  workCenters: Array<Pick<WorkCenter, "id" | "code" | "name" | "capacity"> & { load: DailyLoad[] }>;
+  orders: GanttOrder[];
+}
+
+function stageName(stage: Pick<ProductionStage, "stageType" | "customStageName">): string {
+  return stage.stageType === "custom" && stage.customStageName ? stage.customStageName : stage.stageType;
+}
+
+class ProductionSchedulingService {
+  private async lock(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`production-schedule:${tenantId}`}))`);
+  }
+
+  // ==================== WORK CENTERS ====================
+
+  async listWorkCenters(tenantId: string, filters: { active?: boolean } = {}): Promise<WorkCenter[]> {
+    return db.select().from(workCenters)
+      .where(and(
+        eq(workCenters.tenantId, tenantId),
+        filters.active === undefined ? undefined : eq(workCenters.isActive, filters.active),
+      ))
+      .orderBy(asc(workCenters.code));
+  }
+
+  private async findWorkCenter(executor: Executor, tenantId: string, id: string): Promise<WorkCenter> {
+    const [workCenter] = await executor.select().from(workCenters)
+      .where(and(eq(workCenters.id, id), eq(workCenters.tenantId, tenantId)));
+    if (!workCenter) throw new SchedulingError(404, "Work center not found");
+    return workCenter;
+  }
+
+  async getWorkCenter(tenantId: string, id: string): Promise<WorkCenter> {
+    return this.findWorkCenter(db, tenantId, id);
+  }
+
+  private async assertCodeFree(tenantId: string, code: string, exceptId?: string): Promise<void> {
+    const [clash] = await db.select({ id: workCenters.id }).from(workCenters)
+      .where(and(
+        eq(workCenters.tenantId, tenantId),
+        eq(workCenters.code, code),
+        exceptId ? ne(workCenters.id, exceptId) : undefined,
+      ));
+    if (clash) throw new SchedulingError(409, `Work center code "${code}" is already in use`);
+  }
+
+  async createWorkCenter(tenantId: string, input: WorkCenterInput): Promise<WorkCenter> {
+    await this.assertCodeFree(tenantId, input.code);
+    const [workCenter] = await db.insert(workCenters).values({ tenantId, ...input }).returning();
+    return workCenter;
+  }
+
+  async updateWorkCenter(tenantId: string, id: string, input: Partial<WorkCenterInput> & { isActive?: boolean }): Promise<WorkCenter> {
+    await this.findWorkCenter(db, tenantId, id);
+    if (input.code) await this.assertCodeFree(tenantId, input.code, id);
+    const [workCenter] = await db.update(workCenters)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(workCenters.id, id), eq(workCenters.tenantId, tenantId)))
+      .returning();
+    return workCenter;
+  }
+
+  // ==================== STAGES ====================
+
+  private async findOrder(executor: Executor, tenantId: string, orderId: string): Promise<ProductionOrder> {
+    const [order] = await executor.select().from(productionOrders)
+      .where(and(eq(productionOrders.id, orderId), eq(productionOrders.tenantId, tenantId), isNull(productionOrders.deletedAt)));
+    if (!order) throw new SchedulingError(404, "Production order not found");
+    return order;
+  }
+
+  private async orderStages(executor: Executor, orderId: string): Promise<ProductionStage[]> {
+    return executor.select().from(productionStages)
+      .where(eq(productionStages.productionOrderId, orderId))
+      .orderBy(asc(productionStages.stageOrder));
+  }
+
+  /**
+   * Puts a stage on a work center and optionally overrides how long it
+   * takes. The schedule is not changed until the order is next scheduled.
+   */
+  async assignStage(
+    tenantId: string,
+    orderId: string,
+    stageId: string,
+    input: { workCenterId?: string | null; plannedMinutes?: number | null },
+  ): Promise<ProductionStage> {
+    const order = await this.findOrder(db, tenantId, orderId);
+    if (input.workCenterId) {
+      const workCenter = await this.findWorkCenter(db, tenantId, input.workCenterId);
+      if (!workCenter.isActive) throw new SchedulingError(400, `Work center "${workCenter.name}" is inactive`);
+    }
+    const [stage] = await db.update(productionStages)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(productionStages.id, stageId), eq(productionStages.productionOrderId, order.id)))
+      .returning();
+    if (!stage) throw new SchedulingError(404, "Production stage not found");
+    return stage;
+  }
+
+  // ==================== SCHEDULING ====================
+
+  /**
+   * The work center for each stage: its own, or else the first active work
+   * center (by code) that performs its stage type.
+   */
+  private async resolveWorkCenters(executor: Executor, tenantId: string, stages: ProductionStage[]): Promise<Map<string, WorkCenter>> {
+    const centers = await executor.select().from(workCenters)
+      .where(eq(workCenters.tenantId, tenantId))
+      .orderBy(asc(workCenters.code));
+    const byId = new Map(centers.map((center) => [center.id, center]));
+
+    const resolved = new Map<string, WorkCenter>();
+    const missing = new Set<string>();
+    for (const stage of stages) {
+      const assigned = stage.workCenterId ? byId.get(stage.workCenterId) : undefined;
+      const center = assigned?.isActive
+        ? assigned
+        : centers.find((candidate) => candidate.isActive && candidate.stageTypes.includes(stage.stageType));
+      if (center) resolved.set(stage.id, center);
+      else missing.add(stageName(stage).replace(/_/g, " "));
+    }
+    if (missing.size) {
+      throw new SchedulingError(422, `No active work center performs ${Array.from(missing).join(", ")}; assign one to the stage or add the stage type to a work center`);
+    }
+    return resolved;
+  }
+
+  // What other orders' open stages already hold on these work centers
+  private async loadResources(executor: Executor, tenantId: string, centers: WorkCenter[], excludeOrderId: string): Promise<Map<string, Resource>> {
+    const ids = Array.from(new Set(centers.map((center) => center.id)));
+    const bookings = ids.length
+      ? await executor.select({
+          workCenterId: productionStages.workCenterId,
+          start: productionStages.scheduledStartTime,
+          end: productionStages.scheduledEndTime,
+        }).from(productionStages)
+          .innerJoin(productionOrders, eq(productionOrders.id, productionStages.productionOrderId))
+          .where(and(
+            eq(productionOrders.tenantId, tenantId),
+            isNull(productionOrders.deletedAt),
+            notInArray(productionOrders.status, CLOSED_ORDER_STATUSES),
+            ne(productionOrders.id, excludeOrderId),
+            inArray(productionStages.workCenterId, ids),
+            inArray(productionStages.status, OPEN_STAGE_STATUSES),
+            isNotNull(productionStages.scheduledStartTime),
+            isNotNull(productionStages.scheduledEndTime),
+          ))
+      : [];
+
+    const resources = new Map<string, Resource>();
+    for (const center of centers) {
+      if (resources.has(center.id)) continue;
+      resources.set(center.id, {
+        id: center.id,
+        name: center.name,
+        capacity: center.capacity,
+        calendar: parseCalendar(center.shifts, center.blockedDates),
+        bookings: bookings
+          .filter((booking) => booking.workCenterId === center.id)
+          .map((booking) => ({ start: fromTimestamp(booking.start!), end: fromTimestamp(booking.end!) })),
+      });
+    }
+    return resources;
+  }
+
+  // A stage under way only needs the working time it has left
+  private remainingMinutes(stage: ProductionStage, center: WorkCenter, order: ProductionOrder, resource: Resource, now: number): number {
+    const duration = stageDuration(center, order.quantity, stage.plannedMinutes);
+    if (stage.status !== "in_progress" || !stage.actualStartTime) return duration;
+    return Math.max(duration - workingMinutesBetween(resource.calendar, fromTimestamp(stage.actualStartTime), now), 0);
+  }
+
+  private async dueDate(executor: Executor, order: ProductionOrder): Promise<string | null> {
+    if (!order.salesOrderId) return null;
+    const [salesOrder] = await executor.select({ expectedDeliveryDate: furnitureSalesOrders.expectedDeliveryDate })
+      .from(furnitureSalesOrders)
+      .where(and(eq(furnitureSalesOrders.id, order.salesOrderId), eq(furnitureSalesOrders.tenantId, order.tenantId)));
+    return salesOrder?.expectedDeliveryDate ?? null;
+  }
+
+  private async saveSchedule(
+    tx: Transaction,
+    order: ProductionOrder,
+    placements: Array<Interval & { id: string }>,
+    centers: Map<string, WorkCenter>,
+  ): Promise<void> {
+    for (const placement of placements) {
+      await tx.update(productionStages)
+        .set({
+          workCenterId: centers.get(placement.id)!.id,
+          scheduledStartTime: toTimestamp(placement.start),
+          scheduledEndTime: toTimestamp(placement.end),
+          updatedAt: new Date(),
+        })
+        .where(eq(productionStages.id, placement.id));
+    }
+
+    const stages = await this.orderStages(tx, order.id);
+    const starts = stages.filter((stage) => stage.scheduledStartTime).map((stage) => fromTimestamp(stage.scheduledStartTime!));
+    const ends = stages.filter((stage) => stage.scheduledEndTime).map((stage) => fromTimestamp(stage.scheduledEndTime!));
+    if (!starts.length) return;
+    await tx.update(productionOrders)
+      .set({
+        scheduledStartDate: dateOfMinute(Math.min(...starts)),
+        scheduledEndDate: dateOfMinute(Math.max(...ends)),
+        updatedAt: new Date(),
+      })
+      .where(eq(productionOrders.id, order.id));
+  }
+
+  private async describe(executor: Executor, tenantId: string, order: ProductionOrder, direction: ScheduleDirection, dueDate: string | null): Promise<OrderSchedule> {
+    const stages = await this.orderStages(executor, order.id);
+    const centerIds = Array.from(new Set(stages.map((stage) => stage.workCenterId).filter((id): id is string => !!id)));
+    const centers = centerIds.length
+      ? await executor.select({ id: workCenters.id, name: workCenters.name }).from(workCenters)
+          .where(and(eq(workCenters.tenantId, tenantId), inArray(workCenters.id, centerIds)))
+      : [];
+    const names = new Map(centers.map((center) => [center.id, center.name]));
+
+    const scheduled = stages.map((stage) => this.toScheduledStage(stage, names));
+    const starts = scheduled.filter((stage) => stage.start).map((stage) => stage.start!.getTime());
+    const ends = scheduled.filter((stage) => stage.end).map((stage) => stage.end!.getTime());
+    const scheduledEnd = ends.length ? new Date(Math.max(...ends)) : null;
+    const lateByMinutes = dueDate && scheduledEnd ? Math.max(fromTimestamp(scheduledEnd) - toMinute(dueDate), 0) : 0;
+
+    return {
+      productionOrderId: order.id,
+      orderNumber: order.orderNumber,
+      direction,
+      dueDate,
+      scheduledStart: starts.length ? new Date(Math.min(...starts)) : null,
+      scheduledEnd,
+      late: lateByMinutes > 0,
+      lateByMinutes,
+      stages: scheduled,
+    };
+  }
+
+  private toScheduledStage(stage: ProductionStage, names: Map<string, string>): ScheduledStage {
+    return {
+      id: stage.id,
+      stageOrder: stage.stageOrder,
+      stageType: stage.stageType,
+      name: stageName(stage),
+      status: stage.status,
+      workCenterId: stage.workCenterId,
+      workCenterName: stage.workCenterId ? names.get(stage.workCenterId) ?? null : null,
+      start: stage.scheduledStartTime,
+      end: stage.scheduledEndTime,
+      actualStart: stage.actualStartTime,
+      actualEnd: stage.actualEndTime,
+    };
+  }
+
+  /**
+   * Schedules an order's remaining stages in sequence. Backward scheduling
+   * works back from the due date (the linked sales order's delivery date
+   * unless one is given) so stages start as late as they can; when that
+   * would mean starting in the past it falls back to forward scheduling
+   * from now, and the result reports how late the order will be.
+   */
+  async scheduleOrder(
+    tenantId: string,
+    orderId: string,
+    input: { direction: ScheduleDirection; dueDate?: string; startFrom?: Date },
+  ): Promise<OrderSchedule> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, orderId);
+      if (order.status && CLOSED_ORDER_STATUSES.includes(order.status)) {
+        throw new SchedulingError(409, `Production order is ${order.status}`);
+      }
+      const stages = await this.orderStages(tx, order.id);
+      const open = stages.filter((stage) => stage.status && OPEN_STAGE_STATUSES.includes(stage.status));
+      if (!open.length) throw new SchedulingError(409, "Production order has no stages left to schedule");
+
+      const centers = await this.resolveWorkCenters(tx, tenantId, open);
+      const resources = await this.loadResources(tx, tenantId, Array.from(centers.values()), order.id);
+
+      // Nothing starts before now, the requested start, or the end of work already finished
+      const now = fromTimestamp(new Date());
+      const finished = stages
+        .filter((stage) => stage.status === "completed")
+        .map((stage) => stage.actualEndTime ?? stage.scheduledEndTime)
+        .filter((end): end is Date => !!end)
+        .map(fromTimestamp);
+      const earliest = Math.max(now, input.startFrom ? fromTimestamp(input.startFrom) : now, ...finished);
+
+      const toPlace: StageToPlace[] = open.map((stage) => {
+        const center = centers.get(stage.id)!;
+        const resource = resources.get(center.id)!;
+        return { id: stage.id, duration: this.remainingMinutes(stage, center, order, resource, now), resource };
+      });
+
+      const dueDate = input.dueDate ?? await this.dueDate(tx, order);
+      let direction: ScheduleDirection = "forward";
+      let placements: Array<Interval & { id: string }> | null = null;
+      if (input.direction === "backward") {
+        if (!dueDate) {
+          throw new SchedulingError(422, "Backward scheduling needs a due date, and the order's sales order has no delivery date");
+        }
+        placements = scheduleBackward(toPlace, toMinute(dueDate), earliest);
+        if (placements) direction = "backward";
+      }
+      placements ??= scheduleForward(toPlace, earliest);
+
+      await this.saveSchedule(tx, order, placements, centers);
+      return this.describe(tx, tenantId, order, direction, dueDate);
+    });
+  }
+
+  // Pushes the stages after `index` forward so the first starts no sooner than `from`
+  private async rescheduleFollowing(tx: Transaction, tenantId: string, order: ProductionOrder, stages: ProductionStage[], index: number, from: number): Promise<void> {
+    const following = stages.slice(index + 1).filter((stage) => stage.status && OPEN_STAGE_STATUSES.includes(stage.status));
+    if (!following.length) return;
+    const centers = await this.resolveWorkCenters(tx, tenantId, following);
+    const resources = await this.loadResources(tx, tenantId, Array.from(centers.values()), order.id);
+
+    // The slipped stage still holds its own work center until it ends
+    const slipped = stages[index];
+    const slippedResource = slipped.workCenterId ? resources.get(slipped.workCenterId) : undefined;
+    if (slippedResource && slipped.scheduledStartTime && slipped.scheduledEndTime) {
+      slippedResource.bookings.push({ start: fromTimestamp(slipped.scheduledStartTime), end: fromTimestamp(slipped.scheduledEndTime) });
+    }
+
+    const now = fromTimestamp(new Date());
+    const placements = scheduleForward(following.map((stage) => {
+      const center = centers.get(stage.id)!;
+      const resource = resources.get(center.id)!;
+      return { id: stage.id, duration: this.remainingMinutes(stage, center, order, resource, now), resource };
+    }), from);
+    await this.saveSchedule(tx, order, placements, centers);
+  }
+
+  /**
+   * Records that a stage will now end at `expectedEnd` and pushes the
+   * stages after it forward to follow on.
+   */
+  async reportSlip(tenantId: string, orderId: string, stageId: string, expectedEnd: Date): Promise<OrderSchedule> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, orderId);
+      const stages = await this.orderStages(tx, order.id);
+      const index = stages.findIndex((stage) => stage.id === stageId);
+      if (index === -1) throw new SchedulingError(404, "Production stage not found");
+      const stage = stages[index];
+      if (!stage.status || !OPEN_STAGE_STATUSES.includes(stage.status)) {
+        throw new SchedulingError(409, `Stage is ${stage.status} and can no longer slip`);
+      }
+      if (stage.scheduledStartTime && expectedEnd <= stage.scheduledStartTime) {
+        throw new SchedulingError(400, "Expected end must be after the stage's scheduled start");
+      }
+
+      [stages[index]] = await tx.update(productionStages)
+        .set({ scheduledEndTime: expectedEnd, updatedAt: new Date() })
+        .where(eq(productionStages.id, stage.id))
+        .returning();
+      await this.rescheduleFollowing(tx, tenantId, order, stages, index, fromTimestamp(expectedEnd));
+      await this.saveSchedule(tx, order, [], new Map());
+      return this.describe(tx, tenantId, order, "forward", await this.dueDate(tx, order));
+    });
+  }
+
+  /**
+   * Keeps the schedule honest as stages progress on the floor: a stage that
+   * starts late is re-timed from its actual start, and one that finishes
+   * after its scheduled end pushes later stages back if they would
+   * otherwise have started before it finished.
+   */
+  private async followStageProgress(tenantId: string, orderId: string, stageId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const order = await this.findOrder(tx, tenantId, orderId);
+      const stages = await this.orderStages(tx, order.id);
+      const index = stages.findIndex((stage) => stage.id === stageId);
+      const stage = stages[index];
+      if (!stage?.scheduledStartTime || !stage.scheduledEndTime) return;
+
+      let newEnd: number | null = null;
+      if (stage.status === "completed") {
+        newEnd = fromTimestamp(stage.actualEndTime ?? new Date());
+      } else if (stage.status === "in_progress") {
+        const startedAt = fromTimestamp(stage.actualStartTime ?? new Date());
+        if (startedAt <= fromTimestamp(stage.scheduledStartTime)) return;
+        const [center] = Array.from((await this.resolveWorkCenters(tx, tenantId, [stage])).values());
+        const duration = stageDuration(center, order.quantity, stage.plannedMinutes);
+        const calendar = parseCalendar(center.shifts, center.blockedDates);
+        const span = placeForward({ id: center.id, name: center.name, capacity: 1, calendar, bookings: [] }, startedAt, duration);
+        [stages[index]] = await tx.update(productionStages)
+          .set({ scheduledStartTime: toTimestamp(span.start), scheduledEndTime: toTimestamp(span.end), updatedAt: new Date() })
+          .where(eq(productionStages.id, stage.id))
+          .returning();
+        newEnd = span.end;
+      }
+      if (newEnd === null) return;
+
+      const next = stages.slice(index + 1).find((candidate) => candidate.status && OPEN_STAGE_STATUSES.includes(candidate.status));
+      if (next?.scheduledStartTime && fromTimestamp(next.scheduledStartTime) < newEnd) {
+        await this.rescheduleFollowing(tx, tenantId, order, stages, index, newEnd);
+      }
+    });
+  }
+
+  followStageProgressAsync(tenantId: string, orderId: string, stageId: string): void {
+    setImmediate(async () => {
+      try {
+        await this.followStageProgress(tenantId, orderId, stageId);
+      } catch (error) {
+        console.error(`[production-scheduling] Failed to reschedule after stage ${stageId}:`, error);
+      }
+    });
+  }
+
+  // ==================== GANTT ====================
+
+  /**
+   * Scheduled stages overlapping the date range, grouped by production
+   * order, with each work center's daily load against its shift capacity.
+   */
+  async getGantt(tenantId: string, range: { from: string; to: string; workCenterId?: string }): Promise<Gantt> {
+    const rangeStart = toTimestamp(toMinute(range.from));
+    const rangeEnd = toTimestamp(toMinute(addDays(range.to, 1)));
+
+    const rows = await db.select({
+      stage: productionStages,
+      order: productionOrders,
+      productName: furnitureProducts.name,
+      dueDate: furnitureSalesOrders.expectedDeliveryDate,
+    }).from(productionStages)
+      .innerJoin(productionOrders, eq(productionOrders.id, productionStages.productionOrderId))
+      .innerJoin(furnitureProducts, eq(furnitureProducts.id, productionOrders.productId))
+      .leftJoin(furnitureSalesOrders, eq(furnitureSalesOrders.id, productionOrders.salesOrderId))
+      .where(and(
+        eq(productionOrders.tenantId, tenantId),
+        isNull(productionOrders.deletedAt),
+        ne(productionOrders.status, "cancelled"),
+        lt(productionStages.scheduledStartTime, rangeEnd),
+        gt(productionStages.scheduledEndTime, rangeStart),
+        range.workCenterId ? eq(productionStages.workCenterId, range.workCenterId) : undefined,
+      ))
+      .orderBy(asc(productionOrders.scheduledStartDate), asc(productionOrders.orderNumber), asc(productionStages.stageOrder));
+
+    const centers = (await this.listWorkCenters(tenantId))
+      .filter((center) => range.workCenterId ? center.id === range.workCenterId : center.isActive);
+    const names = new Map(centers.map((center) => [center.id, center.name]));
+
+    const orders = new Map<string, GanttOrder>();
+    for (const row of rows) {
+      let entry = orders.get(row.order.id);
+      if (!entry) {
+        entry = {
+          id: row.order.id,
+          orderNumber: row.order.orderNumber,
+          productName: row.productName,
+          quantity: row.order.quantity,
+          status: row.order.status,
+          priority: row.order.priority,
+          dueDate: row.dueDate ?? null,
+          start: null,
+          end: null,
+          late: false,
+          stages: [],
+        };
+        orders.set(row.order.id, entry);
+      }
+      const stage = this.toScheduledStage(row.stage, names);
+      entry.stages.push(stage);
+      if (stage.start && (!entry.start || stage.start < entry.start)) entry.start = stage.start;
+      if (stage.end && (!entry.end || stage.end > entry.end)) entry.end = stage.end;
+    }
+    for (const entry of Array.from(orders.values())) {
+      entry.late = !!entry.dueDate && !!entry.end && fromTimestamp(entry.end) > toMinute(entry.dueDate);
+    }
+
+    return {
+      from: range.from,
+      to: range.to,
+      workCenters: centers.map((center) => ({
+        id: center.id,
+        code: center.code,
+        name: center.name,
+        capacity: center.capacity,
+        load: dailyLoad(
+          parseCalendar(center.shifts, center.blockedDates),
+          center.capacity,
+          rows
+            .filter((row) => row.stage.workCenterId === center.id && row.stage.status && OPEN_STAGE_STATUSES.includes(row.stage.status))
+            .map((row) => ({ start: fromTimestamp(row.stage.scheduledStartTime!), end: fromTimestamp(row.stage.scheduledEndTime!) })),
+          range.from,
+          range.to,
+        ),
+      })),
+      orders: Array.from(orders.values()),
+    };
+  }
+}
+
+export const productionSchedulingService = new ProductionSchedulingService();
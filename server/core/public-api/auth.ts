@@ -0,0 +1,111 @@
+import type { Request, Response, NextFunction } from "express";
+import { db } from "../../db";
+import { users } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { jwtAuthService } from "../jwt";
+import { resolveTenantFromUser, getTenantFeatures } from "../context";
+import { isRateLimitBypassed } from "../auth-middleware";
+import { hasApiScope, type ApiScope } from "./scopes";
+import { TokenRateLimiter, DEFAULT_API_RATE_LIMIT_PER_MINUTE } from "./rate-limiter";
+
+export interface PublicApiToken {
+  id: string;
+  scopes: string[];
+}
+
+const rateLimiter = new TokenRateLimiter();
+
+setInterval(() => rateLimiter.prune(), 5 * 60 * 1000).unref();
+
+function extractApiKey(req: Request): string | null {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header;
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("ApiKey ")) return authHeader.slice(7);
+  return null;
+}
+
+/**
+ * Authenticates public API requests with an API token and builds the request
+ * context from the token owner's current tenant membership, so removing a
+ * user from the tenant or changing their role takes effect on their tokens
+ * immediately. Also enforces the token's per-minute rate limit.
+ */
+export function authenticateApiToken() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const apiKey = extractApiKey(req);
+      if (!apiKey) {
+        return res.status(401).json({ message: "Missing API token", code: "API_TOKEN_REQUIRED" });
+      }
+
+      const apiToken = await jwtAuthService.verifyApiToken(apiKey);
+      if (!apiToken) {
+        return res.status(401).json({ message: "Invalid or expired API token", code: "INVALID_API_TOKEN" });
+      }
+      if (!apiToken.tenantId) {
+        return res.status(403).json({ message: "API token is not bound to a tenant", code: "TENANT_REQUIRED" });
+      }
+
+      if (!isRateLimitBypassed()) {
+        const decision = rateLimiter.consume(apiToken.id, apiToken.rateLimitPerMinute ?? DEFAULT_API_RATE_LIMIT_PER_MINUTE);
+        res.setHeader("X-RateLimit-Limit", decision.limit);
+        res.setHeader("X-RateLimit-Remaining", decision.remaining);
+        res.setHeader("X-RateLimit-Reset", Math.ceil(decision.resetAt / 1000));
+        if (!decision.allowed) {
+          res.setHeader("Retry-After", Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000)));
+          return res.status(429).json({ message: "Too many requests", code: "RATE_LIMITED" });
+        }
+      }
+
+      const [dbUser] = await db.select().from(users).where(eq(users.id, apiToken.userId));
+      if (!dbUser) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const membership = await resolveTenantFromUser(dbUser.id, apiToken.tenantId);
+      if (!membership.tenant) {
+        return res.status(403).json({ message: "Token owner no longer has access to this tenant", code: "TENANT_ACCESS_REVOKED" });
+      }
+
+      req.context = {
+        user: {
+          id: dbUser.id,
+          email: dbUser.email,
+          firstName: dbUser.firstName,
+          lastName: dbUser.lastName,
+        },
+        tenant: membership.tenant,
+        role: membership.role,
+        permissions: membership.permissions,
+        features: await getTenantFeatures(membership.tenant.id),
+      };
+      res.locals.apiToken = { id: apiToken.id, scopes: apiToken.scopes } satisfies PublicApiToken;
+
+      next();
+    } catch (error) {
+      console.error("[public-api] Authentication error:", error);
+      res.status(500).json({ message: "Authentication failed" });
+    }
+  };
+}
+
+export function requireApiScope(scope: ApiScope) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const apiToken = res.locals.apiToken as PublicApiToken | undefined;
+    if (!apiToken) {
+      return res.status(401).json({ message: "Missing API token", code: "API_TOKEN_REQUIRED" });
+    }
+
+    if (!hasApiScope(apiToken.scopes, scope)) {
+      return res.status(403).json({
+        message: "Insufficient scopes",
+        code: "INSUFFICIENT_SCOPE",
+        required: [scope],
+      });
+    }
+
+    next();
+  };
+}
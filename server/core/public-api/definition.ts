@@ -0,0 +1,94 @@
+import { type Request, type Response, type Router } from "express";
+import { z } from "zod";
+import { requirePermission } from "../context";
+import { requireApiScope } from "./auth";
+import type { ApiScope } from "./scopes";
+
+export interface PublicApiRequest<Query = Record<string, unknown>, Body = Record<string, unknown>> {
+  tenantId: string;
+  userId: string;
+  params: Record<string, string>;
+  query: Query;
+  body: Body;
+}
+
+export interface PublicApiRoute {
+  method: "get" | "post" | "patch" | "delete";
+  // Express-style path relative to the API version root, e.g. "/customers/:id"
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  scope: ApiScope;
+  // Tenant permission the token owner must hold, checked with requirePermission
+  permission?: string;
+  query?: z.AnyZodObject;
+  body?: z.AnyZodObject;
+  successStatus?: number;
+  responseDescription?: string;
+  // Resolving to null answers 404
+  handler: (req: PublicApiRequest<any, any>) => Promise<unknown>;
+}
+
+export class PublicApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "PublicApiError";
+  }
+}
+
+/**
+ * Declares a route with its handler typed from the query and body schemas.
+ */
+export function defineRoute<
+  Query extends z.AnyZodObject = z.AnyZodObject,
+  Body extends z.AnyZodObject = z.AnyZodObject,
+>(route: Omit<PublicApiRoute, "query" | "body" | "handler"> & {
+  query?: Query;
+  body?: Body;
+  handler: (req: PublicApiRequest<z.infer<Query>, z.infer<Body>>) => Promise<unknown>;
+}): PublicApiRoute {
+  return route;
+}
+
+export function mountPublicApiRoutes(router: Router, routes: readonly PublicApiRoute[]): void {
+  for (const route of routes) {
+    const guards = [requireApiScope(route.scope), ...(route.permission ? [requirePermission(route.permission)] : [])];
+
+    router[route.method](route.path, ...guards, async (req: Request, res: Response) => {
+      try {
+        const query = route.query ? route.query.safeParse(req.query) : null;
+        if (query && !query.success) {
+          return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+        }
+
+        const body = route.body ? route.body.safeParse(req.body) : null;
+        if (body && !body.success) {
+          return res.status(400).json({ message: "Validation failed", errors: body.error.errors });
+        }
+
+        const result = await route.handler({
+          tenantId: req.context.tenant!.id,
+          userId: req.context.user!.id,
+          params: req.params,
+          query: query?.data ?? {},
+          body: body?.data ?? {},
+        });
+
+        if (result === null) {
+          return res.status(404).json({ message: "Not found" });
+        }
+        if (result === undefined) {
+          return res.status(204).send();
+        }
+        res.status(route.successStatus ?? 200).json(result);
+      } catch (error) {
+        if (error instanceof PublicApiError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        console.error(`[public-api] ${route.operationId} failed:`, error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    });
+  }
+}
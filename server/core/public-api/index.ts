@@ -0,0 +1,40 @@
+/**
+ * Public REST API
+ *
+ * Versioned API for tenant integrations, authenticated with API tokens:
+ * - Customers, invoices, bookings, inventory and employees
+ * - Per-route token scopes (e.g. `invoices:read`) checked alongside the
+ *   token owner's permissions
+ * - Per-token rate limits and lastUsedAt tracking
+ * - OpenAPI document generated from the route definitions
+ *
+ * @module server/core/public-api
+ */
+
+import { Router } from "express";
+import { authenticateApiToken } from "./auth";
+import { mountPublicApiRoutes } from "./definition";
+import { buildOpenApiDocument } from "./openapi";
+import { publicApiV1Routes } from "./resources";
+
+export const PUBLIC_API_VERSION = "1.0.0";
+
+export const publicApiV1Router = Router();
+
+// The spec itself is public so integrators can read it before creating a token
+publicApiV1Router.get("/openapi.json", (req, res) => {
+  res.json(buildOpenApiDocument(publicApiV1Routes, {
+    title: "BizFlow Public API",
+    version: PUBLIC_API_VERSION,
+    serverUrl: `${req.protocol}://${req.get("host")}${req.baseUrl}`,
+  }));
+});
+
+publicApiV1Router.use(authenticateApiToken());
+mountPublicApiRoutes(publicApiV1Router, publicApiV1Routes);
+
+export { publicApiV1Routes };
+export { authenticateApiToken, requireApiScope } from "./auth";
+export { API_SCOPES, isApiScope, hasApiScope, invalidApiScopes, type ApiScope } from "./scopes";
+export { buildOpenApiDocument } from "./openapi";
+export { defineRoute, PublicApiError, type PublicApiRoute } from "./definition";
@@ -0,0 +1,141 @@
+/**
+ * OpenAPI 3.0 document for the public API, built from the same route
+ * definitions that are mounted on the router so the two cannot drift apart.
+ */
+
+import { z } from "zod";
+import type { PublicApiRoute } from "./definition";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the zod types used by route definitions (including drizzle-zod
+ * insert schemas) into JSON Schema. Types without a JSON equivalent become
+ * an unconstrained schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return zodToJsonSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...zodToJsonSchema(schema._def.innerType), nullable: true };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema._def.schema);
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return required.length > 0 ? { type: "object", properties, required } : { type: "object", properties };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: zodToJsonSchema(schema._def.type) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema._def.values };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return { enum: Object.values(schema._def.values) };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { enum: [schema._def.value] };
+  }
+  if (schema instanceof z.ZodString) {
+    const formats: Record<string, string> = { email: "email", url: "uri", uuid: "uuid", datetime: "date-time" };
+    const check = schema._def.checks.find((c) => c.kind in formats);
+    return check ? { type: "string", format: formats[check.kind] } : { type: "string" };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema._def.checks.some((c) => c.kind === "int") ? "integer" : "number" };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: zodToJsonSchema(schema._def.valueType) };
+  }
+  return {};
+}
+
+function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function pathParameters(path: string) {
+  return Array.from(path.matchAll(/:(\w+)/g), ([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+function queryParameters(query: z.AnyZodObject | undefined) {
+  if (!query) return [];
+  return Object.entries(query.shape as z.ZodRawShape).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: !schema.isOptional(),
+    schema: zodToJsonSchema(schema),
+  }));
+}
+
+export function buildOpenApiDocument(routes: readonly PublicApiRoute[], options: { title: string; version: string; serverUrl: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of routes) {
+    const path = openApiPath(route.path);
+    paths[path] ??= {};
+
+    const operation: Record<string, unknown> = {
+      operationId: route.operationId,
+      summary: route.summary,
+      tags: [route.tag],
+      description: `Requires the \`${route.scope}\` scope.`,
+      "x-required-scope": route.scope,
+      security: [{ apiKey: [] }],
+      parameters: [...pathParameters(route.path), ...queryParameters(route.query)],
+      responses: {
+        [String(route.successStatus ?? 200)]: { description: route.responseDescription ?? "Success" },
+        "400": { description: "Validation failed" },
+        "401": { description: "Missing or invalid API token" },
+        "403": { description: "Token lacks the required scope or permission" },
+        ...(route.path.includes(":") ? { "404": { description: "Not found" } } : {}),
+        "429": { description: "Rate limit exceeded" },
+      },
+    };
+
+    if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: zodToJsonSchema(route.body) } },
+      };
+    }
+
+    paths[path][route.method] = operation;
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: { title: options.title, version: options.version },
+    servers: [{ url: options.serverUrl }],
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "API token created under /api/auth/api-tokens. `Authorization: ApiKey <token>` is also accepted.",
+        },
+      },
+    },
+    paths,
+  };
+}
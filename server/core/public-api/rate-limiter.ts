@@ -0,0 +1,39 @@
+/**
+ * Fixed-window request limits per API token. Counters live in memory, so
+ * with several server instances each one enforces the limit on its own.
+ */
+
+export const DEFAULT_API_RATE_LIMIT_PER_MINUTE = 120;
+const WINDOW_MS = 60 * 1000;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export class TokenRateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  consume(tokenId: string, limit: number, now: number = Date.now()): RateLimitDecision {
+    let window = this.windows.get(tokenId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + WINDOW_MS };
+      this.windows.set(tokenId, window);
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, limit, remaining: 0, resetAt: window.resetAt };
+    }
+
+    window.count++;
+    return { allowed: true, limit, remaining: limit - window.count, resetAt: window.resetAt };
+  }
+
+  prune(now: number = Date.now()): void {
+    this.windows.forEach((window, tokenId) => {
+      if (window.resetAt <= now) this.windows.delete(tokenId);
+    });
+  }
+}
@@ -0,0 +1,507 @@
+import { db } from "../../db";
+import { storage } from "../../storage";
+import { hrmsStorage } from "../../storage/hrms";
+import EmployeeService from "../../services/hrms/employeeService";
+import {
+  customers,
+  bookings,
+  invoices,
+  inventoryItems,
+  insertCustomerSchema,
+  insertBookingSchema,
+  insertInventoryItemSchema,
+  insertHrEmployeeSchema,
+  type HrEmployee,
+} from "@shared/schema";
+import { and, eq, gte, lte, desc, asc, ilike, like, or, isNull, sql, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import { PERMISSIONS } from "../permissions";
+import { invoiceLedgerService } from "../invoicing";
+import { today } from "../../utils/time-of-day";
+import { webhookService } from "../webhooks";
+import { defineRoute, PublicApiError, type PublicApiRoute } from "./definition";
+
+const listQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  updatedSince: z.coerce.date().optional(),
+});
+
+async function paginate<T>(
+  table: PgTable,
+  conditions: SQL[],
+  orderBy: SQL,
+  page: number,
+  limit: number,
+) {
+  const where = and(...conditions);
+  const [data, countResult] = await Promise.all([
+    db.select().from(table).where(where).orderBy(orderBy).limit(limit).offset((page - 1) * limit),
+    db.select({ count: sql<number>`count(*)::int` }).from(table).where(where),
+  ]);
+
+  const total = countResult[0]?.count || 0;
+  return {
+    data: data as T[],
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  };
+}
+
+async function requireCustomer(tenantId: string, customerId: string) {
+  const customer = await storage.getCustomer(customerId, tenantId);
+  if (!customer || customer.deletedAt) {
+    throw new PublicApiError(400, "Unknown customerId");
+  }
+  return customer;
+}
+
+// ==================== CUSTOMERS ====================
+
+const customerBody = insertCustomerSchema.omit({
+  tenantId: true,
+  createdBy: true,
+  totalSpent: true,
+  visitCount: true,
+  lastVisitAt: true,
+  deletedAt: true,
+});
+
+const customerRoutes = [
+  defineRoute({
+    method: "get",
+    path: "/customers",
+    operationId: "listCustomers",
+    summary: "List customers",
+    tag: "Customers",
+    scope: "customers:read",
+    permission: PERMISSIONS.CUSTOMERS_READ,
+    query: listQuery.extend({ search: z.string().optional() }),
+    handler: ({ tenantId, query }) => {
+      const conditions = [eq(customers.tenantId, tenantId), isNull(customers.deletedAt)];
+      if (query.search) {
+        conditions.push(or(
+          ilike(customers.name, `%${query.search}%`),
+          ilike(customers.email, `%${query.search}%`),
+          ilike(customers.phone, `%${query.search}%`),
+        )!);
+      }
+      if (query.updatedSince) conditions.push(gte(customers.updatedAt, query.updatedSince));
+      return paginate(customers, conditions, desc(customers.createdAt), query.page, query.limit);
+    },
+  }),
+  defineRoute({
+    method: "get",
+    path: "/customers/:id",
+    operationId: "getCustomer",
+    summary: "Get a customer",
+    tag: "Customers",
+    scope: "customers:read",
+    permission: PERMISSIONS.CUSTOMERS_READ,
+    handler: async ({ tenantId, params }) => {
+      const customer = await storage.getCustomer(params.id, tenantId);
+      return customer && !customer.deletedAt ? customer : null;
+    },
+  }),
+  defineRoute({
+    method: "post",
+    path: "/customers",
+    operationId: "createCustomer",
+    summary: "Create a customer",
+    tag: "Customers",
+    scope: "customers:write",
+    permission: PERMISSIONS.CUSTOMERS_CREATE,
+    body: customerBody,
+    successStatus: 201,
+    handler: async ({ tenantId, userId, body }) => {
+      const customer = await storage.createCustomer({ ...body, tenantId, createdBy: userId });
+      webhookService.publishAsync(tenantId, "customer.created", customer);
+      return customer;
+    },
+  }),
+  defineRoute({
+    method: "patch",
+    path: "/customers/:id",
+    operationId: "updateCustomer",
+    summary: "Update a customer",
+    tag: "Customers",
+    scope: "customers:write",
+    permission: PERMISSIONS.CUSTOMERS_UPDATE,
+    body: customerBody.partial(),
+    handler: async ({ tenantId, params, body }) => {
+      const existing = await storage.getCustomer(params.id, tenantId);
+      if (!existing || existing.deletedAt) return null;
+      return (await storage.updateCustomer(params.id, tenantId, body)) ?? null;
+    },
+  }),
+];
+
+// ==================== INVOICES ====================
+
+const invoiceItemBody = z.object({
+  description: z.string().min(1),
+  serviceId: z.string().optional(),
+  quantity: z.number().int().min(1).default(1),
+  unitPrice: z.number().min(0),
+  taxRate: z.number().min(0).max(100).default(0),
+});
+
+const invoiceBody = z.object({
+  customerId: z.string(),
+  invoiceNumber: z.string().max(50).optional(),
+  currency: z.string().length(3).optional(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  discountAmount: z.number().min(0).default(0),
+  notes: z.string().optional(),
+  items: z.array(invoiceItemBody).min(1),
+});
+
+// Same monthly sequence format the module invoice runs use
+async function nextInvoiceNumber(tenantId: string): Promise<string> {
+  const prefix = `INV-${today().slice(0, 7).replace("-", "")}-`;
+  const [result] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(invoices)
+    .where(and(eq(invoices.tenantId, tenantId), like(invoices.invoiceNumber, `${prefix}%`)));
+  return `${prefix}${String((result?.count || 0) + 1).padStart(5, "0")}`;
+}
+
+const invoiceRoutes = [
+  defineRoute({
+    method: "get",
+    path: "/invoices",
+    operationId: "listInvoices",
+    summary: "List invoices",
+    tag: "Invoices",
+    scope: "invoices:read",
+    permission: PERMISSIONS.BILLING_READ,
+    query: listQuery.extend({
+      status: z.enum(["draft", "pending", "paid", "partial", "overdue", "cancelled", "refunded"]).optional(),
+      customerId: z.string().optional(),
+    }),
+    handler: ({ tenantId, query }) => {
+      const conditions = [eq(invoices.tenantId, tenantId), isNull(invoices.deletedAt)];
+      if (query.status) conditions.push(eq(invoices.status, query.status));
+      if (query.customerId) conditions.push(eq(invoices.customerId, query.customerId));
+      if (query.updatedSince) conditions.push(gte(invoices.updatedAt, query.updatedSince));
+      return paginate(invoices, conditions, desc(invoices.createdAt), query.page, query.limit);
+    },
+  }),
+  defineRoute({
+    method: "get",
+    path: "/invoices/:id",
+    operationId: "getInvoice",
+    summary: "Get an invoice with its line items",
+    tag: "Invoices",
+    scope: "invoices:read",
+    permission: PERMISSIONS.BILLING_READ,
+    handler: async ({ tenantId, params }) => {
+      const invoice = await storage.getInvoice(params.id, tenantId);
+      if (!invoice || invoice.deletedAt) return null;
+      return { ...invoice, items: await storage.getInvoiceItems(invoice.id) };
+    },
+  }),
+  defineRoute({
+    method: "post",
+    path: "/invoices",
+    operationId: "createInvoice",
+    summary: "Create a draft invoice; totals are computed from the line items",
+    tag: "Invoices",
+    scope: "invoices:write",
+    permission: PERMISSIONS.BILLING_MANAGE,
+    body: invoiceBody,
+    successStatus: 201,
+    handler: async ({ tenantId, userId, body }) => {
+      await requireCustomer(tenantId, body.customerId);
+
+      const lines = body.items.map((item) => {
+        const totalPrice = item.quantity * item.unitPrice;
+        return { ...item, totalPrice, tax: totalPrice * item.taxRate / 100 };
+      });
+      const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+      const taxAmount = lines.reduce((sum, line) => sum + line.tax, 0);
+      const totalAmount = Math.max(0, subtotal + taxAmount - body.discountAmount);
+
+      const invoice = await storage.createInvoice({
+        tenantId,
+        customerId: body.customerId,
+        invoiceNumber: body.invoiceNumber || await nextInvoiceNumber(tenantId),
+        status: "draft",
+        currency: body.currency || "INR",
+        subtotal: subtotal.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        discountAmount: body.discountAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        baseAmount: totalAmount.toFixed(2),
+        paidAmount: "0.00",
+        dueDate: body.dueDate,
+        notes: body.notes,
+        createdBy: userId,
+      });
+
+      const items = [];
+      for (const line of lines) {
+        items.push(await storage.createInvoiceItem({
+          invoiceId: invoice.id,
+          serviceId: line.serviceId,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice.toFixed(2),
+          totalPrice: line.totalPrice.toFixed(2),
+          taxRate: line.taxRate.toFixed(2),
+        }));
+      }
+
+      invoiceLedgerService.postAsync(tenantId, "core", invoice.id);
+      webhookService.publishAsync(tenantId, "invoice.created", invoice);
+      return { ...invoice, items };
+    },
+  }),
+];
+
+// ==================== BOOKINGS ====================
+
+const bookingBody = insertBookingSchema.omit({
+  tenantId: true,
+  createdBy: true,
+  deletedAt: true,
+  cancelledAt: true,
+  cancelledBy: true,
+  startedAt: true,
+  completedAt: true,
+  invoiceId: true,
+  reminderSent: true,
+  internalNotes: true,
+});
+
+const bookingRoutes = [
+  defineRoute({
+    method: "get",
+    path: "/bookings",
+    operationId: "listBookings",
+    summary: "List bookings",
+    tag: "Bookings",
+    scope: "bookings:read",
+    permission: PERMISSIONS.BOOKINGS_READ,
+    query: listQuery.extend({
+      status: z.enum(["pending", "confirmed", "completed", "cancelled"]).optional(),
+      customerId: z.string().optional(),
+      from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+      to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+    }),
+    handler: ({ tenantId, query }) => {
+      const conditions = [eq(bookings.tenantId, tenantId), isNull(bookings.deletedAt)];
+      if (query.status) conditions.push(eq(bookings.status, query.status));
+      if (query.customerId) conditions.push(eq(bookings.customerId, query.customerId));
+      if (query.from) conditions.push(gte(bookings.bookingDate, query.from));
+      if (query.to) conditions.push(lte(bookings.bookingDate, query.to));
+      if (query.updatedSince) conditions.push(gte(bookings.updatedAt, query.updatedSince));
+      return paginate(bookings, conditions, desc(bookings.bookingDate), query.page, query.limit);
+    },
+  }),
+  defineRoute({
+    method: "get",
+    path: "/bookings/:id",
+    operationId: "getBooking",
+    summary: "Get a booking",
+    tag: "Bookings",
+    scope: "bookings:read",
+    permission: PERMISSIONS.BOOKINGS_READ,
+    handler: async ({ tenantId, params }) => {
+      const booking = await storage.getBooking(params.id, tenantId);
+      return booking && !booking.deletedAt ? booking : null;
+    },
+  }),
+  defineRoute({
+    method: "post",
+    path: "/bookings",
+    operationId: "createBooking",
+    summary: "Create a booking",
+    tag: "Bookings",
+    scope: "bookings:write",
+    permission: PERMISSIONS.BOOKINGS_CREATE,
+    body: bookingBody,
+    successStatus: 201,
+    handler: async ({ tenantId, userId, body }) => {
+      await requireCustomer(tenantId, body.customerId);
+      const booking = await storage.createBooking({ ...body, tenantId, createdBy: userId });
+      webhookService.publishAsync(tenantId, "booking.created", booking);
+      return booking;
+    },
+  }),
+  defineRoute({
+    method: "patch",
+    path: "/bookings/:id",
+    operationId: "updateBooking",
+    summary: "Update a booking",
+    tag: "Bookings",
+    scope: "bookings:write",
+    permission: PERMISSIONS.BOOKINGS_UPDATE,
+    body: bookingBody.partial(),
+    handler: async ({ tenantId, params, body }) => {
+      const existing = await storage.getBooking(params.id, tenantId);
+      if (!existing || existing.deletedAt) return null;
+      if (body.customerId) await requireCustomer(tenantId, body.customerId);
+
+      const booking = await storage.updateBooking(params.id, tenantId, body);
+      if (booking) webhookService.publishAsync(tenantId, "booking.updated", booking);
+      return booking ?? null;
+    },
+  }),
+];
+
+// ==================== INVENTORY ====================
+
+const inventoryItemBody = insertInventoryItemSchema.omit({
+  tenantId: true,
+  deletedAt: true,
+});
+
+const inventoryRoutes = [
+  defineRoute({
+    method: "get",
+    path: "/inventory/items",
+    operationId: "listInventoryItems",
+    summary: "List inventory items",
+    tag: "Inventory",
+    scope: "inventory:read",
+    permission: PERMISSIONS.INVENTORY_READ,
+    query: listQuery.extend({
+      search: z.string().optional(),
+      categoryId: z.string().optional(),
+    }),
+    handler: ({ tenantId, query }) => {
+      const conditions = [eq(inventoryItems.tenantId, tenantId), isNull(inventoryItems.deletedAt)];
+      if (query.search) {
+        conditions.push(or(ilike(inventoryItems.name, `%${query.search}%`), ilike(inventoryItems.sku, `%${query.search}%`))!);
+      }
+      if (query.categoryId) conditions.push(eq(inventoryItems.categoryId, query.categoryId));
+      if (query.updatedSince) conditions.push(gte(inventoryItems.updatedAt, query.updatedSince));
+      return paginate(inventoryItems, conditions, asc(inventoryItems.name), query.page, query.limit);
+    },
+  }),
+  defineRoute({
+    method: "get",
+    path: "/inventory/items/:id",
+    operationId: "getInventoryItem",
+    summary: "Get an inventory item",
+    tag: "Inventory",
+    scope: "inventory:read",
+    permission: PERMISSIONS.INVENTORY_READ,
+    handler: async ({ tenantId, params }) => {
+      const item = await storage.getInventoryItem(params.id, tenantId);
+      return item && !item.deletedAt ? item : null;
+    },
+  }),
+  defineRoute({
+    method: "post",
+    path: "/inventory/items",
+    operationId: "createInventoryItem",
+    summary: "Create an inventory item",
+    tag: "Inventory",
+    scope: "inventory:write",
+    permission: PERMISSIONS.INVENTORY_MANAGE,
+    body: inventoryItemBody,
+    successStatus: 201,
+    handler: ({ tenantId, body }) => storage.createInventoryItem({ ...body, tenantId }),
+  }),
+  defineRoute({
+    method: "patch",
+    path: "/inventory/items/:id",
+    operationId: "updateInventoryItem",
+    summary: "Update an inventory item",
+    tag: "Inventory",
+    scope: "inventory:write",
+    permission: PERMISSIONS.INVENTORY_MANAGE,
+    body: inventoryItemBody.partial(),
+    handler: async ({ tenantId, params, body }) => {
+      const existing = await storage.getInventoryItem(params.id, tenantId);
+      if (!existing || existing.deletedAt) return null;
+      return (await storage.updateInventoryItem(params.id, tenantId, body)) ?? null;
+    },
+  }),
+];
+
+// ==================== EMPLOYEES ====================
+
+// Bank and identity numbers stay inside the HR module
+function publicEmployee(employee: HrEmployee) {
+  const { bankName, bankAccountNumber, bankIfscCode, panNumber, aadharNumber, ...rest } = employee;
+  return rest;
+}
+
+const employeeBody = insertHrEmployeeSchema.omit({
+  tenantId: true,
+  createdBy: true,
+  bankName: true,
+  bankAccountNumber: true,
+  bankIfscCode: true,
+  panNumber: true,
+  aadharNumber: true,
+  deactivatedAt: true,
+  deactivationReason: true,
+  reactivatedAt: true,
+});
+
+const employeeRoutes = [
+  defineRoute({
+    method: "get",
+    path: "/employees",
+    operationId: "listEmployees",
+    summary: "List employees",
+    tag: "Employees",
+    scope: "employees:read",
+    permission: PERMISSIONS.STAFF_READ,
+    query: listQuery.omit({ updatedSince: true }).extend({
+      status: z.string().optional(),
+      departmentId: z.string().optional(),
+      search: z.string().optional(),
+    }),
+    handler: async ({ tenantId, query }) => {
+      const result = await hrmsStorage.getEmployees(
+        tenantId,
+        { status: query.status, departmentId: query.departmentId, search: query.search },
+        { page: query.page, limit: query.limit, sortOrder: "desc" },
+      );
+      return {
+        data: result.data.map(publicEmployee),
+        pagination: { page: result.page, limit: result.limit, total: result.total, totalPages: result.totalPages },
+      };
+    },
+  }),
+  defineRoute({
+    method: "get",
+    path: "/employees/:id",
+    operationId: "getEmployee",
+    summary: "Get an employee",
+    tag: "Employees",
+    scope: "employees:read",
+    permission: PERMISSIONS.STAFF_READ,
+    handler: async ({ tenantId, params }) => {
+      const employee = await hrmsStorage.getEmployeeById(tenantId, params.id);
+      return employee ? publicEmployee(employee) : null;
+    },
+  }),
+  defineRoute({
+    method: "post",
+    path: "/employees",
+    operationId: "createEmployee",
+    summary: "Create an employee",
+    tag: "Employees",
+    scope: "employees:write",
+    permission: PERMISSIONS.STAFF_CREATE,
+    body: employeeBody,
+    successStatus: 201,
+    handler: async ({ tenantId, userId, body }) => {
+      const employee = await EmployeeService.addEmployee(tenantId, { ...body, createdBy: userId });
+      return publicEmployee(employee);
+    },
+  }),
+];
+
+export const publicApiV1Routes: PublicApiRoute[] = [
+  ...customerRoutes,
+  ...invoiceRoutes,
+  ...bookingRoutes,
+  ...inventoryRoutes,
+  ...employeeRoutes,
+];
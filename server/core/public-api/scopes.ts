@@ -0,0 +1,28 @@
+/**
+ * Scopes an API token can be granted for the public API.
+ *
+ * Every public route requires exactly one scope. Scopes are checked in
+ * addition to the permissions of the user who created the token, so a token
+ * can never do more than its owner.
+ */
+
+export const PUBLIC_API_RESOURCES = ["customers", "invoices", "bookings", "inventory", "employees"] as const;
+export type PublicApiResource = typeof PUBLIC_API_RESOURCES[number];
+
+export type ApiScope = `${PublicApiResource}:${"read" | "write"}`;
+export const API_SCOPES: readonly ApiScope[] = PUBLIC_API_RESOURCES.flatMap((resource): ApiScope[] => [
+  `${resource}:read`,
+  `${resource}:write`,
+]);
+
+export function isApiScope(value: string): value is ApiScope {
+  return (API_SCOPES as readonly string[]).includes(value);
+}
+
+export function hasApiScope(granted: readonly string[], required: ApiScope): boolean {
+  return granted.includes(required);
+}
+
+export function invalidApiScopes(scopes: readonly string[]): string[] {
+  return scopes.filter((scope) => !isApiScope(scope));
+}
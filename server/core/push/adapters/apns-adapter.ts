@@ -0,0 +1,113 @@
+import http2 from "http2";
+import jwt from "jsonwebtoken";
+import type { PushProvider, PushProviderConfig, PushMessage, PushSendResult } from "../types";
+
+// APNs reasons that mean the device token will never work again
+const INVALID_TOKEN_REASONS = new Set(["BadDeviceToken", "Unregistered", "DeviceTokenNotForTopic"]);
+
+// Provider tokens are valid for an hour; APNs rejects refreshes more often than every 20 minutes
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+export class ApnsPushAdapter implements PushProvider {
+  name = "apns" as const;
+  private config: PushProviderConfig | null = null;
+  private providerToken: { value: string; issuedAt: number } | null = null;
+
+  async initialize(config: PushProviderConfig): Promise<void> {
+    this.config = config;
+    this.providerToken = null;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config?.keyId && this.config?.teamId && this.config?.privateKey && this.config?.bundleId);
+  }
+
+  private getProviderToken(): string {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS) {
+      return this.providerToken.value;
+    }
+
+    const value = jwt.sign({}, this.config!.privateKey!.replace(/\\n/g, "\n"), {
+      algorithm: "ES256",
+      issuer: this.config!.teamId,
+      keyid: this.config!.keyId,
+    });
+    this.providerToken = { value, issuedAt: Date.now() };
+    return value;
+  }
+
+  private get host(): string {
+    return this.config?.production ? "https://api.push.apple.com" : "https://api.sandbox.push.apple.com";
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    if (!this.isConfigured()) {
+      return { success: false, errorMessage: "APNs not configured" };
+    }
+
+    const payload = JSON.stringify({
+      aps: {
+        alert: { title: message.title, body: message.body },
+        badge: message.badge,
+        sound: message.sound || "default",
+      },
+      ...message.data,
+    });
+
+    // APNs only speaks HTTP/2, which fetch does not
+    return new Promise<PushSendResult>((resolve) => {
+      const client = http2.connect(this.host);
+      client.on("error", (error) => {
+        client.close();
+        resolve({ success: false, errorMessage: error.message });
+      });
+
+      const request = client.request({
+        ":method": "POST",
+        ":path": `/3/device/${token}`,
+        "authorization": `bearer ${this.getProviderToken()}`,
+        "apns-topic": this.config!.bundleId!,
+        "apns-push-type": "alert",
+        "content-type": "application/json",
+      });
+
+      let status = 0;
+      let apnsId: string | undefined;
+      let body = "";
+
+      request.on("response", (headers) => {
+        status = Number(headers[":status"]);
+        apnsId = headers["apns-id"] as string | undefined;
+      });
+      request.setEncoding("utf8");
+      request.on("data", (chunk) => { body += chunk; });
+      request.on("end", () => {
+        client.close();
+
+        if (status === 200) {
+          resolve({ success: true, providerMessageId: apnsId });
+          return;
+        }
+
+        let reason: string | undefined;
+        try {
+          reason = body ? JSON.parse(body).reason : undefined;
+        } catch {
+          reason = undefined;
+        }
+        resolve({
+          success: false,
+          errorCode: reason,
+          errorMessage: reason || `HTTP ${status}`,
+          invalidToken: status === 410 || (reason !== undefined && INVALID_TOKEN_REASONS.has(reason)),
+        });
+      });
+      request.on("error", (error) => {
+        client.close();
+        resolve({ success: false, errorMessage: error.message });
+      });
+
+      request.end(payload);
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import jwt from "jsonwebtoken";
+import type { PushProvider, PushProviderConfig, PushMessage, PushSendResult } from "../types";
+
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+// FCM error codes that mean the registration token will never work again
+const INVALID_TOKEN_CODES = new Set(["UNREGISTERED", "INVALID_ARGUMENT"]);
+
+export class FcmPushAdapter implements PushProvider {
+  name = "fcm" as const;
+  private config: PushProviderConfig | null = null;
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  async initialize(config: PushProviderConfig): Promise<void> {
+    this.config = config;
+    this.accessToken = null;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config?.projectId && this.config?.clientEmail && this.config?.privateKey);
+  }
+
+  /**
+   * OAuth access token for the HTTP v1 API, minted from the service account
+   * and reused until shortly before it expires.
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = jwt.sign(
+      { iss: this.config!.clientEmail, scope: FCM_SCOPE, aud: TOKEN_URL, iat: now, exp: now + 3600 },
+      this.config!.privateKey!.replace(/\\n/g, "\n"),
+      { algorithm: "RS256" }
+    );
+
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM auth failed: HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    this.accessToken = { value: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+    return this.accessToken.value;
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    if (!this.isConfigured()) {
+      return { success: false, errorMessage: "FCM not configured" };
+    }
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const response = await fetch(
+        `https://fcm.googleapis.com/v1/projects/${this.config!.projectId}/messages:send`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            message: {
+              token,
+              notification: { title: message.title, body: message.body },
+              data: message.data,
+              apns: {
+                payload: { aps: { badge: message.badge, sound: message.sound || "default" } },
+              },
+            },
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        return { success: true, providerMessageId: data.name };
+      }
+
+      const errorCode = data.error?.details?.find((d: { errorCode?: string }) => d.errorCode)?.errorCode || data.error?.status;
+      return {
+        success: false,
+        errorCode,
+        errorMessage: data.error?.message || `HTTP ${response.status}`,
+        invalidToken: INVALID_TOKEN_CODES.has(errorCode),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export { FcmPushAdapter } from "./fcm-adapter";
+export { ApnsPushAdapter } from "./apns-adapter";
+export { MockPushAdapter } from "./mock-adapter";
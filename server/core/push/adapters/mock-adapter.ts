@@ -0,0 +1,32 @@
+import type { PushProvider, PushProviderConfig, PushMessage, PushSendResult } from "../types";
+
+/**
+ * In-memory provider for tests and local development. Tokens starting with
+ * "invalid" are rejected as unregistered; everything else is delivered.
+ */
+export class MockPushAdapter implements PushProvider {
+  name = "mock" as const;
+  readonly sent: Array<{ token: string; message: PushMessage; sentAt: Date }> = [];
+  private counter = 0;
+
+  async initialize(_config: PushProviderConfig): Promise<void> {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    if (token.startsWith("invalid")) {
+      return { success: false, errorCode: "UNREGISTERED", errorMessage: "Token is not registered", invalidToken: true };
+    }
+
+    this.sent.push({ token, message, sentAt: new Date() });
+    this.counter++;
+    return { success: true, providerMessageId: `mock-${this.counter}` };
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.counter = 0;
+  }
+}
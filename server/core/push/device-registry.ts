@@ -0,0 +1,116 @@
+import crypto from "crypto";
+import { db } from "../../db";
+import { mobileDevices, type MobileDevice } from "@shared/schema";
+import { and, desc, eq, isNotNull, isNull, ne, or } from "drizzle-orm";
+import type { RegisterDeviceParams } from "./types";
+
+/**
+ * Device id for clients that only report a push token. Hashed so the token
+ * itself is not used as a key.
+ */
+export function tokenDeviceId(pushToken: string): string {
+  return `token:${crypto.createHash("sha256").update(pushToken).digest("hex").substring(0, 32)}`;
+}
+
+class DeviceRegistry {
+  /**
+   * Registers a device or refreshes its token. Re-registering the same device
+   * replaces its token and clears any earlier invalidation; a token that
+   * moves to another user or device is removed from its previous owner.
+   */
+  async register(params: RegisterDeviceParams): Promise<MobileDevice> {
+    const now = new Date();
+    const deviceId = params.deviceId || tokenDeviceId(params.pushToken);
+
+    return db.transaction(async (tx) => {
+      await tx.update(mobileDevices)
+        .set({ pushToken: null, pushTokenInvalidatedAt: now, invalidationReason: "reassigned", updatedAt: now })
+        .where(and(
+          eq(mobileDevices.pushToken, params.pushToken),
+          or(ne(mobileDevices.userId, params.userId), ne(mobileDevices.deviceId, deviceId)),
+        ));
+
+      const fields = {
+        tenantId: params.tenantId,
+        platform: params.platform,
+        deviceName: params.deviceName,
+        pushToken: params.pushToken,
+        pushProvider: params.provider ?? "fcm",
+        pushTokenUpdatedAt: now,
+        pushTokenInvalidatedAt: null,
+        invalidationReason: null,
+        appVersion: params.appVersion,
+        osVersion: params.osVersion,
+        lastActiveAt: now,
+        revokedAt: null,
+        updatedAt: now,
+      };
+
+      const [device] = await tx.insert(mobileDevices)
+        .values({ userId: params.userId, deviceId, ...fields })
+        .onConflictDoUpdate({
+          target: [mobileDevices.userId, mobileDevices.deviceId],
+          set: fields,
+        })
+        .returning();
+
+      return device;
+    });
+  }
+
+  async listForUser(userId: string): Promise<MobileDevice[]> {
+    return db.select()
+      .from(mobileDevices)
+      .where(and(eq(mobileDevices.userId, userId), isNull(mobileDevices.revokedAt)))
+      .orderBy(desc(mobileDevices.lastActiveAt));
+  }
+
+  /**
+   * Devices that can currently receive pushes for the user.
+   */
+  async pushTargets(userId: string): Promise<MobileDevice[]> {
+    return db.select()
+      .from(mobileDevices)
+      .where(and(
+        eq(mobileDevices.userId, userId),
+        isNotNull(mobileDevices.pushToken),
+        isNull(mobileDevices.pushTokenInvalidatedAt),
+        isNull(mobileDevices.revokedAt),
+      ));
+  }
+
+  /**
+   * Called when the app signs out or disables notifications.
+   */
+  async unregisterToken(userId: string, pushToken: string): Promise<boolean> {
+    const now = new Date();
+    const updated = await db.update(mobileDevices)
+      .set({ pushToken: null, pushTokenInvalidatedAt: now, invalidationReason: "unregistered", updatedAt: now })
+      .where(and(eq(mobileDevices.userId, userId), eq(mobileDevices.pushToken, pushToken)))
+      .returning({ id: mobileDevices.id });
+    return updated.length > 0;
+  }
+
+  /**
+   * Called when a provider reports the token as permanently undeliverable.
+   * The token is kept for diagnostics; the device stops receiving pushes
+   * until it registers a fresh token.
+   */
+  async invalidateToken(pushToken: string, reason: string): Promise<void> {
+    const now = new Date();
+    await db.update(mobileDevices)
+      .set({ pushTokenInvalidatedAt: now, invalidationReason: reason.substring(0, 100), updatedAt: now })
+      .where(and(eq(mobileDevices.pushToken, pushToken), isNull(mobileDevices.pushTokenInvalidatedAt)));
+  }
+
+  async revoke(userId: string, deviceId: string): Promise<boolean> {
+    const now = new Date();
+    const updated = await db.update(mobileDevices)
+      .set({ revokedAt: now, pushToken: null, pushTokenInvalidatedAt: now, invalidationReason: "revoked", updatedAt: now })
+      .where(and(eq(mobileDevices.userId, userId), eq(mobileDevices.deviceId, deviceId), isNull(mobileDevices.revokedAt)))
+      .returning({ id: mobileDevices.id });
+    return updated.length > 0;
+  }
+}
+
+export const deviceRegistry = new DeviceRegistry();
@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./adapters";
+export { pushProviderRegistry } from "./provider-registry";
+export { deviceRegistry, tokenDeviceId } from "./device-registry";
+export { pushService } from "./push-service";
+export { isPushEnabled, quietHoursRemaining } from "./preferences";
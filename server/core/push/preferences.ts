@@ -0,0 +1,43 @@
+import type { NotificationPreferences } from "@shared/schema";
+import { timeToMinutes } from "../../utils/time-of-day";
+
+type PushPreferences = Pick<NotificationPreferences, "pushEnabled" | "quietHoursEnabled" | "quietHoursStart" | "quietHoursEnd">;
+
+/**
+ * Users without a preferences row get pushes; the column defaults to on.
+ */
+export function isPushEnabled(preferences: PushPreferences | null | undefined): boolean {
+  return preferences?.pushEnabled ?? true;
+}
+
+export function localMinutesOfDay(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const hour = Number(parts.find(p => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Minutes until the user's quiet hours end, or 0 when `at` is outside them.
+ * Quiet hours are wall-clock times in the tenant's timezone and may wrap
+ * past midnight (22:00-07:00).
+ */
+export function quietHoursRemaining(preferences: PushPreferences | null | undefined, at: Date, timeZone: string): number {
+  if (!preferences?.quietHoursEnabled || !preferences.quietHoursStart || !preferences.quietHoursEnd) {
+    return 0;
+  }
+
+  const start = timeToMinutes(preferences.quietHoursStart);
+  const end = timeToMinutes(preferences.quietHoursEnd);
+  if (start === end) return 0;
+
+  const now = localMinutesOfDay(at, timeZone);
+  const inQuietHours = start < end ? now >= start && now < end : now >= start || now < end;
+
+  return inQuietHours ? (end - now + 24 * 60) % (24 * 60) : 0;
+}
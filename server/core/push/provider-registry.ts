@@ -0,0 +1,54 @@
+import type { PushProvider, PushProviderType } from "./types";
+import { FcmPushAdapter, ApnsPushAdapter, MockPushAdapter } from "./adapters";
+
+class PushProviderRegistry {
+  private providers: Map<PushProviderType, PushProvider> = new Map();
+  private mock: MockPushAdapter | null = null;
+  private initialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    if (process.env.PUSH_PROVIDER === "mock" || process.env.NODE_ENV === "test") {
+      this.useMockProvider();
+    }
+
+    const fcmAdapter = new FcmPushAdapter();
+    await fcmAdapter.initialize({
+      projectId: process.env.FCM_PROJECT_ID,
+      clientEmail: process.env.FCM_CLIENT_EMAIL,
+      privateKey: process.env.FCM_PRIVATE_KEY,
+    });
+    this.providers.set("fcm", fcmAdapter);
+
+    const apnsAdapter = new ApnsPushAdapter();
+    await apnsAdapter.initialize({
+      keyId: process.env.APNS_KEY_ID,
+      teamId: process.env.APNS_TEAM_ID,
+      privateKey: process.env.APNS_PRIVATE_KEY,
+      bundleId: process.env.APNS_BUNDLE_ID,
+      production: process.env.APNS_PRODUCTION === "true",
+    });
+    this.providers.set("apns", apnsAdapter);
+
+    this.initialized = true;
+  }
+
+  /**
+   * Routes every push through the in-memory mock provider. Used by tests and
+   * enabled with PUSH_PROVIDER=mock for local development.
+   */
+  useMockProvider(): MockPushAdapter {
+    if (!this.mock) {
+      this.mock = new MockPushAdapter();
+    }
+    return this.mock;
+  }
+
+  async getProvider(type: PushProviderType): Promise<PushProvider | undefined> {
+    await this.initialize();
+    return this.mock ?? this.providers.get(type);
+  }
+}
+
+export const pushProviderRegistry = new PushProviderRegistry();
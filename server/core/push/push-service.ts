@@ -0,0 +1,71 @@
+import { db } from "../../db";
+import { notificationPreferences, tenants } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import type { PushDeliveryResult, PushMessage, PushProviderType } from "./types";
+import { deviceRegistry } from "./device-registry";
+import { pushProviderRegistry } from "./provider-registry";
+import { isPushEnabled, quietHoursRemaining } from "./preferences";
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+class PushService {
+  /**
+   * Sends a push to every registered device of a user, honoring the user's
+   * notification preferences. During quiet hours nothing is sent and
+   * `deferredUntil` says when to try again.
+   */
+  async sendToUser(tenantId: string, userId: string, message: PushMessage): Promise<PushDeliveryResult> {
+    const result: PushDeliveryResult = { success: false, delivered: 0, failed: 0, invalidated: 0, deviceResults: [] };
+
+    const [preferences] = await db.select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+
+    if (!isPushEnabled(preferences)) {
+      return { ...result, skippedReason: "Push notifications disabled by user" };
+    }
+
+    const [tenant] = await db.select({ timezone: tenants.timezone }).from(tenants).where(eq(tenants.id, tenantId));
+    const now = new Date();
+    const quietMinutes = quietHoursRemaining(preferences, now, tenant?.timezone || DEFAULT_TIMEZONE);
+    if (quietMinutes > 0) {
+      return { ...result, deferredUntil: new Date(now.getTime() + quietMinutes * 60 * 1000), skippedReason: "Quiet hours" };
+    }
+
+    const devices = await deviceRegistry.pushTargets(userId);
+    if (devices.length === 0) {
+      return { ...result, skippedReason: "No registered devices" };
+    }
+
+    for (const device of devices) {
+      const provider = await pushProviderRegistry.getProvider(device.pushProvider as PushProviderType);
+      if (!provider?.isConfigured()) {
+        result.failed++;
+        result.deviceResults.push({ deviceId: device.deviceId, success: false, error: `${device.pushProvider} not configured` });
+        continue;
+      }
+
+      const sent = await provider.send(device.pushToken!, message);
+      if (sent.success) {
+        result.delivered++;
+      } else {
+        result.failed++;
+        if (sent.invalidToken) {
+          await deviceRegistry.invalidateToken(device.pushToken!, sent.errorCode || "invalid_token");
+          result.invalidated++;
+        }
+      }
+      result.deviceResults.push({
+        deviceId: device.deviceId,
+        success: sent.success,
+        providerMessageId: sent.providerMessageId,
+        error: sent.errorMessage,
+      });
+    }
+
+    result.success = result.delivered > 0;
+    return result;
+  }
+}
+
+export const pushService = new PushService();
@@ -0,0 +1,67 @@
+export type PushProviderType = "fcm" | "apns" | "mock";
+export type PushPlatform = "ios" | "android";
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  badge?: number;
+  sound?: string;
+}
+
+export interface PushSendResult {
+  success: boolean;
+  providerMessageId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  // The provider rejected the token for good; the device must re-register
+  invalidToken?: boolean;
+}
+
+export interface PushProviderConfig {
+  projectId?: string;
+  clientEmail?: string;
+  privateKey?: string;
+  keyId?: string;
+  teamId?: string;
+  bundleId?: string;
+  production?: boolean;
+}
+
+export interface PushProvider {
+  name: PushProviderType;
+
+  initialize(config: PushProviderConfig): Promise<void>;
+
+  send(token: string, message: PushMessage): Promise<PushSendResult>;
+
+  isConfigured(): boolean;
+}
+
+export interface RegisterDeviceParams {
+  tenantId: string;
+  userId: string;
+  platform: PushPlatform;
+  pushToken: string;
+  // Stable install id; devices that only report a token are keyed by it
+  deviceId?: string;
+  deviceName?: string;
+  provider?: Exclude<PushProviderType, "mock">;
+  appVersion?: string;
+  osVersion?: string;
+}
+
+export interface PushDeliveryResult {
+  success: boolean;
+  delivered: number;
+  failed: number;
+  invalidated: number;
+  deferredUntil?: Date;
+  skippedReason?: string;
+  deviceResults: Array<{
+    deviceId: string;
+    success: boolean;
+    providerMessageId?: string;
+    error?: string;
+  }>;
+}
@@ -7,6 +7,7 @@ import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { requirePermission } from "../context";
 import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
 import { auditService } from "../audit";
+import { accountingService } from "../accounting";
 import { baseFinancialService } from "../../services/base-financial";
 import { sendCommissionNotification } from "../../services/real-estate-notification-adapter";
 
@@ -137,6 +138,10 @@ commissionsRouter.post("/", ...middleware, requirePermission("commissions:create
       metadata: { commissionNumber: commission.commissionNumber, amount: commission.commissionAmount },
     });
 
+    if (commission.status === "paid") {
+      accountingService.postAsync(tenantId, "commission", commission.id);
+    }
+
     res.status(201).json(commission);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -180,6 +185,10 @@ commissionsRouter.patch("/:id", ...middleware, requirePermission("commissions:up
       metadata: { changes: Object.keys(parsed.data) },
     });
 
+    if (updated.status === "paid") {
+      accountingService.postAsync(isolation.getTenantId(), "commission", id);
+    }
+
     res.json(updated);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
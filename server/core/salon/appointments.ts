@@ -0,0 +1,537 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  salonAppointments,
+  salonAppointmentItems,
+  bookings,
+  customers,
+  services,
+} from "@shared/schema";
+import { eq, and, desc, asc, sql, isNull, gte, lte, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString, timeString, timeToMinutes, addDays } from "../../utils/time-of-day";
+import { planSequence, findFirstAvailable, type ItemRequest, type PlannedItem } from "./scheduler";
+import { loadDayContext, loadServiceSpecs } from "./day-context";
+
+export const salonAppointmentsRouter = Router();
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type AppointmentStatus = "pending" | "confirmed" | "completed" | "cancelled";
+
+const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+const MAX_SEARCH_DAYS = 30;
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]).optional(),
+  customerId: z.string().optional(),
+  staffId: z.string().optional(),
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+});
+
+const itemRequestSchema = z.object({
+  serviceId: z.string().min(1),
+  staffId: z.string().optional(),
+  resourceId: z.string().optional(),
+});
+
+const createAppointmentSchema = z.object({
+  customerId: z.string().min(1),
+  appointmentDate: dateString,
+  startTime: timeString,
+  notes: z.string().optional(),
+  items: z.array(itemRequestSchema).min(1).max(10),
+});
+
+const availabilitySearchSchema = z.object({
+  fromDate: dateString,
+  days: z.number().int().min(1).max(MAX_SEARCH_DAYS).default(7),
+  earliestTime: timeString.optional(),
+  stepMinutes: z.number().int().min(5).max(60).default(15),
+  items: z.array(itemRequestSchema).min(1).max(10),
+});
+
+const rescheduleSchema = z.object({
+  appointmentDate: dateString,
+  startTime: timeString,
+});
+
+const statusUpdateSchema = z.object({
+  status: z.enum(["pending", "confirmed", "completed", "cancelled"]),
+  reason: z.string().optional(),
+});
+
+export class SalonSchedulingConflictError extends Error {
+  constructor(public conflicts: string[]) {
+    super("Requested time is not available");
+    this.name = "SalonSchedulingConflictError";
+  }
+}
+
+async function buildItemRequests(tenantId: string, items: z.infer<typeof itemRequestSchema>[]): Promise<ItemRequest[]> {
+  const specs = await loadServiceSpecs(tenantId, Array.from(new Set(items.map(i => i.serviceId))));
+  return items.map(item => {
+    const service = specs.get(item.serviceId);
+    if (!service) {
+      throw new Error(`Service ${item.serviceId} not found or inactive`);
+    }
+    return { service, staffId: item.staffId, resourceId: item.resourceId };
+  });
+}
+
+function lockDay(tx: Transaction, tenantId: string, date: string) {
+  return tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`salon:${tenantId}:${date}`}))`);
+}
+
+/**
+ * Writes the planned items and mirrors each one into the core `bookings`
+ * table so the generic booking list, reminders and revenue stats see them.
+ */
+async function insertItems(
+  tx: Transaction,
+  appointment: typeof salonAppointments.$inferSelect,
+  planned: PlannedItem[]
+) {
+  const rows = [];
+  for (const item of planned) {
+    const [booking] = await tx.insert(bookings).values({
+      tenantId: appointment.tenantId,
+      customerId: appointment.customerId,
+      serviceId: item.serviceId,
+      bookingDate: appointment.appointmentDate,
+      startTime: item.startTime,
+      endTime: item.endTime,
+      status: appointment.status,
+      amount: item.price,
+      notes: appointment.notes,
+      createdBy: appointment.createdBy,
+    }).returning();
+
+    const [row] = await tx.insert(salonAppointmentItems).values({
+      tenantId: appointment.tenantId,
+      appointmentId: appointment.id,
+      bookingId: booking.id,
+      ...item,
+    }).returning();
+    rows.push(row);
+  }
+  return rows;
+}
+
+function sumPrices(planned: PlannedItem[]): string {
+  return planned.reduce((sum, item) => sum + parseFloat(item.price || "0"), 0).toFixed(2);
+}
+
+function respondWithError(res: Response, error: any) {
+  if (error instanceof SalonSchedulingConflictError) {
+    return res.status(409).json({ message: error.message, conflicts: error.conflicts });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+salonAppointmentsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortOrder, status, customerId, staffId, dateFrom, dateTo } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(salonAppointments.tenantId, tenantId), isNull(salonAppointments.deletedAt)];
+
+    if (status) {
+      conditions.push(eq(salonAppointments.status, status));
+    }
+
+    if (customerId) {
+      conditions.push(eq(salonAppointments.customerId, customerId));
+    }
+
+    if (staffId) {
+      conditions.push(sql`EXISTS (SELECT 1 FROM ${salonAppointmentItems} WHERE ${salonAppointmentItems.appointmentId} = ${salonAppointments.id} AND ${salonAppointmentItems.staffId} = ${staffId})`);
+    }
+
+    if (dateFrom) {
+      conditions.push(gte(salonAppointments.appointmentDate, dateFrom));
+    }
+
+    if (dateTo) {
+      conditions.push(lte(salonAppointments.appointmentDate, dateTo));
+    }
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [rows, countResult] = await Promise.all([
+      db.select({ appointment: salonAppointments, customerName: customers.name })
+        .from(salonAppointments)
+        .leftJoin(customers, eq(salonAppointments.customerId, customers.id))
+        .where(and(...conditions))
+        .orderBy(orderFn(salonAppointments.appointmentDate), orderFn(salonAppointments.startTime))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(salonAppointments)
+        .where(and(...conditions)),
+    ]);
+
+    const appointmentIds = rows.map(r => r.appointment.id);
+    const items = appointmentIds.length > 0
+      ? await db.select({ item: salonAppointmentItems, serviceName: services.name })
+        .from(salonAppointmentItems)
+        .leftJoin(services, eq(salonAppointmentItems.serviceId, services.id))
+        .where(inArray(salonAppointmentItems.appointmentId, appointmentIds))
+        .orderBy(asc(salonAppointmentItems.sequence))
+      : [];
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(r => ({
+        ...r.appointment,
+        customerName: r.customerName,
+        items: items
+          .filter(i => i.item.appointmentId === r.appointment.id)
+          .map(i => ({ ...i.item, serviceName: i.serviceName })),
+      })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonAppointmentsRouter.post("/availability", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = availabilitySearchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { fromDate, days, earliestTime, stepMinutes, items } = parsed.data;
+    const requests = await buildItemRequests(tenantId, items);
+
+    const now = new Date();
+    const today = now.toISOString().split("T")[0];
+    const nowMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+
+    for (let offset = 0; offset < days; offset++) {
+      const date = addDays(fromDate, offset);
+      if (date < today) continue;
+
+      const ctx = await loadDayContext(tenantId, date);
+      const notBefore = Math.max(
+        offset === 0 && earliestTime ? timeToMinutes(earliestTime) : 0,
+        date === today ? nowMinutes : 0
+      );
+
+      const plan = findFirstAvailable(requests, ctx, { stepMinutes, notBefore });
+      if (plan && plan.ok) {
+        return res.json({ available: true, appointmentDate: date, ...plan });
+      }
+    }
+
+    res.json({ available: false, searchedFrom: fromDate, searchedDays: days });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonAppointmentsRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [appointment] = await db.select()
+      .from(salonAppointments)
+      .where(and(eq(salonAppointments.id, id), eq(salonAppointments.tenantId, isolation.getTenantId()), isNull(salonAppointments.deletedAt)));
+
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    const items = await db.select({ item: salonAppointmentItems, serviceName: services.name })
+      .from(salonAppointmentItems)
+      .leftJoin(services, eq(salonAppointmentItems.serviceId, services.id))
+      .where(eq(salonAppointmentItems.appointmentId, id))
+      .orderBy(asc(salonAppointmentItems.sequence));
+
+    res.json({ ...appointment, items: items.map(i => ({ ...i.item, serviceName: i.serviceName })) });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonAppointmentsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = createAppointmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const { customerId, appointmentDate, startTime, notes, items } = parsed.data;
+
+    const [customer] = await db.select({ id: customers.id })
+      .from(customers)
+      .where(and(eq(customers.id, customerId), eq(customers.tenantId, tenantId), isNull(customers.deletedAt)));
+
+    if (!customer) {
+      return res.status(400).json({ message: "Customer not found" });
+    }
+
+    const requests = await buildItemRequests(tenantId, items);
+
+    const result = await db.transaction(async (tx) => {
+      await lockDay(tx, tenantId, appointmentDate);
+
+      const ctx = await loadDayContext(tenantId, appointmentDate, { executor: tx });
+      const plan = planSequence(timeToMinutes(startTime), requests, ctx);
+      if (!plan.ok) {
+        throw new SalonSchedulingConflictError(plan.conflicts);
+      }
+
+      const [appointment] = await tx.insert(salonAppointments).values({
+        tenantId,
+        customerId,
+        appointmentDate,
+        startTime: plan.startTime,
+        endTime: plan.endTime,
+        totalAmount: sumPrices(plan.items),
+        notes,
+        createdBy: req.context?.user?.id,
+      }).returning();
+
+      const itemRows = await insertItems(tx, appointment, plan.items);
+      return { ...appointment, items: itemRows };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "salon_appointment",
+      resourceId: result.id,
+      metadata: { customerId, appointmentDate, startTime: result.startTime, services: items.length },
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    respondWithError(res, error);
+  }
+});
+
+salonAppointmentsRouter.patch("/:id/reschedule", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const parsed = rescheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [existing] = await db.select()
+      .from(salonAppointments)
+      .where(and(eq(salonAppointments.id, id), eq(salonAppointments.tenantId, tenantId), isNull(salonAppointments.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    if (existing.status === "completed" || existing.status === "cancelled") {
+      return res.status(400).json({ message: `Cannot reschedule a ${existing.status} appointment` });
+    }
+
+    const currentItems = await db.select()
+      .from(salonAppointmentItems)
+      .where(eq(salonAppointmentItems.appointmentId, id))
+      .orderBy(asc(salonAppointmentItems.sequence));
+
+    // Keep the same services and stylists; let the planner re-pick resources
+    const requests = await buildItemRequests(tenantId, currentItems.map(i => ({
+      serviceId: i.serviceId,
+      staffId: i.staffId,
+    })));
+
+    const { appointmentDate, startTime } = parsed.data;
+
+    const updated = await db.transaction(async (tx) => {
+      await lockDay(tx, tenantId, appointmentDate);
+      if (appointmentDate !== existing.appointmentDate) {
+        await lockDay(tx, tenantId, existing.appointmentDate);
+      }
+
+      const ctx = await loadDayContext(tenantId, appointmentDate, { executor: tx, excludeAppointmentId: id });
+      const plan = planSequence(timeToMinutes(startTime), requests, ctx);
+      if (!plan.ok) {
+        throw new SalonSchedulingConflictError(plan.conflicts);
+      }
+
+      const [appointment] = await tx.update(salonAppointments)
+        .set({
+          appointmentDate,
+          startTime: plan.startTime,
+          endTime: plan.endTime,
+          totalAmount: sumPrices(plan.items),
+          updatedAt: new Date(),
+        })
+        .where(eq(salonAppointments.id, id))
+        .returning();
+
+      const bookingIds = currentItems.map(i => i.bookingId).filter((b): b is string => !!b);
+      await tx.delete(salonAppointmentItems).where(eq(salonAppointmentItems.appointmentId, id));
+      if (bookingIds.length > 0) {
+        await tx.delete(bookings).where(and(eq(bookings.tenantId, tenantId), inArray(bookings.id, bookingIds)));
+      }
+
+      const itemRows = await insertItems(tx, appointment, plan.items);
+      return { ...appointment, items: itemRows };
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "salon_appointment",
+      resourceId: id,
+      metadata: {
+        rescheduled: {
+          from: { date: existing.appointmentDate, startTime: existing.startTime },
+          to: { date: appointmentDate, startTime: updated.startTime },
+        },
+      },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    respondWithError(res, error);
+  }
+});
+
+salonAppointmentsRouter.patch("/:id/status", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { id } = req.params;
+
+    const parsed = statusUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [existing] = await db.select()
+      .from(salonAppointments)
+      .where(and(eq(salonAppointments.id, id), eq(salonAppointments.tenantId, tenantId), isNull(salonAppointments.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    const from = (existing.status || "pending") as AppointmentStatus;
+    const to = parsed.data.status;
+
+    if (!STATUS_TRANSITIONS[from].includes(to)) {
+      return res.status(400).json({
+        message: `Invalid status transition from ${from} to ${to}`,
+        allowedTransitions: STATUS_TRANSITIONS[from],
+      });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const cancelling = to === "cancelled";
+
+      const [appointment] = await tx.update(salonAppointments)
+        .set({
+          status: to,
+          cancelledAt: cancelling ? new Date() : existing.cancelledAt,
+          cancelReason: cancelling ? parsed.data.reason ?? null : existing.cancelReason,
+          updatedAt: new Date(),
+        })
+        .where(eq(salonAppointments.id, id))
+        .returning();
+
+      const items = await tx.select({ bookingId: salonAppointmentItems.bookingId })
+        .from(salonAppointmentItems)
+        .where(eq(salonAppointmentItems.appointmentId, id));
+      const bookingIds = items.map(i => i.bookingId).filter((b): b is string => !!b);
+
+      if (bookingIds.length > 0) {
+        await tx.update(bookings)
+          .set({
+            status: to,
+            cancelledAt: cancelling ? new Date() : undefined,
+            cancelledBy: cancelling ? req.context?.user?.id : undefined,
+            cancelReason: cancelling ? parsed.data.reason : undefined,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(bookings.tenantId, tenantId), inArray(bookings.id, bookingIds)));
+      }
+
+      if (to === "completed") {
+        await tx.update(customers)
+          .set({
+            visitCount: sql`COALESCE(${customers.visitCount}, 0) + 1`,
+            totalSpent: sql`COALESCE(${customers.totalSpent}, 0) + ${appointment.totalAmount ?? "0"}`,
+            lastVisitAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(customers.id, appointment.customerId), eq(customers.tenantId, tenantId)));
+      }
+
+      return appointment;
+    });
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "salon_appointment",
+      resourceId: id,
+      metadata: { statusChange: { from, to }, reason: parsed.data.reason },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,138 @@
+import { db } from "../../db";
+import {
+  services,
+  tenantStaff,
+  salonStylistSchedules,
+  salonResources,
+  salonAppointments,
+  salonAppointmentItems,
+} from "@shared/schema";
+import { eq, and, inArray, isNull, ne } from "drizzle-orm";
+import { z } from "zod";
+import { dateString, weeklyScheduleSchema, windowsForDate, timeToMinutes } from "../../utils/time-of-day";
+import type { DayContext, ServiceSpec } from "./scheduler";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const stylistScheduleSchema = z.object({
+  schedule: weeklyScheduleSchema.default({}),
+  blockedDates: z.array(dateString).default([]),
+  serviceIds: z.array(z.string()).default([]),
+  isBookable: z.boolean().default(true),
+});
+
+export type StylistScheduleInput = z.infer<typeof stylistScheduleSchema>;
+
+export function parseStylistSchedule(row: { schedule: unknown; blockedDates: unknown; serviceIds: unknown; isBookable: boolean | null }): StylistScheduleInput {
+  const parsed = stylistScheduleSchema.safeParse({
+    schedule: row.schedule ?? {},
+    blockedDates: row.blockedDates ?? [],
+    serviceIds: row.serviceIds ?? [],
+    isBookable: row.isBookable ?? true,
+  });
+  return parsed.success ? parsed.data : stylistScheduleSchema.parse({ isBookable: false });
+}
+
+export async function loadServiceSpecs(tenantId: string, serviceIds: string[], executor: Executor = db): Promise<Map<string, ServiceSpec>> {
+  if (serviceIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await executor.select()
+    .from(services)
+    .where(and(
+      eq(services.tenantId, tenantId),
+      inArray(services.id, serviceIds),
+      isNull(services.deletedAt),
+      eq(services.isActive, true)
+    ));
+
+  return new Map(rows.map(s => [s.id, {
+    id: s.id,
+    name: s.name,
+    duration: s.duration,
+    bufferMinutes: s.bufferMinutes ?? 0,
+    cleanupMinutes: s.cleanupMinutes ?? 0,
+    requiredResourceType: s.requiredResourceType,
+    price: s.price,
+  }]));
+}
+
+/**
+ * Loads stylist shifts, resources and existing calendar blocks for one day.
+ * Pass `excludeAppointmentId` when re-planning an existing appointment so it
+ * does not conflict with itself.
+ */
+export async function loadDayContext(
+  tenantId: string,
+  date: string,
+  options: { excludeAppointmentId?: string; executor?: Executor } = {}
+): Promise<DayContext> {
+  const executor = options.executor ?? db;
+
+  const [scheduleRows, resourceRows, itemRows] = await Promise.all([
+    executor.select({
+      staffId: salonStylistSchedules.staffId,
+      schedule: salonStylistSchedules.schedule,
+      blockedDates: salonStylistSchedules.blockedDates,
+      serviceIds: salonStylistSchedules.serviceIds,
+      isBookable: salonStylistSchedules.isBookable,
+    })
+      .from(salonStylistSchedules)
+      .innerJoin(tenantStaff, eq(salonStylistSchedules.staffId, tenantStaff.id))
+      .where(and(
+        eq(salonStylistSchedules.tenantId, tenantId),
+        eq(salonStylistSchedules.isBookable, true),
+        eq(tenantStaff.status, "active")
+      )),
+
+    executor.select({ id: salonResources.id, type: salonResources.type })
+      .from(salonResources)
+      .where(and(
+        eq(salonResources.tenantId, tenantId),
+        eq(salonResources.isActive, true),
+        isNull(salonResources.deletedAt)
+      )),
+
+    executor.select({
+      staffId: salonAppointmentItems.staffId,
+      resourceId: salonAppointmentItems.resourceId,
+      blockedFrom: salonAppointmentItems.blockedFrom,
+      blockedUntil: salonAppointmentItems.blockedUntil,
+    })
+      .from(salonAppointmentItems)
+      .innerJoin(salonAppointments, eq(salonAppointmentItems.appointmentId, salonAppointments.id))
+      .where(and(
+        eq(salonAppointments.tenantId, tenantId),
+        eq(salonAppointments.appointmentDate, date),
+        ne(salonAppointments.status, "cancelled"),
+        isNull(salonAppointments.deletedAt),
+        options.excludeAppointmentId ? ne(salonAppointments.id, options.excludeAppointmentId) : undefined
+      )),
+  ]);
+
+  return {
+    stylists: scheduleRows.map(row => {
+      const parsed = parseStylistSchedule(row);
+      return {
+        staffId: row.staffId,
+        windows: windowsForDate(parsed.schedule, parsed.blockedDates, date),
+        serviceIds: parsed.serviceIds,
+      };
+    }),
+    resources: resourceRows,
+    staffBusy: itemRows.map(i => ({
+      ownerId: i.staffId,
+      from: timeToMinutes(i.blockedFrom),
+      until: timeToMinutes(i.blockedUntil),
+    })),
+    resourceBusy: itemRows
+      .filter(i => i.resourceId)
+      .map(i => ({
+        ownerId: i.resourceId!,
+        from: timeToMinutes(i.blockedFrom),
+        until: timeToMinutes(i.blockedUntil),
+      })),
+  };
+}
@@ -1,118 +1,111 @@
 /**
  * Salon/Spa Module
- * 
+ *
  * Appointment and service management for salons:
- * - Service catalog with pricing
- * - Staff scheduling
- * - Customer appointments
- * - Package and membership plans
- * 
+ * - Service catalog with duration, buffer and cleanup times
+ * - Stylist weekly calendars and per-day availability
+ * - Chair/room resources assigned per service
+ * - Multi-service appointments with different stylists per service,
+ *   conflict detection and next-available slot search
+ *
  * @module server/core/salon
  */
 
 import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { customers, services, bookings, salonAppointments, salonStylistSchedules, tenantStaff, customerMemberships } from "@shared/schema";
+import { eq, and, sql, isNull } from "drizzle-orm";
 import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
-import { z } from "zod";
+import { salonServicesRouter } from "./services";
+import { salonStylistsRouter } from "./stylists";
+import { salonResourcesRouter } from "./resources";
+import { salonAppointmentsRouter } from "./appointments";
 
 export const salonRouter = Router();
 
-const baseMiddleware = [
+const middleware = [
   authenticateHybrid(),
   tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
 ];
 
-const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
-const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
-
-const paginationSchema = z.object({
-  page: z.coerce.number().min(1).default(1),
-  limit: z.coerce.number().min(1).max(100).default(20),
-  search: z.string().optional(),
-  status: z.string().optional(),
-});
-
-salonRouter.get("/services", ...staffMiddleware, async (req: Request, res: Response) => {
+async function getDashboardStats(req: Request, res: Response) {
   try {
     const tenantId = req.context?.tenant?.id;
     if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
 
-salonRouter.post("/services", ...managerMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const today = new Date().toISOString().split("T")[0];
+    const now = new Date();
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split("T")[0];
 
-salonRouter.get("/staff", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+    const [clientCount, serviceCounts, staffCount, appointmentCounts, revenueResult, memberCount] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(customers)
+        .where(and(eq(customers.tenantId, tenantId), isNull(customers.deletedAt))),
 
-salonRouter.get("/appointments", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
-    const query = paginationSchema.parse(req.query);
-    res.json({
-      data: [],
-      pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
-    });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({
+        total: sql<number>`count(*)::int`,
+        active: sql<number>`count(*) FILTER (WHERE ${services.isActive} = true)::int`,
+      })
+        .from(services)
+        .where(and(eq(services.tenantId, tenantId), isNull(services.deletedAt))),
 
-salonRouter.post("/appointments", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    res.status(201).json({ id: crypto.randomUUID(), ...req.body, tenantId });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
-  }
-});
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(salonStylistSchedules)
+        .innerJoin(tenantStaff, eq(salonStylistSchedules.staffId, tenantStaff.id))
+        .where(and(
+          eq(salonStylistSchedules.tenantId, tenantId),
+          eq(salonStylistSchedules.isBookable, true),
+          eq(tenantStaff.status, "active")
+        )),
+
+      db.select({
+        today: sql<number>`count(*) FILTER (WHERE ${salonAppointments.appointmentDate} = ${today} AND ${salonAppointments.status} <> 'cancelled')::int`,
+        pending: sql<number>`count(*) FILTER (WHERE ${salonAppointments.status} = 'pending' AND ${salonAppointments.appointmentDate} >= ${today})::int`,
+      })
+        .from(salonAppointments)
+        .where(and(eq(salonAppointments.tenantId, tenantId), isNull(salonAppointments.deletedAt))),
+
+      // Salon appointment items are mirrored into bookings, so this covers both
+      db.select({ total: sql<string>`COALESCE(SUM(${bookings.amount}), 0)` })
+        .from(bookings)
+        .where(and(
+          eq(bookings.tenantId, tenantId),
+          eq(bookings.status, "completed"),
+          sql`${bookings.bookingDate} >= ${startOfMonth}`,
+          isNull(bookings.deletedAt)
+        )),
+
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(customerMemberships)
+        .where(and(eq(customerMemberships.tenantId, tenantId), eq(customerMemberships.status, "active"))),
+    ]);
 
-salonRouter.get("/dashboard", ...staffMiddleware, async (req: Request, res: Response) => {
-  try {
-    const tenantId = req.context?.tenant?.id;
-    if (!tenantId) return res.status(403).json({ message: "Tenant context required" });
-    
     res.json({
-      totalServices: 0,
-      totalStaff: 0,
-      todayAppointments: 0,
-      pendingAppointments: 0,
-      totalRevenue: 0,
-      activeMembers: 0,
+      totalClients: clientCount[0]?.count || 0,
+      totalServices: serviceCounts[0]?.total || 0,
+      activeServices: serviceCounts[0]?.active || 0,
+      totalStaff: staffCount[0]?.count || 0,
+      todayAppointments: appointmentCounts[0]?.today || 0,
+      pendingAppointments: appointmentCounts[0]?.pending || 0,
+      monthlyRevenue: parseFloat(revenueResult[0]?.total || "0"),
+      activeMembers: memberCount[0]?.count || 0,
     });
-  } catch (error: any) {
-    res.status(400).json({ message: error.message });
+  } catch (error) {
+    console.error("[salon/dashboard] Error:", error);
+    res.status(500).json({ message: "Failed to fetch dashboard stats" });
   }
-});
+}
+
+salonRouter.get("/dashboard", ...middleware, getDashboardStats);
+salonRouter.get("/stats", ...middleware, getDashboardStats);
+
+salonRouter.use("/services", salonServicesRouter);
+salonRouter.use("/stylists", salonStylistsRouter);
+salonRouter.use("/resources", salonResourcesRouter);
+salonRouter.use("/appointments", salonAppointmentsRouter);
+
+export { salonServicesRouter, salonStylistsRouter, salonResourcesRouter, salonAppointmentsRouter };
 
 export default salonRouter;
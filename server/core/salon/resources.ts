@@ -0,0 +1,154 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { salonResources, insertSalonResourceSchema } from "@shared/schema";
+import { eq, and, asc, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const salonResourcesRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const listQuerySchema = z.object({
+  type: z.enum(["chair", "room", "wash_station", "bed", "other"]).optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+});
+
+salonResourcesRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const { type, status } = listQuerySchema.parse(req.query);
+    const conditions = [eq(salonResources.tenantId, tenantId), isNull(salonResources.deletedAt)];
+
+    if (type) {
+      conditions.push(eq(salonResources.type, type));
+    }
+
+    if (status) {
+      conditions.push(eq(salonResources.isActive, status === "active"));
+    }
+
+    const data = await db.select()
+      .from(salonResources)
+      .where(and(...conditions))
+      .orderBy(asc(salonResources.type), asc(salonResources.name));
+
+    res.json(data);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonResourcesRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = insertSalonResourceSchema.safeParse({ ...req.body, tenantId });
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [resource] = await db.insert(salonResources).values(parsed.data).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "salon_resource",
+      resourceId: resource.id,
+      metadata: { name: resource.name, type: resource.type },
+    });
+
+    res.status(201).json(resource);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonResourcesRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(salonResources)
+      .where(and(eq(salonResources.id, id), eq(salonResources.tenantId, isolation.getTenantId()), isNull(salonResources.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Resource not found" });
+    }
+
+    const parsed = insertSalonResourceSchema.partial().omit({ tenantId: true }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(salonResources)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(salonResources.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "salon_resource",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonResourcesRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(salonResources)
+      .where(and(eq(salonResources.id, id), eq(salonResources.tenantId, isolation.getTenantId()), isNull(salonResources.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Resource not found" });
+    }
+
+    await db.update(salonResources)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(salonResources.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "salon_resource",
+      resourceId: id,
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,197 @@
+import { timeToMinutes, minutesToTime, type WorkingWindow } from "../../utils/time-of-day";
+
+/**
+ * Salon appointment planner.
+ *
+ * Lays out a sequence of services back-to-back from a start time, assigning a
+ * stylist (and a chair/room when the service needs one) to each. Stylists and
+ * resources are blocked for the service plus its buffer before and cleanup
+ * after. All inputs are plain data for a single day so the planner can be unit
+ * tested; loading that data is done by `loadDayContext`.
+ */
+
+export interface ServiceSpec {
+  id: string;
+  name: string;
+  duration: number;
+  bufferMinutes: number;
+  cleanupMinutes: number;
+  requiredResourceType: string | null;
+  price: string;
+}
+
+export interface StylistCalendar {
+  staffId: string;
+  windows: WorkingWindow[];
+  // Empty means the stylist performs every service
+  serviceIds: string[];
+}
+
+export interface ResourceSpec {
+  id: string;
+  type: string;
+}
+
+export interface BusyBlock {
+  ownerId: string;
+  from: number;
+  until: number;
+}
+
+export interface DayContext {
+  stylists: StylistCalendar[];
+  resources: ResourceSpec[];
+  staffBusy: BusyBlock[];
+  resourceBusy: BusyBlock[];
+}
+
+export interface ItemRequest {
+  service: ServiceSpec;
+  staffId?: string;
+  resourceId?: string;
+}
+
+export interface PlannedItem {
+  sequence: number;
+  serviceId: string;
+  staffId: string;
+  resourceId: string | null;
+  startTime: string;
+  endTime: string;
+  blockedFrom: string;
+  blockedUntil: string;
+  price: string;
+}
+
+export type PlanResult =
+  | { ok: true; startTime: string; endTime: string; items: PlannedItem[] }
+  | { ok: false; conflicts: string[] };
+
+const DAY_MINUTES = 24 * 60;
+
+function overlaps(from: number, until: number, block: BusyBlock): boolean {
+  return from < block.until && block.from < until;
+}
+
+function canPerform(stylist: StylistCalendar, serviceId: string): boolean {
+  return stylist.serviceIds.length === 0 || stylist.serviceIds.includes(serviceId);
+}
+
+function isWorking(stylist: StylistCalendar, start: number, end: number): boolean {
+  return stylist.windows.some(w => start >= timeToMinutes(w.start) && end <= timeToMinutes(w.end));
+}
+
+/**
+ * Plans the requested services consecutively from `startMinutes`. Each item
+ * starts when the previous one ends; a different stylist may take over.
+ */
+export function planSequence(startMinutes: number, requests: ItemRequest[], ctx: DayContext): PlanResult {
+  const planned: PlannedItem[] = [];
+  const plannedStaff: BusyBlock[] = [];
+  const plannedResources: BusyBlock[] = [];
+  const conflicts: string[] = [];
+  let cursor = startMinutes;
+
+  requests.forEach((request, index) => {
+    const { service } = request;
+    const start = cursor;
+    const end = start + service.duration;
+    const blockedFrom = Math.max(0, start - service.bufferMinutes);
+    const blockedUntil = Math.min(DAY_MINUTES - 1, end + service.cleanupMinutes);
+    cursor = end;
+
+    if (end > DAY_MINUTES - 1) {
+      conflicts.push(`${service.name}: runs past the end of the day`);
+      return;
+    }
+
+    const candidates = ctx.stylists.filter(s =>
+      (request.staffId ? s.staffId === request.staffId : true) && canPerform(s, service.id)
+    );
+
+    // Back-to-back services for the same customer do not need buffer time between them
+    const stylist = candidates.find(s =>
+      isWorking(s, start, end)
+      && !ctx.staffBusy.some(b => b.ownerId === s.staffId && overlaps(blockedFrom, blockedUntil, b))
+      && !plannedStaff.some(b => b.ownerId === s.staffId && overlaps(start, end, b))
+    );
+
+    if (!stylist) {
+      conflicts.push(request.staffId
+        ? `${service.name}: requested stylist is not available`
+        : `${service.name}: no stylist available`);
+      return;
+    }
+
+    let resourceId: string | null = null;
+    if (service.requiredResourceType || request.resourceId) {
+      const resource = ctx.resources.find(r =>
+        (request.resourceId ? r.id === request.resourceId : r.type === service.requiredResourceType)
+        && !ctx.resourceBusy.some(b => b.ownerId === r.id && overlaps(blockedFrom, blockedUntil, b))
+        && !plannedResources.some(b => b.ownerId === r.id && overlaps(blockedFrom, blockedUntil, b))
+      );
+
+      if (!resource) {
+        conflicts.push(`${service.name}: no ${service.requiredResourceType ?? "resource"} available`);
+        return;
+      }
+      resourceId = resource.id;
+      plannedResources.push({ ownerId: resource.id, from: blockedFrom, until: blockedUntil });
+    }
+
+    plannedStaff.push({ ownerId: stylist.staffId, from: start, until: end });
+    planned.push({
+      sequence: index,
+      serviceId: service.id,
+      staffId: stylist.staffId,
+      resourceId,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(end),
+      blockedFrom: minutesToTime(blockedFrom),
+      blockedUntil: minutesToTime(blockedUntil),
+      price: service.price,
+    });
+  });
+
+  if (conflicts.length > 0) {
+    return { ok: false, conflicts };
+  }
+
+  return {
+    ok: true,
+    startTime: planned[0].startTime,
+    endTime: planned[planned.length - 1].endTime,
+    items: planned,
+  };
+}
+
+/**
+ * Scans the day in `stepMinutes` increments from the earliest stylist shift
+ * (or `notBefore`, whichever is later) and returns the first start time at
+ * which the whole sequence fits.
+ */
+export function findFirstAvailable(
+  requests: ItemRequest[],
+  ctx: DayContext,
+  options: { stepMinutes?: number; notBefore?: number } = {}
+): PlanResult | null {
+  const step = options.stepMinutes ?? 15;
+  const windows = ctx.stylists.flatMap(s => s.windows);
+  if (windows.length === 0 || requests.length === 0) {
+    return null;
+  }
+
+  const dayStart = Math.min(...windows.map(w => timeToMinutes(w.start)));
+  const dayEnd = Math.max(...windows.map(w => timeToMinutes(w.end)));
+  const notBefore = options.notBefore ?? 0;
+  let cursor = Math.max(dayStart, Math.ceil(notBefore / step) * step);
+
+  for (; cursor < dayEnd; cursor += step) {
+    const plan = planSequence(cursor, requests, ctx);
+    if (plan.ok) {
+      return plan;
+    }
+  }
+
+  return null;
+}
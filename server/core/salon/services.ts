@@ -0,0 +1,226 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { services, insertServiceSchema } from "@shared/schema";
+import { eq, and, desc, asc, sql, ilike, or, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+
+export const salonServicesRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  sortBy: z.enum(["createdAt", "name", "price", "sortOrder"]).default("sortOrder"),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  search: z.string().optional(),
+  category: z.string().optional(),
+  status: z.enum(["active", "inactive"]).optional(),
+});
+
+const serviceSchema = insertServiceSchema.extend({
+  duration: z.number().int().min(5).max(720),
+  bufferMinutes: z.number().int().min(0).max(120).optional(),
+  cleanupMinutes: z.number().int().min(0).max(120).optional(),
+  requiredResourceType: z.enum(["chair", "room", "wash_station", "bed", "other"]).nullable().optional(),
+});
+
+salonServicesRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, sortBy, sortOrder, search, category, status } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(services.tenantId, tenantId), isNull(services.deletedAt)];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(services.name, `%${search}%`),
+          ilike(services.description, `%${search}%`)
+        )!
+      );
+    }
+
+    if (category) {
+      conditions.push(eq(services.category, category));
+    }
+
+    if (status) {
+      conditions.push(eq(services.isActive, status === "active"));
+    }
+
+    const orderColumn = {
+      createdAt: services.createdAt,
+      name: services.name,
+      price: services.price,
+      sortOrder: services.sortOrder,
+    }[sortBy];
+
+    const orderFn = sortOrder === "asc" ? asc : desc;
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(services)
+        .where(and(...conditions))
+        .orderBy(orderFn(orderColumn), asc(services.name))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(services)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonServicesRouter.get("/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [service] = await db.select()
+      .from(services)
+      .where(and(eq(services.id, id), eq(services.tenantId, isolation.getTenantId()), isNull(services.deletedAt)));
+
+    if (!service) {
+      return res.status(404).json({ message: "Service not found" });
+    }
+
+    res.json(service);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonServicesRouter.post("/", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+
+    const parsed = serviceSchema.safeParse({
+      ...req.body,
+      tenantId,
+      createdBy: req.context?.user?.id,
+    });
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [service] = await db.insert(services).values(parsed.data).returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "service",
+      resourceId: service.id,
+      metadata: { name: service.name, duration: service.duration },
+    });
+
+    res.status(201).json(service);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonServicesRouter.patch("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(services)
+      .where(and(eq(services.id, id), eq(services.tenantId, isolation.getTenantId()), isNull(services.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Service not found" });
+    }
+
+    const updateSchema = serviceSchema.partial().omit({ tenantId: true, createdBy: true });
+    const parsed = updateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [updated] = await db.update(services)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(services.id, id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "service",
+      resourceId: id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(updated);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonServicesRouter.delete("/:id", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { id } = req.params;
+
+    const [existing] = await db.select()
+      .from(services)
+      .where(and(eq(services.id, id), eq(services.tenantId, isolation.getTenantId()), isNull(services.deletedAt)));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Service not found" });
+    }
+
+    await db.update(services)
+      .set({ deletedAt: new Date(), isActive: false })
+      .where(eq(services.id, id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "service",
+      resourceId: id,
+      metadata: { name: existing.name },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
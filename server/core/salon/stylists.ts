@@ -0,0 +1,229 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import { tenantStaff, salonStylistSchedules, salonAppointments, salonAppointmentItems, services } from "@shared/schema";
+import { eq, and, asc, sql, ilike, or, isNull, ne } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString, windowsForDate } from "../../utils/time-of-day";
+import { stylistScheduleSchema, parseStylistSchedule } from "./day-context";
+
+export const salonStylistsRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+
+const paginationSchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  search: z.string().optional(),
+  bookable: z.enum(["true", "false"]).optional(),
+});
+
+const calendarQuerySchema = z.object({
+  date: dateString,
+});
+
+async function findActiveStaff(tenantId: string, staffId: string) {
+  const [member] = await db.select()
+    .from(tenantStaff)
+    .where(and(eq(tenantStaff.id, staffId), eq(tenantStaff.tenantId, tenantId), ne(tenantStaff.status, "inactive")));
+  return member;
+}
+
+salonStylistsRouter.get("/", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tenantId = req.context?.tenant?.id;
+    if (!tenantId) {
+      return res.status(403).json({ message: "Tenant context required" });
+    }
+
+    const query = paginationSchema.parse(req.query);
+    const { page, limit, search, bookable } = query;
+    const offset = (page - 1) * limit;
+
+    const conditions = [eq(tenantStaff.tenantId, tenantId), eq(tenantStaff.status, "active")];
+
+    if (search) {
+      conditions.push(
+        or(
+          ilike(tenantStaff.fullName, `%${search}%`),
+          ilike(tenantStaff.jobTitle, `%${search}%`)
+        )!
+      );
+    }
+
+    if (bookable === "true") {
+      conditions.push(eq(salonStylistSchedules.isBookable, true));
+    } else if (bookable === "false") {
+      conditions.push(or(isNull(salonStylistSchedules.id), eq(salonStylistSchedules.isBookable, false))!);
+    }
+
+    const [rows, countResult] = await Promise.all([
+      db.select({
+        id: tenantStaff.id,
+        fullName: tenantStaff.fullName,
+        aliasName: tenantStaff.aliasName,
+        jobTitle: tenantStaff.jobTitle,
+        email: tenantStaff.email,
+        phone: tenantStaff.phone,
+        scheduleId: salonStylistSchedules.id,
+        schedule: salonStylistSchedules.schedule,
+        blockedDates: salonStylistSchedules.blockedDates,
+        serviceIds: salonStylistSchedules.serviceIds,
+        isBookable: salonStylistSchedules.isBookable,
+      })
+        .from(tenantStaff)
+        .leftJoin(salonStylistSchedules, eq(salonStylistSchedules.staffId, tenantStaff.id))
+        .where(and(...conditions))
+        .orderBy(asc(tenantStaff.fullName))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(tenantStaff)
+        .leftJoin(salonStylistSchedules, eq(salonStylistSchedules.staffId, tenantStaff.id))
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+
+    res.json({
+      data: rows.map(({ scheduleId, schedule, blockedDates, serviceIds, isBookable, ...member }) => ({
+        ...member,
+        isBookable: scheduleId ? isBookable : false,
+        schedule: scheduleId ? parseStylistSchedule({ schedule, blockedDates, serviceIds, isBookable }) : null,
+      })),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonStylistsRouter.get("/:staffId/schedule", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const { staffId } = req.params;
+
+    const member = await findActiveStaff(isolation.getTenantId(), staffId);
+    if (!member) {
+      return res.status(404).json({ message: "Stylist not found" });
+    }
+
+    const [row] = await db.select()
+      .from(salonStylistSchedules)
+      .where(and(eq(salonStylistSchedules.tenantId, isolation.getTenantId()), eq(salonStylistSchedules.staffId, staffId)));
+
+    res.json({
+      staffId,
+      fullName: member.fullName,
+      ...(row ? parseStylistSchedule(row) : stylistScheduleSchema.parse({ isBookable: false })),
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonStylistsRouter.put("/:staffId/schedule", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { staffId } = req.params;
+
+    const member = await findActiveStaff(tenantId, staffId);
+    if (!member) {
+      return res.status(404).json({ message: "Stylist not found" });
+    }
+
+    const parsed = stylistScheduleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const [saved] = await db.insert(salonStylistSchedules)
+      .values({ tenantId, staffId, ...parsed.data })
+      .onConflictDoUpdate({
+        target: [salonStylistSchedules.tenantId, salonStylistSchedules.staffId],
+        set: { ...parsed.data, updatedAt: new Date() },
+      })
+      .returning();
+
+    await auditService.logAsync({
+      tenantId,
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "salon_stylist_schedule",
+      resourceId: saved.id,
+      metadata: { staffId, isBookable: parsed.data.isBookable },
+    });
+
+    res.json(saved);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+salonStylistsRouter.get("/:staffId/calendar", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const tenantId = isolation.getTenantId();
+    const { staffId } = req.params;
+    const { date } = calendarQuerySchema.parse(req.query);
+
+    const member = await findActiveStaff(tenantId, staffId);
+    if (!member) {
+      return res.status(404).json({ message: "Stylist not found" });
+    }
+
+    const [scheduleRow, items] = await Promise.all([
+      db.select()
+        .from(salonStylistSchedules)
+        .where(and(eq(salonStylistSchedules.tenantId, tenantId), eq(salonStylistSchedules.staffId, staffId)))
+        .then(rows => rows[0]),
+      db.select({
+        appointmentId: salonAppointments.id,
+        customerId: salonAppointments.customerId,
+        status: salonAppointments.status,
+        itemId: salonAppointmentItems.id,
+        serviceId: salonAppointmentItems.serviceId,
+        serviceName: services.name,
+        resourceId: salonAppointmentItems.resourceId,
+        startTime: salonAppointmentItems.startTime,
+        endTime: salonAppointmentItems.endTime,
+        blockedFrom: salonAppointmentItems.blockedFrom,
+        blockedUntil: salonAppointmentItems.blockedUntil,
+      })
+        .from(salonAppointmentItems)
+        .innerJoin(salonAppointments, eq(salonAppointmentItems.appointmentId, salonAppointments.id))
+        .leftJoin(services, eq(salonAppointmentItems.serviceId, services.id))
+        .where(and(
+          eq(salonAppointmentItems.tenantId, tenantId),
+          eq(salonAppointmentItems.staffId, staffId),
+          eq(salonAppointments.appointmentDate, date),
+          ne(salonAppointments.status, "cancelled"),
+          isNull(salonAppointments.deletedAt)
+        ))
+        .orderBy(asc(salonAppointmentItems.startTime)),
+    ]);
+
+    const schedule = scheduleRow ? parseStylistSchedule(scheduleRow) : null;
+
+    res.json({
+      staffId,
+      date,
+      workingHours: schedule ? windowsForDate(schedule.schedule, schedule.blockedDates, date) : [],
+      appointments: items,
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
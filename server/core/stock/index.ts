@@ -0,0 +1,16 @@
+/**
+ * Multi-warehouse Stock
+ *
+ * Where inventory items are held, and in which lots:
+ * - Warehouses and locations, with a default for unlocated stock
+ * - Batch, serial number and expiry tracking with FEFO picking
+ * - Inter-warehouse transfers with stock held in transit
+ * - FIFO or weighted-average stock valuation
+ * - Cycle counts with variance adjustments and reporting
+ *
+ * @module server/core/stock
+ */
+
+export * from "./lots";
+export { stockService } from "./stock-service";
+export { stockRouter } from "./stock-routes";
@@ -0,0 +1,233 @@
+import { round2 } from "../../utils/money";
+import { daysBetween } from "../../utils/time-of-day";
+/**
+ * Lot-level stock rules: which lots to pick from (first expiry, first out),
+ * what a receipt must carry for batch-, serial- and expiry-tracked items,
+ * how stock is valued, and what a cycle count's variances add up to.
+ * Dates are ISO calendar dates (YYYY-MM-DD).
+ */
+
+export const TRACKING_MODES = ["none", "batch", "serial"] as const;
+export type TrackingMode = typeof TRACKING_MODES[number];
+
+export const VALUATION_METHODS = ["fifo", "weighted_average"] as const;
+export type ValuationMethod = typeof VALUATION_METHODS[number];
+
+export const MOVEMENT_TYPES = ["receipt", "issue", "transfer_out", "transfer_in", "adjustment", "cycle_count"] as const;
+export type MovementType = typeof MOVEMENT_TYPES[number];
+
+// Inventory transaction types a receipt or issue may be recorded as
+export const RECEIPT_TYPES = ["purchase", "return", "production", "receipt"] as const;
+export const ISSUE_TYPES = ["sale", "consumption", "damage", "expired", "issue"] as const;
+
+export const DOCUMENT_PREFIXES = {
+  transfer: "TRF",
+  cycle_count: "CC",
+} as const;
+
+export class StockError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "StockError";
+  }
+}
+
+export function documentNumber(document: keyof typeof DOCUMENT_PREFIXES, sequence: number): string {
+  return `${DOCUMENT_PREFIXES[document]}-${String(sequence).padStart(6, "0")}`;
+}
+
+export interface TrackedItem {
+  name: string;
+  trackingMode: TrackingMode;
+  tracksExpiry: boolean;
+}
+
+export interface LotIdentity {
+  batchNumber: string | null;
+  serialNumber: string | null;
+  expiryDate: string | null;
+  quantity: number;
+}
+
+/**
+ * Splits a receipt into the lots it creates, checking it carries what the
+ * item is tracked by: a batch number, one serial number per unit, and an
+ * expiry date. Serial-tracked stock is held one unit per lot.
+ */
+export function receiptLots(
+  item: TrackedItem,
+  receipt: { quantity: number; batchNumber?: string | null; serialNumbers?: string[]; expiryDate?: string | null },
+): LotIdentity[] {
+  if (!Number.isInteger(receipt.quantity) || receipt.quantity <= 0) {
+    throw new StockError(400, "Quantity must be a positive whole number");
+  }
+  if (item.tracksExpiry && !receipt.expiryDate) {
+    throw new StockError(400, `${item.name} needs an expiry date`);
+  }
+  const expiryDate = receipt.expiryDate ?? null;
+  const batchNumber = receipt.batchNumber ?? null;
+
+  if (item.trackingMode === "serial") {
+    const serials = receipt.serialNumbers ?? [];
+    if (serials.length !== receipt.quantity) {
+      throw new StockError(400, `${item.name} needs one serial number per unit: ${receipt.quantity} expected, ${serials.length} given`);
+    }
+    if (new Set(serials).size !== serials.length) {
+      throw new StockError(400, "Serial numbers must be unique");
+    }
+    return serials.map((serialNumber) => ({ batchNumber, serialNumber, expiryDate, quantity: 1 }));
+  }
+
+  if (receipt.serialNumbers?.length) {
+    throw new StockError(400, `${item.name} is not tracked by serial number`);
+  }
+  if (item.trackingMode === "batch" && !batchNumber) {
+    throw new StockError(400, `${item.name} needs a batch number`);
+  }
+  return [{ batchNumber, serialNumber: null, expiryDate, quantity: receipt.quantity }];
+}
+
+export interface PickableLot {
+  id: string;
+  quantity: number;
+  expiryDate: string | null;
+  receivedAt: Date;
+}
+
+export function isExpired(lot: { expiryDate: string | null }, asOf: string): boolean {
+  return lot.expiryDate !== null && lot.expiryDate < asOf;
+}
+
+// First expiry, first out; lots without an expiry go last, oldest receipt first
+export function pickOrder<T extends PickableLot>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiryDate !== b.expiryDate) {
+      if (a.expiryDate === null) return 1;
+      if (b.expiryDate === null) return -1;
+      return a.expiryDate < b.expiryDate ? -1 : 1;
+    }
+    return a.receivedAt.getTime() - b.receivedAt.getTime();
+  });
+}
+
+/**
+ * Chooses lots to take `quantity` units from in FEFO order. Expired lots
+ * are only picked when asked for, as when writing off expired stock.
+ */
+export function pickLots(
+  lots: PickableLot[],
+  quantity: number,
+  asOf: string,
+  options: { includeExpired?: boolean } = {},
+): Array<{ lotId: string; quantity: number }> {
+  const available = pickOrder(lots.filter((lot) => lot.quantity > 0 && (options.includeExpired || !isExpired(lot, asOf))));
+  const picks: Array<{ lotId: string; quantity: number }> = [];
+  let remaining = quantity;
+  for (const lot of available) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    picks.push({ lotId: lot.id, quantity: take });
+    remaining -= take;
+  }
+  if (remaining > 0) {
+    const onHand = quantity - remaining;
+    throw new StockError(409, `Only ${onHand} of ${quantity} available to pick`);
+  }
+  return picks;
+}
+
+// Average unit cost after a receipt, weighting what is on hand against what arrived
+export function movingAverageCost(onHand: number, currentCost: number, received: number, receivedCost: number): number {
+  const total = Math.max(onHand, 0) + received;
+  if (total <= 0) return receivedCost;
+  return round2((Math.max(onHand, 0) * currentCost + received * receivedCost) / total);
+}
+
+export interface ValuationLot {
+  itemId: string;
+  warehouseId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ValuationRow {
+  itemId: string;
+  warehouseId: string;
+  quantity: number;
+  unitCost: number;
+  value: number;
+}
+
+/**
+ * Values stock on hand per item and warehouse. FIFO values each remaining
+ * lot at what it cost to receive; weighted average values every unit of
+ * an item at the item's running average cost.
+ */
+export function valuate(
+  lots: ValuationLot[],
+  method: ValuationMethod,
+  averageCosts: Map<string, number>,
+): { rows: ValuationRow[]; totalQuantity: number; totalValue: number } {
+  const rows = new Map<string, ValuationRow>();
+  for (const lot of lots) {
+    if (lot.quantity <= 0) continue;
+    const key = `${lot.itemId}:${lot.warehouseId}`;
+    const row = rows.get(key) ?? { itemId: lot.itemId, warehouseId: lot.warehouseId, quantity: 0, unitCost: 0, value: 0 };
+    const unitCost = method === "fifo" ? lot.unitCost : averageCosts.get(lot.itemId) ?? lot.unitCost;
+    row.quantity += lot.quantity;
+    row.value = round2(row.value + lot.quantity * unitCost);
+    row.unitCost = round2(row.value / row.quantity);
+    rows.set(key, row);
+  }
+
+  const list = Array.from(rows.values());
+  return {
+    rows: list,
+    totalQuantity: list.reduce((sum, row) => sum + row.quantity, 0),
+    totalValue: round2(list.reduce((sum, row) => sum + row.value, 0)),
+  };
+}
+
+export interface CountLine {
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  unitCost: number;
+}
+
+export interface CountVarianceSummary {
+  lines: number;
+  counted: number;
+  withVariance: number;
+  // Share of counted lines that matched the system quantity
+  accuracyPercent: number;
+  netUnits: number;
+  gainValue: number;
+  lossValue: number;
+  netValue: number;
+}
+
+export function lineVariance(line: CountLine): { units: number; value: number } | null {
+  if (line.countedQuantity === null) return null;
+  const units = line.countedQuantity - line.expectedQuantity;
+  return { units, value: round2(units * line.unitCost) };
+}
+
+export function summarizeCount(lines: CountLine[]): CountVarianceSummary {
+  const variances = lines.map(lineVariance).filter((variance): variance is { units: number; value: number } => variance !== null);
+  const withVariance = variances.filter((variance) => variance.units !== 0);
+  return {
+    lines: lines.length,
+    counted: variances.length,
+    withVariance: withVariance.length,
+    accuracyPercent: variances.length ? round2(((variances.length - withVariance.length) / variances.length) * 100) : 0,
+    netUnits: variances.reduce((sum, variance) => sum + variance.units, 0),
+    gainValue: round2(withVariance.filter((variance) => variance.value > 0).reduce((sum, variance) => sum + variance.value, 0)),
+    lossValue: round2(withVariance.filter((variance) => variance.value < 0).reduce((sum, variance) => sum - variance.value, 0)),
+    netValue: round2(variances.reduce((sum, variance) => sum + variance.value, 0)),
+  };
+}
+
+// Whole days until a lot expires; negative once it has
+export function daysToExpiry(expiryDate: string, asOf: string): number {
+  return daysBetween(asOf, expiryDate);
+}
@@ -0,0 +1,573 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { dateString } from "../../utils/time-of-day";
+import { ISSUE_TYPES, MOVEMENT_TYPES, RECEIPT_TYPES, StockError, TRACKING_MODES, VALUATION_METHODS } from "./lots";
+import { COUNT_STATUSES, TRANSFER_STATUSES, stockService } from "./stock-service";
+
+export const stockRouter = Router();
+
+const baseMiddleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+];
+
+const staffMiddleware = [...baseMiddleware, requireMinimumRole("staff")];
+const managerMiddleware = [...baseMiddleware, requireMinimumRole("manager")];
+const adminMiddleware = [...baseMiddleware, requireMinimumRole("admin")];
+
+const quantity = z.number().int().positive().max(1_000_000_000);
+const serialNumbers = z.array(z.string().trim().min(1).max(100)).max(1000);
+
+const warehouseSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(255),
+  address: z.string().trim().max(2000).nullish(),
+  isDefault: z.boolean().optional(),
+});
+
+const settingsSchema = z.object({
+  valuationMethod: z.enum(VALUATION_METHODS),
+});
+
+const trackingSchema = z.object({
+  trackingMode: z.enum(TRACKING_MODES),
+  tracksExpiry: z.boolean(),
+});
+
+const receiveSchema = z.object({
+  itemId: z.string().min(1),
+  warehouseId: z.string().min(1).optional(),
+  quantity,
+  unitCost: z.number().min(0).max(1_000_000_000).optional(),
+  batchNumber: z.string().trim().min(1).max(100).nullish(),
+  serialNumbers: serialNumbers.optional(),
+  expiryDate: dateString.nullish(),
+  transactionType: z.enum(RECEIPT_TYPES).default("receipt"),
+  notes: z.string().max(2000).nullish(),
+});
+
+const pickSchema = z.object({
+  itemId: z.string().min(1),
+  quantity,
+  lotId: z.string().min(1).optional(),
+  serialNumbers: serialNumbers.optional(),
+});
+
+const issueSchema = pickSchema.extend({
+  warehouseId: z.string().min(1).optional(),
+  transactionType: z.enum(ISSUE_TYPES).default("issue"),
+  notes: z.string().max(2000).nullish(),
+});
+
+const transferSchema = z.object({
+  fromWarehouseId: z.string().min(1),
+  toWarehouseId: z.string().min(1),
+  notes: z.string().max(2000).nullish(),
+  lines: z.array(pickSchema).min(1).max(200),
+});
+
+const openCountSchema = z.object({
+  warehouseId: z.string().min(1),
+  itemIds: z.array(z.string().min(1)).min(1).max(1000).optional(),
+  notes: z.string().max(2000).nullish(),
+});
+
+const recordCountsSchema = z.object({
+  entries: z.array(z.object({
+    lineId: z.string().min(1).optional(),
+    itemId: z.string().min(1).optional(),
+    batchNumber: z.string().trim().min(1).max(100).nullish(),
+    serialNumber: z.string().trim().min(1).max(100).nullish(),
+    expiryDate: dateString.nullish(),
+    countedQuantity: z.number().int().min(0).max(1_000_000_000),
+  }).refine((entry) => entry.lineId || entry.itemId, { message: "Give a count line or an item" })).min(1).max(1000),
+});
+
+const pageSchema = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+};
+
+const lotsQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  itemId: z.string().optional(),
+  includeEmpty: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+});
+
+const summaryQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  itemId: z.string().optional(),
+});
+
+const expiringQuerySchema = z.object({
+  withinDays: z.coerce.number().int().min(0).max(3650).default(30),
+  warehouseId: z.string().optional(),
+});
+
+const valuationQuerySchema = z.object({
+  warehouseId: z.string().optional(),
+  method: z.enum(VALUATION_METHODS).optional(),
+});
+
+const movementsQuerySchema = z.object({
+  itemId: z.string().optional(),
+  warehouseId: z.string().optional(),
+  movementType: z.enum(MOVEMENT_TYPES).optional(),
+  ...pageSchema,
+});
+
+const transfersQuerySchema = z.object({
+  status: z.enum(TRANSFER_STATUSES).optional(),
+  warehouseId: z.string().optional(),
+  ...pageSchema,
+});
+
+const countsQuerySchema = z.object({
+  status: z.enum(COUNT_STATUSES).optional(),
+  warehouseId: z.string().optional(),
+  ...pageSchema,
+});
+
+const varianceQuerySchema = z.object({
+  from: dateString,
+  to: dateString,
+  warehouseId: z.string().optional(),
+});
+
+function sendStockError(res: Response, error: any) {
+  if (error instanceof StockError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  res.status(400).json({ message: error.message });
+}
+
+function paginated<T>(data: T[], total: number, page: number, limit: number) {
+  return { data, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+}
+
+// ==================== WAREHOUSES & SETTINGS ====================
+
+stockRouter.get("/warehouses", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.listWarehouses(isolation.getTenantId(), req.query.includeInactive === "true"));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/warehouses", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = warehouseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const warehouse = await stockService.createWarehouse(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "warehouse",
+      resourceId: warehouse.id,
+    });
+
+    res.status(201).json(warehouse);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.patch("/warehouses/:id", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = warehouseSchema.partial().extend({ isActive: z.boolean().optional() }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const warehouse = await stockService.updateWarehouse(isolation.getTenantId(), req.params.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "warehouse",
+      resourceId: warehouse.id,
+      metadata: { fields: Object.keys(parsed.data) },
+    });
+
+    res.json(warehouse);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/settings", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getSettings(isolation.getTenantId()));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.put("/settings", ...adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const settings = await stockService.updateSettings(isolation.getTenantId(), parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "inventory_settings",
+      resourceId: settings.id,
+      newValue: parsed.data,
+    });
+
+    res.json(settings);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.put("/items/:itemId/tracking", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = trackingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const item = await stockService.setTracking(isolation.getTenantId(), req.params.itemId, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "inventory_item",
+      resourceId: item.id,
+      newValue: parsed.data,
+    });
+
+    res.json(item);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+// ==================== RECEIPTS & ISSUES ====================
+
+stockRouter.post("/receipts", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = receiveSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const result = await stockService.receive(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "stock_receipt",
+      resourceId: result.transaction.id,
+      metadata: { itemId: parsed.data.itemId, quantity: parsed.data.quantity, lots: result.lots.length },
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/issues", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = issueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const result = await stockService.issue(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "stock_issue",
+      resourceId: result.transaction.id,
+      metadata: { itemId: parsed.data.itemId, quantity: parsed.data.quantity, type: parsed.data.transactionType },
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+// ==================== TRANSFERS ====================
+
+stockRouter.get("/transfers", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = transfersQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await stockService.listTransfers(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/transfers/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getTransfer(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/transfers", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = transferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const transfer = await stockService.dispatchTransfer(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "stock_transfer",
+      resourceId: transfer.id,
+      metadata: { transferNumber: transfer.transferNumber, fromWarehouseId: transfer.fromWarehouseId, toWarehouseId: transfer.toWarehouseId },
+    });
+
+    res.status(201).json(transfer);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+for (const path of ["receive", "cancel"] as const) {
+  stockRouter.post(`/transfers/:id/${path}`, ...staffMiddleware, async (req: Request, res: Response) => {
+    try {
+      const isolation = createTenantIsolation(req);
+      const transfer = path === "receive"
+        ? await stockService.receiveTransfer(isolation.getTenantId(), req.context?.user?.id, req.params.id)
+        : await stockService.cancelTransfer(isolation.getTenantId(), req.context?.user?.id, req.params.id);
+
+      await auditService.logAsync({
+        tenantId: isolation.getTenantId(),
+        userId: req.context?.user?.id,
+        action: "update",
+        resource: "stock_transfer",
+        resourceId: transfer.id,
+        metadata: { status: transfer.status },
+      });
+
+      res.json(transfer);
+    } catch (error: any) {
+      sendStockError(res, error);
+    }
+  });
+}
+
+// ==================== CYCLE COUNTS ====================
+
+stockRouter.get("/cycle-counts", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = countsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await stockService.listCounts(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/cycle-counts/:id", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getCount(isolation.getTenantId(), req.params.id));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/cycle-counts", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = openCountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    const cycleCount = await stockService.openCount(isolation.getTenantId(), req.context?.user?.id, parsed.data);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "cycle_count",
+      resourceId: cycleCount.id,
+      metadata: { countNumber: cycleCount.countNumber, lines: cycleCount.lines.length },
+    });
+
+    res.status(201).json(cycleCount);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.put("/cycle-counts/:id/lines", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = recordCountsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.recordCounts(isolation.getTenantId(), req.params.id, req.context?.user?.id, parsed.data.entries));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/cycle-counts/:id/post", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const cycleCount = await stockService.postCount(isolation.getTenantId(), req.params.id, req.context?.user?.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "cycle_count",
+      resourceId: cycleCount.id,
+      metadata: { status: cycleCount.status, netUnits: cycleCount.summary.netUnits, netValue: cycleCount.summary.netValue },
+    });
+
+    res.json(cycleCount);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.post("/cycle-counts/:id/cancel", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const cycleCount = await stockService.cancelCount(isolation.getTenantId(), req.params.id);
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "cycle_count",
+      resourceId: cycleCount.id,
+      metadata: { status: cycleCount.status },
+    });
+
+    res.json(cycleCount);
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+// ==================== STOCK QUERIES & REPORTS ====================
+
+stockRouter.get("/lots", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = lotsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.listLots(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/summary", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = summaryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getStockSummary(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/expiring", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = expiringQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getExpiring(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/movements", ...staffMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = movementsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const { page, limit, ...filters } = parsed.data;
+    const isolation = createTenantIsolation(req);
+    const { data, total } = await stockService.listMovements(isolation.getTenantId(), filters, page, limit);
+    res.json(paginated(data, total, page, limit));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/reports/valuation", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = valuationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getValuation(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
+
+stockRouter.get("/reports/count-variance", ...managerMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = varianceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+    const isolation = createTenantIsolation(req);
+    res.json(await stockService.getVarianceReport(isolation.getTenantId(), parsed.data));
+  } catch (error: any) {
+    sendStockError(res, error);
+  }
+});
@@ -0,0 +1,1057 @@
+import { db } from "../../db";
+import {
+  cycleCountLines,
+  cycleCounts,
+  inventoryItems,
+  inventorySettings,
+  inventoryTransactions,
+  stockLots,
+  stockMovements,
+  stockTransfers,
+  warehouses,
+  type CycleCount,
+  type CycleCountLine,
+  type InventoryItem,
+  type InventorySettings,
+  type InventoryTransaction,
+  type StockLot,
+  type StockMovement,
+  type StockTransfer,
+  type StockTransferLine,
+  type Warehouse,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gte, inArray, isNull, lte, sql, type SQL } from "drizzle-orm";
+import { accountingService } from "../accounting";
+import {
+  StockError,
+  daysToExpiry,
+  documentNumber,
+  isExpired,
+  lineVariance,
+  movingAverageCost,
+  pickLots,
+  receiptLots,
+  summarizeCount,
+  valuate,
+  type CountVarianceSummary,
+  type MovementType,
+  type TrackingMode,
+  type ValuationMethod,
+  type ValuationRow,
+} from "./lots";
+import { amount, round2 } from "../../utils/money";
+import { today } from "../../utils/time-of-day";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const TRANSFER_STATUSES = ["in_transit", "received", "cancelled"] as const;
+export const COUNT_STATUSES = ["open", "posted", "cancelled"] as const;
+
+export interface WarehouseInput {
+  code: string;
+  name: string;
+  address?: string | null;
+  isDefault?: boolean;
+}
+
+export interface Reference {
+  referenceType?: string;
+  referenceId?: string;
+  notes?: string | null;
+}
+
+export interface ReceiveInput extends Reference {
+  itemId: string;
+  // The tenant's default warehouse when not given
+  warehouseId?: string;
+  quantity: number;
+  // The item's cost price when not given
+  unitCost?: number;
+  batchNumber?: string | null;
+  serialNumbers?: string[];
+  expiryDate?: string | null;
+  transactionType?: string;
+}
+
+export interface PickInput {
+  itemId: string;
+  quantity: number;
+  // Take from this lot rather than picking first-expiry-first-out
+  lotId?: string;
+  serialNumbers?: string[];
+}
+
+export interface IssueInput extends PickInput, Reference {
+  warehouseId?: string;
+  transactionType?: string;
+}
+
+export interface TransferInput {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  notes?: string | null;
+  lines: PickInput[];
+}
+
+export interface CountEntry {
+  // An existing count line, or an item found without one
+  lineId?: string;
+  itemId?: string;
+  batchNumber?: string | null;
+  serialNumber?: string | null;
+  expiryDate?: string | null;
+  countedQuantity: number;
+}
+
+export type LotDetail = StockLot & { itemName: string; sku: string | null; warehouseName: string };
+
+class StockService {
+  private async lock(tx: Transaction, tenantId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`stock:${tenantId}`}))`);
+  }
+
+  // Caller must hold the tenant's stock lock
+  private async nextNumber(tx: Transaction, tenantId: string, document: "transfer" | "cycle_count"): Promise<string> {
+    const table = document === "transfer" ? stockTransfers : cycleCounts;
+    const [{ total }] = await tx.select({ total: count() }).from(table).where(eq(table.tenantId, tenantId));
+    return documentNumber(document, total + 1);
+  }
+
+  // ==================== WAREHOUSES ====================
+
+  async listWarehouses(tenantId: string, includeInactive = false): Promise<Warehouse[]> {
+    const conditions: SQL[] = [eq(warehouses.tenantId, tenantId)];
+    if (!includeInactive) conditions.push(eq(warehouses.isActive, true));
+    return db.select().from(warehouses).where(and(...conditions)).orderBy(desc(warehouses.isDefault), asc(warehouses.name));
+  }
+
+  async createWarehouse(tenantId: string, input: WarehouseInput): Promise<Warehouse> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const existing = await tx.select({ id: warehouses.id, code: warehouses.code }).from(warehouses).where(eq(warehouses.tenantId, tenantId));
+      if (existing.some((warehouse) => warehouse.code === input.code)) {
+        throw new StockError(409, `Warehouse code ${input.code} is already in use`);
+      }
+      // The first warehouse is the default whatever was asked for
+      const isDefault = input.isDefault || existing.length === 0;
+      if (isDefault) await tx.update(warehouses).set({ isDefault: false }).where(eq(warehouses.tenantId, tenantId));
+      const [warehouse] = await tx.insert(warehouses).values({ tenantId, ...input, isDefault }).returning();
+      return warehouse;
+    });
+  }
+
+  async updateWarehouse(
+    tenantId: string,
+    id: string,
+    input: Partial<WarehouseInput> & { isActive?: boolean },
+  ): Promise<Warehouse> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const warehouse = await this.findWarehouse(tx, tenantId, id);
+      if (input.code && input.code !== warehouse.code) {
+        const [clash] = await tx.select({ id: warehouses.id }).from(warehouses)
+          .where(and(eq(warehouses.tenantId, tenantId), eq(warehouses.code, input.code)));
+        if (clash) throw new StockError(409, `Warehouse code ${input.code} is already in use`);
+      }
+      if (input.isDefault === false && warehouse.isDefault) {
+        throw new StockError(400, "Make another warehouse the default instead");
+      }
+      if (input.isActive === false) {
+        if (warehouse.isDefault) throw new StockError(400, "The default warehouse cannot be deactivated");
+        const [{ onHand }] = await tx.select({ onHand: sql<number>`COALESCE(SUM(${stockLots.quantity}), 0)::int` })
+          .from(stockLots).where(eq(stockLots.warehouseId, warehouse.id));
+        if (onHand > 0) throw new StockError(409, `${warehouse.name} still holds ${onHand} units`);
+      }
+      if (input.isDefault) {
+        if (input.isActive === false || !warehouse.isActive) throw new StockError(400, "An inactive warehouse cannot be the default");
+        await tx.update(warehouses).set({ isDefault: false }).where(eq(warehouses.tenantId, tenantId));
+      }
+
+      const [updated] = await tx.update(warehouses)
+        .set({ ...input, updatedAt: new Date() })
+        .where(eq(warehouses.id, warehouse.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  private async findWarehouse(executor: Transaction | typeof db, tenantId: string, id: string): Promise<Warehouse> {
+    const [warehouse] = await executor.select().from(warehouses)
+      .where(and(eq(warehouses.tenantId, tenantId), eq(warehouses.id, id)));
+    if (!warehouse) throw new StockError(404, "Warehouse not found");
+    return warehouse;
+  }
+
+  // Tenants that never set up warehouses get a "MAIN" one the first time stock needs a location
+  private async defaultWarehouse(tx: Transaction, tenantId: string): Promise<Warehouse> {
+    const [existing] = await tx.select().from(warehouses)
+      .where(and(eq(warehouses.tenantId, tenantId), eq(warehouses.isDefault, true)));
+    if (existing) return existing;
+    const [created] = await tx.insert(warehouses)
+      .values({ tenantId, code: "MAIN", name: "Main warehouse", isDefault: true })
+      .onConflictDoUpdate({ target: [warehouses.tenantId, warehouses.code], set: { isDefault: true, isActive: true, updatedAt: new Date() } })
+      .returning();
+    return created;
+  }
+
+  private async activeWarehouse(tx: Transaction, tenantId: string, id: string | undefined): Promise<Warehouse> {
+    if (!id) return this.defaultWarehouse(tx, tenantId);
+    const warehouse = await this.findWarehouse(tx, tenantId, id);
+    if (!warehouse.isActive) throw new StockError(400, `${warehouse.name} is inactive`);
+    return warehouse;
+  }
+
+  // ==================== SETTINGS ====================
+
+  async getSettings(tenantId: string, executor: Transaction | typeof db = db): Promise<Pick<InventorySettings, "tenantId" | "valuationMethod">> {
+    const [settings] = await executor.select().from(inventorySettings).where(eq(inventorySettings.tenantId, tenantId));
+    return settings ?? { tenantId, valuationMethod: "fifo" };
+  }
+
+  /**
+   * Switching to weighted average starts each item's running average from
+   * the cost of the lots it holds, so the first receipt averages against
+   * what is actually on the shelf.
+   */
+  async updateSettings(tenantId: string, input: { valuationMethod: ValuationMethod }): Promise<InventorySettings> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const current = await this.getSettings(tenantId, tx);
+      if (input.valuationMethod === "weighted_average" && current.valuationMethod !== "weighted_average") {
+        const averages = await tx.select({
+          itemId: stockLots.itemId,
+          average: sql<string>`SUM(${stockLots.quantity} * ${stockLots.unitCost}) / SUM(${stockLots.quantity})`,
+        })
+          .from(stockLots)
+          .where(and(eq(stockLots.tenantId, tenantId), sql`${stockLots.quantity} > 0`))
+          .groupBy(stockLots.itemId);
+        for (const row of averages) {
+          await tx.update(inventoryItems)
+            .set({ costPrice: String(round2(amount(row.average))), updatedAt: new Date() })
+            .where(eq(inventoryItems.id, row.itemId));
+        }
+      }
+
+      const [settings] = await tx.insert(inventorySettings)
+        .values({ tenantId, valuationMethod: input.valuationMethod })
+        .onConflictDoUpdate({ target: inventorySettings.tenantId, set: { valuationMethod: input.valuationMethod, updatedAt: new Date() } })
+        .returning();
+      return settings;
+    });
+  }
+
+  async setTracking(tenantId: string, itemId: string, input: { trackingMode: TrackingMode; tracksExpiry: boolean }): Promise<InventoryItem> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const item = await this.findItem(tx, tenantId, itemId);
+      if (input.trackingMode === "serial" && item.trackingMode !== "serial" && (item.currentStock ?? 0) > 0) {
+        throw new StockError(409, `${item.name} can only be serial-tracked once its stock is zero`);
+      }
+      const [updated] = await tx.update(inventoryItems)
+        .set({ ...input, updatedAt: new Date() })
+        .where(eq(inventoryItems.id, item.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // ==================== ITEM-LEVEL STOCK ====================
+
+  private async findItem(executor: Transaction | typeof db, tenantId: string, itemId: string): Promise<InventoryItem> {
+    const [item] = await executor.select().from(inventoryItems)
+      .where(and(eq(inventoryItems.tenantId, tenantId), eq(inventoryItems.id, itemId), isNull(inventoryItems.deletedAt)));
+    if (!item) throw new StockError(404, "Inventory item not found");
+    return item;
+  }
+
+  /**
+   * Keeps lots in step with the item's single stock figure, which the
+   * older /api/inventory endpoints still change directly. Stock the lots
+   * don't account for lands in the default warehouse at the item's cost
+   * price; stock they over-count is taken out first-expiry-first-out.
+   * Caller must hold the tenant's stock lock.
+   */
+  private async reconcile(tx: Transaction, tenantId: string, item: InventoryItem): Promise<void> {
+    const [{ onHand }] = await tx.select({ onHand: sql<number>`COALESCE(SUM(${stockLots.quantity}), 0)::int` })
+      .from(stockLots)
+      .where(and(eq(stockLots.tenantId, tenantId), eq(stockLots.itemId, item.id)));
+    const gap = (item.currentStock ?? 0) - onHand;
+    if (gap === 0) return;
+
+    const reference = { referenceType: "untracked_stock", notes: "Brought in line with the item's stock level" };
+    if (gap > 0) {
+      const warehouse = await this.defaultWarehouse(tx, tenantId);
+      const [lot] = await tx.insert(stockLots).values({
+        tenantId,
+        itemId: item.id,
+        warehouseId: warehouse.id,
+        quantity: gap,
+        unitCost: item.costPrice ?? "0",
+      }).returning();
+      await this.recordMovement(tx, tenantId, lot, gap, "adjustment", null, reference, undefined);
+      return;
+    }
+
+    const lots = await tx.select().from(stockLots)
+      .where(and(eq(stockLots.tenantId, tenantId), eq(stockLots.itemId, item.id), sql`${stockLots.quantity} > 0`));
+    for (const pick of pickLots(lots, -gap, today(), { includeExpired: true })) {
+      const lot = await this.moveLot(tx, pick.lotId, -pick.quantity);
+      await this.recordMovement(tx, tenantId, lot, -pick.quantity, "adjustment", null, reference, undefined);
+    }
+  }
+
+  // Reconciles every item whose lots have drifted from its stock level, in one pass
+  private async reconcileTenant(tx: Transaction, tenantId: string, itemIds?: string[]): Promise<void> {
+    const lotTotals = tx.select({
+      itemId: stockLots.itemId,
+      onHand: sql<number>`SUM(${stockLots.quantity})::int`.as("on_hand"),
+    }).from(stockLots).where(eq(stockLots.tenantId, tenantId)).groupBy(stockLots.itemId).as("lot_totals");
+
+    const conditions: SQL[] = [
+      eq(inventoryItems.tenantId, tenantId),
+      isNull(inventoryItems.deletedAt),
+      sql`COALESCE(${inventoryItems.currentStock}, 0) <> COALESCE(${lotTotals.onHand}, 0)`,
+    ];
+    if (itemIds) {
+      if (!itemIds.length) return;
+      conditions.push(inArray(inventoryItems.id, itemIds));
+    }
+    const drifted = await tx.select({ item: inventoryItems })
+      .from(inventoryItems)
+      .leftJoin(lotTotals, eq(lotTotals.itemId, inventoryItems.id))
+      .where(and(...conditions));
+    for (const row of drifted) await this.reconcile(tx, tenantId, row.item);
+  }
+
+  // Brings lots up to date before they are read, only taking the lock when something has drifted
+  private async syncTenant(tenantId: string): Promise<void> {
+    const [drift] = await db.select({ id: inventoryItems.id })
+      .from(inventoryItems)
+      .where(and(
+        eq(inventoryItems.tenantId, tenantId),
+        isNull(inventoryItems.deletedAt),
+        sql`COALESCE(${inventoryItems.currentStock}, 0) <> (
+          SELECT COALESCE(SUM(${stockLots.quantity}), 0) FROM ${stockLots} WHERE ${stockLots.itemId} = ${inventoryItems.id}
+        )`,
+      ))
+      .limit(1);
+    if (!drift) return;
+    await db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      await this.reconcileTenant(tx, tenantId);
+    });
+  }
+
+  // Changes the item's stock level and records the item-level transaction the ledger posts from
+  private async changeItemStock(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    item: InventoryItem,
+    delta: number,
+    type: string,
+    reference: Reference,
+  ): Promise<InventoryTransaction> {
+    const [updated] = await tx.update(inventoryItems)
+      .set({ currentStock: sql`COALESCE(${inventoryItems.currentStock}, 0) + ${delta}`, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, item.id))
+      .returning({ currentStock: inventoryItems.currentStock });
+    const newStock = updated.currentStock ?? delta;
+    const [transaction] = await tx.insert(inventoryTransactions).values({
+      tenantId,
+      itemId: item.id,
+      type,
+      quantity: Math.abs(delta),
+      previousStock: newStock - delta,
+      newStock,
+      referenceType: reference.referenceType ?? null,
+      referenceId: reference.referenceId ?? null,
+      notes: reference.notes ?? null,
+      createdBy: userId,
+    }).returning();
+    return transaction;
+  }
+
+  private async moveLot(tx: Transaction, lotId: string, delta: number): Promise<StockLot> {
+    const [lot] = await tx.update(stockLots)
+      .set({ quantity: sql`${stockLots.quantity} + ${delta}`, updatedAt: new Date() })
+      .where(eq(stockLots.id, lotId))
+      .returning();
+    if (lot.quantity < 0) throw new StockError(409, "Not enough stock in the lot");
+    return lot;
+  }
+
+  private async recordMovement(
+    tx: Transaction,
+    tenantId: string,
+    lot: StockLot,
+    quantity: number,
+    movementType: MovementType,
+    transaction: InventoryTransaction | null,
+    reference: Reference,
+    userId: string | undefined,
+  ): Promise<StockMovement> {
+    const [movement] = await tx.insert(stockMovements).values({
+      tenantId,
+      itemId: lot.itemId,
+      warehouseId: lot.warehouseId,
+      lotId: lot.id,
+      movementType,
+      quantity,
+      unitCost: lot.unitCost,
+      referenceType: reference.referenceType ?? null,
+      referenceId: reference.referenceId ?? null,
+      inventoryTransactionId: transaction?.id ?? null,
+      notes: reference.notes ?? null,
+      createdBy: userId,
+    }).returning();
+    return movement;
+  }
+
+  // ==================== RECEIPTS & ISSUES ====================
+
+  async receive(tenantId: string, userId: string | undefined, input: ReceiveInput): Promise<{ transaction: InventoryTransaction; lots: StockLot[] }> {
+    const result = await db.transaction((tx) => this.receiveInTx(tx, tenantId, userId, input));
+    accountingService.postAsync(tenantId, "inventory_transaction", result.transaction.id);
+    return result;
+  }
+
+  /**
+   * Receives stock into a warehouse as new lots, for callers that already
+   * hold a transaction, such as goods receipts. Under weighted average
+   * valuation the item's cost price moves to the new running average.
+   * The caller posts the returned transaction to the ledger after commit.
+   */
+  async receiveInTx(
+    tx: Transaction,
+    tenantId: string,
+    userId: string | undefined,
+    input: ReceiveInput,
+  ): Promise<{ transaction: InventoryTransaction; lots: StockLot[] }> {
+    await this.lock(tx, tenantId);
+    const item = await this.findItem(tx, tenantId, input.itemId);
+    await this.reconcile(tx, tenantId, item);
+    const warehouse = await this.activeWarehouse(tx, tenantId, input.warehouseId);
+    const identities = receiptLots(item, input);
+
+    const serials = identities.map((lot) => lot.serialNumber).filter((serial): serial is string => serial !== null);
+    if (serials.length) {
+      const [duplicate] = await tx.select({ serialNumber: stockLots.serialNumber }).from(stockLots).where(and(
+        eq(stockLots.tenantId, tenantId),
+        eq(stockLots.itemId, item.id),
+        inArray(stockLots.serialNumber, serials),
+        sql`${stockLots.quantity} > 0`,
+      ));
+      if (duplicate) throw new StockError(409, `Serial number ${duplicate.serialNumber} is already in stock`);
+    }
+
+    const unitCost = input.unitCost ?? amount(item.costPrice);
+    const settings = await this.getSettings(tenantId, tx);
+    if (settings.valuationMethod === "weighted_average") {
+      const average = movingAverageCost(item.currentStock ?? 0, amount(item.costPrice), input.quantity, unitCost);
+      await tx.update(inventoryItems).set({ costPrice: String(average) }).where(eq(inventoryItems.id, item.id));
+    }
+
+    const transaction = await this.changeItemStock(tx, tenantId, userId, item, input.quantity, input.transactionType ?? "receipt", input);
+    const lots: StockLot[] = [];
+    for (const identity of identities) {
+      const [lot] = await tx.insert(stockLots).values({
+        tenantId,
+        itemId: item.id,
+        warehouseId: warehouse.id,
+        ...identity,
+        unitCost: String(unitCost),
+      }).returning();
+      await this.recordMovement(tx, tenantId, lot, lot.quantity, "receipt", transaction, input, userId);
+      lots.push(lot);
+    }
+    return { transaction, lots };
+  }
+
+  // Lots to take a line's quantity from: the named lot, the named serials, or first-expiry-first-out
+  private async choosePicks(
+    tx: Transaction,
+    tenantId: string,
+    item: InventoryItem,
+    warehouse: Warehouse,
+    input: PickInput,
+    includeExpired: boolean,
+  ): Promise<Array<{ lot: StockLot; quantity: number }>> {
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      throw new StockError(400, "Quantity must be a positive whole number");
+    }
+    const lots = await tx.select().from(stockLots).where(and(
+      eq(stockLots.tenantId, tenantId),
+      eq(stockLots.itemId, item.id),
+      eq(stockLots.warehouseId, warehouse.id),
+      sql`${stockLots.quantity} > 0`,
+    ));
+
+    if (input.serialNumbers?.length) {
+      if (input.serialNumbers.length !== input.quantity) {
+        throw new StockError(400, `${input.quantity} serial numbers expected, ${input.serialNumbers.length} given`);
+      }
+      return input.serialNumbers.map((serial) => {
+        const lot = lots.find((candidate) => candidate.serialNumber === serial);
+        if (!lot) throw new StockError(409, `Serial number ${serial} is not in stock at ${warehouse.name}`);
+        return { lot, quantity: 1 };
+      });
+    }
+    if (item.trackingMode === "serial" && !input.lotId) {
+      throw new StockError(400, `${item.name} is serial-tracked; name the serial numbers to take`);
+    }
+
+    if (input.lotId) {
+      const lot = lots.find((candidate) => candidate.id === input.lotId);
+      if (!lot) throw new StockError(404, `Lot not found at ${warehouse.name}`);
+      if (lot.quantity < input.quantity) throw new StockError(409, `Only ${lot.quantity} left in the lot`);
+      if (!includeExpired && isExpired(lot, today())) throw new StockError(409, "The lot has expired");
+      return [{ lot, quantity: input.quantity }];
+    }
+
+    return pickLots(lots, input.quantity, today(), { includeExpired }).map((pick) => ({
+      lot: lots.find((lot) => lot.id === pick.lotId)!,
+      quantity: pick.quantity,
+    }));
+  }
+
+  async issue(tenantId: string, userId: string | undefined, input: IssueInput): Promise<{ transaction: InventoryTransaction; movements: StockMovement[] }> {
+    const result = await db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const item = await this.findItem(tx, tenantId, input.itemId);
+      await this.reconcile(tx, tenantId, item);
+      const warehouse = await this.activeWarehouse(tx, tenantId, input.warehouseId);
+      const type = input.transactionType ?? "issue";
+      const picks = await this.choosePicks(tx, tenantId, item, warehouse, input, type === "expired");
+
+      const transaction = await this.changeItemStock(tx, tenantId, userId, item, -input.quantity, type, input);
+      const movements: StockMovement[] = [];
+      for (const pick of picks) {
+        const lot = await this.moveLot(tx, pick.lot.id, -pick.quantity);
+        movements.push(await this.recordMovement(tx, tenantId, lot, -pick.quantity, "issue", transaction, input, userId));
+      }
+      return { transaction, movements };
+    });
+    accountingService.postAsync(tenantId, "inventory_transaction", result.transaction.id);
+    return result;
+  }
+
+  // ==================== TRANSFERS ====================
+
+  /**
+   * Takes stock out of the source warehouse straight away; it sits in
+   * transit, counted nowhere, until the destination receives it. The
+   * item's total stock doesn't change, so nothing is posted to the ledger.
+   */
+  async dispatchTransfer(tenantId: string, userId: string | undefined, input: TransferInput): Promise<StockTransfer> {
+    if (input.fromWarehouseId === input.toWarehouseId) {
+      throw new StockError(400, "A transfer needs two different warehouses");
+    }
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const from = await this.activeWarehouse(tx, tenantId, input.fromWarehouseId);
+      const to = await this.activeWarehouse(tx, tenantId, input.toWarehouseId);
+
+      const picked: Array<{ lot: StockLot; quantity: number }> = [];
+      for (const line of input.lines) {
+        const item = await this.findItem(tx, tenantId, line.itemId);
+        await this.reconcile(tx, tenantId, item);
+        picked.push(...await this.choosePicks(tx, tenantId, item, from, line, false));
+      }
+      const lines: StockTransferLine[] = picked.map(({ lot, quantity }) => ({
+        itemId: lot.itemId,
+        lotId: lot.id,
+        batchNumber: lot.batchNumber,
+        serialNumber: lot.serialNumber,
+        expiryDate: lot.expiryDate,
+        unitCost: amount(lot.unitCost),
+        quantity,
+      }));
+
+      const [transfer] = await tx.insert(stockTransfers).values({
+        tenantId,
+        transferNumber: await this.nextNumber(tx, tenantId, "transfer"),
+        fromWarehouseId: from.id,
+        toWarehouseId: to.id,
+        lines,
+        notes: input.notes ?? null,
+        dispatchedBy: userId,
+      }).returning();
+
+      const reference = { referenceType: "stock_transfer", referenceId: transfer.id, notes: `${transfer.transferNumber} to ${to.name}` };
+      for (const { lot, quantity } of picked) {
+        const moved = await this.moveLot(tx, lot.id, -quantity);
+        await this.recordMovement(tx, tenantId, moved, -quantity, "transfer_out", null, reference, userId);
+      }
+      return transfer;
+    });
+  }
+
+  // Lands transferred stock as lots at the destination, keeping batch, expiry, cost and receipt date
+  async receiveTransfer(tenantId: string, userId: string | undefined, id: string): Promise<StockTransfer> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const transfer = await this.findTransfer(tx, tenantId, id);
+      if (transfer.status !== "in_transit") throw new StockError(409, `Transfer is ${transfer.status}`);
+      const to = await this.findWarehouse(tx, tenantId, transfer.toWarehouseId);
+
+      const sources = await tx.select({ id: stockLots.id, receivedAt: stockLots.receivedAt }).from(stockLots)
+        .where(inArray(stockLots.id, transfer.lines.map((line) => line.lotId)));
+      const reference = { referenceType: "stock_transfer", referenceId: transfer.id, notes: `${transfer.transferNumber} into ${to.name}` };
+      for (const line of transfer.lines) {
+        const [lot] = await tx.insert(stockLots).values({
+          tenantId,
+          itemId: line.itemId,
+          warehouseId: to.id,
+          batchNumber: line.batchNumber,
+          serialNumber: line.serialNumber,
+          expiryDate: line.expiryDate,
+          quantity: line.quantity,
+          unitCost: String(line.unitCost),
+          receivedAt: sources.find((source) => source.id === line.lotId)?.receivedAt ?? new Date(),
+        }).returning();
+        await this.recordMovement(tx, tenantId, lot, line.quantity, "transfer_in", null, reference, userId);
+      }
+
+      const [updated] = await tx.update(stockTransfers)
+        .set({ status: "received", receivedBy: userId, receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stockTransfers.id, transfer.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Puts in-transit stock back into the lots it was picked from
+  async cancelTransfer(tenantId: string, userId: string | undefined, id: string): Promise<StockTransfer> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const transfer = await this.findTransfer(tx, tenantId, id);
+      if (transfer.status !== "in_transit") throw new StockError(409, `Transfer is ${transfer.status}`);
+
+      const reference = { referenceType: "stock_transfer", referenceId: transfer.id, notes: `${transfer.transferNumber} cancelled` };
+      for (const line of transfer.lines) {
+        const lot = await this.moveLot(tx, line.lotId, line.quantity);
+        await this.recordMovement(tx, tenantId, lot, line.quantity, "transfer_in", null, reference, userId);
+      }
+
+      const [updated] = await tx.update(stockTransfers)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(stockTransfers.id, transfer.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  private async findTransfer(executor: Transaction | typeof db, tenantId: string, id: string): Promise<StockTransfer> {
+    const [transfer] = await executor.select().from(stockTransfers)
+      .where(and(eq(stockTransfers.tenantId, tenantId), eq(stockTransfers.id, id)));
+    if (!transfer) throw new StockError(404, "Transfer not found");
+    return transfer;
+  }
+
+  async getTransfer(tenantId: string, id: string): Promise<StockTransfer> {
+    return this.findTransfer(db, tenantId, id);
+  }
+
+  async listTransfers(
+    tenantId: string,
+    filters: { status?: typeof TRANSFER_STATUSES[number]; warehouseId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: StockTransfer[]; total: number }> {
+    const conditions: SQL[] = [eq(stockTransfers.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(stockTransfers.status, filters.status));
+    if (filters.warehouseId) {
+      conditions.push(sql`(${stockTransfers.fromWarehouseId} = ${filters.warehouseId} OR ${stockTransfers.toWarehouseId} = ${filters.warehouseId})`);
+    }
+    const where = and(...conditions);
+
+    const [data, [{ total }]] = await Promise.all([
+      db.select().from(stockTransfers).where(where)
+        .orderBy(desc(stockTransfers.dispatchedAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(stockTransfers).where(where),
+    ]);
+    return { data, total };
+  }
+
+  // ==================== CYCLE COUNTS ====================
+
+  /**
+   * Opens a count of a warehouse, or of some items in it, snapshotting the
+   * system quantity of every lot so the variance is measured against what
+   * the system believed when counting started.
+   */
+  async openCount(
+    tenantId: string,
+    userId: string | undefined,
+    input: { warehouseId: string; itemIds?: string[]; notes?: string | null },
+  ): Promise<CycleCount & { lines: CycleCountLine[] }> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const warehouse = await this.activeWarehouse(tx, tenantId, input.warehouseId);
+      const [open] = await tx.select({ countNumber: cycleCounts.countNumber }).from(cycleCounts)
+        .where(and(eq(cycleCounts.warehouseId, warehouse.id), eq(cycleCounts.status, "open")));
+      if (open) throw new StockError(409, `${warehouse.name} already has count ${open.countNumber} open`);
+
+      await this.reconcileTenant(tx, tenantId, input.itemIds);
+      const conditions: SQL[] = [eq(stockLots.tenantId, tenantId), eq(stockLots.warehouseId, warehouse.id), sql`${stockLots.quantity} > 0`];
+      if (input.itemIds) conditions.push(inArray(stockLots.itemId, input.itemIds));
+      const lots = await tx.select().from(stockLots).where(and(...conditions)).orderBy(asc(stockLots.itemId), asc(stockLots.receivedAt));
+
+      const [cycleCount] = await tx.insert(cycleCounts).values({
+        tenantId,
+        countNumber: await this.nextNumber(tx, tenantId, "cycle_count"),
+        warehouseId: warehouse.id,
+        notes: input.notes ?? null,
+        createdBy: userId,
+      }).returning();
+
+      const lines = lots.length
+        ? await tx.insert(cycleCountLines).values(lots.map((lot) => ({
+            cycleCountId: cycleCount.id,
+            itemId: lot.itemId,
+            lotId: lot.id,
+            batchNumber: lot.batchNumber,
+            serialNumber: lot.serialNumber,
+            expiryDate: lot.expiryDate,
+            expectedQuantity: lot.quantity,
+            unitCost: lot.unitCost,
+          }))).returning()
+        : [];
+      return { ...cycleCount, lines };
+    });
+  }
+
+  // Records counted quantities; entries without a line are stock found that the system didn't know about
+  async recordCounts(tenantId: string, id: string, userId: string | undefined, entries: CountEntry[]): Promise<CycleCountLine[]> {
+    return db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const cycleCount = await this.findCount(tx, tenantId, id);
+      if (cycleCount.status !== "open") throw new StockError(409, `Count is ${cycleCount.status}`);
+      const lines = await tx.select().from(cycleCountLines).where(eq(cycleCountLines.cycleCountId, cycleCount.id));
+
+      const saved: CycleCountLine[] = [];
+      for (const entry of entries) {
+        if (!Number.isInteger(entry.countedQuantity) || entry.countedQuantity < 0) {
+          throw new StockError(400, "Counted quantity must be a whole number of zero or more");
+        }
+        if (entry.lineId) {
+          const line = lines.find((candidate) => candidate.id === entry.lineId);
+          if (!line) throw new StockError(404, "Count line not found");
+          if (line.serialNumber && entry.countedQuantity > 1) throw new StockError(400, `Serial number ${line.serialNumber} can only be counted once`);
+          const [updated] = await tx.update(cycleCountLines)
+            .set({ countedQuantity: entry.countedQuantity, countedBy: userId, countedAt: new Date() })
+            .where(eq(cycleCountLines.id, line.id))
+            .returning();
+          saved.push(updated);
+          continue;
+        }
+
+        if (!entry.itemId) throw new StockError(400, "A found item needs an item id");
+        const item = await this.findItem(tx, tenantId, entry.itemId);
+        const [identity] = receiptLots(item, {
+          quantity: Math.max(entry.countedQuantity, 1),
+          batchNumber: entry.batchNumber,
+          serialNumbers: entry.serialNumber ? [entry.serialNumber] : undefined,
+          expiryDate: entry.expiryDate,
+        });
+        const [line] = await tx.insert(cycleCountLines).values({
+          cycleCountId: cycleCount.id,
+          itemId: item.id,
+          batchNumber: identity.batchNumber,
+          serialNumber: identity.serialNumber,
+          expiryDate: identity.expiryDate,
+          expectedQuantity: 0,
+          countedQuantity: entry.countedQuantity,
+          unitCost: item.costPrice ?? "0",
+          countedBy: userId,
+          countedAt: new Date(),
+        }).returning();
+        saved.push(line);
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Books each counted line's variance against its lot and the item's
+   * stock level as an adjustment. Lines nobody counted are left alone.
+   */
+  async postCount(tenantId: string, id: string, userId: string | undefined): Promise<CycleCount & { summary: CountVarianceSummary }> {
+    const transactionIds: string[] = [];
+    const result = await db.transaction(async (tx) => {
+      await this.lock(tx, tenantId);
+      const cycleCount = await this.findCount(tx, tenantId, id);
+      if (cycleCount.status !== "open") throw new StockError(409, `Count is ${cycleCount.status}`);
+      const lines = await tx.select().from(cycleCountLines).where(eq(cycleCountLines.cycleCountId, cycleCount.id));
+      const itemIds = Array.from(new Set(lines.map((line) => line.itemId)));
+      await this.reconcileTenant(tx, tenantId, itemIds);
+
+      const reference = { referenceType: "cycle_count", referenceId: cycleCount.id, notes: `Count ${cycleCount.countNumber}` };
+      for (const line of lines) {
+        const variance = lineVariance({ ...line, unitCost: amount(line.unitCost) });
+        if (!variance || variance.units === 0) continue;
+
+        const item = await this.findItem(tx, tenantId, line.itemId);
+        let lot: StockLot;
+        if (line.lotId) {
+          const [current] = await tx.select().from(stockLots).where(eq(stockLots.id, line.lotId));
+          if (current.quantity + variance.units < 0) {
+            throw new StockError(409, `Only ${current.quantity} of ${item.name} left in the counted lot; recount it`);
+          }
+          lot = await this.moveLot(tx, current.id, variance.units);
+        } else {
+          [lot] = await tx.insert(stockLots).values({
+            tenantId,
+            itemId: item.id,
+            warehouseId: cycleCount.warehouseId,
+            batchNumber: line.batchNumber,
+            serialNumber: line.serialNumber,
+            expiryDate: line.expiryDate,
+            quantity: variance.units,
+            unitCost: line.unitCost,
+          }).returning();
+        }
+        const transaction = await this.changeItemStock(tx, tenantId, userId, item, variance.units, "adjustment", reference);
+        await this.recordMovement(tx, tenantId, lot, variance.units, "cycle_count", transaction, reference, userId);
+        transactionIds.push(transaction.id);
+      }
+
+      const [posted] = await tx.update(cycleCounts)
+        .set({ status: "posted", postedBy: userId, postedAt: new Date(), updatedAt: new Date() })
+        .where(eq(cycleCounts.id, cycleCount.id))
+        .returning();
+      return { ...posted, summary: summarizeCount(lines.map((line) => ({ ...line, unitCost: amount(line.unitCost) }))) };
+    });
+
+    for (const transactionId of transactionIds) {
+      accountingService.postAsync(tenantId, "inventory_transaction", transactionId);
+    }
+    return result;
+  }
+
+  async cancelCount(tenantId: string, id: string): Promise<CycleCount> {
+    const cycleCount = await this.findCount(db, tenantId, id);
+    if (cycleCount.status !== "open") throw new StockError(409, `Count is ${cycleCount.status}`);
+    const [updated] = await db.update(cycleCounts)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(cycleCounts.id, cycleCount.id), eq(cycleCounts.status, "open")))
+      .returning();
+    if (!updated) throw new StockError(409, "Count was changed by someone else");
+    return updated;
+  }
+
+  private async findCount(executor: Transaction | typeof db, tenantId: string, id: string): Promise<CycleCount> {
+    const [cycleCount] = await executor.select().from(cycleCounts)
+      .where(and(eq(cycleCounts.tenantId, tenantId), eq(cycleCounts.id, id)));
+    if (!cycleCount) throw new StockError(404, "Cycle count not found");
+    return cycleCount;
+  }
+
+  async listCounts(
+    tenantId: string,
+    filters: { status?: typeof COUNT_STATUSES[number]; warehouseId?: string },
+    page: number,
+    limit: number,
+  ): Promise<{ data: CycleCount[]; total: number }> {
+    const conditions: SQL[] = [eq(cycleCounts.tenantId, tenantId)];
+    if (filters.status) conditions.push(eq(cycleCounts.status, filters.status));
+    if (filters.warehouseId) conditions.push(eq(cycleCounts.warehouseId, filters.warehouseId));
+    const where = and(...conditions);
+
+    const [data, [{ total }]] = await Promise.all([
+      db.select().from(cycleCounts).where(where)
+        .orderBy(desc(cycleCounts.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(cycleCounts).where(where),
+    ]);
+    return { data, total };
+  }
+
+  // A count with its lines' variances in units and value, and the totals
+  async getCount(tenantId: string, id: string): Promise<CycleCount & {
+    lines: Array<CycleCountLine & { itemName: string; varianceUnits: number | null; varianceValue: number | null }>;
+    summary: CountVarianceSummary;
+  }> {
+    const cycleCount = await this.findCount(db, tenantId, id);
+    const rows = await db.select({ line: cycleCountLines, itemName: inventoryItems.name })
+      .from(cycleCountLines)
+      .innerJoin(inventoryItems, eq(inventoryItems.id, cycleCountLines.itemId))
+      .where(eq(cycleCountLines.cycleCountId, cycleCount.id))
+      .orderBy(asc(inventoryItems.name));
+
+    const lines = rows.map(({ line, itemName }) => {
+      const variance = lineVariance({ ...line, unitCost: amount(line.unitCost) });
+      return { ...line, itemName, varianceUnits: variance?.units ?? null, varianceValue: variance?.value ?? null };
+    });
+    return {
+      ...cycleCount,
+      lines,
+      summary: summarizeCount(rows.map(({ line }) => ({ ...line, unitCost: amount(line.unitCost) }))),
+    };
+  }
+
+  /**
+   * Variance across the counts posted in a period, overall and by item, to
+   * show where stock keeps going missing.
+   */
+  async getVarianceReport(tenantId: string, filters: { from: string; to: string; warehouseId?: string }): Promise<{
+    counts: number;
+    summary: CountVarianceSummary;
+    items: Array<{ itemId: string; itemName: string; countedLines: number; netUnits: number; netValue: number }>;
+  }> {
+    const conditions: SQL[] = [
+      eq(cycleCounts.tenantId, tenantId),
+      eq(cycleCounts.status, "posted"),
+      gte(cycleCounts.postedAt, new Date(`${filters.from}T00:00:00.000Z`)),
+      lte(cycleCounts.postedAt, new Date(`${filters.to}T23:59:59.999Z`)),
+    ];
+    if (filters.warehouseId) conditions.push(eq(cycleCounts.warehouseId, filters.warehouseId));
+
+    const rows = await db.select({ cycleCountId: cycleCounts.id, line: cycleCountLines, itemName: inventoryItems.name })
+      .from(cycleCountLines)
+      .innerJoin(cycleCounts, eq(cycleCounts.id, cycleCountLines.cycleCountId))
+      .innerJoin(inventoryItems, eq(inventoryItems.id, cycleCountLines.itemId))
+      .where(and(...conditions));
+
+    const lines = rows.map(({ line }) => ({ ...line, unitCost: amount(line.unitCost) }));
+    const byItem = new Map<string, { itemId: string; itemName: string; countedLines: number; netUnits: number; netValue: number }>();
+    rows.forEach(({ line, itemName }, index) => {
+      const variance = lineVariance(lines[index]);
+      if (!variance) return;
+      const entry = byItem.get(line.itemId) ?? { itemId: line.itemId, itemName, countedLines: 0, netUnits: 0, netValue: 0 };
+      entry.countedLines += 1;
+      entry.netUnits += variance.units;
+      entry.netValue = round2(entry.netValue + variance.value);
+      byItem.set(line.itemId, entry);
+    });
+
+    return {
+      counts: new Set(rows.map((row) => row.cycleCountId)).size,
+      summary: summarizeCount(lines),
+      items: Array.from(byItem.values())
+        .filter((item) => item.netUnits !== 0)
+        .sort((a, b) => a.netValue - b.netValue),
+    };
+  }
+
+  // ==================== STOCK QUERIES ====================
+
+  async listLots(
+    tenantId: string,
+    filters: { warehouseId?: string; itemId?: string; includeEmpty?: boolean },
+  ): Promise<LotDetail[]> {
+    await this.syncTenant(tenantId);
+    const conditions: SQL[] = [eq(stockLots.tenantId, tenantId)];
+    if (filters.warehouseId) conditions.push(eq(stockLots.warehouseId, filters.warehouseId));
+    if (filters.itemId) conditions.push(eq(stockLots.itemId, filters.itemId));
+    if (!filters.includeEmpty) conditions.push(sql`${stockLots.quantity} > 0`);
+
+    const rows = await db.select({ lot: stockLots, itemName: inventoryItems.name, sku: inventoryItems.sku, warehouseName: warehouses.name })
+      .from(stockLots)
+      .innerJoin(inventoryItems, eq(inventoryItems.id, stockLots.itemId))
+      .innerJoin(warehouses, eq(warehouses.id, stockLots.warehouseId))
+      .where(and(...conditions))
+      .orderBy(asc(inventoryItems.name), asc(stockLots.expiryDate), asc(stockLots.receivedAt));
+    return rows.map((row) => ({ ...row.lot, itemName: row.itemName, sku: row.sku, warehouseName: row.warehouseName }));
+  }
+
+  // Stock on hand per item and warehouse
+  async getStockSummary(tenantId: string, filters: { warehouseId?: string; itemId?: string }): Promise<Array<{
+    itemId: string;
+    itemName: string;
+    warehouseId: string;
+    warehouseName: string;
+    quantity: number;
+    lots: number;
+    nextExpiry: string | null;
+  }>> {
+    await this.syncTenant(tenantId);
+    const conditions: SQL[] = [eq(stockLots.tenantId, tenantId), sql`${stockLots.quantity} > 0`];
+    if (filters.warehouseId) conditions.push(eq(stockLots.warehouseId, filters.warehouseId));
+    if (filters.itemId) conditions.push(eq(stockLots.itemId, filters.itemId));
+
+    return db.select({
+      itemId: stockLots.itemId,
+      itemName: inventoryItems.name,
+      warehouseId: stockLots.warehouseId,
+      warehouseName: warehouses.name,
+      quantity: sql<number>`SUM(${stockLots.quantity})::int`,
+      lots: sql<number>`COUNT(*)::int`,
+      nextExpiry: sql<string | null>`MIN(${stockLots.expiryDate})::text`,
+    })
+      .from(stockLots)
+      .innerJoin(inventoryItems, eq(inventoryItems.id, stockLots.itemId))
+      .innerJoin(warehouses, eq(warehouses.id, stockLots.warehouseId))
+      .where(and(...conditions))
+      .groupBy(stockLots.itemId, inventoryItems.name, stockLots.warehouseId, warehouses.name)
+      .orderBy(asc(inventoryItems.name), asc(warehouses.name));
+  }
+
+  // Lots expiring within the window, expired ones included, soonest first
+  async getExpiring(tenantId: string, filters: { withinDays: number; warehouseId?: string }): Promise<Array<LotDetail & { daysToExpiry: number }>> {
+    const asOf = today();
+    const horizon = new Date(Date.parse(`${asOf}T00:00:00Z`) + filters.withinDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const lots = await this.listLots(tenantId, { warehouseId: filters.warehouseId });
+    return lots
+      .filter((lot) => lot.expiryDate !== null && lot.expiryDate <= horizon)
+      .map((lot) => ({ ...lot, daysToExpiry: daysToExpiry(lot.expiryDate!, asOf) }))
+      .sort((a, b) => a.daysToExpiry - b.daysToExpiry);
+  }
+
+  async getValuation(tenantId: string, filters: { warehouseId?: string; method?: ValuationMethod }): Promise<{
+    method: ValuationMethod;
+    rows: Array<ValuationRow & { itemName: string; warehouseName: string }>;
+    totalQuantity: number;
+    totalValue: number;
+  }> {
+    const method = filters.method ?? (await this.getSettings(tenantId)).valuationMethod;
+    const lots = await this.listLots(tenantId, { warehouseId: filters.warehouseId });
+
+    const itemIds = Array.from(new Set(lots.map((lot) => lot.itemId)));
+    const costs = itemIds.length
+      ? await db.select({ id: inventoryItems.id, costPrice: inventoryItems.costPrice }).from(inventoryItems)
+          .where(inArray(inventoryItems.id, itemIds))
+      : [];
+    const result = valuate(
+      lots.map((lot) => ({ itemId: lot.itemId, warehouseId: lot.warehouseId, quantity: lot.quantity, unitCost: amount(lot.unitCost) })),
+      method,
+      new Map(costs.map((item) => [item.id, amount(item.costPrice)])),
+    );
+
+    const names = new Map(lots.map((lot) => [`${lot.itemId}:${lot.warehouseId}`, { itemName: lot.itemName, warehouseName: lot.warehouseName }]));
+    return {
+      method,
+      rows: result.rows.map((row) => ({ ...row, ...names.get(`${row.itemId}:${row.warehouseId}`)! })),
+      totalQuantity: result.totalQuantity,
+      totalValue: result.totalValue,
+    };
+  }
+
+  async listMovements(
+    tenantId: string,
+    filters: { itemId?: string; warehouseId?: string; movementType?: MovementType },
+    page: number,
+    limit: number,
+  ): Promise<{ data: StockMovement[]; total: number }> {
+    const conditions: SQL[] = [eq(stockMovements.tenantId, tenantId)];
+    if (filters.itemId) conditions.push(eq(stockMovements.itemId, filters.itemId));
+    if (filters.warehouseId) conditions.push(eq(stockMovements.warehouseId, filters.warehouseId));
+    if (filters.movementType) conditions.push(eq(stockMovements.movementType, filters.movementType));
+    const where = and(...conditions);
+
+    const [data, [{ total }]] = await Promise.all([
+      db.select().from(stockMovements).where(where)
+        .orderBy(desc(stockMovements.createdAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+      db.select({ total: count() }).from(stockMovements).where(where),
+    ]);
+    return { data, total };
+  }
+}
+
+export const stockService = new StockService();
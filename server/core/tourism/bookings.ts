@@ -9,6 +9,7 @@ import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isol
 import { auditService } from "../audit";
 import { baseFinancialService } from "../../services/base-financial";
 import { sendBookingConfirmation, sendBookingReminder } from "../../services/notification-adapters";
+import { invoiceLedgerService } from "../invoicing";
 
 export const bookingsRouter = Router();
 
@@ -165,6 +166,7 @@ bookingsRouter.post("/", ...middleware, requirePermission("bookings:create"), as
       metadata: { bookingNumber: booking.bookingNumber },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "tourism", booking.id);
     res.status(201).json(booking);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -220,6 +222,7 @@ bookingsRouter.patch("/:id", ...middleware, requirePermission("bookings:update")
       metadata: { changes: Object.keys(parsed.data) },
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "tourism", id);
     res.json(updated);
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -249,6 +252,7 @@ bookingsRouter.delete("/:id", ...middleware, requirePermission("bookings:delete"
       resourceId: id,
     });
 
+    invoiceLedgerService.postAsync(isolation.getTenantId(), "tourism", id);
     res.status(204).send();
   } catch (error: any) {
     res.status(400).json({ message: error.message });
@@ -0,0 +1,126 @@
+/**
+ * FTA Audit File (FAF) export: the company information, purchase listing and
+ * supply listing tables of the FTA's CSV audit file format for a tax period.
+ * The general ledger table is not produced; VAT records here are not posted
+ * to a ledger.
+ */
+
+import type { UaeVatConfiguration, UaeVatInvoice, UaeVatPurchase } from "@shared/schema";
+import { periodPurchases, purchaseAed, purchaseTaxCode, supplyLines } from "./vat-201";
+import { round2 } from "../../utils/money";
+
+export const FAF_VERSION = "FAFv1.0.0";
+export const FAF_PRODUCT_VERSION = "1.0";
+
+function cell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "number" ? value.toFixed(2) : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function row(values: Array<string | number | null | undefined>): string {
+  return values.map(cell).join(",");
+}
+
+// FAF dates are dd/mm/yyyy
+export function fafDate(date: Date | string): string {
+  const iso = typeof date === "string" ? date : date.toISOString().slice(0, 10);
+  const [year, month, day] = iso.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+export function fafFileName(trn: string, periodStart: string, periodEnd: string): string {
+  return `FAF_${trn}_${periodStart.replace(/-/g, "")}_${periodEnd.replace(/-/g, "")}.csv`;
+}
+
+export function buildFtaAuditFile(params: {
+  config: Pick<UaeVatConfiguration, "trn" | "businessNameEn" | "businessNameAr" | "isDesignatedZone">;
+  freeZones: string[];
+  periodStart: string;
+  periodEnd: string;
+  invoices: UaeVatInvoice[];
+  purchases: UaeVatPurchase[];
+  createdAt: Date;
+}): string {
+  const { config, periodStart, periodEnd } = params;
+  const lines: string[] = [];
+
+  lines.push(row(["CompanyInformation"]));
+  lines.push(row(["TaxablePersonNameEn", "TaxablePersonNameAr", "TRN", "TaxAgencyName", "TAN", "TaxAgentName", "TAAN", "PeriodStart", "PeriodEnd", "FAFCreationDate", "ProductVersion", "FAFVersion"]));
+  lines.push(row([
+    config.businessNameEn,
+    config.businessNameAr,
+    config.trn,
+    "", "", "", "",
+    fafDate(periodStart),
+    fafDate(periodEnd),
+    fafDate(params.createdAt),
+    FAF_PRODUCT_VERSION,
+    FAF_VERSION,
+  ]));
+  lines.push("");
+
+  const purchases = periodPurchases(params.purchases, periodStart, periodEnd)
+    .sort((a, b) => a.invoiceDate.getTime() - b.invoiceDate.getTime());
+  let purchaseTotal = 0;
+  let purchaseVatTotal = 0;
+  lines.push(row(["PurchaseListing"]));
+  lines.push(row(["SupplierName", "SupplierTRN", "InvoiceDate", "InvoiceNo", "PermitNo", "TransactionID", "LineNo", "ProductDescription", "PurchaseValueAED", "VATValueAED", "TaxCode", "FCYCode", "PurchaseFCY", "VATFCY"]));
+  for (const purchase of purchases) {
+    const { amount, vat } = purchaseAed(purchase);
+    const foreign = !!purchase.currency && purchase.currency !== "AED";
+    purchaseTotal += amount;
+    purchaseVatTotal += vat;
+    lines.push(row([
+      purchase.supplierName,
+      purchase.supplierTrn,
+      fafDate(purchase.invoiceDate),
+      purchase.invoiceNumber,
+      purchase.customsDeclarationNumber,
+      purchase.id,
+      "1",
+      purchase.description,
+      amount,
+      vat,
+      purchaseTaxCode(purchase),
+      foreign ? purchase.currency : "",
+      foreign ? parseFloat(purchase.taxableAmount) : null,
+      foreign ? parseFloat(purchase.vatAmount) : null,
+    ]));
+  }
+  lines.push(row(["PurchaseTotalAED", "VATTotalAED", "TransactionCountTotal"]));
+  lines.push(row([round2(purchaseTotal), round2(purchaseVatTotal), String(purchases.length)]));
+  lines.push("");
+
+  const supplies = supplyLines(params.invoices, config, params.freeZones, periodStart, periodEnd);
+  let supplyTotal = 0;
+  let supplyVatTotal = 0;
+  lines.push(row(["SupplyListing"]));
+  lines.push(row(["CustomerName", "CustomerTRN", "InvoiceDate", "InvoiceNo", "PermitNo", "TransactionID", "LineNo", "ProductDescription", "SupplyValueAED", "VATValueAED", "TaxCode", "Country", "FCYCode", "SupplyFCY", "VATFCY"]));
+  for (const line of supplies) {
+    const { invoice } = line;
+    supplyTotal += line.amountAed;
+    supplyVatTotal += line.vatAed;
+    lines.push(row([
+      invoice.customerNameEn,
+      invoice.customerTrn,
+      fafDate(invoice.invoiceDate),
+      invoice.invoiceNumber,
+      invoice.referenceNumber,
+      invoice.id,
+      String(line.lineNo),
+      line.description,
+      line.amountAed,
+      line.vatAed,
+      line.taxCode,
+      invoice.isExport ? "" : "AE",
+      line.amountFcy !== null ? invoice.currency : "",
+      line.amountFcy,
+      line.vatFcy,
+    ]));
+  }
+  lines.push(row(["SupplyTotalAED", "VATTotalAED", "TransactionCountTotal"]));
+  lines.push(row([round2(supplyTotal), round2(supplyVatTotal), String(new Set(supplies.map((line) => line.invoice.id)).size)]));
+
+  return lines.join("\r\n") + "\r\n";
+}
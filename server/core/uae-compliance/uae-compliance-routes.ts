@@ -1,6 +1,6 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { uaeComplianceService } from "./uae-compliance-service";
-import { authenticateJWT } from "../auth-middleware";
+import { authenticateJWT, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
 
 const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) =>
@@ -14,11 +14,17 @@ const getTenantId = (req: Request): string | undefined => {
 import {
   insertUaeVatConfigurationSchema,
   insertUaeVatInvoiceSchema,
+  insertUaeVatPurchaseSchema,
   insertTraTemplateSchema,
   insertDataResidencyLogSchema,
   insertUaeComplianceSettingsSchema,
 } from "@shared/schema";
 import { z } from "zod";
+import { fafFileName } from "./fta-audit-file";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format");
+const taxPeriodSchema = z.object({ from: isoDate, to: isoDate })
+  .refine((period) => period.from <= period.to, "from must not be after to");
 
 const router = Router();
 
@@ -188,6 +194,99 @@ router.get(
   }
 );
 
+router.get(
+  "/vat/purchases",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = getTenantId(req);
+      if (!tenantId) {
+        return res.status(400).json({ error: "Tenant ID required" });
+      }
+      const { fromDate, toDate } = req.query;
+      const purchases = await uaeComplianceService.getVatPurchases(tenantId, {
+        fromDate: fromDate ? new Date(fromDate as string) : undefined,
+        toDate: toDate ? new Date(toDate as string) : undefined,
+      });
+      res.json(purchases);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.post(
+  "/vat/purchases",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = getTenantId(req);
+      if (!tenantId) {
+        return res.status(400).json({ error: "Tenant ID required" });
+      }
+      const data = insertUaeVatPurchaseSchema.parse({ ...req.body, tenantId });
+      const purchase = await uaeComplianceService.createVatPurchase(data);
+      res.status(201).json(purchase);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.get(
+  "/vat/returns/vat201",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = getTenantId(req);
+      if (!tenantId) {
+        return res.status(400).json({ error: "Tenant ID required" });
+      }
+      const { from, to } = taxPeriodSchema.parse(req.query);
+      const vat201 = await uaeComplianceService.generateVat201(tenantId, from, to);
+      res.json(vat201);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+router.get(
+  "/vat/audit-file",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const tenantId = getTenantId(req);
+      if (!tenantId) {
+        return res.status(400).json({ error: "Tenant ID required" });
+      }
+      const { from, to } = taxPeriodSchema.parse(req.query);
+      const { trn, csv } = await uaeComplianceService.generateAuditFile(tenantId, from, to);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fafFileName(trn, from, to)}"`);
+      res.send(csv);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation failed", details: error.errors });
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 router.get(
   "/tra/templates",
   authenticateJWT({ required: true }),
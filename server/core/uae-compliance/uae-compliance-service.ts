@@ -1,8 +1,9 @@
 import { db } from "../../db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, gte, lte, or } from "drizzle-orm";
 import {
   uaeVatConfigurations,
   uaeVatInvoices,
+  uaeVatPurchases,
   traTemplates,
   dataResidencyLogs,
   uaeComplianceSettings,
@@ -10,6 +11,8 @@ import {
   type InsertUaeVatConfiguration,
   type UaeVatInvoice,
   type InsertUaeVatInvoice,
+  type UaeVatPurchase,
+  type InsertUaeVatPurchase,
   type TraTemplate,
   type InsertTraTemplate,
   type DataResidencyLog,
@@ -17,6 +20,8 @@ import {
   type UaeComplianceSettings,
   type InsertUaeComplianceSettings,
 } from "@shared/schema";
+import { buildVat201, type Vat201Return } from "./vat-201";
+import { buildFtaAuditFile } from "./fta-audit-file";
 
 const UAE_EMIRATES = {
   "AZ": "Abu Dhabi",
@@ -216,6 +221,12 @@ class UaeComplianceService {
     if (filters?.status) {
       conditions.push(eq(uaeVatInvoices.status, filters.status));
     }
+    if (filters?.fromDate) {
+      conditions.push(gte(uaeVatInvoices.invoiceDate, filters.fromDate));
+    }
+    if (filters?.toDate) {
+      conditions.push(lte(uaeVatInvoices.invoiceDate, filters.toDate));
+    }
 
     const whereClause = conditions.length === 1 ? conditions[0] : and(...conditions);
     return db.select().from(uaeVatInvoices).where(whereClause).orderBy(desc(uaeVatInvoices.createdAt));
@@ -229,6 +240,64 @@ class UaeComplianceService {
     return invoice || null;
   }
 
+  async createVatPurchase(data: InsertUaeVatPurchase): Promise<UaeVatPurchase | null> {
+    if (data.supplierTrn) {
+      const validation = this.validateTrn(data.supplierTrn);
+      if (!validation.valid) {
+        throw new Error(`Invalid supplier TRN: ${validation.error}`);
+      }
+    }
+
+    const [purchase] = await db.insert(uaeVatPurchases).values(data).returning();
+    return purchase;
+  }
+
+  async getVatPurchases(tenantId: string, filters?: { fromDate?: Date; toDate?: Date }): Promise<UaeVatPurchase[]> {
+    const conditions = [eq(uaeVatPurchases.tenantId, tenantId)];
+    if (filters?.fromDate) {
+      conditions.push(gte(uaeVatPurchases.invoiceDate, filters.fromDate));
+    }
+    if (filters?.toDate) {
+      conditions.push(lte(uaeVatPurchases.invoiceDate, filters.toDate));
+    }
+    return db.select().from(uaeVatPurchases).where(and(...conditions)).orderBy(desc(uaeVatPurchases.invoiceDate));
+  }
+
+  private async periodRecords(tenantId: string, periodStart: string, periodEnd: string) {
+    const config = await this.getVatConfiguration(tenantId);
+    if (!config) {
+      throw new Error("VAT configuration not found for tenant");
+    }
+
+    const from = new Date(`${periodStart}T00:00:00.000Z`);
+    const to = new Date(`${periodEnd}T23:59:59.999Z`);
+    // Supplies are reported by tax point, which is the supply date when it differs from the invoice date
+    const [invoices, purchases] = await Promise.all([
+      db.select().from(uaeVatInvoices).where(and(
+        eq(uaeVatInvoices.tenantId, tenantId),
+        or(
+          and(gte(uaeVatInvoices.invoiceDate, from), lte(uaeVatInvoices.invoiceDate, to)),
+          and(gte(uaeVatInvoices.supplyDate, from), lte(uaeVatInvoices.supplyDate, to)),
+        ),
+      )).orderBy(uaeVatInvoices.invoiceDate),
+      this.getVatPurchases(tenantId, { fromDate: from, toDate: to }),
+    ]);
+
+    return { config, freeZones: this.getFreeZones(), periodStart, periodEnd, invoices, purchases };
+  }
+
+  async generateVat201(tenantId: string, periodStart: string, periodEnd: string): Promise<Vat201Return> {
+    return buildVat201(await this.periodRecords(tenantId, periodStart, periodEnd));
+  }
+
+  async generateAuditFile(tenantId: string, periodStart: string, periodEnd: string): Promise<{ trn: string; csv: string }> {
+    const records = await this.periodRecords(tenantId, periodStart, periodEnd);
+    return {
+      trn: records.config.trn,
+      csv: buildFtaAuditFile({ ...records, createdAt: new Date() }),
+    };
+  }
+
   validateTraSenderId(senderId: string): boolean {
     return /^[A-Za-z0-9]{3,11}$/.test(senderId);
   }
@@ -0,0 +1,296 @@
+/**
+ * UAE VAT 201 return figures computed from issued VAT invoices and recorded
+ * purchases, with the supply classification shared by the FTA audit file.
+ */
+
+import type { UaeVatConfiguration, UaeVatInvoice, UaeVatPurchase } from "@shared/schema";
+import { round2 } from "../../utils/money";
+
+// VAT 201 boxes 1a-1g, in the order the form lists the emirates
+export const VAT201_EMIRATE_BOXES = [
+  { box: "1a", emirate: "AZ", name: "Abu Dhabi" },
+  { box: "1b", emirate: "DU", name: "Dubai" },
+  { box: "1c", emirate: "SH", name: "Sharjah" },
+  { box: "1d", emirate: "AJ", name: "Ajman" },
+  { box: "1e", emirate: "UQ", name: "Umm Al Quwain" },
+  { box: "1f", emirate: "RK", name: "Ras Al Khaimah" },
+  { box: "1g", emirate: "FU", name: "Fujairah" },
+] as const;
+
+export type EmirateCode = typeof VAT201_EMIRATE_BOXES[number]["emirate"];
+
+// FAF tax codes: standard rated, zero rated, exempt, reverse charge, out of scope, import
+export type UaeTaxCode = "SR" | "ZR" | "EX" | "RC" | "OS" | "IM";
+
+const EXCLUDED_SALE_STATUSES = ["draft", "cancelled"];
+
+export interface Vat201Line {
+  amount: number;
+  vat: number;
+  adjustment: number;
+}
+
+export interface Vat201Return {
+  trn: string;
+  periodStart: string;
+  periodEnd: string;
+  standardRatedSupplies: Array<{ box: string; emirate: EmirateCode; name: string } & Vat201Line>;
+  touristRefunds: Vat201Line;
+  reverseChargeSupplies: { amount: number; vat: number };
+  zeroRatedSupplies: number;
+  exemptSupplies: number;
+  importedGoods: { amount: number; vat: number };
+  importAdjustments: { amount: number; vat: number };
+  totalSupplies: Vat201Line;
+  standardRatedExpenses: Vat201Line;
+  reverseChargeExpenses: Vat201Line;
+  totalExpenses: Vat201Line;
+  totalDueTax: number;
+  totalRecoverableTax: number;
+  payableTax: number;
+  // Designated zone supplies, reported nowhere on the form
+  outOfScopeSupplies: number;
+}
+
+export interface UaeSupplyLine {
+  invoice: UaeVatInvoice;
+  lineNo: number;
+  description: string;
+  taxCode: UaeTaxCode;
+  // AED values, negative for credit notes
+  amountAed: number;
+  vatAed: number;
+  amountFcy: number | null;
+  vatFcy: number | null;
+}
+
+interface LineItem {
+  description?: string;
+  name?: string;
+  taxableAmount?: number;
+  vatAmount?: number;
+  isZeroRated?: boolean;
+  isExempt?: boolean;
+}
+
+function emptyLine(): Vat201Line {
+  return { amount: 0, vat: 0, adjustment: 0 };
+}
+
+function toAed(value: number, currency: string | null, exchangeRate: string | null): number {
+  if (!currency || currency === "AED") return value;
+  return value * parseFloat(exchangeRate || "1");
+}
+
+/**
+ * Emirate code from a stored emirate, which may be a code ("DU") or a name ("Dubai").
+ */
+export function emirateCode(value: string | null | undefined): EmirateCode | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  const match = VAT201_EMIRATE_BOXES.find((entry) =>
+    entry.emirate.toLowerCase() === normalized || entry.name.toLowerCase() === normalized);
+  return match?.emirate ?? null;
+}
+
+export function taxPointDate(invoice: Pick<UaeVatInvoice, "supplyDate" | "invoiceDate">): Date {
+  return invoice.supplyDate ?? invoice.invoiceDate;
+}
+
+function inPeriod(date: Date, periodStart: string, periodEnd: string): boolean {
+  const iso = date.toISOString().slice(0, 10);
+  return iso >= periodStart && iso <= periodEnd;
+}
+
+/**
+ * Goods moving from a designated zone to another free zone stay outside the
+ * scope of UAE VAT. Services, and goods to the mainland, are taxed normally.
+ */
+export function isDesignatedZoneSupply(
+  invoice: Pick<UaeVatInvoice, "customerFreeZone" | "supplyNature">,
+  config: Pick<UaeVatConfiguration, "isDesignatedZone">,
+  freeZones: string[],
+): boolean {
+  if (!config.isDesignatedZone || !invoice.customerFreeZone) return false;
+  if ((invoice.supplyNature || "goods") !== "goods") return false;
+  return freeZones.some((zone) => zone.toUpperCase() === invoice.customerFreeZone!.trim().toUpperCase());
+}
+
+export function supplyTaxCode(
+  invoice: UaeVatInvoice,
+  item: LineItem,
+  config: Pick<UaeVatConfiguration, "isDesignatedZone">,
+  freeZones: string[],
+): UaeTaxCode {
+  if (isDesignatedZoneSupply(invoice, config, freeZones)) return "OS";
+  if (invoice.isExempt || item.isExempt) return "EX";
+  if (invoice.isExport || invoice.isZeroRated || item.isZeroRated) return "ZR";
+  if (invoice.isReverseCharge) return "RC";
+  return "SR";
+}
+
+/**
+ * Issued invoices in the period, split into lines with their tax code and
+ * AED values. Invoices without line items count as a single line.
+ */
+export function supplyLines(
+  invoices: UaeVatInvoice[],
+  config: Pick<UaeVatConfiguration, "isDesignatedZone">,
+  freeZones: string[],
+  periodStart: string,
+  periodEnd: string,
+): UaeSupplyLine[] {
+  const lines: UaeSupplyLine[] = [];
+  for (const invoice of invoices) {
+    if (EXCLUDED_SALE_STATUSES.includes(invoice.status || "draft")) continue;
+    if (!inPeriod(taxPointDate(invoice), periodStart, periodEnd)) continue;
+
+    const sign = invoice.invoiceType === "credit_note" ? -1 : 1;
+    const items = (invoice.lineItems as LineItem[] | null)?.length
+      ? invoice.lineItems as LineItem[]
+      : [{ taxableAmount: parseFloat(invoice.taxableAmount), vatAmount: parseFloat(invoice.vatAmount) }];
+    const foreign = !!invoice.currency && invoice.currency !== "AED";
+
+    items.forEach((item, index) => {
+      const amount = sign * (item.taxableAmount ?? 0);
+      const vat = sign * (item.vatAmount ?? 0);
+      lines.push({
+        invoice,
+        lineNo: index + 1,
+        description: item.description || item.name || "",
+        taxCode: supplyTaxCode(invoice, item, config, freeZones),
+        amountAed: round2(toAed(amount, invoice.currency, invoice.exchangeRate)),
+        vatAed: round2(toAed(vat, invoice.currency, invoice.exchangeRate)),
+        amountFcy: foreign ? round2(amount) : null,
+        vatFcy: foreign ? round2(vat) : null,
+      });
+    });
+  }
+  return lines;
+}
+
+export function purchaseTaxCode(purchase: Pick<UaeVatPurchase, "isImport" | "isReverseCharge">): UaeTaxCode {
+  if (purchase.isImport) return "IM";
+  if (purchase.isReverseCharge) return "RC";
+  return "SR";
+}
+
+export function periodPurchases(purchases: UaeVatPurchase[], periodStart: string, periodEnd: string): UaeVatPurchase[] {
+  return purchases.filter((purchase) => purchase.status !== "void" && inPeriod(purchase.invoiceDate, periodStart, periodEnd));
+}
+
+export function purchaseAed(purchase: UaeVatPurchase): { amount: number; vat: number } {
+  return {
+    amount: round2(toAed(parseFloat(purchase.taxableAmount), purchase.currency, purchase.exchangeRate)),
+    vat: round2(toAed(parseFloat(purchase.vatAmount), purchase.currency, purchase.exchangeRate)),
+  };
+}
+
+export function buildVat201(params: {
+  config: Pick<UaeVatConfiguration, "trn" | "emirate" | "isDesignatedZone">;
+  freeZones: string[];
+  periodStart: string;
+  periodEnd: string;
+  invoices: UaeVatInvoice[];
+  purchases: UaeVatPurchase[];
+}): Vat201Return {
+  const { config, freeZones, periodStart, periodEnd } = params;
+  const supplierEmirate = emirateCode(config.emirate) ?? "DU";
+
+  const byEmirate = new Map<EmirateCode, Vat201Line>(VAT201_EMIRATE_BOXES.map((entry) => [entry.emirate, emptyLine()]));
+  let zeroRated = 0;
+  let exempt = 0;
+  let outOfScope = 0;
+
+  for (const line of supplyLines(params.invoices, config, freeZones, periodStart, periodEnd)) {
+    const isNote = line.invoice.invoiceType === "credit_note" || line.invoice.invoiceType === "debit_note";
+    switch (line.taxCode) {
+      case "SR":
+      case "RC": {
+        // Standard rated supplies are reported under the customer's emirate, or the supplier's when unknown
+        const target = byEmirate.get(emirateCode(line.invoice.customerEmirate) ?? supplierEmirate)!;
+        if (isNote) {
+          target.adjustment += line.vatAed;
+          target.amount += line.amountAed;
+        } else {
+          target.amount += line.amountAed;
+          target.vat += line.vatAed;
+        }
+        break;
+      }
+      case "ZR":
+        zeroRated += line.amountAed;
+        break;
+      case "EX":
+        exempt += line.amountAed;
+        break;
+      case "OS":
+        outOfScope += line.amountAed;
+        break;
+    }
+  }
+
+  const reverseChargeSupplies = { amount: 0, vat: 0 };
+  const importedGoods = { amount: 0, vat: 0 };
+  const standardRatedExpenses = emptyLine();
+  const reverseChargeExpenses = emptyLine();
+
+  for (const purchase of periodPurchases(params.purchases, periodStart, periodEnd)) {
+    const { amount, vat } = purchaseAed(purchase);
+    const recoverable = purchase.isRecoverable !== false ? vat : 0;
+    const code = purchaseTaxCode(purchase);
+
+    if (code === "SR") {
+      standardRatedExpenses.amount += amount;
+      standardRatedExpenses.vat += recoverable;
+      continue;
+    }
+    // Imports and reverse-charged purchases are due (box 3 or 6) and recoverable (box 10)
+    const due = code === "IM" ? importedGoods : reverseChargeSupplies;
+    due.amount += amount;
+    due.vat += vat;
+    reverseChargeExpenses.amount += amount;
+    reverseChargeExpenses.vat += recoverable;
+  }
+
+  const roundLine = (line: Vat201Line): Vat201Line => ({
+    amount: round2(line.amount),
+    vat: round2(line.vat),
+    adjustment: round2(line.adjustment),
+  });
+
+  const standardRatedSupplies = VAT201_EMIRATE_BOXES.map((entry) => ({ ...entry, ...roundLine(byEmirate.get(entry.emirate)!) }));
+  const sumLines = (lines: Vat201Line[]) => roundLine(lines.reduce(
+    (total, line) => ({ amount: total.amount + line.amount, vat: total.vat + line.vat, adjustment: total.adjustment + line.adjustment }),
+    emptyLine(),
+  ));
+
+  const totalSupplies = sumLines([
+    ...standardRatedSupplies,
+    { amount: reverseChargeSupplies.amount + zeroRated + exempt + importedGoods.amount, vat: reverseChargeSupplies.vat + importedGoods.vat, adjustment: 0 },
+  ]);
+  const totalExpenses = sumLines([standardRatedExpenses, reverseChargeExpenses]);
+  const totalDueTax = round2(totalSupplies.vat + totalSupplies.adjustment);
+  const totalRecoverableTax = round2(totalExpenses.vat + totalExpenses.adjustment);
+
+  return {
+    trn: config.trn,
+    periodStart,
+    periodEnd,
+    standardRatedSupplies,
+    touristRefunds: emptyLine(),
+    reverseChargeSupplies: { amount: round2(reverseChargeSupplies.amount), vat: round2(reverseChargeSupplies.vat) },
+    zeroRatedSupplies: round2(zeroRated),
+    exemptSupplies: round2(exempt),
+    importedGoods: { amount: round2(importedGoods.amount), vat: round2(importedGoods.vat) },
+    importAdjustments: { amount: 0, vat: 0 },
+    totalSupplies,
+    standardRatedExpenses: roundLine(standardRatedExpenses),
+    reverseChargeExpenses: roundLine(reverseChargeExpenses),
+    totalExpenses,
+    totalDueTax,
+    totalRecoverableTax,
+    payableTax: round2(totalDueTax - totalRecoverableTax),
+    outOfScopeSupplies: round2(outOfScope),
+  };
+}
@@ -0,0 +1,26 @@
+import type { HmrcVatClient } from "./types";
+import { MtdHmrcVatClient } from "./mtd-client";
+import { MockHmrcVatClient } from "./mock-client";
+
+export * from "./types";
+export { MtdHmrcVatClient } from "./mtd-client";
+export { MockHmrcVatClient } from "./mock-client";
+
+let client: HmrcVatClient | null = null;
+
+/**
+ * The HMRC VAT client for this deployment. HMRC_VAT_PROVIDER=mock (or
+ * running tests) selects the local mock; otherwise returns go to the MTD API.
+ */
+export function getHmrcVatClient(): HmrcVatClient {
+  if (!client) {
+    client = process.env.HMRC_VAT_PROVIDER === "mock" || process.env.NODE_ENV === "test"
+      ? new MockHmrcVatClient()
+      : new MtdHmrcVatClient();
+  }
+  return client;
+}
+
+export function setHmrcVatClient(next: HmrcVatClient | null): void {
+  client = next;
+}
@@ -0,0 +1,46 @@
+import { validateMtdVatReturnPayload, type MtdVatReturnPayload } from "../vat-return";
+import { HmrcVatError, type HmrcCredentials, type HmrcVatClient, type VatSubmissionReceipt } from "./types";
+
+/**
+ * Local stand-in for the HMRC VAT (MTD) API for tests and development.
+ * Applies HMRC's payload checks and duplicate-period rule and returns a
+ * receipt of the same shape as the real service.
+ */
+export class MockHmrcVatClient implements HmrcVatClient {
+  name = "mock" as const;
+  private readonly submitted = new Map<string, MtdVatReturnPayload>();
+  private bundleCounter = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async submitReturn(payload: MtdVatReturnPayload, credentials: HmrcCredentials): Promise<VatSubmissionReceipt> {
+    if (!/^\d{9}$/.test(credentials.vrn)) {
+      throw new HmrcVatError("VRN_INVALID", "The provided VRN is invalid");
+    }
+    const errors = validateMtdVatReturnPayload(payload);
+    if (errors.length > 0) {
+      throw new HmrcVatError("INVALID_REQUEST", errors.join("; "));
+    }
+    const key = `${credentials.vrn}:${payload.periodKey}`;
+    if (this.submitted.has(key)) {
+      throw new HmrcVatError("DUPLICATE_SUBMISSION", "The VAT return was already submitted for the given period");
+    }
+    this.submitted.set(key, payload);
+
+    this.bundleCounter++;
+    const payable = payload.totalVatDue > payload.vatReclaimedCurrPeriod && payload.netVatDue > 0;
+    return {
+      processingDate: new Date(),
+      formBundleNumber: String(this.bundleCounter).padStart(12, "0"),
+      paymentIndicator: "BANK",
+      ...(payable ? { chargeRefNumber: `XM${credentials.vrn}${payload.periodKey}` } : {}),
+    };
+  }
+
+  reset(): void {
+    this.submitted.clear();
+    this.bundleCounter = 0;
+  }
+}
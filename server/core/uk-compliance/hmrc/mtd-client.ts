@@ -0,0 +1,58 @@
+import type { MtdVatReturnPayload } from "../vat-return";
+import { HmrcVatError, type HmrcCredentials, type HmrcVatClient, type VatSubmissionReceipt } from "./types";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * HMRC VAT (MTD) API v1.0. Configured with HMRC_API_BASE_URL (the sandbox is
+ * https://test-api.service.hmrc.gov.uk); each tenant supplies the OAuth
+ * access token granted for its VRN.
+ */
+export class MtdHmrcVatClient implements HmrcVatClient {
+  name = "mtd" as const;
+
+  constructor(
+    private readonly baseUrl = process.env.HMRC_API_BASE_URL,
+    private readonly productName = process.env.HMRC_VENDOR_PRODUCT_NAME,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async submitReturn(payload: MtdVatReturnPayload, credentials: HmrcCredentials): Promise<VatSubmissionReceipt> {
+    if (!credentials.accessToken) {
+      throw new HmrcVatError("NO_TOKEN", "No HMRC access token is configured for this VAT registration");
+    }
+
+    const response = await fetch(`${this.baseUrl}/organisations/vat/${credentials.vrn}/returns`, {
+      method: "POST",
+      headers: {
+        Accept: "application/vnd.hmrc.1.0+json",
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${credentials.accessToken}`,
+        // Fraud prevention headers for a server-side submission
+        "Gov-Client-Connection-Method": "BATCH_PROCESS_DIRECT",
+        ...(this.productName ? { "Gov-Vendor-Product-Name": encodeURIComponent(this.productName) } : {}),
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    const body = await response.json().catch(() => null) as Record<string, any> | null;
+    if (!response.ok) {
+      const detail = body?.errors?.[0] ?? body;
+      throw new HmrcVatError(detail?.code || String(response.status), detail?.message || `HMRC returned HTTP ${response.status}`);
+    }
+    if (!body?.formBundleNumber) {
+      throw new HmrcVatError("UNEXPECTED_RESPONSE", "HMRC response did not include a form bundle number");
+    }
+
+    return {
+      processingDate: new Date(body.processingDate),
+      formBundleNumber: body.formBundleNumber,
+      paymentIndicator: body.paymentIndicator,
+      chargeRefNumber: body.chargeRefNumber,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import type { MtdVatReturnPayload } from "../vat-return";
+
+export type HmrcVatProviderType = "mtd" | "mock";
+
+export interface HmrcCredentials {
+  vrn: string;
+  accessToken: string;
+}
+
+export interface VatSubmissionReceipt {
+  processingDate: Date;
+  formBundleNumber: string;
+  paymentIndicator?: string;
+  chargeRefNumber?: string;
+}
+
+export class HmrcVatError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = "HmrcVatError";
+  }
+}
+
+export interface HmrcVatClient {
+  name: HmrcVatProviderType;
+
+  isConfigured(): boolean;
+
+  submitReturn(payload: MtdVatReturnPayload, credentials: HmrcCredentials): Promise<VatSubmissionReceipt>;
+}
@@ -1,2 +1,4 @@
 export { ukComplianceService } from "./uk-compliance-service";
+export { getHmrcVatClient, setHmrcVatClient, HmrcVatError } from "./hmrc";
+export type { HmrcVatClient, VatSubmissionReceipt } from "./hmrc";
 export { default as ukComplianceRoutes } from "./uk-compliance-routes";
@@ -3,13 +3,18 @@ import { ukComplianceService } from "./uk-compliance-service";
 import {
   insertUkVatConfigurationSchema,
   insertUkVatInvoiceSchema,
+  insertUkVatPurchaseSchema,
   insertGdprConsentRecordSchema,
   insertUkDataRetentionPolicySchema,
   insertUkDataRetentionLogSchema,
   insertGdprDsarRequestSchema,
   insertGdprDataBreachSchema,
   insertUkComplianceSettingsSchema,
+  type UkVatConfiguration,
 } from "@shared/schema";
+import { z } from "zod";
+import { VatReturnError } from "./vat-return";
+import { HmrcVatError } from "./hmrc";
 import { authenticateJWT, requireMinimumRole } from "../auth-middleware";
 import { tenantIsolationMiddleware } from "../tenant-isolation";
 
@@ -24,6 +29,34 @@ function getTenantId(req: Request): string | null {
   return (req as any).context?.tenant?.id || null;
 }
 
+// The HMRC access token is write-only
+function publicVatConfiguration(config: UkVatConfiguration) {
+  const { mtdAccessTokenEncrypted, ...rest } = config;
+  return { ...rest, hasMtdAccessToken: !!mtdAccessTokenEncrypted };
+}
+
+function sendVatReturnError(res: Response, error: unknown): boolean {
+  if (error instanceof VatReturnError) {
+    res.status(error.status).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof HmrcVatError) {
+    res.status(502).json({ error: error.message, code: error.code });
+    return true;
+  }
+  return false;
+}
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format");
+const vatConfigInputSchema = insertUkVatConfigurationSchema
+  .omit({ mtdAccessTokenEncrypted: true })
+  .extend({ mtdAccessToken: z.string().min(1).optional() });
+const updatePurchaseSchema = insertUkVatPurchaseSchema.partial().omit({ tenantId: true });
+const submitVatReturnSchema = z.object({
+  // MTD requires the user to confirm the figures are true and complete
+  declaration: z.literal(true),
+});
+
 router.get("/vat-rates", (_req: Request, res: Response) => {
   res.json(ukComplianceService.getVatRates());
 });
@@ -86,7 +119,7 @@ router.get("/vat/configuration",
       return;
     }
     const config = await ukComplianceService.getVatConfiguration(tenantId);
-    res.json(config || { message: "No VAT configuration found" });
+    res.json(config ? publicVatConfiguration(config) : { message: "No VAT configuration found" });
   })
 );
 
@@ -100,13 +133,18 @@ router.post("/vat/configuration",
       res.status(400).json({ error: "Tenant context required" });
       return;
     }
-    const parsed = insertUkVatConfigurationSchema.safeParse({ ...req.body, tenantId });
+    const parsed = vatConfigInputSchema.safeParse({ ...req.body, tenantId });
     if (!parsed.success) {
       res.status(400).json({ error: parsed.error.errors });
       return;
     }
-    const config = await ukComplianceService.createVatConfiguration(parsed.data);
-    res.status(201).json(config);
+    const { mtdAccessToken, ...data } = parsed.data;
+    let config = await ukComplianceService.createVatConfiguration(data);
+    if (mtdAccessToken) {
+      await ukComplianceService.setMtdAccessToken(tenantId, mtdAccessToken);
+      config = await ukComplianceService.getVatConfiguration(tenantId);
+    }
+    res.status(201).json(config ? publicVatConfiguration(config) : config);
   })
 );
 
@@ -120,8 +158,13 @@ router.put("/vat/configuration",
       res.status(400).json({ error: "Tenant context required" });
       return;
     }
-    const config = await ukComplianceService.updateVatConfiguration(tenantId, req.body);
-    res.json(config);
+    const { mtdAccessToken, mtdAccessTokenEncrypted, ...data } = req.body;
+    let config = await ukComplianceService.updateVatConfiguration(tenantId, data);
+    if (config && typeof mtdAccessToken === "string" && mtdAccessToken) {
+      await ukComplianceService.setMtdAccessToken(tenantId, mtdAccessToken);
+      config = await ukComplianceService.getVatConfiguration(tenantId);
+    }
+    res.json(config ? publicVatConfiguration(config) : config);
   })
 );
 
@@ -178,6 +221,190 @@ router.get("/vat/invoices/:id",
   })
 );
 
+router.get("/vat/purchases",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const { fromDate, toDate } = req.query;
+    const purchases = await ukComplianceService.getVatPurchases(tenantId, {
+      fromDate: fromDate as string | undefined,
+      toDate: toDate as string | undefined,
+    });
+    res.json(purchases);
+  })
+);
+
+router.post("/vat/purchases",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const parsed = insertUkVatPurchaseSchema.safeParse({ ...req.body, tenantId });
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.errors });
+      return;
+    }
+    const purchase = await ukComplianceService.createVatPurchase(parsed.data);
+    res.status(201).json(purchase);
+  })
+);
+
+router.put("/vat/purchases/:id",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("staff"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const parsed = updatePurchaseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.errors });
+      return;
+    }
+    const purchase = await ukComplianceService.updateVatPurchase(tenantId, req.params.id, parsed.data);
+    if (!purchase) {
+      res.status(404).json({ error: "Purchase not found" });
+      return;
+    }
+    res.json(purchase);
+  })
+);
+
+router.get("/vat/obligations",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const parsed = z.object({
+      from: isoDateSchema.default(`${today.slice(0, 4)}-01-01`),
+      to: isoDateSchema.default(today),
+    }).safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.errors });
+      return;
+    }
+    try {
+      res.json(await ukComplianceService.getVatObligations(tenantId, parsed.data.from, parsed.data.to));
+    } catch (error) {
+      if (!sendVatReturnError(res, error)) throw error;
+    }
+  })
+);
+
+router.get("/vat/returns",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    res.json(await ukComplianceService.getVatReturns(tenantId));
+  })
+);
+
+router.get("/vat/returns/:periodKey",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    const vatReturn = await ukComplianceService.getVatReturn(tenantId, req.params.periodKey);
+    if (!vatReturn) {
+      res.status(404).json({ error: "VAT return not found" });
+      return;
+    }
+    res.json(vatReturn);
+  })
+);
+
+router.get("/vat/returns/:periodKey/calculation",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      res.json(await ukComplianceService.calculateVatReturn(tenantId, req.params.periodKey));
+    } catch (error) {
+      if (!sendVatReturnError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/vat/returns/:periodKey",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    try {
+      res.json(await ukComplianceService.prepareVatReturn(tenantId, req.params.periodKey));
+    } catch (error) {
+      if (!sendVatReturnError(res, error)) throw error;
+    }
+  })
+);
+
+router.post("/vat/returns/:periodKey/submit",
+  authenticateJWT({ required: true }),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tenantId = getTenantId(req);
+    if (!tenantId) {
+      res.status(400).json({ error: "Tenant context required" });
+      return;
+    }
+    // HMRC submissions record who made the declaration
+    const userId = req.context?.user?.id;
+    if (!userId) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+    const parsed = submitVatReturnSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "The VAT return declaration must be confirmed" });
+      return;
+    }
+    try {
+      res.json(await ukComplianceService.submitVatReturn(tenantId, req.params.periodKey, userId));
+    } catch (error) {
+      if (!sendVatReturnError(res, error)) throw error;
+    }
+  })
+);
+
 router.get("/consent",
   authenticateJWT({ required: true }),
   tenantIsolationMiddleware(),
@@ -1,8 +1,10 @@
 import { db } from "../../db";
-import { eq, and, desc, lt, gte } from "drizzle-orm";
+import { eq, and, desc, lt, gte, lte } from "drizzle-orm";
 import {
   ukVatConfigurations,
   ukVatInvoices,
+  ukVatPurchases,
+  ukVatReturns,
   gdprConsentRecords,
   ukDataRetentionPolicies,
   ukDataRetentionLogs,
@@ -13,6 +15,9 @@ import {
   type InsertUkVatConfiguration,
   type UkVatInvoice,
   type InsertUkVatInvoice,
+  type UkVatPurchase,
+  type InsertUkVatPurchase,
+  type UkVatReturn,
   type GdprConsentRecord,
   type InsertGdprConsentRecord,
   type UkDataRetentionPolicy,
@@ -26,6 +31,20 @@ import {
   type UkComplianceSettings,
   type InsertUkComplianceSettings,
 } from "@shared/schema";
+import { encryptToken, decryptToken } from "../../sso/token-handler";
+import {
+  VatReturnError,
+  buildMtdVatReturnPayload,
+  computeNineBoxReturn,
+  obligationForPeriodKey,
+  vatAccountingBasis,
+  vatObligations,
+  vatPeriodEntries,
+  vrnFromVatNumber,
+  type VatObligation,
+  type VatScheme,
+} from "./vat-return";
+import { getHmrcVatClient, HmrcVatError } from "./hmrc";
 
 const UK_VAT_RATES = {
   standard: 20,
@@ -245,6 +264,248 @@ class UkComplianceService {
     return invoice || null;
   }
 
+  async createVatPurchase(data: InsertUkVatPurchase): Promise<UkVatPurchase | null> {
+    const [purchase] = await db.insert(ukVatPurchases).values(data).returning();
+    return purchase;
+  }
+
+  async getVatPurchases(tenantId: string, filters?: { fromDate?: string; toDate?: string }): Promise<UkVatPurchase[]> {
+    const conditions = [eq(ukVatPurchases.tenantId, tenantId)];
+    if (filters?.fromDate) {
+      conditions.push(gte(ukVatPurchases.invoiceDate, filters.fromDate));
+    }
+    if (filters?.toDate) {
+      conditions.push(lte(ukVatPurchases.invoiceDate, filters.toDate));
+    }
+    return db.select().from(ukVatPurchases).where(and(...conditions)).orderBy(desc(ukVatPurchases.invoiceDate));
+  }
+
+  async updateVatPurchase(tenantId: string, purchaseId: string, data: Partial<InsertUkVatPurchase>): Promise<UkVatPurchase | null> {
+    const [updated] = await db
+      .update(ukVatPurchases)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(ukVatPurchases.tenantId, tenantId), eq(ukVatPurchases.id, purchaseId)))
+      .returning();
+    return updated || null;
+  }
+
+  async setMtdAccessToken(tenantId: string, accessToken: string): Promise<void> {
+    await db
+      .update(ukVatConfigurations)
+      .set({ mtdAccessTokenEncrypted: encryptToken(accessToken), updatedAt: new Date() })
+      .where(eq(ukVatConfigurations.tenantId, tenantId));
+  }
+
+  private async requireVatConfiguration(tenantId: string): Promise<UkVatConfiguration> {
+    const config = await this.getVatConfiguration(tenantId);
+    if (!config) {
+      throw new VatReturnError(400, "VAT configuration not found for tenant");
+    }
+    return config;
+  }
+
+  private vatSchedule(config: UkVatConfiguration) {
+    return { accountingPeriodStart: config.accountingPeriodStart, frequency: config.returnFrequency };
+  }
+
+  /**
+   * VAT periods in a date range with whether each return has been filed.
+   */
+  async getVatObligations(tenantId: string, from: string, to: string): Promise<Array<VatObligation & { status: "O" | "F"; returnId: string | null }>> {
+    const config = await this.requireVatConfiguration(tenantId);
+    const returns = await db
+      .select({ id: ukVatReturns.id, periodKey: ukVatReturns.periodKey, status: ukVatReturns.status })
+      .from(ukVatReturns)
+      .where(eq(ukVatReturns.tenantId, tenantId));
+    const byPeriod = new Map(returns.map((r) => [r.periodKey, r]));
+
+    return vatObligations(this.vatSchedule(config), from, to).map((obligation) => {
+      const vatReturn = byPeriod.get(obligation.periodKey);
+      return {
+        ...obligation,
+        status: vatReturn?.status === "submitted" ? "F" : "O",
+        returnId: vatReturn?.id ?? null,
+      };
+    });
+  }
+
+  private async requireObligation(config: UkVatConfiguration, periodKey: string): Promise<VatObligation> {
+    const obligation = obligationForPeriodKey(this.vatSchedule(config), periodKey);
+    if (!obligation) {
+      throw new VatReturnError(404, `No VAT obligation for period ${periodKey}`);
+    }
+    return obligation;
+  }
+
+  /**
+   * Computes the nine boxes for a period from sales invoices and purchases,
+   * without saving anything.
+   */
+  async calculateVatReturn(tenantId: string, periodKey: string) {
+    const config = await this.requireVatConfiguration(tenantId);
+    const obligation = await this.requireObligation(config, periodKey);
+    const scheme = (config.vatScheme || "standard") as VatScheme;
+    const basis = vatAccountingBasis(config);
+    if (scheme === "flat_rate" && !config.flatRatePercentage) {
+      throw new VatReturnError(400, "Flat rate percentage is required for the flat rate scheme");
+    }
+
+    // Cash basis picks entries by payment date, so invoices from earlier periods can count
+    const paidFrom = new Date(`${obligation.start}T00:00:00.000Z`);
+    const paidTo = new Date(`${obligation.end}T23:59:59.999Z`);
+    const [sales, purchases] = await Promise.all([
+      db.select().from(ukVatInvoices).where(and(
+        eq(ukVatInvoices.tenantId, tenantId),
+        basis === "cash"
+          ? and(gte(ukVatInvoices.paidAt, paidFrom), lte(ukVatInvoices.paidAt, paidTo))
+          : and(gte(ukVatInvoices.invoiceDate, obligation.start), lte(ukVatInvoices.invoiceDate, obligation.end)),
+      )),
+      db.select().from(ukVatPurchases).where(and(
+        eq(ukVatPurchases.tenantId, tenantId),
+        basis === "cash"
+          ? and(gte(ukVatPurchases.paidAt, paidFrom), lte(ukVatPurchases.paidAt, paidTo))
+          : and(gte(ukVatPurchases.invoiceDate, obligation.start), lte(ukVatPurchases.invoiceDate, obligation.end)),
+      )),
+    ]);
+
+    const input = {
+      scheme,
+      basis,
+      flatRatePercentage: config.flatRatePercentage ? parseFloat(config.flatRatePercentage) : null,
+      period: obligation,
+      sales,
+      purchases,
+    };
+    const entries = vatPeriodEntries(input);
+    return {
+      obligation,
+      scheme,
+      basis,
+      boxes: computeNineBoxReturn(input),
+      salesCount: entries.sales.length,
+      purchasesCount: entries.purchases.length,
+    };
+  }
+
+  /**
+   * Saves (or recalculates) the draft return for a period.
+   */
+  async prepareVatReturn(tenantId: string, periodKey: string): Promise<UkVatReturn> {
+    const existing = await this.getVatReturn(tenantId, periodKey);
+    if (existing?.status === "submitted") {
+      throw new VatReturnError(409, `The VAT return for ${periodKey} has already been submitted`);
+    }
+
+    const { obligation, scheme, basis, boxes, salesCount, purchasesCount } = await this.calculateVatReturn(tenantId, periodKey);
+    const values = {
+      periodStart: obligation.start,
+      periodEnd: obligation.end,
+      dueDate: obligation.due,
+      vatScheme: scheme,
+      accountingBasis: basis,
+      vatDueSales: String(boxes.vatDueSales),
+      vatDueAcquisitions: String(boxes.vatDueAcquisitions),
+      totalVatDue: String(boxes.totalVatDue),
+      vatReclaimedCurrPeriod: String(boxes.vatReclaimedCurrPeriod),
+      netVatDue: String(boxes.netVatDue),
+      totalValueSalesExVat: String(boxes.totalValueSalesExVAT),
+      totalValuePurchasesExVat: String(boxes.totalValuePurchasesExVAT),
+      totalValueGoodsSuppliedExVat: String(boxes.totalValueGoodsSuppliedExVAT),
+      totalAcquisitionsExVat: String(boxes.totalAcquisitionsExVAT),
+      salesCount,
+      purchasesCount,
+      status: "draft",
+      submissionError: null,
+      updatedAt: new Date(),
+    };
+
+    if (existing) {
+      const [updated] = await db.update(ukVatReturns).set(values).where(eq(ukVatReturns.id, existing.id)).returning();
+      return updated;
+    }
+    const [created] = await db.insert(ukVatReturns).values({ tenantId, periodKey, ...values }).returning();
+    return created;
+  }
+
+  /**
+   * Submits a prepared return to HMRC. The caller must have confirmed the
+   * MTD declaration that the figures are true and complete.
+   */
+  async submitVatReturn(tenantId: string, periodKey: string, submittedBy: string): Promise<UkVatReturn> {
+    const config = await this.requireVatConfiguration(tenantId);
+    if (!config.mtdEnabled) {
+      throw new VatReturnError(400, "Making Tax Digital is not enabled in the VAT configuration");
+    }
+    const vatReturn = await this.getVatReturn(tenantId, periodKey);
+    if (!vatReturn) {
+      throw new VatReturnError(404, `No prepared VAT return for ${periodKey}`);
+    }
+    if (vatReturn.status === "submitted") {
+      throw new VatReturnError(409, `The VAT return for ${periodKey} has already been submitted`);
+    }
+    if (vatReturn.periodEnd >= new Date().toISOString().slice(0, 10)) {
+      throw new VatReturnError(400, "A VAT return cannot be submitted before its period has ended");
+    }
+
+    const client = getHmrcVatClient();
+    if (!client.isConfigured()) {
+      throw new HmrcVatError("NOT_CONFIGURED", "No HMRC VAT provider is configured");
+    }
+
+    const payload = buildMtdVatReturnPayload(periodKey, {
+      vatDueSales: parseFloat(vatReturn.vatDueSales),
+      vatDueAcquisitions: parseFloat(vatReturn.vatDueAcquisitions),
+      totalVatDue: parseFloat(vatReturn.totalVatDue),
+      vatReclaimedCurrPeriod: parseFloat(vatReturn.vatReclaimedCurrPeriod),
+      netVatDue: parseFloat(vatReturn.netVatDue),
+      totalValueSalesExVAT: parseFloat(vatReturn.totalValueSalesExVat),
+      totalValuePurchasesExVAT: parseFloat(vatReturn.totalValuePurchasesExVat),
+      totalValueGoodsSuppliedExVAT: parseFloat(vatReturn.totalValueGoodsSuppliedExVat),
+      totalAcquisitionsExVAT: parseFloat(vatReturn.totalAcquisitionsExVat),
+    });
+
+    try {
+      const receipt = await client.submitReturn(payload, {
+        vrn: vrnFromVatNumber(config.vatNumber),
+        accessToken: config.mtdAccessTokenEncrypted ? decryptToken(config.mtdAccessTokenEncrypted) : "",
+      });
+      const [updated] = await db
+        .update(ukVatReturns)
+        .set({
+          status: "submitted",
+          submittedAt: new Date(),
+          submittedBy,
+          processingDate: receipt.processingDate,
+          formBundleNumber: receipt.formBundleNumber,
+          chargeRefNumber: receipt.chargeRefNumber ?? null,
+          paymentIndicator: receipt.paymentIndicator ?? null,
+          submissionError: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(ukVatReturns.id, vatReturn.id))
+        .returning();
+      return updated;
+    } catch (error: any) {
+      await db
+        .update(ukVatReturns)
+        .set({ status: "failed", submissionError: error.message, updatedAt: new Date() })
+        .where(eq(ukVatReturns.id, vatReturn.id));
+      throw error;
+    }
+  }
+
+  async getVatReturns(tenantId: string): Promise<UkVatReturn[]> {
+    return db.select().from(ukVatReturns).where(eq(ukVatReturns.tenantId, tenantId)).orderBy(desc(ukVatReturns.periodEnd));
+  }
+
+  async getVatReturn(tenantId: string, periodKey: string): Promise<UkVatReturn | null> {
+    const [vatReturn] = await db
+      .select()
+      .from(ukVatReturns)
+      .where(and(eq(ukVatReturns.tenantId, tenantId), eq(ukVatReturns.periodKey, periodKey)));
+    return vatReturn || null;
+  }
+
   async recordConsent(data: InsertGdprConsentRecord): Promise<GdprConsentRecord | null> {
     if (!LAWFUL_BASES.includes(data.lawfulBasis)) {
       throw new Error(`Invalid lawful basis. Must be one of: ${LAWFUL_BASES.join(", ")}`);
@@ -0,0 +1,238 @@
+/**
+ * Nine-box VAT returns for HMRC Making Tax Digital, computed from sales
+ * invoices and purchase records under the standard, cash accounting and flat
+ * rate schemes, plus the obligations calendar the returns are filed against.
+ */
+
+import type { UkVatInvoice, UkVatPurchase } from "@shared/schema";
+import { amount, round2 } from "../../utils/money";
+import { addDays } from "../../utils/time-of-day";
+
+export const VAT_SCHEMES = ["standard", "flat_rate", "cash_accounting"] as const;
+export type VatScheme = typeof VAT_SCHEMES[number];
+export type VatAccountingBasis = "accrual" | "cash";
+export type VatReturnFrequency = "monthly" | "quarterly" | "annual";
+
+// Flat rate businesses can only reclaim VAT on single capital purchases of this much or more, VAT inclusive
+export const FLAT_RATE_CAPITAL_ASSET_THRESHOLD = 2000;
+
+const PERIOD_MONTHS: Record<VatReturnFrequency, number> = { monthly: 1, quarterly: 3, annual: 12 };
+const FREQUENCY_CODES: Record<VatReturnFrequency, string> = { monthly: "M", quarterly: "Q", annual: "Y" };
+const EXCLUDED_SALE_STATUSES = ["draft", "cancelled"];
+
+export interface VatObligation {
+  periodKey: string;
+  start: string;
+  end: string;
+  due: string;
+}
+
+export interface NineBoxReturn {
+  vatDueSales: number;
+  vatDueAcquisitions: number;
+  totalVatDue: number;
+  vatReclaimedCurrPeriod: number;
+  netVatDue: number;
+  totalValueSalesExVAT: number;
+  totalValuePurchasesExVAT: number;
+  totalValueGoodsSuppliedExVAT: number;
+  totalAcquisitionsExVAT: number;
+}
+
+// Body of POST /organisations/vat/{vrn}/returns
+export interface MtdVatReturnPayload extends NineBoxReturn {
+  periodKey: string;
+  finalised: boolean;
+}
+
+export type VatSale = Pick<UkVatInvoice, "invoiceDate" | "paidAt" | "status" | "netAmount" | "vatAmount" | "totalAmount" | "isEcSupply">;
+export type VatPurchaseEntry = Pick<UkVatPurchase, "invoiceDate" | "paidAt" | "status" | "netAmount" | "vatAmount" | "totalAmount" | "isReverseCharge" | "isEcAcquisition" | "isCapitalAsset">;
+
+export interface VatReturnInput {
+  scheme: VatScheme;
+  basis: VatAccountingBasis;
+  flatRatePercentage?: number | null;
+  period: Pick<VatObligation, "start" | "end">;
+  sales: VatSale[];
+  purchases: VatPurchaseEntry[];
+}
+
+export class VatReturnError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "VatReturnError";
+  }
+}
+
+// Boxes 6 to 9 are reported in whole pounds, pence dropped
+function wholePounds(value: number): number {
+  return Math.trunc(round2(value));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonths(isoDate: string, months: number): string {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return toIsoDate(new Date(Date.UTC(year, month - 1 + months, day)));
+}
+
+export function vatAccountingBasis(config: { vatScheme: string | null; accountingBasis: string | null }): VatAccountingBasis {
+  if (config.vatScheme === "cash_accounting") return "cash";
+  return config.accountingBasis === "cash" ? "cash" : "accrual";
+}
+
+/**
+ * VAT registration number as HMRC's APIs expect it: the nine digits without
+ * the GB prefix or a branch suffix.
+ */
+export function vrnFromVatNumber(vatNumber: string): string {
+  return vatNumber.replace(/\s/g, "").toUpperCase().replace(/^GB/, "").slice(0, 9);
+}
+
+function obligationFor(start: string, frequency: VatReturnFrequency): VatObligation {
+  const length = PERIOD_MONTHS[frequency];
+  const end = addDays(addMonths(start, length), -1);
+  const [year, month] = end.split("-").map(Number);
+  // Month ends are taken from the following month's start, as adding months to the 31st overflows
+  const monthEndAfter = (months: number) => addDays(addMonths(start, length + months), -1);
+  return {
+    periodKey: `${String(year).slice(-2)}${String.fromCharCode(64 + month)}${FREQUENCY_CODES[frequency]}`,
+    start,
+    end,
+    // Annual accounting returns are due two months after the year; others one month and seven days
+    due: frequency === "annual" ? monthEndAfter(2) : addDays(monthEndAfter(1), 7),
+  };
+}
+
+/**
+ * VAT periods overlapping [from, to], aligned to the registration's stagger.
+ * Without a configured period start, quarters follow the calendar year.
+ */
+export function vatObligations(
+  schedule: { accountingPeriodStart?: string | null; frequency?: string | null },
+  from: string,
+  to: string,
+): VatObligation[] {
+  const frequency = (schedule.frequency as VatReturnFrequency) in PERIOD_MONTHS ? schedule.frequency as VatReturnFrequency : "quarterly";
+  const length = PERIOD_MONTHS[frequency];
+  const anchor = schedule.accountingPeriodStart || "2000-01-01";
+  const [anchorYear, anchorMonth] = anchor.split("-").map(Number);
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+
+  const monthsSinceAnchor = (fromYear - anchorYear) * 12 + (fromMonth - anchorMonth);
+  let start = addMonths(`${anchor.slice(0, 7)}-01`, Math.floor(monthsSinceAnchor / length) * length);
+
+  const obligations: VatObligation[] = [];
+  while (start <= to) {
+    const obligation = obligationFor(start, frequency);
+    if (obligation.end >= from) obligations.push(obligation);
+    start = addMonths(start, length);
+  }
+  return obligations;
+}
+
+/**
+ * The obligation a locally generated period key refers to.
+ */
+export function obligationForPeriodKey(
+  schedule: { accountingPeriodStart?: string | null; frequency?: string | null },
+  periodKey: string,
+): VatObligation | null {
+  const match = /^(\d{2})([A-L])[MQY]$/.exec(periodKey);
+  if (!match) return null;
+  const endMonth = `20${match[1]}-${String(match[2].charCodeAt(0) - 64).padStart(2, "0")}-01`;
+  return vatObligations(schedule, endMonth, addDays(addMonths(endMonth, 1), -1))
+    .find((obligation) => obligation.periodKey === periodKey) ?? null;
+}
+
+function inPeriod(date: string | Date | null | undefined, period: VatReturnInput["period"]): boolean {
+  if (!date) return false;
+  const iso = typeof date === "string" ? date.slice(0, 10) : toIsoDate(date);
+  return iso >= period.start && iso <= period.end;
+}
+
+/**
+ * The sales and purchases that fall in a period. On the cash basis that is
+ * by payment date, so unpaid invoices wait for a later return.
+ */
+export function vatPeriodEntries(input: Pick<VatReturnInput, "basis" | "period" | "sales" | "purchases">) {
+  const taxPoint = (entry: { invoiceDate: string; paidAt: Date | null }) =>
+    input.basis === "cash" ? entry.paidAt : entry.invoiceDate;
+  return {
+    sales: input.sales.filter((sale) => !EXCLUDED_SALE_STATUSES.includes(sale.status || "draft") && inPeriod(taxPoint(sale), input.period)),
+    purchases: input.purchases.filter((purchase) => purchase.status !== "void" && inPeriod(taxPoint(purchase), input.period)),
+  };
+}
+
+export function computeNineBoxReturn(input: VatReturnInput): NineBoxReturn {
+  const { sales, purchases } = vatPeriodEntries(input);
+  const sum = <T>(rows: T[], pick: (row: T) => number) => rows.reduce((total, row) => total + pick(row), 0);
+
+  const reverseCharged = purchases.filter((purchase) => purchase.isReverseCharge);
+  const acquisitions = purchases.filter((purchase) => purchase.isEcAcquisition);
+  const goodsToEu = sales.filter((sale) => sale.isEcSupply);
+
+  let vatDueSales: number;
+  let vatReclaimed: number;
+  let salesValue: number;
+  let purchasesValue: number;
+
+  if (input.scheme === "flat_rate") {
+    // Flat rate: a fixed percentage of VAT-inclusive turnover, no input VAT except on capital assets
+    const turnover = sum(sales, (sale) => amount(sale.totalAmount));
+    const capitalAssets = purchases.filter((purchase) =>
+      purchase.isCapitalAsset && amount(purchase.totalAmount) >= FLAT_RATE_CAPITAL_ASSET_THRESHOLD);
+    vatDueSales = turnover * (input.flatRatePercentage ?? 0) / 100 + sum(reverseCharged, (p) => amount(p.vatAmount));
+    vatReclaimed = sum(capitalAssets, (p) => amount(p.vatAmount));
+    salesValue = turnover;
+    purchasesValue = sum(capitalAssets, (p) => amount(p.netAmount));
+  } else {
+    // Reverse-charged VAT is both due and reclaimable
+    vatDueSales = sum(sales, (sale) => amount(sale.vatAmount)) + sum(reverseCharged, (p) => amount(p.vatAmount));
+    vatReclaimed = sum(purchases, (p) => amount(p.vatAmount));
+    salesValue = sum(sales, (sale) => amount(sale.netAmount));
+    purchasesValue = sum(purchases, (p) => amount(p.netAmount));
+  }
+
+  const vatDueAcquisitions = round2(sum(acquisitions, (p) => amount(p.vatAmount)));
+  const totalVatDue = round2(round2(vatDueSales) + vatDueAcquisitions);
+  const vatReclaimedCurrPeriod = round2(vatReclaimed);
+
+  return {
+    vatDueSales: round2(vatDueSales),
+    vatDueAcquisitions,
+    totalVatDue,
+    vatReclaimedCurrPeriod,
+    netVatDue: round2(Math.abs(totalVatDue - vatReclaimedCurrPeriod)),
+    totalValueSalesExVAT: wholePounds(salesValue),
+    totalValuePurchasesExVAT: wholePounds(purchasesValue),
+    totalValueGoodsSuppliedExVAT: wholePounds(sum(goodsToEu, (sale) => amount(sale.netAmount))),
+    totalAcquisitionsExVAT: wholePounds(sum(acquisitions, (p) => amount(p.netAmount))),
+  };
+}
+
+export function buildMtdVatReturnPayload(periodKey: string, boxes: NineBoxReturn): MtdVatReturnPayload {
+  return { periodKey, ...boxes, finalised: true };
+}
+
+/**
+ * The consistency checks HMRC applies to a submitted return.
+ */
+export function validateMtdVatReturnPayload(payload: MtdVatReturnPayload): string[] {
+  const errors: string[] = [];
+  if (!/^[A-Z0-9#]{4}$/.test(payload.periodKey)) errors.push("periodKey must be four characters");
+  if (!payload.finalised) errors.push("The return must be finalised by the user's declaration");
+  if (round2(payload.vatDueSales + payload.vatDueAcquisitions) !== payload.totalVatDue) {
+    errors.push("totalVatDue must equal vatDueSales plus vatDueAcquisitions");
+  }
+  if (round2(Math.abs(payload.totalVatDue - payload.vatReclaimedCurrPeriod)) !== payload.netVatDue) {
+    errors.push("netVatDue must be the difference between totalVatDue and vatReclaimedCurrPeriod");
+  }
+  const wholePoundBoxes = ["totalValueSalesExVAT", "totalValuePurchasesExVAT", "totalValueGoodsSuppliedExVAT", "totalAcquisitionsExVAT"] as const;
+  for (const box of wholePoundBoxes) {
+    if (!Number.isInteger(payload[box])) errors.push(`${box} must be in whole pounds`);
+  }
+  return errors;
+}
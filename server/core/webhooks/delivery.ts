@@ -0,0 +1,170 @@
+/**
+ * Signing and retry rules for outbound webhook deliveries.
+ *
+ * Every request carries `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`,
+ * an HMAC-SHA256 of "<t>.<raw body>" keyed with the endpoint secret, so
+ * receivers can verify the sender and reject replayed requests.
+ */
+
+import crypto from "crypto";
+import dns, { type LookupAddress } from "dns";
+import net from "net";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_MAX_ATTEMPTS = 10;
+export const WEBHOOK_RETRY_BASE_SECONDS = 60;
+export const WEBHOOK_RETRY_MAX_SECONDS = 6 * 60 * 60;
+export const WEBHOOK_DISABLE_AFTER_FAILURES = 20;
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Checks a signature header the way a receiver should: same HMAC, and a
+ * timestamp no older than the tolerance.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Math.floor(Date.now() / 1000),
+  toleranceSeconds: number = 300,
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(`t=${timestamp},v1=${parts.v1}`);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 1m, 2m, 4m,
+ * ... doubling up to 6 hours. Returns null once the delivery has used all of
+ * its attempts.
+ */
+export function nextRetryDelaySeconds(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null;
+  return Math.min(WEBHOOK_RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_SECONDS);
+}
+
+export function shouldDisableEndpoint(consecutiveFailures: number): boolean {
+  return consecutiveFailures >= WEBHOOK_DISABLE_AFTER_FAILURES;
+}
+
+export function isSuccessfulResponse(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /\.internal$/i,
+];
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible range
+  ["::", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// The IPv4 address inside an IPv4-mapped IPv6 one (::ffff:a.b.c.d), in either notation
+function mappedIPv4(address: string): string | null {
+  const match = /^\[::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})\]$/i.exec(new URL(`http://[${address}]`).hostname);
+  if (!match) return null;
+  const high = parseInt(match[1], 16);
+  const low = parseInt(match[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+/**
+ * Whether an IP address is publicly routable. Anything that is not a plain
+ * IP address (including IPv6 with a zone) counts as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return !BLOCKED_ADDRESSES.check(address, "ipv4");
+  if (family !== 6) return false;
+  const mapped = mappedIPv4(address);
+  return mapped ? isPublicAddress(mapped) : !BLOCKED_ADDRESSES.check(address, "ipv6");
+}
+
+function bareHostname(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, "");
+}
+
+/**
+ * Endpoints must be public https URLs in production. Plain http and local
+ * hosts are accepted outside production so developers can point webhooks at
+ * a local receiver.
+ */
+export function validateWebhookUrl(url: string, production: boolean = process.env.NODE_ENV === "production"): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid URL";
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return "URL must use http or https";
+  if (parsed.username || parsed.password) return "URL must not contain credentials";
+  if (!production) return null;
+
+  if (parsed.protocol !== "https:") return "URL must use https";
+  const host = bareHostname(parsed.hostname);
+  if (PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host)) || (net.isIP(host) && !isPublicAddress(host))) {
+    return "URL must point to a public host";
+  }
+  return null;
+}
+
+/**
+ * Resolves an endpoint's host to the address a delivery connects to. A name
+ * can resolve to an internal address however its URL looks, so in production
+ * every address it resolves to must be public. Callers connect to the
+ * returned address rather than resolving again, so a DNS answer that changes
+ * between the check and the connection cannot reach an internal host.
+ */
+export async function resolveWebhookAddress(
+  hostname: string,
+  production: boolean = process.env.NODE_ENV === "production",
+): Promise<LookupAddress> {
+  const host = bareHostname(hostname);
+  const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (production && addresses.some((entry) => !isPublicAddress(entry.address))) {
+    throw new Error(`${host} resolves to a non-public address`);
+  }
+  return addresses[0];
+}
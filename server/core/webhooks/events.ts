@@ -0,0 +1,46 @@
+/**
+ * Business events tenants can subscribe to with outbound webhooks.
+ *
+ * Endpoints filter by exact event type, by resource wildcard ("invoice.*")
+ * or receive everything with "*".
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  "customer.created",
+  "booking.created",
+  "booking.updated",
+  "invoice.created",
+  "invoice.paid",
+  "payment.received",
+  "employee.created",
+  "shipment.delivered",
+] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// Sent only by the "send test event" action, never by business code
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * A filter is valid when it names a known event, a wildcard over a known
+ * resource, or "*".
+ */
+export function isValidEventFilter(filter: string): boolean {
+  if (filter === "*") return true;
+  if (filter.endsWith(".*")) {
+    const resource = filter.slice(0, -2);
+    return WEBHOOK_EVENT_TYPES.some((type) => type.startsWith(`${resource}.`));
+  }
+  return isWebhookEventType(filter);
+}
+
+export function matchesEventFilter(filters: readonly string[], eventType: string): boolean {
+  return filters.some((filter) => {
+    if (filter === "*") return true;
+    if (filter.endsWith(".*")) return eventType.startsWith(filter.slice(0, -1));
+    return filter === eventType;
+  });
+}
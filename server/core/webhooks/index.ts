@@ -0,0 +1,17 @@
+/**
+ * Outbound Webhooks
+ *
+ * Tenant-configured endpoints that receive business events:
+ * - Event-type filters with resource wildcards
+ * - HMAC-SHA256 signed payloads
+ * - Retries with exponential backoff, driven by a background job
+ * - Delivery log with replay
+ * - Endpoints are disabled automatically after repeated failures
+ *
+ * @module server/core/webhooks
+ */
+
+export * from "./events";
+export * from "./delivery";
+export { webhookService, processDueWebhookDeliveries, type WebhookEnvelope } from "./webhook-service";
+export { webhookEndpointsRouter } from "./webhook-routes";
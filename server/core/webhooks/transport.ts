@@ -0,0 +1,56 @@
+/**
+ * HTTP transport for outbound webhook deliveries.
+ *
+ * The request connects to the address vetted by `resolveWebhookAddress`
+ * instead of letting the HTTP client resolve the host a second time; the
+ * host name is still used for the Host header and TLS verification.
+ * Redirects are not followed, so a receiver cannot bounce the request to an
+ * internal host.
+ */
+
+import http from "http";
+import https from "https";
+import type { LookupFunction } from "net";
+import { resolveWebhookAddress } from "./delivery";
+
+export interface WebhookResponse {
+  status: number;
+  // At most `bodyLimit` characters of the response
+  body: string;
+}
+
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  options: { signal: AbortSignal; bodyLimit: number },
+): Promise<WebhookResponse> {
+  const target = new URL(url);
+  const vetted = await resolveWebhookAddress(target.hostname);
+  const lookup = ((_hostname: string, lookupOptions: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+    if (lookupOptions.all) callback(null, [vetted]);
+    else callback(null, vetted.address, vetted.family);
+  }) as unknown as LookupFunction;
+  const client = target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+      lookup,
+      signal: options.signal,
+    }, (response) => {
+      let text = "";
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => {
+        text += chunk;
+        // Enough is kept for the delivery log; stop reading the rest
+        if (text.length >= options.bodyLimit) response.destroy();
+      });
+      response.on("error", reject);
+      response.on("close", () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, options.bodyLimit) }));
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
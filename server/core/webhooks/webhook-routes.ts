@@ -0,0 +1,301 @@
+import { Router, type Request, type Response } from "express";
+import { db } from "../../db";
+import {
+  tenantWebhookEndpoints,
+  tenantWebhookDeliveries,
+  insertTenantWebhookEndpointSchema,
+  type TenantWebhookEndpoint,
+} from "@shared/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { z } from "zod";
+import { authenticateHybrid, requireMinimumRole } from "../auth-middleware";
+import { tenantIsolationMiddleware, createTenantIsolation } from "../tenant-isolation";
+import { auditService } from "../audit";
+import { WEBHOOK_EVENT_TYPES, isValidEventFilter } from "./events";
+import { generateWebhookSecret, validateWebhookUrl, WEBHOOK_MAX_ATTEMPTS, WEBHOOK_DISABLE_AFTER_FAILURES } from "./delivery";
+import { webhookService } from "./webhook-service";
+
+export const webhookEndpointsRouter = Router();
+
+const middleware = [
+  authenticateHybrid(),
+  tenantIsolationMiddleware(),
+  requireMinimumRole("admin"),
+];
+
+const eventsSchema = z.array(z.string())
+  .min(1, "Subscribe to at least one event")
+  .refine((events) => events.every(isValidEventFilter), { message: "Unknown event type" });
+
+const urlSchema = z.string().max(2000).superRefine((url, ctx) => {
+  const error = validateWebhookUrl(url);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+});
+
+const endpointSchema = insertTenantWebhookEndpointSchema
+  .omit({ tenantId: true, createdBy: true })
+  .extend({ url: urlSchema, events: eventsSchema });
+
+const updateSchema = endpointSchema.partial().extend({
+  status: z.enum(["active", "disabled"]).optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+  eventType: z.string().optional(),
+});
+
+// The signing secret is only returned when an endpoint is created or its secret rotated
+function redact(endpoint: TenantWebhookEndpoint) {
+  const { secret, ...rest } = endpoint;
+  return { ...rest, secretPreview: `${secret.slice(0, 10)}…` };
+}
+
+async function findEndpoint(tenantId: string, id: string) {
+  const [endpoint] = await db.select()
+    .from(tenantWebhookEndpoints)
+    .where(and(eq(tenantWebhookEndpoints.id, id), eq(tenantWebhookEndpoints.tenantId, tenantId)));
+  return endpoint;
+}
+
+webhookEndpointsRouter.get("/events", ...middleware, async (_req: Request, res: Response) => {
+  res.json({
+    events: WEBHOOK_EVENT_TYPES,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    disableAfterFailures: WEBHOOK_DISABLE_AFTER_FAILURES,
+  });
+});
+
+webhookEndpointsRouter.get("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const endpoints = await db.select()
+      .from(tenantWebhookEndpoints)
+      .where(eq(tenantWebhookEndpoints.tenantId, isolation.getTenantId()))
+      .orderBy(desc(tenantWebhookEndpoints.createdAt));
+
+    res.json(endpoints.map(redact));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.get("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const endpoint = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    res.json(redact(endpoint));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.post("/", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const parsed = endpointSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const [endpoint] = await db.insert(tenantWebhookEndpoints).values({
+      ...parsed.data,
+      tenantId: isolation.getTenantId(),
+      secret: generateWebhookSecret(),
+      createdBy: req.context?.user?.id,
+    }).returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "webhook_endpoint",
+      resourceId: endpoint.id,
+      metadata: { url: endpoint.url, events: endpoint.events },
+    });
+
+    res.status(201).json({ ...redact(endpoint), secret: endpoint.secret });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.patch("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const existing = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+
+    const parsed = updateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Validation failed", errors: parsed.error.errors });
+    }
+
+    const { status, ...changes } = parsed.data;
+    const updateData: Partial<typeof tenantWebhookEndpoints.$inferInsert> = { ...changes, updatedAt: new Date() };
+    if (status === "active" && existing.status === "disabled") {
+      // Re-enabling starts the failure count over; queued deliveries resume on the next run
+      Object.assign(updateData, { status, consecutiveFailures: 0, disabledAt: null, disabledReason: null });
+    } else if (status === "disabled" && existing.status === "active") {
+      Object.assign(updateData, { status, disabledAt: new Date(), disabledReason: "Disabled by user" });
+    }
+
+    const [updated] = await db.update(tenantWebhookEndpoints)
+      .set(updateData)
+      .where(eq(tenantWebhookEndpoints.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "webhook_endpoint",
+      resourceId: existing.id,
+      metadata: { changes: Object.keys(parsed.data) },
+    });
+
+    res.json(redact(updated));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.post("/:id/rotate-secret", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const existing = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+
+    const [updated] = await db.update(tenantWebhookEndpoints)
+      .set({ secret: generateWebhookSecret(), updatedAt: new Date() })
+      .where(eq(tenantWebhookEndpoints.id, existing.id))
+      .returning();
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "update",
+      resource: "webhook_endpoint",
+      resourceId: existing.id,
+      metadata: { rotatedSecret: true },
+    });
+
+    res.json({ ...redact(updated), secret: updated.secret });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.post("/:id/test", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const endpoint = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    if (endpoint.status !== "active") {
+      return res.status(400).json({ message: "Webhook endpoint is disabled" });
+    }
+
+    res.json(await webhookService.sendTest(endpoint));
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.delete("/:id", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const existing = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+
+    await db.delete(tenantWebhookEndpoints).where(eq(tenantWebhookEndpoints.id, existing.id));
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "delete",
+      resource: "webhook_endpoint",
+      resourceId: existing.id,
+      metadata: { url: existing.url },
+    });
+
+    res.status(204).send();
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.get("/:id/deliveries", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const endpoint = await findEndpoint(isolation.getTenantId(), req.params.id);
+    if (!endpoint) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+
+    const { page, limit, status, eventType } = deliveriesQuerySchema.parse(req.query);
+    const offset = (page - 1) * limit;
+
+    const conditions = [
+      eq(tenantWebhookDeliveries.tenantId, isolation.getTenantId()),
+      eq(tenantWebhookDeliveries.endpointId, endpoint.id),
+    ];
+    if (status) conditions.push(eq(tenantWebhookDeliveries.status, status));
+    if (eventType) conditions.push(eq(tenantWebhookDeliveries.eventType, eventType));
+
+    const [data, countResult] = await Promise.all([
+      db.select()
+        .from(tenantWebhookDeliveries)
+        .where(and(...conditions))
+        .orderBy(desc(tenantWebhookDeliveries.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(tenantWebhookDeliveries)
+        .where(and(...conditions)),
+    ]);
+
+    const total = countResult[0]?.count || 0;
+    res.json({
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
+
+webhookEndpointsRouter.post("/deliveries/:deliveryId/replay", ...middleware, async (req: Request, res: Response) => {
+  try {
+    const isolation = createTenantIsolation(req);
+    const delivery = await webhookService.replay(isolation.getTenantId(), req.params.deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ message: "Webhook delivery not found" });
+    }
+
+    await auditService.logAsync({
+      tenantId: isolation.getTenantId(),
+      userId: req.context?.user?.id,
+      action: "create",
+      resource: "webhook_delivery",
+      resourceId: delivery.id,
+      metadata: { replayOf: req.params.deliveryId },
+    });
+
+    res.status(201).json(delivery);
+  } catch (error: any) {
+    res.status(400).json({ message: error.message });
+  }
+});
@@ -0,0 +1,288 @@
+import crypto from "crypto";
+import { db } from "../../db";
+import {
+  tenantWebhookEndpoints,
+  tenantWebhookDeliveries,
+  type TenantWebhookEndpoint,
+  type TenantWebhookDelivery,
+} from "@shared/schema";
+import { and, eq, lte, sql } from "drizzle-orm";
+import { matchesEventFilter, WEBHOOK_TEST_EVENT, type WebhookEventType } from "./events";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_DISABLE_AFTER_FAILURES,
+  signWebhookPayload,
+  nextRetryDelaySeconds,
+  shouldDisableEndpoint,
+  isSuccessfulResponse,
+} from "./delivery";
+import { postWebhook } from "./transport";
+
+const DUE_BATCH_SIZE = 50;
+// How long a claimed delivery stays invisible to other workers while it is sent
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 2000;
+
+export interface WebhookEnvelope {
+  id: string;
+  type: string;
+  createdAt: string;
+  tenantId: string;
+  data: Record<string, unknown>;
+}
+
+class WebhookService {
+  /**
+   * Queues an event for every active endpoint of the tenant subscribed to it
+   * and attempts the first delivery right away. Returns the number of
+   * deliveries queued.
+   */
+  async publish(tenantId: string, eventType: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+    const endpoints = await db.select()
+      .from(tenantWebhookEndpoints)
+      .where(and(eq(tenantWebhookEndpoints.tenantId, tenantId), eq(tenantWebhookEndpoints.status, "active")));
+
+    const subscribed = endpoints.filter((endpoint) => matchesEventFilter(endpoint.events, eventType));
+    if (subscribed.length === 0) return 0;
+
+    const envelope: WebhookEnvelope = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      tenantId,
+      data: JSON.parse(JSON.stringify(data)),
+    };
+
+    const deliveries = await db.insert(tenantWebhookDeliveries)
+      .values(subscribed.map((endpoint) => ({
+        tenantId,
+        endpointId: endpoint.id,
+        eventId: envelope.id,
+        eventType,
+        payload: envelope,
+        nextAttemptAt: new Date(),
+      })))
+      .returning();
+
+    for (const delivery of deliveries) {
+      await this.attemptClaimed(delivery.id);
+    }
+    return deliveries.length;
+  }
+
+  /**
+   * Fire-and-forget variant for request handlers, so a slow or failing
+   * receiver never delays or breaks the business operation.
+   */
+  publishAsync(tenantId: string, eventType: WebhookEventType, data: object): void {
+    setImmediate(async () => {
+      try {
+        await this.publish(tenantId, eventType, data as Record<string, unknown>);
+      } catch (error) {
+        console.error(`[webhooks] Failed to publish ${eventType}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Sends a one-off test event to an endpoint regardless of its filters.
+   */
+  async sendTest(endpoint: TenantWebhookEndpoint): Promise<TenantWebhookDelivery> {
+    const envelope: WebhookEnvelope = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      tenantId: endpoint.tenantId,
+      data: { message: "Test event" },
+    };
+
+    const [delivery] = await db.insert(tenantWebhookDeliveries).values({
+      tenantId: endpoint.tenantId,
+      endpointId: endpoint.id,
+      eventId: envelope.id,
+      eventType: WEBHOOK_TEST_EVENT,
+      payload: envelope,
+      nextAttemptAt: new Date(),
+    }).returning();
+
+    return (await this.attemptClaimed(delivery.id)) ?? delivery;
+  }
+
+  /**
+   * Re-sends the original payload of a past delivery as a new delivery, so
+   * the log keeps both attempts. Works for any status, including deliveries
+   * that exhausted their retries.
+   */
+  async replay(tenantId: string, deliveryId: string): Promise<TenantWebhookDelivery | null> {
+    const [original] = await db.select()
+      .from(tenantWebhookDeliveries)
+      .where(and(eq(tenantWebhookDeliveries.id, deliveryId), eq(tenantWebhookDeliveries.tenantId, tenantId)));
+    if (!original) return null;
+
+    const [delivery] = await db.insert(tenantWebhookDeliveries).values({
+      tenantId,
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      nextAttemptAt: new Date(),
+      replayOf: original.replayOf ?? original.id,
+    }).returning();
+
+    return (await this.attemptClaimed(delivery.id)) ?? delivery;
+  }
+
+  /**
+   * Retries deliveries whose backoff has elapsed. Called by the background
+   * job; deliveries of disabled endpoints wait until the endpoint is
+   * re-enabled.
+   */
+  async processDueDeliveries(): Promise<{ processed: number }> {
+    const due = await db.select({ id: tenantWebhookDeliveries.id })
+      .from(tenantWebhookDeliveries)
+      .innerJoin(tenantWebhookEndpoints, eq(tenantWebhookDeliveries.endpointId, tenantWebhookEndpoints.id))
+      .where(and(
+        eq(tenantWebhookDeliveries.status, "pending"),
+        lte(tenantWebhookDeliveries.nextAttemptAt, new Date()),
+        eq(tenantWebhookEndpoints.status, "active"),
+      ))
+      .orderBy(tenantWebhookDeliveries.nextAttemptAt)
+      .limit(DUE_BATCH_SIZE);
+
+    let processed = 0;
+    for (const { id } of due) {
+      if (await this.attemptClaimed(id)) processed++;
+    }
+    return { processed };
+  }
+
+  /**
+   * Claims a due delivery by pushing its nextAttemptAt past the lease, then
+   * sends it. Returns null when another worker got there first.
+   */
+  private async attemptClaimed(deliveryId: string): Promise<TenantWebhookDelivery | null> {
+    const now = new Date();
+    const [claimed] = await db.update(tenantWebhookDeliveries)
+      .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) })
+      .where(and(
+        eq(tenantWebhookDeliveries.id, deliveryId),
+        eq(tenantWebhookDeliveries.status, "pending"),
+        lte(tenantWebhookDeliveries.nextAttemptAt, now),
+      ))
+      .returning();
+    if (!claimed) return null;
+
+    const [endpoint] = await db.select()
+      .from(tenantWebhookEndpoints)
+      .where(eq(tenantWebhookEndpoints.id, claimed.endpointId));
+
+    if (!endpoint || endpoint.status !== "active") {
+      // Leave it queued; re-enabling the endpoint picks it up again
+      const [parked] = await db.update(tenantWebhookDeliveries)
+        .set({ nextAttemptAt: now, errorMessage: "Endpoint disabled", updatedAt: now })
+        .where(eq(tenantWebhookDeliveries.id, deliveryId))
+        .returning();
+      return parked;
+    }
+
+    return this.send(endpoint, claimed);
+  }
+
+  private async send(endpoint: TenantWebhookEndpoint, delivery: TenantWebhookDelivery): Promise<TenantWebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+      try {
+        const response = await postWebhook(endpoint.url, {
+          "Content-Type": "application/json",
+          "User-Agent": "BizFlow-Webhooks/1.0",
+          "X-Webhook-Id": delivery.eventId,
+          "X-Webhook-Event": delivery.eventType,
+          "X-Webhook-Timestamp": String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+        }, body, { signal: controller.signal, bodyLimit: RESPONSE_BODY_LIMIT });
+        responseStatus = response.status;
+        responseBody = response.body;
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (!isSuccessfulResponse(responseStatus)) {
+        errorMessage = `Endpoint responded with HTTP ${responseStatus}`;
+      }
+    } catch (error: any) {
+      errorMessage = error?.name === "AbortError"
+        ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms`
+        : error?.message || "Request failed";
+    }
+
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    const succeeded = errorMessage === null;
+    const retryIn = succeeded ? null : nextRetryDelaySeconds(attempts);
+
+    const [updated] = await db.update(tenantWebhookDeliveries)
+      .set({
+        status: succeeded ? "succeeded" : retryIn === null ? "failed" : "pending",
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: retryIn === null ? null : new Date(now.getTime() + retryIn * 1000),
+        responseStatus,
+        responseBody,
+        errorMessage,
+        durationMs: Date.now() - startedAt,
+        updatedAt: now,
+      })
+      .where(eq(tenantWebhookDeliveries.id, delivery.id))
+      .returning();
+
+    if (succeeded) {
+      await db.update(tenantWebhookEndpoints)
+        .set({ consecutiveFailures: 0, lastDeliveryAt: now, lastSuccessAt: now, updatedAt: now })
+        .where(eq(tenantWebhookEndpoints.id, endpoint.id));
+    } else {
+      await this.recordFailure(endpoint.id, now);
+    }
+
+    return updated;
+  }
+
+  private async recordFailure(endpointId: string, now: Date): Promise<void> {
+    const [endpoint] = await db.update(tenantWebhookEndpoints)
+      .set({
+        consecutiveFailures: sql`${tenantWebhookEndpoints.consecutiveFailures} + 1`,
+        lastDeliveryAt: now,
+        updatedAt: now,
+      })
+      .where(eq(tenantWebhookEndpoints.id, endpointId))
+      .returning();
+
+    if (endpoint && endpoint.status === "active" && shouldDisableEndpoint(endpoint.consecutiveFailures)) {
+      await db.update(tenantWebhookEndpoints)
+        .set({
+          status: "disabled",
+          disabledAt: now,
+          disabledReason: `Disabled after ${WEBHOOK_DISABLE_AFTER_FAILURES} consecutive failed deliveries`,
+          updatedAt: now,
+        })
+        .where(eq(tenantWebhookEndpoints.id, endpointId));
+      console.warn(`[webhooks] Endpoint ${endpointId} disabled after ${endpoint.consecutiveFailures} consecutive failures`);
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
+
+export async function processDueWebhookDeliveries(): Promise<{ processed: number }> {
+  return webhookService.processDueDeliveries();
+}
@@ -460,12 +460,27 @@ app.use((req, res, next) => {
   // Start background job for processing expired subscriptions
   startSubscriptionExpiryProcessor();
   
+  // Start background job for retrying failed renewal charges and sending dunning reminders
+  startDunningProcessor();
+  
   // Start background job for syncing addon entitlements
   startAddonEntitlementSync();
   
   // Start background job for cleaning up old login history
   startLoginHistoryCleanup();
   
+  // Start background job for gym membership renewal reminders and expiry
+  startGymMembershipExpiryProcessor();
+  
+  // Start background job for applying PG/hostel rent late fees
+  startPgLateFeeProcessor();
+  
+  // Start background job for retrying outbound webhook deliveries
+  startWebhookDeliveryProcessor();
+  
+  // Start background job for applying data retention policies
+  startRetentionPolicyProcessor();
+  
   // Start background job for cleaning up expired refresh tokens
   startCleanupScheduler();
   
@@ -535,6 +550,14 @@ function startSubscriptionExpiryProcessor() {
   }, 60 * 60 * 1000, 10000);
 }
 
+function startDunningProcessor() {
+  createResilientJob("subscription-dunning", async () => {
+    const { processDueDunningCases } = await import("./core/dunning");
+    const result = await processDueDunningCases();
+    return { count: result.processed };
+  }, 60 * 60 * 1000, 12000);
+}
+
 function startAddonEntitlementSync() {
   createResilientJob("addon-entitlement-sync", async () => {
     const { syncExpiredAddons } = await import("./services/entitlement");
@@ -543,6 +566,38 @@ function startAddonEntitlementSync() {
   }, 60 * 60 * 1000, 15000);
 }
 
+function startGymMembershipExpiryProcessor() {
+  createResilientJob("gym-membership-expiry", async () => {
+    const { processGymMembershipExpiry } = await import("./core/gym/membership-expiry");
+    const result = await processGymMembershipExpiry();
+    return { count: result.processed };
+  }, 60 * 60 * 1000, 20000);
+}
+
+function startPgLateFeeProcessor() {
+  createResilientJob("pg-late-fees", async () => {
+    const { processPgLateFees } = await import("./core/pg-hostel/late-fees");
+    const result = await processPgLateFees();
+    return { count: result.processed };
+  }, 60 * 60 * 1000, 25000);
+}
+
+function startWebhookDeliveryProcessor() {
+  createResilientJob("webhook-deliveries", async () => {
+    const { processDueWebhookDeliveries } = await import("./core/webhooks");
+    const result = await processDueWebhookDeliveries();
+    return { count: result.processed };
+  }, 60 * 1000, 30000);
+}
+
+function startRetentionPolicyProcessor() {
+  createResilientJob("retention-policies", async () => {
+    const { processDueRetentionPolicies } = await import("./core/compliance/retention-executor");
+    const result = await processDueRetentionPolicies();
+    return { count: result.processed };
+  }, 60 * 60 * 1000, 35000);
+}
+
 function startLoginHistoryCleanup() {
   createResilientJob("login-history-cleanup", async () => {
     const { cleanupOldLoginHistory } = await import("./services/login-history");
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { subscriptionService } from "../services/subscription";
+import { dunningService, type DunningAccess } from "../core/dunning/dunning-service";
+import { stageAllows } from "../core/dunning/ladder";
 
 export interface SubscriptionGateOptions {
   requiredTiers?: string[];
@@ -23,7 +25,29 @@ export function requireSubscription(options: SubscriptionGateOptions = {}) {
       });
     }
 
-    const subscription = await subscriptionService.getActiveSubscription(tenantId);
+    let subscription = await subscriptionService.getActiveSubscription(tenantId);
+    let dunning: DunningAccess | null = null;
+
+    // A past-due tenant keeps degraded access while its dunning ladder runs
+    if (!subscription) {
+      dunning = await dunningService.getAccess(tenantId);
+      if (dunning) {
+        const premium = Boolean(options.requiredFeatures?.length || options.requiredTiers?.length);
+        if (!stageAllows(dunning.stage, { method: req.method, premium })) {
+          return res.status(402).json({
+            error: "Payment past due",
+            code: "PAYMENT_PAST_DUE",
+            message: dunning.stage === "limited"
+              ? "This feature is paused until your overdue payment is made"
+              : "Your account is read-only until your overdue payment is made",
+            accessStage: dunning.stage,
+            billingUrl: "/subscription/billing"
+          });
+        }
+        res.setHeader("X-Subscription-Access", dunning.stage);
+        subscription = dunning.subscription;
+      }
+    }
     
     if (!subscription) {
       return res.status(402).json({ 
@@ -44,7 +68,7 @@ export function requireSubscription(options: SubscriptionGateOptions = {}) {
       }
     }
 
-    if (subscription.status === "past_due") {
+    if (subscription.status === "past_due" && !dunning) {
       return res.status(402).json({
         error: "Payment past due",
         code: "PAYMENT_PAST_DUE",
@@ -84,7 +108,7 @@ export function requireSubscription(options: SubscriptionGateOptions = {}) {
 
     if (options.requiredModules && options.requiredModules.length > 0) {
       for (const moduleId of options.requiredModules) {
-        const access = await subscriptionService.canAccessModule(tenantId, moduleId);
+        const access = await subscriptionService.canAccessModule(tenantId, moduleId, plan);
         if (!access.allowed) {
           return res.status(403).json({
             error: access.reason,
@@ -99,7 +123,7 @@ export function requireSubscription(options: SubscriptionGateOptions = {}) {
 
     if (options.requiredFeatures && options.requiredFeatures.length > 0) {
       for (const feature of options.requiredFeatures) {
-        const hasFeature = await subscriptionService.canAccessFeature(tenantId, feature);
+        const hasFeature = await subscriptionService.canAccessFeature(tenantId, feature, plan);
         if (!hasFeature) {
           return res.status(403).json({
             error: `Feature '${feature}' requires upgrade`,
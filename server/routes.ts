@@ -10,7 +10,6 @@ import {
   insertPaymentSchema, insertInventoryCategorySchema, insertInventoryItemSchema,
   insertInventoryTransactionSchema, insertMembershipPlanSchema, insertCustomerMembershipSchema,
   insertPatientSchema, insertDoctorSchema, insertAppointmentSchema, insertMedicalRecordSchema,
-  insertSpaceSchema, insertDeskBookingSchema,
   tenants, userTenants, users, roles, refreshTokens, customers, staff, tenantFeatures, auditLogs, tenantStaff,
   tenantSubscriptions, subscriptionInvoices, transactionLogs, countryPricingConfigs, invoiceTemplates, globalPricingPlans,
   services, bookings, invoices, payments, projects, deleteJobs, timesheets, patientDocuments, documentShareLinks,
@@ -38,11 +37,33 @@ import {
   DataMasking,
   whatsappService,
   initializeWhatsappProviders,
+  deviceRegistry,
+  webhookService,
+  webhookEndpointsRouter,
+  invoiceLedgerService,
+  invoiceLedgerRouter,
+  accountingService,
+  accountingRouter,
+  bankReconciliationRouter,
+  accountingExportRouter,
+  dunningRouter,
+  dunningAdminRouter,
+  procurementRouter,
+  stockRouter,
+  mrpRouter,
+  productionSchedulingRouter,
+  productConfiguratorRouter,
   realEstateRouter,
   tourismRouter,
   educationRouter,
   logisticsRouter,
   legalRouter,
+  clinicRouter,
+  salonRouter,
+  gymRouter,
+  pgHostelRouter,
+  coworkingRouter,
+  generalServiceRouter,
   getCanonicalDashboardRoute,
   validateDashboardAccessAsync,
   enforceDashboardLock,
@@ -51,6 +72,7 @@ import {
 import { authenticateHybrid } from "./core/auth-middleware";
 import { ssoRoutes } from "./sso";
 import { domainRoutes } from "./core/domain";
+import { publicApiV1Router, invalidApiScopes } from "./core/public-api";
 import { complianceService } from "./core/compliance/compliance-service";
 import complianceRoutes from "./core/compliance/compliance-routes";
 import indiaComplianceRoutes from "./core/india-compliance/india-compliance-routes";
@@ -456,7 +478,31 @@ export async function registerRoutes(
   // Register Legal module routes (protected)
   app.use('/api/legal', ...moduleProtectedMiddleware("legal"), legalRouter);
 
+  // Register Clinic module routes (protected; serves both clinic and clinic_healthcare tenants)
+  app.use('/api/clinic', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("clinic"), clinicRouter);
+
+  // Register Salon module routes (protected)
+  app.use('/api/salon', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("salon"), salonRouter);
+
+  // Register Gym module routes (protected)
+  app.use('/api/gym', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("gym"), gymRouter);
+
+  // Register PG/Hostel module routes (protected)
+  app.use('/api/pg', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("pg_hostel"), pgHostelRouter);
+
+  // Register Coworking module routes (protected)
+  app.use('/api/coworking', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("coworking"), coworkingRouter);
+
+  // Register General Service module routes (protected)
+  app.use('/api/service', authenticateHybrid({ required: true }), tenantResolutionMiddleware(), enforceTenantBoundary(), tenantIsolationMiddleware(), requireModule("general_service"), generalServiceRouter);
+
   // Register Furniture Manufacturing module routes (protected)
+  // Material requirements planning, reservations and back-flushing for production orders
+  app.use('/api/furniture/mrp', ...moduleProtectedMiddleware("furniture_manufacturing"), mrpRouter);
+  // Work centers, capacity-aware stage scheduling and the production Gantt
+  app.use('/api/furniture/scheduling', ...moduleProtectedMiddleware("furniture_manufacturing"), productionSchedulingRouter);
+  // Product options, configuration pricing rules and quotations
+  app.use('/api/furniture/configurator', ...moduleProtectedMiddleware("furniture_manufacturing"), productConfiguratorRouter);
   app.use('/api/furniture', ...moduleProtectedMiddleware("furniture_manufacturing"), furnitureRoutes);
 
   // Register Software Services module routes (protected)
@@ -489,6 +535,9 @@ export async function registerRoutes(
   // Public routes (no auth required)
   app.use('/api/public', publicRoutes);
   
+  // Versioned public REST API (API token auth with per-route scopes)
+  app.use('/api/v1', publicApiV1Router);
+  
   // Catalog routes - public access for registration flow
   app.use('/api/catalog', catalogRoutes);
   
@@ -522,6 +571,30 @@ export async function registerRoutes(
   // Security routes (force logout, IP rules, alerts)
   app.use('/api/settings/security', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, securityRoutes);
   
+  // Outbound webhook endpoints, delivery log and replay
+  app.use('/api/settings/webhooks', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, webhookEndpointsRouter);
+  
+  // Cross-module invoice ledger: numbering series, credit/debit notes, refunds and receivables
+  app.use('/api/invoice-ledger', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, invoiceLedgerRouter);
+  
+  // General ledger: chart of accounts, journals, financial statements and period close
+  app.use('/api/accounting', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, accountingRouter);
+  
+  // Bank statement import and payment reconciliation
+  app.use('/api/bank-reconciliation', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, bankReconciliationRouter);
+  
+  // Tally, QuickBooks and Xero exports of invoices, notes and payments
+  app.use('/api/accounting-exports', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, accountingExportRouter);
+  
+  // Overdue subscription status and card-update links for the tenant's billing page
+  app.use('/api/dunning', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, dunningRouter);
+  
+  // Suppliers, purchase orders, goods receipts and supplier bills
+  app.use('/api/procurement', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, procurementRouter);
+  
+  // Warehouses, stock lots, transfers, valuation and cycle counts for inventory items
+  app.use('/api/stock', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, stockRouter);
+  
   // Security sessions, step-up auth, and audit routes
   app.use('/api/security', authenticateHybrid({ required: true }), enforceTenantBoundary(), sessionVersionMiddleware, securitySessionsRoutes);
   
@@ -2129,17 +2202,29 @@ export async function registerRoutes(
         return res.status(403).json({ message: "No tenant access" });
       }
 
-      const { name, scopes, expiresInDays } = req.body;
+      const { name, scopes, expiresInDays, rateLimitPerMinute } = req.body;
       if (!name) {
         return res.status(400).json({ message: "Token name required" });
       }
 
+      if (scopes !== undefined && !Array.isArray(scopes)) {
+        return res.status(400).json({ message: "scopes must be an array" });
+      }
+      const unknownScopes = invalidApiScopes(scopes || []);
+      if (unknownScopes.length > 0) {
+        return res.status(400).json({ message: "Unknown scopes", scopes: unknownScopes });
+      }
+      if (rateLimitPerMinute !== undefined && (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > 10000)) {
+        return res.status(400).json({ message: "rateLimitPerMinute must be an integer between 1 and 10000" });
+      }
+
       const { token, tokenId } = await jwtAuthService.generateApiToken(
         userId,
         tenantId,
         name,
         scopes || [],
-        expiresInDays
+        expiresInDays,
+        rateLimitPerMinute
       );
 
       res.status(201).json({
@@ -3168,6 +3253,9 @@ export async function registerRoutes(
   // Admin promo/coupon routes - Super Admin only
   app.use('/api/admin/billing/promos', authenticateJWT(), requirePlatformAdmin("SUPER_ADMIN"), adminBillingPromosRoutes);
   
+  // Dunning schedules, cases and revenue-recovery reports (platform admins)
+  app.use('/api/admin/billing/dunning', dunningAdminRouter);
+  
   // Admin country rollout routes
   app.use('/api/super-admin/countries', adminCountriesRoutes);
   
@@ -7494,6 +7582,7 @@ export async function registerRoutes(
         ipAddress: req.ip,
         userAgent: req.headers["user-agent"],
       });
+      webhookService.publishAsync(tenantId, "customer.created", customer);
       
       res.status(201).json(customer);
     } catch (error) {
@@ -7803,41 +7892,6 @@ export async function registerRoutes(
     }
   });
 
-  // Salon Dashboard Stats
-  app.get("/api/salon/stats", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) {
-        return res.status(403).json({ message: "No tenant access" });
-      }
-
-      const today = new Date().toISOString().split('T')[0];
-      const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0];
-
-      const [customers, services, bookings] = await Promise.all([
-        storage.getCustomers(tenantId),
-        storage.getServices(tenantId),
-        storage.getBookings(tenantId),
-      ]);
-
-      const todayAppointments = bookings.filter(b => b.bookingDate === today).length;
-      const activeServices = services.filter(s => s.isActive !== false).length;
-      const monthlyRevenue = bookings
-        .filter(b => b.bookingDate && b.bookingDate >= startOfMonth && b.status === "completed")
-        .reduce((sum, b) => sum + (parseFloat(b.amount?.toString() || "0")), 0);
-
-      res.json({
-        totalClients: customers.length,
-        todayAppointments,
-        activeServices,
-        monthlyRevenue,
-      });
-    } catch (error) {
-      console.error("Error fetching salon stats:", error);
-      res.status(500).json({ message: "Failed to fetch salon stats" });
-    }
-  });
-
   app.get("/api/bookings", authenticateHybrid(), async (req, res) => {
     try {
       const tenantId = getTenantId(req);
@@ -7906,6 +7960,7 @@ export async function registerRoutes(
         ipAddress: req.ip,
         userAgent: req.headers["user-agent"],
       });
+      webhookService.publishAsync(tenantId, "booking.created", booking);
       
       res.status(201).json(booking);
     } catch (error) {
@@ -7937,6 +7992,7 @@ export async function registerRoutes(
         ipAddress: req.ip,
         userAgent: req.headers["user-agent"],
       });
+      webhookService.publishAsync(tenantId, "booking.updated", booking);
       
       res.json(booking);
     } catch (error) {
@@ -8232,6 +8288,8 @@ export async function registerRoutes(
           });
         }
       }
+      webhookService.publishAsync(tenantId, "invoice.created", invoice);
+      invoiceLedgerService.postAsync(tenantId, "core", invoice.id);
       res.status(201).json(invoice);
     } catch (error) {
       console.error("Error creating invoice:", error);
@@ -8248,6 +8306,7 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Invoice not found" });
       }
       const invoice = await storage.updateInvoice(req.params.id, tenantId, req.body);
+      invoiceLedgerService.postAsync(tenantId, "core", req.params.id);
       res.json(invoice);
     } catch (error) {
       console.error("Error updating invoice:", error);
@@ -8264,6 +8323,7 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Invoice not found" });
       }
       await storage.deleteInvoice(req.params.id, tenantId);
+      invoiceLedgerService.postAsync(tenantId, "core", req.params.id);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting invoice:", error);
@@ -8346,13 +8406,22 @@ export async function registerRoutes(
           const currentPaid = parseFloat(invoice.paidAmount || "0") || 0;
           const totalAmount = parseFloat(invoice.totalAmount) || 0;
           const newPaidAmount = Math.max(0, currentPaid + paymentAmountInInvoiceCurrency);
-          await storage.updateInvoice(payment.invoiceId, tenantId, { 
+          const updatedInvoice = await storage.updateInvoice(payment.invoiceId, tenantId, { 
             paidAmount: newPaidAmount.toFixed(2),
             status: newPaidAmount >= totalAmount ? "paid" : newPaidAmount > 0 ? "partial" : invoice.status,
             paidAt: newPaidAmount >= totalAmount ? new Date() : invoice.paidAt,
           });
+          if (updatedInvoice?.status === "paid" && invoice.status !== "paid") {
+            webhookService.publishAsync(tenantId, "invoice.paid", updatedInvoice);
+          }
+          invoiceLedgerService.postAsync(tenantId, "core", payment.invoiceId);
         }
       }
+      webhookService.publishAsync(tenantId, "payment.received", payment);
+      accountingService.postAsync(tenantId, "payment", payment.id);
+      if (payment.refundAmount) {
+        accountingService.postAsync(tenantId, "payment_refund", payment.id);
+      }
       res.status(201).json(payment);
     } catch (error) {
       console.error("Error creating payment:", error);
@@ -8360,6 +8429,48 @@ export async function registerRoutes(
     }
   });
 
+  const paymentRefundSchema = z.object({
+    amount: z.number().positive().optional(),
+    reason: z.string().min(1).max(500),
+  });
+
+  app.post("/api/payments/:id/refund", ...tenantProtectedMiddleware, requireMinimumRole("manager"), async (req, res) => {
+    try {
+      const tenantId = getTenantId(req);
+      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
+      const parsed = paymentRefundSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
+
+      const existing = await storage.getPayment(req.params.id, tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (existing.refundAmount) {
+        return res.status(409).json({ message: "Payment has already been refunded" });
+      }
+      if (existing.status !== "paid" && existing.status !== "partial") {
+        return res.status(400).json({ message: "Only received payments can be refunded" });
+      }
+      const paid = parseFloat(existing.amount);
+      const refundAmount = parsed.data.amount ?? paid;
+      if (refundAmount > paid) {
+        return res.status(400).json({ message: "Refund exceeds the payment amount" });
+      }
+
+      const payment = await storage.updatePayment(existing.id, tenantId, {
+        refundAmount: refundAmount.toFixed(2),
+        refundedAt: new Date(),
+        refundReason: parsed.data.reason,
+        ...(refundAmount >= paid ? { status: "refunded" as const } : {}),
+      });
+      accountingService.postAsync(tenantId, "payment_refund", existing.id);
+      res.json(payment);
+    } catch (error) {
+      console.error("Error refunding payment:", error);
+      res.status(500).json({ message: "Failed to refund payment" });
+    }
+  });
+
   // ==================== INVENTORY CATEGORIES ====================
   app.get("/api/inventory/categories", authenticateHybrid(), async (req, res) => {
     try {
@@ -8448,6 +8559,7 @@ export async function registerRoutes(
         tenantId, itemId: req.params.id, type, quantity: qty, previousStock, newStock,
         notes, createdBy: getUserId(req),
       });
+      accountingService.postAsync(tenantId, "inventory_transaction", transaction.id);
       res.status(201).json(transaction);
     } catch (error) {
       console.error("Error adjusting inventory:", error);
@@ -8541,127 +8653,6 @@ export async function registerRoutes(
     }
   });
 
-  // ==================== COWORKING MODULE ====================
-
-  app.get("/api/coworking/spaces", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const spacesList = await storage.getSpaces(tenantId);
-      res.json(spacesList);
-    } catch (error) {
-      console.error("Error fetching spaces:", error);
-      res.status(500).json({ message: "Failed to fetch spaces" });
-    }
-  });
-
-  app.get("/api/coworking/spaces/:id", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const space = await storage.getSpace(req.params.id, tenantId);
-      if (!space) return res.status(404).json({ message: "Space not found" });
-      res.json(space);
-    } catch (error) {
-      console.error("Error fetching space:", error);
-      res.status(500).json({ message: "Failed to fetch space" });
-    }
-  });
-
-  app.post("/api/coworking/spaces", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const parsed = insertSpaceSchema.safeParse({ ...req.body, tenantId });
-      if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
-      const space = await storage.createSpace(parsed.data);
-      res.status(201).json(space);
-    } catch (error) {
-      console.error("Error creating space:", error);
-      res.status(500).json({ message: "Failed to create space" });
-    }
-  });
-
-  app.patch("/api/coworking/spaces/:id", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const existing = await storage.getSpace(req.params.id, tenantId);
-      if (!existing) return res.status(404).json({ message: "Space not found" });
-      
-      // Only allow updating specific fields (whitelist approach for security)
-      const allowedFields = ["name", "location", "description", "capacity", "amenities", "isActive"];
-      const updates: Record<string, unknown> = {};
-      for (const key of allowedFields) {
-        if (key in req.body) {
-          updates[key] = req.body[key];
-        }
-      }
-      
-      const space = await storage.updateSpace(req.params.id, tenantId, updates);
-      res.json(space);
-    } catch (error) {
-      console.error("Error updating space:", error);
-      res.status(500).json({ message: "Failed to update space" });
-    }
-  });
-
-  app.delete("/api/coworking/spaces/:id", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const existing = await storage.getSpace(req.params.id, tenantId);
-      if (!existing) return res.status(404).json({ message: "Space not found" });
-      await storage.deleteSpace(req.params.id, tenantId);
-      res.status(204).send();
-    } catch (error) {
-      console.error("Error deleting space:", error);
-      res.status(500).json({ message: "Failed to delete space" });
-    }
-  });
-
-  app.get("/api/coworking/desks", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const spaceId = req.query.spaceId as string | undefined;
-      const desks = await storage.getDesks(tenantId, spaceId);
-      res.json(desks);
-    } catch (error) {
-      console.error("Error fetching desks:", error);
-      res.status(500).json({ message: "Failed to fetch desks" });
-    }
-  });
-
-  app.post("/api/coworking/book", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      const userId = getUserId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      if (!userId) return res.status(401).json({ message: "User not authenticated" });
-      const parsed = insertDeskBookingSchema.safeParse({ ...req.body, tenantId, userId });
-      if (!parsed.success) return res.status(400).json({ message: parsed.error.message });
-      const booking = await storage.createDeskBooking(parsed.data);
-      res.status(201).json(booking);
-    } catch (error) {
-      console.error("Error creating desk booking:", error);
-      res.status(500).json({ message: "Failed to create booking" });
-    }
-  });
-
-  app.get("/api/coworking/bookings", authenticateHybrid(), async (req, res) => {
-    try {
-      const tenantId = getTenantId(req);
-      const userId = getUserId(req);
-      if (!tenantId) return res.status(403).json({ message: "No tenant access" });
-      const bookings = await storage.getDeskBookings(tenantId, userId);
-      res.json(bookings);
-    } catch (error) {
-      console.error("Error fetching desk bookings:", error);
-      res.status(500).json({ message: "Failed to fetch bookings" });
-    }
-  });
-
   // ==================== PATIENTS (Healthcare) ====================
   const patientDataMasking = dataMaskingMiddleware({
     email: "email",
@@ -11795,6 +11786,7 @@ export async function registerRoutes(
           emailEnabled: true,
           whatsappEnabled: false,
           smsEnabled: false,
+          pushEnabled: true,
           quietHoursEnabled: false,
           quietHoursStart: null,
           quietHoursEnd: null,
@@ -11835,5 +11827,78 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // PUSH DEVICE REGISTRATION ROUTES
+  // ============================================
+
+  const registerPushDeviceSchema = z.object({
+    fcmToken: z.string().min(1),
+    platform: z.enum(["ios", "android"]),
+    tenantId: z.string().optional().nullable(),
+    deviceId: z.string().optional(),
+    deviceName: z.string().optional(),
+    appVersion: z.string().optional(),
+    osVersion: z.string().optional(),
+  });
+
+  // Register or refresh the push token of the current user's device
+  app.post("/api/notifications/register-device", authenticateHybrid(), async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const tenantId = getTenantId(req);
+
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!tenantId) {
+        return res.status(400).json({ message: "Tenant context required" });
+      }
+
+      const parsed = registerPushDeviceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid device data", errors: parsed.error.flatten() });
+      }
+
+      const device = await deviceRegistry.register({
+        tenantId,
+        userId,
+        platform: parsed.data.platform,
+        pushToken: parsed.data.fcmToken,
+        deviceId: parsed.data.deviceId,
+        deviceName: parsed.data.deviceName,
+        provider: "fcm",
+        appVersion: parsed.data.appVersion,
+        osVersion: parsed.data.osVersion,
+      });
+
+      res.json({ success: true, deviceId: device.deviceId });
+    } catch (error) {
+      console.error("Register push device error:", error);
+      res.status(500).json({ message: "Failed to register device" });
+    }
+  });
+
+  // Stop pushes to a token, e.g. on sign-out
+  app.post("/api/notifications/unregister-device", authenticateHybrid(), async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const parsed = z.object({ fcmToken: z.string().min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid device data", errors: parsed.error.flatten() });
+      }
+
+      await deviceRegistry.unregisterToken(userId, parsed.data.fcmToken);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Unregister push device error:", error);
+      res.status(500).json({ message: "Failed to unregister device" });
+    }
+  });
+
   return httpServer;
 }
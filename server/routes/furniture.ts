@@ -53,6 +53,11 @@ import { seedFurnitureDemoData } from "../seed/furniture-demo-data";
 import { currencyService } from "../services/currency";
 import { taxCalculatorService } from "../services/tax-calculator";
 import { invoicePDFService } from "../services/invoice-pdf";
+import { invoiceLedgerService } from "../core/invoicing";
+import { accountingService } from "../core/accounting";
+import { MrpError, mrpService } from "../core/mrp";
+import { productionSchedulingService } from "../core/production-scheduling";
+import { ConfiguratorError, productConfiguratorService } from "../core/product-configurator";
 import { analyticsService } from "../services/analytics";
 import { aiInsightsService } from "../services/ai-insights";
 import { startOfDay, endOfDay, subDays, subMonths, parseISO } from "date-fns";
@@ -636,6 +641,7 @@ router.post("/bom/:bomId/components", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Tenant ID required" });
     }
     const data = insertBomComponentSchema.parse({ ...req.body, bomId: req.params.bomId });
+    await mrpService.validateComponent(tenantId, req.params.bomId, data);
     const component = await storage.createBomComponent(data, tenantId);
     res.status(201).json(component);
   } catch (error) {
@@ -643,6 +649,9 @@ router.post("/bom/:bomId/components", async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: "Validation failed", details: error.errors });
     }
+    if (error instanceof MrpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to create BOM component" });
   }
 });
@@ -653,6 +662,9 @@ router.patch("/bom/:bomId/components/:id", async (req: Request, res: Response) =
     if (!tenantId) {
       return res.status(400).json({ error: "Tenant ID required" });
     }
+    if (req.body.rawMaterialId !== undefined || req.body.componentProductId !== undefined) {
+      await mrpService.validateComponent(tenantId, req.params.bomId, req.body, req.params.id);
+    }
     const component = await storage.updateBomComponent(req.params.id, req.params.bomId, tenantId, req.body);
     if (!component) {
       return res.status(404).json({ error: "BOM component not found" });
@@ -660,6 +672,9 @@ router.patch("/bom/:bomId/components/:id", async (req: Request, res: Response) =
     res.json(component);
   } catch (error) {
     console.error("Error updating BOM component:", error);
+    if (error instanceof MrpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to update BOM component" });
   }
 });
@@ -778,6 +793,10 @@ router.post("/production-orders", async (req: Request, res: Response) => {
       orderNumber,
     });
     const order = await storage.createProductionOrder(data);
+    // An order created already released holds its materials straight away
+    if (order.status === "pending" || order.status === "in_progress" || order.status === "on_hold") {
+      await mrpService.releaseOrder(tenantId, order.id);
+    }
     
     // Create default production stages
     const defaultStages = ["cutting", "assembly", "finishing", "quality_check", "ready_for_dispatch"];
@@ -797,6 +816,9 @@ router.post("/production-orders", async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: "Validation failed", details: error.errors });
     }
+    if (error instanceof MrpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to create production order" });
   }
 });
@@ -818,15 +840,20 @@ router.patch("/production-orders/:id", async (req: Request, res: Response) => {
     }
 
     const existing = await storage.getProductionOrder(req.params.id, tenantId);
-    const order = await storage.updateProductionOrder(req.params.id, tenantId, req.body);
-    if (!order) {
+    if (!existing) {
       return res.status(404).json({ error: "Production order not found" });
     }
 
+    // Releasing an order reserves its materials; closing it back-flushes or hands back what is left
+    const order = await mrpService.updateOrder(tenantId, userId, existing.id, req.body);
+
     await logFurnitureAudit(tenantId, userId, "update", "production_order", req.params.id, existing, order);
     res.json(order);
   } catch (error) {
     console.error("Error updating production order:", error);
+    if (error instanceof MrpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to update production order" });
   }
 });
@@ -837,6 +864,10 @@ router.delete("/production-orders/:id", async (req: Request, res: Response) => {
     if (!tenantId) {
       return res.status(400).json({ error: "Tenant ID required" });
     }
+    const existing = await storage.getProductionOrder(req.params.id, tenantId);
+    if (existing) {
+      await mrpService.closeOrder(tenantId, getUserId(req), existing.id, "cancelled");
+    }
     await storage.deleteProductionOrder(req.params.id, tenantId);
     res.status(204).send();
   } catch (error) {
@@ -890,6 +921,11 @@ router.patch("/production-orders/:orderId/stages/:id", async (req: Request, res:
         });
         return res.status(400).json({ error: validation.error });
       }
+
+      // Completing a stage back-flushes the materials it uses; skipping it hands them back
+      if (desiredStatus === "completed" || desiredStatus === "skipped") {
+        await mrpService.backflushStage(tenantId, userId, req.params.orderId, existingStage.id, desiredStatus);
+      }
     }
 
     const stage = await storage.updateProductionStage(req.params.id, req.params.orderId, tenantId, req.body);
@@ -897,10 +933,18 @@ router.patch("/production-orders/:orderId/stages/:id", async (req: Request, res:
       return res.status(404).json({ error: "Production stage not found" });
     }
 
+    // A late start or finish pushes the stages after it back on the schedule
+    if (stage.status !== existingStage.status && (stage.status === "in_progress" || stage.status === "completed")) {
+      productionSchedulingService.followStageProgressAsync(tenantId, req.params.orderId, stage.id);
+    }
+
     await logFurnitureAudit(tenantId, userId, "update", "production_stage", req.params.id, existingStage, stage);
     res.json(stage);
   } catch (error) {
     console.error("Error updating production stage:", error);
+    if (error instanceof MrpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to update production stage" });
   }
 });
@@ -1344,6 +1388,17 @@ router.post("/sales-orders", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Tenant ID required" });
     }
 
+    // Converting a quotation: its lines, configurations and totals carry over
+    if (req.body.quotationId) {
+      const { quotationId, ...overrides } = req.body;
+      const order = await productConfiguratorService.convertQuotation(tenantId, userId, quotationId, {
+        ...overrides,
+        orderNumber: `SO-${Date.now()}`,
+      });
+      await logFurnitureAudit(tenantId, userId, "create", "sales_order", order.id, null, order, { quotationId });
+      return res.status(201).json(order);
+    }
+
     if (req.body.subtotal && req.body.taxAmount && req.body.totalAmount) {
       const totalsCheck = furnitureGuardrails.validateTotals(
         req.body.subtotal, req.body.taxAmount, req.body.totalAmount
@@ -1380,6 +1435,9 @@ router.post("/sales-orders", async (req: Request, res: Response) => {
     res.status(201).json(order);
   } catch (error) {
     console.error("Error creating sales order:", error);
+    if (error instanceof ConfiguratorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: "Validation failed", details: error.errors });
     }
@@ -1474,14 +1532,24 @@ router.post("/sales-orders/:orderId/items", async (req: Request, res: Response)
     if (!tenantId) {
       return res.status(400).json({ error: "Tenant ID required" });
     }
+    // Configured products are priced and get their BOM from the product's rules
+    const configured = req.body.configuration && req.body.productId
+      ? await productConfiguratorService.configureSalesItem(tenantId, req.body)
+      : null;
     const data = insertFurnitureSalesOrderItemSchema.parse({ 
       ...req.body, 
+      ...configured,
       salesOrderId: req.params.orderId 
     });
     const item = await storage.createFurnitureSalesOrderItem(data, tenantId);
-    res.status(201).json(item);
+    res.status(201).json(configured
+      ? await productConfiguratorService.attachConfiguration(tenantId, req.params.orderId, item.id, configured)
+      : item);
   } catch (error) {
     console.error("Error creating sales order item:", error);
+    if (error instanceof ConfiguratorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: "Validation failed", details: error.errors });
     }
@@ -1495,13 +1563,43 @@ router.patch("/sales-orders/:orderId/items/:id", async (req: Request, res: Respo
     if (!tenantId) {
       return res.status(400).json({ error: "Tenant ID required" });
     }
-    const item = await storage.updateFurnitureSalesOrderItem(req.params.id, req.params.orderId, tenantId, req.body);
+    // Configurations and their BOMs only change through the configurator
+    const { configuration, configuredBom: _, ...fields } = req.body;
+    let changes = fields;
+    let configured: Awaited<ReturnType<typeof productConfiguratorService.configureSalesItem>> | null = null;
+    if (configuration) {
+      const items = await storage.getFurnitureSalesOrderItems(req.params.orderId, tenantId);
+      const existing = items.find((candidate) => candidate.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Sales order item not found" });
+      }
+      const productId = fields.productId ?? existing.productId;
+      if (!productId) {
+        return res.status(400).json({ error: "Only product items can be configured" });
+      }
+      configured = await productConfiguratorService.configureSalesItem(tenantId, {
+        productId,
+        configuration,
+        quantity: fields.quantity ?? existing.quantity,
+        discountPercentage: fields.discountPercentage ?? existing.discountPercentage,
+        taxRate: fields.taxRate ?? existing.taxRate,
+        description: fields.description,
+      });
+      const { configuration: _selections, configuredBom: _bom, ...priced } = configured;
+      changes = { ...fields, ...priced, productId };
+    }
+    const item = await storage.updateFurnitureSalesOrderItem(req.params.id, req.params.orderId, tenantId, changes);
     if (!item) {
       return res.status(404).json({ error: "Sales order item not found" });
     }
-    res.json(item);
+    res.json(configured
+      ? await productConfiguratorService.attachConfiguration(tenantId, req.params.orderId, item.id, configured)
+      : item);
   } catch (error) {
     console.error("Error updating sales order item:", error);
+    if (error instanceof ConfiguratorError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     res.status(500).json({ error: "Failed to update sales order item" });
   }
 });
@@ -2312,6 +2410,7 @@ router.patch("/invoices/:id", async (req: Request, res: Response) => {
       details: validationResult.data,
     });
 
+    invoiceLedgerService.postAsync(tenantId, "furniture", updated.id);
     res.json(updated);
   } catch (error) {
     console.error("Error updating invoice:", error);
@@ -2369,6 +2468,7 @@ router.post("/invoices/:id/issue", async (req: Request, res: Response) => {
       details: { action: "issued", pdfGenerated: true },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "furniture", updated.id);
     res.json({ ...updated, pdfAvailable: true });
   } catch (error) {
     console.error("Error issuing invoice:", error);
@@ -2477,6 +2577,8 @@ router.post("/invoices/:id/payments", async (req: Request, res: Response) => {
       details: { invoiceId: invoice.id, amount, paymentMethod },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "furniture", invoice.id);
+    accountingService.postAsync(tenantId, "furniture_payment", payment.id);
     res.status(201).json(payment);
   } catch (error) {
     console.error("Error recording payment:", error);
@@ -2556,6 +2658,7 @@ router.post("/invoices/:id/cancel", async (req: Request, res: Response) => {
       details: { action: "cancelled", reason: req.body.reason },
     });
 
+    invoiceLedgerService.postAsync(tenantId, "furniture", updated.id);
     res.json(updated);
   } catch (error) {
     console.error("Error cancelling invoice:", error);
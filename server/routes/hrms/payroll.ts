@@ -32,7 +32,7 @@
 
 import { Router, Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import { requireMinimumRole, auditService } from "../../core";
+import { requireMinimumRole, auditService, accountingService } from "../../core";
 import PayrollService from "../../services/hrms/payrollService";
 import { hrmsStorage } from "../../storage/hrms";
 import { db } from "../../db";
@@ -653,6 +653,7 @@ router.post("/pay-runs/:id/mark-paid", requirePayrollWithCountryAccess(), requir
     }
     
     auditService.logFromRequest("mark_pay_run_paid", req, "pay_runs");
+    accountingService.postAsync(tenantId, "pay_run", payRun.id);
     res.json(payRun);
   } catch (error) {
     console.error("Error marking pay run as paid:", error);
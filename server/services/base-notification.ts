@@ -1,4 +1,4 @@
-export type NotificationChannel = "email" | "whatsapp" | "sms";
+export type NotificationChannel = "email" | "whatsapp" | "sms" | "push";
 
 export type NotificationEventType =
   | "INVOICE_CREATED"
@@ -24,11 +24,14 @@ export type NotificationEventType =
   | "HR_ATTENDANCE_ALERT"
   | "HR_PROJECT_ASSIGNED"
   | "HR_TIMESHEET_REMINDER"
+  | "MEMBERSHIP_EXPIRING"
+  | "MEMBERSHIP_EXPIRED"
   | "CUSTOM";
 
 export interface NotificationRecipient {
   email?: string;
   phone?: string;
+  userId?: string;
   name: string;
 }
 
@@ -116,6 +119,8 @@ const EVENT_TYPE_MAPPING: Record<NotificationEventType, string> = {
   HR_ATTENDANCE_ALERT: "custom",
   HR_PROJECT_ASSIGNED: "custom",
   HR_TIMESHEET_REMINDER: "custom",
+  MEMBERSHIP_EXPIRING: "membership_expiring",
+  MEMBERSHIP_EXPIRED: "membership_expired",
   CUSTOM: "custom",
 };
 
@@ -170,7 +175,7 @@ class BaseNotificationService implements INotificationService {
 
     for (const channel of channels) {
       try {
-        if (channel === "email" || channel === "sms") {
+        if (channel === "email" || channel === "sms" || channel === "push") {
           const service = await this.getNotificationService();
           const result = await service.sendNotification({
             tenantId: payload.tenantId,
@@ -0,0 +1,107 @@
+/**
+ * Gym Module Notification Adapter
+ *
+ * Provides notification handling for the Gym module:
+ * - Membership renewal reminders
+ * - Membership expiry notices
+ *
+ * @module server/services/gym-notification-adapter
+ */
+
+import {
+  INotificationAdapter,
+  NotificationEventType,
+  NotificationChannel,
+  NotificationVariables,
+  NotificationResult,
+  baseNotificationService,
+} from "./base-notification";
+
+class GymNotificationAdapter implements INotificationAdapter {
+  getModuleName(): string {
+    return "gym";
+  }
+
+  mapEventToLegacyType(eventType: NotificationEventType): string {
+    const mapping: Partial<Record<NotificationEventType, string>> = {
+      MEMBERSHIP_EXPIRING: "membership_expiring",
+      MEMBERSHIP_EXPIRED: "membership_expired",
+    };
+    return mapping[eventType] || "custom";
+  }
+
+  buildVariables(data: Record<string, unknown>): NotificationVariables {
+    return {
+      customerName: String(data.memberName || "Member"),
+      memberCode: String(data.memberCode || ""),
+      planName: String(data.planName || ""),
+      endDate: String(data.endDate || ""),
+      totalAmount: String(data.renewalPrice || "0"),
+      currency: String(data.currency || ""),
+      tenantName: String(data.gymName || ""),
+    };
+  }
+
+  getDefaultChannels(eventType: NotificationEventType): NotificationChannel[] {
+    switch (eventType) {
+      case "MEMBERSHIP_EXPIRING":
+        return ["email", "whatsapp"];
+      case "MEMBERSHIP_EXPIRED":
+        return ["email"];
+      default:
+        return ["email"];
+    }
+  }
+}
+
+export const gymNotificationAdapter = new GymNotificationAdapter();
+
+export function registerGymNotificationAdapter(): void {
+  baseNotificationService.registerAdapter(gymNotificationAdapter);
+}
+
+export interface MembershipNotificationData {
+  membershipId: string;
+  memberName: string;
+  memberEmail?: string;
+  memberPhone?: string;
+  memberCode?: string;
+  planName: string;
+  endDate: string;
+  renewalPrice?: string;
+}
+
+async function sendMembershipNotification(
+  tenantId: string,
+  eventType: NotificationEventType,
+  data: MembershipNotificationData
+): Promise<NotificationResult> {
+  return baseNotificationService.dispatch({
+    tenantId,
+    eventType,
+    channels: gymNotificationAdapter.getDefaultChannels(eventType),
+    recipient: {
+      name: data.memberName,
+      email: data.memberEmail,
+      phone: data.memberPhone,
+    },
+    variables: gymNotificationAdapter.buildVariables({ ...data }),
+    referenceId: data.membershipId,
+    referenceType: "membership",
+    moduleContext: "gym",
+  });
+}
+
+export async function sendMembershipRenewalReminder(
+  tenantId: string,
+  data: MembershipNotificationData
+): Promise<NotificationResult> {
+  return sendMembershipNotification(tenantId, "MEMBERSHIP_EXPIRING", data);
+}
+
+export async function sendMembershipExpiredNotice(
+  tenantId: string,
+  data: MembershipNotificationData
+): Promise<NotificationResult> {
+  return sendMembershipNotification(tenantId, "MEMBERSHIP_EXPIRED", data);
+}
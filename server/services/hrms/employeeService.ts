@@ -1,6 +1,7 @@
 import { hrmsStorage } from "../../storage/hrms";
 import { insertHrEmployeeSchema, insertHrDepartmentSchema } from "@shared/schema";
 import { baseNotificationService } from "../base-notification";
+import { webhookService } from "../../core/webhooks";
 
 class EmployeeService {
   static async getDashboardStats(tenantId: string) {
@@ -28,6 +29,7 @@ class EmployeeService {
   static async addEmployee(tenantId: string, data: any) {
     const validated = insertHrEmployeeSchema.parse({ ...data, tenantId });
     const employee = await hrmsStorage.createEmployee(validated);
+    webhookService.publishAsync(tenantId, "employee.created", employee);
     
     setImmediate(async () => {
       try {
@@ -1,4 +1,5 @@
 import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
 import { db } from "../db";
 import {
   furnitureInvoices,
@@ -72,8 +73,20 @@ export interface InvoicePDFData {
     name: string;
     address: string | null;
   };
+  // Present once the invoice is registered with the Indian IRP
+  eInvoice?: {
+    irn: string;
+    ackNo: string;
+    ackDate: Date;
+    signedQrCode: string;
+  } | null;
 }
 
+// e-invoice QR geometry in points: ISO/IEC 18004 asks for a 4-module light border
+const QR_QUIET_ZONE = 4;
+const QR_MIN_MODULE_SIZE = 1.5;
+const QR_MIN_SIZE = 120;
+
 class InvoicePDFService {
   async generateInvoicePDF(invoiceId: string): Promise<Buffer> {
     const data = await this.fetchInvoiceData(invoiceId);
@@ -211,6 +224,7 @@ class InvoicePDFService {
       currentY = this.drawTotals(doc, data, currency, primaryColor, currentY);
       currentY = this.drawTaxBreakdown(doc, data, currency, currentY);
       currentY = this.drawPaymentStatus(doc, data, currency, currentY);
+      currentY = this.drawEInvoice(doc, data, currentY);
       this.drawFooter(doc, data, currentY);
 
       doc.end();
@@ -519,6 +533,44 @@ class InvoicePDFService {
     return y + 20;
   }
 
+  private drawEInvoice(doc: PDFKit.PDFDocument, data: InvoicePDFData, startY: number): number {
+    if (!data.eInvoice) return startY;
+
+    // The IRP-signed QR is printed as issued so it can be verified offline
+    const qr = QRCode.create(data.eInvoice.signedQrCode, { errorCorrectionLevel: "M" });
+    const modules = qr.modules.size + 2 * QR_QUIET_ZONE;
+    const moduleSize = Math.max(QR_MIN_MODULE_SIZE, QR_MIN_SIZE / modules);
+    const qrSize = modules * moduleSize;
+
+    let y = startY + 10;
+    if (y + qrSize > 760) {
+      doc.addPage();
+      y = 50;
+    }
+
+    const qrX = 545 - qrSize;
+    const textWidth = Math.min(340, qrX - 60);
+    doc.fontSize(10).fillColor("#333333").text("e-Invoice Details:", 50, y);
+    doc.fontSize(8).fillColor("#666666");
+    doc.text(`IRN: ${data.eInvoice.irn}`, 50, y + 15, { width: textWidth });
+    const irnBottom = y + 15 + doc.heightOfString(`IRN: ${data.eInvoice.irn}`, { width: textWidth });
+    doc.text(`Ack No: ${data.eInvoice.ackNo}`, 50, irnBottom + 4);
+    doc.text(`Ack Date: ${this.formatDate(data.eInvoice.ackDate)}`, 50, irnBottom + 16);
+
+    // Light quiet zone first, so scanners can find the code's edges on any background
+    doc.rect(qrX, y, qrSize, qrSize).fill("#ffffff");
+    const originX = qrX + QR_QUIET_ZONE * moduleSize;
+    const originY = y + QR_QUIET_ZONE * moduleSize;
+    for (let row = 0; row < qr.modules.size; row++) {
+      for (let col = 0; col < qr.modules.size; col++) {
+        if (qr.modules.get(row, col)) doc.rect(originX + col * moduleSize, originY + row * moduleSize, moduleSize, moduleSize);
+      }
+    }
+    doc.fill("#000000");
+
+    return y + qrSize + 10;
+  }
+
   private drawFooter(doc: PDFKit.PDFDocument, data: InvoicePDFData, startY: number): void {
     let y = startY + 20;
 
@@ -42,16 +42,25 @@ export {
   sendCommissionInvoiceNotification,
 } from "./realestate-notification-adapter";
 
+export {
+  gymNotificationAdapter,
+  registerGymNotificationAdapter,
+  sendMembershipRenewalReminder,
+  sendMembershipExpiredNotice,
+} from "./gym-notification-adapter";
+
 export function registerAllNotificationAdapters(): void {
   const { registerLegalNotificationAdapter } = require("./legal-notification-adapter");
   const { registerEducationNotificationAdapter } = require("./education-notification-adapter");
   const { registerTourismNotificationAdapter } = require("./tourism-notification-adapter");
   const { registerLogisticsNotificationAdapter } = require("./logistics-notification-adapter");
   const { registerRealEstateNotificationAdapter } = require("./realestate-notification-adapter");
+  const { registerGymNotificationAdapter } = require("./gym-notification-adapter");
   
   registerLegalNotificationAdapter();
   registerEducationNotificationAdapter();
   registerTourismNotificationAdapter();
   registerLogisticsNotificationAdapter();
   registerRealEstateNotificationAdapter();
+  registerGymNotificationAdapter();
 }
@@ -11,8 +11,11 @@ import {
   type TenantNotificationSettings
 } from "@shared/schema";
 import { eq, and, lte, or } from "drizzle-orm";
+import { pushService } from "../core/push";
+import { whatsappProviderSelector } from "../core/whatsapp/provider-selector";
+import type { TenantCountry } from "../core/whatsapp/types";
 
-export type NotificationChannel = "email" | "whatsapp" | "sms";
+export type NotificationChannel = "email" | "whatsapp" | "sms" | "push";
 export type NotificationEventType = 
   | "invoice_created"
   | "invoice_issued"
@@ -21,11 +24,15 @@ export type NotificationEventType =
   | "payment_partial"
   | "invoice_overdue"
   | "invoice_cancelled"
+  | "membership_expiring"
+  | "membership_expired"
   | "custom";
 
 export interface NotificationRecipient {
   email?: string;
   phone?: string;
+  // Platform user whose registered devices receive push notifications
+  userId?: string;
   name: string;
 }
 
@@ -54,6 +61,15 @@ export interface SendNotificationOptions {
   templateCode?: string;
 }
 
+export interface PlatformMessageOptions {
+  channel: "email" | "whatsapp";
+  recipient: NotificationRecipient;
+  subject: string;
+  body: string;
+  // Picks the platform WhatsApp provider for the recipient's region
+  country?: TenantCountry;
+}
+
 export interface NotificationResult {
   success: boolean;
   logId: string;
@@ -198,6 +214,38 @@ Best regards,
       body: `Invoice {{invoiceNumber}} has been cancelled. Original amount: {{currency}} {{totalAmount}}.`
     }
   },
+  membership_expiring: {
+    email: {
+      subject: "Your {{planName}} membership expires on {{endDate}}",
+      body: `Dear {{customerName}},
+
+Your {{planName}} membership expires on {{endDate}}.
+
+Renew before then to keep uninterrupted access.
+
+Best regards,
+{{tenantName}}`
+    },
+    whatsapp: {
+      body: `Hello {{customerName}}, your {{planName}} membership expires on {{endDate}}. Renew now to keep access.`
+    }
+  },
+  membership_expired: {
+    email: {
+      subject: "Your {{planName}} membership has expired",
+      body: `Dear {{customerName}},
+
+Your {{planName}} membership expired on {{endDate}}.
+
+We would love to see you back - renew any time at the front desk.
+
+Best regards,
+{{tenantName}}`
+    },
+    whatsapp: {
+      body: `Hello {{customerName}}, your {{planName}} membership expired on {{endDate}}. Renew any time to continue.`
+    }
+  },
   custom: {
     email: {
       subject: "Message from {{tenantName}}",
@@ -209,6 +257,20 @@ Best regards,
   }
 };
 
+type ProviderSettings = Pick<TenantNotificationSettings, "providerName" | "config">;
+
+// The platform's own email account, used for messages the platform sends to tenants
+function platformEmailSettings(): ProviderSettings {
+  return {
+    providerName: process.env.PLATFORM_EMAIL_PROVIDER || null,
+    config: {
+      apiKey: process.env.PLATFORM_EMAIL_API_KEY,
+      fromEmail: process.env.PLATFORM_EMAIL_FROM || process.env.FROM_EMAIL,
+      fromName: process.env.PLATFORM_EMAIL_FROM_NAME,
+    },
+  };
+}
+
 export class NotificationService {
   private static instance: NotificationService;
 
@@ -314,12 +376,18 @@ export class NotificationService {
       }
     }
 
-    const recipientAddress = channel === "email" ? recipient.email : recipient.phone;
+    if (channel === "push" && !template) {
+      // Pushes use the email subject as title and the short WhatsApp text as body
+      const defaultTemplate = DEFAULT_TEMPLATES[eventType];
+      subject = this.renderTemplate(defaultTemplate.email.subject, enrichedVariables);
+    }
+
+    const recipientAddress = channel === "email" ? recipient.email : channel === "push" ? recipient.userId : recipient.phone;
     if (!recipientAddress) {
       return {
         success: false,
         logId: "",
-        error: `No ${channel === "email" ? "email" : "phone"} address for recipient`
+        error: `No ${channel === "email" ? "email" : channel === "push" ? "user" : "phone"} address for recipient`
       };
     }
 
@@ -344,6 +412,17 @@ export class NotificationService {
         result = await this.sendEmail(settings, recipientAddress, subject, body, recipient.name);
       } else if (channel === "whatsapp") {
         result = await this.sendWhatsApp(settings, recipientAddress, body);
+      } else if (channel === "push") {
+        const push = await this.sendPush(tenantId, recipientAddress, subject, body, invoiceId);
+        if (push.deferredUntil) {
+          await this.deferDelivery(logEntry.id, push.deferredUntil);
+          return { success: false, logId: logEntry.id, error: push.error };
+        }
+        if (push.skipped) {
+          await this.skipDelivery(logEntry.id, push.error!);
+          return { success: false, logId: logEntry.id, error: push.error };
+        }
+        result = push;
       } else {
         result = { success: false, error: `Unsupported channel: ${channel}` };
       }
@@ -369,6 +448,31 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Sends a message from the platform itself, such as a billing reminder to
+   * a tenant. Goes through the platform's own email account and WhatsApp
+   * providers, never the recipient tenant's notification settings or
+   * templates, so it reaches tenants that have configured neither.
+   */
+  async sendPlatformMessage(options: PlatformMessageOptions): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const { channel, recipient, subject, body } = options;
+    try {
+      if (channel === "email") {
+        if (!recipient.email) return { success: false, error: "No email address for recipient" };
+        return await this.sendEmail(platformEmailSettings(), recipient.email, subject, body, recipient.name);
+      }
+
+      if (!recipient.phone) return { success: false, error: "No phone address for recipient" };
+      await whatsappProviderSelector.initialize();
+      const provider = whatsappProviderSelector.getProviderForCountry(options.country);
+      if (!provider?.isConfigured()) return { success: false, error: "Platform WhatsApp provider not configured" };
+      const result = await provider.sendTextMessage(recipient.phone, body);
+      return { success: result.success, messageId: result.providerMessageId ?? result.messageId, error: result.errorMessage };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : `${channel} send failed` };
+    }
+  }
+
   private async handleFailure(logId: string, errorMessage: string): Promise<void> {
     const [log] = await db.select().from(notificationLogs).where(eq(notificationLogs.id, logId));
     if (!log) return;
@@ -423,6 +527,17 @@ export class NotificationService {
           result = await this.sendEmail(settings, log.recipient, log.subject || "", log.body, metadata?.recipientName || "");
         } else if (log.channel === "whatsapp") {
           result = await this.sendWhatsApp(settings, log.recipient, log.body);
+        } else if (log.channel === "push") {
+          const push = await this.sendPush(log.tenantId, log.recipient, log.subject || "", log.body, log.invoiceId || undefined);
+          if (push.deferredUntil) {
+            await this.deferDelivery(log.id, push.deferredUntil);
+            continue;
+          }
+          if (push.skipped) {
+            await this.skipDelivery(log.id, push.error!);
+            continue;
+          }
+          result = push;
         } else {
           continue;
         }
@@ -449,8 +564,63 @@ export class NotificationService {
     return processed;
   }
 
+  /**
+   * Reschedules a notification held back by the recipient's quiet hours
+   * without counting it as a failed attempt.
+   */
+  private async deferDelivery(logId: string, until: Date): Promise<void> {
+    await db.update(notificationLogs)
+      .set({
+        status: "retrying",
+        nextRetryAt: until,
+        errorMessage: "Deferred until quiet hours end"
+      })
+      .where(eq(notificationLogs.id, logId));
+  }
+
+  /**
+   * Ends a push that cannot be delivered by retrying: the user turned pushes
+   * off or has no registered device.
+   */
+  private async skipDelivery(logId: string, reason: string): Promise<void> {
+    await db.update(notificationLogs)
+      .set({
+        status: "failed",
+        failedAt: new Date(),
+        nextRetryAt: null,
+        errorMessage: reason
+      })
+      .where(eq(notificationLogs.id, logId));
+  }
+
+  private async sendPush(
+    tenantId: string,
+    userId: string,
+    title: string,
+    body: string,
+    invoiceId?: string
+  ): Promise<{ success: boolean; messageId?: string; error?: string; deferredUntil?: Date; skipped?: boolean }> {
+    const result = await pushService.sendToUser(tenantId, userId, {
+      title,
+      body,
+      data: invoiceId ? { invoiceId } : undefined,
+    });
+
+    if (result.success) {
+      const messageId = result.deviceResults.find(r => r.success)?.providerMessageId;
+      return { success: true, messageId };
+    }
+
+    return {
+      success: false,
+      deferredUntil: result.deferredUntil,
+      skipped: !!result.skippedReason && !result.deferredUntil,
+      error: result.skippedReason || result.deviceResults.find(r => r.error)?.error || "Push delivery failed",
+    };
+  }
+
   private async sendEmail(
-    settings: TenantNotificationSettings,
+    settings: ProviderSettings,
     to: string,
     subject: string,
     body: string,
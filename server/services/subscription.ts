@@ -180,8 +180,9 @@ export class SubscriptionService {
     return false;
   }
 
-  async canAccessModule(tenantId: string, moduleId: string): Promise<{ allowed: boolean; reason?: string }> {
-    const plan = await this.getTenantPlan(tenantId);
+  // Callers that already resolved the plan, such as the subscription gate for a past-due tenant, pass it in
+  async canAccessModule(tenantId: string, moduleId: string, tenantPlan?: GlobalPricingPlan): Promise<{ allowed: boolean; reason?: string }> {
+    const plan = tenantPlan ?? await this.getTenantPlan(tenantId);
     if (!plan) {
       return { allowed: false, reason: "No active subscription" };
     }
@@ -208,8 +209,8 @@ export class SubscriptionService {
     return { allowed: false, reason: `Module '${moduleId}' not available in ${plan.tier} tier` };
   }
 
-  async canAccessFeature(tenantId: string, feature: "multiCurrency" | "aiInsights" | "whiteLabel"): Promise<boolean> {
-    const plan = await this.getTenantPlan(tenantId);
+  async canAccessFeature(tenantId: string, feature: "multiCurrency" | "aiInsights" | "whiteLabel", tenantPlan?: GlobalPricingPlan): Promise<boolean> {
+    const plan = tenantPlan ?? await this.getTenantPlan(tenantId);
     if (!plan) return false;
 
     const features = this.getSubscriptionFeatures(plan.tier);
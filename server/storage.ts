@@ -4,7 +4,6 @@ import {
   invoices, invoiceItems, payments,
   inventoryCategories, inventoryItems, inventoryTransactions,
   membershipPlans, customerMemberships,
-  spaces, desks, deskBookings,
   patients, doctors, appointments, medicalRecords,
   platformAdmins, platformAdminPermissions, platformAdminPermissionAssignments,
   platformAdminCountryAssignments,
@@ -37,9 +36,6 @@ import {
   type InventoryTransaction, type InsertInventoryTransaction,
   type MembershipPlan, type InsertMembershipPlan,
   type CustomerMembership, type InsertCustomerMembership,
-  type Space, type InsertSpace,
-  type Desk, type InsertDesk,
-  type DeskBooking, type InsertDeskBooking,
   type Patient, type InsertPatient,
   type Doctor, type InsertDoctor,
   type Appointment, type InsertAppointment,
@@ -112,6 +108,10 @@ export interface IStorage {
   updateBooking(id: string, tenantId: string, booking: Partial<InsertBooking>): Promise<Booking | undefined>;
   deleteBooking(id: string, tenantId: string): Promise<void>;
 
+  // Service staff
+  getStaffMembers(tenantId: string): Promise<Staff[]>;
+  getStaffMember(id: string, tenantId: string): Promise<Staff | undefined>;
+
   // Dashboard stats
   getDashboardStats(tenantId: string): Promise<{
     totalCustomers: number;
@@ -208,20 +208,6 @@ export interface IStorage {
   createCustomerMembership(membership: InsertCustomerMembership): Promise<CustomerMembership>;
   updateCustomerMembership(id: string, tenantId: string, membership: Partial<InsertCustomerMembership>): Promise<CustomerMembership | undefined>;
 
-  // Coworking - Spaces
-  createSpace(space: InsertSpace): Promise<Space>;
-  getSpaces(tenantId: string): Promise<Space[]>;
-  getSpace(id: string, tenantId: string): Promise<Space | undefined>;
-  updateSpace(id: string, tenantId: string, space: Partial<InsertSpace>): Promise<Space | undefined>;
-  deleteSpace(id: string, tenantId: string): Promise<void>;
-
-  // Coworking - Desks
-  getDesks(tenantId: string, spaceId?: string): Promise<Desk[]>;
-
-  // Coworking - Desk Bookings
-  createDeskBooking(booking: InsertDeskBooking): Promise<DeskBooking>;
-  getDeskBookings(tenantId: string, userId?: string): Promise<DeskBooking[]>;
-
   // Patients (Healthcare)
   getPatients(tenantId: string): Promise<Patient[]>;
   getPatient(id: string, tenantId: string): Promise<Patient | undefined>;
@@ -672,6 +658,16 @@ export class DatabaseStorage implements IStorage {
     await db.delete(bookings).where(and(eq(bookings.id, id), eq(bookings.tenantId, tenantId)));
   }
 
+  // Service staff
+  async getStaffMembers(tenantId: string): Promise<Staff[]> {
+    return db.select().from(staff).where(and(eq(staff.tenantId, tenantId), isNull(staff.deletedAt))).orderBy(staff.name);
+  }
+
+  async getStaffMember(id: string, tenantId: string): Promise<Staff | undefined> {
+    const [member] = await db.select().from(staff).where(and(eq(staff.id, id), eq(staff.tenantId, tenantId), isNull(staff.deletedAt)));
+    return member;
+  }
+
   // Dashboard stats
   async getDashboardStats(tenantId: string): Promise<{
     totalCustomers: number;
@@ -1111,51 +1107,6 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  // Coworking - Spaces
-  async createSpace(space: InsertSpace): Promise<Space> {
-    const [created] = await db.insert(spaces).values(space).returning();
-    return created;
-  }
-
-  async getSpaces(tenantId: string): Promise<Space[]> {
-    return db.select().from(spaces).where(eq(spaces.tenantId, tenantId)).orderBy(spaces.name);
-  }
-
-  async getSpace(id: string, tenantId: string): Promise<Space | undefined> {
-    const [space] = await db.select().from(spaces).where(and(eq(spaces.id, id), eq(spaces.tenantId, tenantId)));
-    return space;
-  }
-
-  async updateSpace(id: string, tenantId: string, space: Partial<InsertSpace>): Promise<Space | undefined> {
-    const [updated] = await db.update(spaces).set({ ...space, updatedAt: new Date() }).where(and(eq(spaces.id, id), eq(spaces.tenantId, tenantId))).returning();
-    return updated;
-  }
-
-  async deleteSpace(id: string, tenantId: string): Promise<void> {
-    await db.delete(spaces).where(and(eq(spaces.id, id), eq(spaces.tenantId, tenantId)));
-  }
-
-  // Coworking - Desks
-  async getDesks(tenantId: string, spaceId?: string): Promise<Desk[]> {
-    if (spaceId) {
-      return db.select().from(desks).where(and(eq(desks.tenantId, tenantId), eq(desks.spaceId, spaceId)));
-    }
-    return db.select().from(desks).where(eq(desks.tenantId, tenantId));
-  }
-
-  // Coworking - Desk Bookings
-  async createDeskBooking(booking: InsertDeskBooking): Promise<DeskBooking> {
-    const [created] = await db.insert(deskBookings).values(booking).returning();
-    return created;
-  }
-
-  async getDeskBookings(tenantId: string, userId?: string): Promise<DeskBooking[]> {
-    if (userId) {
-      return db.select().from(deskBookings).where(and(eq(deskBookings.tenantId, tenantId), eq(deskBookings.userId, userId))).orderBy(desc(deskBookings.createdAt));
-    }
-    return db.select().from(deskBookings).where(eq(deskBookings.tenantId, tenantId)).orderBy(desc(deskBookings.createdAt));
-  }
-
   // Patients (Healthcare)
   async getPatients(tenantId: string): Promise<Patient[]> {
     return db.select().from(patients).where(eq(patients.tenantId, tenantId)).orderBy(patients.firstName);
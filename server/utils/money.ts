@@ -0,0 +1,43 @@
+/**
+ * Money Helpers
+ *
+ * Shared helpers for modules that compute with Drizzle `decimal` columns,
+ * which are read and written as strings. Amounts are rounded half away from
+ * zero on their decimal form, so 1.005 and -1.005 round to 1.01 and -1.01 as
+ * written rather than by their nearest binary value.
+ *
+ * @module server/utils/money
+ */
+
+// Shifts the decimal point by editing the exponent of the number's string
+// form, which avoids the representation error of multiplying by 10^places
+function shift(value: number, places: number): number {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+}
+
+function roundHalfAwayFromZero(value: number, places: number): number {
+  if (!Number.isFinite(value)) return value;
+  const rounded = shift(Math.round(shift(Math.abs(value), places)), -places);
+  // Zero is returned unsigned, so round2(-0.001) gives 0 rather than -0
+  return rounded === 0 ? 0 : Math.sign(value) * rounded;
+}
+
+export function round2(value: number): number {
+  return roundHalfAwayFromZero(value, 2);
+}
+
+// Quantities and unit costs keep four places
+export function round4(value: number): number {
+  return roundHalfAwayFromZero(value, 4);
+}
+
+// A decimal column's value as a number; null reads as zero
+export function amount(value: string | null | undefined): number {
+  return parseFloat(value || "0");
+}
+
+// A number as a two-place decimal column value
+export function money(value: number): string {
+  return round2(value).toFixed(2);
+}
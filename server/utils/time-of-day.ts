@@ -0,0 +1,85 @@
+/**
+ * Time-of-Day Helpers
+ *
+ * Shared helpers for modules that schedule against `date` + `time` columns
+ * (clinic appointments, salon bookings, class schedules). Times are handled
+ * as minutes since midnight; Postgres `time` values ("09:30:00") and form
+ * values ("09:30") are both accepted.
+ *
+ * @module server/utils/time-of-day
+ */
+
+import { z } from "zod";
+
+export const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Expected HH:MM");
+export const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+export const workingWindowSchema = z.object({
+  start: timeString,
+  end: timeString,
+}).refine(w => timeToMinutes(w.start) < timeToMinutes(w.end), {
+  message: "Window start must be before end",
+});
+
+export const weeklyScheduleSchema = z.record(z.enum(WEEKDAYS), z.array(workingWindowSchema));
+
+export type WorkingWindow = z.infer<typeof workingWindowSchema>;
+export type WeeklySchedule = z.infer<typeof weeklyScheduleSchema>;
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function minutesToTime(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+export function addMinutes(time: string, minutes: number): string {
+  return minutesToTime(Math.min(timeToMinutes(time) + minutes, 24 * 60 - 1));
+}
+
+export function rangesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string): boolean {
+  return timeToMinutes(aStart) < timeToMinutes(bEnd) && timeToMinutes(bStart) < timeToMinutes(aEnd);
+}
+
+export function getWeekday(date: string): Weekday {
+  // Dates are calendar days; evaluate in UTC so the server timezone cannot shift them
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+// The current UTC calendar day
+export function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// The calendar day of a timestamp or date column value; missing values stay null
+export function isoDate(value: Date | string): string;
+export function isoDate(value: Date | string | null | undefined): string | null;
+export function isoDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+export function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.round(ms / (24 * 60 * 60 * 1000));
+}
+
+export function windowsForDate(schedule: WeeklySchedule, blockedDates: string[], date: string): WorkingWindow[] {
+  if (blockedDates.includes(date)) {
+    return [];
+  }
+  return schedule[getWeekday(date)] ?? [];
+}
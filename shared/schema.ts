@@ -59,6 +59,8 @@ export const notificationEventTypeEnum = pgEnum("notification_event_type", [
   "payment_partial",
   "invoice_overdue",
   "invoice_cancelled",
+  "membership_expiring",
+  "membership_expired",
   "custom"
 ]);
 export const invoiceStatusEnum = pgEnum("invoice_status", ["draft", "pending", "paid", "partial", "overdue", "cancelled", "refunded"]);
@@ -823,11 +825,14 @@ export const apiTokens = pgTable("api_tokens", {
   lastUsedAt: timestamp("last_used_at"),
   expiresAt: timestamp("expires_at"),
   scopes: jsonb("scopes").default([]),
+  // Public API requests allowed per minute; null uses the platform default
+  rateLimitPerMinute: integer("rate_limit_per_minute"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_api_tokens_user").on(table.userId),
   index("idx_api_tokens_tenant").on(table.tenantId),
+  index("idx_api_tokens_hash").on(table.tokenHash),
 ]);
 
 export const refreshTokenRevokeReasonEnum = pgEnum("refresh_token_revoke_reason", [
@@ -1168,6 +1173,7 @@ export const customers = pgTable("customers", {
   index("idx_customers_tenant").on(table.tenantId),
   index("idx_customers_email").on(table.tenantId, table.email),
   index("idx_customers_phone").on(table.tenantId, table.phone),
+  index("idx_customers_sync").on(table.tenantId, table.updatedAt, table.id),
 ]);
 
 export const patientDocuments = pgTable("patient_documents", {
@@ -1216,6 +1222,11 @@ export const services = pgTable("services", {
   category: text("category"),
   requiresStaff: boolean("requires_staff").default(true),
   maxCapacity: integer("max_capacity").default(1),
+  // Prep time before and cleanup time after the service, blocked on the staff calendar
+  bufferMinutes: integer("buffer_minutes").default(0),
+  cleanupMinutes: integer("cleanup_minutes").default(0),
+  // Resource type (chair, room, ...) the service occupies; null when none is needed
+  requiredResourceType: varchar("required_resource_type", { length: 30 }),
   isActive: boolean("is_active").default(true),
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow(),
@@ -1253,11 +1264,17 @@ export const bookings = pgTable("bookings", {
   cancelledAt: timestamp("cancelled_at"),
   cancelledBy: varchar("cancelled_by").references(() => users.id),
   cancelReason: text("cancel_reason"),
+  // Service job workflow: work started/finished and the invoice it was billed on
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  invoiceId: varchar("invoice_id").references(() => invoices.id),
 }, (table) => [
   index("idx_bookings_tenant").on(table.tenantId),
   index("idx_bookings_customer").on(table.customerId),
   index("idx_bookings_date").on(table.tenantId, table.bookingDate),
   index("idx_bookings_status").on(table.tenantId, table.status),
+  index("idx_bookings_staff_date").on(table.staffId, table.bookingDate),
+  index("idx_bookings_sync").on(table.tenantId, table.updatedAt, table.id),
 ]);
 
 // ============================================
@@ -1359,6 +1376,7 @@ export const invoices = pgTable("invoices", {
   index("idx_invoices_status").on(table.tenantId, table.status),
   index("idx_invoices_currency").on(table.tenantId, table.currency),
   uniqueIndex("idx_invoices_number").on(table.tenantId, table.invoiceNumber),
+  index("idx_invoices_sync").on(table.tenantId, table.updatedAt, table.id),
 ]);
 
 export const invoiceItems = pgTable("invoice_items", {
@@ -1433,6 +1451,9 @@ export const inventoryItems = pgTable("inventory_items", {
   minStock: integer("min_stock").default(0),
   maxStock: integer("max_stock"),
   unit: varchar("unit", { length: 50 }).default("pcs"),
+  // How warehouse stock of the item is identified: none, by batch, or one serial number per unit
+  trackingMode: varchar("tracking_mode", { length: 10 }).$type<"none" | "batch" | "serial">().notNull().default("none"),
+  tracksExpiry: boolean("tracks_expiry").notNull().default(false),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -1494,6 +1515,7 @@ export const customerMemberships = pgTable("customer_memberships", {
   bookingsUsed: integer("bookings_used").default(0),
   autoRenew: boolean("auto_renew").default(false),
   notes: text("notes"),
+  renewalReminderSentAt: timestamp("renewal_reminder_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -1549,6 +1571,9 @@ export const deskBookings = pgTable("desk_bookings", {
   tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
   deskId: varchar("desk_id").notNull().references(() => desks.id),
   userId: varchar("user_id").notNull().references(() => users.id),
+  // Member the desk is booked for, when staff book on their behalf
+  customerId: varchar("customer_id").references(() => customers.id),
+  recurrenceId: varchar("recurrence_id").references(() => coworkingDeskRecurrences.id),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   status: bookingStatusEnum("status").default("pending"),
@@ -2742,7 +2767,7 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true,
 export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true, createdAt: true });
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
 export const insertInventoryCategorySchema = createInsertSchema(inventoryCategories).omit({ id: true, createdAt: true });
-export const insertInventoryItemSchema = createInsertSchema(inventoryItems).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertInventoryItemSchema = createInsertSchema(inventoryItems).omit({ id: true, createdAt: true, updatedAt: true, trackingMode: true });
 export const insertInventoryTransactionSchema = createInsertSchema(inventoryTransactions).omit({ id: true, createdAt: true });
 export const insertMembershipPlanSchema = createInsertSchema(membershipPlans).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCustomerMembershipSchema = createInsertSchema(customerMemberships).omit({ id: true, createdAt: true, updatedAt: true });
@@ -3356,6 +3381,29 @@ export const dataRetentionPolicies = pgTable("data_retention_policies", {
   index("idx_retention_enabled").on(table.isEnabled),
 ]);
 
+// One row per policy execution per tenant, including skipped and failed runs
+export const dataRetentionLogs = pgTable("data_retention_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  policyId: varchar("policy_id").references(() => dataRetentionPolicies.id, { onDelete: "set null" }),
+  resourceType: varchar("resource_type", { length: 100 }).notNull(),
+  action: varchar("action", { length: 50 }).notNull(), // soft_delete, hard_delete, anonymize
+  status: varchar("status", { length: 20 }).notNull(), // completed, skipped, failed
+  cutoffDate: timestamp("cutoff_date"),
+  recordCount: integer("record_count").default(0),
+  recordIds: jsonb("record_ids").default([]),
+  archivePath: text("archive_path"),
+  reason: text("reason"),
+  errorMessage: text("error_message"),
+  triggeredBy: varchar("triggered_by"), // user id, or "scheduler"
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_retention_logs_tenant").on(table.tenantId, table.createdAt),
+  index("idx_retention_logs_policy").on(table.policyId),
+]);
+
 // Compliance checklist status enum
 export const complianceChecklistStatusEnum = pgEnum("compliance_checklist_status", [
   "not_started",
@@ -3504,6 +3552,7 @@ export type InsertDataBreachRecord = z.infer<typeof insertDataBreachRecordSchema
 
 export type DataRetentionPolicy = typeof dataRetentionPolicies.$inferSelect;
 export type InsertDataRetentionPolicy = z.infer<typeof insertDataRetentionPolicySchema>;
+export type DataRetentionLog = typeof dataRetentionLogs.$inferSelect;
 
 export type CompliancePack = typeof compliancePacks.$inferSelect;
 export type InsertCompliancePack = z.infer<typeof insertCompliancePackSchema>;
@@ -3532,10 +3581,17 @@ export const gstConfigurations = pgTable("gst_configurations", {
   gstType: varchar("gst_type", { length: 20 }).default("regular"), // regular, composition, unregistered
   stateCode: varchar("state_code", { length: 2 }).notNull(),
   placeOfSupply: varchar("place_of_supply", { length: 100 }),
+  addressLine1: varchar("address_line1", { length: 100 }),
+  addressLine2: varchar("address_line2", { length: 100 }),
+  city: varchar("city", { length: 50 }),
+  pincode: varchar("pincode", { length: 6 }),
+  phone: varchar("phone", { length: 12 }),
+  email: varchar("email", { length: 100 }),
   hsnCodes: jsonb("hsn_codes").default([]),
   sacCodes: jsonb("sac_codes").default([]),
   isEInvoiceEnabled: boolean("is_e_invoice_enabled").default(false),
   eInvoiceUsername: varchar("e_invoice_username", { length: 100 }),
+  eInvoicePasswordEncrypted: text("e_invoice_password_encrypted"),
   isEWayBillEnabled: boolean("is_eway_bill_enabled").default(false),
   eWayBillUsername: varchar("eway_bill_username", { length: 100 }),
   defaultCgstRate: decimal("default_cgst_rate", { precision: 5, scale: 2 }).default("9.00"),
@@ -3561,6 +3617,8 @@ export const gstInvoices = pgTable("gst_invoices", {
   customerAddress: text("customer_address"),
   customerState: varchar("customer_state", { length: 100 }),
   customerStateCode: varchar("customer_state_code", { length: 2 }),
+  customerCity: varchar("customer_city", { length: 50 }),
+  customerPincode: varchar("customer_pincode", { length: 6 }),
   lineItems: jsonb("line_items").notNull().default([]),
   taxableAmount: decimal("taxable_amount", { precision: 15, scale: 2 }).notNull(),
   cgstAmount: decimal("cgst_amount", { precision: 15, scale: 2 }).default("0"),
@@ -3573,6 +3631,11 @@ export const gstInvoices = pgTable("gst_invoices", {
   eInvoiceAckNo: varchar("e_invoice_ack_no", { length: 50 }),
   eInvoiceAckDate: timestamp("e_invoice_ack_date"),
   eInvoiceQrCode: text("e_invoice_qr_code"),
+  eInvoiceStatus: varchar("e_invoice_status", { length: 20 }), // generated, cancelled, failed
+  eInvoiceSignedInvoice: text("e_invoice_signed_invoice"),
+  eInvoiceError: text("e_invoice_error"),
+  eInvoiceCancelledAt: timestamp("e_invoice_cancelled_at"),
+  eInvoiceCancelReason: text("e_invoice_cancel_reason"),
   eWayBillNo: varchar("eway_bill_no", { length: 20 }),
   eWayBillDate: timestamp("eway_bill_date"),
   status: varchar("status", { length: 20 }).default("draft"), // draft, issued, cancelled, amended
@@ -3582,7 +3645,9 @@ export const gstInvoices = pgTable("gst_invoices", {
   createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_gst_invoices_tenant_date").on(table.tenantId, table.invoiceDate),
+]);
 
 // WhatsApp DLT Templates (TRAI compliance for India)
 export const dltTemplates = pgTable("dlt_templates", {
@@ -3707,6 +3772,8 @@ export const uaeVatInvoices = pgTable("uae_vat_invoices", {
   customerNameAr: varchar("customer_name_ar", { length: 255 }),
   customerAddress: text("customer_address"),
   customerEmirate: varchar("customer_emirate", { length: 50 }),
+  customerFreeZone: varchar("customer_free_zone", { length: 100 }), // Customer's free zone, for designated zone supplies
+  supplyNature: varchar("supply_nature", { length: 20 }).default("goods"), // goods, services
   isExport: boolean("is_export").default(false),
   isReverseCharge: boolean("is_reverse_charge").default(false), // Reverse charge mechanism
   isZeroRated: boolean("is_zero_rated").default(false),
@@ -3725,6 +3792,32 @@ export const uaeVatInvoices = pgTable("uae_vat_invoices", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// UAE VAT Purchases (input tax for the VAT 201 return and FTA audit file)
+export const uaeVatPurchases = pgTable("uae_vat_purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  supplierName: varchar("supplier_name", { length: 255 }).notNull(),
+  supplierTrn: varchar("supplier_trn", { length: 15 }),
+  supplierCountry: varchar("supplier_country", { length: 2 }).default("AE"),
+  invoiceNumber: varchar("invoice_number", { length: 50 }).notNull(),
+  invoiceDate: timestamp("invoice_date").notNull(),
+  description: text("description"),
+  customsDeclarationNumber: varchar("customs_declaration_number", { length: 50 }), // Import permit
+  taxableAmount: decimal("taxable_amount", { precision: 15, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 15, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).default("AED"),
+  exchangeRate: decimal("exchange_rate", { precision: 10, scale: 6 }),
+  isReverseCharge: boolean("is_reverse_charge").default(false), // Recipient accounts for the VAT
+  isImport: boolean("is_import").default(false), // Goods imported into the UAE
+  isRecoverable: boolean("is_recoverable").default(true), // False for blocked input tax (e.g. entertainment)
+  status: varchar("status", { length: 20 }).default("recorded"), // recorded, paid, void
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_uae_vat_purchases_tenant_date").on(table.tenantId, table.invoiceDate),
+]);
+
 // TRA (Telecom Regulatory Authority) Message Templates
 export const traTemplates = pgTable("tra_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -3791,6 +3884,7 @@ export const uaeComplianceSettings = pgTable("uae_compliance_settings", {
 // UAE Compliance Insert Schemas
 export const insertUaeVatConfigurationSchema = createInsertSchema(uaeVatConfigurations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUaeVatInvoiceSchema = createInsertSchema(uaeVatInvoices).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUaeVatPurchaseSchema = createInsertSchema(uaeVatPurchases).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertTraTemplateSchema = createInsertSchema(traTemplates).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDataResidencyLogSchema = createInsertSchema(dataResidencyLogs).omit({ id: true, createdAt: true });
 export const insertUaeComplianceSettingsSchema = createInsertSchema(uaeComplianceSettings).omit({ id: true, createdAt: true, updatedAt: true });
@@ -3802,6 +3896,9 @@ export type InsertUaeVatConfiguration = z.infer<typeof insertUaeVatConfiguration
 export type UaeVatInvoice = typeof uaeVatInvoices.$inferSelect;
 export type InsertUaeVatInvoice = z.infer<typeof insertUaeVatInvoiceSchema>;
 
+export type UaeVatPurchase = typeof uaeVatPurchases.$inferSelect;
+export type InsertUaeVatPurchase = z.infer<typeof insertUaeVatPurchaseSchema>;
+
 export type TraTemplate = typeof traTemplates.$inferSelect;
 export type InsertTraTemplate = z.infer<typeof insertTraTemplateSchema>;
 
@@ -3826,9 +3923,11 @@ export const ukVatConfigurations = pgTable("uk_vat_configurations", {
   postcode: varchar("postcode", { length: 10 }).notNull(),
   mtdEnabled: boolean("mtd_enabled").default(true), // Making Tax Digital
   vatScheme: varchar("vat_scheme", { length: 50 }).default("standard"), // standard, flat_rate, cash_accounting
+  accountingBasis: varchar("accounting_basis", { length: 20 }).default("accrual"), // accrual, cash (cash_accounting scheme implies cash)
   flatRatePercentage: decimal("flat_rate_percentage", { precision: 5, scale: 2 }),
   returnFrequency: varchar("return_frequency", { length: 20 }).default("quarterly"), // monthly, quarterly, annual
   accountingPeriodStart: date("accounting_period_start"),
+  mtdAccessTokenEncrypted: text("mtd_access_token_encrypted"), // HMRC OAuth token, encrypted
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -3860,6 +3959,64 @@ export const ukVatInvoices = pgTable("uk_vat_invoices", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// UK VAT Purchases (input VAT for the VAT return)
+export const ukVatPurchases = pgTable("uk_vat_purchases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  supplierName: varchar("supplier_name", { length: 255 }).notNull(),
+  supplierVatNumber: varchar("supplier_vat_number", { length: 15 }),
+  supplierReference: varchar("supplier_reference", { length: 50 }), // Supplier's invoice number
+  invoiceDate: date("invoice_date").notNull(),
+  netAmount: decimal("net_amount", { precision: 15, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 15, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
+  isReverseCharge: boolean("is_reverse_charge").default(false), // Buyer accounts for the VAT
+  isEcAcquisition: boolean("is_ec_acquisition").default(false), // Goods acquired from the EU (Northern Ireland)
+  isCapitalAsset: boolean("is_capital_asset").default(false), // Reclaimable under the flat rate scheme
+  status: varchar("status", { length: 20 }).default("recorded"), // recorded, paid, void
+  paidAt: timestamp("paid_at"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_uk_vat_purchases_tenant_date").on(table.tenantId, table.invoiceDate),
+]);
+
+// UK VAT Returns (nine-box returns prepared and submitted under MTD)
+export const ukVatReturns = pgTable("uk_vat_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  periodKey: varchar("period_key", { length: 4 }).notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  dueDate: date("due_date").notNull(),
+  vatScheme: varchar("vat_scheme", { length: 50 }).notNull(),
+  accountingBasis: varchar("accounting_basis", { length: 20 }).notNull(),
+  vatDueSales: decimal("vat_due_sales", { precision: 15, scale: 2 }).notNull(), // Box 1
+  vatDueAcquisitions: decimal("vat_due_acquisitions", { precision: 15, scale: 2 }).notNull(), // Box 2
+  totalVatDue: decimal("total_vat_due", { precision: 15, scale: 2 }).notNull(), // Box 3
+  vatReclaimedCurrPeriod: decimal("vat_reclaimed_curr_period", { precision: 15, scale: 2 }).notNull(), // Box 4
+  netVatDue: decimal("net_vat_due", { precision: 15, scale: 2 }).notNull(), // Box 5
+  totalValueSalesExVat: decimal("total_value_sales_ex_vat", { precision: 15, scale: 2 }).notNull(), // Box 6
+  totalValuePurchasesExVat: decimal("total_value_purchases_ex_vat", { precision: 15, scale: 2 }).notNull(), // Box 7
+  totalValueGoodsSuppliedExVat: decimal("total_value_goods_supplied_ex_vat", { precision: 15, scale: 2 }).notNull(), // Box 8
+  totalAcquisitionsExVat: decimal("total_acquisitions_ex_vat", { precision: 15, scale: 2 }).notNull(), // Box 9
+  salesCount: integer("sales_count").default(0),
+  purchasesCount: integer("purchases_count").default(0),
+  status: varchar("status", { length: 20 }).default("draft"), // draft, submitted, failed
+  submittedAt: timestamp("submitted_at"),
+  submittedBy: varchar("submitted_by"),
+  processingDate: timestamp("processing_date"),
+  formBundleNumber: varchar("form_bundle_number", { length: 12 }),
+  chargeRefNumber: varchar("charge_ref_number", { length: 20 }),
+  paymentIndicator: varchar("payment_indicator", { length: 10 }), // DD, BANK
+  submissionError: text("submission_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_uk_vat_returns_tenant_period").on(table.tenantId, table.periodKey),
+]);
+
 // GDPR Consent Records
 export const gdprConsentRecords = pgTable("gdpr_consent_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -4010,6 +4167,7 @@ export const ukComplianceSettings = pgTable("uk_compliance_settings", {
 // UK Compliance Insert Schemas
 export const insertUkVatConfigurationSchema = createInsertSchema(ukVatConfigurations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUkVatInvoiceSchema = createInsertSchema(ukVatInvoices).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUkVatPurchaseSchema = createInsertSchema(ukVatPurchases).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertGdprConsentRecordSchema = createInsertSchema(gdprConsentRecords).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUkDataRetentionPolicySchema = createInsertSchema(ukDataRetentionPolicies).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUkDataRetentionLogSchema = createInsertSchema(ukDataRetentionLogs).omit({ id: true, createdAt: true });
@@ -4024,6 +4182,11 @@ export type InsertUkVatConfiguration = z.infer<typeof insertUkVatConfigurationSc
 export type UkVatInvoice = typeof ukVatInvoices.$inferSelect;
 export type InsertUkVatInvoice = z.infer<typeof insertUkVatInvoiceSchema>;
 
+export type UkVatPurchase = typeof ukVatPurchases.$inferSelect;
+export type InsertUkVatPurchase = z.infer<typeof insertUkVatPurchaseSchema>;
+
+export type UkVatReturn = typeof ukVatReturns.$inferSelect;
+
 export type GdprConsentRecord = typeof gdprConsentRecords.$inferSelect;
 export type InsertGdprConsentRecord = z.infer<typeof insertGdprConsentRecordSchema>;
 
@@ -4800,6 +4963,7 @@ export const attendance = pgTable("attendance", {
   index("idx_attendance_student").on(table.studentId),
   index("idx_attendance_date").on(table.date),
   uniqueIndex("idx_attendance_unique").on(table.batchId, table.studentId, table.date),
+  index("idx_attendance_sync").on(table.tenantId, table.updatedAt, table.id),
 ]);
 
 // Exams Table
@@ -7489,6 +7653,142 @@ export const furnitureProducts = pgTable("furniture_products", {
   index("idx_furniture_products_category").on(table.categoryId),
 ]);
 
+// ============================================
+// FURNITURE: PRODUCT CONFIGURATOR
+// ============================================
+
+export const furnitureOptionTypeEnum = pgEnum("furniture_option_type", [
+  "material",
+  "dimension",
+  "color",
+  "add_on"
+]);
+
+// choice: pick one of the option's values; number: enter a measurement; toggle: on or off
+export const furnitureOptionInputTypeEnum = pgEnum("furniture_option_input_type", [
+  "choice",
+  "number",
+  "toggle"
+]);
+
+export const furnitureRulePriceTypeEnum = pgEnum("furniture_rule_price_type", [
+  "fixed",
+  "percent",
+  "per_unit"
+]);
+
+// Selected option values keyed by option code: a value code, a measurement, or on/off
+export type ConfigurationSelections = Record<string, string | number | boolean>;
+
+// A rule applies when every condition holds for the selections
+export type ConfigurationCondition = {
+  option: string;
+  values?: string[];
+  min?: number;
+  max?: number;
+  selected?: boolean;
+};
+
+// How a rule changes the product's BOM; targets are matched by raw material or sub-assembly
+export type BomAdjustment = {
+  action: "add" | "remove" | "replace" | "scale";
+  rawMaterialId?: string;
+  componentProductId?: string;
+  withRawMaterialId?: string;
+  withComponentProductId?: string;
+  quantity?: number;
+  factor?: number;
+  perUnit?: boolean;
+  wastePercent?: number;
+  consumptionStage?: typeof productionStageTypeEnum.enumValues[number];
+};
+
+// One line of a configured item's BOM, per unit of the item
+export type ConfiguredBomLine = {
+  rawMaterialId: string | null;
+  componentProductId: string | null;
+  quantity: number;
+  wastePercent: number;
+  consumptionStage: typeof productionStageTypeEnum.enumValues[number] | null;
+};
+
+export type PriceAdjustment = {
+  ruleId: string;
+  rule: string;
+  amount: number;
+};
+
+// Configurable options of a furniture product (fabric, seat width, finish, add-ons)
+export const furnitureProductOptions = pgTable("furniture_product_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => furnitureProducts.id, { onDelete: "cascade" }),
+  
+  code: varchar("code", { length: 50 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  optionType: furnitureOptionTypeEnum("option_type").notNull(),
+  inputType: furnitureOptionInputTypeEnum("input_type").notNull().default("choice"),
+  isRequired: boolean("is_required").notNull().default(false),
+  
+  // Number options: accepted range, the measurement the base price and BOM assume, and its unit
+  unit: varchar("unit", { length: 20 }),
+  minValue: decimal("min_value", { precision: 10, scale: 2 }),
+  maxValue: decimal("max_value", { precision: 10, scale: 2 }),
+  baseValue: decimal("base_value", { precision: 10, scale: 2 }),
+  
+  sortOrder: integer("sort_order").default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_furniture_product_options_tenant").on(table.tenantId),
+  uniqueIndex("idx_furniture_product_options_code").on(table.productId, table.code),
+]);
+
+// Values a choice option offers
+export const furnitureProductOptionValues = pgTable("furniture_product_option_values", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  optionId: varchar("option_id").notNull().references(() => furnitureProductOptions.id, { onDelete: "cascade" }),
+  
+  code: varchar("code", { length: 50 }).notNull(),
+  label: varchar("label", { length: 255 }).notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  
+  sortOrder: integer("sort_order").default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_furniture_option_values_code").on(table.optionId, table.code),
+]);
+
+// Price and BOM adjustments applied when a configuration matches the rule's conditions
+export const furnitureConfigurationRules = pgTable("furniture_configuration_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => furnitureProducts.id, { onDelete: "cascade" }),
+  
+  name: varchar("name", { length: 255 }).notNull(),
+  conditions: jsonb("conditions").$type<ConfigurationCondition[]>().notNull().default([]),
+  
+  // fixed: add the amount; percent: of the base price; per_unit: per unit of the number option above its base value
+  priceType: furnitureRulePriceTypeEnum("price_type").notNull().default("fixed"),
+  priceAmount: decimal("price_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  unitOption: varchar("unit_option", { length: 50 }),
+  
+  bomAdjustments: jsonb("bom_adjustments").$type<BomAdjustment[]>().notNull().default([]),
+  
+  // Lower priorities apply first
+  priority: integer("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_furniture_configuration_rules_tenant").on(table.tenantId),
+  index("idx_furniture_configuration_rules_product").on(table.productId),
+]);
+
 // ============================================
 // FURNITURE: RAW MATERIALS INVENTORY
 // ============================================
@@ -7629,7 +7929,9 @@ export const billOfMaterials = pgTable("bill_of_materials", {
 export const bomComponents = pgTable("bom_components", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   bomId: varchar("bom_id").notNull().references(() => billOfMaterials.id, { onDelete: "cascade" }),
-  rawMaterialId: varchar("raw_material_id").notNull().references(() => rawMaterials.id, { onDelete: "cascade" }),
+  // A component is either a raw material or a sub-assembly built from its own BOM
+  rawMaterialId: varchar("raw_material_id").references(() => rawMaterials.id, { onDelete: "cascade" }),
+  componentProductId: varchar("component_product_id").references(() => furnitureProducts.id),
   
   quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
   unitOfMeasure: varchar("unit_of_measure", { length: 20 }).notNull(),
@@ -7642,6 +7944,9 @@ export const bomComponents = pgTable("bom_components", {
   unitCost: decimal("unit_cost", { precision: 12, scale: 2 }),
   totalCost: decimal("total_cost", { precision: 12, scale: 2 }),
   
+  // Production stage whose completion back-flushes this component; unset means the order's first completed stage
+  consumptionStage: productionStageTypeEnum("consumption_stage"),
+  
   notes: text("notes"),
   sortOrder: integer("sort_order").default(0),
   
@@ -7650,6 +7955,7 @@ export const bomComponents = pgTable("bom_components", {
 }, (table) => [
   index("idx_bom_components_bom").on(table.bomId),
   index("idx_bom_components_material").on(table.rawMaterialId),
+  index("idx_bom_components_product").on(table.componentProductId),
 ]);
 
 // ============================================
@@ -7717,6 +8023,37 @@ export const productionOrders = pgTable("production_orders", {
   index("idx_production_orders_scheduled").on(table.tenantId, table.scheduledStartDate),
 ]);
 
+// Work centers: the machines, lines or crews production stages run on
+export const workCenters = pgTable("work_centers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  
+  code: varchar("code", { length: 50 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  
+  // Stage types it performs, used to place stages that have no work center yet
+  stageTypes: jsonb("stage_types").$type<Array<typeof productionStageTypeEnum.enumValues[number]>>().notNull().default([]),
+  
+  // How many stages it can run at the same time
+  capacity: integer("capacity").notNull().default(1),
+  
+  // Weekly shift windows ({ monday: [{ start: "08:00", end: "16:00" }] }) and non-working dates
+  shifts: jsonb("shifts").default({}),
+  blockedDates: jsonb("blocked_dates").default([]),
+  
+  // Default stage duration: setup plus a run time per unit of the order
+  setupMinutes: integer("setup_minutes").notNull().default(0),
+  minutesPerUnit: integer("minutes_per_unit").notNull().default(60),
+  
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_work_centers_code").on(table.tenantId, table.code),
+  index("idx_work_centers_tenant").on(table.tenantId),
+]);
+
 // Production stages/steps
 export const productionStages = pgTable("production_stages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -7731,8 +8068,10 @@ export const productionStages = pgTable("production_stages", {
   
   // Assignment
   assignedToId: varchar("assigned_to_id").references(() => staff.id),
+  workCenterId: varchar("work_center_id").references(() => workCenters.id),
   
-  // Timing
+  // Timing; planned minutes override the work center's default duration
+  plannedMinutes: integer("planned_minutes"),
   scheduledStartTime: timestamp("scheduled_start_time"),
   scheduledEndTime: timestamp("scheduled_end_time"),
   actualStartTime: timestamp("actual_start_time"),
@@ -7757,6 +8096,33 @@ export const productionStages = pgTable("production_stages", {
   index("idx_production_stages_order").on(table.productionOrderId),
   index("idx_production_stages_status").on(table.status),
   index("idx_production_stages_assigned").on(table.assignedToId),
+  index("idx_production_stages_work_center").on(table.workCenterId, table.scheduledStartTime),
+]);
+
+// Raw materials set aside for a released production order, consumed stage by stage
+export const materialReservationStatusEnum = pgEnum("material_reservation_status", ["active", "consumed", "released"]);
+
+export const materialReservations = pgTable("material_reservations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  productionOrderId: varchar("production_order_id").notNull().references(() => productionOrders.id, { onDelete: "cascade" }),
+  rawMaterialId: varchar("raw_material_id").notNull().references(() => rawMaterials.id),
+  stageType: productionStageTypeEnum("stage_type"),
+  
+  // What the order needs, and how much of it free stock could cover when reserved
+  requiredQuantity: decimal("required_quantity", { precision: 12, scale: 4 }).notNull(),
+  reservedQuantity: decimal("reserved_quantity", { precision: 12, scale: 4 }).notNull().default("0"),
+  consumedQuantity: decimal("consumed_quantity", { precision: 12, scale: 4 }).notNull().default("0"),
+  status: materialReservationStatusEnum("status").notNull().default("active"),
+  
+  // The raw material movement the back-flush posted
+  stockMovementId: varchar("stock_movement_id"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_material_reservations_order").on(table.productionOrderId),
+  index("idx_material_reservations_material").on(table.tenantId, table.rawMaterialId, table.status),
 ]);
 
 // ============================================
@@ -7993,6 +8359,10 @@ export const furnitureSalesOrderItems = pgTable("furniture_sales_order_items", {
   // HSN for GST
   hsnCode: varchar("hsn_code", { length: 20 }),
   
+  // Configured products: the selected options and the BOM they resolve to
+  configuration: jsonb("configuration").$type<ConfigurationSelections>(),
+  configuredBom: jsonb("configured_bom").$type<ConfiguredBomLine[]>(),
+  
   // Link to production order (for made-to-order items)
   productionOrderId: varchar("production_order_id").references(() => productionOrders.id),
   
@@ -8009,6 +8379,97 @@ export const furnitureSalesOrderItems = pgTable("furniture_sales_order_items", {
   index("idx_furniture_sales_items_product").on(table.productId),
 ]);
 
+// ============================================
+// FURNITURE: QUOTATIONS
+// ============================================
+
+export const furnitureQuotationStatusEnum = pgEnum("furniture_quotation_status", [
+  "draft",
+  "sent",
+  "accepted",
+  "rejected",
+  "expired",
+  "converted"
+]);
+
+// Quotations offered to customers, converted to sales orders once accepted
+export const furnitureQuotations = pgTable("furniture_quotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  
+  quotationNumber: varchar("quotation_number", { length: 50 }).notNull(),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  
+  status: furnitureQuotationStatusEnum("status").notNull().default("draft"),
+  validUntil: date("valid_until").notNull(),
+  
+  // Subtotal is the lines before their discounts; total = subtotal - discount + tax
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  currency: varchar("currency", { length: 5 }).default("INR").notNull(),
+  
+  expectedDeliveryDate: date("expected_delivery_date"),
+  deliveryAddress: text("delivery_address"),
+  requiresInstallation: boolean("requires_installation").default(false),
+  
+  notes: text("notes"),
+  termsAndConditions: text("terms_and_conditions"),
+  salesPersonId: varchar("sales_person_id").references(() => staff.id),
+  
+  sentAt: timestamp("sent_at"),
+  respondedAt: timestamp("responded_at"),
+  rejectionReason: text("rejection_reason"),
+  
+  // Sales order created from the quotation
+  salesOrderId: varchar("sales_order_id").references(() => furnitureSalesOrders.id),
+  convertedAt: timestamp("converted_at"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+}, (table) => [
+  index("idx_furniture_quotations_tenant").on(table.tenantId),
+  uniqueIndex("idx_furniture_quotations_number").on(table.tenantId, table.quotationNumber),
+  index("idx_furniture_quotations_customer").on(table.customerId),
+  index("idx_furniture_quotations_status").on(table.tenantId, table.status),
+]);
+
+// Quotation line items, priced from the product's configuration rules
+export const furnitureQuotationItems = pgTable("furniture_quotation_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationId: varchar("quotation_id").notNull().references(() => furnitureQuotations.id, { onDelete: "cascade" }),
+  
+  productId: varchar("product_id").notNull().references(() => furnitureProducts.id),
+  description: text("description").notNull(),
+  quantity: integer("quantity").notNull().default(1),
+  
+  configuration: jsonb("configuration").$type<ConfigurationSelections>().notNull().default({}),
+  configuredBom: jsonb("configured_bom").$type<ConfiguredBomLine[]>(),
+  
+  // The product's price, and the rule adjustments that make up the unit price
+  basePrice: decimal("base_price", { precision: 12, scale: 2 }).notNull(),
+  priceBreakdown: jsonb("price_breakdown").$type<PriceAdjustment[]>().notNull().default([]),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }).default("0"),
+  discountAmount: decimal("discount_amount", { precision: 12, scale: 2 }).default("0"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).default("0"),
+  totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  hsnCode: varchar("hsn_code", { length: 20 }),
+  
+  notes: text("notes"),
+  sortOrder: integer("sort_order").default(0),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_furniture_quotation_items_quotation").on(table.quotationId),
+]);
+
 // ============================================
 // FURNITURE MODULE: INVOICES
 // ============================================
@@ -8862,6 +9323,9 @@ export const insertFurnitureSalesOrderItemSchema = createInsertSchema(furnitureS
   id: true,
   createdAt: true,
   updatedAt: true,
+  // Set by the product configurator from the item's selections
+  configuration: true,
+  configuredBom: true,
 });
 
 export const insertRecurringPaymentScheduleSchema = createInsertSchema(recurringPaymentSchedules).omit({
@@ -8904,6 +9368,10 @@ export const insertScheduledBillingJobLogSchema = createInsertSchema(scheduledBi
 export type FurnitureProduct = typeof furnitureProducts.$inferSelect;
 export type InsertFurnitureProduct = z.infer<typeof insertFurnitureProductSchema>;
 
+export type FurnitureProductOption = typeof furnitureProductOptions.$inferSelect;
+export type FurnitureProductOptionValue = typeof furnitureProductOptionValues.$inferSelect;
+export type FurnitureConfigurationRule = typeof furnitureConfigurationRules.$inferSelect;
+
 export type RawMaterialCategory = typeof rawMaterialCategories.$inferSelect;
 export type InsertRawMaterialCategory = z.infer<typeof insertRawMaterialCategorySchema>;
 
@@ -8925,6 +9393,10 @@ export type InsertProductionOrder = z.infer<typeof insertProductionOrderSchema>;
 export type ProductionStage = typeof productionStages.$inferSelect;
 export type InsertProductionStage = z.infer<typeof insertProductionStageSchema>;
 
+export type WorkCenter = typeof workCenters.$inferSelect;
+
+export type MaterialReservation = typeof materialReservations.$inferSelect;
+
 export type DeliveryOrder = typeof deliveryOrders.$inferSelect;
 export type InsertDeliveryOrder = z.infer<typeof insertDeliveryOrderSchema>;
 
@@ -8940,6 +9412,9 @@ export type InsertFurnitureSalesOrder = z.infer<typeof insertFurnitureSalesOrder
 export type FurnitureSalesOrderItem = typeof furnitureSalesOrderItems.$inferSelect;
 export type InsertFurnitureSalesOrderItem = z.infer<typeof insertFurnitureSalesOrderItemSchema>;
 
+export type FurnitureQuotation = typeof furnitureQuotations.$inferSelect;
+export type FurnitureQuotationItem = typeof furnitureQuotationItems.$inferSelect;
+
 export type FurnitureInvoice = typeof furnitureInvoices.$inferSelect;
 export type InsertFurnitureInvoice = z.infer<typeof insertFurnitureInvoiceSchema>;
 
@@ -9072,6 +9547,7 @@ export const notificationPreferences = pgTable("notification_preferences", {
   emailEnabled: boolean("email_enabled").default(true),
   whatsappEnabled: boolean("whatsapp_enabled").default(false),
   smsEnabled: boolean("sms_enabled").default(false),
+  pushEnabled: boolean("push_enabled").default(true),
   
   // Quiet hours
   quietHoursEnabled: boolean("quiet_hours_enabled").default(false),
@@ -9828,3 +10304,1456 @@ export const insertSoc2AuditLogSchema = createInsertSchema(soc2AuditLogs).omit({
 
 export type Soc2AuditLog = typeof soc2AuditLogs.$inferSelect;
 export type InsertSoc2AuditLog = z.infer<typeof insertSoc2AuditLogSchema>;
+
+// ============================================
+// SALON MODULE: STYLIST CALENDARS & MULTI-SERVICE APPOINTMENTS
+// ============================================
+
+export const salonResourceTypeEnum = pgEnum("salon_resource_type", ["chair", "room", "wash_station", "bed", "other"]);
+
+// Weekly working hours per stylist (one row per tenant_staff member)
+export const salonStylistSchedules = pgTable("salon_stylist_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  staffId: varchar("staff_id").notNull().references(() => tenantStaff.id, { onDelete: "cascade" }),
+  schedule: jsonb("schedule").default({}),
+  blockedDates: jsonb("blocked_dates").default([]),
+  // Services this stylist performs; empty means every service
+  serviceIds: jsonb("service_ids").default([]),
+  isBookable: boolean("is_bookable").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_salon_stylist_schedules_tenant").on(table.tenantId),
+  uniqueIndex("idx_salon_stylist_schedules_staff").on(table.tenantId, table.staffId),
+]);
+
+// Chairs, rooms and stations that services occupy
+export const salonResources = pgTable("salon_resources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: salonResourceTypeEnum("type").notNull().default("chair"),
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_salon_resources_tenant").on(table.tenantId),
+  index("idx_salon_resources_type").on(table.tenantId, table.type),
+]);
+
+// Customer visit grouping one or more services
+export const salonAppointments = pgTable("salon_appointments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  appointmentDate: date("appointment_date").notNull(),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  status: bookingStatusEnum("status").default("pending"),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).default("0"),
+  notes: text("notes"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelReason: text("cancel_reason"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_salon_appointments_tenant").on(table.tenantId),
+  index("idx_salon_appointments_customer").on(table.customerId),
+  index("idx_salon_appointments_date").on(table.tenantId, table.appointmentDate),
+]);
+
+// Individual services within an appointment; each is mirrored to a core booking
+export const salonAppointmentItems = pgTable("salon_appointment_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  appointmentId: varchar("appointment_id").notNull().references(() => salonAppointments.id, { onDelete: "cascade" }),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  serviceId: varchar("service_id").notNull().references(() => services.id),
+  staffId: varchar("staff_id").notNull().references(() => tenantStaff.id),
+  resourceId: varchar("resource_id").references(() => salonResources.id),
+  sequence: integer("sequence").notNull().default(0),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  // Calendar block including buffer before and cleanup after the service
+  blockedFrom: time("blocked_from").notNull(),
+  blockedUntil: time("blocked_until").notNull(),
+  price: decimal("price", { precision: 10, scale: 2 }).default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_salon_appointment_items_appointment").on(table.appointmentId),
+  index("idx_salon_appointment_items_staff").on(table.tenantId, table.staffId),
+  index("idx_salon_appointment_items_resource").on(table.tenantId, table.resourceId),
+]);
+
+export const insertSalonStylistScheduleSchema = createInsertSchema(salonStylistSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSalonResourceSchema = createInsertSchema(salonResources).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export type SalonStylistSchedule = typeof salonStylistSchedules.$inferSelect;
+export type InsertSalonStylistSchedule = z.infer<typeof insertSalonStylistScheduleSchema>;
+export type SalonResource = typeof salonResources.$inferSelect;
+export type InsertSalonResource = z.infer<typeof insertSalonResourceSchema>;
+export type SalonAppointment = typeof salonAppointments.$inferSelect;
+export type SalonAppointmentItem = typeof salonAppointmentItems.$inferSelect;
+
+// ============================================
+// GYM MODULE: MEMBERS, CLASSES, CHECK-INS & FREEZES
+// ============================================
+
+export const gymCheckInMethodEnum = pgEnum("gym_check_in_method", ["qr", "pin", "manual"]);
+export const gymClassBookingStatusEnum = pgEnum("gym_class_booking_status", ["booked", "waitlisted", "attended", "cancelled", "no_show"]);
+
+// Gym profile for a customer; memberships themselves live in customer_memberships
+export const gymMembers = pgTable("gym_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  memberCode: varchar("member_code", { length: 20 }).notNull(),
+  qrToken: varchar("qr_token", { length: 64 }).notNull(),
+  pinHash: text("pin_hash"),
+  emergencyContactName: text("emergency_contact_name"),
+  emergencyContactPhone: varchar("emergency_contact_phone", { length: 30 }),
+  healthNotes: text("health_notes"),
+  isActive: boolean("is_active").default(true),
+  joinedAt: date("joined_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_gym_members_tenant").on(table.tenantId),
+  uniqueIndex("idx_gym_members_customer").on(table.tenantId, table.customerId),
+  uniqueIndex("idx_gym_members_code").on(table.tenantId, table.memberCode),
+  uniqueIndex("idx_gym_members_qr").on(table.qrToken),
+]);
+
+// Open freezes have no endDate; the membership end date is extended on unfreeze
+export const gymMembershipFreezes = pgTable("gym_membership_freezes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  membershipId: varchar("membership_id").notNull().references(() => customerMemberships.id, { onDelete: "cascade" }),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  daysFrozen: integer("days_frozen"),
+  reason: text("reason"),
+  frozenBy: varchar("frozen_by").references(() => users.id),
+  unfrozenBy: varchar("unfrozen_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_gym_membership_freezes_membership").on(table.membershipId),
+]);
+
+export const gymClasses = pgTable("gym_classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  trainerId: varchar("trainer_id").references(() => tenantStaff.id),
+  location: text("location"),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  capacity: integer("capacity").notNull(),
+  waitlistLimit: integer("waitlist_limit").default(0),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_gym_classes_tenant").on(table.tenantId),
+]);
+
+export const gymClassSessions = pgTable("gym_class_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  classId: varchar("class_id").notNull().references(() => gymClasses.id, { onDelete: "cascade" }),
+  trainerId: varchar("trainer_id").references(() => tenantStaff.id),
+  sessionDate: date("session_date").notNull(),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  capacity: integer("capacity").notNull(),
+  waitlistLimit: integer("waitlist_limit").default(0),
+  isCancelled: boolean("is_cancelled").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_gym_class_sessions_tenant_date").on(table.tenantId, table.sessionDate),
+  index("idx_gym_class_sessions_class").on(table.classId),
+]);
+
+export const gymClassBookings = pgTable("gym_class_bookings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => gymClassSessions.id, { onDelete: "cascade" }),
+  memberId: varchar("member_id").notNull().references(() => gymMembers.id),
+  status: gymClassBookingStatusEnum("status").notNull().default("booked"),
+  waitlistedAt: timestamp("waitlisted_at"),
+  promotedAt: timestamp("promoted_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_gym_class_bookings_session").on(table.sessionId, table.status),
+  index("idx_gym_class_bookings_member").on(table.tenantId, table.memberId),
+]);
+
+// Every check-in attempt is logged, including denied ones
+export const gymCheckIns = pgTable("gym_check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  memberId: varchar("member_id").references(() => gymMembers.id),
+  membershipId: varchar("membership_id").references(() => customerMemberships.id),
+  sessionId: varchar("session_id").references(() => gymClassSessions.id),
+  method: gymCheckInMethodEnum("method").notNull(),
+  allowed: boolean("allowed").notNull(),
+  deniedReason: text("denied_reason"),
+  checkedInAt: timestamp("checked_in_at").defaultNow(),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  ipAddress: varchar("ip_address", { length: 45 }),
+}, (table) => [
+  index("idx_gym_check_ins_tenant_time").on(table.tenantId, table.checkedInAt),
+  index("idx_gym_check_ins_member").on(table.memberId),
+]);
+
+export const insertGymMemberSchema = createInsertSchema(gymMembers).omit({
+  id: true,
+  qrToken: true,
+  pinHash: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export const insertGymClassSchema = createInsertSchema(gymClasses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export type GymMember = typeof gymMembers.$inferSelect;
+export type InsertGymMember = z.infer<typeof insertGymMemberSchema>;
+export type GymMembershipFreeze = typeof gymMembershipFreezes.$inferSelect;
+export type GymClass = typeof gymClasses.$inferSelect;
+export type InsertGymClass = z.infer<typeof insertGymClassSchema>;
+export type GymClassSession = typeof gymClassSessions.$inferSelect;
+export type GymClassBooking = typeof gymClassBookings.$inferSelect;
+export type GymCheckIn = typeof gymCheckIns.$inferSelect;
+
+// ============================================
+// PG/HOSTEL MODULE: BEDS, RESIDENTS, DEPOSITS, RENT RUNS & MAINTENANCE
+// ============================================
+
+export const pgBedStatusEnum = pgEnum("pg_bed_status", ["available", "occupied", "reserved", "maintenance"]);
+export const pgResidentStatusEnum = pgEnum("pg_resident_status", ["active", "moved_out"]);
+export const pgDepositEntryTypeEnum = pgEnum("pg_deposit_entry_type", ["collected", "deduction", "refund", "adjustment"]);
+export const pgLateFeeTypeEnum = pgEnum("pg_late_fee_type", ["flat", "percent"]);
+export const pgMaintenanceStatusEnum = pgEnum("pg_maintenance_status", ["open", "assigned", "in_progress", "resolved", "closed", "cancelled"]);
+export const pgMaintenancePriorityEnum = pgEnum("pg_maintenance_priority", ["low", "medium", "high", "urgent"]);
+
+export const pgRooms = pgTable("pg_rooms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  roomNumber: varchar("room_number", { length: 30 }).notNull(),
+  floor: varchar("floor", { length: 20 }),
+  roomType: varchar("room_type", { length: 30 }).default("shared"),
+  // Default per-bed rent; beds may override it
+  monthlyRent: decimal("monthly_rent", { precision: 10, scale: 2 }).notNull(),
+  amenities: jsonb("amenities").default([]),
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_pg_rooms_tenant").on(table.tenantId),
+  uniqueIndex("idx_pg_rooms_number").on(table.tenantId, table.roomNumber),
+]);
+
+export const pgBeds = pgTable("pg_beds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  roomId: varchar("room_id").notNull().references(() => pgRooms.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 20 }).notNull(),
+  monthlyRent: decimal("monthly_rent", { precision: 10, scale: 2 }),
+  status: pgBedStatusEnum("status").notNull().default("available"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_pg_beds_tenant_status").on(table.tenantId, table.status),
+  uniqueIndex("idx_pg_beds_label").on(table.roomId, table.label),
+]);
+
+export const pgResidents = pgTable("pg_residents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  bedId: varchar("bed_id").notNull().references(() => pgBeds.id),
+  status: pgResidentStatusEnum("status").notNull().default("active"),
+  moveInDate: date("move_in_date").notNull(),
+  // Last night stayed; rent is billed up to and including this date
+  moveOutDate: date("move_out_date"),
+  monthlyRent: decimal("monthly_rent", { precision: 10, scale: 2 }).notNull(),
+  securityDeposit: decimal("security_deposit", { precision: 10, scale: 2 }).default("0"),
+  emergencyContactName: text("emergency_contact_name"),
+  emergencyContactPhone: varchar("emergency_contact_phone", { length: 30 }),
+  idProofType: varchar("id_proof_type", { length: 30 }),
+  idProofNumber: varchar("id_proof_number", { length: 50 }),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_pg_residents_tenant_status").on(table.tenantId, table.status),
+  index("idx_pg_residents_customer").on(table.customerId),
+  index("idx_pg_residents_bed").on(table.bedId),
+]);
+
+// Append-only; balanceAfter is the deposit held after the entry
+export const pgDepositLedger = pgTable("pg_deposit_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  residentId: varchar("resident_id").notNull().references(() => pgResidents.id, { onDelete: "cascade" }),
+  entryType: pgDepositEntryTypeEnum("entry_type").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  balanceAfter: decimal("balance_after", { precision: 10, scale: 2 }).notNull(),
+  description: text("description"),
+  paymentMethod: paymentMethodEnum("payment_method"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_pg_deposit_ledger_resident").on(table.residentId, table.createdAt),
+]);
+
+export const pgRentRuns = pgTable("pg_rent_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  period: varchar("period", { length: 7 }).notNull(),
+  invoiceCount: integer("invoice_count").default(0),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default("0"),
+  runBy: varchar("run_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_pg_rent_runs_tenant").on(table.tenantId, table.period),
+]);
+
+export const pgRentCharges = pgTable("pg_rent_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  runId: varchar("run_id").references(() => pgRentRuns.id),
+  residentId: varchar("resident_id").notNull().references(() => pgResidents.id),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id),
+  period: varchar("period", { length: 7 }).notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  daysBilled: integer("days_billed").notNull(),
+  daysInPeriod: integer("days_in_period").notNull(),
+  monthlyRent: decimal("monthly_rent", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  lateFeeAmount: decimal("late_fee_amount", { precision: 10, scale: 2 }),
+  lateFeeAppliedAt: timestamp("late_fee_applied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_pg_rent_charges_resident_period").on(table.residentId, table.period),
+  index("idx_pg_rent_charges_tenant_period").on(table.tenantId, table.period),
+]);
+
+// One rule per tenant; applied once per unpaid rent invoice after the grace period
+export const pgLateFeeRules = pgTable("pg_late_fee_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  graceDays: integer("grace_days").notNull().default(5),
+  feeType: pgLateFeeTypeEnum("fee_type").notNull().default("flat"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  maxAmount: decimal("max_amount", { precision: 10, scale: 2 }),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_pg_late_fee_rules_tenant").on(table.tenantId),
+]);
+
+export const pgMaintenanceTickets = pgTable("pg_maintenance_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  ticketNumber: varchar("ticket_number", { length: 20 }).notNull(),
+  roomId: varchar("room_id").references(() => pgRooms.id),
+  bedId: varchar("bed_id").references(() => pgBeds.id),
+  residentId: varchar("resident_id").references(() => pgResidents.id),
+  title: text("title").notNull(),
+  description: text("description"),
+  category: varchar("category", { length: 50 }),
+  priority: pgMaintenancePriorityEnum("priority").notNull().default("medium"),
+  status: pgMaintenanceStatusEnum("status").notNull().default("open"),
+  assignedTo: varchar("assigned_to").references(() => tenantStaff.id),
+  resolutionNotes: text("resolution_notes"),
+  cost: decimal("cost", { precision: 10, scale: 2 }),
+  resolvedAt: timestamp("resolved_at"),
+  closedAt: timestamp("closed_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_pg_maintenance_tickets_tenant_status").on(table.tenantId, table.status),
+  uniqueIndex("idx_pg_maintenance_tickets_number").on(table.tenantId, table.ticketNumber),
+]);
+
+export const insertPgRoomSchema = createInsertSchema(pgRooms).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export const insertPgResidentSchema = createInsertSchema(pgResidents).omit({
+  id: true,
+  status: true,
+  moveOutDate: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export const insertPgLateFeeRuleSchema = createInsertSchema(pgLateFeeRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPgMaintenanceTicketSchema = createInsertSchema(pgMaintenanceTickets).omit({
+  id: true,
+  ticketNumber: true,
+  status: true,
+  resolvedAt: true,
+  closedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PgRoom = typeof pgRooms.$inferSelect;
+export type InsertPgRoom = z.infer<typeof insertPgRoomSchema>;
+export type PgBed = typeof pgBeds.$inferSelect;
+export type PgResident = typeof pgResidents.$inferSelect;
+export type InsertPgResident = z.infer<typeof insertPgResidentSchema>;
+export type PgDepositLedgerEntry = typeof pgDepositLedger.$inferSelect;
+export type PgRentRun = typeof pgRentRuns.$inferSelect;
+export type PgRentCharge = typeof pgRentCharges.$inferSelect;
+export type PgLateFeeRule = typeof pgLateFeeRules.$inferSelect;
+export type InsertPgLateFeeRule = z.infer<typeof insertPgLateFeeRuleSchema>;
+export type PgMaintenanceTicket = typeof pgMaintenanceTickets.$inferSelect;
+export type InsertPgMaintenanceTicket = z.infer<typeof insertPgMaintenanceTicketSchema>;
+
+// ============================================
+// COWORKING MODULE: MEETING ROOMS, CREDITS & RECURRING DESKS
+// ============================================
+
+export const coworkingRecurrenceStatusEnum = pgEnum("coworking_recurrence_status", ["active", "cancelled"]);
+
+export const coworkingMeetingRooms = pgTable("coworking_meeting_rooms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  spaceId: varchar("space_id").notNull().references(() => spaces.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  capacity: integer("capacity").notNull().default(4),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull(),
+  // Credits consumed per booked hour; larger rooms can cost more
+  creditsPerHour: decimal("credits_per_hour", { precision: 6, scale: 2 }).notNull().default("1"),
+  openTime: time("open_time").notNull().default("08:00"),
+  closeTime: time("close_time").notNull().default("20:00"),
+  amenities: jsonb("amenities").default([]),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  index("idx_coworking_meeting_rooms_tenant").on(table.tenantId),
+  index("idx_coworking_meeting_rooms_space").on(table.spaceId),
+]);
+
+export const coworkingRoomBookings = pgTable("coworking_room_bookings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  roomId: varchar("room_id").notNull().references(() => coworkingMeetingRooms.id),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  membershipId: varchar("membership_id").references(() => customerMemberships.id),
+  title: text("title"),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  hours: decimal("hours", { precision: 6, scale: 2 }).notNull(),
+  creditsUsed: decimal("credits_used", { precision: 8, scale: 2 }).notNull().default("0"),
+  overageHours: decimal("overage_hours", { precision: 6, scale: 2 }).notNull().default("0"),
+  overageAmount: decimal("overage_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Set once the overage has been billed
+  invoiceId: varchar("invoice_id").references(() => invoices.id),
+  status: bookingStatusEnum("status").default("confirmed"),
+  notes: text("notes"),
+  bookedBy: varchar("booked_by").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_coworking_room_bookings_room_time").on(table.roomId, table.startTime),
+  index("idx_coworking_room_bookings_customer").on(table.tenantId, table.customerId, table.startTime),
+]);
+
+// Meeting-room credit allowance for a membership plan tier
+export const coworkingPlanAllowances = pgTable("coworking_plan_allowances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  planId: varchar("plan_id").notNull().references(() => membershipPlans.id, { onDelete: "cascade" }),
+  monthlyCredits: decimal("monthly_credits", { precision: 8, scale: 2 }).notNull().default("0"),
+  // Charged per hour beyond the allowance; falls back to the room's hourly rate
+  overageHourlyRate: decimal("overage_hourly_rate", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_coworking_plan_allowances_plan").on(table.planId),
+  index("idx_coworking_plan_allowances_tenant").on(table.tenantId),
+]);
+
+export const coworkingDeskRecurrences = pgTable("coworking_desk_recurrences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  deskId: varchar("desk_id").notNull().references(() => desks.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  customerId: varchar("customer_id").references(() => customers.id),
+  weekdays: jsonb("weekdays").notNull().default([]),
+  startTime: time("start_time").notNull(),
+  endTime: time("end_time").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  status: coworkingRecurrenceStatusEnum("status").notNull().default("active"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_coworking_desk_recurrences_tenant").on(table.tenantId, table.status),
+  index("idx_coworking_desk_recurrences_desk").on(table.deskId),
+]);
+
+export const insertCoworkingMeetingRoomSchema = createInsertSchema(coworkingMeetingRooms).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+});
+
+export const insertCoworkingPlanAllowanceSchema = createInsertSchema(coworkingPlanAllowances).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CoworkingMeetingRoom = typeof coworkingMeetingRooms.$inferSelect;
+export type InsertCoworkingMeetingRoom = z.infer<typeof insertCoworkingMeetingRoomSchema>;
+export type CoworkingRoomBooking = typeof coworkingRoomBookings.$inferSelect;
+export type CoworkingPlanAllowance = typeof coworkingPlanAllowances.$inferSelect;
+export type InsertCoworkingPlanAllowance = z.infer<typeof insertCoworkingPlanAllowanceSchema>;
+export type CoworkingDeskRecurrence = typeof coworkingDeskRecurrences.$inferSelect;
+
+// ============================================
+// MOBILE OFFLINE SYNC
+// ============================================
+
+export const mobileSyncStatusEnum = pgEnum("mobile_sync_status", ["pending", "processed", "conflict", "failed"]);
+
+// Per-device change-feed position for one entity
+export const mobileSyncCursors = pgTable("mobile_sync_cursors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  deviceId: varchar("device_id", { length: 255 }).notNull(),
+  entity: varchar("entity", { length: 50 }).notNull(),
+  lastSyncedAt: timestamp("last_synced_at"),
+  // (updatedAt, id) of the last server row delivered to the device
+  cursorUpdatedAt: timestamp("cursor_updated_at"),
+  cursorRecordId: varchar("cursor_record_id"),
+  serverVersion: integer("server_version").notNull().default(0),
+  checksum: varchar("checksum", { length: 16 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_mobile_sync_cursors_device_entity").on(table.tenantId, table.userId, table.deviceId, table.entity),
+]);
+
+// Offline edits received from devices, with the outcome of applying them
+export const mobileSyncChanges = pgTable("mobile_sync_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  deviceId: varchar("device_id", { length: 255 }).notNull(),
+  entity: varchar("entity", { length: 50 }).notNull(),
+  recordId: varchar("record_id").notNull(),
+  action: varchar("action", { length: 10 }).notNull(),
+  payload: jsonb("payload").default({}),
+  clientTimestamp: timestamp("client_timestamp").notNull(),
+  baseUpdatedAt: timestamp("base_updated_at"),
+  status: mobileSyncStatusEnum("status").notNull().default("pending"),
+  // client_wins, server_wins or manual; null when there was no conflict
+  resolution: varchar("resolution", { length: 20 }),
+  serverData: jsonb("server_data"),
+  errorMessage: text("error_message"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_mobile_sync_changes_replay").on(table.tenantId, table.deviceId, table.entity, table.recordId, table.clientTimestamp),
+  index("idx_mobile_sync_changes_status").on(table.tenantId, table.status),
+]);
+
+export type MobileSyncCursor = typeof mobileSyncCursors.$inferSelect;
+export type MobileSyncChange = typeof mobileSyncChanges.$inferSelect;
+
+// ============================================
+// MOBILE DEVICES & PUSH TOKENS
+// ============================================
+
+export const mobilePlatformEnum = pgEnum("mobile_platform", ["ios", "android"]);
+
+export const mobileDevices = pgTable("mobile_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  platform: mobilePlatformEnum("platform").notNull(),
+  deviceId: varchar("device_id", { length: 255 }).notNull(),
+  deviceName: varchar("device_name", { length: 255 }),
+  pushToken: text("push_token"),
+  // fcm or apns; the Flutter app registers FCM tokens on both platforms
+  pushProvider: varchar("push_provider", { length: 10 }).notNull().default("fcm"),
+  pushTokenUpdatedAt: timestamp("push_token_updated_at"),
+  // Set when the provider rejects the token or the app unregisters it
+  pushTokenInvalidatedAt: timestamp("push_token_invalidated_at"),
+  invalidationReason: varchar("invalidation_reason", { length: 100 }),
+  appVersion: varchar("app_version", { length: 50 }),
+  osVersion: varchar("os_version", { length: 50 }),
+  lastActiveAt: timestamp("last_active_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_mobile_devices_user_device").on(table.userId, table.deviceId),
+  index("idx_mobile_devices_tenant_user").on(table.tenantId, table.userId),
+  index("idx_mobile_devices_push_token").on(table.pushToken),
+]);
+
+export type MobileDevice = typeof mobileDevices.$inferSelect;
+
+// ============================================
+// OUTBOUND TENANT WEBHOOKS
+// ============================================
+
+export const tenantWebhookEndpointStatusEnum = pgEnum("tenant_webhook_endpoint_status", ["active", "disabled"]);
+export const tenantWebhookDeliveryStatusEnum = pgEnum("tenant_webhook_delivery_status", ["pending", "succeeded", "failed"]);
+
+// Tenant-configured URLs that receive signed business events
+export const tenantWebhookEndpoints = pgTable("tenant_webhook_endpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: varchar("description", { length: 255 }),
+  // Event types or wildcards ("invoice.*", "*") this endpoint subscribes to
+  events: jsonb("events").$type<string[]>().notNull().default([]),
+  secret: varchar("secret", { length: 100 }).notNull(),
+  status: tenantWebhookEndpointStatusEnum("status").notNull().default("active"),
+  // Failed attempts since the last successful delivery; reaching the limit disables the endpoint
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  disabledAt: timestamp("disabled_at"),
+  disabledReason: varchar("disabled_reason", { length: 255 }),
+  lastDeliveryAt: timestamp("last_delivery_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_tenant_webhook_endpoints_tenant").on(table.tenantId, table.status),
+]);
+
+// One row per event per endpoint; replays add a new row pointing at the original
+export const tenantWebhookDeliveries = pgTable("tenant_webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  endpointId: varchar("endpoint_id").notNull().references(() => tenantWebhookEndpoints.id, { onDelete: "cascade" }),
+  eventId: varchar("event_id").notNull(),
+  eventType: varchar("event_type", { length: 100 }).notNull(),
+  // The exact JSON body sent to the endpoint
+  payload: jsonb("payload").notNull(),
+  status: tenantWebhookDeliveryStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"),
+  errorMessage: text("error_message"),
+  durationMs: integer("duration_ms"),
+  replayOf: varchar("replay_of"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_tenant_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  index("idx_tenant_webhook_deliveries_endpoint").on(table.endpointId, table.createdAt),
+  index("idx_tenant_webhook_deliveries_event").on(table.tenantId, table.eventId),
+]);
+
+export const insertTenantWebhookEndpointSchema = createInsertSchema(tenantWebhookEndpoints).omit({
+  id: true,
+  secret: true,
+  status: true,
+  consecutiveFailures: true,
+  disabledAt: true,
+  disabledReason: true,
+  lastDeliveryAt: true,
+  lastSuccessAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TenantWebhookEndpoint = typeof tenantWebhookEndpoints.$inferSelect;
+export type InsertTenantWebhookEndpoint = z.infer<typeof insertTenantWebhookEndpointSchema>;
+export type TenantWebhookDelivery = typeof tenantWebhookDeliveries.$inferSelect;
+
+// ============================================
+// INVOICE LEDGER (cross-module receivables)
+// ============================================
+
+export const ledgerDocumentTypeEnum = pgEnum("ledger_document_type", ["invoice", "credit_note", "debit_note"]);
+export const ledgerSourceModuleEnum = pgEnum("ledger_source_module", ["core", "furniture", "legal", "education", "tourism", "ledger"]);
+export const ledgerDocumentStatusEnum = pgEnum("ledger_document_status", ["open", "partially_paid", "paid", "credited", "applied", "void"]);
+export const ledgerEntryTypeEnum = pgEnum("ledger_entry_type", ["payment", "refund", "credit"]);
+
+// Sequential per-tenant numbering, one series per document type
+export const invoiceNumberSeries = pgTable("invoice_number_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  documentType: ledgerDocumentTypeEnum("document_type").notNull(),
+  prefix: varchar("prefix", { length: 20 }).notNull(),
+  nextNumber: integer("next_number").notNull().default(1),
+  padding: integer("padding").notNull().default(6),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_invoice_number_series_type").on(table.tenantId, table.documentType),
+]);
+
+// Every module's invoices are mirrored here; credit and debit notes are issued here and reference an original
+export const ledgerDocuments = pgTable("ledger_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  documentType: ledgerDocumentTypeEnum("document_type").notNull().default("invoice"),
+  documentNumber: varchar("document_number", { length: 50 }).notNull(),
+  sourceModule: ledgerSourceModuleEnum("source_module").notNull(),
+  // The module record this document mirrors; null for notes issued in the ledger
+  sourceId: varchar("source_id"),
+  // The module's own number for the record, e.g. a booking number
+  sourceReference: varchar("source_reference", { length: 100 }),
+  originalDocumentId: varchar("original_document_id"),
+  partyType: varchar("party_type", { length: 30 }).notNull(),
+  partyId: varchar("party_id"),
+  partyName: varchar("party_name", { length: 255 }),
+  currency: varchar("currency", { length: 10 }).notNull().default("INR"),
+  issueDate: date("issue_date").notNull(),
+  dueDate: date("due_date"),
+  subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
+  paidAmount: decimal("paid_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  creditedAmount: decimal("credited_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  refundedAmount: decimal("refunded_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  // Negative when the party holds a credit, e.g. after crediting a paid invoice
+  balanceAmount: decimal("balance_amount", { precision: 15, scale: 2 }).notNull(),
+  status: ledgerDocumentStatusEnum("status").notNull().default("open"),
+  reason: text("reason"),
+  voidedAt: timestamp("voided_at"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_ledger_documents_number").on(table.tenantId, table.documentNumber),
+  uniqueIndex("idx_ledger_documents_source").on(table.tenantId, table.sourceModule, table.sourceId),
+  index("idx_ledger_documents_party").on(table.tenantId, table.partyType, table.partyId),
+  index("idx_ledger_documents_status").on(table.tenantId, table.status, table.dueDate),
+  index("idx_ledger_documents_original").on(table.originalDocumentId),
+]);
+
+// Payments, refunds and credits applied to a ledger document
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  documentId: varchar("document_id").notNull().references(() => ledgerDocuments.id, { onDelete: "cascade" }),
+  entryType: ledgerEntryTypeEnum("entry_type").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  entryDate: date("entry_date").notNull(),
+  // The credit note behind a credit entry
+  creditNoteId: varchar("credit_note_id").references(() => ledgerDocuments.id, { onDelete: "set null" }),
+  reference: varchar("reference", { length: 255 }),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_ledger_entries_document").on(table.documentId, table.entryDate),
+  index("idx_ledger_entries_tenant").on(table.tenantId, table.entryType),
+]);
+
+export type InvoiceNumberSeries = typeof invoiceNumberSeries.$inferSelect;
+export type LedgerDocument = typeof ledgerDocuments.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// ============================================
+// GENERAL LEDGER (double-entry accounting)
+// ============================================
+
+export const glAccountTypeEnum = pgEnum("gl_account_type", ["asset", "liability", "equity", "income", "expense"]);
+export const glJournalStatusEnum = pgEnum("gl_journal_status", ["posted", "reversed"]);
+export const glPeriodStatusEnum = pgEnum("gl_period_status", ["open", "closed", "locked"]);
+
+// Per-tenant chart of accounts; system keys mark the accounts automatic postings use
+export const glAccounts = pgTable("gl_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  code: varchar("code", { length: 20 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  accountType: glAccountTypeEnum("account_type").notNull(),
+  systemKey: varchar("system_key", { length: 50 }),
+  parentId: varchar("parent_id"),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_gl_accounts_code").on(table.tenantId, table.code),
+  uniqueIndex("idx_gl_accounts_system_key").on(table.tenantId, table.systemKey),
+]);
+
+// Amounts are in the tenant's currency; automatic entries keep a link to the record they came from
+export const glJournalEntries = pgTable("gl_journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  entryNumber: integer("entry_number").notNull(),
+  entryDate: date("entry_date").notNull(),
+  sourceType: varchar("source_type", { length: 40 }).notNull().default("manual"),
+  sourceId: varchar("source_id"),
+  description: text("description").notNull(),
+  currency: varchar("currency", { length: 10 }).notNull(),
+  status: glJournalStatusEnum("status").notNull().default("posted"),
+  reversalOfId: varchar("reversal_of_id"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_gl_journal_entries_number").on(table.tenantId, table.entryNumber),
+  uniqueIndex("idx_gl_journal_entries_source").on(table.tenantId, table.sourceType, table.sourceId),
+  index("idx_gl_journal_entries_date").on(table.tenantId, table.entryDate),
+]);
+
+export const glJournalLines = pgTable("gl_journal_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  entryId: varchar("entry_id").notNull().references(() => glJournalEntries.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").notNull().references(() => glAccounts.id),
+  lineNo: integer("line_no").notNull(),
+  debit: decimal("debit", { precision: 15, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 15, scale: 2 }).notNull().default("0"),
+  description: text("description"),
+}, (table) => [
+  index("idx_gl_journal_lines_entry").on(table.entryId),
+  index("idx_gl_journal_lines_account").on(table.tenantId, table.accountId),
+]);
+
+// Closed periods can be reopened by an admin; locked periods cannot
+export const glPeriods = pgTable("gl_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  status: glPeriodStatusEnum("status").notNull().default("open"),
+  closedAt: timestamp("closed_at"),
+  closedBy: varchar("closed_by").references(() => users.id),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_gl_periods_start").on(table.tenantId, table.periodStart),
+]);
+
+export const insertGlAccountSchema = createInsertSchema(glAccounts).omit({ id: true, createdAt: true, updatedAt: true });
+
+export type GlAccount = typeof glAccounts.$inferSelect;
+export type InsertGlAccount = z.infer<typeof insertGlAccountSchema>;
+export type GlJournalEntry = typeof glJournalEntries.$inferSelect;
+export type GlJournalLine = typeof glJournalLines.$inferSelect;
+export type GlPeriod = typeof glPeriods.$inferSelect;
+
+// ============================================
+// BANK RECONCILIATION
+// ============================================
+
+export const bankStatementFormatEnum = pgEnum("bank_statement_format", ["csv", "ofx", "mt940", "camt053"]);
+export const bankLineStatusEnum = pgEnum("bank_line_status", ["unmatched", "matched", "excluded"]);
+export const bankMatchMethodEnum = pgEnum("bank_match_method", ["rule", "auto", "manual"]);
+
+export const bankStatements = pgTable("bank_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  format: bankStatementFormatEnum("format").notNull(),
+  fileName: varchar("file_name", { length: 255 }),
+  // SHA-256 of the file, so the same statement is not imported twice
+  fileHash: varchar("file_hash", { length: 64 }).notNull(),
+  accountNumber: varchar("account_number", { length: 50 }),
+  currency: varchar("currency", { length: 10 }),
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  lineCount: integer("line_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  importedBy: varchar("imported_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_bank_statements_hash").on(table.tenantId, table.fileHash),
+  index("idx_bank_statements_tenant").on(table.tenantId, table.createdAt),
+]);
+
+// Amounts are signed from the tenant's side: money in is positive, money out negative
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  statementId: varchar("statement_id").notNull().references(() => bankStatements.id, { onDelete: "cascade" }),
+  lineNo: integer("line_no").notNull(),
+  bookingDate: date("booking_date").notNull(),
+  valueDate: date("value_date"),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 10 }),
+  description: text("description"),
+  reference: varchar("reference", { length: 255 }),
+  counterparty: varchar("counterparty", { length: 255 }),
+  bankReference: varchar("bank_reference", { length: 255 }),
+  // Identifies the same bank transaction across overlapping statements
+  dedupeKey: varchar("dedupe_key", { length: 64 }).notNull(),
+  status: bankLineStatusEnum("status").notNull().default("unmatched"),
+  matchedSourceType: varchar("matched_source_type", { length: 30 }),
+  matchedSourceId: varchar("matched_source_id"),
+  matchMethod: bankMatchMethodEnum("match_method"),
+  matchScore: integer("match_score"),
+  ruleId: varchar("rule_id"),
+  note: text("note"),
+  matchedAt: timestamp("matched_at"),
+  matchedBy: varchar("matched_by").references(() => users.id),
+}, (table) => [
+  uniqueIndex("idx_bank_statement_lines_dedupe").on(table.tenantId, table.dedupeKey),
+  uniqueIndex("idx_bank_statement_lines_source").on(table.tenantId, table.matchedSourceType, table.matchedSourceId),
+  index("idx_bank_statement_lines_statement").on(table.statementId, table.lineNo),
+  index("idx_bank_statement_lines_status").on(table.tenantId, table.status, table.bookingDate),
+]);
+
+// Tenant rules applied before fuzzy matching, e.g. excluding bank charges
+export const bankReconciliationRules = pgTable("bank_reconciliation_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(),
+  priority: integer("priority").notNull().default(100),
+  field: varchar("field", { length: 20 }).notNull().default("description"),
+  pattern: varchar("pattern", { length: 255 }).notNull(),
+  direction: varchar("direction", { length: 10 }).notNull().default("any"),
+  minAmount: decimal("min_amount", { precision: 15, scale: 2 }),
+  maxAmount: decimal("max_amount", { precision: 15, scale: 2 }),
+  action: varchar("action", { length: 20 }).notNull(),
+  sourceType: varchar("source_type", { length: 30 }),
+  note: text("note"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_bank_reconciliation_rules_tenant").on(table.tenantId, table.priority),
+]);
+
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type BankReconciliationRule = typeof bankReconciliationRules.$inferSelect;
+
+// ============================================
+// ACCOUNTING SOFTWARE EXPORT
+// ============================================
+
+export const accountingExportTargetEnum = pgEnum("accounting_export_target", ["tally", "quickbooks", "xero"]);
+
+// Per-tenant names of the ledgers or accounts an export posts to, e.g. "sales" -> "Sales Accounts"
+export const accountingExportMappings = pgTable("accounting_export_mappings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  target: accountingExportTargetEnum("target").notNull(),
+  mappingKey: varchar("mapping_key", { length: 100 }).notNull(),
+  ledgerName: varchar("ledger_name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_accounting_export_mappings_key").on(table.tenantId, table.target, table.mappingKey),
+]);
+
+export type AccountingExportMapping = typeof accountingExportMappings.$inferSelect;
+
+// ============================================
+// SUBSCRIPTION DUNNING
+// ============================================
+
+export const dunningCaseStatusEnum = pgEnum("dunning_case_status", ["open", "recovered", "failed", "cancelled"]);
+
+export type DunningMessageStep = {
+  day: number;
+  channel: "email" | "whatsapp";
+  tone: "reminder" | "warning" | "final";
+};
+
+export type DunningScheduleConfig = {
+  retryDays: number[];
+  messageSteps: DunningMessageStep[];
+  limitFeaturesAfterDays: number;
+  readOnlyAfterDays: number;
+  suspendAfterDays: number;
+};
+
+// Retry ladder for failed renewal charges. Scope is "default" or a tenant country, which overrides the default
+export const dunningSchedules = pgTable("dunning_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: varchar("scope", { length: 20 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  retryDays: jsonb("retry_days").$type<number[]>().notNull(),
+  messageSteps: jsonb("message_steps").$type<DunningMessageStep[]>().notNull(),
+  limitFeaturesAfterDays: integer("limit_features_after_days").notNull(),
+  readOnlyAfterDays: integer("read_only_after_days").notNull(),
+  suspendAfterDays: integer("suspend_after_days").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_dunning_schedules_scope").on(table.scope),
+]);
+
+// One case per failed subscription invoice; the schedule is copied in so later edits don't move a running ladder
+export const dunningCases = pgTable("dunning_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  subscriptionId: varchar("subscription_id").references(() => tenantSubscriptions.id),
+  invoiceId: varchar("invoice_id").notNull().references(() => subscriptionInvoices.id),
+  status: dunningCaseStatusEnum("status").notNull().default("open"),
+  schedule: jsonb("schedule").$type<DunningScheduleConfig>().notNull(),
+  amountDue: decimal("amount_due", { precision: 12, scale: 2 }).notNull(),
+  currency: currencyEnum("currency").notNull(),
+  retryCount: integer("retry_count").notNull().default(0),
+  nextRetryAt: timestamp("next_retry_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastFailureReason: text("last_failure_reason"),
+  messagesSent: jsonb("messages_sent").$type<string[]>().notNull().default([]),
+  accessStage: varchar("access_stage", { length: 20 }).notNull().default("full"),
+  paymentLink: text("payment_link"),
+  recoveredAmount: decimal("recovered_amount", { precision: 12, scale: 2 }),
+  recoveredAt: timestamp("recovered_at"),
+  closedAt: timestamp("closed_at"),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_dunning_cases_invoice").on(table.invoiceId),
+  index("idx_dunning_cases_tenant_status").on(table.tenantId, table.status),
+  index("idx_dunning_cases_status_retry").on(table.status, table.nextRetryAt),
+  index("idx_dunning_cases_opened").on(table.openedAt),
+]);
+
+export const dunningEvents = pgTable("dunning_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull().references(() => dunningCases.id, { onDelete: "cascade" }),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  eventType: varchar("event_type", { length: 30 }).notNull(), // opened, payment_failed, retry, retry_failed, message_sent, message_failed, stage_changed, recovered, suspended, cancelled
+  channel: varchar("channel", { length: 20 }),
+  attemptNumber: integer("attempt_number"),
+  details: jsonb("details").default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_dunning_events_case").on(table.caseId),
+]);
+
+export type DunningSchedule = typeof dunningSchedules.$inferSelect;
+export type DunningCase = typeof dunningCases.$inferSelect;
+export type DunningEvent = typeof dunningEvents.$inferSelect;
+
+// ============================================
+// PROCUREMENT
+// ============================================
+
+export const purchaseRequisitionStatusEnum = pgEnum("purchase_requisition_status", ["draft", "submitted", "approved", "rejected", "converted", "cancelled"]);
+export const purchaseOrderStatusEnum = pgEnum("purchase_order_status", ["draft", "pending_approval", "approved", "rejected", "partially_received", "received", "closed", "cancelled"]);
+export const supplierBillStatusEnum = pgEnum("supplier_bill_status", ["matched", "on_hold", "approved", "paid", "cancelled"]);
+
+// A purchasable item is either a furniture raw material or a core inventory item
+export type ProcurementItemType = "raw_material" | "inventory_item";
+
+export type ProcurementApprovalThreshold = {
+  minAmount: number;
+  role: "manager" | "admin";
+};
+
+export type PurchaseRequisitionLine = {
+  itemType: ProcurementItemType;
+  itemId: string;
+  description: string;
+  quantity: number;
+  estimatedUnitCost: number | null;
+  supplierId: string | null;
+};
+
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  code: varchar("code", { length: 50 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  contactName: varchar("contact_name", { length: 255 }),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 50 }),
+  address: text("address"),
+  taxId: varchar("tax_id", { length: 50 }),
+  currency: varchar("currency", { length: 3 }).notNull().default("INR"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(30),
+  leadTimeDays: integer("lead_time_days").notNull().default(7),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_suppliers_code").on(table.tenantId, table.code),
+  index("idx_suppliers_tenant").on(table.tenantId),
+]);
+
+export const procurementSettings = pgTable("procurement_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  // Orders at or above a threshold's amount need approval from at least its role
+  approvalThresholds: jsonb("approval_thresholds").$type<ProcurementApprovalThreshold[]>().notNull().default([]),
+  // How far a supplier bill may drift from the order price and the received quantity before it is held
+  priceTolerancePercent: decimal("price_tolerance_percent", { precision: 5, scale: 2 }).notNull().default("2"),
+  quantityTolerancePercent: decimal("quantity_tolerance_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  // Share of an order line that may be received above the ordered quantity
+  overReceiptTolerancePercent: decimal("over_receipt_tolerance_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_procurement_settings_tenant").on(table.tenantId),
+]);
+
+export const purchaseRequisitions = pgTable("purchase_requisitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  requisitionNumber: varchar("requisition_number", { length: 50 }).notNull(),
+  status: purchaseRequisitionStatusEnum("status").notNull().default("draft"),
+  lines: jsonb("lines").$type<PurchaseRequisitionLine[]>().notNull(),
+  neededBy: date("needed_by"),
+  notes: text("notes"),
+  requestedBy: varchar("requested_by").references(() => users.id),
+  decidedBy: varchar("decided_by").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionNote: text("decision_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_purchase_requisitions_number").on(table.tenantId, table.requisitionNumber),
+  index("idx_purchase_requisitions_status").on(table.tenantId, table.status),
+]);
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  poNumber: varchar("po_number", { length: 50 }).notNull(),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  requisitionId: varchar("requisition_id").references(() => purchaseRequisitions.id),
+  status: purchaseOrderStatusEnum("status").notNull().default("draft"),
+  orderDate: date("order_date").notNull(),
+  expectedDate: date("expected_date"),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 14, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 14, scale: 2 }).notNull().default("0"),
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).notNull().default("0"),
+  requiredApprovalRole: varchar("required_approval_role", { length: 20 }),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_purchase_orders_number").on(table.tenantId, table.poNumber),
+  index("idx_purchase_orders_status").on(table.tenantId, table.status),
+  index("idx_purchase_orders_supplier").on(table.supplierId),
+]);
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(),
+  itemType: varchar("item_type", { length: 20 }).$type<ProcurementItemType>().notNull(),
+  itemId: varchar("item_id").notNull(),
+  description: text("description").notNull(),
+  unit: varchar("unit", { length: 20 }),
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  lineTotal: decimal("line_total", { precision: 14, scale: 2 }).notNull(),
+  receivedQuantity: decimal("received_quantity", { precision: 12, scale: 4 }).notNull().default("0"),
+  billedQuantity: decimal("billed_quantity", { precision: 12, scale: 4 }).notNull().default("0"),
+}, (table) => [
+  index("idx_purchase_order_lines_order").on(table.purchaseOrderId),
+  index("idx_purchase_order_lines_item").on(table.tenantId, table.itemType, table.itemId),
+]);
+
+export const goodsReceipts = pgTable("goods_receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  grnNumber: varchar("grn_number", { length: 50 }).notNull(),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  receivedDate: date("received_date").notNull(),
+  supplierDeliveryNote: varchar("supplier_delivery_note", { length: 100 }),
+  notes: text("notes"),
+  receivedBy: varchar("received_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_goods_receipts_number").on(table.tenantId, table.grnNumber),
+  index("idx_goods_receipts_order").on(table.purchaseOrderId),
+]);
+
+export const goodsReceiptLines = pgTable("goods_receipt_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goodsReceiptId: varchar("goods_receipt_id").notNull().references(() => goodsReceipts.id, { onDelete: "cascade" }),
+  purchaseOrderLineId: varchar("purchase_order_line_id").notNull().references(() => purchaseOrderLines.id),
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
+  batchNumber: varchar("batch_number", { length: 100 }),
+  // The raw material movement or inventory transaction the receipt posted
+  stockMovementId: varchar("stock_movement_id"),
+}, (table) => [
+  index("idx_goods_receipt_lines_receipt").on(table.goodsReceiptId),
+  index("idx_goods_receipt_lines_po_line").on(table.purchaseOrderLineId),
+]);
+
+export type SupplierBillMatchException = {
+  purchaseOrderLineId: string;
+  type: "quantity_exceeds_received" | "price_variance";
+  expected: number;
+  actual: number;
+};
+
+export const supplierBills = pgTable("supplier_bills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  billNumber: varchar("bill_number", { length: 50 }).notNull(),
+  supplierInvoiceNumber: varchar("supplier_invoice_number", { length: 100 }).notNull(),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id),
+  status: supplierBillStatusEnum("status").notNull(),
+  billDate: date("bill_date").notNull(),
+  dueDate: date("due_date").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 14, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 14, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).notNull(),
+  matchExceptions: jsonb("match_exceptions").$type<SupplierBillMatchException[]>().notNull().default([]),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  approvalNote: text("approval_note"),
+  paidAt: timestamp("paid_at"),
+  paymentReference: varchar("payment_reference", { length: 100 }),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_supplier_bills_number").on(table.tenantId, table.billNumber),
+  uniqueIndex("idx_supplier_bills_supplier_invoice").on(table.tenantId, table.supplierId, table.supplierInvoiceNumber),
+  index("idx_supplier_bills_status").on(table.tenantId, table.status),
+  index("idx_supplier_bills_order").on(table.purchaseOrderId),
+]);
+
+export const supplierBillLines = pgTable("supplier_bill_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  billId: varchar("bill_id").notNull().references(() => supplierBills.id, { onDelete: "cascade" }),
+  purchaseOrderLineId: varchar("purchase_order_line_id").notNull().references(() => purchaseOrderLines.id),
+  quantity: decimal("quantity", { precision: 12, scale: 4 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  lineTotal: decimal("line_total", { precision: 14, scale: 2 }).notNull(),
+}, (table) => [
+  index("idx_supplier_bill_lines_bill").on(table.billId),
+]);
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type ProcurementSettings = typeof procurementSettings.$inferSelect;
+export type PurchaseRequisition = typeof purchaseRequisitions.$inferSelect;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type GoodsReceipt = typeof goodsReceipts.$inferSelect;
+export type GoodsReceiptLine = typeof goodsReceiptLines.$inferSelect;
+export type SupplierBill = typeof supplierBills.$inferSelect;
+export type SupplierBillLine = typeof supplierBillLines.$inferSelect;
+
+// ============================================
+// WAREHOUSES & STOCK LOTS
+// ============================================
+
+export const stockValuationMethodEnum = pgEnum("stock_valuation_method", ["fifo", "weighted_average"]);
+export const stockTransferStatusEnum = pgEnum("stock_transfer_status", ["in_transit", "received", "cancelled"]);
+export const cycleCountStatusEnum = pgEnum("cycle_count_status", ["open", "posted", "cancelled"]);
+
+export const warehouses = pgTable("warehouses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  code: varchar("code", { length: 50 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  address: text("address"),
+  // Receives stock that arrives without a location, including stock from before warehouses existed
+  isDefault: boolean("is_default").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_warehouses_code").on(table.tenantId, table.code),
+  index("idx_warehouses_tenant").on(table.tenantId),
+]);
+
+export const inventorySettings = pgTable("inventory_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  valuationMethod: stockValuationMethodEnum("valuation_method").notNull().default("fifo"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_inventory_settings_tenant").on(table.tenantId),
+]);
+
+// A quantity of one item at one warehouse sharing a batch or serial number, expiry and receipt cost
+export const stockLots = pgTable("stock_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id),
+  batchNumber: varchar("batch_number", { length: 100 }),
+  serialNumber: varchar("serial_number", { length: 100 }),
+  expiryDate: date("expiry_date"),
+  quantity: integer("quantity").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }).notNull().default("0"),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_lots_item_warehouse").on(table.tenantId, table.itemId, table.warehouseId),
+  index("idx_stock_lots_expiry").on(table.tenantId, table.expiryDate),
+  index("idx_stock_lots_serial").on(table.tenantId, table.serialNumber),
+]);
+
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id, { onDelete: "cascade" }),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id),
+  lotId: varchar("lot_id").notNull().references(() => stockLots.id),
+  // receipt, issue, transfer_out, transfer_in, adjustment, cycle_count
+  movementType: varchar("movement_type", { length: 20 }).notNull(),
+  // Signed: positive into the lot, negative out of it
+  quantity: integer("quantity").notNull(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }).notNull(),
+  referenceType: varchar("reference_type", { length: 50 }),
+  referenceId: varchar("reference_id"),
+  // The item-level transaction this movement was posted with; transfers have none
+  inventoryTransactionId: varchar("inventory_transaction_id").references(() => inventoryTransactions.id),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_stock_movements_item").on(table.tenantId, table.itemId, table.createdAt),
+  index("idx_stock_movements_lot").on(table.lotId),
+  index("idx_stock_movements_reference").on(table.referenceType, table.referenceId),
+]);
+
+export type StockTransferLine = {
+  itemId: string;
+  // Source lot the units were picked from
+  lotId: string;
+  batchNumber: string | null;
+  serialNumber: string | null;
+  expiryDate: string | null;
+  unitCost: number;
+  quantity: number;
+};
+
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  transferNumber: varchar("transfer_number", { length: 50 }).notNull(),
+  fromWarehouseId: varchar("from_warehouse_id").notNull().references(() => warehouses.id),
+  toWarehouseId: varchar("to_warehouse_id").notNull().references(() => warehouses.id),
+  status: stockTransferStatusEnum("status").notNull().default("in_transit"),
+  lines: jsonb("lines").$type<StockTransferLine[]>().notNull(),
+  notes: text("notes"),
+  dispatchedBy: varchar("dispatched_by").references(() => users.id),
+  dispatchedAt: timestamp("dispatched_at").notNull().defaultNow(),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_stock_transfers_number").on(table.tenantId, table.transferNumber),
+  index("idx_stock_transfers_status").on(table.tenantId, table.status),
+]);
+
+export const cycleCounts = pgTable("cycle_counts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  countNumber: varchar("count_number", { length: 50 }).notNull(),
+  warehouseId: varchar("warehouse_id").notNull().references(() => warehouses.id),
+  status: cycleCountStatusEnum("status").notNull().default("open"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  postedBy: varchar("posted_by").references(() => users.id),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_cycle_counts_number").on(table.tenantId, table.countNumber),
+  index("idx_cycle_counts_warehouse").on(table.warehouseId, table.status),
+]);
+
+export const cycleCountLines = pgTable("cycle_count_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cycleCountId: varchar("cycle_count_id").notNull().references(() => cycleCounts.id, { onDelete: "cascade" }),
+  itemId: varchar("item_id").notNull().references(() => inventoryItems.id),
+  // Null for stock found during the count that the system did not know about
+  lotId: varchar("lot_id").references(() => stockLots.id),
+  batchNumber: varchar("batch_number", { length: 100 }),
+  serialNumber: varchar("serial_number", { length: 100 }),
+  expiryDate: date("expiry_date"),
+  // System quantity when the count was opened
+  expectedQuantity: integer("expected_quantity").notNull(),
+  countedQuantity: integer("counted_quantity"),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }).notNull(),
+  countedBy: varchar("counted_by").references(() => users.id),
+  countedAt: timestamp("counted_at"),
+}, (table) => [
+  index("idx_cycle_count_lines_count").on(table.cycleCountId),
+]);
+
+export type Warehouse = typeof warehouses.$inferSelect;
+export type InventorySettings = typeof inventorySettings.$inferSelect;
+export type StockLot = typeof stockLots.$inferSelect;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type CycleCount = typeof cycleCounts.$inferSelect;
+export type CycleCountLine = typeof cycleCountLines.$inferSelect;